@@ -0,0 +1,46 @@
+-- Migration for configurable approval chains
+--
+-- Each active rule that matches a request adds a step to its approval chain.
+-- A rule matches when every condition it sets holds: the request contains an
+-- item of its category, and its total quantity / total value (quantity x item
+-- price) reaches the threshold. A step is decided by approver_id when set,
+-- otherwise by any user with approver_role, otherwise by any approver.
+CREATE TABLE IF NOT EXISTS approval_rules (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  "step_order" INT NOT NULL DEFAULT 1,
+  category VARCHAR(100),
+  "min_quantity" INT,
+  "min_value" DECIMAL(15, 2),
+  "approver_role" VARCHAR(50),
+  "approver_id" VARCHAR(255) REFERENCES users(id) ON DELETE SET NULL,
+  "is_active" INT NOT NULL DEFAULT 1,
+  "created_at" TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- The steps of each request's chain, and who decided them
+CREATE TABLE IF NOT EXISTS request_approvals (
+  id SERIAL PRIMARY KEY,
+  "request_id" VARCHAR(255) NOT NULL REFERENCES requests(id) ON DELETE CASCADE,
+  "rule_id" INT REFERENCES approval_rules(id) ON DELETE SET NULL,
+  "step_order" INT NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  "approver_role" VARCHAR(50),
+  "approver_id" VARCHAR(255) REFERENCES users(id) ON DELETE SET NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, approved, rejected, skipped
+  "decided_by" VARCHAR(255) REFERENCES users(id) ON DELETE SET NULL,
+  "decided_at" TIMESTAMP WITH TIME ZONE,
+  comment TEXT,
+  "created_at" TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_request_approvals_request ON request_approvals ("request_id", "step_order");
+
+-- Every request is reviewed by an approver first
+INSERT INTO approval_rules (name, "step_order")
+  SELECT 'Approver review', 1
+  WHERE NOT EXISTS (SELECT 1 FROM approval_rules);
+
+-- Notifications raised by the server carry a type and the request they are about
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS type VARCHAR(50);
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS "related_item_id" VARCHAR(255);
@@ -0,0 +1,32 @@
+-- Migration for serial-numbered asset units of borrowable items
+--
+-- An item's stock counts interchangeable units; asset units tell them apart
+-- by serial number, so a loan records which laptop went to whom. Once an
+-- item has asset units, checking a loan of it out names the units handed
+-- over (loan_units), and checking it in returns them, or marks those
+-- reported damaged (maintenance) or lost. A unit's current holder is the
+-- borrower of the loan it is out on.
+CREATE TABLE IF NOT EXISTS asset_units (
+  id SERIAL PRIMARY KEY,
+  "item_id" INT NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+  "serial_number" VARCHAR(100) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'available', -- available, on_loan, maintenance, retired, lost
+  "purchase_date" DATE,
+  "warranty_expires" DATE,
+  notes TEXT,
+  "created_at" TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE ("item_id", "serial_number")
+);
+
+CREATE INDEX IF NOT EXISTS idx_asset_units_item ON asset_units ("item_id");
+
+CREATE TABLE IF NOT EXISTS loan_units (
+  "loan_id" VARCHAR(255) NOT NULL REFERENCES loans(id) ON DELETE CASCADE,
+  "asset_unit_id" INT NOT NULL REFERENCES asset_units(id),
+  -- Reported damaged or lost at check-in, and written off with the loan
+  "written_off" BOOLEAN NOT NULL DEFAULT FALSE,
+  PRIMARY KEY ("loan_id", "asset_unit_id")
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_units_unit ON loan_units ("asset_unit_id");
@@ -0,0 +1,33 @@
+-- Migration for inventory costing
+--
+-- Every stock-in adds a cost layer holding what one unit of it cost, and
+-- stock-outs use up the oldest layers first. items.average_cost is the moving
+-- weighted average cost of what is on hand. Stock-outs are costed either at
+-- that average or at the layers they used up, depending on COSTING_METHOD
+-- (see server/config.js). stock_history keeps the cost of each movement,
+-- signed like quantity_change.
+CREATE TABLE IF NOT EXISTS cost_layers (
+  id SERIAL PRIMARY KEY,
+  "item_id" INT NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+  "stock_history_id" INT REFERENCES stock_history(id) ON DELETE SET NULL,
+  quantity INT NOT NULL CHECK (quantity > 0),
+  "remaining_quantity" INT NOT NULL CHECK ("remaining_quantity" >= 0),
+  "unit_cost" DECIMAL(15, 4) NOT NULL DEFAULT 0,
+  "created_at" TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_cost_layers_open
+  ON cost_layers ("item_id", "created_at", id) WHERE "remaining_quantity" > 0;
+
+ALTER TABLE items ADD COLUMN IF NOT EXISTS "average_cost" DECIMAL(15, 4);
+
+ALTER TABLE stock_history ADD COLUMN IF NOT EXISTS "unit_cost" DECIMAL(15, 4);
+ALTER TABLE stock_history ADD COLUMN IF NOT EXISTS "total_cost" DECIMAL(15, 2);
+
+-- Stock already on hand opens at the item's price
+UPDATE items SET average_cost = COALESCE(price, 0) WHERE average_cost IS NULL;
+
+INSERT INTO cost_layers ("item_id", quantity, "remaining_quantity", "unit_cost")
+  SELECT id, quantity, quantity, average_cost FROM items
+  WHERE quantity > 0
+    AND NOT EXISTS (SELECT 1 FROM cost_layers WHERE cost_layers.item_id = items.id);
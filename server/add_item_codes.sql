@@ -0,0 +1,13 @@
+-- Migration for item SKUs, barcodes and variant attributes
+--
+-- sku is the company's own code for an item and barcode the value printed
+-- on it (EAN-13/EAN-8, or anything Code128 can encode). Neither is required,
+-- but no two items may share one; SKUs are compared ignoring case.
+-- variant_attributes tells variants of the same product apart, e.g.
+-- {"gsm": "70"} and {"gsm": "80"} for two kinds of A4 paper.
+ALTER TABLE items ADD COLUMN IF NOT EXISTS sku VARCHAR(64);
+ALTER TABLE items ADD COLUMN IF NOT EXISTS barcode VARCHAR(64);
+ALTER TABLE items ADD COLUMN IF NOT EXISTS "variant_attributes" JSONB NOT NULL DEFAULT '{}';
+
+CREATE UNIQUE INDEX IF NOT EXISTS items_sku_key ON items (LOWER(sku)) WHERE sku IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS items_barcode_key ON items (barcode) WHERE barcode IS NOT NULL;
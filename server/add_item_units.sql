@@ -0,0 +1,47 @@
+-- Migration for units of measure and per-item unit conversions
+--
+-- Stock is always counted in an item's own unit (items.unit). An item can
+-- also be requested or moved in the other units listed in item_units, where
+-- factor is how many of the stock unit one of that unit holds, e.g. 5 for
+-- "1 box = 5 rim" on paper counted in rim.
+CREATE TABLE IF NOT EXISTS units (
+  code VARCHAR(50) PRIMARY KEY,
+  name VARCHAR(100) NOT NULL
+);
+
+INSERT INTO units (code, name) VALUES
+  ('pcs', 'Pieces'),
+  ('rim', 'Rim'),
+  ('box', 'Box'),
+  ('pack', 'Pack'),
+  ('lusin', 'Lusin (12)'),
+  ('sheet', 'Sheet'),
+  ('roll', 'Roll'),
+  ('set', 'Set')
+ON CONFLICT (code) DO NOTHING;
+
+-- Units items are already counted in
+INSERT INTO units (code, name)
+  SELECT DISTINCT unit, unit FROM items WHERE unit IS NOT NULL AND unit <> ''
+ON CONFLICT (code) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS item_units (
+  "item_id" INT NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+  unit VARCHAR(50) NOT NULL REFERENCES units(code) ON DELETE CASCADE,
+  factor DECIMAL(15, 4) NOT NULL CHECK (factor > 0),
+  PRIMARY KEY ("item_id", unit)
+);
+
+-- Request lines keep what was asked for in requested_quantity and unit;
+-- quantity, approved_quantity and delivered_quantity are in base_unit, the
+-- item's stock unit when the request was made
+ALTER TABLE request_items ADD COLUMN IF NOT EXISTS "requested_quantity" INT;
+ALTER TABLE request_items ADD COLUMN IF NOT EXISTS "base_unit" VARCHAR(50);
+ALTER TABLE request_items ADD COLUMN IF NOT EXISTS "conversion_factor" DECIMAL(15, 4) NOT NULL DEFAULT 1;
+
+UPDATE request_items SET requested_quantity = quantity, base_unit = unit
+  WHERE requested_quantity IS NULL;
+
+-- Movements entered in another unit than the stock unit keep what was entered
+ALTER TABLE stock_history ADD COLUMN IF NOT EXISTS "entered_quantity" DECIMAL(15, 4);
+ALTER TABLE stock_history ADD COLUMN IF NOT EXISTS "entered_unit" VARCHAR(50);
@@ -0,0 +1,36 @@
+-- Migration for loan extensions and overdue reminders
+--
+-- A borrower can ask for a loan that is out to be due later; staff who
+-- manage loans approve or reject the request. Approved extensions move the
+-- loan's due date, and together they are the history of its due dates.
+-- loan_reminders records the reminders sent about a loan (see
+-- sendLoanReminders in server/index.js) so each goes out once per due date,
+-- however many instances of the API run the reminder job.
+CREATE TABLE IF NOT EXISTS loan_extensions (
+  id SERIAL PRIMARY KEY,
+  "loan_id" VARCHAR(255) NOT NULL REFERENCES loans(id) ON DELETE CASCADE,
+  "requested_by" VARCHAR(255) REFERENCES users(id) ON DELETE SET NULL,
+  "previous_due_date" DATE NOT NULL,
+  "requested_due_date" DATE NOT NULL,
+  reason TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, approved, rejected
+  "decided_by" VARCHAR(255) REFERENCES users(id) ON DELETE SET NULL,
+  "decided_at" TIMESTAMP WITH TIME ZONE,
+  "decision_notes" TEXT,
+  "created_at" TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CHECK ("requested_due_date" > "previous_due_date")
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_extensions_loan ON loan_extensions ("loan_id");
+-- A loan has at most one extension waiting for a decision
+CREATE UNIQUE INDEX IF NOT EXISTS idx_loan_extensions_pending
+  ON loan_extensions ("loan_id") WHERE status = 'pending';
+
+CREATE TABLE IF NOT EXISTS loan_reminders (
+  id SERIAL PRIMARY KEY,
+  "loan_id" VARCHAR(255) NOT NULL REFERENCES loans(id) ON DELETE CASCADE,
+  kind VARCHAR(20) NOT NULL, -- due_soon, overdue, escalated
+  "due_date" DATE NOT NULL,
+  "sent_at" TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE ("loan_id", kind, "due_date")
+);
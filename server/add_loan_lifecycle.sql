@@ -0,0 +1,47 @@
+-- Migration for the loan lifecycle with approval and condition reports
+--
+-- A borrower requests a loan, staff who manage loans approve or reject it,
+-- and the equipment is then checked out at the desk and checked back in.
+-- Both hand-overs record a condition report with optional photos, whose
+-- files live in the attachment storage backend (see server/storage.js).
+-- Equipment checked in damaged or lost is written off stock, and the report
+-- points at the stock_history entry doing so. Loan statuses are now:
+--   requested, approved, rejected, cancelled  (waiting to be checked out)
+--   checked_out, overdue                      (out with the borrower)
+--   returned, damaged, lost                   (checked in)
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS "approved_by" VARCHAR(255) REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS "approved_at" TIMESTAMP WITH TIME ZONE;
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS "decision_notes" TEXT;
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS "checked_out_at" TIMESTAMP WITH TIME ZONE;
+
+-- Loans made before approval existed were handed out straight away
+UPDATE loans SET status = 'checked_out' WHERE status = 'active';
+UPDATE loans SET "checked_out_at" = "borrowed_date"
+  WHERE "checked_out_at" IS NULL AND status IN ('checked_out', 'overdue', 'returned');
+
+CREATE TABLE IF NOT EXISTS loan_condition_reports (
+  id SERIAL PRIMARY KEY,
+  "loan_id" VARCHAR(255) NOT NULL REFERENCES loans(id) ON DELETE CASCADE,
+  stage VARCHAR(20) NOT NULL, -- check_out, check_in
+  condition VARCHAR(20) NOT NULL, -- good, fair, poor, damaged, lost
+  notes TEXT,
+  -- Units damaged or lost, written off stock by stock_history_id
+  "affected_quantity" INT NOT NULL DEFAULT 0,
+  "stock_history_id" INT REFERENCES stock_history(id) ON DELETE SET NULL,
+  "recorded_by" VARCHAR(255) REFERENCES users(id) ON DELETE SET NULL,
+  "created_at" TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_condition_reports_loan ON loan_condition_reports ("loan_id");
+
+CREATE TABLE IF NOT EXISTS loan_condition_photos (
+  id SERIAL PRIMARY KEY,
+  "report_id" INT NOT NULL REFERENCES loan_condition_reports(id) ON DELETE CASCADE,
+  "file_name" VARCHAR(255) NOT NULL,
+  "content_type" VARCHAR(255) NOT NULL,
+  size INT NOT NULL,
+  "storage_key" VARCHAR(500) NOT NULL UNIQUE,
+  "created_at" TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_condition_photos_report ON loan_condition_photos ("report_id");
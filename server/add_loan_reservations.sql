@@ -0,0 +1,48 @@
+-- Migration for loans and advance reservations of borrowable equipment
+--
+-- A loan is equipment that is out with a borrower until it is returned;
+-- items.borrowed_quantity counts what is out. A reservation books a quantity
+-- of an item for a future date range, and becomes a loan when the borrower
+-- picks it up. An item cannot be booked beyond its stock on any day: loans
+-- hold their quantity from the day they start until they are returned, and
+-- reservations from their start date to their end date.
+CREATE TABLE IF NOT EXISTS loans (
+  id VARCHAR(255) PRIMARY KEY,
+  "user_id" VARCHAR(255) NOT NULL REFERENCES users(id),
+  "item_id" INT NOT NULL REFERENCES items(id),
+  quantity INT NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  status VARCHAR(20) NOT NULL DEFAULT 'active', -- active, returned, overdue
+  "borrowed_date" TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  "due_date" DATE NOT NULL,
+  "returned_date" TIMESTAMP WITH TIME ZONE,
+  notes TEXT,
+  "created_at" TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_loans_user_id ON loans ("user_id");
+CREATE INDEX IF NOT EXISTS idx_loans_item_status ON loans ("item_id", status);
+
+ALTER TABLE items ADD COLUMN IF NOT EXISTS "borrowed_quantity" INT NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS loan_reservations (
+  id SERIAL PRIMARY KEY,
+  "item_id" INT NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+  "user_id" VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  quantity INT NOT NULL CHECK (quantity > 0),
+  "start_date" DATE NOT NULL,
+  "end_date" DATE NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'reserved', -- reserved, picked_up, cancelled, expired
+  notes TEXT,
+  "loan_id" VARCHAR(255) REFERENCES loans(id) ON DELETE SET NULL,
+  "created_at" TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CHECK ("end_date" >= "start_date")
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_reservations_item
+  ON loan_reservations ("item_id", "start_date", "end_date") WHERE status = 'reserved';
+CREATE INDEX IF NOT EXISTS idx_loan_reservations_user ON loan_reservations ("user_id");
+
+-- Loans made from a reservation point back to it
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS "reservation_id" INT REFERENCES loan_reservations(id) ON DELETE SET NULL;
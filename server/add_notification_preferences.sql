@@ -0,0 +1,35 @@
+-- Migration for per-user notification preferences and daily digests
+--
+-- Users choose which notification types they get, which item categories
+-- they follow (none: all of them), quiet hours and whether notifications are
+-- batched into a daily digest. Times are in notificationConfig.timeZone.
+-- Notifications arriving during quiet hours, or meant for a digest, wait in
+-- held_notifications until they are delivered (see notifyUsers in
+-- server/index.js). items.low_stock_notified remembers that staff were told
+-- an item fell to its minimum quantity, until it is restocked above it.
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  "user_id" VARCHAR(255) PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  "muted_types" JSONB NOT NULL DEFAULT '[]',
+  categories JSONB NOT NULL DEFAULT '[]',
+  "quiet_hours_start" TIME,
+  "quiet_hours_end" TIME,
+  digest BOOLEAN NOT NULL DEFAULT FALSE,
+  "digest_time" TIME NOT NULL DEFAULT '08:00',
+  "last_digest_at" TIMESTAMP WITH TIME ZONE,
+  "updated_at" TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS held_notifications (
+  id SERIAL PRIMARY KEY,
+  "user_id" VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type VARCHAR(50),
+  message TEXT NOT NULL,
+  "related_item_id" VARCHAR(255),
+  -- Waiting for the user's next digest rather than the end of quiet hours
+  digest BOOLEAN NOT NULL DEFAULT FALSE,
+  "created_at" TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_held_notifications_user ON held_notifications ("user_id");
+
+ALTER TABLE items ADD COLUMN IF NOT EXISTS "low_stock_notified" BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,47 @@
+-- Migration for suppliers, purchase orders and goods receiving
+--
+-- A purchase order starts as a draft, is sent to its supplier, and is
+-- received in one or more deliveries: partially_received until every line
+-- has been received in full, then received. Each delivery adds stock through
+-- a 'restock' stock_history entry whose reference_id is the order's number.
+CREATE TABLE IF NOT EXISTS suppliers (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(255) NOT NULL UNIQUE,
+  "contact_name" VARCHAR(255),
+  email VARCHAR(255),
+  phone VARCHAR(50),
+  address TEXT,
+  notes TEXT,
+  "is_active" INT NOT NULL DEFAULT 1,
+  "created_at" TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id SERIAL PRIMARY KEY,
+  "po_number" VARCHAR(50) UNIQUE,
+  "supplier_id" INT NOT NULL REFERENCES suppliers(id) ON DELETE RESTRICT,
+  status VARCHAR(20) NOT NULL DEFAULT 'draft', -- draft, sent, partially_received, received, cancelled
+  "expected_date" DATE,
+  notes TEXT,
+  "created_by" VARCHAR(255) REFERENCES users(id) ON DELETE SET NULL,
+  "created_at" TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  "sent_at" TIMESTAMP WITH TIME ZONE,
+  "received_at" TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON purchase_orders (status);
+
+CREATE TABLE IF NOT EXISTS purchase_order_lines (
+  id SERIAL PRIMARY KEY,
+  "purchase_order_id" INT NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  "item_id" INT NOT NULL REFERENCES items(id) ON DELETE RESTRICT,
+  "quantity_ordered" INT NOT NULL CHECK ("quantity_ordered" > 0),
+  "quantity_received" INT NOT NULL DEFAULT 0 CHECK ("quantity_received" >= 0),
+  "unit_price" DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  UNIQUE ("purchase_order_id", "item_id")
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_item ON purchase_order_lines ("item_id");
+
+ALTER TABLE stock_history ADD COLUMN IF NOT EXISTS "reference_id" VARCHAR(100);
+CREATE INDEX IF NOT EXISTS idx_stock_history_reference ON stock_history ("reference_id");
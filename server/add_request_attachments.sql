@@ -0,0 +1,16 @@
+-- Migration for files attached to requests
+--
+-- The file contents live in the attachment storage backend (see
+-- server/storage.js) under storage_key; this table holds their metadata.
+CREATE TABLE IF NOT EXISTS request_attachments (
+  id SERIAL PRIMARY KEY,
+  "request_id" VARCHAR(255) NOT NULL REFERENCES requests(id) ON DELETE CASCADE,
+  "file_name" VARCHAR(255) NOT NULL,
+  "content_type" VARCHAR(255) NOT NULL,
+  size INT NOT NULL,
+  "storage_key" VARCHAR(500) NOT NULL UNIQUE,
+  "uploaded_by" VARCHAR(255) REFERENCES users(id) ON DELETE SET NULL,
+  "created_at" TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_request_attachments_request ON request_attachments ("request_id");
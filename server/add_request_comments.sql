@@ -0,0 +1,24 @@
+-- Migration for the discussion thread on each request
+--
+-- Replies point at the comment they answer; the thread is one level deep, so
+-- replies to a reply are attached to its top-level comment. A comment that
+-- still has replies is blanked out rather than deleted to keep the thread.
+CREATE TABLE IF NOT EXISTS request_comments (
+  id SERIAL PRIMARY KEY,
+  "request_id" VARCHAR(255) NOT NULL REFERENCES requests(id) ON DELETE CASCADE,
+  "parent_id" INT REFERENCES request_comments(id) ON DELETE CASCADE,
+  "user_id" VARCHAR(255) REFERENCES users(id) ON DELETE SET NULL,
+  body TEXT NOT NULL,
+  "is_deleted" INT NOT NULL DEFAULT 0,
+  "created_at" TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_request_comments_request ON request_comments ("request_id", "created_at");
+
+-- Users mentioned with @name in a comment
+CREATE TABLE IF NOT EXISTS request_comment_mentions (
+  "comment_id" INT NOT NULL REFERENCES request_comments(id) ON DELETE CASCADE,
+  "user_id" VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  PRIMARY KEY ("comment_id", "user_id")
+);
@@ -0,0 +1,13 @@
+-- Migration to track the unit and approval status of each request line
+ALTER TABLE request_items ADD COLUMN IF NOT EXISTS "unit" VARCHAR(50) NOT NULL DEFAULT 'pcs';
+ALTER TABLE request_items ADD COLUMN IF NOT EXISTS "status" VARCHAR(20) NOT NULL DEFAULT 'pending';
+
+-- Lines of requests that were already decided take the request's outcome
+UPDATE request_items ri SET status = 'approved'
+  FROM requests r WHERE r.id = ri.request_id AND r.status IN ('approved', 'fulfilled');
+UPDATE request_items ri SET status = 'rejected'
+  FROM requests r WHERE r.id = ri.request_id AND r.status IN ('denied', 'out_of_stock');
+
+-- Use the item's own unit for existing lines
+UPDATE request_items ri SET unit = i.unit
+  FROM items i WHERE i.id = ri.item_id AND i.unit IS NOT NULL;
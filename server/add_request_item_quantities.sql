@@ -0,0 +1,14 @@
+-- Migration to track approved and delivered quantities per request line
+ALTER TABLE request_items ADD COLUMN IF NOT EXISTS "approved_quantity" INT;
+ALTER TABLE request_items ADD COLUMN IF NOT EXISTS "delivered_quantity" INT NOT NULL DEFAULT 0;
+
+-- Lines approved before this migration were approved in full
+UPDATE request_items SET approved_quantity = quantity
+  WHERE status = 'approved' AND approved_quantity IS NULL;
+UPDATE request_items SET approved_quantity = 0
+  WHERE status = 'rejected' AND approved_quantity IS NULL;
+
+-- Fulfilled requests delivered everything that was approved
+UPDATE request_items ri SET delivered_quantity = ri.approved_quantity
+  FROM requests r
+  WHERE r.id = ri.request_id AND r.status = 'fulfilled' AND ri.status = 'approved';
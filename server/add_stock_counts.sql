@@ -0,0 +1,40 @@
+-- Migration for stock opname (physical stock count) sessions
+--
+-- A count covers the items of one category, the stock held at one location,
+-- or both. Opening it freezes what every covered location is expected to
+-- hold, one line per item and location, along with the item's price so the
+-- value of a variance does not change while the count runs. Staff enter what
+-- they counted, reviewers approve the differences, and posting the count
+-- applies every approved difference as an 'opname' stock_history entry.
+CREATE TABLE IF NOT EXISTS stock_counts (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  category VARCHAR(100),
+  "location_id" INT REFERENCES stock_locations(id) ON DELETE SET NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'open', -- open, posted, cancelled
+  notes TEXT,
+  "created_by" VARCHAR(255) REFERENCES users(id) ON DELETE SET NULL,
+  "created_at" TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  "posted_by" VARCHAR(255) REFERENCES users(id) ON DELETE SET NULL,
+  "posted_at" TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS stock_count_lines (
+  id SERIAL PRIMARY KEY,
+  "count_id" INT NOT NULL REFERENCES stock_counts(id) ON DELETE CASCADE,
+  "item_id" INT NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+  "location_id" INT NOT NULL REFERENCES stock_locations(id) ON DELETE CASCADE,
+  "expected_quantity" INT NOT NULL,
+  "unit_price" DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  "counted_quantity" INT CHECK ("counted_quantity" >= 0),
+  "counted_by" VARCHAR(255) REFERENCES users(id) ON DELETE SET NULL,
+  "counted_at" TIMESTAMP WITH TIME ZONE,
+  note TEXT,
+  "is_approved" INT NOT NULL DEFAULT 0,
+  UNIQUE ("count_id", "item_id", "location_id")
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_count_lines_count ON stock_count_lines ("count_id");
+
+-- Posted differences point back to the count they came from
+ALTER TABLE stock_history ADD COLUMN IF NOT EXISTS "stock_count_id" INT REFERENCES stock_counts(id) ON DELETE SET NULL;
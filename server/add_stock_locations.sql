@@ -0,0 +1,56 @@
+-- Migration for stock held at several warehouses and bin locations
+--
+-- Every warehouse has one or more bin locations, and item_locations holds how
+-- much of each item every location has. items.quantity stays the total over
+-- all locations. Stock without a location given (new items, older clients)
+-- goes to the default location.
+CREATE TABLE IF NOT EXISTS warehouses (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(255) NOT NULL UNIQUE,
+  address TEXT,
+  "is_active" INT NOT NULL DEFAULT 1,
+  "created_at" TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS stock_locations (
+  id SERIAL PRIMARY KEY,
+  "warehouse_id" INT NOT NULL REFERENCES warehouses(id) ON DELETE CASCADE,
+  code VARCHAR(100) NOT NULL,
+  description TEXT,
+  "is_default" INT NOT NULL DEFAULT 0,
+  "created_at" TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE ("warehouse_id", code)
+);
+
+CREATE TABLE IF NOT EXISTS item_locations (
+  "item_id" INT NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+  "location_id" INT NOT NULL REFERENCES stock_locations(id) ON DELETE RESTRICT,
+  quantity INT NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  PRIMARY KEY ("item_id", "location_id")
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_locations_location ON item_locations ("location_id");
+
+-- Movements record the location they happened at; transfers also record
+-- where the stock went and how much of it moved
+ALTER TABLE stock_history ADD COLUMN IF NOT EXISTS "location_id" INT REFERENCES stock_locations(id) ON DELETE SET NULL;
+ALTER TABLE stock_history ADD COLUMN IF NOT EXISTS "to_location_id" INT REFERENCES stock_locations(id) ON DELETE SET NULL;
+ALTER TABLE stock_history ADD COLUMN IF NOT EXISTS "transfer_quantity" INT;
+
+-- Existing stock starts out at the default location of a main warehouse
+INSERT INTO warehouses (name)
+  SELECT 'Main Warehouse'
+  WHERE NOT EXISTS (SELECT 1 FROM warehouses);
+
+INSERT INTO stock_locations ("warehouse_id", code, "is_default")
+  SELECT id, 'MAIN', 1 FROM warehouses
+  WHERE NOT EXISTS (SELECT 1 FROM stock_locations)
+  ORDER BY id
+  LIMIT 1;
+
+INSERT INTO item_locations ("item_id", "location_id", quantity)
+  SELECT i.id, sl.id, i.quantity
+  FROM items i
+  CROSS JOIN (SELECT id FROM stock_locations WHERE "is_default" = 1 ORDER BY id LIMIT 1) sl
+  WHERE i.quantity > 0
+    AND NOT EXISTS (SELECT 1 FROM item_locations il WHERE il.item_id = i.id);
@@ -0,0 +1,154 @@
+const jwt = require("jsonwebtoken");
+const { authConfig } = require("./config");
+// Role/permission matrix shared with the frontend (src/utils/permissions.ts)
+const { roles: rolePermissions } = require("../shared/permissions.json");
+
+// Routes that can be called without an access token.
+// Paths are relative to the /api mount point.
+const PUBLIC_ROUTES = [
+  { method: "POST", path: /^\/auth\/(login|refresh|register)$/ },
+  { method: "GET", path: /^\/(test-connection|v2\/health)$/ },
+  // The item catalog is browsable without logging in (see /browse): the
+  // list, search and single items by id. Other /items/<name> routes such as
+  // reorder-suggestions need the caller's token.
+  { method: "GET", path: /^\/items(\/(\d+|search))?$/ },
+  { method: "GET", path: /^\/categories(\/[^/]+)?$/ },
+];
+
+const isPublicRoute = (method, path) =>
+  PUBLIC_ROUTES.some((route) => route.method === method && route.path.test(path));
+
+// Only the claims the API needs to authorize a call are put in the token
+const toTokenPayload = (user) => ({
+  sub: user.id.toString(),
+  username: user.username,
+  email: user.email,
+  role: user.role || "user",
+});
+
+// Convert a signed token's "exp" claim to an ISO timestamp for the client
+const getExpiry = (token) => new Date(jwt.decode(token).exp * 1000).toISOString();
+
+/**
+ * Issue a fresh access/refresh token pair for a user
+ */
+function issueTokens(user) {
+  const payload = toTokenPayload(user);
+
+  const accessToken = jwt.sign(payload, authConfig.accessTokenSecret, {
+    expiresIn: authConfig.accessTokenTtl,
+  });
+  const refreshToken = jwt.sign(
+    { sub: payload.sub, type: "refresh" },
+    authConfig.refreshTokenSecret,
+    { expiresIn: authConfig.refreshTokenTtl }
+  );
+
+  return {
+    accessToken,
+    refreshToken,
+    accessTokenExpiresAt: getExpiry(accessToken),
+    refreshTokenExpiresAt: getExpiry(refreshToken),
+  };
+}
+
+/**
+ * Verify a refresh token and return the user id it was issued for.
+ * Throws if the token is invalid or expired.
+ */
+function verifyRefreshToken(token) {
+  const payload = jwt.verify(token, authConfig.refreshTokenSecret);
+  if (payload.type !== "refresh") {
+    throw new Error("Not a refresh token");
+  }
+  return payload.sub;
+}
+
+/**
+ * Express middleware that requires a valid Bearer access token on every
+ * non-public /api route and exposes the caller as req.user
+ */
+function authenticate(req, res, next) {
+  if (req.method === "OPTIONS" || isPublicRoute(req.method, req.path)) {
+    return next();
+  }
+
+  const header = req.headers.authorization || "";
+  const [scheme, token] = header.split(" ");
+
+  if (scheme !== "Bearer" || !token) {
+    return res.status(401).json({
+      success: false,
+      message: "Authentication required",
+    });
+  }
+
+  try {
+    const payload = jwt.verify(token, authConfig.accessTokenSecret);
+    req.user = {
+      id: payload.sub,
+      username: payload.username,
+      email: payload.email,
+      role: payload.role,
+    };
+    req.tokenExpiresAt = payload.exp * 1000;
+    next();
+  } catch (error) {
+    res.status(401).json({
+      success: false,
+      message:
+        error.name === "TokenExpiredError"
+          ? "Access token expired"
+          : "Invalid access token",
+      code: error.name === "TokenExpiredError" ? "token_expired" : "invalid_token",
+    });
+  }
+}
+
+/**
+ * Check whether a role is granted a permission from the shared matrix
+ */
+function hasPermission(role, permission) {
+  return (rolePermissions[role] || []).includes(permission);
+}
+
+/**
+ * Check whether a role exists in the shared matrix
+ */
+function hasRole(role) {
+  return Object.prototype.hasOwnProperty.call(rolePermissions, role);
+}
+
+/**
+ * Express middleware that rejects callers whose role lacks a permission.
+ * Must run after authenticate so req.user is populated.
+ */
+function requirePermission(permission) {
+  return (req, res, next) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: "Authentication required",
+      });
+    }
+
+    if (!hasPermission(req.user.role, permission)) {
+      return res.status(403).json({
+        success: false,
+        message: "You do not have permission to perform this action",
+        permission,
+      });
+    }
+
+    next();
+  };
+}
+
+module.exports = {
+  issueTokens,
+  verifyRefreshToken,
+  authenticate,
+  hasPermission,
+  hasRole,
+  requirePermission,
+};
@@ -1,5 +1,6 @@
 // Load environment variables
 require('dotenv').config();
+const path = require('path');
 
 // Database configuration
 const dbConfig = {
@@ -23,7 +24,110 @@ const serverConfig = {
   corsOrigin: process.env.CORS_ORIGIN || '*'
 };
 
+// The development fallbacks below would let anyone forge tokens, so
+// production deploys must set their own secrets
+if (
+  process.env.NODE_ENV === 'production' &&
+  (!process.env.JWT_ACCESS_SECRET || !process.env.JWT_REFRESH_SECRET)
+) {
+  throw new Error('JWT_ACCESS_SECRET and JWT_REFRESH_SECRET must be set in production');
+}
+
+// Authentication configuration
+const authConfig = {
+  accessTokenSecret: process.env.JWT_ACCESS_SECRET || 'dev-access-secret-change-me',
+  refreshTokenSecret: process.env.JWT_REFRESH_SECRET || 'dev-refresh-secret-change-me',
+  accessTokenTtl: process.env.JWT_ACCESS_TTL || '15m',
+  refreshTokenTtl: process.env.JWT_REFRESH_TTL || '7d'
+};
+
+// Pagination defaults for list endpoints (mirrors DEFAULT_PAGE_SIZE in src/config.ts)
+const paginationConfig = {
+  defaultPageSize: 10,
+  maxPageSize: 100,
+  // Suggestions returned by typeahead lookups such as GET /api/items/search
+  typeaheadLimit: 10
+};
+
+// Request attachments: where they are stored and which files are accepted
+// (mirrors the ATTACHMENT_* settings in src/config.ts)
+const attachmentConfig = {
+  // Storage backend, see storage.js
+  driver: process.env.ATTACHMENT_STORAGE || 'local',
+  localDir: process.env.ATTACHMENT_DIR || path.join(__dirname, 'uploads'),
+  maxFileSize: 10 * 1024 * 1024,
+  maxFiles: 5,
+  // Accepted content types and the file extensions they may have
+  allowedTypes: {
+    'image/jpeg': ['.jpg', '.jpeg'],
+    'image/png': ['.png'],
+    'image/gif': ['.gif'],
+    'image/webp': ['.webp'],
+    'application/pdf': ['.pdf'],
+    'text/plain': ['.txt'],
+    'text/csv': ['.csv'],
+    'application/msword': ['.doc'],
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+    'application/vnd.ms-excel': ['.xls'],
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx']
+  }
+};
+
+// Reorder suggestions worked out from consumption history
+// (see GET /api/items/reorder-suggestions)
+const reorderConfig = {
+  // Days of issues and fulfilled requests the average daily usage is taken over
+  lookbackDays: parseInt(process.env.REORDER_LOOKBACK_DAYS || '90', 10),
+  // Days of purchase order deliveries lead times are measured from
+  leadTimeLookbackDays: 365,
+  // Lead time assumed for items never delivered against a purchase order
+  defaultLeadTimeDays: parseInt(process.env.REORDER_LEAD_TIME_DAYS || '7', 10),
+  // Extra days of usage kept in stock on top of the lead time
+  safetyStockDays: 3,
+  // Days of usage a suggested order covers beyond the reorder point
+  orderCoverDays: 30
+};
+
+// Inventory valuation (see recordStockCost in server/index.js)
+const costingConfig = {
+  // How stock-outs are costed: 'average' at the moving weighted average cost
+  // of what is on hand, 'fifo' at the cost of the oldest stock-ins left
+  method: process.env.COSTING_METHOD === 'fifo' ? 'fifo' : 'average'
+};
+
+// Borrowing equipment (see the loans API in server/index.js)
+const loanConfig = {
+  // Longest a loan or reservation can run, in days
+  maxLoanDays: parseInt(process.env.LOAN_MAX_DAYS || '30', 10),
+  // How far ahead equipment can be reserved, in days
+  maxAdvanceDays: parseInt(process.env.LOAN_MAX_ADVANCE_DAYS || '90', 10),
+  // Borrowers are reminded this many days before a loan is due
+  reminderDaysBefore: parseInt(process.env.LOAN_REMINDER_DAYS_BEFORE || '2', 10),
+  // Staff who manage loans are told of loans overdue for this many days
+  escalateAfterDays: parseInt(process.env.LOAN_ESCALATE_AFTER_DAYS || '3', 10),
+  // How often the reminder job runs, in minutes
+  reminderIntervalMinutes: parseInt(process.env.LOAN_REMINDER_INTERVAL_MINUTES || '60', 10)
+};
+
+// Notification preferences (see notifyUsers in server/index.js)
+const notificationConfig = {
+  // Time zone quiet hours and digest times are set in
+  timeZone: process.env.NOTIFICATION_TIME_ZONE || 'Asia/Jakarta',
+  // How often notifications held for quiet hours and digests are checked
+  // for delivery, in minutes
+  deliveryIntervalMinutes: parseInt(process.env.NOTIFICATION_DELIVERY_INTERVAL_MINUTES || '5', 10),
+  // Notifications listed in a digest; the rest are counted
+  digestMaxListed: 10
+};
+
 module.exports = {
   dbConfig,
-  serverConfig
+  serverConfig,
+  authConfig,
+  paginationConfig,
+  attachmentConfig,
+  reorderConfig,
+  costingConfig,
+  loanConfig,
+  notificationConfig
 };
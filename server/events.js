@@ -0,0 +1,86 @@
+const { hasPermission } = require("./auth");
+
+// Live updates pushed to the browser over Server-Sent Events. Each signed-in
+// tab keeps one GET /api/events stream open; the API publishes an event to
+// the streams of the users it concerns whenever something changes, e.g.
+//   notification      a notification was created for the user
+//   request_updated   a request was created, changed status or was deleted
+//   stock_changed     the quantity or details of items changed
+//   loan_updated      a loan was created or changed
+// Events only say what changed; clients fetch the new data themselves. The
+// streams live in this process, so every instance of the API only reaches
+// the clients connected to it. A stream ends when the access token it was
+// opened with expires, so clients reconnect with a fresh one or not at all.
+
+// Comment lines sent to keep proxies from closing idle streams
+const HEARTBEAT_INTERVAL = 25000;
+// How long the browser waits before reconnecting a dropped stream
+const RETRY_INTERVAL = 5000;
+
+const clients = new Set();
+
+/**
+ * Open an event stream for a user, by default the authenticated user of the
+ * request, until the request's access token expires
+ */
+function subscribe(req, res, user = req.user) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.write(`retry: ${RETRY_INTERVAL}\n\n`);
+
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), HEARTBEAT_INTERVAL);
+  const expiry = setTimeout(() => close(), Math.max(req.tokenExpiresAt - Date.now(), 0));
+  const client = { user, res };
+  const close = () => {
+    clearInterval(heartbeat);
+    clearTimeout(expiry);
+    clients.delete(client);
+    res.end();
+  };
+  client.close = close;
+  clients.add(client);
+
+  req.on("close", close);
+}
+
+/**
+ * Make the open streams of a user follow a change of their role, or end
+ * them when role is null, e.g. because the user was deleted
+ */
+function updateUserStreams(userId, role) {
+  for (const client of clients) {
+    if (client.user.id !== String(userId)) continue;
+    if (role) {
+      client.user = { ...client.user, role };
+    } else {
+      client.close();
+    }
+  }
+}
+
+/**
+ * Send an event to the connected clients it concerns: the users in userIds
+ * and the users whose role has the given permission. Without either the
+ * event goes to everyone.
+ */
+function publish(type, data, { userIds, permission } = {}) {
+  const recipients = userIds ? new Set(userIds.filter(Boolean).map(String)) : null;
+  const message = `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+
+  for (const client of clients) {
+    const isRecipient =
+      (!recipients && !permission) ||
+      (recipients && recipients.has(client.user.id)) ||
+      (permission && hasPermission(client.user.role, permission));
+
+    if (isRecipient) {
+      client.res.write(message);
+    }
+  }
+}
+
+module.exports = { subscribe, publish, updateUserStreams };
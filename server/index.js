@@ -1,8 +1,21 @@
 const express = require("express");
 const cors = require("cors");
+const crypto = require("crypto");
+const path = require("path");
+const multer = require("multer");
 const mysql = require("./pg-shim");
 const OpenAI = require("openai");
-const { dbConfig, serverConfig } = require('./config');
+const { dbConfig, serverConfig, paginationConfig, attachmentConfig, reorderConfig, costingConfig, loanConfig, notificationConfig } = require('./config');
+const { createStorage } = require("./storage");
+const { subscribe: subscribeToEvents, publish, updateUserStreams } = require("./events");
+const {
+  issueTokens,
+  verifyRefreshToken,
+  authenticate,
+  hasPermission,
+  hasRole,
+  requirePermission,
+} = require("./auth");
 
 console.log('🚀 Starting server with full functionality...');
 console.log('Database config:', {
@@ -27,9 +40,41 @@ app.use(
 );
 app.use(express.json());
 
+// Require a valid access token on every API route that is not public
+app.use("/api", authenticate);
+
 // Create a connection pool
 const pool = mysql.createPool(dbConfig);
 
+// Stream live updates to the signed-in user (see server/events.js). Events
+// go by the role the user has now rather than the one in their token.
+app.get("/api/events", async (req, res) => {
+  try {
+    const [users] = await pool.query("SELECT role FROM users WHERE id = ?", [req.user.id]);
+    if (users.length === 0) {
+      return res.status(401).json({
+        success: false,
+        message: "Your account no longer exists",
+      });
+    }
+
+    subscribeToEvents(req, res, { ...req.user, role: users[0].role || "user" });
+  } catch (error) {
+    console.error("Error opening event stream:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error opening event stream",
+      error: error.message,
+    });
+  }
+});
+
+// Tell every client that the stock or details of these items changed
+function publishStockChange(itemIds) {
+  publish("stock_changed", { item_ids: itemIds.map(String) });
+  notifyLowStock(itemIds);
+}
+
 // Test database connection
 app.get("/api/test-connection", async (req, res) => {
   try {
@@ -89,7 +134,7 @@ app.get("/api/test-items", async (req, res) => {
 });
 
 // Test endpoint to create a sample item
-app.get("/api/create-test-item", async (req, res) => {
+app.get("/api/create-test-item", requirePermission("users:manage"), async (req, res) => {
   try {
     console.log("Creating test item");
 
@@ -149,7 +194,7 @@ app.get("/api/create-test-item", async (req, res) => {
 });
 
 // Debug endpoint to test stock history table
-app.get("/api/debug-history", async (req, res) => {
+app.get("/api/debug-history", requirePermission("users:manage"), async (req, res) => {
   try {
     // Check if table exists
     const [tables] = await pool.query("SHOW TABLES LIKE 'stock_history'");
@@ -187,7 +232,7 @@ app.get("/api/debug-history", async (req, res) => {
 });
 
 // Get table structure
-app.get("/api/tables/:tableName", async (req, res) => {
+app.get("/api/tables/:tableName", requirePermission("users:manage"), async (req, res) => {
   try {
     const { tableName } = req.params;
     const [results] = await pool.query(`DESCRIBE ${tableName}`);
@@ -205,17 +250,177 @@ app.get("/api/tables/:tableName", async (req, res) => {
   }
 });
 
+// Comma separated query parameter to list, e.g. "pending,approved"
+const toList = (value) =>
+  (Array.isArray(value) ? value.join(",") : String(value || ""))
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+const toWhereClause = (conditions) =>
+  conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
 // Items API endpoints
-// Get all items
+
+// Stock status derived from quantity, for rows without a stored status
+const ITEM_STATUS_SQL = `CASE
+  WHEN quantity <= 0 THEN 'out-of-stock'
+  WHEN quantity <= "minQuantity" THEN 'low-stock'
+  ELSE 'in-stock'
+END`;
+
+// Columns GET /api/items can be sorted by
+const ITEM_SORT_COLUMNS = {
+  name: "LOWER(name)",
+  category: "LOWER(category)",
+  quantity: "quantity",
+  status: "status",
+};
+
+// SKUs are letters, digits and . _ - / ; barcodes anything Code128 can
+// encode, which covers EAN-13 and EAN-8 values too
+const SKU_PATTERN = /^[A-Za-z0-9._\-/]{1,64}$/;
+const BARCODE_PATTERN = /^[\x20-\x7E]{1,64}$/;
+const MAX_VARIANT_ATTRIBUTES = 10;
+
+// The SKU, barcode and variant attributes of an item in a request body,
+// trimmed, with blanks as null
+function toItemCodes(body) {
+  const toCode = (value) =>
+    value === undefined || value === null || String(value).trim() === ""
+      ? null
+      : String(value).trim();
+
+  return {
+    sku: toCode(body.sku),
+    barcode: toCode(body.barcode),
+    variantAttributes: Object.fromEntries(
+      Object.entries(body.variantAttributes || {})
+        .map(([name, value]) => [String(name).trim(), String(value ?? "").trim()])
+        .filter(([name, value]) => name && value)
+    ),
+  };
+}
+
+// What is wrong with an item's codes, or null when they are valid
+function getItemCodesError({ sku, barcode, variantAttributes }) {
+  if (sku !== null && !SKU_PATTERN.test(sku)) {
+    return "SKU may only contain letters, digits and . _ - / (at most 64 characters)";
+  }
+  if (barcode !== null && !BARCODE_PATTERN.test(barcode)) {
+    return "Barcode may only contain printable ASCII characters (at most 64)";
+  }
+  if (Object.keys(variantAttributes).length > MAX_VARIANT_ATTRIBUTES) {
+    return `An item can have at most ${MAX_VARIANT_ATTRIBUTES} variant attributes`;
+  }
+  return null;
+}
+
+// Why an item's SKU or barcode cannot be used because another item has it,
+// or null when both are free. excludeId is the item being updated.
+async function getItemCodeConflict(db, { sku, barcode }, excludeId = null) {
+  if (sku === null && barcode === null) {
+    return null;
+  }
+
+  const [items] = await db.query(
+    `SELECT id, name, sku, barcode FROM items
+     WHERE (LOWER(sku) = LOWER(?) OR barcode = ?) AND id <> ?`,
+    [sku, barcode, excludeId ?? 0]
+  );
+  const skuOwner = items.find((item) => sku !== null && item.sku?.toLowerCase() === sku.toLowerCase());
+  if (skuOwner) {
+    return `SKU ${sku} is already used by ${skuOwner.name}`;
+  }
+  const barcodeOwner = items.find((item) => barcode !== null && item.barcode === barcode);
+  if (barcodeOwner) {
+    return `Barcode ${barcode} is already used by ${barcodeOwner.name}`;
+  }
+  return null;
+}
+
+// The SKU, barcode and variant attributes of an items row as the API returns
+// them
+const formatItemCodes = (item) => ({
+  sku: item.sku || null,
+  barcode: item.barcode || null,
+  variantAttributes: item.variant_attributes || {},
+});
+
+/**
+ * Build the filters of an item listing from its query parameters. Only the
+ * columns present in the items table are filtered on.
+ */
+function buildItemFilters(query, columnNames) {
+  const conditions = [];
+  const params = [];
+
+  if (columnNames.includes("isActive")) {
+    conditions.push(`"isActive" = 1`);
+  }
+
+  if (query.search) {
+    const term = `%${String(query.search).toLowerCase()}%`;
+    const searchColumns = ["name", "description", "category", "sku", "barcode"].filter(
+      (column) => columnNames.includes(column)
+    );
+    conditions.push(
+      `(${searchColumns.map((column) => `LOWER(${column}) LIKE ?`).join(" OR ")})`
+    );
+    params.push(...searchColumns.map(() => term));
+  }
+
+  const categories = toList(query.category).map((category) => category.toLowerCase());
+  if (categories.length > 0) {
+    conditions.push(`LOWER(category) IN (${categories.map(() => "?").join(", ")})`);
+    params.push(...categories);
+  }
+
+  const statuses = toList(query.status);
+  if (statuses.length > 0) {
+    const statusColumn = columnNames.includes("status")
+      ? `COALESCE(status, ${ITEM_STATUS_SQL})`
+      : ITEM_STATUS_SQL;
+    conditions.push(`${statusColumn} IN (${statuses.map(() => "?").join(", ")})`);
+    params.push(...statuses);
+  }
+
+  if (query.low_stock === "true") {
+    conditions.push(`quantity <= "minQuantity"`);
+  }
+
+  // Items with stock at a bin location, or anywhere in a warehouse
+  if (query.location) {
+    conditions.push(
+      "id IN (SELECT item_id FROM item_locations WHERE location_id = ? AND quantity > 0)"
+    );
+    params.push(query.location);
+  } else if (query.warehouse) {
+    conditions.push(
+      `id IN (SELECT il.item_id FROM item_locations il
+        JOIN stock_locations sl ON sl.id = il.location_id
+        WHERE sl.warehouse_id = ? AND il.quantity > 0)`
+    );
+    params.push(query.warehouse);
+  }
+
+  return { conditions, params };
+}
+
+// Get all items, with the stock each location holds of them
+//
+// Query parameters: search, category, status (comma separated), low_stock,
+// warehouse, location, sort (name, category, quantity, status), order (asc, desc), page and
+// page_size. Without page or page_size every matching item is returned as a
+// plain array; with either, one page is returned as { data, pagination }.
 app.get("/api/items", async (req, res) => {
   try {
-    console.log("GET /api/items - Fetching all items");
+    console.log("GET /api/items - Fetching items", req.query);
     const { include_history } = req.query;
 
     // Get table structure first to check available columns
     const [columns] = await pool.query("DESCRIBE items");
     const columnNames = columns.map((col) => col.Field);
-    console.log("Available columns:", columnNames);
 
     // Build query dynamically based on available columns
     let selectFields = ["id", "name", "description"];
@@ -224,22 +429,53 @@ app.get("/api/items", async (req, res) => {
     if (columnNames.includes("category")) selectFields.push("category");
     if (columnNames.includes("quantity")) selectFields.push("quantity");
     if (columnNames.includes("minQuantity")) selectFields.push("minQuantity");
+    if (columnNames.includes("unit")) selectFields.push("unit");
     if (columnNames.includes("status")) selectFields.push("status");
     if (columnNames.includes("price")) selectFields.push("price");
     if (columnNames.includes("isActive")) selectFields.push("isActive");
     if (columnNames.includes("lastRestocked"))
       selectFields.push("lastRestocked");
+    if (columnNames.includes("sku")) selectFields.push("sku");
+    if (columnNames.includes("barcode")) selectFields.push("barcode");
+    if (columnNames.includes("variant_attributes"))
+      selectFields.push("variant_attributes");
+
+    const filters = buildItemFilters(req.query, columnNames);
+    const whereClause = toWhereClause(filters.conditions);
+
+    const sort = ITEM_SORT_COLUMNS[req.query.sort] ? req.query.sort : "name";
+    const sortColumn =
+      sort === "status" && !columnNames.includes("status")
+        ? ITEM_STATUS_SQL
+        : ITEM_SORT_COLUMNS[sort];
+    const order = req.query.order === "desc" ? "DESC" : "ASC";
+
+    let query = `SELECT ${selectFields.join(", ")} FROM items ${whereClause}
+      ORDER BY ${sortColumn} ${order}, id ${order}`;
+    const params = [...filters.params];
+
+    const paginate = req.query.page !== undefined || req.query.page_size !== undefined;
+    const pageSize = Math.min(
+      Math.max(parseInt(req.query.page_size) || paginationConfig.defaultPageSize, 1),
+      paginationConfig.maxPageSize
+    );
+    const page = Math.max(parseInt(req.query.page) || 1, 1);
+    let total = 0;
 
-    let query = `SELECT ${selectFields.join(", ")} FROM items`;
+    if (paginate) {
+      const [countRows] = await pool.query(
+        `SELECT COUNT(*) AS count FROM items ${whereClause}`,
+        filters.params
+      );
+      total = Number(countRows[0].count);
 
-    // Add WHERE clause if isActive exists
-    if (columnNames.includes("isActive")) {
-      query += ` WHERE isActive = 1`;
+      query += " LIMIT ? OFFSET ?";
+      params.push(pageSize, (page - 1) * pageSize);
     }
 
     console.log("Query:", query);
 
-    const [items] = await pool.query(query);
+    const [items] = await pool.query(query, params);
     console.log(`Found ${items.length} items`);
 
     // Map the database items to the expected format
@@ -251,6 +487,8 @@ app.get("/api/items", async (req, res) => {
         category: item.category || "other",
         quantity: item.quantity !== undefined ? item.quantity : 0,
         minQuantity: item.minQuantity !== undefined ? item.minQuantity : 0,
+        unit: item.unit || "pcs",
+        ...formatItemCodes(item),
       };
 
       // Add status based on available data
@@ -277,11 +515,31 @@ app.get("/api/items", async (req, res) => {
       return formattedItem;
     });
 
+    const itemIds = formattedItems.map((item) => item.id);
+    const itemLocations = await getItemLocations(pool, itemIds);
+    const unitConversions = await getUnitConversions(pool, itemIds);
+    formattedItems.forEach((item) => {
+      item.locations = itemLocations[item.id] || [];
+      item.unitConversions = unitConversions[item.id] || [];
+    });
+
+    if (paginate) {
+      return res.json({
+        data: formattedItems,
+        pagination: {
+          page,
+          pageSize,
+          total,
+          totalPages: Math.ceil(total / pageSize),
+        },
+      });
+    }
+
     // If history is requested, fetch and append it
     if (include_history === 'true') {
       try {
         const [history] = await pool.query(`
-           SELECT sh.*, i.name as item_name, i.category
+           SELECT sh.*, i.name as item_name, i.category, i.unit
            FROM stock_history sh
            JOIN items i ON sh.item_id = i.id
            ORDER BY sh.created_at DESC
@@ -311,54 +569,381 @@ app.get("/api/items", async (req, res) => {
   }
 });
 
-// Get a single item by ID
-app.get("/api/items/:id", async (req, res) => {
+// Lightweight item lookup for typeahead pickers
+//
+// Query parameters: q (matched against the item name, SKU and barcode), limit
+// and in_stock (only items with stock on hand). Best matches come first: an
+// item whose SKU or barcode is q, then names starting with q.
+app.get("/api/items/search", async (req, res) => {
   try {
-    const { id } = req.params;
+    const term = String(req.query.q || "").trim().toLowerCase();
+    const limit = Math.min(
+      Math.max(parseInt(req.query.limit) || paginationConfig.typeaheadLimit, 1),
+      paginationConfig.maxPageSize
+    );
+
+    const conditions = [`"isActive" = 1`];
+    const params = [];
+    if (term) {
+      conditions.push("(LOWER(name) LIKE ? OR LOWER(sku) LIKE ? OR LOWER(barcode) LIKE ?)");
+      params.push(`%${term}%`, `%${term}%`, `%${term}%`);
+    }
+    if (req.query.in_stock === "true") {
+      conditions.push("quantity > 0");
+    }
+
     const [items] = await pool.query(
       `
-      SELECT
-        id,
-        name,
-        description,
-        category,
-        quantity,
-        minQuantity,
-        status,
-        price,
-        isActive
+      SELECT id, name, category, quantity, "minQuantity", unit, status, sku, barcode, variant_attributes
       FROM items
-      WHERE id = ? AND isActive = 1
+      ${toWhereClause(conditions)}
+      ORDER BY
+        CASE
+          WHEN LOWER(sku) = ? OR LOWER(barcode) = ? THEN 0
+          WHEN LOWER(name) LIKE ? THEN 1
+          ELSE 2
+        END,
+        LOWER(name), id
+      LIMIT ?
     `,
-      [id]
+      [...params, term, term, `${term}%`, limit]
     );
+    const unitConversions = await getUnitConversions(pool, items.map((item) => item.id));
 
-    if (items.length === 0) {
-      return res
-        .status(404)
-        .json({ success: false, message: "Item not found" });
+    res.json(
+      items.map((item) => ({
+        id: item.id.toString(),
+        name: item.name,
+        category: item.category || "other",
+        quantity: item.quantity,
+        minQuantity: item.minQuantity,
+        unit: item.unit || "pcs",
+        unitConversions: unitConversions[item.id] || [],
+        ...formatItemCodes(item),
+        status:
+          item.status ||
+          (item.quantity <= 0
+            ? "out-of-stock"
+            : item.quantity <= item.minQuantity
+              ? "low-stock"
+              : "in-stock"),
+      }))
+    );
+  } catch (error) {
+    console.error("Error searching items:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error searching items",
+      error: error.message,
+    });
+  }
+});
+
+// Reorder suggestions
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stock history change types that count as an item being consumed
+const CONSUMPTION_CHANGE_TYPES = ["issue", "request"];
+
+// Average of a list of numbers, null when it is empty
+const average = (values) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+/**
+ * Suggest a reorder point and order quantity for active items, or only the
+ * given ones, from how fast they were consumed over the last
+ * reorderConfig.lookbackDays days. Consumption is what was issued from stock
+ * or delivered against fulfilled requests; request lines fulfilled before
+ * deliveries were written to the stock history are counted from the request.
+ *
+ * The reorder point covers the usage expected over the lead time, measured
+ * from when purchase orders were sent to their first delivery, plus a few
+ * days of safety stock. Once stock and what is on order fall to it, the
+ * suggested quantity brings them back up to the reorder point plus
+ * reorderConfig.orderCoverDays of usage. Items nothing was taken of get no
+ * suggestion.
+ */
+async function getReorderSuggestions(db, itemIds = []) {
+  const ids = [...new Set(itemIds.map(String))];
+  const idList = ids.map(() => "?").join(", ");
+  const conditions = [`"isActive" = 1`];
+  if (ids.length > 0) {
+    conditions.push(`id IN (${idList})`);
+  }
+  const [items] = await db.query(
+    `SELECT id, name, unit, quantity, "minQuantity" FROM items ${toWhereClause(conditions)} ORDER BY LOWER(name), id`,
+    ids
+  );
+  if (items.length === 0) {
+    return [];
+  }
+
+  const now = Date.now();
+  const since = new Date(now - reorderConfig.lookbackDays * DAY_MS);
+  const leadTimeSince = new Date(now - reorderConfig.leadTimeLookbackDays * DAY_MS);
+  const itemFilter = ids.length > 0 ? `AND sh.item_id IN (${idList})` : "";
+  const lineFilter = ids.length > 0 ? `AND ri.item_id IN (${idList})` : "";
+  const orderLineFilter = ids.length > 0 ? `AND pol.item_id IN (${idList})` : "";
+
+  const [issued] = await db.query(
+    `SELECT sh.item_id, SUM(-sh.quantity_change) AS consumed
+     FROM stock_history sh
+     WHERE sh.change_type IN (${CONSUMPTION_CHANGE_TYPES.map(() => "?").join(", ")})
+       AND sh.quantity_change < 0 AND sh.created_at >= ? ${itemFilter}
+     GROUP BY sh.item_id`,
+    [...CONSUMPTION_CHANGE_TYPES, since, ...ids]
+  );
+  const [delivered] = await db.query(
+    `SELECT ri.item_id, SUM(ri.delivered_quantity) AS consumed
+     FROM request_items ri
+     JOIN requests r ON r.id = ri.request_id
+     WHERE r.status IN ('fulfilled', 'partially_fulfilled')
+       AND ri.delivered_quantity > 0 AND r.updated_at >= ? ${lineFilter}
+       AND NOT EXISTS (
+         SELECT 1 FROM stock_history sh
+         WHERE sh.change_type = 'request' AND sh.reference_id = r.id AND sh.item_id = ri.item_id
+       )
+     GROUP BY ri.item_id`,
+    [since, ...ids]
+  );
+  const [deliveries] = await db.query(
+    `SELECT pol.item_id, po.sent_at, MIN(sh.created_at) AS received_at
+     FROM purchase_order_lines pol
+     JOIN purchase_orders po ON po.id = pol.purchase_order_id
+     JOIN stock_history sh
+       ON sh.reference_id = po.po_number AND sh.item_id = pol.item_id AND sh.change_type = 'restock'
+     WHERE po.sent_at IS NOT NULL AND po.sent_at >= ? ${orderLineFilter}
+     GROUP BY pol.item_id, po.id, po.sent_at`,
+    [leadTimeSince, ...ids]
+  );
+  const onOrder = await getQuantitiesOnOrder(db, items.map((item) => item.id));
+
+  const consumed = {};
+  for (const row of [...issued, ...delivered]) {
+    const itemId = row.item_id.toString();
+    consumed[itemId] = (consumed[itemId] || 0) + Number(row.consumed);
+  }
+  const leadTimes = {};
+  for (const row of deliveries) {
+    const itemId = row.item_id.toString();
+    const days = (new Date(row.received_at) - new Date(row.sent_at)) / DAY_MS;
+    leadTimes[itemId] = [...(leadTimes[itemId] || []), Math.max(days, 0)];
+  }
+
+  return items.map((item) => {
+    const itemId = item.id.toString();
+    const totalConsumed = consumed[itemId] || 0;
+    const dailyUsage = totalConsumed / reorderConfig.lookbackDays;
+    const observedLeadTime = average(leadTimes[itemId] || []);
+    const leadTime = observedLeadTime ?? reorderConfig.defaultLeadTimeDays;
+    const quantityOnOrder = onOrder[itemId] || 0;
+
+    let reorderPoint = null;
+    let suggestedOrderQuantity = null;
+    if (totalConsumed > 0) {
+      reorderPoint = Math.ceil(dailyUsage * (leadTime + reorderConfig.safetyStockDays));
+      const available = item.quantity + quantityOnOrder;
+      suggestedOrderQuantity =
+        available <= reorderPoint
+          ? reorderPoint + Math.ceil(dailyUsage * reorderConfig.orderCoverDays) - available
+          : 0;
     }
 
-    // Format the item
-    const item = items[0];
-    const formattedItem = {
-      id: item.id.toString(),
-      name: item.name,
-      description: item.description,
-      category: item.category,
+    return {
+      item_id: itemId,
+      item_name: item.name,
+      unit: item.unit || "pcs",
       quantity: item.quantity,
-      minQuantity: item.minQuantity,
-      status:
-        item.status ||
-        (item.quantity <= 0
-          ? "out-of-stock"
-          : item.quantity <= item.minQuantity
-            ? "low-stock"
-            : "in-stock"),
-      price: item.price,
+      min_quantity: item.minQuantity,
+      quantity_on_order: quantityOnOrder,
+      consumed: totalConsumed,
+      lookback_days: reorderConfig.lookbackDays,
+      average_daily_usage: Math.round(dailyUsage * 100) / 100,
+      lead_time_days: Math.round(leadTime * 10) / 10,
+      lead_time_observed: observedLeadTime !== null,
+      reorder_point: reorderPoint,
+      suggested_order_quantity: suggestedOrderQuantity,
     };
+  });
+}
+
+// Reorder suggestions for every active item, or the ones in item_ids
+// (comma separated)
+app.get("/api/items/reorder-suggestions", requirePermission("items:write"), async (req, res) => {
+  try {
+    res.json(await getReorderSuggestions(pool, toList(req.query.item_ids)));
+  } catch (error) {
+    console.error("Error computing reorder suggestions:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error computing reorder suggestions",
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * Accept the suggested reorder points of the given items: { item_ids }. Each
+ * item's minimum quantity becomes its reorder point and its stock status
+ * follows. Items without a suggestion are left alone.
+ */
+app.post("/api/items/reorder-suggestions/accept", requirePermission("items:write"), async (req, res) => {
+  const itemIds = Array.isArray(req.body.item_ids) ? req.body.item_ids : [];
+  if (itemIds.length === 0) {
+    return res.status(400).json({ success: false, message: "item_ids is required" });
+  }
+
+  let connection;
+  try {
+    const accepted = (await getReorderSuggestions(pool, itemIds)).filter(
+      (suggestion) =>
+        suggestion.reorder_point !== null && suggestion.reorder_point !== suggestion.min_quantity
+    );
+
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+    for (const suggestion of accepted) {
+      await connection.query(
+        `UPDATE items SET "minQuantity" = ?, status = ? WHERE id = ?`,
+        [
+          suggestion.reorder_point,
+          getStockStatus(suggestion.quantity, suggestion.reorder_point),
+          suggestion.item_id,
+        ]
+      );
+    }
+    await connection.commit();
+
+    if (accepted.length > 0) {
+      publishStockChange(accepted.map((suggestion) => suggestion.item_id));
+    }
+    res.json({
+      success: true,
+      updated: accepted.map((suggestion) => ({
+        item_id: suggestion.item_id,
+        min_quantity: suggestion.reorder_point,
+      })),
+    });
+  } catch (error) {
+    console.error("Error accepting reorder suggestions:", error);
+    if (connection) {
+      await connection.rollback();
+    }
+    res.status(500).json({
+      success: false,
+      message: "Error accepting reorder suggestions",
+      error: error.message,
+    });
+  } finally {
+    if (connection) {
+      connection.release();
+    }
+  }
+});
+
+// An active item with the stock each location holds of it, as GET
+// /api/items/:id returns it; null when there is no such item
+async function getItemDetails(db, id) {
+  const [items] = await db.query(
+    `
+    SELECT
+      id,
+      name,
+      description,
+      category,
+      quantity,
+      "minQuantity",
+      status,
+      price,
+      "isActive",
+      unit,
+      sku,
+      barcode,
+      variant_attributes
+    FROM items
+    WHERE id = ? AND "isActive" = 1
+  `,
+    [id]
+  );
+
+  if (items.length === 0) {
+    return null;
+  }
 
-    res.json(formattedItem);
+  // Format the item
+  const item = items[0];
+  return {
+    id: item.id.toString(),
+    name: item.name,
+    description: item.description,
+    category: item.category,
+    quantity: item.quantity,
+    minQuantity: item.minQuantity,
+    status:
+      item.status ||
+      (item.quantity <= 0
+        ? "out-of-stock"
+        : item.quantity <= item.minQuantity
+          ? "low-stock"
+          : "in-stock"),
+    price: item.price,
+    unit: item.unit || "pcs",
+    unitConversions: (await getUnitConversions(db, [item.id]))[item.id] || [],
+    ...formatItemCodes(item),
+    locations: (await getItemLocations(db, [item.id]))[item.id] || [],
+  };
+}
+
+// Labels printed for items without a barcode or SKU carry their id like this
+const ITEM_ID_CODE_PATTERN = /^ITEM-(\d+)$/i;
+
+// Find the item a scanned code belongs to: its barcode, its SKU (ignoring
+// case) or the ITEM-<id> printed on labels of items without either
+app.get("/api/items/lookup", async (req, res) => {
+  try {
+    const code = String(req.query.code || "").trim();
+    if (!code) {
+      return res.status(400).json({ success: false, message: "code is required" });
+    }
+
+    const idMatch = code.match(ITEM_ID_CODE_PATTERN);
+    const [matches] = await pool.query(
+      `SELECT id FROM items
+       WHERE "isActive" = 1 AND (barcode = ? OR LOWER(sku) = LOWER(?) OR id = ?)
+       ORDER BY CASE WHEN barcode = ? THEN 0 WHEN LOWER(sku) = LOWER(?) THEN 1 ELSE 2 END
+       LIMIT 1`,
+      [code, code, idMatch ? parseInt(idMatch[1], 10) : 0, code, code]
+    );
+
+    const item = matches.length > 0 ? await getItemDetails(pool, matches[0].id) : null;
+    if (!item) {
+      return res
+        .status(404)
+        .json({ success: false, message: `No item has the code ${code}` });
+    }
+    res.json(item);
+  } catch (error) {
+    console.error("Error looking up item by code:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error looking up item",
+      error: error.message,
+    });
+  }
+});
+
+// Get a single item by ID
+app.get("/api/items/:id", async (req, res) => {
+  try {
+    const item = await getItemDetails(pool, req.params.id);
+    if (!item) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Item not found" });
+    }
+
+    res.json(item);
   } catch (error) {
     console.error(`Error fetching item with id ${req.params.id}:`, error);
     res.status(500).json({
@@ -370,9 +955,27 @@ app.get("/api/items/:id", async (req, res) => {
 });
 
 // Create a new item
-app.post("/api/items", async (req, res) => {
+app.post("/api/items", requirePermission("items:write"), async (req, res) => {
   try {
-    const { name, description, category, quantity, minQuantity } = req.body;
+    const { name, description, category, quantity, minQuantity, location_id } = req.body;
+
+    // The initial stock goes to the given location
+    const locationId = await resolveLocationId(pool, location_id);
+    if (!locationId) {
+      return res.status(400).json({ success: false, message: "Location not found" });
+    }
+
+    const codes = toItemCodes(req.body);
+    const codesError = getItemCodesError(codes);
+    if (codesError) {
+      return res.status(400).json({ success: false, message: codesError });
+    }
+    const conflict = await getItemCodeConflict(pool, codes);
+    if (conflict) {
+      return res.status(409).json({ success: false, message: conflict });
+    }
+    const codeValues = [codes.sku, codes.barcode, JSON.stringify(codes.variantAttributes)];
+    const unit = String(req.body.unit || "").trim() || "pcs";
 
     // Calculate status based on quantity and minQuantity
     let status = "out-of-stock";
@@ -389,23 +992,31 @@ app.post("/api/items", async (req, res) => {
 
     if (hasStatusColumn) {
       query = `
-        INSERT INTO items (name, description, category, quantity, minQuantity, status, isActive)
-        VALUES (?, ?, ?, ?, ?, ?, 1)
+        INSERT INTO items (name, description, category, quantity, "minQuantity", unit, status, sku, barcode, variant_attributes, "isActive")
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1)
+        RETURNING id
       `;
-      params = [name, description, category, quantity, minQuantity, status];
+      params = [name, description, category, quantity, minQuantity, unit, status, ...codeValues];
     } else {
       query = `
-        INSERT INTO items (name, description, category, quantity, minQuantity, isActive)
-        VALUES (?, ?, ?, ?, ?, 1)
+        INSERT INTO items (name, description, category, quantity, "minQuantity", unit, sku, barcode, variant_attributes, "isActive")
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 1)
+        RETURNING id
       `;
-      params = [name, description, category, quantity, minQuantity];
+      params = [name, description, category, quantity, minQuantity, unit, ...codeValues];
     }
 
     const [result] = await pool.query(query, params);
+    const newItemId = result[0]?.id;
+
+    if (newItemId) {
+      if (quantity > 0) {
+        await changeLocationStock(pool, newItemId, locationId, quantity);
+        await recordStockCost(pool, { itemId: newItemId, change: quantity });
+      }
 
-    if (result.insertId) {
       const [items] = await pool.query("SELECT * FROM items WHERE id = ?", [
-        result.insertId,
+        newItemId,
       ]);
 
       // Format the item
@@ -425,8 +1036,11 @@ app.post("/api/items", async (req, res) => {
               ? "low-stock"
               : "in-stock"),
         price: item.price,
+        unit: item.unit || "pcs",
+        ...formatItemCodes(item),
       };
 
+      publishStockChange([item.id]);
       res.status(201).json(formattedItem);
     } else {
       res
@@ -435,6 +1049,12 @@ app.post("/api/items", async (req, res) => {
     }
   } catch (error) {
     console.error("Error creating item:", error);
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({
+        success: false,
+        message: "Another item already has this SKU or barcode",
+      });
+    }
     res.status(500).json({
       success: false,
       message: "Error creating item",
@@ -444,11 +1064,20 @@ app.post("/api/items", async (req, res) => {
 });
 
 // Update an existing item
-app.put("/api/items/:id", async (req, res) => {
+app.put("/api/items/:id", requirePermission("items:write"), async (req, res) => {
   try {
     const { id } = req.params;
     const updates = req.body;
 
+    // Stock is only changed through stock movements, so concurrent changes
+    // never overwrite each other and every change is in the stock history
+    if (updates.quantity !== undefined) {
+      return res.status(400).json({
+        success: false,
+        message: "quantity cannot be set directly; post a stock movement to /api/items/:id/stock-movements instead",
+      });
+    }
+
     // Check if status column exists
     const [columns] = await pool.query("DESCRIBE items");
     const hasStatusColumn = columns.some((col) => col.Field === "status");
@@ -461,15 +1090,40 @@ app.put("/api/items/:id", async (req, res) => {
     }
 
     const currentItem = currentItems[0];
-    const quantityBefore = currentItem.quantity;
 
-    // If quantity or minQuantity is updated and status column exists, recalculate status
-    if (
-      hasStatusColumn &&
-      (updates.quantity !== undefined || updates.minQuantity !== undefined)
-    ) {
-      const quantity = updates.quantity ?? currentItem.quantity;
-      const minQuantity = updates.minQuantity ?? currentItem.minQuantity;
+    // Changed codes are checked before anything is written; the variant
+    // attributes are stored as JSON in their own column
+    if (["sku", "barcode", "variantAttributes"].some((key) => updates[key] !== undefined)) {
+      const codes = toItemCodes({
+        ...formatItemCodes(currentItem),
+        ...updates,
+      });
+      const codesError = getItemCodesError(codes);
+      if (codesError) {
+        return res.status(400).json({ success: false, message: codesError });
+      }
+      const conflict = await getItemCodeConflict(pool, codes, currentItem.id);
+      if (conflict) {
+        return res.status(409).json({ success: false, message: conflict });
+      }
+
+      updates.sku = codes.sku;
+      updates.barcode = codes.barcode;
+      updates.variant_attributes = JSON.stringify(codes.variantAttributes);
+      delete updates.variantAttributes;
+    }
+
+    // Conversions are replaced through PUT /api/items/:id/units; a unit that
+    // becomes the stock unit stops being a conversion of it
+    delete updates.unitConversions;
+    if (updates.unit !== undefined && updates.unit !== currentItem.unit) {
+      await pool.query("DELETE FROM item_units WHERE item_id = ? AND unit = ?", [id, updates.unit]);
+    }
+
+    // If minQuantity is updated and status column exists, recalculate status
+    if (hasStatusColumn && updates.minQuantity !== undefined) {
+      const quantity = currentItem.quantity;
+      const minQuantity = updates.minQuantity;
 
       // Calculate new status
       let status = "out-of-stock";
@@ -524,33 +1178,24 @@ app.put("/api/items/:id", async (req, res) => {
               ? "low-stock"
               : "in-stock"),
         price: item.price,
+        unit: item.unit || "pcs",
+        unitConversions: (await getUnitConversions(pool, [item.id]))[item.id] || [],
+        ...formatItemCodes(item),
       };
 
-      // Record stock history if quantity changed
-      if (updates.quantity !== undefined && updates.quantity !== quantityBefore) {
-        try {
-          const quantityChange = updates.quantity - quantityBefore;
-          const changeType = quantityChange > 0 ? 'restock' : 'adjustment';
-          const notes = updates.historyNotes || (quantityChange > 0 ? 'Stock added' : 'Stock reduced');
-
-          await pool.query(
-            `INSERT INTO stock_history (item_id, change_type, quantity_before, quantity_change, quantity_after, notes, created_by)
-             VALUES (?, ?, ?, ?, ?, ?, ?)`,
-            [id, changeType, quantityBefore, quantityChange, updates.quantity, notes, updates.userId || null]
-          );
-          console.log(`Stock history recorded for item ${id}: ${quantityBefore} -> ${updates.quantity}`);
-        } catch (historyError) {
-          // Log error but don't fail the request - history is supplementary
-          console.error('Error recording stock history:', historyError.message);
-        }
-      }
-
+      publishStockChange([item.id]);
       res.json(formattedItem);
     } else {
       res.status(404).json({ success: false, message: "Item not found" });
     }
   } catch (error) {
     console.error(`Error updating item with id ${req.params.id}:`, error);
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({
+        success: false,
+        message: "Another item already has this SKU or barcode",
+      });
+    }
     res.status(500).json({
       success: false,
       message: "Error updating item",
@@ -560,7 +1205,7 @@ app.put("/api/items/:id", async (req, res) => {
 });
 
 // Delete an item (soft delete)
-app.delete("/api/items/:id", async (req, res) => {
+app.delete("/api/items/:id", requirePermission("items:write"), async (req, res) => {
   try {
     const { id } = req.params;
 
@@ -581,6 +1226,7 @@ app.delete("/api/items/:id", async (req, res) => {
     }
 
     if (result.affectedRows > 0) {
+      publishStockChange([id]);
       res.json({ success: true, message: "Item deleted successfully" });
     } else {
       res.status(404).json({ success: false, message: "Item not found" });
@@ -595,1209 +1241,7613 @@ app.delete("/api/items/:id", async (req, res) => {
   }
 });
 
-// Requests API endpoints
-// Get all requests
-app.get("/api/requests", async (req, res) => {
-  try {
-    console.log("GET /api/requests - Fetching all requests");
+// Stock locations
 
-    const [requests] = await pool.query(`
-      SELECT r.*
-      FROM requests r
-      ORDER BY r.created_at DESC
-    `);
+// The location stock goes to when none is given: the one marked default,
+// otherwise the oldest
+async function getDefaultLocationId(db) {
+  const [locations] = await db.query(
+    `SELECT id FROM stock_locations ORDER BY "is_default" DESC, id LIMIT 1`
+  );
+  if (locations.length === 0) {
+    throw new Error("No stock locations have been set up");
+  }
+  return locations[0].id;
+}
 
-    // Get items for each request
-    const requestsWithItems = await Promise.all(
-      requests.map(async (request) => {
-        const [items] = await pool.query(
-          `
-          SELECT ri.*, i.name, i.description, i.category
-          FROM request_items ri
-          JOIN items i ON ri.item_id = i.id
-          WHERE ri.request_id = ?
-        `,
-          [request.id]
-        );
+// The location a client asked for, or the default one when it did not ask.
+// Returns null when the location does not exist or its warehouse is closed.
+async function resolveLocationId(db, locationId) {
+  if (locationId === undefined || locationId === null || locationId === "") {
+    return getDefaultLocationId(db);
+  }
 
-        return {
-          ...request,
-          items: items,
-        };
-      })
+  const [locations] = await db.query(
+    `SELECT sl.id FROM stock_locations sl
+     JOIN warehouses w ON w.id = sl.warehouse_id
+     WHERE sl.id = ? AND w.is_active = 1`,
+    [locationId]
+  );
+  return locations.length > 0 ? locations[0].id : null;
+}
+
+// Change how much of an item a location holds. Returns false, changing
+// nothing, when the location holds less than is taken out.
+async function changeLocationStock(db, itemId, locationId, change) {
+  if (change < 0) {
+    const [rows] = await db.query(
+      `UPDATE item_locations SET quantity = quantity + ?
+       WHERE item_id = ? AND location_id = ? AND quantity + ? >= 0
+       RETURNING quantity`,
+      [change, itemId, locationId, change]
     );
+    return rows.length > 0;
+  }
 
-    res.json(requestsWithItems);
-  } catch (error) {
-    console.error("Error fetching requests:", error);
-    res.status(500).json({
-      success: false,
-      message: "Error fetching requests",
-      error: error.message,
+  await db.query(
+    `INSERT INTO item_locations (item_id, location_id, quantity) VALUES (?, ?, ?)
+     ON CONFLICT (item_id, location_id)
+     DO UPDATE SET quantity = item_locations.quantity + EXCLUDED.quantity`,
+    [itemId, locationId, change]
+  );
+  return true;
+}
+
+// The stock each location holds of the given items, keyed by item id
+async function getItemLocations(db, itemIds) {
+  const ids = [...new Set(itemIds.map(String))];
+  if (ids.length === 0) {
+    return {};
+  }
+
+  const [rows] = await db.query(
+    `SELECT il.item_id, il.location_id, il.quantity, sl.code AS location_code,
+       sl.warehouse_id, w.name AS warehouse_name
+     FROM item_locations il
+     JOIN stock_locations sl ON sl.id = il.location_id
+     JOIN warehouses w ON w.id = sl.warehouse_id
+     WHERE il.item_id IN (${ids.map(() => "?").join(", ")}) AND il.quantity > 0
+     ORDER BY w.name, sl.code`,
+    ids
+  );
+
+  const locationsByItem = {};
+  for (const row of rows) {
+    const itemId = row.item_id.toString();
+    locationsByItem[itemId] = locationsByItem[itemId] || [];
+    locationsByItem[itemId].push({
+      location_id: row.location_id.toString(),
+      location_code: row.location_code,
+      warehouse_id: row.warehouse_id.toString(),
+      warehouse_name: row.warehouse_name,
+      quantity: row.quantity,
     });
   }
-});
+  return locationsByItem;
+}
 
-// Get requests by user ID
-app.get("/api/requests/user/:userId", async (req, res) => {
-  try {
-    const { userId } = req.params;
-    console.log(`GET /api/requests/user/${userId} - Fetching user requests`);
+// Name the location of a stock_history row (aliased sh), and where a
+// transfer went, e.g. "Main Warehouse / A-01"
+const STOCK_HISTORY_LOCATION_COLUMNS = `fw.name || ' / ' || fl.code AS location_name,
+  tw.name || ' / ' || tl.code AS to_location_name`;
+const STOCK_HISTORY_LOCATION_JOINS = `
+  LEFT JOIN stock_locations fl ON fl.id = sh.location_id
+  LEFT JOIN warehouses fw ON fw.id = fl.warehouse_id
+  LEFT JOIN stock_locations tl ON tl.id = sh.to_location_id
+  LEFT JOIN warehouses tw ON tw.id = tl.warehouse_id`;
 
-    const [requests] = await pool.query(
-      `
-      SELECT r.*
-      FROM requests r
-      WHERE r.requester_id = ?
-      ORDER BY r.created_at DESC
-    `,
-      [userId]
-    );
+// Warehouses and stock locations API endpoints
 
-    // Get items for each request
-    const requestsWithItems = await Promise.all(
-      requests.map(async (request) => {
-        const [items] = await pool.query(
-          `
-          SELECT ri.*, i.name, i.description, i.category
-          FROM request_items ri
-          JOIN items i ON ri.item_id = i.id
-          WHERE ri.request_id = ?
-        `,
-          [request.id]
-        );
+// Unique constraint violations, e.g. a warehouse name that is taken
+const isUniqueViolation = (error) => error.code === "23505";
 
-        return {
-          ...request,
-          items: items,
-        };
-      })
+// Every warehouse with its bin locations and the stock each holds. Closed
+// warehouses are only listed with include_inactive=true.
+app.get("/api/warehouses", async (req, res) => {
+  try {
+    const includeInactive = req.query.include_inactive === "true";
+    const [warehouses] = await pool.query(
+      `SELECT * FROM warehouses ${includeInactive ? "" : "WHERE is_active = 1"} ORDER BY name`
+    );
+    const [locations] = await pool.query(
+      `SELECT sl.*, COALESCE(SUM(il.quantity), 0) AS quantity
+       FROM stock_locations sl
+       LEFT JOIN item_locations il ON il.location_id = sl.id
+       GROUP BY sl.id
+       ORDER BY sl.code`
     );
 
-    res.json(requestsWithItems);
-  } catch (error) {
-    console.error(
-      `Error fetching requests for user ${req.params.userId}:`,
-      error
+    res.json(
+      warehouses.map((warehouse) => ({
+        ...warehouse,
+        is_active: warehouse.is_active === 1,
+        locations: locations
+          .filter((location) => location.warehouse_id === warehouse.id)
+          .map((location) => ({
+            ...location,
+            is_default: location.is_default === 1,
+            quantity: Number(location.quantity),
+          })),
+      }))
     );
+  } catch (error) {
+    console.error("Error fetching warehouses:", error);
     res.status(500).json({
       success: false,
-      message: "Error fetching user requests",
+      message: "Error fetching warehouses",
       error: error.message,
     });
   }
 });
 
-// Get a single request by ID
-app.get("/api/requests/:id", async (req, res) => {
+app.post("/api/warehouses", requirePermission("locations:manage"), async (req, res) => {
   try {
-    const { id } = req.params;
-    console.log(`GET /api/requests/${id} - Fetching request details`);
+    const name = String(req.body.name || "").trim();
+    if (!name) {
+      return res.status(400).json({ success: false, message: "name is required" });
+    }
 
-    const [requests] = await pool.query(
-      `
-      SELECT r.*
-      FROM requests r
-      WHERE r.id = ?
-    `,
-      [id]
+    const [warehouses] = await pool.query(
+      "INSERT INTO warehouses (name, address) VALUES (?, ?) RETURNING *",
+      [name, req.body.address || null]
     );
+    res.status(201).json({ ...warehouses[0], is_active: true, locations: [] });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ success: false, message: "A warehouse with this name already exists" });
+    }
+    console.error("Error creating warehouse:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error creating warehouse",
+      error: error.message,
+    });
+  }
+});
 
-    if (requests.length === 0) {
-      return res
-        .status(404)
-        .json({ success: false, message: "Request not found" });
+// Sum of the stock held at the locations matching a condition
+async function getStockHeld(db, condition, params) {
+  const [rows] = await db.query(
+    `SELECT COALESCE(SUM(il.quantity), 0) AS quantity, MAX(sl.is_default) AS has_default
+     FROM stock_locations sl
+     LEFT JOIN item_locations il ON il.location_id = sl.id
+     WHERE ${condition}`,
+    params
+  );
+  return {
+    quantity: Number(rows[0].quantity),
+    hasDefault: Number(rows[0].has_default) === 1,
+  };
+}
+
+app.put("/api/warehouses/:id", requirePermission("locations:manage"), async (req, res) => {
+  try {
+    const { name, address, is_active } = req.body;
+    if (name !== undefined && !String(name).trim()) {
+      return res.status(400).json({ success: false, message: "name cannot be empty" });
     }
 
-    const request = requests[0];
+    // A warehouse can only be closed once it is empty
+    if (is_active === false) {
+      const held = await getStockHeld(pool, "sl.warehouse_id = ?", [req.params.id]);
+      if (held.quantity > 0 || held.hasDefault) {
+        return res.status(409).json({
+          success: false,
+          message: held.hasDefault
+            ? "The warehouse holds the default location"
+            : "Move the stock out of the warehouse before closing it",
+        });
+      }
+    }
 
-    // Get items for the request
-    const [items] = await pool.query(
-      `
-      SELECT ri.*, i.name, i.description, i.category
-      FROM request_items ri
-      JOIN items i ON ri.item_id = i.id
-      WHERE ri.request_id = ?
-    `,
-      [id]
+    const [warehouses] = await pool.query(
+      `UPDATE warehouses
+       SET name = COALESCE(?, name), address = COALESCE(?, address), is_active = COALESCE(?, is_active)
+       WHERE id = ?
+       RETURNING *`,
+      [
+        name !== undefined ? String(name).trim() : null,
+        address !== undefined ? address : null,
+        is_active !== undefined ? (is_active ? 1 : 0) : null,
+        req.params.id,
+      ]
     );
 
-    const requestWithItems = {
-      ...request,
-      items: items,
-    };
+    if (warehouses.length === 0) {
+      return res.status(404).json({ success: false, message: "Warehouse not found" });
+    }
 
-    res.json(requestWithItems);
+    res.json({ ...warehouses[0], is_active: warehouses[0].is_active === 1 });
   } catch (error) {
-    console.error(`Error fetching request with id ${req.params.id}:`, error);
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ success: false, message: "A warehouse with this name already exists" });
+    }
+    console.error(`Error updating warehouse ${req.params.id}:`, error);
     res.status(500).json({
       success: false,
-      message: "Error fetching request",
+      message: "Error updating warehouse",
       error: error.message,
     });
   }
 });
 
-// Create a new request
-app.post("/api/requests", async (req, res) => {
-  let connection;
+app.delete("/api/warehouses/:id", requirePermission("locations:manage"), async (req, res) => {
   try {
-    console.log("POST /api/requests - Creating new request");
-    console.log("Request body:", req.body);
-
-    const {
-      project_name,
-      requester_id,
-      requester_name,
-      reason,
-      priority,
-      due_date,
-      items,
-    } = req.body;
-
-    // Validate required fields
-    if (!project_name || !items || !items.length) {
-      console.error("Missing required fields:", {
-        project_name,
-        requester_id,
-        items,
-      });
-      return res.status(400).json({
+    const held = await getStockHeld(pool, "sl.warehouse_id = ?", [req.params.id]);
+    if (held.quantity > 0 || held.hasDefault) {
+      return res.status(409).json({
         success: false,
-        message: "Missing required fields: project_name and items are required",
+        message: held.hasDefault
+          ? "The warehouse holds the default location"
+          : "Move the stock out of the warehouse before deleting it",
       });
     }
 
-    // Validate requester_id and ensure it exists in the users table
-    if (!requester_id) {
-      console.error("Missing requester_id, using default admin user");
-      // Use admin user as fallback
-      const [adminUsers] = await pool.query(
-        "SELECT id FROM users WHERE role = 'admin' LIMIT 1"
-      );
-      if (adminUsers.length > 0) {
-        requester_id = adminUsers[0].id;
-        console.log("Using admin user as requester:", requester_id);
-      } else {
-        // If no admin user found, try to get any user
-        const [anyUsers] = await pool.query("SELECT id FROM users LIMIT 1");
-        if (anyUsers.length > 0) {
-          requester_id = anyUsers[0].id;
-          console.log("Using fallback user as requester:", requester_id);
-        } else {
-          return res.status(400).json({
-            success: false,
-            message: "No valid users found in the database",
-          });
-        }
-      }
-    } else {
-      // Check if the requester_id exists in the users table
-      const [userExists] = await pool.query(
-        "SELECT id FROM users WHERE id = ?",
-        [requester_id]
-      );
-      if (userExists.length === 0) {
-        console.error(`User with id ${requester_id} not found in database`);
-
-        // Try to find a valid user as fallback
-        const [validUsers] = await pool.query("SELECT id FROM users LIMIT 1");
-        if (validUsers.length > 0) {
-          requester_id = validUsers[0].id;
-          console.log("Using fallback user as requester:", requester_id);
-        } else {
-          return res.status(400).json({
-            success: false,
-            message: `User with id ${requester_id} not found and no fallback users available`,
-          });
-        }
-      }
-    }
+    // Empty stock rows would block deleting the locations
+    await pool.query(
+      "DELETE FROM item_locations WHERE location_id IN (SELECT id FROM stock_locations WHERE warehouse_id = ?)",
+      [req.params.id]
+    );
+    const [warehouses] = await pool.query(
+      "DELETE FROM warehouses WHERE id = ? RETURNING id",
+      [req.params.id]
+    );
 
-    // Validate item_id in items array
-    for (const item of items) {
-      console.log("Processing item:", item);
+    if (warehouses.length === 0) {
+      return res.status(404).json({ success: false, message: "Warehouse not found" });
+    }
 
-      if (item.item_id === undefined || item.item_id === null) {
-        console.error("Invalid item_id in request (undefined or null):", item);
-        return res.status(400).json({
-          success: false,
-          message: "Each item must have a valid item_id",
-          details: { invalidItem: item },
-        });
-      }
+    res.json({ success: true, message: "Warehouse deleted successfully" });
+  } catch (error) {
+    console.error(`Error deleting warehouse ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error deleting warehouse",
+      error: error.message,
+    });
+  }
+});
 
-      // Ensure item_id is a number
-      if (typeof item.item_id === "string") {
-        const parsedId = parseInt(item.item_id);
-        if (isNaN(parsedId)) {
-          console.error(`Failed to parse item_id "${item.item_id}" as integer`);
-          return res.status(400).json({
-            success: false,
-            message: `Failed to parse item_id "${item.item_id}" as integer`,
-            details: { invalidItem: item },
-          });
-        }
-        item.item_id = parsedId;
-      }
+// Only one location is the default; marking another one moves the flag
+async function setDefaultLocation(db, locationId) {
+  await db.query(
+    `UPDATE stock_locations SET is_default = CASE WHEN id = ? THEN 1 ELSE 0 END`,
+    [locationId]
+  );
+}
 
-      // Verify the item exists in the database
-      try {
-        const [itemExists] = await pool.query(
-          "SELECT id FROM items WHERE id = ?",
-          [item.item_id]
-        );
-        if (itemExists.length === 0) {
-          console.error(`Item with id ${item.item_id} not found in database`);
-          return res.status(400).json({
-            success: false,
-            message: `Item with id ${item.item_id} not found in database`,
-          });
-        }
-      } catch (itemCheckError) {
-        console.error("Error checking if item exists:", itemCheckError);
-      }
+app.post("/api/warehouses/:id/locations", requirePermission("locations:manage"), async (req, res) => {
+  try {
+    const code = String(req.body.code || "").trim();
+    if (!code) {
+      return res.status(400).json({ success: false, message: "code is required" });
     }
 
-    // Start a transaction
-    connection = await pool.getConnection();
-    await connection.beginTransaction();
-
-    // Generate a UUID for the request
-    const [uuidResult] = await connection.query("SELECT UUID() as uuid");
-    const requestId = uuidResult[0].uuid;
+    const [warehouses] = await pool.query(
+      "SELECT id FROM warehouses WHERE id = ? AND is_active = 1",
+      [req.params.id]
+    );
+    if (warehouses.length === 0) {
+      return res.status(404).json({ success: false, message: "Warehouse not found" });
+    }
 
-    // Get the user's name from the database if not provided
-    let finalRequesterName = requester_name;
-    if (!finalRequesterName) {
-      try {
-        const [userResult] = await connection.query(
-          "SELECT name FROM users WHERE id = ?",
-          [requester_id]
-        );
-        if (userResult.length > 0) {
-          finalRequesterName = userResult[0].name;
-        } else {
-          finalRequesterName = "Unknown User";
-        }
-      } catch (nameError) {
-        console.error("Error getting user name:", nameError);
-        finalRequesterName = "Unknown User";
-      }
+    const [locations] = await pool.query(
+      `INSERT INTO stock_locations (warehouse_id, code, description) VALUES (?, ?, ?) RETURNING *`,
+      [req.params.id, code, req.body.description || null]
+    );
+    const location = locations[0];
+    if (req.body.is_default) {
+      await setDefaultLocation(pool, location.id);
     }
 
-    console.log("Using requester name:", finalRequesterName);
+    res.status(201).json({ ...location, is_default: !!req.body.is_default, quantity: 0 });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ success: false, message: "The warehouse already has a location with this code" });
+    }
+    console.error(`Error creating location in warehouse ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error creating location",
+      error: error.message,
+    });
+  }
+});
 
-    // Update the user's name in the database if it's different
-    try {
-      await connection.query(
-        "UPDATE users SET name = ? WHERE id = ? AND (name IS NULL OR name = '' OR name != ?)",
-        [finalRequesterName, requester_id, finalRequesterName]
-      );
-    } catch (updateError) {
-      console.error("Error updating user name:", updateError);
-      // Continue with request creation even if name update fails
+app.put("/api/locations/:id", requirePermission("locations:manage"), async (req, res) => {
+  try {
+    const { code, description, is_default } = req.body;
+    if (code !== undefined && !String(code).trim()) {
+      return res.status(400).json({ success: false, message: "code cannot be empty" });
     }
 
-    // Insert the request
-    await connection.query(
-      `
-      INSERT INTO requests (
-        id,
-        project_name,
-        requester_id,
-        reason,
-        priority,
-        due_date,
-        status
-      ) VALUES (?, ?, ?, ?, ?, ?, 'pending')
-    `,
+    const [locations] = await pool.query(
+      `UPDATE stock_locations
+       SET code = COALESCE(?, code), description = COALESCE(?, description)
+       WHERE id = ?
+       RETURNING *`,
       [
-        requestId,
-        project_name,
-        requester_id,
-        reason || null,
-        priority || "medium",
-        due_date || null,
+        code !== undefined ? String(code).trim() : null,
+        description !== undefined ? description : null,
+        req.params.id,
       ]
     );
 
-    // Insert request items
-    for (const item of items) {
-      try {
-        console.log(
-          `Inserting request item: request_id=${requestId}, item_id=${item.item_id
-          }, quantity=${item.quantity || 1}`
-        );
+    if (locations.length === 0) {
+      return res.status(404).json({ success: false, message: "Location not found" });
+    }
 
-        // Ensure item_id is a valid integer
-        const itemId =
-          typeof item.item_id === "number"
-            ? item.item_id
-            : parseInt(item.item_id);
-        if (isNaN(itemId)) {
-          throw new Error(`Invalid item_id: ${item.item_id}`);
-        }
+    // The default can be moved to another location, but not cleared
+    if (is_default) {
+      await setDefaultLocation(pool, req.params.id);
+    }
 
-        await connection.query(
-          `
-          INSERT INTO request_items (
-            request_id,
-            item_id,
-            quantity
-          ) VALUES (?, ?, ?)
-        `,
-          [requestId, itemId, item.quantity || 1]
-        );
-        console.log("Request item inserted successfully");
-      } catch (insertError) {
-        console.error("Error inserting request item:", insertError);
-        throw insertError; // Re-throw to trigger rollback
-      }
+    res.json({ ...locations[0], is_default: !!is_default || locations[0].is_default === 1 });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ success: false, message: "The warehouse already has a location with this code" });
     }
+    console.error(`Error updating location ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error updating location",
+      error: error.message,
+    });
+  }
+});
 
-    // Commit the transaction
-    await connection.commit();
-
-    // Get the created request with items
-    const [requests] = await connection.query(
-      `
-      SELECT r.*
-      FROM requests r
-      WHERE r.id = ?
-    `,
-      [requestId]
-    );
+app.delete("/api/locations/:id", requirePermission("locations:manage"), async (req, res) => {
+  try {
+    const held = await getStockHeld(pool, "sl.id = ?", [req.params.id]);
+    if (held.quantity > 0 || held.hasDefault) {
+      return res.status(409).json({
+        success: false,
+        message: held.hasDefault
+          ? "The default location cannot be deleted"
+          : "Move the stock out of the location before deleting it",
+      });
+    }
 
-    const [requestItems] = await connection.query(
-      `
-      SELECT ri.*, i.name, i.description, i.category
-      FROM request_items ri
-      JOIN items i ON ri.item_id = i.id
-      WHERE ri.request_id = ?
-    `,
-      [requestId]
+    await pool.query("DELETE FROM item_locations WHERE location_id = ?", [req.params.id]);
+    const [locations] = await pool.query(
+      "DELETE FROM stock_locations WHERE id = ? RETURNING id",
+      [req.params.id]
     );
 
-    const createdRequest = {
-      ...requests[0],
-      items: requestItems,
-    };
-
-    res.status(201).json(createdRequest);
-  } catch (error) {
-    console.error("Error creating request:", error);
-
-    // Rollback the transaction if there was an error
-    if (connection) {
-      await connection.rollback();
+    if (locations.length === 0) {
+      return res.status(404).json({ success: false, message: "Location not found" });
     }
 
+    res.json({ success: true, message: "Location deleted successfully" });
+  } catch (error) {
+    console.error(`Error deleting location ${req.params.id}:`, error);
     res.status(500).json({
       success: false,
-      message: "Error creating request",
+      message: "Error deleting location",
       error: error.message,
     });
-  } finally {
-    // Release the connection
-    if (connection) {
-      connection.release();
-    }
   }
 });
 
-app.patch("/api/requests/:id/status", async (req, res) => {
+// Units of measure
+
+const UNIT_CODE_PATTERN = /^[A-Za-z0-9._\-/ ]{1,50}$/;
+
+// The units items can be counted, requested and moved in
+app.get("/api/units", async (req, res) => {
   try {
-    const { id } = req.params;
-    const { status } = req.body;
+    const [units] = await pool.query("SELECT code, name FROM units ORDER BY LOWER(name)");
+    res.json(units);
+  } catch (error) {
+    console.error("Error fetching units:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching units",
+      error: error.message,
+    });
+  }
+});
 
-    console.log(
-      `PATCH /api/requests/${id}/status - Updating request status to ${status}`
-    );
+app.post("/api/units", requirePermission("items:write"), async (req, res) => {
+  const code = String(req.body.code || "").trim().toLowerCase();
+  const name = String(req.body.name || "").trim() || code;
 
-    // If status is being updated to 'fulfilled', we need to deduct stock
-    if (status === 'fulfilled') {
-      // Get the existing status of the request first
-      const [requestQuery] = await pool.query("SELECT status FROM requests WHERE id = ?", [id]);
-      if (requestQuery.length > 0 && requestQuery[0].status === 'fulfilled') {
-        // Already fulfilled, don't deduct again
-        return res.json({ success: true, message: "Request already fulfilled" });
-      }
+  if (!UNIT_CODE_PATTERN.test(code)) {
+    return res.status(400).json({
+      success: false,
+      message: "Unit code may only contain letters, digits, spaces and . _ - / (at most 50 characters)",
+    });
+  }
 
-      // Start transaction for stock deduction
-      const connection = await pool.getConnection();
-      try {
-        await connection.beginTransaction();
+  try {
+    const [units] = await pool.query(
+      "INSERT INTO units (code, name) VALUES (?, ?) RETURNING code, name",
+      [code, name]
+    );
+    res.status(201).json(units[0]);
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ success: false, message: `Unit ${code} already exists` });
+    }
+    console.error("Error creating unit:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error creating unit",
+      error: error.message,
+    });
+  }
+});
 
-        // Get items in this request
-        const [reqItems] = await connection.query(
-          "SELECT item_id, quantity FROM request_items WHERE request_id = ?",
-          [id]
-        );
+// The units other than their stock unit the given items can be counted in,
+// keyed by item id; factor is how many of the stock unit one of the unit is
+async function getUnitConversions(db, itemIds) {
+  const ids = [...new Set(itemIds.map(String))];
+  if (ids.length === 0) {
+    return {};
+  }
 
-        for (const reqItem of reqItems) {
-          // Get current item quantity
-          const [items] = await connection.query(
-            "SELECT id, name, quantity, minQuantity FROM items WHERE id = ?",
-            [reqItem.item_id]
-          );
+  const [rows] = await db.query(
+    `SELECT item_id, unit, factor FROM item_units
+     WHERE item_id IN (${ids.map(() => "?").join(", ")})
+     ORDER BY factor, unit`,
+    ids
+  );
+
+  const conversionsByItem = {};
+  for (const row of rows) {
+    const itemId = row.item_id.toString();
+    conversionsByItem[itemId] = conversionsByItem[itemId] || [];
+    conversionsByItem[itemId].push({ unit: row.unit, factor: Number(row.factor) });
+  }
+  return conversionsByItem;
+}
 
-          if (items.length > 0) {
-            const item = items[0];
-            const quantityBefore = item.quantity;
-            const quantityChange = -reqItem.quantity;
-            const quantityAfter = quantityBefore + quantityChange;
+/**
+ * Convert a quantity in one of an item's units to its stock unit. Stock is
+ * counted in whole stock units, so a quantity that does not convert to a
+ * whole number is refused.
+ * @param item The items row, for its name and stock unit
+ * @returns { quantity, factor } in the stock unit, or { error } when the
+ *   item is not counted in the unit or the quantity does not convert
+ */
+function convertToBaseUnit(quantity, unit, item, conversions) {
+  const baseUnit = item.unit || "pcs";
+  if (!unit || unit === baseUnit) {
+    return { quantity, factor: 1 };
+  }
 
-            // Update item quantity
-            let newStatus = "out-of-stock";
-            if (quantityAfter > 0) {
-              newStatus = quantityAfter <= item.minQuantity ? "low-stock" : "in-stock";
-            }
+  const conversion = conversions.find((c) => c.unit === unit);
+  if (!conversion) {
+    const allowed = [baseUnit, ...conversions.map((c) => c.unit)].join(", ");
+    return { error: `${item.name} is counted in ${allowed}, not ${unit}` };
+  }
 
-            await connection.query(
-              "UPDATE items SET quantity = ?, status = ? WHERE id = ?",
-              [quantityAfter, newStatus, item.id]
-            );
+  const converted = quantity * conversion.factor;
+  if (Math.abs(converted - Math.round(converted)) > 1e-6) {
+    return {
+      error: `${Math.abs(quantity)} ${unit} of ${item.name} is ${Math.abs(converted)} ${baseUnit}; only whole ${baseUnit} can be used`,
+    };
+  }
+  return { quantity: Math.round(converted), factor: conversion.factor };
+}
 
-            // Record in stock history
-            await connection.query(
-              `INSERT INTO stock_history (item_id, change_type, quantity_before, quantity_change, quantity_after, reference_id, notes)
-               VALUES (?, 'request', ?, ?, ?, ?, ?)`,
-              [item.id, quantityBefore, quantityChange, quantityAfter, id, `Fulfilled request ${id}`]
-            );
-          }
-        }
+/**
+ * Replace the unit conversions of an item: { conversions: [{ unit, factor }] }
+ * with factor the number of the item's stock unit one of the unit holds
+ */
+app.put("/api/items/:id/units", requirePermission("items:write"), async (req, res) => {
+  const { id } = req.params;
+  const conversions = Array.isArray(req.body.conversions) ? req.body.conversions : [];
 
-        // Update request status
-        await connection.query("UPDATE requests SET status = ? WHERE id = ?", [status, id]);
+  let connection;
+  try {
+    const [items] = await pool.query("SELECT id, unit FROM items WHERE id = ?", [id]);
+    if (items.length === 0) {
+      return res.status(404).json({ success: false, message: "Item not found" });
+    }
+    const baseUnit = items[0].unit || "pcs";
 
-        await connection.commit();
-        res.json({ success: true, message: "Request fulfilled and stock updated" });
-      } catch (err) {
-        await connection.rollback();
-        throw err;
-      } finally {
-        connection.release();
+    const seen = new Set();
+    for (const conversion of conversions) {
+      const unit = String(conversion.unit || "").trim();
+      if (!unit || unit === baseUnit) {
+        return res.status(400).json({
+          success: false,
+          message: `Each conversion needs a unit other than the stock unit ${baseUnit}`,
+        });
       }
-      return;
+      if (seen.has(unit)) {
+        return res.status(400).json({ success: false, message: `${unit} is listed more than once` });
+      }
+      if (!(Number(conversion.factor) > 0)) {
+        return res.status(400).json({
+          success: false,
+          message: `How many ${baseUnit} one ${unit} holds must be greater than 0`,
+        });
+      }
+      seen.add(unit);
     }
 
-    const [result] = await pool.query(
-      `
-      UPDATE requests
-      SET status = ?
-      WHERE id = ?
-    `,
-      [status, id]
-    );
+    if (seen.size > 0) {
+      const [units] = await pool.query(
+        `SELECT code FROM units WHERE code IN (${[...seen].map(() => "?").join(", ")})`,
+        [...seen]
+      );
+      const unknown = [...seen].filter((unit) => !units.some((u) => u.code === unit));
+      if (unknown.length > 0) {
+        return res.status(400).json({ success: false, message: `Unknown unit: ${unknown.join(", ")}` });
+      }
+    }
 
-    if (result.affectedRows === 0) {
-      return res
-        .status(404)
-        .json({ success: false, message: "Request not found" });
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+    await connection.query("DELETE FROM item_units WHERE item_id = ?", [id]);
+    for (const conversion of conversions) {
+      await connection.query(
+        "INSERT INTO item_units (item_id, unit, factor) VALUES (?, ?, ?)",
+        [id, String(conversion.unit).trim(), Number(conversion.factor)]
+      );
     }
+    await connection.commit();
 
-    res.json({ success: true, message: "Request status updated successfully" });
+    publishStockChange([id]);
+    res.json({ success: true, conversions: (await getUnitConversions(pool, [id]))[id] || [] });
   } catch (error) {
-    console.error(`Error updating status for request ${req.params.id}:`, error);
+    console.error(`Error updating units of item ${id}:`, error);
+    if (connection) {
+      await connection.rollback();
+    }
     res.status(500).json({
       success: false,
-      message: "Error updating request status",
+      message: "Error updating units",
       error: error.message,
     });
+  } finally {
+    if (connection) {
+      connection.release();
+    }
   }
 });
 
-// Delete a request
-app.delete("/api/requests/:id", async (req, res) => {
-  let connection;
-  try {
-    const { id } = req.params;
-    console.log(`DELETE /api/requests/${id} - Deleting request`);
+// Inventory costing
+
+/**
+ * Cost a change to an item's stock that has just been written, and record
+ * the cost on its stock_history row when there is one. Stock-ins add a cost
+ * layer at unitCost, or at the item's average cost (then its price) when no
+ * cost is known, and update the moving average. Stock-outs use up the oldest
+ * layers and are costed by costingConfig.method; stock taken beyond the
+ * layers is costed at the average.
+ * @returns The signed cost of the change
+ */
+async function recordStockCost(db, { itemId, historyId = null, change, unitCost = null }) {
+  const [items] = await db.query(
+    "SELECT quantity, price, average_cost FROM items WHERE id = ?",
+    [itemId]
+  );
+  if (items.length === 0 || !change) {
+    return 0;
+  }
 
-    // Get a connection from the pool and start a transaction
-    connection = await pool.getConnection();
-    await connection.beginTransaction();
+  const item = items[0];
+  const averageCost = Number(item.average_cost ?? item.price ?? 0);
+  let costPerUnit;
+  let totalCost;
 
-    // Check if request exists
-    const [existingRequests] = await connection.query(
-      "SELECT * FROM requests WHERE id = ?",
-      [id]
+  if (change > 0) {
+    costPerUnit = unitCost !== null && unitCost !== undefined ? Number(unitCost) : averageCost;
+    const quantityBefore = Math.max(item.quantity - change, 0);
+    const newAverage = (quantityBefore * averageCost + change * costPerUnit) / (quantityBefore + change);
+
+    await db.query(
+      `INSERT INTO cost_layers (item_id, stock_history_id, quantity, remaining_quantity, unit_cost)
+       VALUES (?, ?, ?, ?, ?)`,
+      [itemId, historyId, change, change, costPerUnit]
     );
-    if (existingRequests.length === 0) {
-      await connection.rollback();
-      return res.status(404).json({
-        success: false,
-        message: "Request not found",
-      });
+    await db.query("UPDATE items SET average_cost = ? WHERE id = ?", [newAverage, itemId]);
+    totalCost = change * costPerUnit;
+  } else {
+    const [layers] = await db.query(
+      `SELECT id, remaining_quantity, unit_cost FROM cost_layers
+       WHERE item_id = ? AND remaining_quantity > 0
+       ORDER BY created_at, id
+       FOR UPDATE`,
+      [itemId]
+    );
+
+    let toTake = -change;
+    let layerCost = 0;
+    for (const layer of layers) {
+      if (toTake === 0) break;
+      const taken = Math.min(toTake, layer.remaining_quantity);
+      await db.query(
+        "UPDATE cost_layers SET remaining_quantity = remaining_quantity - ? WHERE id = ?",
+        [taken, layer.id]
+      );
+      layerCost += taken * Number(layer.unit_cost);
+      toTake -= taken;
     }
+    layerCost += toTake * averageCost;
 
-    // Delete request items first (due to foreign key constraint)
-    await connection.query(
-      "DELETE FROM request_items WHERE request_id = ?",
-      [id]
+    const cost = costingConfig.method === "fifo" ? layerCost : -change * averageCost;
+    costPerUnit = cost / -change;
+    totalCost = -cost;
+  }
+
+  totalCost = Math.round(totalCost * 100) / 100;
+  if (historyId) {
+    await db.query(
+      "UPDATE stock_history SET unit_cost = ?, total_cost = ? WHERE id = ?",
+      [costPerUnit, totalCost, historyId]
     );
+  }
+  return totalCost;
+}
 
-    // Delete the request
-    const [result] = await connection.query(
-      "DELETE FROM requests WHERE id = ?",
-      [id]
+// What the stock on hand of an items row (aliased i) is worth by the costing
+// method: its open cost layers under FIFO, otherwise its average cost
+const getStockValueExpression = () =>
+  costingConfig.method === "fifo"
+    ? `COALESCE((SELECT SUM(cl.remaining_quantity * cl.unit_cost) FROM cost_layers cl WHERE cl.item_id = i.id), 0)`
+    : `i.quantity * COALESCE(i.average_cost, i.price, 0)`;
+
+const VALUATION_CATEGORY = `COALESCE(NULLIF(i.category, ''), 'Uncategorized')`;
+
+/**
+ * Inventory valuation for a month: by category, the stock and its value at
+ * the start and end of the month and the cost of what went in and out during
+ * it, then the cost of goods issued against each request fulfilled in the
+ * month and per requester. Values at the end of past months are worked back
+ * from today's value and the cost of the movements since.
+ *
+ * Query parameters: year and month (1-12), defaulting to the current month.
+ */
+app.get("/api/reports/valuation", requirePermission("reports:view"), async (req, res) => {
+  const now = new Date();
+  const year = parseInt(req.query.year, 10) || now.getFullYear();
+  const month = parseInt(req.query.month, 10) || now.getMonth() + 1;
+  if (month < 1 || month > 12) {
+    return res.status(400).json({ success: false, message: "month must be between 1 and 12" });
+  }
+
+  const periodStart = new Date(year, month - 1, 1);
+  const periodEnd = new Date(year, month, 1);
+
+  try {
+    const [stock] = await pool.query(
+      `SELECT ${VALUATION_CATEGORY} AS category,
+              SUM(i.quantity) AS quantity,
+              SUM(${getStockValueExpression()}) AS value
+       FROM items i
+       GROUP BY 1`
     );
 
-    // Commit the transaction
-    await connection.commit();
+    const [movements] = await pool.query(
+      `SELECT ${VALUATION_CATEGORY} AS category,
+              SUM(CASE WHEN sh.created_at < ? AND sh.quantity_change > 0 THEN sh.quantity_change ELSE 0 END) AS in_quantity,
+              SUM(CASE WHEN sh.created_at < ? AND sh.total_cost > 0 THEN sh.total_cost ELSE 0 END) AS in_value,
+              SUM(CASE WHEN sh.created_at < ? AND sh.quantity_change < 0 THEN -sh.quantity_change ELSE 0 END) AS out_quantity,
+              SUM(CASE WHEN sh.created_at < ? AND sh.total_cost < 0 THEN -sh.total_cost ELSE 0 END) AS out_value,
+              SUM(CASE WHEN sh.created_at >= ? THEN sh.quantity_change ELSE 0 END) AS later_quantity,
+              SUM(CASE WHEN sh.created_at >= ? THEN COALESCE(sh.total_cost, 0) ELSE 0 END) AS later_value
+       FROM stock_history sh
+       JOIN items i ON i.id = sh.item_id
+       WHERE sh.created_at >= ?
+       GROUP BY 1`,
+      [periodEnd, periodEnd, periodEnd, periodEnd, periodEnd, periodEnd, periodStart]
+    );
 
-    if (result.affectedRows > 0) {
-      res.json({
-        success: true,
-        message: "Request deleted successfully",
-      });
-    } else {
-      res.status(400).json({
-        success: false,
-        message: "Failed to delete request",
-      });
-    }
-  } catch (error) {
-    console.error(`Error deleting request with id ${req.params.id}:`, error);
+    const categories = stock
+      .map((row) => {
+        const moved = movements.find((m) => m.category === row.category) || {};
+        const inQuantity = Number(moved.in_quantity || 0);
+        const inValue = Number(moved.in_value || 0);
+        const outQuantity = Number(moved.out_quantity || 0);
+        const outValue = Number(moved.out_value || 0);
+        const closingQuantity = Number(row.quantity || 0) - Number(moved.later_quantity || 0);
+        const closingValue = Number(row.value || 0) - Number(moved.later_value || 0);
+        return {
+          category: row.category,
+          opening_quantity: closingQuantity - inQuantity + outQuantity,
+          opening_value: closingValue - inValue + outValue,
+          in_quantity: inQuantity,
+          in_value: inValue,
+          out_quantity: outQuantity,
+          out_value: outValue,
+          closing_quantity: closingQuantity,
+          closing_value: closingValue,
+        };
+      })
+      .sort((a, b) => a.category.localeCompare(b.category));
 
-    // Rollback the transaction if there was an error
-    if (connection) {
-      try {
-        await connection.rollback();
-        console.log("Transaction rolled back due to error");
-      } catch (rollbackError) {
-        console.error("Error rolling back transaction:", rollbackError);
+    const [requests] = await pool.query(
+      `SELECT r.id, r.project_name, r.requester_id, u.name AS requester_name,
+              SUM(-sh.quantity_change) AS quantity,
+              SUM(-COALESCE(sh.total_cost, 0)) AS cost
+       FROM stock_history sh
+       JOIN requests r ON r.id = sh.reference_id
+       LEFT JOIN users u ON u.id = r.requester_id
+       WHERE sh.change_type = 'request' AND sh.created_at >= ? AND sh.created_at < ?
+       GROUP BY r.id, r.project_name, r.requester_id, u.name
+       ORDER BY cost DESC`,
+      [periodStart, periodEnd]
+    );
+
+    const issuedRequests = requests.map((request) => ({
+      request_id: request.id.toString(),
+      project_name: request.project_name,
+      requester_id: request.requester_id,
+      requester_name: request.requester_name || "Unknown",
+      quantity: Number(request.quantity),
+      cost: Number(request.cost),
+    }));
+
+    const requesters = [];
+    for (const request of issuedRequests) {
+      let requester = requesters.find((r) => r.requester_id === request.requester_id);
+      if (!requester) {
+        requester = {
+          requester_id: request.requester_id,
+          requester_name: request.requester_name,
+          requests: 0,
+          cost: 0,
+        };
+        requesters.push(requester);
       }
+      requester.requests += 1;
+      requester.cost += request.cost;
     }
+    requesters.sort((a, b) => b.cost - a.cost);
 
+    const sum = (field) => categories.reduce((total, category) => total + category[field], 0);
+    res.json({
+      year,
+      month,
+      method: costingConfig.method,
+      categories,
+      totals: {
+        opening_value: sum("opening_value"),
+        in_value: sum("in_value"),
+        out_value: sum("out_value"),
+        closing_value: sum("closing_value"),
+      },
+      requests: issuedRequests,
+      requesters,
+    });
+  } catch (error) {
+    console.error("Error fetching inventory valuation:", error);
     res.status(500).json({
       success: false,
-      message: "Error deleting request",
+      message: "Error fetching inventory valuation",
       error: error.message,
     });
-  } finally {
-    // Release the connection back to the pool
-    if (connection) {
-      connection.release();
-    }
   }
 });
 
-// User API endpoints
-// Login endpoint
-app.post("/api/auth/login", async (req, res) => {
+// Stock movements
+
+// Movement types and the stock_history change type each is recorded as
+const STOCK_MOVEMENT_TYPES = {
+  receive: "restock",
+  issue: "issue",
+  adjustment: "adjustment",
+};
+
+// How often a movement is retried when another one changed the item first
+const STOCK_MOVEMENT_ATTEMPTS = 3;
+
+const getStockStatus = (quantity, minQuantity) => {
+  if (quantity <= 0) return "out-of-stock";
+  return quantity <= minQuantity ? "low-stock" : "in-stock";
+};
+
+/**
+ * Receive, issue or adjust the stock of an item by a signed delta, at the
+ * given location or the default one. The new quantity is only written if
+ * the item still holds the quantity it was computed from, so concurrent
+ * movements never overwrite each other; the stock_history row is written in
+ * the same transaction. Callers that pass expected_quantity get a 409
+ * instead of a retry when the stock they saw has changed. A delta given in
+ * another of the item's units is converted to its stock unit. Stock coming
+ * in can carry unit_cost, what one of the entered unit cost; without it the
+ * stock is costed at the item's average cost.
+ */
+app.post("/api/items/:id/stock-movements", requirePermission("stock:adjust"), async (req, res) => {
+  const { id } = req.params;
+  const { type, delta, reason, expected_quantity, location_id, unit, unit_cost } = req.body;
+  let change = Number(delta);
+  let unitCost = unit_cost === undefined || unit_cost === null || unit_cost === "" ? null : Number(unit_cost);
+
+  if (!STOCK_MOVEMENT_TYPES[type]) {
+    return res.status(400).json({
+      success: false,
+      message: `type must be one of: ${Object.keys(STOCK_MOVEMENT_TYPES).join(", ")}`,
+    });
+  }
+  if (!Number.isInteger(change) || change === 0) {
+    return res.status(400).json({
+      success: false,
+      message: "delta must be a whole number other than zero",
+    });
+  }
+  if (unitCost !== null && (!Number.isFinite(unitCost) || unitCost < 0)) {
+    return res.status(400).json({
+      success: false,
+      message: "unit_cost must be a number of zero or more",
+    });
+  }
+  if ((type === "receive" && change < 0) || (type === "issue" && change > 0)) {
+    return res.status(400).json({
+      success: false,
+      message: type === "receive"
+        ? "Received stock must have a positive delta"
+        : "Issued stock must have a negative delta",
+    });
+  }
+
+  let connection;
   try {
-    const { email, password } = req.body;
-    console.log(`POST /api/auth/login - Attempting login for ${email}`);
+    const locationId = await resolveLocationId(pool, location_id);
+    if (!locationId) {
+      return res.status(400).json({ success: false, message: "Location not found" });
+    }
 
-    if (!email || !password) {
-      return res.status(400).json({
-        success: false,
-        message: "Email and password are required",
-      });
+    let entered = { quantity: null, unit: null };
+    if (unit) {
+      const [units] = await pool.query("SELECT name, unit FROM items WHERE id = ?", [id]);
+      if (units.length === 0) {
+        return res.status(404).json({ success: false, message: "Item not found" });
+      }
+      if (unit !== (units[0].unit || "pcs")) {
+        const converted = convertToBaseUnit(
+          change,
+          unit,
+          units[0],
+          (await getUnitConversions(pool, [id]))[id] || []
+        );
+        if (converted.error) {
+          return res.status(400).json({ success: false, message: converted.error });
+        }
+        entered = { quantity: change, unit };
+        change = converted.quantity;
+        if (unitCost !== null) {
+          unitCost /= converted.factor;
+        }
+      }
     }
 
-    // Query the database for the user
-    const [users] = await pool.query("SELECT * FROM users WHERE email = ?", [
-      email,
-    ]);
+    connection = await pool.getConnection();
 
-    if (users.length === 0) {
-      return res.status(401).json({
-        success: false,
-        message: "Invalid email or password",
+    for (let attempt = 1; ; attempt++) {
+      await connection.beginTransaction();
+
+      const [items] = await connection.query("SELECT * FROM items WHERE id = ?", [id]);
+      if (items.length === 0) {
+        await connection.rollback();
+        return res.status(404).json({ success: false, message: "Item not found" });
+      }
+
+      const item = items[0];
+      if (expected_quantity !== undefined && Number(expected_quantity) !== item.quantity) {
+        await connection.rollback();
+        return res.status(409).json({
+          success: false,
+          message: "The stock of this item has changed; review it and try again",
+          quantity: item.quantity,
+        });
+      }
+
+      const quantityAfter = item.quantity + change;
+      if (quantityAfter < 0) {
+        await connection.rollback();
+        return res.status(409).json({
+          success: false,
+          message: `Not enough stock: only ${item.quantity} on hand`,
+          quantity: item.quantity,
+        });
+      }
+
+      const [updated] = await connection.query(
+        `UPDATE items
+         SET quantity = ?, status = ?${type === "receive" ? `, "lastRestocked" = CURRENT_TIMESTAMP` : ""}
+         WHERE id = ? AND quantity = ?
+         RETURNING *`,
+        [quantityAfter, getStockStatus(quantityAfter, item.minQuantity), id, item.quantity]
+      );
+
+      // Another movement got there first
+      if (updated.length === 0) {
+        await connection.rollback();
+        if (expected_quantity !== undefined || attempt >= STOCK_MOVEMENT_ATTEMPTS) {
+          return res.status(409).json({
+            success: false,
+            message: "The stock of this item is being changed by someone else; try again",
+          });
+        }
+        continue;
+      }
+
+      if (!(await changeLocationStock(connection, id, locationId, change))) {
+        await connection.rollback();
+        return res.status(409).json({
+          success: false,
+          message: "Not enough stock at that location",
+        });
+      }
+
+      const [history] = await connection.query(
+        `INSERT INTO stock_history (item_id, change_type, quantity_before, quantity_change, quantity_after, notes, created_by, location_id, entered_quantity, entered_unit)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         RETURNING id, created_at`,
+        [id, STOCK_MOVEMENT_TYPES[type], item.quantity, change, quantityAfter, reason || null, req.user.id, locationId, entered.quantity, entered.unit]
+      );
+      const totalCost = await recordStockCost(connection, {
+        itemId: id,
+        historyId: history[0].id,
+        change,
+        unitCost,
+      });
+
+      await connection.commit();
+      publishStockChange([id]);
+
+      const movedItem = updated[0];
+      return res.status(201).json({
+        movement: {
+          id: history[0].id.toString(),
+          item_id: id.toString(),
+          type,
+          delta: change,
+          entered_quantity: entered.quantity,
+          entered_unit: entered.unit,
+          total_cost: totalCost,
+          quantity_before: item.quantity,
+          quantity_after: quantityAfter,
+          location_id: locationId.toString(),
+          reason: reason || null,
+          created_at: history[0].created_at,
+        },
+        item: {
+          ...movedItem,
+          id: movedItem.id.toString(),
+        },
       });
     }
+  } catch (error) {
+    console.error(`Error moving stock of item ${id}:`, error);
+    if (connection) {
+      await connection.rollback();
+    }
+    res.status(500).json({
+      success: false,
+      message: "Error moving stock",
+      error: error.message,
+    });
+  } finally {
+    if (connection) {
+      connection.release();
+    }
+  }
+});
 
-    const user = users[0];
-    console.log(`User found: ${user.name}, role: ${user.role}`);
+/**
+ * Move stock of an item from one location to another. The item's total does
+ * not change; the transfer is recorded in stock_history with both locations.
+ */
+app.post("/api/items/:id/transfers", requirePermission("stock:adjust"), async (req, res) => {
+  const { id } = req.params;
+  const { from_location_id, to_location_id, reason } = req.body;
+  const quantity = Number(req.body.quantity);
+
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    return res.status(400).json({
+      success: false,
+      message: "quantity must be a positive whole number",
+    });
+  }
+  if (!from_location_id || !to_location_id || String(from_location_id) === String(to_location_id)) {
+    return res.status(400).json({
+      success: false,
+      message: "Choose two different locations to transfer between",
+    });
+  }
 
-    // For this implementation, we'll allow direct password comparison
-    // This is not secure for production but will work for our demo
-    // In a real app, you would use bcrypt.compare() to check hashed passwords
+  let connection;
+  try {
+    const fromLocationId = await resolveLocationId(pool, from_location_id);
+    const toLocationId = await resolveLocationId(pool, to_location_id);
+    if (!fromLocationId || !toLocationId) {
+      return res.status(400).json({ success: false, message: "Location not found" });
+    }
 
-    // Check if the password is hashed (starts with $2b$)
-    let passwordMatches = false;
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
 
-    if (user.password.startsWith("$2b$")) {
-      // For demo purposes, we'll allow specific test passwords
-      if (
-        (email === "manager@gudangmitra.com" && password === "password123") ||
-        (email === "admin@example.com" && password === "admin123") ||
-        (email === "user@example.com" && password === "user123")
-      ) {
-        passwordMatches = true;
-      }
-    } else {
-      // Direct comparison for non-hashed passwords
-      passwordMatches = user.password === password;
+    const [items] = await connection.query("SELECT id, quantity FROM items WHERE id = ?", [id]);
+    if (items.length === 0) {
+      await connection.rollback();
+      return res.status(404).json({ success: false, message: "Item not found" });
     }
 
-    if (!passwordMatches) {
-      return res.status(401).json({
+    if (!(await changeLocationStock(connection, id, fromLocationId, -quantity))) {
+      await connection.rollback();
+      return res.status(409).json({
         success: false,
-        message: "Invalid email or password",
+        message: "Not enough stock at the location to transfer from",
       });
     }
+    await changeLocationStock(connection, id, toLocationId, quantity);
 
-    // Return user data (excluding password)
-    const userData = {
-      id: user.id.toString(),
-      username: user.name || user.username,
-      email: user.email,
-      role: user.role || "user",
-    };
+    const item = items[0];
+    await connection.query(
+      `INSERT INTO stock_history (item_id, change_type, quantity_before, quantity_change, quantity_after, notes, created_by, location_id, to_location_id, transfer_quantity)
+       VALUES (?, 'transfer', ?, 0, ?, ?, ?, ?, ?, ?)`,
+      [id, item.quantity, item.quantity, reason || null, req.user.id, fromLocationId, toLocationId, quantity]
+    );
 
-    res.json({
+    await connection.commit();
+    publishStockChange([id]);
+
+    res.status(201).json({
       success: true,
-      message: "Login successful",
-      user: userData,
+      locations: (await getItemLocations(pool, [id]))[id] || [],
     });
   } catch (error) {
-    console.error("Error during login:", error);
+    console.error(`Error transferring stock of item ${id}:`, error);
+    if (connection) {
+      await connection.rollback();
+    }
     res.status(500).json({
       success: false,
-      message: "Error during login",
+      message: "Error transferring stock",
       error: error.message,
     });
+  } finally {
+    if (connection) {
+      connection.release();
+    }
   }
 });
 
-// User Management API endpoints
-// Get all users
-app.get("/api/users", async (req, res) => {
-  try {
-    console.log("GET /api/users - Fetching all users");
-    const [users] = await pool.query("SELECT id, name, email, role FROM users");
+// Stock counts (opname) API endpoints
+
+const STOCK_COUNT_STATUSES = ["open", "posted", "cancelled"];
+
+// Load a stock count with its lines: what each location was expected to
+// hold when the count was opened, what was counted there, and the
+// difference with its value at the frozen unit price
+async function getStockCount(db, countId) {
+  const [counts] = await db.query(
+    `SELECT sc.*, w.name || ' / ' || sl.code AS location_name,
+       cu.name AS created_by_name, pu.name AS posted_by_name
+     FROM stock_counts sc
+     LEFT JOIN stock_locations sl ON sl.id = sc.location_id
+     LEFT JOIN warehouses w ON w.id = sl.warehouse_id
+     LEFT JOIN users cu ON cu.id = sc.created_by
+     LEFT JOIN users pu ON pu.id = sc.posted_by
+     WHERE sc.id = ?`,
+    [countId]
+  );
+  if (counts.length === 0) {
+    return null;
+  }
 
-    // Map to the expected format for the frontend
-    const formattedUsers = users.map((user) => ({
-      id: user.id.toString(),
-      username: user.name,
-      email: user.email,
-      role: user.role || "user",
-    }));
+  const [lines] = await db.query(
+    `SELECT scl.*, i.name AS item_name, i.category, i.unit,
+       w.name || ' / ' || sl.code AS location_name, u.name AS counted_by_name
+     FROM stock_count_lines scl
+     JOIN items i ON i.id = scl.item_id
+     JOIN stock_locations sl ON sl.id = scl.location_id
+     JOIN warehouses w ON w.id = sl.warehouse_id
+     LEFT JOIN users u ON u.id = scl.counted_by
+     WHERE scl.count_id = ?
+     ORDER BY w.name, sl.code, i.name`,
+    [countId]
+  );
+
+  return {
+    ...counts[0],
+    id: counts[0].id.toString(),
+    location_id: counts[0].location_id ? counts[0].location_id.toString() : null,
+    lines: lines.map((line) => {
+      const variance = line.counted_quantity === null
+        ? null
+        : line.counted_quantity - line.expected_quantity;
+      return {
+        ...line,
+        id: line.id.toString(),
+        count_id: line.count_id.toString(),
+        item_id: line.item_id.toString(),
+        location_id: line.location_id.toString(),
+        unit_price: Number(line.unit_price),
+        is_approved: line.is_approved === 1,
+        variance,
+        variance_value: variance === null ? null : variance * Number(line.unit_price),
+      };
+    }),
+  };
+}
 
-    res.json(formattedUsers);
+// Load the stock count named in the URL when it is still open, or send the
+// error response and return null. Given a connection, the count stays locked
+// until its transaction ends.
+async function getOpenStockCount(req, res, connection) {
+  const [counts] = await (connection || pool).query(
+    `SELECT * FROM stock_counts WHERE id = ?${connection ? " FOR UPDATE" : ""}`,
+    [req.params.id]
+  );
+  if (counts.length === 0) {
+    res.status(404).json({ success: false, message: "Stock count not found" });
+    return null;
+  }
+  if (counts[0].status !== "open") {
+    res.status(409).json({
+      success: false,
+      message: `This stock count has already been ${counts[0].status}`,
+    });
+    return null;
+  }
+  return counts[0];
+}
+
+// Stock counts, newest first, with how far counting has got and the value
+// of the differences found so far. Query parameter: status.
+app.get("/api/stock-counts", requirePermission("stock:count"), async (req, res) => {
+  try {
+    const statuses = toList(req.query.status).filter((status) =>
+      STOCK_COUNT_STATUSES.includes(status)
+    );
+    const [counts] = await pool.query(
+      `SELECT sc.*, w.name || ' / ' || sl.code AS location_name,
+         cu.name AS created_by_name,
+         COUNT(scl.id) AS line_count,
+         COUNT(scl.counted_quantity) AS counted_count,
+         COALESCE(SUM((scl.counted_quantity - scl.expected_quantity) * scl.unit_price), 0) AS variance_value
+       FROM stock_counts sc
+       LEFT JOIN stock_count_lines scl ON scl.count_id = sc.id
+       LEFT JOIN stock_locations sl ON sl.id = sc.location_id
+       LEFT JOIN warehouses w ON w.id = sl.warehouse_id
+       LEFT JOIN users cu ON cu.id = sc.created_by
+       ${toWhereClause(statuses.length > 0 ? [`sc.status IN (${statuses.map(() => "?").join(", ")})`] : [])}
+       GROUP BY sc.id, w.name, sl.code, cu.name
+       ORDER BY sc.created_at DESC`,
+      statuses
+    );
+
+    res.json(
+      counts.map((count) => ({
+        ...count,
+        id: count.id.toString(),
+        location_id: count.location_id ? count.location_id.toString() : null,
+        line_count: Number(count.line_count),
+        counted_count: Number(count.counted_count),
+        variance_value: Number(count.variance_value),
+      }))
+    );
   } catch (error) {
-    console.error("Error fetching users:", error);
+    console.error("Error fetching stock counts:", error);
     res.status(500).json({
       success: false,
-      message: "Error fetching users",
+      message: "Error fetching stock counts",
       error: error.message,
     });
   }
 });
 
-// Get a single user by ID
-app.get("/api/users/:id", async (req, res) => {
+app.get("/api/stock-counts/:id", requirePermission("stock:count"), async (req, res) => {
   try {
-    const { id } = req.params;
-    console.log(`GET /api/users/${id} - Fetching user details`);
-
-    const [users] = await pool.query(
-      "SELECT id, name, email, role FROM users WHERE id = ?",
-      [id]
-    );
-
-    if (users.length === 0) {
-      return res.status(404).json({
-        success: false,
-        message: "User not found",
-      });
+    const count = await getStockCount(pool, req.params.id);
+    if (!count) {
+      return res.status(404).json({ success: false, message: "Stock count not found" });
     }
-
-    const user = users[0];
-    const userData = {
-      id: user.id.toString(),
-      username: user.name,
-      email: user.email,
-      role: user.role || "user",
-    };
-
-    res.json(userData);
+    res.json(count);
   } catch (error) {
-    console.error(`Error fetching user with id ${req.params.id}:`, error);
+    console.error(`Error fetching stock count ${req.params.id}:`, error);
     res.status(500).json({
       success: false,
-      message: "Error fetching user",
+      message: "Error fetching stock count",
       error: error.message,
     });
   }
 });
 
-// Create a new user
-app.post("/api/users", async (req, res) => {
+/**
+ * Open a stock count over the items of a category, the stock held at a
+ * location, or both, and freeze the expected quantities. Without a location
+ * every location holding the items is counted, and items with no stock
+ * anywhere are counted at the default location. An item can only be in one
+ * open count per location, as posting applies differences against the frozen
+ * quantities.
+ */
+app.post("/api/stock-counts", requirePermission("stock:adjust"), async (req, res) => {
+  const name = String(req.body.name || "").trim();
+  const category = String(req.body.category || "").trim() || null;
+  const { location_id, notes } = req.body;
+
+  if (!name) {
+    return res.status(400).json({ success: false, message: "name is required" });
+  }
+
+  let connection;
   try {
-    const { username, email, password, role } = req.body;
-    console.log(
-      `POST /api/users - Creating new user: ${username}, ${email}, role: ${role}`
+    let locationId = null;
+    if (location_id) {
+      locationId = await resolveLocationId(pool, location_id);
+      if (!locationId) {
+        return res.status(400).json({ success: false, message: "Location not found" });
+      }
+    }
+
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    const [counts] = await connection.query(
+      `INSERT INTO stock_counts (name, category, location_id, notes, created_by)
+       VALUES (?, ?, ?, ?, ?)
+       RETURNING id`,
+      [name, category, locationId, notes || null, req.user.id]
     );
+    const countId = counts[0].id;
 
-    // Validate required fields
-    if (!username || !email || !password) {
-      return res.status(400).json({
-        success: false,
-        message: "Username, email, and password are required",
-      });
+    const conditions = [`i."isActive" = 1`];
+    const params = [countId];
+    if (category) {
+      conditions.push("i.category = ?");
+      params.push(category);
     }
 
-    // Validate role
-    const validRoles = ["admin", "manager", "user"];
-    const userRole = role && validRoles.includes(role) ? role : "user";
+    if (locationId) {
+      await connection.query(
+        `INSERT INTO stock_count_lines (count_id, item_id, location_id, expected_quantity, unit_price)
+         SELECT ?, i.id, il.location_id, il.quantity, COALESCE(i.price, 0)
+         FROM items i
+         JOIN item_locations il ON il.item_id = i.id
+         WHERE ${conditions.join(" AND ")} AND il.location_id = ?`,
+        [...params, locationId]
+      );
+    } else {
+      await connection.query(
+        `INSERT INTO stock_count_lines (count_id, item_id, location_id, expected_quantity, unit_price)
+         SELECT ?, i.id, il.location_id, il.quantity, COALESCE(i.price, 0)
+         FROM items i
+         JOIN item_locations il ON il.item_id = i.id
+         WHERE ${conditions.join(" AND ")} AND il.quantity > 0`,
+        params
+      );
+      await connection.query(
+        `INSERT INTO stock_count_lines (count_id, item_id, location_id, expected_quantity, unit_price)
+         SELECT ?, i.id, ?, 0, COALESCE(i.price, 0)
+         FROM items i
+         WHERE ${conditions.join(" AND ")}
+           AND NOT EXISTS (SELECT 1 FROM item_locations il WHERE il.item_id = i.id AND il.quantity > 0)`,
+        [countId, await getDefaultLocationId(connection), ...params.slice(1)]
+      );
+    }
 
-    // Check if email already exists
-    const [existingUsers] = await pool.query(
-      "SELECT * FROM users WHERE email = ?",
-      [email]
+    const [lines] = await connection.query(
+      "SELECT COUNT(*) AS total FROM stock_count_lines WHERE count_id = ?",
+      [countId]
     );
-    if (existingUsers.length > 0) {
+    if (Number(lines[0].total) === 0) {
+      await connection.rollback();
       return res.status(400).json({
         success: false,
-        message: "Email already in use",
+        message: "There is nothing to count for that category and location",
       });
     }
 
-    // Insert the new user
-    const [result] = await pool.query(
-      "INSERT INTO users (name, email, password, role) VALUES (?, ?, ?, ?)",
-      [username, email, password, userRole]
+    const [overlapping] = await connection.query(
+      `SELECT DISTINCT sc.name
+       FROM stock_count_lines other
+       JOIN stock_counts sc ON sc.id = other.count_id
+       JOIN stock_count_lines mine ON mine.item_id = other.item_id AND mine.location_id = other.location_id
+       WHERE mine.count_id = ? AND other.count_id <> ? AND sc.status = 'open'`,
+      [countId, countId]
     );
+    if (overlapping.length > 0) {
+      await connection.rollback();
+      return res.status(409).json({
+        success: false,
+        message: `Some of this stock is already being counted in: ${overlapping.map((count) => count.name).join(", ")}`,
+      });
+    }
 
-    if (result.insertId) {
-      const userData = {
-        id: result.insertId.toString(),
-        username,
-        email,
-        role: userRole,
-      };
-
-      res.status(201).json({
-        success: true,
-        message: "User created successfully",
-        user: userData,
-      });
-    } else {
-      res.status(400).json({
-        success: false,
-        message: "Failed to create user",
-      });
-    }
+    await connection.commit();
+    res.status(201).json(await getStockCount(pool, countId));
   } catch (error) {
-    console.error("Error creating user:", error);
+    console.error("Error opening stock count:", error);
+    if (connection) {
+      await connection.rollback();
+    }
     res.status(500).json({
       success: false,
-      message: "Error creating user",
+      message: "Error opening stock count",
       error: error.message,
     });
+  } finally {
+    if (connection) {
+      connection.release();
+    }
   }
 });
 
-// Update a user
-app.put("/api/users/:id", async (req, res) => {
+// Enter counted quantities: { lines: [{ id, counted_quantity, note }] }.
+// Several people can count at once, each saving only the lines they counted;
+// a null quantity clears a count. Changing a count withdraws its approval.
+app.put("/api/stock-counts/:id/lines", requirePermission("stock:count"), async (req, res) => {
+  const lines = Array.isArray(req.body.lines) ? req.body.lines : [];
+  const invalid = lines.find(
+    (line) =>
+      !line.id ||
+      (line.counted_quantity !== null &&
+        !(Number.isInteger(Number(line.counted_quantity)) && Number(line.counted_quantity) >= 0))
+  );
+  if (lines.length === 0 || invalid) {
+    return res.status(400).json({
+      success: false,
+      message: "lines must be a list of line ids with counted quantities of zero or more",
+    });
+  }
+
   try {
-    const { id } = req.params;
-    const { username, email, password, role } = req.body;
-    console.log(`PUT /api/users/${id} - Updating user`);
+    const count = await getOpenStockCount(req, res);
+    if (!count) return;
 
-    // Validate role if provided
-    if (role) {
-      const validRoles = ["admin", "manager", "user"];
-      if (!validRoles.includes(role)) {
-        return res.status(400).json({
-          success: false,
-          message: "Invalid role",
-        });
-      }
+    for (const line of lines) {
+      const counted = line.counted_quantity === null ? null : Number(line.counted_quantity);
+      await pool.query(
+        `UPDATE stock_count_lines
+         SET is_approved = CASE WHEN counted_quantity IS NOT DISTINCT FROM ? THEN is_approved ELSE 0 END,
+           counted_quantity = ?, note = ?, counted_by = ?, counted_at = ?
+         WHERE id = ? AND count_id = ?`,
+        [
+          counted,
+          counted,
+          line.note || null,
+          counted === null ? null : req.user.id,
+          counted === null ? null : new Date(),
+          line.id,
+          count.id,
+        ]
+      );
     }
 
-    // Check if user exists
-    const [existingUsers] = await pool.query(
-      "SELECT * FROM users WHERE id = ?",
-      [id]
+    res.json(await getStockCount(pool, count.id));
+  } catch (error) {
+    console.error(`Error saving counts of stock count ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error saving counts",
+      error: error.message,
+    });
+  }
+});
+
+// Approve or withdraw approval of differences: { line_ids, approved }. Only
+// counted lines can be approved.
+app.patch("/api/stock-counts/:id/approvals", requirePermission("stock:adjust"), async (req, res) => {
+  const lineIds = Array.isArray(req.body.line_ids) ? req.body.line_ids : [];
+  if (lineIds.length === 0) {
+    return res.status(400).json({ success: false, message: "line_ids is required" });
+  }
+
+  try {
+    const count = await getOpenStockCount(req, res);
+    if (!count) return;
+
+    await pool.query(
+      `UPDATE stock_count_lines SET is_approved = ?
+       WHERE count_id = ? AND counted_quantity IS NOT NULL
+         AND id IN (${lineIds.map(() => "?").join(", ")})`,
+      [req.body.approved === false ? 0 : 1, count.id, ...lineIds]
     );
-    if (existingUsers.length === 0) {
-      return res.status(404).json({
-        success: false,
-        message: "User not found",
-      });
-    }
 
-    // Build the update query dynamically
-    const updateFields = [];
-    const updateValues = [];
+    res.json(await getStockCount(pool, count.id));
+  } catch (error) {
+    console.error(`Error approving lines of stock count ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error approving differences",
+      error: error.message,
+    });
+  }
+});
 
-    if (username) {
-      updateFields.push("name = ?");
-      updateValues.push(username);
+/**
+ * Post a stock count: every approved difference between the counted and the
+ * frozen expected quantity is applied to the item and its location in one
+ * transaction and recorded as an 'opname' stock_history entry. Movements
+ * made since the count was opened are kept. Lines without an approved
+ * difference change nothing.
+ */
+app.post("/api/stock-counts/:id/post", requirePermission("stock:adjust"), async (req, res) => {
+  let connection;
+  try {
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    const count = await getOpenStockCount(req, res, connection);
+    if (!count) {
+      await connection.rollback();
+      return;
     }
 
-    if (email) {
-      // Check if email is already taken by another user
-      const [emailUsers] = await pool.query(
-        "SELECT * FROM users WHERE email = ? AND id != ?",
-        [email, id]
+    const [lines] = await connection.query(
+      `SELECT * FROM stock_count_lines
+       WHERE count_id = ? AND is_approved = 1 AND counted_quantity <> expected_quantity
+       ORDER BY item_id`,
+      [count.id]
+    );
+
+    for (const line of lines) {
+      const difference = line.counted_quantity - line.expected_quantity;
+      const [items] = await connection.query(
+        `SELECT id, name, quantity, "minQuantity" FROM items WHERE id = ? FOR UPDATE`,
+        [line.item_id]
       );
-      if (emailUsers.length > 0) {
-        return res.status(400).json({
+      const item = items[0];
+      const quantityAfter = item.quantity + difference;
+
+      if (
+        quantityAfter < 0 ||
+        !(await changeLocationStock(connection, item.id, line.location_id, difference))
+      ) {
+        await connection.rollback();
+        return res.status(409).json({
           success: false,
-          message: "Email already in use by another user",
+          message: `Stock of ${item.name} has moved since it was counted and can no longer be reduced by ${-difference}; recount it`,
         });
       }
 
-      updateFields.push("email = ?");
-      updateValues.push(email);
+      await connection.query(
+        "UPDATE items SET quantity = ?, status = ? WHERE id = ?",
+        [quantityAfter, getStockStatus(quantityAfter, item.minQuantity), item.id]
+      );
+      const [history] = await connection.query(
+        `INSERT INTO stock_history (item_id, change_type, quantity_before, quantity_change, quantity_after, notes, created_by, location_id, stock_count_id)
+         VALUES (?, 'opname', ?, ?, ?, ?, ?, ?, ?)
+         RETURNING id`,
+        [
+          item.id,
+          item.quantity,
+          difference,
+          quantityAfter,
+          line.note ? `${count.name}: ${line.note}` : count.name,
+          req.user.id,
+          line.location_id,
+          count.id,
+        ]
+      );
+      // Stock found is valued at the price frozen when the count was opened
+      await recordStockCost(connection, {
+        itemId: item.id,
+        historyId: history[0].id,
+        change: difference,
+        unitCost: Number(line.unit_price),
+      });
     }
 
-    if (password) {
-      updateFields.push("password = ?");
-      updateValues.push(password);
+    await connection.query(
+      `UPDATE stock_counts SET status = 'posted', posted_by = ?, posted_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [req.user.id, count.id]
+    );
+
+    await connection.commit();
+    if (lines.length > 0) {
+      publishStockChange(lines.map((line) => line.item_id));
     }
 
-    if (role) {
-      updateFields.push("role = ?");
-      updateValues.push(role);
+    res.json(await getStockCount(pool, count.id));
+  } catch (error) {
+    console.error(`Error posting stock count ${req.params.id}:`, error);
+    if (connection) {
+      await connection.rollback();
+    }
+    res.status(500).json({
+      success: false,
+      message: "Error posting stock count",
+      error: error.message,
+    });
+  } finally {
+    if (connection) {
+      connection.release();
     }
+  }
+});
 
-    if (updateFields.length === 0) {
-      return res.status(400).json({
-        success: false,
-        message: "No fields to update",
-      });
+// Abandon an open stock count without changing any stock
+app.post("/api/stock-counts/:id/cancel", requirePermission("stock:adjust"), async (req, res) => {
+  try {
+    const count = await getOpenStockCount(req, res);
+    if (!count) return;
+
+    await pool.query("UPDATE stock_counts SET status = 'cancelled' WHERE id = ?", [count.id]);
+    res.json(await getStockCount(pool, count.id));
+  } catch (error) {
+    console.error(`Error cancelling stock count ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error cancelling stock count",
+      error: error.message,
+    });
+  }
+});
+
+// Suppliers and purchase orders API endpoints
+
+app.get("/api/suppliers", requirePermission("purchasing:manage"), async (req, res) => {
+  try {
+    const includeInactive = req.query.include_inactive === "true";
+    const [suppliers] = await pool.query(
+      `SELECT * FROM suppliers ${includeInactive ? "" : "WHERE is_active = 1"} ORDER BY name`
+    );
+    res.json(
+      suppliers.map((supplier) => ({
+        ...supplier,
+        id: supplier.id.toString(),
+        is_active: supplier.is_active === 1,
+      }))
+    );
+  } catch (error) {
+    console.error("Error fetching suppliers:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching suppliers",
+      error: error.message,
+    });
+  }
+});
+
+const SUPPLIER_FIELDS = ["name", "contact_name", "email", "phone", "address", "notes"];
+
+// Supplier fields from a request body, with empty optional fields as NULL
+const toSupplierValues = (body) =>
+  SUPPLIER_FIELDS.filter((field) => body[field] !== undefined).map((field) => [
+    field,
+    String(body[field] ?? "").trim() || null,
+  ]);
+
+app.post("/api/suppliers", requirePermission("purchasing:manage"), async (req, res) => {
+  try {
+    const values = toSupplierValues(req.body);
+    if (!values.some(([field, value]) => field === "name" && value)) {
+      return res.status(400).json({ success: false, message: "name is required" });
     }
 
-    // Add the id to the values array for the WHERE clause
-    updateValues.push(id);
+    const [suppliers] = await pool.query(
+      `INSERT INTO suppliers (${values.map(([field]) => field).join(", ")})
+       VALUES (${values.map(() => "?").join(", ")})
+       RETURNING *`,
+      values.map(([, value]) => value)
+    );
+    res.status(201).json({ ...suppliers[0], id: suppliers[0].id.toString(), is_active: true });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ success: false, message: "A supplier with that name already exists" });
+    }
+    console.error("Error creating supplier:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error creating supplier",
+      error: error.message,
+    });
+  }
+});
 
-    const query = `UPDATE users SET ${updateFields.join(", ")} WHERE id = ?`;
-    const [result] = await pool.query(query, updateValues);
+app.put("/api/suppliers/:id", requirePermission("purchasing:manage"), async (req, res) => {
+  try {
+    const values = toSupplierValues(req.body);
+    if (values.some(([field, value]) => field === "name" && !value)) {
+      return res.status(400).json({ success: false, message: "name cannot be empty" });
+    }
+    if (req.body.is_active !== undefined) {
+      values.push(["is_active", req.body.is_active ? 1 : 0]);
+    }
+    if (values.length === 0) {
+      return res.status(400).json({ success: false, message: "Nothing to update" });
+    }
 
-    if (result.affectedRows > 0) {
-      // Get the updated user
-      const [users] = await pool.query(
-        "SELECT id, name, email, role FROM users WHERE id = ?",
-        [id]
-      );
+    const [suppliers] = await pool.query(
+      `UPDATE suppliers SET ${values.map(([field]) => `${field} = ?`).join(", ")}
+       WHERE id = ?
+       RETURNING *`,
+      [...values.map(([, value]) => value), req.params.id]
+    );
+    if (suppliers.length === 0) {
+      return res.status(404).json({ success: false, message: "Supplier not found" });
+    }
 
-      const userData = {
-        id: users[0].id.toString(),
-        username: users[0].name,
-        email: users[0].email,
-        role: users[0].role || "user",
-      };
+    res.json({
+      ...suppliers[0],
+      id: suppliers[0].id.toString(),
+      is_active: suppliers[0].is_active === 1,
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ success: false, message: "A supplier with that name already exists" });
+    }
+    console.error(`Error updating supplier ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error updating supplier",
+      error: error.message,
+    });
+  }
+});
 
-      res.json({
-        success: true,
-        message: "User updated successfully",
-        user: userData,
-      });
-    } else {
-      res.status(400).json({
+// Suppliers that have been ordered from are kept for their orders; mark them
+// inactive instead
+app.delete("/api/suppliers/:id", requirePermission("purchasing:manage"), async (req, res) => {
+  try {
+    const [orders] = await pool.query(
+      "SELECT COUNT(*) AS total FROM purchase_orders WHERE supplier_id = ?",
+      [req.params.id]
+    );
+    if (Number(orders[0].total) > 0) {
+      return res.status(409).json({
         success: false,
-        message: "Failed to update user",
+        message: "This supplier has purchase orders; mark it inactive instead",
       });
     }
+
+    const [deleted] = await pool.query(
+      "DELETE FROM suppliers WHERE id = ? RETURNING id",
+      [req.params.id]
+    );
+    if (deleted.length === 0) {
+      return res.status(404).json({ success: false, message: "Supplier not found" });
+    }
+    res.json({ success: true });
   } catch (error) {
-    console.error(`Error updating user with id ${req.params.id}:`, error);
+    console.error(`Error deleting supplier ${req.params.id}:`, error);
     res.status(500).json({
       success: false,
-      message: "Error updating user",
+      message: "Error deleting supplier",
       error: error.message,
     });
   }
 });
 
-// Delete a user
-app.delete("/api/users/:id", async (req, res) => {
+const PURCHASE_ORDER_STATUSES = ["draft", "sent", "partially_received", "received", "cancelled"];
+
+// Orders whose lines are still expected to arrive
+const OPEN_PURCHASE_ORDER_STATUSES = ["draft", "sent", "partially_received"];
+
+// Validate the lines of a purchase order from a request body, returning an
+// error message or null
+function getPurchaseOrderLinesError(lines) {
+  if (!Array.isArray(lines) || lines.length === 0) {
+    return "An order needs at least one line";
+  }
+  for (const line of lines) {
+    if (!line.item_id) return "Every line needs an item_id";
+    if (!Number.isInteger(Number(line.quantity)) || Number(line.quantity) <= 0) {
+      return "Ordered quantities must be positive whole numbers";
+    }
+    if (
+      line.unit_price !== undefined && line.unit_price !== null && line.unit_price !== "" &&
+      !(Number(line.unit_price) >= 0)
+    ) {
+      return "Unit prices cannot be negative";
+    }
+  }
+  if (new Set(lines.map((line) => String(line.item_id))).size !== lines.length) {
+    return "Each item can only be ordered once per order";
+  }
+  return null;
+}
+
+// Replace the lines of an order. Lines without a unit price take the item's
+// price. Returns false when one of the items does not exist.
+async function savePurchaseOrderLines(db, orderId, lines) {
+  await db.query("DELETE FROM purchase_order_lines WHERE purchase_order_id = ?", [orderId]);
+  for (const line of lines) {
+    const unitPrice = line.unit_price === undefined || line.unit_price === null || line.unit_price === ""
+      ? null
+      : Number(line.unit_price);
+    const [saved] = await db.query(
+      `INSERT INTO purchase_order_lines (purchase_order_id, item_id, quantity_ordered, unit_price)
+       SELECT ?, i.id, ?, COALESCE(?, i.price, 0)
+       FROM items i
+       WHERE i.id = ? AND i."isActive" = 1
+       RETURNING id`,
+      [orderId, Number(line.quantity), unitPrice, line.item_id]
+    );
+    if (saved.length === 0) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// How much of each item is on order and not yet received, keyed by item id
+async function getQuantitiesOnOrder(db, itemIds) {
+  const ids = [...new Set(itemIds.map(String))];
+  if (ids.length === 0) {
+    return {};
+  }
+
+  const [rows] = await db.query(
+    `SELECT pol.item_id, SUM(pol.quantity_ordered - pol.quantity_received) AS on_order
+     FROM purchase_order_lines pol
+     JOIN purchase_orders po ON po.id = pol.purchase_order_id
+     WHERE po.status IN (${OPEN_PURCHASE_ORDER_STATUSES.map(() => "?").join(", ")})
+       AND pol.item_id IN (${ids.map(() => "?").join(", ")})
+     GROUP BY pol.item_id`,
+    [...OPEN_PURCHASE_ORDER_STATUSES, ...ids]
+  );
+  return Object.fromEntries(rows.map((row) => [row.item_id.toString(), Number(row.on_order)]));
+}
+
+// A purchase order with its lines and the deliveries received against it
+async function getPurchaseOrder(db, orderId) {
+  const [orders] = await db.query(
+    `SELECT po.*, s.name AS supplier_name, u.name AS created_by_name
+     FROM purchase_orders po
+     JOIN suppliers s ON s.id = po.supplier_id
+     LEFT JOIN users u ON u.id = po.created_by
+     WHERE po.id = ?`,
+    [orderId]
+  );
+  if (orders.length === 0) {
+    return null;
+  }
+  const order = orders[0];
+
+  const [lines] = await db.query(
+    `SELECT pol.*, i.name AS item_name, i.unit, i.quantity AS quantity_on_hand
+     FROM purchase_order_lines pol
+     JOIN items i ON i.id = pol.item_id
+     WHERE pol.purchase_order_id = ?
+     ORDER BY i.name`,
+    [orderId]
+  );
+  const [receipts] = await db.query(
+    `SELECT sh.id, sh.item_id, sh.quantity_change AS quantity, sh.notes, sh.created_at,
+       i.name AS item_name, u.name AS received_by_name, ${STOCK_HISTORY_LOCATION_COLUMNS}
+     FROM stock_history sh
+     JOIN items i ON i.id = sh.item_id
+     LEFT JOIN users u ON u.id = sh.created_by
+     ${STOCK_HISTORY_LOCATION_JOINS}
+     WHERE sh.reference_id = ? AND sh.change_type = 'restock'
+     ORDER BY sh.created_at DESC, sh.id DESC`,
+    [order.po_number]
+  );
+
+  return {
+    ...order,
+    id: order.id.toString(),
+    supplier_id: order.supplier_id.toString(),
+    lines: lines.map((line) => ({
+      ...line,
+      id: line.id.toString(),
+      item_id: line.item_id.toString(),
+      unit_price: Number(line.unit_price),
+      quantity_outstanding: Math.max(line.quantity_ordered - line.quantity_received, 0),
+    })),
+    receipts: receipts.map((receipt) => ({
+      ...receipt,
+      id: receipt.id.toString(),
+      item_id: receipt.item_id.toString(),
+    })),
+  };
+}
+
+// Load the purchase order named in the URL for the rest of a transaction,
+// or send the error response and return null when it does not exist or is
+// not in one of the given statuses
+async function getPurchaseOrderForUpdate(req, res, connection, statuses) {
+  const [orders] = await connection.query(
+    "SELECT * FROM purchase_orders WHERE id = ? FOR UPDATE",
+    [req.params.id]
+  );
+  if (orders.length === 0) {
+    res.status(404).json({ success: false, message: "Purchase order not found" });
+    return null;
+  }
+  if (!statuses.includes(orders[0].status)) {
+    res.status(409).json({
+      success: false,
+      message: `This purchase order is ${orders[0].status.replace("_", " ")}`,
+    });
+    return null;
+  }
+  return orders[0];
+}
+
+// Create a draft order with its number, e.g. PO-00042
+async function createPurchaseOrder(db, { supplierId, expectedDate, notes, lines, userId }) {
+  const [orders] = await db.query(
+    `INSERT INTO purchase_orders (supplier_id, expected_date, notes, created_by)
+     VALUES (?, ?, ?, ?)
+     RETURNING id`,
+    [supplierId, expectedDate || null, notes || null, userId]
+  );
+  const orderId = orders[0].id;
+  await db.query("UPDATE purchase_orders SET po_number = ? WHERE id = ?", [
+    `PO-${String(orderId).padStart(5, "0")}`,
+    orderId,
+  ]);
+
+  return (await savePurchaseOrderLines(db, orderId, lines)) ? orderId : null;
+}
+
+async function isActiveSupplier(db, supplierId) {
+  const [suppliers] = await db.query(
+    "SELECT id FROM suppliers WHERE id = ? AND is_active = 1",
+    [supplierId]
+  );
+  return suppliers.length > 0;
+}
+
+// Purchase orders, newest first, with their totals. Query parameters: status
+// (comma separated) and supplier_id.
+app.get("/api/purchase-orders", requirePermission("purchasing:manage"), async (req, res) => {
   try {
-    const { id } = req.params;
-    console.log(`DELETE /api/users/${id} - Deleting user`);
+    const statuses = toList(req.query.status).filter((status) =>
+      PURCHASE_ORDER_STATUSES.includes(status)
+    );
+    const conditions = [];
+    const params = [];
+    if (statuses.length > 0) {
+      conditions.push(`po.status IN (${statuses.map(() => "?").join(", ")})`);
+      params.push(...statuses);
+    }
+    if (req.query.supplier_id) {
+      conditions.push("po.supplier_id = ?");
+      params.push(req.query.supplier_id);
+    }
+
+    const [orders] = await pool.query(
+      `SELECT po.*, s.name AS supplier_name,
+         COUNT(pol.id) AS line_count,
+         COALESCE(SUM(pol.quantity_ordered * pol.unit_price), 0) AS total_value,
+         COALESCE(SUM(pol.quantity_ordered), 0) AS quantity_ordered,
+         COALESCE(SUM(pol.quantity_received), 0) AS quantity_received
+       FROM purchase_orders po
+       JOIN suppliers s ON s.id = po.supplier_id
+       LEFT JOIN purchase_order_lines pol ON pol.purchase_order_id = po.id
+       ${toWhereClause(conditions)}
+       GROUP BY po.id, s.name
+       ORDER BY po.created_at DESC, po.id DESC`,
+      params
+    );
+
+    res.json(
+      orders.map((order) => ({
+        ...order,
+        id: order.id.toString(),
+        supplier_id: order.supplier_id.toString(),
+        line_count: Number(order.line_count),
+        total_value: Number(order.total_value),
+        quantity_ordered: Number(order.quantity_ordered),
+        quantity_received: Number(order.quantity_received),
+      }))
+    );
+  } catch (error) {
+    console.error("Error fetching purchase orders:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching purchase orders",
+      error: error.message,
+    });
+  }
+});
+
+app.get("/api/purchase-orders/:id", requirePermission("purchasing:manage"), async (req, res) => {
+  try {
+    const order = await getPurchaseOrder(pool, req.params.id);
+    if (!order) {
+      return res.status(404).json({ success: false, message: "Purchase order not found" });
+    }
+    res.json(order);
+  } catch (error) {
+    console.error(`Error fetching purchase order ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching purchase order",
+      error: error.message,
+    });
+  }
+});
+
+// Create a draft order: { supplier_id, expected_date, notes, lines: [{ item_id, quantity, unit_price }] }
+app.post("/api/purchase-orders", requirePermission("purchasing:manage"), async (req, res) => {
+  const { supplier_id, expected_date, notes, lines } = req.body;
+  const linesError = getPurchaseOrderLinesError(lines);
+  if (linesError) {
+    return res.status(400).json({ success: false, message: linesError });
+  }
+
+  let connection;
+  try {
+    if (!supplier_id || !(await isActiveSupplier(pool, supplier_id))) {
+      return res.status(400).json({ success: false, message: "Supplier not found" });
+    }
+
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    const orderId = await createPurchaseOrder(connection, {
+      supplierId: supplier_id,
+      expectedDate: expected_date,
+      notes,
+      lines,
+      userId: req.user.id,
+    });
+    if (!orderId) {
+      await connection.rollback();
+      return res.status(400).json({ success: false, message: "Item not found" });
+    }
+
+    await connection.commit();
+    res.status(201).json(await getPurchaseOrder(pool, orderId));
+  } catch (error) {
+    console.error("Error creating purchase order:", error);
+    if (connection) {
+      await connection.rollback();
+    }
+    res.status(500).json({
+      success: false,
+      message: "Error creating purchase order",
+      error: error.message,
+    });
+  } finally {
+    if (connection) {
+      connection.release();
+    }
+  }
+});
+
+/**
+ * Draft an order for the low-stock items it is given, or every low-stock item
+ * when none are given: { supplier_id, item_ids }. Each item is ordered back
+ * up to twice its minimum quantity, less what is already on order; items that
+ * need nothing more are left out.
+ */
+app.post("/api/purchase-orders/from-low-stock", requirePermission("purchasing:manage"), async (req, res) => {
+  const { supplier_id } = req.body;
+  const itemIds = Array.isArray(req.body.item_ids) ? req.body.item_ids : [];
+
+  let connection;
+  try {
+    if (!supplier_id || !(await isActiveSupplier(pool, supplier_id))) {
+      return res.status(400).json({ success: false, message: "Supplier not found" });
+    }
+
+    const conditions = [`"isActive" = 1`, `quantity <= "minQuantity"`];
+    if (itemIds.length > 0) {
+      conditions.push(`id IN (${itemIds.map(() => "?").join(", ")})`);
+    }
+    const [items] = await pool.query(
+      `SELECT id, quantity, "minQuantity" FROM items ${toWhereClause(conditions)}`,
+      itemIds
+    );
+    const onOrder = await getQuantitiesOnOrder(pool, items.map((item) => item.id));
+    const lines = items
+      .map((item) => ({
+        item_id: item.id,
+        quantity:
+          Math.max(item.minQuantity * 2, 1) - item.quantity - (onOrder[item.id.toString()] || 0),
+      }))
+      .filter((line) => line.quantity > 0);
+
+    if (lines.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: "No low-stock items need ordering; they are already on order",
+      });
+    }
+
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+    const orderId = await createPurchaseOrder(connection, {
+      supplierId: supplier_id,
+      lines,
+      userId: req.user.id,
+    });
+    await connection.commit();
+
+    res.status(201).json(await getPurchaseOrder(pool, orderId));
+  } catch (error) {
+    console.error("Error creating purchase order from low-stock items:", error);
+    if (connection) {
+      await connection.rollback();
+    }
+    res.status(500).json({
+      success: false,
+      message: "Error creating purchase order",
+      error: error.message,
+    });
+  } finally {
+    if (connection) {
+      connection.release();
+    }
+  }
+});
+
+// Change a draft order; its lines are replaced when given
+app.put("/api/purchase-orders/:id", requirePermission("purchasing:manage"), async (req, res) => {
+  const { supplier_id, expected_date, notes, lines } = req.body;
+  if (lines !== undefined) {
+    const linesError = getPurchaseOrderLinesError(lines);
+    if (linesError) {
+      return res.status(400).json({ success: false, message: linesError });
+    }
+  }
+
+  let connection;
+  try {
+    if (supplier_id !== undefined && !(await isActiveSupplier(pool, supplier_id))) {
+      return res.status(400).json({ success: false, message: "Supplier not found" });
+    }
+
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    const order = await getPurchaseOrderForUpdate(req, res, connection, ["draft"]);
+    if (!order) {
+      await connection.rollback();
+      return;
+    }
+
+    await connection.query(
+      `UPDATE purchase_orders SET supplier_id = ?, expected_date = ?, notes = ? WHERE id = ?`,
+      [
+        supplier_id ?? order.supplier_id,
+        expected_date !== undefined ? expected_date || null : order.expected_date,
+        notes !== undefined ? notes || null : order.notes,
+        order.id,
+      ]
+    );
+    if (lines !== undefined && !(await savePurchaseOrderLines(connection, order.id, lines))) {
+      await connection.rollback();
+      return res.status(400).json({ success: false, message: "Item not found" });
+    }
+
+    await connection.commit();
+    res.json(await getPurchaseOrder(pool, order.id));
+  } catch (error) {
+    console.error(`Error updating purchase order ${req.params.id}:`, error);
+    if (connection) {
+      await connection.rollback();
+    }
+    res.status(500).json({
+      success: false,
+      message: "Error updating purchase order",
+      error: error.message,
+    });
+  } finally {
+    if (connection) {
+      connection.release();
+    }
+  }
+});
+
+// Move an order to a new status when it is in one of the given statuses
+const changePurchaseOrderStatus = (fromStatuses, toStatus, timestampColumn) =>
+  async (req, res) => {
+    let connection;
+    try {
+      connection = await pool.getConnection();
+      await connection.beginTransaction();
+
+      const order = await getPurchaseOrderForUpdate(req, res, connection, fromStatuses);
+      if (!order) {
+        await connection.rollback();
+        return;
+      }
+
+      await connection.query(
+        `UPDATE purchase_orders SET status = ?${timestampColumn ? `, ${timestampColumn} = CURRENT_TIMESTAMP` : ""}
+         WHERE id = ?`,
+        [toStatus, order.id]
+      );
+      await connection.commit();
+
+      res.json(await getPurchaseOrder(pool, order.id));
+    } catch (error) {
+      console.error(`Error marking purchase order ${req.params.id} as ${toStatus}:`, error);
+      if (connection) {
+        await connection.rollback();
+      }
+      res.status(500).json({
+        success: false,
+        message: "Error updating purchase order",
+        error: error.message,
+      });
+    } finally {
+      if (connection) {
+        connection.release();
+      }
+    }
+  };
+
+app.post(
+  "/api/purchase-orders/:id/send",
+  requirePermission("purchasing:manage"),
+  changePurchaseOrderStatus(["draft"], "sent", "sent_at")
+);
+
+// Orders can be cancelled until anything has been received against them
+app.post(
+  "/api/purchase-orders/:id/cancel",
+  requirePermission("purchasing:manage"),
+  changePurchaseOrderStatus(["draft", "sent"], "cancelled")
+);
+
+// Drafts that were never sent can be thrown away
+app.delete("/api/purchase-orders/:id", requirePermission("purchasing:manage"), async (req, res) => {
+  try {
+    const [deleted] = await pool.query(
+      "DELETE FROM purchase_orders WHERE id = ? AND status = 'draft' RETURNING id",
+      [req.params.id]
+    );
+    if (deleted.length === 0) {
+      return res.status(409).json({
+        success: false,
+        message: "Only draft purchase orders can be deleted",
+      });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error(`Error deleting purchase order ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error deleting purchase order",
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * Receive a delivery against a sent order: { location_id, notes, lines: [{
+ * line_id, quantity }] }. Each line adds stock at the location through a
+ * 'restock' stock_history entry referencing the order's number, all in one
+ * transaction. No line can receive more than is still outstanding. The order
+ * becomes received once every line has arrived in full.
+ */
+app.post("/api/purchase-orders/:id/receipts", requirePermission("stock:adjust"), async (req, res) => {
+  const { location_id, notes } = req.body;
+  const received = (Array.isArray(req.body.lines) ? req.body.lines : []).filter(
+    (line) => Number(line.quantity) !== 0
+  );
+  if (
+    received.length === 0 ||
+    received.some((line) => !line.line_id || !Number.isInteger(Number(line.quantity)) || Number(line.quantity) < 0)
+  ) {
+    return res.status(400).json({
+      success: false,
+      message: "Enter a positive whole quantity for at least one line",
+    });
+  }
+
+  let connection;
+  try {
+    const locationId = await resolveLocationId(pool, location_id);
+    if (!locationId) {
+      return res.status(400).json({ success: false, message: "Location not found" });
+    }
+
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    const order = await getPurchaseOrderForUpdate(req, res, connection, ["sent", "partially_received"]);
+    if (!order) {
+      await connection.rollback();
+      return;
+    }
+
+    const [lines] = await connection.query(
+      "SELECT * FROM purchase_order_lines WHERE purchase_order_id = ?",
+      [order.id]
+    );
+    const itemIds = [];
+
+    for (const receivedLine of received) {
+      const line = lines.find((orderLine) => String(orderLine.id) === String(receivedLine.line_id));
+      const quantity = Number(receivedLine.quantity);
+      if (!line) {
+        await connection.rollback();
+        return res.status(400).json({ success: false, message: "Line not found on this order" });
+      }
+      if (line.quantity_received + quantity > line.quantity_ordered) {
+        await connection.rollback();
+        return res.status(409).json({
+          success: false,
+          message: `Only ${line.quantity_ordered - line.quantity_received} more of one of the items is expected`,
+        });
+      }
+
+      const [items] = await connection.query(
+        `SELECT id, quantity, "minQuantity" FROM items WHERE id = ? FOR UPDATE`,
+        [line.item_id]
+      );
+      const item = items[0];
+      const quantityAfter = item.quantity + quantity;
+
+      await connection.query(
+        `UPDATE items SET quantity = ?, status = ?, "lastRestocked" = CURRENT_TIMESTAMP WHERE id = ?`,
+        [quantityAfter, getStockStatus(quantityAfter, item.minQuantity), item.id]
+      );
+      await changeLocationStock(connection, item.id, locationId, quantity);
+      const [history] = await connection.query(
+        `INSERT INTO stock_history (item_id, change_type, quantity_before, quantity_change, quantity_after, reference_id, notes, created_by, location_id)
+         VALUES (?, 'restock', ?, ?, ?, ?, ?, ?, ?)
+         RETURNING id`,
+        [
+          item.id,
+          item.quantity,
+          quantity,
+          quantityAfter,
+          order.po_number,
+          notes ? `Received on ${order.po_number}: ${notes}` : `Received on ${order.po_number}`,
+          req.user.id,
+          locationId,
+        ]
+      );
+      await recordStockCost(connection, {
+        itemId: item.id,
+        historyId: history[0].id,
+        change: quantity,
+        unitCost: Number(line.unit_price),
+      });
+      await connection.query(
+        "UPDATE purchase_order_lines SET quantity_received = quantity_received + ? WHERE id = ?",
+        [quantity, line.id]
+      );
+
+      line.quantity_received += quantity;
+      itemIds.push(item.id);
+    }
+
+    const complete = lines.every((line) => line.quantity_received >= line.quantity_ordered);
+    await connection.query(
+      `UPDATE purchase_orders SET status = ?${complete ? ", received_at = CURRENT_TIMESTAMP" : ""} WHERE id = ?`,
+      [complete ? "received" : "partially_received", order.id]
+    );
+
+    await connection.commit();
+    publishStockChange(itemIds);
+
+    res.status(201).json(await getPurchaseOrder(pool, order.id));
+  } catch (error) {
+    console.error(`Error receiving purchase order ${req.params.id}:`, error);
+    if (connection) {
+      await connection.rollback();
+    }
+    res.status(500).json({
+      success: false,
+      message: "Error receiving purchase order",
+      error: error.message,
+    });
+  } finally {
+    if (connection) {
+      connection.release();
+    }
+  }
+});
+
+// Requests API endpoints
+
+// Columns GET /api/requests can be sorted by
+const REQUEST_SORT_COLUMNS = {
+  created_at: "r.created_at",
+  due_date: "r.due_date",
+  priority: "CASE r.priority WHEN 'high' THEN 3 WHEN 'medium' THEN 2 ELSE 1 END",
+  status: "r.status",
+};
+
+// Keyset cursors encode the creation time and id of the last request on a
+// page. The time is the database's own text of it, as a JS Date would drop
+// its microseconds and skip or repeat requests at the page boundary.
+const encodeRequestCursor = (request) =>
+  Buffer.from(JSON.stringify([request.cursor_created_at, request.id])).toString(
+    "base64url"
+  );
+
+const decodeRequestCursor = (cursor) => {
+  try {
+    const [createdAt, id] = JSON.parse(
+      Buffer.from(cursor, "base64url").toString()
+    );
+    return createdAt && id ? { createdAt, id } : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Build the filters of a request listing from its query parameters. The
+ * status filter is kept apart so per-status counts can be taken without it.
+ */
+function buildRequestFilters(query, user) {
+  const conditions = [];
+  const params = [];
+
+  // Callers without requests:view_all only ever see their own requests
+  const requesterId = hasPermission(user.role, "requests:view_all")
+    ? query.requester_id
+    : user.id;
+  if (requesterId) {
+    conditions.push("r.requester_id = ?");
+    params.push(requesterId);
+  }
+
+  const priorities = toList(query.priority);
+  if (priorities.length > 0) {
+    conditions.push(`r.priority IN (${priorities.map(() => "?").join(", ")})`);
+    params.push(...priorities);
+  }
+
+  if (query.from) {
+    conditions.push("r.created_at >= ?");
+    params.push(query.from);
+  }
+
+  if (query.to) {
+    conditions.push("r.created_at <= ?");
+    params.push(query.to);
+  }
+
+  if (query.item_id) {
+    conditions.push(
+      "EXISTS (SELECT 1 FROM request_items ri WHERE ri.request_id = r.id AND ri.item_id = ?)"
+    );
+    params.push(query.item_id);
+  }
+
+  if (query.search) {
+    const term = `%${String(query.search).toLowerCase()}%`;
+    conditions.push(`(
+      LOWER(r.project_name) LIKE ?
+      OR LOWER(r.reason) LIKE ?
+      OR LOWER(u.name) LIKE ?
+      OR EXISTS (
+        SELECT 1 FROM request_items ri
+        JOIN items i ON i.id = ri.item_id
+        WHERE ri.request_id = r.id AND LOWER(i.name) LIKE ?
+      )
+    )`);
+    params.push(term, term, term, term);
+  }
+
+  return { conditions, params, statuses: toList(query.status) };
+}
+
+// List requests with filtering, sorting and page or cursor based pagination.
+//
+// Query parameters: status, priority (comma separated), requester_id, from,
+// to (creation date range), item_id, search, sort (created_at, due_date,
+// priority, status), order (asc, desc), page, page_size and cursor.
+app.get("/api/requests", async (req, res) => {
+  try {
+    console.log("GET /api/requests - Fetching requests", req.query);
+
+    const filters = buildRequestFilters(req.query, req.user);
+    const sort = REQUEST_SORT_COLUMNS[req.query.sort] ? req.query.sort : "created_at";
+    const order = req.query.order === "asc" ? "ASC" : "DESC";
+    const pageSize = Math.min(
+      Math.max(parseInt(req.query.page_size) || paginationConfig.defaultPageSize, 1),
+      paginationConfig.maxPageSize
+    );
+    const page = Math.max(parseInt(req.query.page) || 1, 1);
+
+    const conditions = [...filters.conditions];
+    const params = [...filters.params];
+    if (filters.statuses.length > 0) {
+      conditions.push(`r.status IN (${filters.statuses.map(() => "?").join(", ")})`);
+      params.push(...filters.statuses);
+    }
+
+    // Keyset pagination is only available when sorting by creation time
+    let cursor = null;
+    if (req.query.cursor) {
+      cursor = sort === "created_at" ? decodeRequestCursor(req.query.cursor) : null;
+      if (!cursor) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid cursor; cursors can only be used when sorting by created_at",
+        });
+      }
+      conditions.push(`(r.created_at, r.id) ${order === "ASC" ? ">" : "<"} (?, ?)`);
+      params.push(cursor.createdAt, cursor.id);
+    }
+
+    const fromClause = "FROM requests r LEFT JOIN users u ON u.id = r.requester_id";
+
+    // Count per status over every other filter, so the totals for each status
+    // are known whatever status is being listed
+    const [countRows] = await pool.query(
+      `SELECT r.status, COUNT(*) AS count ${fromClause} ${toWhereClause(filters.conditions)} GROUP BY r.status`,
+      filters.params
+    );
+    const statusCounts = {};
+    for (const row of countRows) {
+      statusCounts[row.status] = Number(row.count);
+    }
+    const total = Object.entries(statusCounts)
+      .filter(([status]) => filters.statuses.length === 0 || filters.statuses.includes(status))
+      .reduce((sum, [, count]) => sum + count, 0);
+
+    const [requests] = await pool.query(
+      `
+      SELECT r.*, u.name AS requester_name, u.email AS requester_email,
+        r.created_at::text AS cursor_created_at
+      ${fromClause}
+      ${toWhereClause(conditions)}
+      ORDER BY ${REQUEST_SORT_COLUMNS[sort]} ${order}, r.id ${order}
+      LIMIT ? OFFSET ?
+    `,
+      [...params, pageSize, cursor ? 0 : (page - 1) * pageSize]
+    );
+
+    // Get the items of every request on the page in one query
+    let items = [];
+    if (requests.length > 0) {
+      [items] = await pool.query(
+        `
+        SELECT ri.*, i.name, i.description, i.category
+        FROM request_items ri
+        JOIN items i ON ri.item_id = i.id
+        WHERE ri.request_id IN (${requests.map(() => "?").join(", ")})
+      `,
+        requests.map((request) => request.id)
+      );
+    }
+
+    const approvals = await getApprovalSteps(
+      pool,
+      requests.map((request) => request.id)
+    );
+    const attachments = await getRequestAttachments(
+      pool,
+      requests.map((request) => request.id)
+    );
+
+    const requestsWithItems = requests.map(({ cursor_created_at, ...request }) => ({
+      ...request,
+      items: items.filter((item) => item.request_id === request.id),
+      approvals: approvals.filter((step) => step.request_id === request.id),
+      attachments: attachments.filter(
+        (attachment) => attachment.request_id === request.id
+      ),
+    }));
+
+    const lastRequest = requests[requests.length - 1];
+
+    res.json({
+      data: requestsWithItems,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+        nextCursor:
+          sort === "created_at" && requests.length === pageSize
+            ? encodeRequestCursor(lastRequest)
+            : null,
+      },
+      statusCounts,
+    });
+  } catch (error) {
+    console.error("Error fetching requests:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching requests",
+      error: error.message,
+    });
+  }
+});
+
+// Get requests by user ID
+app.get("/api/requests/user/:userId", async (req, res) => {
+  try {
+    const { userId } = req.params;
+    console.log(`GET /api/requests/user/${userId} - Fetching user requests`);
+
+    if (
+      req.user.id !== userId.toString() &&
+      !hasPermission(req.user.role, "requests:view_all")
+    ) {
+      return res.status(403).json({
+        success: false,
+        message: "You do not have permission to perform this action",
+      });
+    }
+
+    const [requests] = await pool.query(
+      `
+      SELECT r.*
+      FROM requests r
+      WHERE r.requester_id = ?
+      ORDER BY r.created_at DESC
+    `,
+      [userId]
+    );
+
+    // Get items for each request
+    const requestsWithItems = await Promise.all(
+      requests.map(async (request) => {
+        const [items] = await pool.query(
+          `
+          SELECT ri.*, i.name, i.description, i.category
+          FROM request_items ri
+          JOIN items i ON ri.item_id = i.id
+          WHERE ri.request_id = ?
+        `,
+          [request.id]
+        );
+
+        return {
+          ...request,
+          items: items,
+        };
+      })
+    );
+
+    res.json(requestsWithItems);
+  } catch (error) {
+    console.error(
+      `Error fetching requests for user ${req.params.userId}:`,
+      error
+    );
+    res.status(500).json({
+      success: false,
+      message: "Error fetching user requests",
+      error: error.message,
+    });
+  }
+});
+
+// Get a single request by ID
+app.get("/api/requests/:id", async (req, res) => {
+  try {
+    const { id } = req.params;
+    console.log(`GET /api/requests/${id} - Fetching request details`);
+
+    const [requests] = await pool.query(
+      `
+      SELECT r.*
+      FROM requests r
+      WHERE r.id = ?
+    `,
+      [id]
+    );
+
+    if (requests.length === 0) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Request not found" });
+    }
+
+    const request = requests[0];
+
+    if (!canViewRequest(request, req.user)) {
+      return res.status(403).json({
+        success: false,
+        message: "You do not have permission to perform this action",
+      });
+    }
+
+    // Get items for the request
+    const [items] = await pool.query(
+      `
+      SELECT ri.*, i.name, i.description, i.category
+      FROM request_items ri
+      JOIN items i ON ri.item_id = i.id
+      WHERE ri.request_id = ?
+    `,
+      [id]
+    );
+
+    const requestWithItems = {
+      ...request,
+      items: items,
+      approvals: await getApprovalSteps(pool, id),
+      attachments: await getRequestAttachments(pool, id),
+    };
+
+    res.json(requestWithItems);
+  } catch (error) {
+    console.error(`Error fetching request with id ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching request",
+      error: error.message,
+    });
+  }
+});
+
+// Request attachments
+
+const attachmentStorage = createStorage(attachmentConfig);
+
+// Accept a file only when both its content type and its extension are allowed
+const isAllowedAttachment = (file) => {
+  const extensions = attachmentConfig.allowedTypes[file.mimetype];
+  return (
+    !!extensions && extensions.includes(path.extname(file.originalname).toLowerCase())
+  );
+};
+
+const uploadAttachments = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: attachmentConfig.maxFileSize,
+    files: attachmentConfig.maxFiles,
+  },
+  fileFilter: (req, file, callback) => {
+    if (isAllowedAttachment(file)) {
+      return callback(null, true);
+    }
+    const error = new Error(`Files of this type cannot be attached: ${file.originalname}`);
+    error.code = "UNSUPPORTED_FILE_TYPE";
+    callback(error);
+  },
+}).array("attachments", attachmentConfig.maxFiles);
+
+// Parse the files of a multipart request into req.files with a multer
+// upload, answering 400 (or 413 for files that are too large) when they are
+// rejected. Requests that are not multipart pass straight through.
+const receiveFiles = (upload, noun) => (req, res, next) =>
+  upload(req, res, (error) => {
+    if (!error) {
+      return next();
+    }
+
+    let message = error.message;
+    if (error.code === "LIMIT_FILE_SIZE") {
+      message = `${noun} cannot be larger than ${Math.round(
+        attachmentConfig.maxFileSize / (1024 * 1024)
+      )} MB`;
+    } else if (error.code === "LIMIT_FILE_COUNT" || error.code === "LIMIT_UNEXPECTED_FILE") {
+      message = `At most ${attachmentConfig.maxFiles} ${noun.toLowerCase()} can be uploaded at once`;
+    }
+    res.status(error.code === "LIMIT_FILE_SIZE" ? 413 : 400).json({
+      success: false,
+      message,
+    });
+  });
+
+const receiveAttachments = receiveFiles(uploadAttachments, "Attachments");
+
+/**
+ * Store uploaded files and record them as attachments of a request, and
+ * return their storage keys. Files already stored are removed again when
+ * recording one of them fails; when db is a transaction, the caller removes
+ * them if it is rolled back.
+ */
+async function saveRequestAttachments(db, requestId, files = [], userId) {
+  const storedKeys = [];
+  try {
+    for (const file of files) {
+      const key = `${requestId}/${crypto.randomUUID()}${path
+        .extname(file.originalname)
+        .toLowerCase()}`;
+      await attachmentStorage.save(key, file.buffer, file.mimetype);
+      storedKeys.push(key);
+
+      await db.query(
+        `
+        INSERT INTO request_attachments (request_id, file_name, content_type, size, storage_key, uploaded_by)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `,
+        [requestId, file.originalname, file.mimetype, file.size, key, userId]
+      );
+    }
+  } catch (error) {
+    await removeStoredFiles(storedKeys);
+    throw error;
+  }
+  return storedKeys;
+}
+
+// Remove files from attachment storage. A file that cannot be removed is
+// only logged, as its metadata is already gone.
+async function removeStoredFiles(keys) {
+  for (const key of keys) {
+    try {
+      await attachmentStorage.remove(key);
+    } catch (error) {
+      console.error(`Error removing stored file ${key}:`, error);
+    }
+  }
+}
+
+async function getRequestAttachments(db, requestIds) {
+  const ids = Array.isArray(requestIds) ? requestIds : [requestIds];
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const [attachments] = await db.query(
+    `
+    SELECT a.id, a.request_id, a.file_name, a.content_type, a.size, a.uploaded_by, a.created_at,
+      u.name AS uploaded_by_name
+    FROM request_attachments a
+    LEFT JOIN users u ON u.id = a.uploaded_by
+    WHERE a.request_id IN (${ids.map(() => "?").join(", ")})
+    ORDER BY a.created_at, a.id
+  `,
+    ids
+  );
+  return attachments;
+}
+
+// Create a new request
+app.post("/api/requests", requirePermission("requests:create"), receiveAttachments, async (req, res) => {
+  let connection;
+  // Attachment files stored for the request until its transaction commits
+  let storedKeys = [];
+  try {
+    console.log("POST /api/requests - Creating new request");
+
+    // Requests with attachments are sent as multipart form data, with the
+    // request itself as JSON in the "data" field
+    if (typeof req.body?.data === "string") {
+      try {
+        req.body = JSON.parse(req.body.data);
+      } catch {
+        return res.status(400).json({
+          success: false,
+          message: "The request data is not valid JSON",
+        });
+      }
+    }
+    console.log("Request body:", req.body);
+
+    // Requests are always filed by the caller
+    const requester_id = req.user.id;
+    const {
+      project_name,
+      reason,
+      priority,
+      due_date,
+      items,
+    } = req.body;
+
+    // Validate required fields
+    if (!project_name || !items || !items.length) {
+      console.error("Missing required fields:", {
+        project_name,
+        requester_id,
+        items,
+      });
+      return res.status(400).json({
+        success: false,
+        message: "Missing required fields: project_name and items are required",
+      });
+    }
+
+    const [requesters] = await pool.query("SELECT id FROM users WHERE id = ?", [requester_id]);
+    if (requesters.length === 0) {
+      return res.status(401).json({
+        success: false,
+        message: "Your account no longer exists",
+      });
+    }
+
+    // Validate item_id in items array
+    for (const item of items) {
+      console.log("Processing item:", item);
+
+      if (item.item_id === undefined || item.item_id === null) {
+        console.error("Invalid item_id in request (undefined or null):", item);
+        return res.status(400).json({
+          success: false,
+          message: "Each item must have a valid item_id",
+          details: { invalidItem: item },
+        });
+      }
+
+      // Ensure item_id is a number
+      if (typeof item.item_id === "string") {
+        const parsedId = parseInt(item.item_id);
+        if (isNaN(parsedId)) {
+          console.error(`Failed to parse item_id "${item.item_id}" as integer`);
+          return res.status(400).json({
+            success: false,
+            message: `Failed to parse item_id "${item.item_id}" as integer`,
+            details: { invalidItem: item },
+          });
+        }
+        item.item_id = parsedId;
+      }
+
+      // Each item may only appear on one line of a request
+      if (items.filter((other) => Number(other.item_id) === item.item_id).length > 1) {
+        return res.status(400).json({
+          success: false,
+          message: `Item with id ${item.item_id} appears more than once in the request`,
+        });
+      }
+
+      const quantity = Number(item.quantity ?? 1);
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        return res.status(400).json({
+          success: false,
+          message: `Quantity for item ${item.item_id} must be a positive whole number`,
+          details: { invalidItem: item },
+        });
+      }
+      item.quantity = quantity;
+
+      // Verify the item exists and has enough stock for the line
+      try {
+        const [itemExists] = await pool.query(
+          "SELECT id, name, quantity, unit FROM items WHERE id = ?",
+          [item.item_id]
+        );
+        if (itemExists.length === 0) {
+          console.error(`Item with id ${item.item_id} not found in database`);
+          return res.status(400).json({
+            success: false,
+            message: `Item with id ${item.item_id} not found in database`,
+          });
+        }
+
+        // The line is stored in the item's stock unit as well as in the unit
+        // it was requested in
+        const stockItem = itemExists[0];
+        const converted = convertToBaseUnit(
+          quantity,
+          item.unit,
+          stockItem,
+          (await getUnitConversions(pool, [stockItem.id]))[stockItem.id] || []
+        );
+        if (converted.error) {
+          return res.status(400).json({
+            success: false,
+            message: converted.error,
+            details: { invalidItem: item },
+          });
+        }
+        if (converted.quantity > stockItem.quantity) {
+          return res.status(400).json({
+            success: false,
+            message: `Only ${stockItem.quantity} ${stockItem.unit || "pcs"} of ${stockItem.name} available`,
+            details: { invalidItem: item, available: stockItem.quantity },
+          });
+        }
+
+        item.base_unit = stockItem.unit || "pcs";
+        item.unit = item.unit || item.base_unit;
+        item.requested_quantity = quantity;
+        item.quantity = converted.quantity;
+        item.conversion_factor = converted.factor;
+      } catch (itemCheckError) {
+        console.error("Error checking if item exists:", itemCheckError);
+      }
+    }
+
+    // Start a transaction
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    // Generate a UUID for the request
+    const [uuidResult] = await connection.query("SELECT UUID() as uuid");
+    const requestId = uuidResult[0].uuid;
+
+    // Insert the request
+    await connection.query(
+      `
+      INSERT INTO requests (
+        id,
+        project_name,
+        requester_id,
+        reason,
+        priority,
+        due_date,
+        status
+      ) VALUES (?, ?, ?, ?, ?, ?, 'pending')
+    `,
+      [
+        requestId,
+        project_name,
+        requester_id,
+        reason || null,
+        priority || "medium",
+        due_date || null,
+      ]
+    );
+
+    // Insert request items
+    for (const item of items) {
+      try {
+        console.log(
+          `Inserting request item: request_id=${requestId}, item_id=${item.item_id
+          }, quantity=${item.quantity || 1}`
+        );
+
+        // Ensure item_id is a valid integer
+        const itemId =
+          typeof item.item_id === "number"
+            ? item.item_id
+            : parseInt(item.item_id);
+        if (isNaN(itemId)) {
+          throw new Error(`Invalid item_id: ${item.item_id}`);
+        }
+
+        await connection.query(
+          `
+          INSERT INTO request_items (
+            request_id,
+            item_id,
+            quantity,
+            unit,
+            requested_quantity,
+            base_unit,
+            conversion_factor,
+            status
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, 'pending')
+        `,
+          [
+            requestId,
+            itemId,
+            item.quantity || 1,
+            item.unit || "pcs",
+            item.requested_quantity ?? item.quantity ?? 1,
+            item.base_unit || item.unit || "pcs",
+            item.conversion_factor ?? 1,
+          ]
+        );
+        console.log("Request item inserted successfully");
+      } catch (insertError) {
+        console.error("Error inserting request item:", insertError);
+        throw insertError; // Re-throw to trigger rollback
+      }
+    }
+
+    // Set up the approval chain the request has to go through
+    await createApprovalChain(connection, requestId);
+
+    storedKeys = await saveRequestAttachments(connection, requestId, req.files, req.user.id);
+
+    // Commit the transaction
+    await connection.commit();
+    storedKeys = [];
+
+    await notifyCurrentApprovers(pool, requestId, project_name);
+    await publishRequestUpdate(requestId);
+
+    // Get the created request with items
+    const [requests] = await connection.query(
+      `
+      SELECT r.*
+      FROM requests r
+      WHERE r.id = ?
+    `,
+      [requestId]
+    );
+
+    const [requestItems] = await connection.query(
+      `
+      SELECT ri.*, i.name, i.description, i.category
+      FROM request_items ri
+      JOIN items i ON ri.item_id = i.id
+      WHERE ri.request_id = ?
+    `,
+      [requestId]
+    );
+
+    const createdRequest = {
+      ...requests[0],
+      items: requestItems,
+      approvals: await getApprovalSteps(connection, requestId),
+      attachments: await getRequestAttachments(connection, requestId),
+    };
+
+    res.status(201).json(createdRequest);
+  } catch (error) {
+    console.error("Error creating request:", error);
+
+    // Rollback the transaction if there was an error
+    if (connection) {
+      await connection.rollback();
+    }
+    await removeStoredFiles(storedKeys);
+
+    res.status(500).json({
+      success: false,
+      message: "Error creating request",
+      error: error.message,
+    });
+  } finally {
+    // Release the connection
+    if (connection) {
+      connection.release();
+    }
+  }
+});
+
+// Approval chains
+
+// Statuses of requests whose approval chain is still running
+const OPEN_REQUEST_STATUSES = ["pending", "in_review"];
+
+// Statuses a request can be set to through PATCH /api/requests/:id/status
+// other than by approving or denying it, and the statuses it may have before
+const REQUEST_STATUS_TRANSITIONS = {
+  fulfilled: ["approved", "partially_fulfilled"],
+  out_of_stock: [...OPEN_REQUEST_STATUSES, "approved"],
+};
+
+// A step is decided by its named approver, by anyone with its role, or when
+// neither is set by anyone allowed to approve requests
+const canDecideApprovalStep = (step, user) => {
+  if (step.approver_id) {
+    return step.approver_id.toString() === user.id;
+  }
+  if (step.approver_role) {
+    return user.role === step.approver_role;
+  }
+  return hasPermission(user.role, "requests:approve");
+};
+
+// Steps of the earliest stage still waiting for a decision. Steps sharing a
+// step order run in parallel and must all be approved.
+const getCurrentApprovalSteps = (steps) => {
+  const pending = steps.filter((step) => step.status === "pending");
+  if (pending.length === 0) {
+    return [];
+  }
+  const stage = Math.min(...pending.map((step) => step.step_order));
+  return pending.filter((step) => step.step_order === stage);
+};
+
+async function getApprovalSteps(db, requestIds) {
+  const ids = Array.isArray(requestIds) ? requestIds : [requestIds];
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const [steps] = await db.query(
+    `
+    SELECT ra.*, au.name AS approver_name, du.name AS decided_by_name
+    FROM request_approvals ra
+    LEFT JOIN users au ON au.id = ra.approver_id
+    LEFT JOIN users du ON du.id = ra.decided_by
+    WHERE ra.request_id IN (${ids.map(() => "?").join(", ")})
+    ORDER BY ra.step_order, ra.id
+  `,
+    ids
+  );
+  return steps;
+}
+
+/**
+ * Build the approval chain of a new request from the active approval rules.
+ * A rule adds a step when the request has an item of its category and its
+ * total quantity and value (quantity x item price) reach the rule's
+ * thresholds; conditions a rule leaves empty always hold.
+ */
+async function createApprovalChain(db, requestId) {
+  const [lines] = await db.query(
+    `
+    SELECT ri.quantity, i.category, COALESCE(i.price, 0) AS price
+    FROM request_items ri
+    JOIN items i ON i.id = ri.item_id
+    WHERE ri.request_id = ?
+  `,
+    [requestId]
+  );
+
+  const totalQuantity = lines.reduce((sum, line) => sum + Number(line.quantity), 0);
+  const totalValue = lines.reduce(
+    (sum, line) => sum + Number(line.quantity) * Number(line.price),
+    0
+  );
+  const categories = lines.map((line) => String(line.category || "").toLowerCase());
+
+  const [rules] = await db.query(
+    "SELECT * FROM approval_rules WHERE is_active = 1 ORDER BY step_order, id"
+  );
+
+  const steps = [];
+  for (const rule of rules) {
+    const matches =
+      (!rule.category || categories.includes(rule.category.toLowerCase())) &&
+      (rule.min_quantity === null || totalQuantity >= rule.min_quantity) &&
+      (rule.min_value === null || totalValue >= Number(rule.min_value));
+
+    // Rules asking the same approver at the same stage make a single step
+    const duplicate = steps.some(
+      (step) =>
+        step.step_order === rule.step_order &&
+        step.approver_role === rule.approver_role &&
+        step.approver_id === rule.approver_id
+    );
+
+    if (matches && !duplicate) {
+      steps.push(rule);
+    }
+  }
+
+  for (const rule of steps) {
+    await db.query(
+      `
+      INSERT INTO request_approvals (request_id, rule_id, step_order, name, approver_role, approver_id, status)
+      VALUES (?, ?, ?, ?, ?, ?, 'pending')
+    `,
+      [requestId, rule.id, rule.step_order, rule.name, rule.approver_role, rule.approver_id]
+    );
+  }
+
+  return steps.length;
+}
+
+// Record one user's decision on an approval step. Rejecting a step ends the
+// chain, so the steps after it are skipped.
+async function decideApprovalStep(db, step, decision, user, comment) {
+  await db.query(
+    "UPDATE request_approvals SET status = ?, decided_by = ?, decided_at = NOW(), comment = ? WHERE id = ?",
+    [decision, user.id, comment || null, step.id]
+  );
+
+  if (decision === "rejected") {
+    await db.query(
+      "UPDATE request_approvals SET status = 'skipped' WHERE request_id = ? AND status = 'pending'",
+      [step.request_id]
+    );
+  }
+}
+
+// Notification preferences
+
+// Notification types users can turn off. Digests are always delivered.
+const NOTIFICATION_TYPES = [
+  "approval_required",
+  "request_approved",
+  "request_rejected",
+  "comment_added",
+  "loan_due_soon",
+  "loan_overdue",
+  "loan_overdue_escalated",
+  "loan_extension_requested",
+  "loan_extension_approved",
+  "loan_extension_rejected",
+  "stock_low",
+];
+
+const NOTIFICATION_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const NOTIFICATION_PREFERENCE_COLUMNS = `user_id, muted_types, categories,
+  to_char(quiet_hours_start, 'HH24:MI') AS quiet_hours_start,
+  to_char(quiet_hours_end, 'HH24:MI') AS quiet_hours_end,
+  digest, to_char(digest_time, 'HH24:MI') AS digest_time, last_digest_at`;
+
+// Users who never set preferences get every notification straight away
+const DEFAULT_NOTIFICATION_PREFERENCES = {
+  muted_types: [],
+  categories: [],
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+  digest: false,
+  digest_time: "08:00",
+  last_digest_at: null,
+};
+
+// The notification preferences of users, keyed by user id
+async function getNotificationPreferences(db, userIds) {
+  if (userIds.length === 0) {
+    return {};
+  }
+
+  const [rows] = await db.query(
+    `SELECT ${NOTIFICATION_PREFERENCE_COLUMNS}
+     FROM notification_preferences
+     WHERE user_id IN (${userIds.map(() => "?").join(", ")})`,
+    userIds
+  );
+  const preferences = {};
+  for (const userId of userIds) {
+    preferences[userId] = rows.find((row) => row.user_id === userId) || {
+      ...DEFAULT_NOTIFICATION_PREFERENCES,
+      user_id: userId,
+    };
+  }
+  return preferences;
+}
+
+// The date (YYYY-MM-DD) and time (HH:MM) of a moment in
+// notificationConfig.timeZone
+function getNotificationClock(moment = new Date()) {
+  const parts = {};
+  for (const part of new Intl.DateTimeFormat("en-CA", {
+    timeZone: notificationConfig.timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(moment)) {
+    parts[part.type] = part.value;
+  }
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+}
+
+// Quiet hours may run past midnight (22:00 to 07:00)
+function isInQuietHours(preferences, time) {
+  const { quiet_hours_start: start, quiet_hours_end: end } = preferences;
+  if (!start || !end || start === end) {
+    return false;
+  }
+  return start < end ? time >= start && time < end : time >= start || time < end;
+}
+
+/**
+ * How a notification reaches a user given their preferences: "skip" when
+ * they turned its type off or follow none of the item categories it is
+ * about (notifications not about items always pass), "digest" when they get
+ * a daily digest, "hold" during their quiet hours, and "now" otherwise.
+ */
+function getNotificationDelivery(preferences, type, categories, clock) {
+  if (preferences.muted_types.includes(type)) {
+    return "skip";
+  }
+  const followed = preferences.categories.map((category) => category.toLowerCase());
+  if (
+    followed.length > 0 &&
+    categories.length > 0 &&
+    !categories.some((category) => followed.includes(String(category || "").toLowerCase()))
+  ) {
+    return "skip";
+  }
+  if (preferences.digest) {
+    return "digest";
+  }
+  return isInQuietHours(preferences, clock.time) ? "hold" : "now";
+}
+
+// Add a notification to a user's list and tell them it is there. Returns the
+// notification.
+async function sendNotification(db, { userId, type, message, relatedId }) {
+  const [notifications] = await db.query(
+    `INSERT INTO notifications (user_id, type, message, related_item_id, is_read)
+     VALUES (?, ?, ?, ?, 0)
+     RETURNING id, user_id, type, message, related_item_id, is_read, "createdAt" AS created_at`,
+    [userId, type, message, relatedId]
+  );
+  publish("notification", { type, related_item_id: relatedId }, { userIds: [userId] });
+  return notifications[0];
+}
+
+// Send a notification, hold it for later or drop it, as its delivery says.
+// Returns the notification when it was sent.
+async function deliverNotification(db, notification, delivery) {
+  if (delivery === "now") {
+    return sendNotification(db, notification);
+  }
+  if (delivery !== "skip") {
+    await db.query(
+      `INSERT INTO held_notifications (user_id, type, message, related_item_id, digest)
+       VALUES (?, ?, ?, ?, ?)`,
+      [notification.userId, notification.type, notification.message, notification.relatedId, delivery === "digest"]
+    );
+  }
+  return null;
+}
+
+/**
+ * Notify users of something, as each of them prefers. categories names the
+ * item categories it is about, for users who only follow some of them; leave
+ * it empty for notifications about the user's own requests and loans.
+ * Notifications never fail the action that raised them.
+ */
+async function notifyUsers(db, userIds, type, message, relatedId, categories = []) {
+  try {
+    const recipientIds = [...new Set(userIds.map(String))];
+    const preferences = await getNotificationPreferences(db, recipientIds);
+    const clock = getNotificationClock();
+    for (const userId of recipientIds) {
+      await deliverNotification(
+        db,
+        { userId, type, message, relatedId },
+        getNotificationDelivery(preferences[userId], type, categories, clock)
+      );
+    }
+  } catch (error) {
+    console.error(`Error notifying users about ${relatedId}:`, error);
+  }
+}
+
+// One notification summing up held notifications, oldest first
+function getDigestMessage(notifications) {
+  const listed = notifications.slice(0, notificationConfig.digestMaxListed);
+  const lines = [
+    `Your digest: ${notifications.length} notification${notifications.length === 1 ? "" : "s"}`,
+    ...listed.map((notification) => `• ${notification.message}`),
+  ];
+  if (notifications.length > listed.length) {
+    lines.push(`…and ${notifications.length - listed.length} more`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Deliver held notifications that are due: those held for quiet hours once
+ * they are over, one at a time, and digests once a day from the user's
+ * digest time. Users who turned digests off get what was waiting for one
+ * straight away.
+ */
+async function deliverHeldNotifications() {
+  const [held] = await pool.query(
+    "SELECT id, user_id, type, message, related_item_id, digest FROM held_notifications ORDER BY created_at, id"
+  );
+  if (held.length === 0) {
+    return;
+  }
+
+  const clock = getNotificationClock();
+  const preferences = await getNotificationPreferences(pool, [...new Set(held.map((item) => item.user_id))]);
+  for (const [userId, userPreferences] of Object.entries(preferences)) {
+    if (isInQuietHours(userPreferences, clock.time)) {
+      continue;
+    }
+
+    const waiting = held.filter((item) => item.user_id === userId);
+    const forDigest = waiting.filter((item) => item.digest);
+    const digestDue =
+      !userPreferences.digest ||
+      (clock.time >= userPreferences.digest_time &&
+        (!userPreferences.last_digest_at ||
+          getNotificationClock(new Date(userPreferences.last_digest_at)).date < clock.date));
+    const due = waiting.filter((item) => !item.digest).concat(digestDue ? forDigest : []);
+    if (due.length === 0) {
+      continue;
+    }
+
+    // Claim what is sent so that no other instance of the API sends it too
+    const [claimed] = await pool.query(
+      `DELETE FROM held_notifications WHERE id IN (${due.map(() => "?").join(", ")}) RETURNING id`,
+      due.map((item) => item.id)
+    );
+    const claimedIds = claimed.map((item) => item.id);
+    const isClaimed = (item) => claimedIds.includes(item.id);
+
+    for (const item of waiting.filter((candidate) => !candidate.digest).filter(isClaimed)) {
+      await sendNotification(pool, {
+        userId,
+        type: item.type,
+        message: item.message,
+        relatedId: item.related_item_id,
+      });
+    }
+
+    const digest = digestDue ? forDigest.filter(isClaimed) : [];
+    if (digest.length > 0) {
+      await sendNotification(pool, {
+        userId,
+        type: "digest",
+        message: getDigestMessage(digest),
+        relatedId: null,
+      });
+      if (userPreferences.digest) {
+        await pool.query(
+          "UPDATE notification_preferences SET last_digest_at = CURRENT_TIMESTAMP WHERE user_id = ?",
+          [userId]
+        );
+      }
+    }
+  }
+}
+
+// Run deliverHeldNotifications now and every
+// notificationConfig.deliveryIntervalMinutes. A run is skipped while the
+// previous one is still going.
+function startNotificationDelivery() {
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await deliverHeldNotifications();
+    } catch (error) {
+      console.error("Error delivering held notifications:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  setInterval(run, notificationConfig.deliveryIntervalMinutes * 60 * 1000).unref();
+}
+
+/**
+ * Tell staff who adjust stock when items fall to their minimum quantity,
+ * once each time they do: the flag is cleared when an item is restocked
+ * above its minimum
+ */
+async function notifyLowStock(itemIds) {
+  try {
+    if (itemIds.length === 0) {
+      return;
+    }
+
+    const placeholders = itemIds.map(() => "?").join(", ");
+    await pool.query(
+      `UPDATE items SET low_stock_notified = FALSE
+       WHERE id IN (${placeholders}) AND low_stock_notified AND quantity > "minQuantity"`,
+      itemIds
+    );
+    const [items] = await pool.query(
+      `UPDATE items SET low_stock_notified = TRUE
+       WHERE id IN (${placeholders}) AND NOT low_stock_notified AND quantity <= "minQuantity" AND "isActive" = 1
+       RETURNING id, name, category, quantity, unit`,
+      itemIds
+    );
+    if (items.length === 0) {
+      return;
+    }
+
+    const [users] = await pool.query("SELECT id, role FROM users");
+    const recipientIds = users
+      .filter((user) => hasPermission(user.role, "stock:adjust"))
+      .map((user) => user.id);
+    for (const item of items) {
+      await notifyUsers(
+        pool,
+        recipientIds,
+        "stock_low",
+        `${item.name} is running low: ${item.quantity} ${item.unit || "pcs"} left`,
+        item.id.toString(),
+        [item.category]
+      );
+    }
+  } catch (error) {
+    console.error("Error notifying about low stock:", error);
+  }
+}
+
+// Tell the requester and everyone who sees all requests that a request was
+// created or changed, so their lists and dashboards refresh
+async function publishRequestUpdate(requestId) {
+  try {
+    const [requests] = await pool.query(
+      "SELECT id, status, requester_id FROM requests WHERE id = ?",
+      [requestId]
+    );
+    if (requests.length > 0) {
+      publishRequestEvent(requests[0]);
+    }
+  } catch (error) {
+    console.error(`Error publishing update of request ${requestId}:`, error);
+  }
+}
+
+const publishRequestEvent = (request, status = request.status) =>
+  publish(
+    "request_updated",
+    { id: request.id.toString(), status },
+    { userIds: [request.requester_id], permission: "requests:view_all" }
+  );
+
+// Tell a requester that their request has been approved or denied
+const notifyRequesterOfDecision = (db, requestId, request, status) =>
+  notifyUsers(
+    db,
+    [request.requester_id],
+    status === "approved" ? "request_approved" : "request_rejected",
+    status === "approved"
+      ? `Your request "${request.project_name}" has been approved`
+      : `Your request "${request.project_name}" has been rejected`,
+    requestId
+  );
+
+// Tell the approvers of a request's current stage that it is waiting for them
+async function notifyCurrentApprovers(db, requestId, projectName) {
+  try {
+    const currentSteps = getCurrentApprovalSteps(await getApprovalSteps(db, requestId));
+    if (currentSteps.length === 0) {
+      return;
+    }
+
+    const [lines] = await db.query(
+      `SELECT DISTINCT i.category
+       FROM request_items ri
+       JOIN items i ON i.id = ri.item_id
+       WHERE ri.request_id = ?`,
+      [requestId]
+    );
+    const categories = lines.map((line) => line.category).filter(Boolean);
+    const [users] = await db.query("SELECT id, role FROM users");
+    for (const step of currentSteps) {
+      const approverIds = users
+        .filter((user) => canDecideApprovalStep(step, { id: user.id.toString(), role: user.role }))
+        .map((user) => user.id);
+
+      await notifyUsers(
+        db,
+        approverIds,
+        "approval_required",
+        `Request "${projectName}" is waiting for your approval (${step.name})`,
+        requestId,
+        categories
+      );
+    }
+  } catch (error) {
+    console.error(`Error notifying approvers of request ${requestId}:`, error);
+  }
+}
+
+// Once every line of a request has been approved or rejected, settle the
+// request itself: it is denied only when all of its lines were rejected.
+// Returns the new request status, or null while lines are still pending.
+async function settleRequestFromLines(db, requestId) {
+  const [lines] = await db.query(
+    "SELECT status FROM request_items WHERE request_id = ?",
+    [requestId]
+  );
+
+  if (lines.length === 0 || lines.some((line) => line.status === "pending")) {
+    return null;
+  }
+
+  const status = lines.every((line) => line.status === "rejected")
+    ? "denied"
+    : "approved";
+  await db.query("UPDATE requests SET status = ? WHERE id = ?", [
+    status,
+    requestId,
+  ]);
+  return status;
+}
+
+/**
+ * Approve or deny a request on behalf of the caller. While the approval chain
+ * has steps left after the caller's, approving only records their step and
+ * hands the request on to the next approvers. Approving the last step, or
+ * denying any step, decides every line that has not been decided
+ * individually.
+ */
+async function decideRequest(req, res) {
+  const { id } = req.params;
+  const { status, comment } = req.body;
+  let connection;
+
+  try {
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    const [requests] = await connection.query(
+      "SELECT id, status, project_name, requester_id FROM requests WHERE id = ? FOR UPDATE",
+      [id]
+    );
+    if (requests.length === 0) {
+      await connection.rollback();
+      return res
+        .status(404)
+        .json({ success: false, message: "Request not found" });
+    }
+
+    const request = requests[0];
+    if (!OPEN_REQUEST_STATUSES.includes(request.status)) {
+      await connection.rollback();
+      return res.status(409).json({
+        success: false,
+        message: "Only requests awaiting approval can be approved or denied",
+      });
+    }
+
+    // Requests created before approval chains existed have no steps and are
+    // decided by any approver
+    const steps = await getApprovalSteps(connection, id);
+    const currentSteps = getCurrentApprovalSteps(steps);
+    const step = currentSteps.find((currentStep) =>
+      canDecideApprovalStep(currentStep, req.user)
+    );
+
+    if (
+      currentSteps.length > 0
+        ? !step
+        : !hasPermission(req.user.role, "requests:approve")
+    ) {
+      await connection.rollback();
+      return res.status(403).json({
+        success: false,
+        message:
+          currentSteps.length > 0
+            ? `This request is waiting for ${currentSteps.map((s) => s.name).join(", ")}`
+            : "You do not have permission to perform this action",
+      });
+    }
+
+    if (step) {
+      await decideApprovalStep(
+        connection,
+        step,
+        status === "approved" ? "approved" : "rejected",
+        req.user,
+        comment
+      );
+    }
+
+    const stepsLeft = steps.filter(
+      (other) => other.status === "pending" && other.id !== step?.id
+    );
+
+    if (status === "approved" && stepsLeft.length > 0) {
+      await connection.query("UPDATE requests SET status = 'in_review' WHERE id = ?", [id]);
+      await connection.commit();
+
+      await notifyCurrentApprovers(pool, id, request.project_name);
+      await publishRequestUpdate(id);
+
+      return res.json({
+        success: true,
+        message: "Approval recorded; the request has moved on to the next approver",
+        status: "in_review",
+      });
+    }
+
+    await connection.query(
+      status === "approved"
+        ? "UPDATE request_items SET status = 'approved', approved_quantity = quantity WHERE request_id = ? AND status = 'pending'"
+        : "UPDATE request_items SET status = 'rejected', approved_quantity = 0 WHERE request_id = ? AND status = 'pending'",
+      [id]
+    );
+
+    const settledStatus = await settleRequestFromLines(connection, id);
+    if (!settledStatus) {
+      await connection.query("UPDATE requests SET status = ? WHERE id = ?", [status, id]);
+    }
+
+    await connection.commit();
+
+    const finalStatus = settledStatus || status;
+    await notifyRequesterOfDecision(pool, id, request, finalStatus);
+    await publishRequestUpdate(id);
+
+    res.json({
+      success: true,
+      message: "Request status updated successfully",
+      status: finalStatus,
+    });
+  } catch (error) {
+    console.error(`Error deciding request ${id}:`, error);
+
+    if (connection) {
+      await connection.rollback();
+    }
+
+    res.status(500).json({
+      success: false,
+      message: "Error updating request status",
+      error: error.message,
+    });
+  } finally {
+    if (connection) {
+      connection.release();
+    }
+  }
+}
+
+// Update the status of a request. Approving or denying decides the current
+// step of the request's approval chain; the request itself is only approved
+// once its last step is.
+//
+// Approval steps can be assigned to users who cannot otherwise approve
+// requests, so permissions are checked per status below rather than for the
+// whole route.
+app.patch("/api/requests/:id/status", async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { status } = req.body;
+
+    console.log(
+      `PATCH /api/requests/${id}/status - Updating request status to ${status}`
+    );
+
+    if (status === "approved" || status === "denied") {
+      return await decideRequest(req, res);
+    }
+
+    const allowedFrom = REQUEST_STATUS_TRANSITIONS[status];
+    if (!allowedFrom) {
+      return res.status(400).json({
+        success: false,
+        message: `status must be one of: approved, denied, ${Object.keys(REQUEST_STATUS_TRANSITIONS).join(", ")}`,
+      });
+    }
+
+    if (!hasPermission(req.user.role, "requests:approve")) {
+      return res.status(403).json({
+        success: false,
+        message: "You do not have permission to perform this action",
+      });
+    }
+
+    const [requestQuery] = await pool.query("SELECT status FROM requests WHERE id = ?", [id]);
+    if (requestQuery.length === 0) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Request not found" });
+    }
+    if (status === "fulfilled" && requestQuery[0].status === "fulfilled") {
+      // Already fulfilled, don't deduct again
+      return res.json({ success: true, message: "Request already fulfilled" });
+    }
+    if (!allowedFrom.includes(requestQuery[0].status)) {
+      return res.status(409).json({
+        success: false,
+        message: `A request that is ${requestQuery[0].status} cannot be marked ${status}`,
+      });
+    }
+
+    // Fulfilling issues the approved quantity of every line that has not been
+    // delivered yet, from the location in location_id or the default one.
+    // Whatever the stock there cannot cover, and whatever was not approved,
+    // stays open as a back-order and leaves the request partially fulfilled.
+    if (status === 'fulfilled') {
+      const [openSteps] = await pool.query(
+        "SELECT COUNT(*) AS count FROM request_approvals WHERE request_id = ? AND status = 'pending'",
+        [id]
+      );
+      if (Number(openSteps[0].count) > 0) {
+        return res.status(409).json({
+          success: false,
+          message: "The request cannot be fulfilled before its approval chain is complete",
+        });
+      }
+
+      const locationId = await resolveLocationId(pool, req.body.location_id);
+      if (!locationId) {
+        return res.status(400).json({ success: false, message: "Location not found" });
+      }
+
+      // Start transaction for stock deduction
+      const connection = await pool.getConnection();
+      try {
+        await connection.beginTransaction();
+
+        // The status is checked again under a lock, so a request is never
+        // fulfilled twice at the same time
+        const [lockedRequests] = await connection.query(
+          "SELECT status FROM requests WHERE id = ? FOR UPDATE",
+          [id]
+        );
+        if (!allowedFrom.includes(lockedRequests[0]?.status)) {
+          await connection.rollback();
+          return res.status(409).json({
+            success: false,
+            message: "The status of this request has changed; reload it and try again",
+          });
+        }
+
+        // Lines that are still pending are approved in full
+        await connection.query(
+          "UPDATE request_items SET status = 'approved', approved_quantity = quantity WHERE request_id = ? AND status = 'pending'",
+          [id]
+        );
+
+        // Get the approved lines of this request
+        const [reqItems] = await connection.query(
+          `SELECT id, item_id, quantity, COALESCE(approved_quantity, quantity) AS approved_quantity, delivered_quantity,
+             unit, base_unit, conversion_factor
+           FROM request_items WHERE request_id = ? AND status = 'approved'`,
+          [id]
+        );
+
+        let issuedTotal = 0;
+
+        for (const reqItem of reqItems) {
+          const outstanding = reqItem.approved_quantity - reqItem.delivered_quantity;
+          if (outstanding <= 0) {
+            continue;
+          }
+
+          // Get current item quantity
+          const [items] = await connection.query(
+            `SELECT id, name, quantity, "minQuantity" FROM items WHERE id = ? FOR UPDATE`,
+            [reqItem.item_id]
+          );
+
+          const [locationStock] = await connection.query(
+            "SELECT quantity FROM item_locations WHERE item_id = ? AND location_id = ? FOR UPDATE",
+            [reqItem.item_id, locationId]
+          );
+          const onHand = locationStock.length > 0 ? locationStock[0].quantity : 0;
+
+          if (items.length > 0) {
+            const item = items[0];
+            // Never issue more than is on hand at the location
+            const issued = Math.min(outstanding, Math.max(Math.min(item.quantity, onHand), 0));
+            if (issued === 0) {
+              continue;
+            }
+
+            const quantityBefore = item.quantity;
+            const quantityChange = -issued;
+            const quantityAfter = quantityBefore + quantityChange;
+
+            // Update item quantity
+            let newStatus = "out-of-stock";
+            if (quantityAfter > 0) {
+              newStatus = quantityAfter <= item.minQuantity ? "low-stock" : "in-stock";
+            }
+
+            await connection.query(
+              "UPDATE items SET quantity = ?, status = ? WHERE id = ?",
+              [quantityAfter, newStatus, item.id]
+            );
+            await changeLocationStock(connection, item.id, locationId, quantityChange);
+
+            await connection.query(
+              "UPDATE request_items SET delivered_quantity = delivered_quantity + ?, stock_before = ?, stock_after = ? WHERE id = ?",
+              [issued, quantityBefore, quantityAfter, reqItem.id]
+            );
+
+            // Record in stock history, with the quantity in the requested
+            // unit when the line was requested in another unit
+            const requestedInOtherUnit =
+              reqItem.base_unit && reqItem.unit !== reqItem.base_unit;
+            const [history] = await connection.query(
+              `INSERT INTO stock_history (item_id, change_type, quantity_before, quantity_change, quantity_after, reference_id, notes, created_by, location_id, entered_quantity, entered_unit)
+               VALUES (?, 'request', ?, ?, ?, ?, ?, ?, ?, ?, ?)
+               RETURNING id`,
+              [
+                item.id,
+                quantityBefore,
+                quantityChange,
+                quantityAfter,
+                id,
+                `Fulfilled request ${id}`,
+                req.user.id,
+                locationId,
+                requestedInOtherUnit ? quantityChange / Number(reqItem.conversion_factor) : null,
+                requestedInOtherUnit ? reqItem.unit : null,
+              ]
+            );
+            await recordStockCost(connection, {
+              itemId: item.id,
+              historyId: history[0].id,
+              change: quantityChange,
+            });
+
+            reqItem.delivered_quantity += issued;
+            issuedTotal += issued;
+          }
+        }
+
+        if (issuedTotal === 0) {
+          await connection.rollback();
+          return res.status(409).json({
+            success: false,
+            message: "None of the approved items could be issued from stock",
+          });
+        }
+
+        const hasBackOrder = reqItems.some(
+          (reqItem) => reqItem.delivered_quantity < reqItem.quantity
+        );
+        const newRequestStatus = hasBackOrder ? "partially_fulfilled" : "fulfilled";
+
+        // Update request status
+        await connection.query("UPDATE requests SET status = ? WHERE id = ?", [newRequestStatus, id]);
+
+        await connection.commit();
+
+        await publishRequestUpdate(id);
+        publishStockChange(reqItems.map((reqItem) => reqItem.item_id));
+        res.json({
+          success: true,
+          message: hasBackOrder
+            ? "Request partially fulfilled; the remainder is back-ordered"
+            : "Request fulfilled and stock updated",
+          status: newRequestStatus,
+        });
+      } catch (err) {
+        await connection.rollback();
+        throw err;
+      } finally {
+        connection.release();
+      }
+      return;
+    }
+
+    const [updated] = await pool.query(
+      `
+      UPDATE requests
+      SET status = ?
+      WHERE id = ? AND status IN (${allowedFrom.map(() => "?").join(", ")})
+      RETURNING id
+    `,
+      [status, id, ...allowedFrom]
+    );
+
+    if (updated.length === 0) {
+      return res.status(409).json({
+        success: false,
+        message: "The status of this request has changed; reload it and try again",
+      });
+    }
+
+    await publishRequestUpdate(id);
+    res.json({ success: true, message: "Request status updated successfully" });
+  } catch (error) {
+    console.error(`Error updating status for request ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error updating request status",
+      error: error.message,
+    });
+  }
+});
+
+// Approve or reject a single line of a pending request, optionally approving
+// less than was requested. Lines are decided at the last step of the approval
+// chain, by whoever may decide that step. On approved and partially fulfilled
+// requests the approved quantity of a line can be raised to release more of
+// its back-order.
+app.patch(
+  "/api/requests/:id/items/:lineId/status",
+  async (req, res) => {
+    let connection;
+    try {
+      const { id, lineId } = req.params;
+      const { status, approved_quantity } = req.body;
+
+      console.log(
+        `PATCH /api/requests/${id}/items/${lineId}/status - Updating line status to ${status}`
+      );
+
+      if (!["approved", "rejected"].includes(status)) {
+        return res.status(400).json({
+          success: false,
+          message: "Status must be either approved or rejected",
+        });
+      }
+
+      connection = await pool.getConnection();
+      await connection.beginTransaction();
+
+      const [requests] = await connection.query(
+        "SELECT status, project_name, requester_id FROM requests WHERE id = ? FOR UPDATE",
+        [id]
+      );
+      if (requests.length === 0) {
+        await connection.rollback();
+        return res
+          .status(404)
+          .json({ success: false, message: "Request not found" });
+      }
+
+      const [lines] = await connection.query(
+        "SELECT id, quantity, status, delivered_quantity FROM request_items WHERE id = ? AND request_id = ?",
+        [lineId, id]
+      );
+      if (lines.length === 0) {
+        await connection.rollback();
+        return res
+          .status(404)
+          .json({ success: false, message: "Request item not found" });
+      }
+
+      const line = lines[0];
+      const requestStatus = requests[0].status;
+      const isBackOrderUpdate =
+        ["approved", "partially_fulfilled"].includes(requestStatus) &&
+        line.status === "approved" &&
+        status === "approved";
+
+      if (!OPEN_REQUEST_STATUSES.includes(requestStatus) && !isBackOrderUpdate) {
+        await connection.rollback();
+        return res.status(409).json({
+          success: false,
+          message: "Only items of pending requests can be approved or rejected",
+        });
+      }
+
+      let finalStep = null;
+      if (!isBackOrderUpdate) {
+        const pendingSteps = (await getApprovalSteps(connection, id)).filter(
+          (step) => step.status === "pending"
+        );
+        if (pendingSteps.length > 1) {
+          await connection.rollback();
+          return res.status(409).json({
+            success: false,
+            message: "Items can only be decided at the last step of the approval chain",
+          });
+        }
+        finalStep = pendingSteps[0] || null;
+      }
+
+      const canDecide = finalStep
+        ? canDecideApprovalStep(finalStep, req.user)
+        : hasPermission(req.user.role, "requests:approve");
+      if (!canDecide) {
+        await connection.rollback();
+        return res.status(403).json({
+          success: false,
+          message: "You do not have permission to perform this action",
+        });
+      }
+
+      let approvedQuantity = 0;
+      if (status === "approved") {
+        approvedQuantity = Number(approved_quantity ?? line.quantity);
+        if (
+          !Number.isInteger(approvedQuantity) ||
+          approvedQuantity < Math.max(line.delivered_quantity, 1) ||
+          approvedQuantity > line.quantity
+        ) {
+          await connection.rollback();
+          return res.status(400).json({
+            success: false,
+            message: `Approved quantity must be a whole number between ${Math.max(
+              line.delivered_quantity,
+              1
+            )} and ${line.quantity}`,
+          });
+        }
+      }
+
+      await connection.query(
+        "UPDATE request_items SET status = ?, approved_quantity = ? WHERE id = ?",
+        [status, approvedQuantity, lineId]
+      );
+
+      const settledStatus = isBackOrderUpdate
+        ? null
+        : await settleRequestFromLines(connection, id);
+
+      // Deciding the last line also decides the last approval step
+      if (settledStatus && finalStep) {
+        await decideApprovalStep(
+          connection,
+          finalStep,
+          settledStatus === "approved" ? "approved" : "rejected",
+          req.user
+        );
+      }
+
+      await connection.commit();
+
+      if (settledStatus) {
+        await notifyRequesterOfDecision(pool, id, requests[0], settledStatus);
+      }
+      await publishRequestUpdate(id);
+
+      res.json({
+        success: true,
+        message: "Request item status updated successfully",
+        requestStatus: settledStatus || requestStatus,
+      });
+    } catch (error) {
+      console.error(
+        `Error updating status for line ${req.params.lineId} of request ${req.params.id}:`,
+        error
+      );
+
+      if (connection) {
+        await connection.rollback();
+      }
+
+      res.status(500).json({
+        success: false,
+        message: "Error updating request item status",
+        error: error.message,
+      });
+    } finally {
+      if (connection) {
+        connection.release();
+      }
+    }
+  }
+);
+
+// Delete a request
+app.delete("/api/requests/:id", async (req, res) => {
+  let connection;
+  try {
+    const { id } = req.params;
+    console.log(`DELETE /api/requests/${id} - Deleting request`);
+
+    // Get a connection from the pool and start a transaction
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    // Check if request exists
+    const [existingRequests] = await connection.query(
+      "SELECT * FROM requests WHERE id = ?",
+      [id]
+    );
+    if (existingRequests.length === 0) {
+      await connection.rollback();
+      return res.status(404).json({
+        success: false,
+        message: "Request not found",
+      });
+    }
+
+    // Requesters may cancel their own pending requests; anything else
+    // needs the requests:delete permission
+    const existingRequest = existingRequests[0];
+    const isOwnPendingRequest =
+      existingRequest.requester_id?.toString() === req.user.id &&
+      existingRequest.status === "pending";
+    if (!isOwnPendingRequest && !hasPermission(req.user.role, "requests:delete")) {
+      await connection.rollback();
+      return res.status(403).json({
+        success: false,
+        message: "You do not have permission to perform this action",
+      });
+    }
+
+    // The attachment rows go with the request; their files are removed
+    // once it is deleted
+    const [attachments] = await connection.query(
+      "SELECT storage_key FROM request_attachments WHERE request_id = ?",
+      [id]
+    );
+
+    // Delete request items first (due to foreign key constraint)
+    await connection.query(
+      "DELETE FROM request_items WHERE request_id = ?",
+      [id]
+    );
+
+    // Delete the request
+    const [result] = await connection.query(
+      "DELETE FROM requests WHERE id = ?",
+      [id]
+    );
+
+    // Commit the transaction
+    await connection.commit();
+
+    await removeStoredFiles(attachments.map((attachment) => attachment.storage_key));
+    publishRequestEvent(existingRequest, "deleted");
+
+    if (result.affectedRows > 0) {
+      res.json({
+        success: true,
+        message: "Request deleted successfully",
+      });
+    } else {
+      res.status(400).json({
+        success: false,
+        message: "Failed to delete request",
+      });
+    }
+  } catch (error) {
+    console.error(`Error deleting request with id ${req.params.id}:`, error);
+
+    // Rollback the transaction if there was an error
+    if (connection) {
+      try {
+        await connection.rollback();
+        console.log("Transaction rolled back due to error");
+      } catch (rollbackError) {
+        console.error("Error rolling back transaction:", rollbackError);
+      }
+    }
+
+    res.status(500).json({
+      success: false,
+      message: "Error deleting request",
+      error: error.message,
+    });
+  } finally {
+    // Release the connection back to the pool
+    if (connection) {
+      connection.release();
+    }
+  }
+});
+
+// Request comments API endpoints
+
+// Requesters can see their own requests; approvers can see every request
+const canViewRequest = (request, user) =>
+  request.requester_id?.toString() === user.id ||
+  hasPermission(user.role, "requests:view_all");
+
+// Load the request named in the URL, or send the error response and return
+// null when it does not exist or the caller may not see it
+async function getViewableRequest(req, res) {
+  const [requests] = await pool.query("SELECT * FROM requests WHERE id = ?", [
+    req.params.id,
+  ]);
+  if (requests.length === 0) {
+    res.status(404).json({ success: false, message: "Request not found" });
+    return null;
+  }
+  if (!canViewRequest(requests[0], req.user)) {
+    res.status(403).json({
+      success: false,
+      message: "You do not have permission to perform this action",
+    });
+    return null;
+  }
+  return requests[0];
+}
+
+// Users who can take part in a request's discussion: its requester and
+// everyone who can see all requests
+async function getRequestParticipants(db, request) {
+  const [users] = await db.query("SELECT id, name, role FROM users ORDER BY name");
+  return users
+    .map((user) => ({ id: user.id.toString(), name: user.name, role: user.role }))
+    .filter(
+      (user) =>
+        user.id === request.requester_id?.toString() ||
+        hasPermission(user.role, "requests:view_all")
+    );
+}
+
+// Participants mentioned in a comment as @name. Longer names are matched
+// first, so "@Ann Lee" does not also mention "Ann".
+function findMentionedUsers(body, participants) {
+  let text = body.toLowerCase();
+  const mentioned = [];
+  const byLongestName = [...participants].sort((a, b) => b.name.length - a.name.length);
+  for (const participant of byLongestName) {
+    const mention = `@${participant.name.toLowerCase()}`;
+    if (text.includes(mention)) {
+      mentioned.push(participant.id);
+      text = text.split(mention).join(" ");
+    }
+  }
+  return mentioned;
+}
+
+async function saveCommentMentions(db, commentId, userIds) {
+  await db.query("DELETE FROM request_comment_mentions WHERE comment_id = ?", [commentId]);
+  for (const userId of userIds) {
+    await db.query(
+      "INSERT INTO request_comment_mentions (comment_id, user_id) VALUES (?, ?)",
+      [commentId, userId]
+    );
+  }
+}
+
+// Comments of a request in the order they were posted, with their author and
+// the ids of the users they mention. Deleted comments keep their place in
+// the thread without their text.
+async function getRequestComments(db, requestId, commentId = null) {
+  const [comments] = await db.query(
+    `
+    SELECT c.id, c.request_id, c.parent_id, c.user_id, c.is_deleted, c.created_at, c.updated_at,
+      CASE WHEN c.is_deleted = 1 THEN '' ELSE c.body END AS body,
+      u.name AS author_name, u.role AS author_role
+    FROM request_comments c
+    LEFT JOIN users u ON u.id = c.user_id
+    WHERE c.request_id = ?${commentId ? " AND c.id = ?" : ""}
+    ORDER BY c.created_at, c.id
+  `,
+    commentId ? [requestId, commentId] : [requestId]
+  );
+  if (comments.length === 0) {
+    return [];
+  }
+
+  const [mentions] = await db.query(
+    `SELECT comment_id, user_id FROM request_comment_mentions WHERE comment_id IN (${comments
+      .map(() => "?")
+      .join(", ")})`,
+    comments.map((comment) => comment.id)
+  );
+
+  return comments.map((comment) => ({
+    ...comment,
+    is_deleted: comment.is_deleted === 1,
+    mentions: mentions
+      .filter((mention) => mention.comment_id === comment.id)
+      .map((mention) => mention.user_id.toString()),
+  }));
+}
+
+// Tell everyone taking part in a request's discussion (its requester, the
+// approvers of its steps and everyone who commented) and everyone mentioned
+// that a comment was added, except its author
+async function notifyCommentAdded(db, request, comment, participants) {
+  try {
+    const [approvers] = await db.query(
+      "SELECT approver_id, decided_by FROM request_approvals WHERE request_id = ?",
+      [request.id]
+    );
+    const [commenters] = await db.query(
+      "SELECT DISTINCT user_id FROM request_comments WHERE request_id = ?",
+      [request.id]
+    );
+    const involvedIds = new Set(
+      [
+        request.requester_id,
+        ...approvers.flatMap((step) => [step.approver_id, step.decided_by]),
+        ...commenters.map((commenter) => commenter.user_id),
+      ]
+        .filter(Boolean)
+        .map(String)
+    );
+    const recipients = participants.filter(
+      (participant) =>
+        participant.id !== comment.user_id?.toString() &&
+        (involvedIds.has(participant.id) || comment.mentions.includes(participant.id))
+    );
+
+    const author = comment.author_name || "Someone";
+    const requestName = request.project_name || request.id;
+    const mentioned = recipients.filter((participant) => comment.mentions.includes(participant.id));
+    const others = recipients.filter((participant) => !comment.mentions.includes(participant.id));
+    await notifyUsers(
+      db,
+      mentioned.map((participant) => participant.id),
+      "comment_added",
+      `${author} mentioned you in a comment on request "${requestName}"`,
+      request.id.toString()
+    );
+    await notifyUsers(
+      db,
+      others.map((participant) => participant.id),
+      "comment_added",
+      `${author} commented on request "${requestName}"`,
+      request.id.toString()
+    );
+  } catch (error) {
+    console.error(`Error notifying about comment ${comment.id}:`, error);
+  }
+}
+
+const MAX_COMMENT_LENGTH = 2000;
+
+const getCommentBodyError = (body) => {
+  if (typeof body !== "string" || !body.trim()) {
+    return "Comment cannot be empty";
+  }
+  if (body.length > MAX_COMMENT_LENGTH) {
+    return `Comment cannot be longer than ${MAX_COMMENT_LENGTH} characters`;
+  }
+  return null;
+};
+
+// Load a comment the caller wrote on the request, or send the error
+// response and return null
+async function getOwnComment(req, res) {
+  const [comments] = await pool.query(
+    "SELECT * FROM request_comments WHERE id = ? AND request_id = ?",
+    [req.params.commentId, req.params.id]
+  );
+  if (comments.length === 0 || comments[0].is_deleted === 1) {
+    res.status(404).json({ success: false, message: "Comment not found" });
+    return null;
+  }
+  if (comments[0].user_id?.toString() !== req.user.id) {
+    res.status(403).json({
+      success: false,
+      message: "You can only change your own comments",
+    });
+    return null;
+  }
+  return comments[0];
+}
+
+app.get("/api/requests/:id/comments", async (req, res) => {
+  try {
+    const request = await getViewableRequest(req, res);
+    if (!request) return;
+
+    res.json(await getRequestComments(pool, request.id));
+  } catch (error) {
+    console.error(`Error fetching comments of request ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching comments",
+      error: error.message,
+    });
+  }
+});
+
+// Users that can be mentioned in the request's discussion
+app.get("/api/requests/:id/participants", async (req, res) => {
+  try {
+    const request = await getViewableRequest(req, res);
+    if (!request) return;
+
+    res.json(await getRequestParticipants(pool, request));
+  } catch (error) {
+    console.error(`Error fetching participants of request ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching participants",
+      error: error.message,
+    });
+  }
+});
+
+app.post("/api/requests/:id/comments", async (req, res) => {
+  try {
+    const request = await getViewableRequest(req, res);
+    if (!request) return;
+
+    const { body, parent_id } = req.body;
+    const bodyError = getCommentBodyError(body);
+    if (bodyError) {
+      return res.status(400).json({ success: false, message: bodyError });
+    }
+
+    // Replies to a reply join the thread of its top-level comment
+    let parentId = null;
+    if (parent_id) {
+      const [parents] = await pool.query(
+        "SELECT id, parent_id FROM request_comments WHERE id = ? AND request_id = ?",
+        [parent_id, request.id]
+      );
+      if (parents.length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: "The comment being replied to does not exist",
+        });
+      }
+      parentId = parents[0].parent_id || parents[0].id;
+    }
+
+    const [inserted] = await pool.query(
+      "INSERT INTO request_comments (request_id, parent_id, user_id, body) VALUES (?, ?, ?, ?) RETURNING id",
+      [request.id, parentId, req.user.id, body.trim()]
+    );
+    const commentId = inserted[0].id;
+
+    const participants = await getRequestParticipants(pool, request);
+    await saveCommentMentions(pool, commentId, findMentionedUsers(body, participants));
+
+    const [comment] = await getRequestComments(pool, request.id, commentId);
+    await notifyCommentAdded(pool, request, comment, participants);
+    res.status(201).json(comment);
+  } catch (error) {
+    console.error(`Error adding comment to request ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error adding comment",
+      error: error.message,
+    });
+  }
+});
+
+app.put("/api/requests/:id/comments/:commentId", async (req, res) => {
+  try {
+    const request = await getViewableRequest(req, res);
+    if (!request) return;
+    const existing = await getOwnComment(req, res);
+    if (!existing) return;
+
+    const { body } = req.body;
+    const bodyError = getCommentBodyError(body);
+    if (bodyError) {
+      return res.status(400).json({ success: false, message: bodyError });
+    }
+
+    await pool.query(
+      "UPDATE request_comments SET body = ?, updated_at = NOW() WHERE id = ?",
+      [body.trim(), existing.id]
+    );
+
+    const participants = await getRequestParticipants(pool, request);
+    await saveCommentMentions(pool, existing.id, findMentionedUsers(body, participants));
+
+    const [comment] = await getRequestComments(pool, request.id, existing.id);
+    res.json(comment);
+  } catch (error) {
+    console.error(`Error updating comment ${req.params.commentId}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error updating comment",
+      error: error.message,
+    });
+  }
+});
+
+app.delete("/api/requests/:id/comments/:commentId", async (req, res) => {
+  try {
+    const request = await getViewableRequest(req, res);
+    if (!request) return;
+    const existing = await getOwnComment(req, res);
+    if (!existing) return;
+
+    // Keep a comment with replies in place so the thread still reads in order
+    const [replies] = await pool.query(
+      "SELECT id FROM request_comments WHERE parent_id = ? LIMIT 1",
+      [existing.id]
+    );
+    if (replies.length > 0) {
+      await pool.query(
+        "UPDATE request_comments SET body = '', is_deleted = 1, updated_at = NOW() WHERE id = ?",
+        [existing.id]
+      );
+      await saveCommentMentions(pool, existing.id, []);
+    } else {
+      await pool.query("DELETE FROM request_comments WHERE id = ?", [existing.id]);
+    }
+
+    res.json({ success: true, message: "Comment deleted successfully" });
+  } catch (error) {
+    console.error(`Error deleting comment ${req.params.commentId}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error deleting comment",
+      error: error.message,
+    });
+  }
+});
+
+// Request attachments API endpoints
+
+// Content types browsers can safely show in place instead of downloading
+const PREVIEWABLE_TYPES = /^(image\/(jpeg|png|gif|webp)|application\/pdf)$/;
+
+app.get("/api/requests/:id/attachments", async (req, res) => {
+  try {
+    const request = await getViewableRequest(req, res);
+    if (!request) return;
+
+    res.json(await getRequestAttachments(pool, request.id));
+  } catch (error) {
+    console.error(`Error fetching attachments of request ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching attachments",
+      error: error.message,
+    });
+  }
+});
+
+app.post("/api/requests/:id/attachments", receiveAttachments, async (req, res) => {
+  try {
+    const request = await getViewableRequest(req, res);
+    if (!request) return;
+
+    if (!req.files || req.files.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: "No files were uploaded",
+      });
+    }
+
+    // All files are recorded or none are
+    const connection = await pool.getConnection();
+    let storedKeys = [];
+    try {
+      await connection.beginTransaction();
+      storedKeys = await saveRequestAttachments(connection, request.id, req.files, req.user.id);
+      await connection.commit();
+    } catch (err) {
+      await connection.rollback();
+      await removeStoredFiles(storedKeys);
+      throw err;
+    } finally {
+      connection.release();
+    }
+
+    res.status(201).json(await getRequestAttachments(pool, request.id));
+  } catch (error) {
+    console.error(`Error uploading attachments to request ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error uploading attachments",
+      error: error.message,
+    });
+  }
+});
+
+// Download an attachment, or show it in place with ?inline=true when the
+// browser can preview it
+app.get("/api/requests/:id/attachments/:attachmentId/download", async (req, res) => {
+  try {
+    const request = await getViewableRequest(req, res);
+    if (!request) return;
+
+    const [attachments] = await pool.query(
+      "SELECT * FROM request_attachments WHERE id = ? AND request_id = ?",
+      [req.params.attachmentId, request.id]
+    );
+    if (attachments.length === 0) {
+      return res.status(404).json({ success: false, message: "Attachment not found" });
+    }
+
+    const attachment = attachments[0];
+    const stream = await attachmentStorage.createReadStream(attachment.storage_key);
+    const inline =
+      req.query.inline === "true" && PREVIEWABLE_TYPES.test(attachment.content_type);
+
+    res.setHeader("Content-Type", attachment.content_type);
+    res.setHeader("Content-Length", attachment.size);
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.setHeader(
+      "Content-Disposition",
+      `${inline ? "inline" : "attachment"}; filename*=UTF-8''${encodeURIComponent(
+        attachment.file_name
+      )}`
+    );
+    stream.on("error", (error) => {
+      console.error(`Error streaming attachment ${attachment.id}:`, error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    console.error(`Error downloading attachment ${req.params.attachmentId}:`, error);
+    res.status(error.code === "ENOENT" ? 404 : 500).json({
+      success: false,
+      message:
+        error.code === "ENOENT" ? "Attachment file is missing" : "Error downloading attachment",
+      error: error.message,
+    });
+  }
+});
+
+// Attachments can be removed by whoever uploaded them and by users who can
+// delete requests
+app.delete("/api/requests/:id/attachments/:attachmentId", async (req, res) => {
+  try {
+    const request = await getViewableRequest(req, res);
+    if (!request) return;
+
+    const [attachments] = await pool.query(
+      "SELECT * FROM request_attachments WHERE id = ? AND request_id = ?",
+      [req.params.attachmentId, request.id]
+    );
+    if (attachments.length === 0) {
+      return res.status(404).json({ success: false, message: "Attachment not found" });
+    }
+
+    const attachment = attachments[0];
+    if (
+      attachment.uploaded_by?.toString() !== req.user.id &&
+      !hasPermission(req.user.role, "requests:delete")
+    ) {
+      return res.status(403).json({
+        success: false,
+        message: "You do not have permission to perform this action",
+      });
+    }
+
+    await pool.query("DELETE FROM request_attachments WHERE id = ?", [attachment.id]);
+    await removeStoredFiles([attachment.storage_key]);
+
+    res.json({ success: true, message: "Attachment deleted successfully" });
+  } catch (error) {
+    console.error(`Error deleting attachment ${req.params.attachmentId}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error deleting attachment",
+      error: error.message,
+    });
+  }
+});
+
+// Approval rules API endpoints
+
+const APPROVAL_RULE_FIELDS = [
+  "name",
+  "step_order",
+  "category",
+  "min_quantity",
+  "min_value",
+  "approver_role",
+  "approver_id",
+  "is_active",
+];
+
+// Validate an approval rule from a request body, returning an error message
+// or null. Partial rules are checked when updating.
+function getApprovalRuleError(rule, partial = false) {
+  if ((!partial || rule.name !== undefined) && !String(rule.name || "").trim()) {
+    return "Name is required";
+  }
+  if (
+    rule.step_order !== undefined &&
+    (!Number.isInteger(Number(rule.step_order)) || Number(rule.step_order) < 1)
+  ) {
+    return "Step order must be a whole number of at least 1";
+  }
+  for (const field of ["min_quantity", "min_value"]) {
+    if (rule[field] !== undefined && rule[field] !== null && !(Number(rule[field]) >= 0)) {
+      return `${field} must be a number of at least 0`;
+    }
+  }
+  if (rule.approver_role && !hasRole(rule.approver_role)) {
+    return `Unknown role: ${rule.approver_role}`;
+  }
+  return null;
+}
+
+// Empty optional conditions are stored as NULL so they always match
+const toApprovalRuleValues = (rule) =>
+  APPROVAL_RULE_FIELDS.filter((field) => rule[field] !== undefined).map((field) => [
+    field,
+    rule[field] === "" ? null : rule[field],
+  ]);
+
+app.get("/api/approval-rules", requirePermission("approvals:manage"), async (req, res) => {
+  try {
+    const [rules] = await pool.query(
+      `
+      SELECT ar.*, u.name AS approver_name
+      FROM approval_rules ar
+      LEFT JOIN users u ON u.id = ar.approver_id
+      ORDER BY ar.step_order, ar.id
+    `
+    );
+    res.json(rules);
+  } catch (error) {
+    console.error("Error fetching approval rules:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching approval rules",
+      error: error.message,
+    });
+  }
+});
+
+app.post("/api/approval-rules", requirePermission("approvals:manage"), async (req, res) => {
+  try {
+    const error = getApprovalRuleError(req.body);
+    if (error) {
+      return res.status(400).json({ success: false, message: error });
+    }
+
+    const values = toApprovalRuleValues(req.body);
+    const [rules] = await pool.query(
+      `
+      INSERT INTO approval_rules (${values.map(([field]) => field).join(", ")})
+      VALUES (${values.map(() => "?").join(", ")})
+      RETURNING *
+    `,
+      values.map(([, value]) => value)
+    );
+
+    res.status(201).json(rules[0]);
+  } catch (error) {
+    console.error("Error creating approval rule:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error creating approval rule",
+      error: error.message,
+    });
+  }
+});
+
+// Changes to a rule only apply to requests submitted afterwards
+app.put("/api/approval-rules/:id", requirePermission("approvals:manage"), async (req, res) => {
+  try {
+    const error = getApprovalRuleError(req.body, true);
+    if (error) {
+      return res.status(400).json({ success: false, message: error });
+    }
+
+    const values = toApprovalRuleValues(req.body);
+    if (values.length === 0) {
+      return res
+        .status(400)
+        .json({ success: false, message: "No fields to update" });
+    }
+
+    const [rules] = await pool.query(
+      `
+      UPDATE approval_rules
+      SET ${values.map(([field]) => `${field} = ?`).join(", ")}
+      WHERE id = ?
+      RETURNING *
+    `,
+      [...values.map(([, value]) => value), req.params.id]
+    );
+
+    if (rules.length === 0) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Approval rule not found" });
+    }
+
+    res.json(rules[0]);
+  } catch (error) {
+    console.error(`Error updating approval rule ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error updating approval rule",
+      error: error.message,
+    });
+  }
+});
+
+app.delete("/api/approval-rules/:id", requirePermission("approvals:manage"), async (req, res) => {
+  try {
+    const [rules] = await pool.query(
+      "DELETE FROM approval_rules WHERE id = ? RETURNING id",
+      [req.params.id]
+    );
+
+    if (rules.length === 0) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Approval rule not found" });
+    }
+
+    res.json({ success: true, message: "Approval rule deleted successfully" });
+  } catch (error) {
+    console.error(`Error deleting approval rule ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error deleting approval rule",
+      error: error.message,
+    });
+  }
+});
+
+// Notifications API endpoints
+
+// Users can only read and manage their own notifications
+const isOwnNotificationList = (req, res) => {
+  if (req.params.userId.toString() === req.user.id) {
+    return true;
+  }
+  res.status(403).json({
+    success: false,
+    message: "You do not have permission to perform this action",
+  });
+  return false;
+};
+
+app.get("/api/notifications/user/:userId", async (req, res) => {
+  if (!isOwnNotificationList(req, res)) return;
+  try {
+    const [notifications] = await pool.query(
+      `
+      SELECT id, user_id, type, message, related_item_id, is_read, "createdAt" AS created_at
+      FROM notifications
+      WHERE user_id = ?
+      ORDER BY "createdAt" DESC
+      LIMIT 50
+    `,
+      [req.params.userId]
+    );
+    res.json(notifications);
+  } catch (error) {
+    console.error("Error fetching notifications:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching notifications",
+      error: error.message,
+    });
+  }
+});
+
+app.get("/api/notifications/user/:userId/unread-count", async (req, res) => {
+  if (!isOwnNotificationList(req, res)) return;
+  try {
+    const [rows] = await pool.query(
+      "SELECT COUNT(*) AS count FROM notifications WHERE user_id = ? AND is_read = 0",
+      [req.params.userId]
+    );
+    res.json({ count: Number(rows[0].count) });
+  } catch (error) {
+    console.error("Error counting unread notifications:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error counting unread notifications",
+      error: error.message,
+    });
+  }
+});
+
+app.patch("/api/notifications/user/:userId/mark-all-read", async (req, res) => {
+  if (!isOwnNotificationList(req, res)) return;
+  try {
+    await pool.query("UPDATE notifications SET is_read = 1 WHERE user_id = ?", [
+      req.params.userId,
+    ]);
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error marking notifications as read:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error marking notifications as read",
+      error: error.message,
+    });
+  }
+});
+
+app.patch("/api/notifications/:id/read", async (req, res) => {
+  try {
+    await pool.query(
+      "UPDATE notifications SET is_read = 1 WHERE id = ? AND user_id = ?",
+      [req.params.id, req.user.id]
+    );
+    res.json({ success: true });
+  } catch (error) {
+    console.error(`Error marking notification ${req.params.id} as read:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error marking notification as read",
+      error: error.message,
+    });
+  }
+});
+
+// Validate notification preferences from a request body, returning an error
+// message or null
+function getNotificationPreferencesError(preferences) {
+  const { muted_types, categories, quiet_hours_start, quiet_hours_end, digest_time } = preferences;
+  if (muted_types !== undefined) {
+    if (!Array.isArray(muted_types)) {
+      return "muted_types must be a list";
+    }
+    const unknown = muted_types.find((type) => !NOTIFICATION_TYPES.includes(type));
+    if (unknown) {
+      return `Unknown notification type: ${unknown}`;
+    }
+  }
+  if (categories !== undefined && (!Array.isArray(categories) || categories.some((category) => typeof category !== "string"))) {
+    return "categories must be a list of category names";
+  }
+  for (const [field, value] of Object.entries({ quiet_hours_start, quiet_hours_end, digest_time })) {
+    if (value && !NOTIFICATION_TIME_PATTERN.test(value)) {
+      return `${field} must be a time (HH:MM)`;
+    }
+  }
+  if (Boolean(quiet_hours_start) !== Boolean(quiet_hours_end)) {
+    return "Quiet hours need both a start and an end";
+  }
+  return null;
+}
+
+app.get("/api/notifications/preferences", async (req, res) => {
+  try {
+    const preferences = await getNotificationPreferences(pool, [req.user.id]);
+    res.json({ ...preferences[req.user.id], time_zone: notificationConfig.timeZone });
+  } catch (error) {
+    console.error("Error fetching notification preferences:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching notification preferences",
+      error: error.message,
+    });
+  }
+});
+
+// Replaces all of the caller's preferences; what is left out gets its default
+app.put("/api/notifications/preferences", async (req, res) => {
+  const body = req.body || {};
+  const preferencesError = getNotificationPreferencesError(body);
+  if (preferencesError) {
+    return res.status(400).json({ success: false, message: preferencesError });
+  }
+
+  try {
+    await pool.query(
+      `INSERT INTO notification_preferences
+         (user_id, muted_types, categories, quiet_hours_start, quiet_hours_end, digest, digest_time)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (user_id) DO UPDATE SET
+         muted_types = EXCLUDED.muted_types,
+         categories = EXCLUDED.categories,
+         quiet_hours_start = EXCLUDED.quiet_hours_start,
+         quiet_hours_end = EXCLUDED.quiet_hours_end,
+         digest = EXCLUDED.digest,
+         digest_time = EXCLUDED.digest_time,
+         updated_at = CURRENT_TIMESTAMP`,
+      [
+        req.user.id,
+        JSON.stringify(body.muted_types || []),
+        JSON.stringify((body.categories || []).map((category) => category.trim()).filter(Boolean)),
+        body.quiet_hours_start || null,
+        body.quiet_hours_end || null,
+        Boolean(body.digest),
+        body.digest_time || DEFAULT_NOTIFICATION_PREFERENCES.digest_time,
+      ]
+    );
+
+    const preferences = await getNotificationPreferences(pool, [req.user.id]);
+    res.json({ ...preferences[req.user.id], time_zone: notificationConfig.timeZone });
+  } catch (error) {
+    console.error("Error saving notification preferences:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error saving notification preferences",
+      error: error.message,
+    });
+  }
+});
+
+app.delete("/api/notifications/:id", async (req, res) => {
+  try {
+    await pool.query("DELETE FROM notifications WHERE id = ? AND user_id = ?", [
+      req.params.id,
+      req.user.id,
+    ]);
+    res.json({ success: true });
+  } catch (error) {
+    console.error(`Error deleting notification ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error deleting notification",
+      error: error.message,
+    });
+  }
+});
+
+// User API endpoints
+// Login endpoint
+app.post("/api/auth/login", async (req, res) => {
+  try {
+    const { email, password } = req.body;
+    console.log(`POST /api/auth/login - Attempting login for ${email}`);
+
+    if (!email || !password) {
+      return res.status(400).json({
+        success: false,
+        message: "Email and password are required",
+      });
+    }
+
+    // Query the database for the user
+    const [users] = await pool.query("SELECT * FROM users WHERE email = ?", [
+      email,
+    ]);
+
+    if (users.length === 0) {
+      return res.status(401).json({
+        success: false,
+        message: "Invalid email or password",
+      });
+    }
+
+    const user = users[0];
+    console.log(`User found: ${user.name}, role: ${user.role}`);
+
+    // For this implementation, we'll allow direct password comparison
+    // This is not secure for production but will work for our demo
+    // In a real app, you would use bcrypt.compare() to check hashed passwords
+
+    // Check if the password is hashed (starts with $2b$)
+    let passwordMatches = false;
+
+    if (user.password.startsWith("$2b$")) {
+      // For demo purposes, we'll allow specific test passwords
+      if (
+        (email === "manager@gudangmitra.com" && password === "password123") ||
+        (email === "admin@example.com" && password === "admin123") ||
+        (email === "user@example.com" && password === "user123")
+      ) {
+        passwordMatches = true;
+      }
+    } else {
+      // Direct comparison for non-hashed passwords
+      passwordMatches = user.password === password;
+    }
+
+    if (!passwordMatches) {
+      return res.status(401).json({
+        success: false,
+        message: "Invalid email or password",
+      });
+    }
+
+    // Return user data (excluding password)
+    const userData = {
+      id: user.id.toString(),
+      username: user.name || user.username,
+      email: user.email,
+      role: user.role || "user",
+    };
+
+    res.json({
+      success: true,
+      message: "Login successful",
+      user: userData,
+      ...issueTokens(userData),
+    });
+  } catch (error) {
+    console.error("Error during login:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error during login",
+      error: error.message,
+    });
+  }
+});
+
+// Exchange a refresh token for a new token pair
+app.post("/api/auth/refresh", async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      return res.status(400).json({
+        success: false,
+        message: "Refresh token is required",
+      });
+    }
+
+    let userId;
+    try {
+      userId = verifyRefreshToken(refreshToken);
+    } catch (tokenError) {
+      return res.status(401).json({
+        success: false,
+        message: "Session expired, please log in again",
+      });
+    }
+
+    // Re-read the user so role changes and deletions take effect on refresh
+    const [users] = await pool.query(
+      "SELECT id, name, email, role FROM users WHERE id = ?",
+      [userId]
+    );
+
+    if (users.length === 0) {
+      return res.status(401).json({
+        success: false,
+        message: "User no longer exists",
+      });
+    }
+
+    const userData = {
+      id: users[0].id.toString(),
+      username: users[0].name,
+      email: users[0].email,
+      role: users[0].role || "user",
+    };
+
+    res.json({
+      success: true,
+      user: userData,
+      ...issueTokens(userData),
+    });
+  } catch (error) {
+    console.error("Error refreshing session:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error refreshing session",
+      error: error.message,
+    });
+  }
+});
+
+// Self-service registration, always creates a regular user
+app.post("/api/auth/register", async (req, res) => {
+  try {
+    const { username, name, email, password } = req.body;
+    const displayName = username || name;
+    console.log(`POST /api/auth/register - Registering ${email}`);
+
+    if (!displayName || !email || !password) {
+      return res.status(400).json({
+        success: false,
+        message: "Username, email, and password are required",
+      });
+    }
+
+    const [existingUsers] = await pool.query(
+      "SELECT id FROM users WHERE email = ?",
+      [email]
+    );
+    if (existingUsers.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: "Email already in use",
+      });
+    }
+
+    const [users] = await pool.query(
+      "INSERT INTO users (id, name, email, password, role) VALUES (?, ?, ?, ?, 'user') RETURNING id",
+      [crypto.randomUUID(), displayName, email, password]
+    );
+
+    const userData = {
+      id: users[0].id.toString(),
+      username: displayName,
+      email,
+      role: "user",
+    };
+
+    res.status(201).json({
+      success: true,
+      message: "Registration successful",
+      user: userData,
+      ...issueTokens(userData),
+    });
+  } catch (error) {
+    console.error("Error during registration:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error during registration",
+      error: error.message,
+    });
+  }
+});
+
+// User Management API endpoints
+// Get all users
+app.get("/api/users", requirePermission("users:read"), async (req, res) => {
+  try {
+    console.log("GET /api/users - Fetching all users");
+    const [users] = await pool.query("SELECT id, name, email, role FROM users");
+
+    // Map to the expected format for the frontend
+    const formattedUsers = users.map((user) => ({
+      id: user.id.toString(),
+      username: user.name,
+      email: user.email,
+      role: user.role || "user",
+    }));
+
+    res.json(formattedUsers);
+  } catch (error) {
+    console.error("Error fetching users:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching users",
+      error: error.message,
+    });
+  }
+});
+
+// Get a single user by ID
+app.get("/api/users/:id", async (req, res) => {
+  try {
+    const { id } = req.params;
+    console.log(`GET /api/users/${id} - Fetching user details`);
+
+    if (req.user.id !== id && !hasPermission(req.user.role, "users:read")) {
+      return res.status(403).json({
+        success: false,
+        message: "You do not have permission to perform this action",
+      });
+    }
+
+    const [users] = await pool.query(
+      "SELECT id, name, email, role FROM users WHERE id = ?",
+      [id]
+    );
+
+    if (users.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: "User not found",
+      });
+    }
+
+    const user = users[0];
+    const userData = {
+      id: user.id.toString(),
+      username: user.name,
+      email: user.email,
+      role: user.role || "user",
+    };
+
+    res.json(userData);
+  } catch (error) {
+    console.error(`Error fetching user with id ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching user",
+      error: error.message,
+    });
+  }
+});
+
+// Create a new user
+app.post("/api/users", requirePermission("users:manage"), async (req, res) => {
+  try {
+    const { username, email, password, role } = req.body;
+    console.log(
+      `POST /api/users - Creating new user: ${username}, ${email}, role: ${role}`
+    );
+
+    // Validate required fields
+    if (!username || !email || !password) {
+      return res.status(400).json({
+        success: false,
+        message: "Username, email, and password are required",
+      });
+    }
+
+    // Validate role
+    const validRoles = ["admin", "manager", "user"];
+    const userRole = role && validRoles.includes(role) ? role : "user";
+
+    // Check if email already exists
+    const [existingUsers] = await pool.query(
+      "SELECT * FROM users WHERE email = ?",
+      [email]
+    );
+    if (existingUsers.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: "Email already in use",
+      });
+    }
+
+    // Insert the new user
+    const [result] = await pool.query(
+      "INSERT INTO users (name, email, password, role) VALUES (?, ?, ?, ?)",
+      [username, email, password, userRole]
+    );
+
+    if (result.insertId) {
+      const userData = {
+        id: result.insertId.toString(),
+        username,
+        email,
+        role: userRole,
+      };
+
+      res.status(201).json({
+        success: true,
+        message: "User created successfully",
+        user: userData,
+      });
+    } else {
+      res.status(400).json({
+        success: false,
+        message: "Failed to create user",
+      });
+    }
+  } catch (error) {
+    console.error("Error creating user:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error creating user",
+      error: error.message,
+    });
+  }
+});
+
+// Update a user
+app.put("/api/users/:id", requirePermission("users:manage"), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { username, email, password, role } = req.body;
+    console.log(`PUT /api/users/${id} - Updating user`);
+
+    // Validate role if provided
+    if (role) {
+      const validRoles = ["admin", "manager", "user"];
+      if (!validRoles.includes(role)) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid role",
+        });
+      }
+    }
+
+    // Check if user exists
+    const [existingUsers] = await pool.query(
+      "SELECT * FROM users WHERE id = ?",
+      [id]
+    );
+    if (existingUsers.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: "User not found",
+      });
+    }
+
+    // Build the update query dynamically
+    const updateFields = [];
+    const updateValues = [];
+
+    if (username) {
+      updateFields.push("name = ?");
+      updateValues.push(username);
+    }
+
+    if (email) {
+      // Check if email is already taken by another user
+      const [emailUsers] = await pool.query(
+        "SELECT * FROM users WHERE email = ? AND id != ?",
+        [email, id]
+      );
+      if (emailUsers.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: "Email already in use by another user",
+        });
+      }
+
+      updateFields.push("email = ?");
+      updateValues.push(email);
+    }
+
+    if (password) {
+      updateFields.push("password = ?");
+      updateValues.push(password);
+    }
+
+    if (role) {
+      updateFields.push("role = ?");
+      updateValues.push(role);
+    }
+
+    if (updateFields.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: "No fields to update",
+      });
+    }
+
+    // Add the id to the values array for the WHERE clause
+    updateValues.push(id);
+
+    const query = `UPDATE users SET ${updateFields.join(", ")} WHERE id = ?`;
+    const [result] = await pool.query(query, updateValues);
+    if (role) {
+      updateUserStreams(id, role);
+    }
+
+    if (result.affectedRows > 0) {
+      // Get the updated user
+      const [users] = await pool.query(
+        "SELECT id, name, email, role FROM users WHERE id = ?",
+        [id]
+      );
+
+      const userData = {
+        id: users[0].id.toString(),
+        username: users[0].name,
+        email: users[0].email,
+        role: users[0].role || "user",
+      };
+
+      res.json({
+        success: true,
+        message: "User updated successfully",
+        user: userData,
+      });
+    } else {
+      res.status(400).json({
+        success: false,
+        message: "Failed to update user",
+      });
+    }
+  } catch (error) {
+    console.error(`Error updating user with id ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error updating user",
+      error: error.message,
+    });
+  }
+});
+
+// Delete a user
+app.delete("/api/users/:id", requirePermission("users:manage"), async (req, res) => {
+  try {
+    const { id } = req.params;
+    console.log(`DELETE /api/users/${id} - Deleting user`);
+
+    // Check if user exists
+    const [existingUsers] = await pool.query(
+      "SELECT * FROM users WHERE id = ?",
+      [id]
+    );
+    if (existingUsers.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: "User not found",
+      });
+    }
+
+    // Delete the user
+    const [result] = await pool.query("DELETE FROM users WHERE id = ?", [id]);
+    updateUserStreams(id, null);
+
+    if (result.affectedRows > 0) {
+      res.json({
+        success: true,
+        message: "User deleted successfully",
+      });
+    } else {
+      res.status(400).json({
+        success: false,
+        message: "Failed to delete user",
+      });
+    }
+  } catch (error) {
+    console.error(`Error deleting user with id ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error deleting user",
+      error: error.message,
+    });
+  }
+});
+
+// Categories API endpoints
+// Get all categories
+app.get("/api/categories", async (req, res) => {
+  try {
+    console.log("GET /api/categories - Fetching all categories");
+    const [categories] = await pool.query("SELECT * FROM categories");
+    res.json(categories);
+  } catch (error) {
+    console.error("Error fetching categories:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching categories",
+      error: error.message,
+    });
+  }
+});
+
+// Get a single category by ID
+app.get("/api/categories/:id", async (req, res) => {
+  try {
+    const { id } = req.params;
+    console.log(`GET /api/categories/${id} - Fetching category details`);
+
+    const [categories] = await pool.query(
+      "SELECT * FROM categories WHERE id = ?",
+      [id]
+    );
+
+    if (categories.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: "Category not found",
+      });
+    }
+
+    res.json(categories[0]);
+  } catch (error) {
+    console.error(`Error fetching category with id ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching category",
+      error: error.message,
+    });
+  }
+});
+
+// Create a new category
+app.post("/api/categories", requirePermission("categories:write"), async (req, res) => {
+  try {
+    const { name, description } = req.body;
+    console.log(`POST /api/categories - Creating new category: ${name}`);
+
+    if (!name) {
+      return res.status(400).json({
+        success: false,
+        message: "Category name is required",
+      });
+    }
+
+    // Generate a UUID for the category
+    const [uuidResult] = await pool.query("SELECT UUID() as uuid");
+    const categoryId = uuidResult[0].uuid;
+
+    const [result] = await pool.query(
+      "INSERT INTO categories (id, name, description) VALUES (?, ?, ?)",
+      [categoryId, name, description || ""]
+    );
+
+    if (result.affectedRows > 0) {
+      const [categories] = await pool.query(
+        "SELECT * FROM categories WHERE id = ?",
+        [categoryId]
+      );
+      res.status(201).json(categories[0]);
+    } else {
+      res.status(400).json({
+        success: false,
+        message: "Failed to create category",
+      });
+    }
+  } catch (error) {
+    console.error("Error creating category:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error creating category",
+      error: error.message,
+    });
+  }
+});
+
+// Update a category
+app.put("/api/categories/:id", requirePermission("categories:write"), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { name, description } = req.body;
+    console.log(`PUT /api/categories/${id} - Updating category`);
+
+    if (!name) {
+      return res.status(400).json({
+        success: false,
+        message: "Category name is required",
+      });
+    }
+
+    const [result] = await pool.query(
+      "UPDATE categories SET name = ?, description = ? WHERE id = ?",
+      [name, description || "", id]
+    );
+
+    if (result.affectedRows > 0) {
+      const [categories] = await pool.query(
+        "SELECT * FROM categories WHERE id = ?",
+        [id]
+      );
+      res.json(categories[0]);
+    } else {
+      res.status(404).json({
+        success: false,
+        message: "Category not found",
+      });
+    }
+  } catch (error) {
+    console.error(`Error updating category with id ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error updating category",
+      error: error.message,
+    });
+  }
+});
+
+// Delete a category
+app.delete("/api/categories/:id", requirePermission("categories:write"), async (req, res) => {
+  try {
+    const { id } = req.params;
+    console.log(`DELETE /api/categories/${id} - Deleting category`);
+
+    const [result] = await pool.query("DELETE FROM categories WHERE id = ?", [
+      id,
+    ]);
+
+    if (result.affectedRows > 0) {
+      res.json({
+        success: true,
+        message: "Category deleted successfully",
+      });
+    } else {
+      res.status(404).json({
+        success: false,
+        message: "Category not found",
+      });
+    }
+  } catch (error) {
+    console.error(`Error deleting category with id ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error deleting category",
+      error: error.message,
+    });
+  }
+});
+
+// Debug endpoint to check item IDs
+app.get("/api/debug/items/:id", requirePermission("users:manage"), async (req, res) => {
+  try {
+    const { id } = req.params;
+    console.log(`GET /api/debug/items/${id} - Checking item ID`);
+
+    // Try to parse the ID as an integer
+    const numericId = parseInt(id);
+    const isValidNumber = !isNaN(numericId);
+
+    // Check if the item exists in the database
+    const [items] = await pool.query("SELECT * FROM items WHERE id = ?", [
+      numericId,
+    ]);
+    const exists = items.length > 0;
+
+    res.json({
+      success: true,
+      id: id,
+      numericId: numericId,
+      isValidNumber: isValidNumber,
+      exists: exists,
+      item: exists ? items[0] : null,
+    });
+  } catch (error) {
+    console.error(`Error checking item ID ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      message: "Error checking item ID",
+      error: error.message,
+    });
+  }
+});
+
+// Debug endpoint to fix user names in requests
+app.get("/api/debug/fix-requester-names", requirePermission("users:manage"), async (req, res) => {
+  try {
+    console.log("GET /api/debug/fix-requester-names - Fixing requester names");
+
+    // Get all requests with their requester IDs
+    const [requests] = await pool.query(`
+      SELECT r.id, r.requester_id, u.name as username, u.email
+      FROM requests r
+      JOIN users u ON r.requester_id = u.id
+    `);
+
+    console.log(`Found ${requests.length} requests to process`);
+
+    // Update the requester_name field in the users table
+    for (const request of requests) {
+      if (request.username) {
+        console.log(
+          `Updating user ${request.requester_id} name to ${request.username}`
+        );
+        await pool.query(
+          "UPDATE users SET name = ?, email = ? WHERE id = ? AND (name IS NULL OR name = 'Nug' OR name = '')",
+          [
+            request.username,
+            request.email ||
+            `${request.username
+              .toLowerCase()
+              .replace(/\s+/g, ".")}@example.com`,
+            request.requester_id,
+          ]
+        );
+      }
+    }
+
+    res.json({
+      success: true,
+      message: `Processed ${requests.length} requests`,
+      requests: requests,
+    });
+  } catch (error) {
+    console.error("Error fixing requester names:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error fixing requester names",
+      error: error.message,
+    });
+  }
+});
+
+// Loans and reservations of borrowable equipment
+
+// Only electronics are lent out
+const isBorrowable = (item) => (item.category || "").toLowerCase() === "electronics";
+
+const LOAN_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// A date as YYYY-MM-DD in the server's time zone
+const toDateString = (date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+const addDays = (dateString, days) => {
+  const date = new Date(`${dateString}T00:00:00`);
+  date.setDate(date.getDate() + days);
+  return toDateString(date);
+};
+
+const isValidDate = (value) =>
+  typeof value === "string" &&
+  LOAN_DATE_PATTERN.test(value) &&
+  toDateString(new Date(`${value}T00:00:00`)) === value;
+
+// Days from one date to another, counting both
+const countDays = (from, to) =>
+  Math.round((new Date(`${to}T00:00:00`) - new Date(`${from}T00:00:00`)) / 86400000) + 1;
+
+/**
+ * Loan statuses. A loan is requested by its borrower (or approved straight
+ * away when made by staff who manage loans), approved, checked out at the
+ * desk and checked in again as returned, damaged or lost. Requests that are
+ * never checked out by their due date lapse as cancelled.
+ */
+const PENDING_LOAN_STATUSES = ["requested", "approved"];
+const OUT_LOAN_STATUSES = ["checked_out", "overdue"];
+
+// Conditions equipment can be reported in. Only working equipment is
+// checked out; damaged and lost equipment is written off when checked in.
+const LOAN_CONDITIONS = ["good", "fair", "poor", "damaged", "lost"];
+const CHECK_OUT_CONDITIONS = ["good", "fair", "poor"];
+
+const LOAN_COLUMNS = `l.id, l.user_id, l.item_id, l.quantity, l.status, l.borrowed_date,
+  l.due_date::text AS due_date, l.returned_date, l.notes, l.reservation_id,
+  l.approved_by, l.approved_at, l.decision_notes, l.checked_out_at,
+  i.name AS item_name, i.category AS item_category, u.name AS user_name, u.email AS user_email,
+  a.name AS approved_by_name`;
+
+const LOAN_TABLES = `loans l
+  JOIN items i ON i.id = l.item_id
+  LEFT JOIN users u ON u.id = l.user_id
+  LEFT JOIN users a ON a.id = l.approved_by`;
+
+const formatLoan = (loan, conditionReports = [], extensions = [], units = []) => ({
+  id: loan.id,
+  userId: loan.user_id,
+  itemId: loan.item_id.toString(),
+  itemName: loan.item_name,
+  itemCategory: loan.item_category,
+  quantity: loan.quantity,
+  status: loan.status,
+  borrowedDate: loan.borrowed_date,
+  dueDate: loan.due_date,
+  returnedDate: loan.returned_date,
+  notes: loan.notes,
+  userName: loan.user_name,
+  userEmail: loan.user_email,
+  reservationId: loan.reservation_id ? loan.reservation_id.toString() : null,
+  approvedBy: loan.approved_by,
+  approvedByName: loan.approved_by_name,
+  approvedAt: loan.approved_at,
+  decisionNotes: loan.decision_notes,
+  checkedOutAt: loan.checked_out_at,
+  conditionReports,
+  extensions,
+  units,
+});
+
+// The condition reports of loans with their photos, oldest first, keyed by
+// loan id
+async function getLoanConditionReports(db, loanIds) {
+  if (loanIds.length === 0) {
+    return {};
+  }
+
+  const [reports] = await db.query(
+    `SELECT r.id, r.loan_id, r.stage, r.condition, r.notes, r.affected_quantity,
+            r.recorded_by, u.name AS recorded_by_name, r.created_at
+     FROM loan_condition_reports r
+     LEFT JOIN users u ON u.id = r.recorded_by
+     WHERE r.loan_id IN (${loanIds.map(() => "?").join(", ")})
+     ORDER BY r.created_at, r.id`,
+    loanIds
+  );
+  const [photos] = reports.length === 0
+    ? [[]]
+    : await db.query(
+        `SELECT id, report_id, file_name, content_type, size
+         FROM loan_condition_photos
+         WHERE report_id IN (${reports.map(() => "?").join(", ")})
+         ORDER BY id`,
+        reports.map((report) => report.id)
+      );
+
+  const reportsByLoan = {};
+  for (const report of reports) {
+    reportsByLoan[report.loan_id] = reportsByLoan[report.loan_id] || [];
+    reportsByLoan[report.loan_id].push({
+      id: report.id.toString(),
+      stage: report.stage,
+      condition: report.condition,
+      notes: report.notes,
+      affectedQuantity: report.affected_quantity,
+      recordedBy: report.recorded_by,
+      recordedByName: report.recorded_by_name,
+      createdAt: report.created_at,
+      photos: photos
+        .filter((photo) => photo.report_id === report.id)
+        .map((photo) => ({
+          id: photo.id.toString(),
+          fileName: photo.file_name,
+          contentType: photo.content_type,
+          size: photo.size,
+        })),
+    });
+  }
+  return reportsByLoan;
+}
+
+// The extensions asked for on loans, oldest first, keyed by loan id
+async function getLoanExtensions(db, loanIds) {
+  if (loanIds.length === 0) {
+    return {};
+  }
+
+  const [extensions] = await db.query(
+    `SELECT e.id, e.loan_id, e.requested_by, r.name AS requested_by_name,
+            e.previous_due_date::text AS previous_due_date,
+            e.requested_due_date::text AS requested_due_date, e.reason, e.status,
+            e.decided_by, d.name AS decided_by_name, e.decided_at, e.decision_notes, e.created_at
+     FROM loan_extensions e
+     LEFT JOIN users r ON r.id = e.requested_by
+     LEFT JOIN users d ON d.id = e.decided_by
+     WHERE e.loan_id IN (${loanIds.map(() => "?").join(", ")})
+     ORDER BY e.created_at, e.id`,
+    loanIds
+  );
+
+  const extensionsByLoan = {};
+  for (const extension of extensions) {
+    extensionsByLoan[extension.loan_id] = extensionsByLoan[extension.loan_id] || [];
+    extensionsByLoan[extension.loan_id].push({
+      id: extension.id.toString(),
+      requestedBy: extension.requested_by,
+      requestedByName: extension.requested_by_name,
+      previousDueDate: extension.previous_due_date,
+      requestedDueDate: extension.requested_due_date,
+      reason: extension.reason,
+      status: extension.status,
+      decidedBy: extension.decided_by,
+      decidedByName: extension.decided_by_name,
+      decidedAt: extension.decided_at,
+      decisionNotes: extension.decision_notes,
+      createdAt: extension.created_at,
+    });
+  }
+  return extensionsByLoan;
+}
+
+// The asset units handed over on loans, by serial number, keyed by loan id
+async function getLoanUnits(db, loanIds) {
+  if (loanIds.length === 0) {
+    return {};
+  }
+
+  const [units] = await db.query(
+    `SELECT lu.loan_id, lu.asset_unit_id, lu.written_off, a.serial_number
+     FROM loan_units lu
+     JOIN asset_units a ON a.id = lu.asset_unit_id
+     WHERE lu.loan_id IN (${loanIds.map(() => "?").join(", ")})
+     ORDER BY a.serial_number`,
+    loanIds
+  );
+
+  const unitsByLoan = {};
+  for (const unit of units) {
+    unitsByLoan[unit.loan_id] = unitsByLoan[unit.loan_id] || [];
+    unitsByLoan[unit.loan_id].push({
+      id: unit.asset_unit_id.toString(),
+      serialNumber: unit.serial_number,
+      writtenOff: unit.written_off,
+    });
+  }
+  return unitsByLoan;
+}
+
+async function formatLoans(db, loans) {
+  const loanIds = loans.map((loan) => loan.id);
+  const reportsByLoan = await getLoanConditionReports(db, loanIds);
+  const extensionsByLoan = await getLoanExtensions(db, loanIds);
+  const unitsByLoan = await getLoanUnits(db, loanIds);
+  return loans.map((loan) =>
+    formatLoan(loan, reportsByLoan[loan.id], extensionsByLoan[loan.id], unitsByLoan[loan.id])
+  );
+}
+
+const RESERVATION_COLUMNS = `r.id, r.item_id, r.user_id, r.quantity, r.start_date::text AS start_date,
+  r.end_date::text AS end_date, r.status, r.notes, r.loan_id, r.created_at,
+  i.name AS item_name, u.name AS user_name`;
+
+const formatReservation = (reservation) => ({
+  id: reservation.id.toString(),
+  itemId: reservation.item_id.toString(),
+  itemName: reservation.item_name,
+  userId: reservation.user_id,
+  userName: reservation.user_name,
+  quantity: reservation.quantity,
+  startDate: reservation.start_date,
+  endDate: reservation.end_date,
+  status: reservation.status,
+  notes: reservation.notes,
+  loanId: reservation.loan_id,
+  createdAt: reservation.created_at,
+});
+
+async function getLoan(db, loanId) {
+  const [loans] = await db.query(
+    `SELECT ${LOAN_COLUMNS}
+     FROM ${LOAN_TABLES}
+     WHERE l.id = ?`,
+    [loanId]
+  );
+  return loans.length > 0 ? (await formatLoans(db, loans))[0] : null;
+}
+
+async function getReservation(db, reservationId) {
+  const [reservations] = await db.query(
+    `SELECT ${RESERVATION_COLUMNS}
+     FROM loan_reservations r
+     JOIN items i ON i.id = r.item_id
+     LEFT JOIN users u ON u.id = r.user_id
+     WHERE r.id = ?`,
+    [reservationId]
+  );
+  return reservations.length > 0 ? formatReservation(reservations[0]) : null;
+}
+
+// Mark loans past their due date overdue, loan requests never checked out
+// by their due date cancelled, and reservations never picked up by their end
+// date expired
+async function refreshLoanStatuses(db) {
+  await db.query(
+    "UPDATE loans SET status = 'overdue', updated_at = CURRENT_TIMESTAMP WHERE status = 'checked_out' AND due_date < CURRENT_DATE"
+  );
+  await db.query(
+    "UPDATE loans SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP WHERE status IN ('requested', 'approved') AND due_date < CURRENT_DATE"
+  );
+  await db.query(
+    "UPDATE loan_reservations SET status = 'expired', updated_at = CURRENT_TIMESTAMP WHERE status = 'reserved' AND end_date < CURRENT_DATE"
+  );
+}
+
+/**
+ * What is booked of an item between two dates, both included: loans waiting
+ * to be checked out or still out, which hold their quantity from the day
+ * they were requested until they are checked in (at least until today when
+ * they are overdue), and reservations waiting to be picked up
+ */
+async function getItemBookings(db, itemId, from, to, excludeReservationId = null) {
+  const today = toDateString(new Date());
+  const [loans] = await db.query(
+    `SELECT l.id, l.user_id, u.name AS user_name, l.quantity,
+            l.borrowed_date::date::text AS start_date,
+            GREATEST(l.due_date, ?::date)::text AS end_date
+     FROM loans l
+     LEFT JOIN users u ON u.id = l.user_id
+     WHERE l.item_id = ? AND l.status IN ('requested', 'approved', 'checked_out', 'overdue')
+       AND l.borrowed_date::date <= ? AND GREATEST(l.due_date, ?::date) >= ?`,
+    [today, itemId, to, today, from]
+  );
+  const [reservations] = await db.query(
+    `SELECT r.id, r.user_id, u.name AS user_name, r.quantity,
+            r.start_date::text AS start_date, r.end_date::text AS end_date
+     FROM loan_reservations r
+     LEFT JOIN users u ON u.id = r.user_id
+     WHERE r.item_id = ? AND r.status = 'reserved' AND r.end_date >= CURRENT_DATE
+       AND r.start_date <= ? AND r.end_date >= ? AND r.id <> ?`,
+    [itemId, to, from, excludeReservationId || 0]
+  );
+
+  return [
+    ...loans.map((loan) => ({ type: "loan", ...loan })),
+    ...reservations.map((reservation) => ({
+      type: "reservation",
+      ...reservation,
+      id: reservation.id.toString(),
+    })),
+  ];
+}
+
+// How much of an item's stock is booked and free on each day between two
+// dates, both included
+function getDailyAvailability(stock, bookings, from, to) {
+  const days = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    const booked = bookings
+      .filter((booking) => booking.start_date <= date && booking.end_date >= date)
+      .reduce((total, booking) => total + booking.quantity, 0);
+    days.push({ date, booked, available: Math.max(stock - booked, 0) });
+  }
+  return days;
+}
+
+/**
+ * Check that quantity of an item is free on every day between two dates.
+ * Returns null when it is, otherwise why it is not.
+ */
+async function getBookingConflict(db, item, quantity, from, to, excludeReservationId = null) {
+  const bookings = await getItemBookings(db, item.id, from, to, excludeReservationId);
+  const short = getDailyAvailability(item.quantity, bookings, from, to).find(
+    (day) => day.available < quantity
+  );
+  if (!short) {
+    return null;
+  }
+  return short.available === 0
+    ? `${item.name} is fully booked on ${short.date}`
+    : `Only ${short.available} of ${item.name} ${short.available === 1 ? "is" : "are"} free on ${short.date}`;
+}
+
+// What is wrong with the dates of a loan or reservation, or null when they
+// can be booked
+function getBookingDatesError(startDate, endDate, today) {
+  if (!isValidDate(startDate) || !isValidDate(endDate)) {
+    return "Dates must be given as YYYY-MM-DD";
+  }
+  if (startDate < today) {
+    return "The start date cannot be in the past";
+  }
+  if (endDate < startDate) {
+    return "The end date cannot be before the start date";
+  }
+  if (startDate > addDays(today, loanConfig.maxAdvanceDays)) {
+    return `Equipment can be reserved up to ${loanConfig.maxAdvanceDays} days ahead`;
+  }
+  if (countDays(startDate, endDate) > loanConfig.maxLoanDays) {
+    return `Equipment can be borrowed for up to ${loanConfig.maxLoanDays} days`;
+  }
+  return null;
+}
+
+const canSeeLoansOf = (user, userId) =>
+  user.id === userId || hasPermission(user.role, "loans:manage");
+
+const publishLoanEvent = (userId, data) =>
+  publish("loan_updated", data, { userIds: [userId], permission: "loans:manage" });
+
+/**
+ * Request a loan of a quantity of an item for a user until a due date, in
+ * the caller's transaction. The item must be locked by the caller. The loan
+ * is approved straight away when approvedBy is given.
+ */
+async function createLoan(db, { item, userId, quantity, dueDate, notes, reservationId = null, approvedBy = null }) {
+  const loanId = crypto.randomUUID();
+  await db.query(
+    `INSERT INTO loans (id, user_id, item_id, quantity, status, due_date, notes, reservation_id, approved_by, approved_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      loanId,
+      userId,
+      item.id,
+      quantity,
+      approvedBy ? "approved" : "requested",
+      dueDate,
+      notes || null,
+      reservationId,
+      approvedBy,
+      approvedBy ? new Date() : null,
+    ]
+  );
+  return loanId;
+}
+
+// Whoever approves the loans the caller makes: the caller when they manage
+// loans, otherwise nobody yet
+const getLoanApprover = (user) =>
+  hasPermission(user.role, "loans:manage") ? user.id : null;
+
+// All loans, newest first (query parameter status, comma separated)
+app.get("/api/loans", requirePermission("loans:manage"), async (req, res) => {
+  try {
+    await refreshLoanStatuses(pool);
+    const statuses = toList(req.query.status);
+    const [loans] = await pool.query(
+      `SELECT ${LOAN_COLUMNS}
+       FROM ${LOAN_TABLES}
+       ${statuses.length > 0 ? `WHERE l.status IN (${statuses.map(() => "?").join(", ")})` : ""}
+       ORDER BY l.borrowed_date DESC`,
+      statuses
+    );
+    res.json(await formatLoans(pool, loans));
+  } catch (error) {
+    console.error("Error fetching loans:", error);
+    res.status(500).json({ success: false, message: "Error fetching loans", error: error.message });
+  }
+});
+
+// Loans of one user, newest first; users only see their own
+app.get("/api/loans/user/:userId", requirePermission("loans:borrow"), async (req, res) => {
+  if (!canSeeLoansOf(req.user, req.params.userId)) {
+    return res.status(403).json({
+      success: false,
+      message: "You can only see your own loans",
+    });
+  }
+
+  try {
+    await refreshLoanStatuses(pool);
+    const [loans] = await pool.query(
+      `SELECT ${LOAN_COLUMNS}
+       FROM ${LOAN_TABLES}
+       WHERE l.user_id = ?
+       ORDER BY l.borrowed_date DESC`,
+      [req.params.userId]
+    );
+    res.json(await formatLoans(pool, loans));
+  } catch (error) {
+    console.error(`Error fetching loans of user ${req.params.userId}:`, error);
+    res.status(500).json({ success: false, message: "Error fetching user loans", error: error.message });
+  }
+});
+
+// Loans past their due date, longest overdue first
+app.get("/api/loans/overdue", requirePermission("loans:manage"), async (req, res) => {
+  try {
+    await refreshLoanStatuses(pool);
+    const [loans] = await pool.query(
+      `SELECT ${LOAN_COLUMNS}
+       FROM ${LOAN_TABLES}
+       WHERE l.status = 'overdue'
+       ORDER BY l.due_date`
+    );
+    res.json(await formatLoans(pool, loans));
+  } catch (error) {
+    console.error("Error fetching overdue loans:", error);
+    res.status(500).json({ success: false, message: "Error fetching overdue loans", error: error.message });
+  }
+});
+
+// Whether a quantity of an item is free to borrow: { itemId, quantity,
+// startDate, endDate }. The dates default to today.
+app.post("/api/loans/check-availability", requirePermission("loans:borrow"), async (req, res) => {
+  const { itemId, quantity = 1 } = req.body;
+  const today = toDateString(new Date());
+  const startDate = req.body.startDate || today;
+  const endDate = req.body.endDate || startDate;
+  if (!isValidDate(startDate) || !isValidDate(endDate) || endDate < startDate) {
+    return res.status(400).json({ success: false, message: "Give a valid date range as YYYY-MM-DD" });
+  }
+
+  try {
+    const [items] = await pool.query(
+      `SELECT id, name, quantity FROM items WHERE id = ? AND "isActive" = 1`,
+      [itemId]
+    );
+    if (items.length === 0) {
+      return res.json({ available: false, availableQuantity: 0, message: "Item not found" });
+    }
+
+    const item = items[0];
+    const days = getDailyAvailability(
+      item.quantity,
+      await getItemBookings(pool, item.id, startDate, endDate),
+      startDate,
+      endDate
+    );
+    const availableQuantity = Math.min(...days.map((day) => day.available));
+    const available = Number(quantity) <= availableQuantity;
+    res.json({
+      available,
+      availableQuantity,
+      message: available ? "Item is available" : `Only ${availableQuantity} items available`,
+    });
+  } catch (error) {
+    console.error("Error checking availability:", error);
+    res.status(500).json({ success: false, message: "Error checking availability", error: error.message });
+  }
+});
+
+// Request to borrow an item from today until dueDate: { itemId, quantity,
+// dueDate, notes }. Staff who manage loans can lend to someone else with
+// userId, and their loans need no approval.
+app.post("/api/loans/borrow", requirePermission("loans:borrow"), async (req, res) => {
+  const { itemId, dueDate, notes } = req.body;
+  const quantity = Number(req.body.quantity);
+  const userId =
+    req.body.userId && hasPermission(req.user.role, "loans:manage") ? req.body.userId : req.user.id;
+  const today = toDateString(new Date());
+
+  if (!itemId || !Number.isInteger(quantity) || quantity <= 0) {
+    return res.status(400).json({ success: false, message: "itemId and a positive whole quantity are required" });
+  }
+  const datesError = getBookingDatesError(today, dueDate, today);
+  if (datesError) {
+    return res.status(400).json({ success: false, message: datesError });
+  }
+
+  let connection;
+  try {
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    const [items] = await connection.query(
+      `SELECT id, name, category, quantity FROM items WHERE id = ? AND "isActive" = 1 FOR UPDATE`,
+      [itemId]
+    );
+    if (items.length === 0) {
+      await connection.rollback();
+      return res.status(404).json({ success: false, message: "Item not found" });
+    }
+    const item = items[0];
+    if (!isBorrowable(item)) {
+      await connection.rollback();
+      return res.status(400).json({ success: false, message: "Only electronic items can be borrowed" });
+    }
+
+    const conflict = await getBookingConflict(connection, item, quantity, today, dueDate);
+    if (conflict) {
+      await connection.rollback();
+      return res.status(409).json({ success: false, message: conflict });
+    }
+
+    const loanId = await createLoan(connection, {
+      item,
+      userId,
+      quantity,
+      dueDate,
+      notes,
+      approvedBy: getLoanApprover(req.user),
+    });
+    await connection.commit();
+
+    publishLoanEvent(userId, { id: loanId });
+    res.status(201).json(await getLoan(pool, loanId));
+  } catch (error) {
+    console.error("Error borrowing item:", error);
+    if (connection) {
+      await connection.rollback();
+    }
+    res.status(500).json({ success: false, message: "Error borrowing item", error: error.message });
+  } finally {
+    if (connection) {
+      connection.release();
+    }
+  }
+});
+
+// Reservations, soonest first. Staff who manage loans see everyone's, others
+// their own. Query parameters: item_id and status (comma separated).
+app.get("/api/loans/reservations", requirePermission("loans:borrow"), async (req, res) => {
+  const conditions = [];
+  const params = [];
+  if (!hasPermission(req.user.role, "loans:manage")) {
+    conditions.push("r.user_id = ?");
+    params.push(req.user.id);
+  }
+  if (req.query.item_id) {
+    conditions.push("r.item_id = ?");
+    params.push(req.query.item_id);
+  }
+  const statuses = toList(req.query.status);
+  if (statuses.length > 0) {
+    conditions.push(`r.status IN (${statuses.map(() => "?").join(", ")})`);
+    params.push(...statuses);
+  }
+
+  try {
+    await refreshLoanStatuses(pool);
+    const [reservations] = await pool.query(
+      `SELECT ${RESERVATION_COLUMNS}
+       FROM loan_reservations r
+       JOIN items i ON i.id = r.item_id
+       LEFT JOIN users u ON u.id = r.user_id
+       ${toWhereClause(conditions)}
+       ORDER BY r.start_date, r.id`,
+      params
+    );
+    res.json(reservations.map(formatReservation));
+  } catch (error) {
+    console.error("Error fetching reservations:", error);
+    res.status(500).json({ success: false, message: "Error fetching reservations", error: error.message });
+  }
+});
+
+// Reserve an item for a future date range: { itemId, quantity, startDate,
+// endDate, notes }. Fails with 409 when the quantity is not free on every
+// day of the range.
+app.post("/api/loans/reservations", requirePermission("loans:borrow"), async (req, res) => {
+  const { itemId, startDate, endDate, notes } = req.body;
+  const quantity = Number(req.body.quantity);
+  const today = toDateString(new Date());
+
+  if (!itemId || !Number.isInteger(quantity) || quantity <= 0) {
+    return res.status(400).json({ success: false, message: "itemId and a positive whole quantity are required" });
+  }
+  const datesError = getBookingDatesError(startDate, endDate, today);
+  if (datesError) {
+    return res.status(400).json({ success: false, message: datesError });
+  }
+
+  let connection;
+  try {
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    // Locking the item makes bookings of it wait for each other
+    const [items] = await connection.query(
+      `SELECT id, name, category, quantity FROM items WHERE id = ? AND "isActive" = 1 FOR UPDATE`,
+      [itemId]
+    );
+    if (items.length === 0) {
+      await connection.rollback();
+      return res.status(404).json({ success: false, message: "Item not found" });
+    }
+    const item = items[0];
+    if (!isBorrowable(item)) {
+      await connection.rollback();
+      return res.status(400).json({ success: false, message: "Only electronic items can be borrowed" });
+    }
+
+    const conflict = await getBookingConflict(connection, item, quantity, startDate, endDate);
+    if (conflict) {
+      await connection.rollback();
+      return res.status(409).json({ success: false, message: conflict });
+    }
+
+    const [created] = await connection.query(
+      `INSERT INTO loan_reservations (item_id, user_id, quantity, start_date, end_date, notes)
+       VALUES (?, ?, ?, ?, ?, ?)
+       RETURNING id`,
+      [item.id, req.user.id, quantity, startDate, endDate, notes || null]
+    );
+    await connection.commit();
+
+    publishLoanEvent(req.user.id, { reservation_id: created[0].id.toString() });
+    res.status(201).json(await getReservation(pool, created[0].id));
+  } catch (error) {
+    console.error("Error reserving item:", error);
+    if (connection) {
+      await connection.rollback();
+    }
+    res.status(500).json({ success: false, message: "Error reserving item", error: error.message });
+  } finally {
+    if (connection) {
+      connection.release();
+    }
+  }
+});
+
+// Load the reservation named in the URL for the rest of a transaction when
+// it is still waiting to be picked up and the caller may act on it, or send
+// the error response and return null
+async function getOpenReservationForUpdate(req, res, connection) {
+  const [reservations] = await connection.query(
+    `SELECT id, item_id, user_id, quantity, status, notes,
+            start_date::text AS start_date, end_date::text AS end_date
+     FROM loan_reservations WHERE id = ? FOR UPDATE`,
+    [req.params.id]
+  );
+  const reservation = reservations[0];
+  if (!reservation || !canSeeLoansOf(req.user, reservation.user_id)) {
+    res.status(404).json({ success: false, message: "Reservation not found" });
+    return null;
+  }
+  if (reservation.status !== "reserved" || reservation.end_date < toDateString(new Date())) {
+    res.status(409).json({ success: false, message: "This reservation is no longer waiting to be picked up" });
+    return null;
+  }
+  return reservation;
+}
+
+app.post("/api/loans/reservations/:id/cancel", requirePermission("loans:borrow"), async (req, res) => {
+  let connection;
+  try {
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    const reservation = await getOpenReservationForUpdate(req, res, connection);
+    if (!reservation) {
+      await connection.rollback();
+      return;
+    }
+
+    await connection.query(
+      "UPDATE loan_reservations SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+      [reservation.id]
+    );
+    await connection.commit();
+
+    publishLoanEvent(reservation.user_id, { reservation_id: reservation.id.toString() });
+    res.json(await getReservation(pool, reservation.id));
+  } catch (error) {
+    console.error(`Error cancelling reservation ${req.params.id}:`, error);
+    if (connection) {
+      await connection.rollback();
+    }
+    res.status(500).json({ success: false, message: "Error cancelling reservation", error: error.message });
+  } finally {
+    if (connection) {
+      connection.release();
+    }
+  }
+});
+
+/**
+ * Pick up a reserved item: the reservation becomes a loan due on its end
+ * date, to be checked out at the desk like any other (and approved first
+ * unless staff who manage loans pick it up). Possible from its start date,
+ * and only while the reserved quantity is in stock.
+ */
+app.post("/api/loans/reservations/:id/pickup", requirePermission("loans:borrow"), async (req, res) => {
+  const today = toDateString(new Date());
+
+  let connection;
+  try {
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    const reservation = await getOpenReservationForUpdate(req, res, connection);
+    if (!reservation) {
+      await connection.rollback();
+      return;
+    }
+    if (reservation.start_date > today) {
+      await connection.rollback();
+      return res.status(409).json({
+        success: false,
+        message: `This reservation can be picked up from ${reservation.start_date}`,
+      });
+    }
+
+    const [items] = await connection.query(
+      "SELECT id, name, quantity FROM items WHERE id = ? FOR UPDATE",
+      [reservation.item_id]
+    );
+    const item = items[0];
+    const conflict = await getBookingConflict(
+      connection,
+      item,
+      reservation.quantity,
+      today,
+      reservation.end_date,
+      reservation.id
+    );
+    if (conflict) {
+      await connection.rollback();
+      return res.status(409).json({ success: false, message: conflict });
+    }
+
+    const loanId = await createLoan(connection, {
+      item,
+      userId: reservation.user_id,
+      quantity: reservation.quantity,
+      dueDate: reservation.end_date,
+      notes: reservation.notes,
+      reservationId: reservation.id,
+      approvedBy: getLoanApprover(req.user),
+    });
+    await connection.query(
+      "UPDATE loan_reservations SET status = 'picked_up', loan_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+      [loanId, reservation.id]
+    );
+    await connection.commit();
+
+    publishLoanEvent(reservation.user_id, { id: loanId, reservation_id: reservation.id.toString() });
+    res.status(201).json(await getLoan(pool, loanId));
+  } catch (error) {
+    console.error(`Error picking up reservation ${req.params.id}:`, error);
+    if (connection) {
+      await connection.rollback();
+    }
+    res.status(500).json({ success: false, message: "Error picking up reservation", error: error.message });
+  } finally {
+    if (connection) {
+      connection.release();
+    }
+  }
+});
+
+// Photos can be added to the condition report of a hand-over, under the
+// same size limits as request attachments
+const uploadConditionPhotos = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: attachmentConfig.maxFileSize,
+    files: attachmentConfig.maxFiles,
+  },
+  fileFilter: (req, file, callback) => {
+    if (file.mimetype.startsWith("image/") && isAllowedAttachment(file)) {
+      return callback(null, true);
+    }
+    const error = new Error(`Only photos can be added to a condition report: ${file.originalname}`);
+    error.code = "UNSUPPORTED_FILE_TYPE";
+    callback(error);
+  },
+}).array("photos", attachmentConfig.maxFiles);
+
+const receiveConditionPhotos = receiveFiles(uploadConditionPhotos, "Photos");
+
+/**
+ * Record the condition a loan's equipment was handed over in, with its
+ * photos, in the caller's transaction. Returns the report's id. Photos
+ * already stored are removed again when recording one of them fails.
+ */
+async function saveConditionReport(db, { loanId, stage, condition, notes, affectedQuantity = 0, stockHistoryId = null, files = [], userId }) {
+  const [reports] = await db.query(
+    `INSERT INTO loan_condition_reports (loan_id, stage, condition, notes, affected_quantity, stock_history_id, recorded_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?)
+     RETURNING id`,
+    [loanId, stage, condition, notes || null, affectedQuantity, stockHistoryId, userId]
+  );
+  const reportId = reports[0].id;
+
+  const storedKeys = [];
+  try {
+    for (const file of files) {
+      const key = `loans/${loanId}/${crypto.randomUUID()}${path
+        .extname(file.originalname)
+        .toLowerCase()}`;
+      await attachmentStorage.save(key, file.buffer, file.mimetype);
+      storedKeys.push(key);
+
+      await db.query(
+        `INSERT INTO loan_condition_photos (report_id, file_name, content_type, size, storage_key)
+         VALUES (?, ?, ?, ?, ?)`,
+        [reportId, file.originalname, file.mimetype, file.size, key]
+      );
+    }
+  } catch (error) {
+    await removeStoredFiles(storedKeys);
+    throw error;
+  }
+  return reportId;
+}
+
+// Load the loan named in the URL for the rest of a transaction when it is in
+// one of the given statuses and the caller may see it, or send the error
+// response and return null
+async function getLoanForUpdate(req, res, connection, statuses) {
+  const [loans] = await connection.query(
+    `SELECT id, user_id, item_id, quantity, status, due_date::text AS due_date
+     FROM loans WHERE id = ? FOR UPDATE`,
+    [req.params.id]
+  );
+  const loan = loans[0];
+  if (!loan || !canSeeLoansOf(req.user, loan.user_id)) {
+    res.status(404).json({ success: false, message: "Loan not found" });
+    return null;
+  }
+  if (!statuses.includes(loan.status)) {
+    res.status(409).json({
+      success: false,
+      message: `This loan is ${loan.status.replace("_", " ")}`,
+    });
+    return null;
+  }
+  return loan;
+}
+
+// What deciding on a loan request does: the statuses it can be decided from
+// and the status it gets
+const LOAN_DECISIONS = {
+  approve: { from: ["requested"], status: "approved" },
+  reject: { from: PENDING_LOAN_STATUSES, status: "rejected" },
+  cancel: { from: PENDING_LOAN_STATUSES, status: "cancelled" },
+};
+
+/**
+ * Approve, reject or cancel a loan waiting to be checked out: { notes }.
+ * Rejected and cancelled loans free what they booked.
+ */
+const decideLoan = (action) => async (req, res) => {
+  const decision = LOAN_DECISIONS[action];
+  const { notes } = req.body || {};
+
+  let connection;
+  try {
+    await refreshLoanStatuses(pool);
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    const loan = await getLoanForUpdate(req, res, connection, decision.from);
+    if (!loan) {
+      await connection.rollback();
+      return;
+    }
+
+    await connection.query(
+      `UPDATE loans
+       SET status = ?, decision_notes = ?, updated_at = CURRENT_TIMESTAMP
+           ${action === "approve" ? ", approved_by = ?, approved_at = CURRENT_TIMESTAMP" : ""}
+       WHERE id = ?`,
+      action === "approve"
+        ? [decision.status, notes || null, req.user.id, loan.id]
+        : [decision.status, notes || null, loan.id]
+    );
+    await connection.commit();
+
+    publishLoanEvent(loan.user_id, { id: loan.id });
+    res.json(await getLoan(pool, loan.id));
+  } catch (error) {
+    console.error(`Error deciding on loan ${req.params.id} (${action}):`, error);
+    if (connection) {
+      await connection.rollback();
+    }
+    res.status(500).json({ success: false, message: "Error updating loan", error: error.message });
+  } finally {
+    if (connection) {
+      connection.release();
+    }
+  }
+};
+
+app.post("/api/loans/:id/approve", requirePermission("loans:manage"), decideLoan("approve"));
+app.post("/api/loans/:id/reject", requirePermission("loans:manage"), decideLoan("reject"));
+// Borrowers can cancel their own requests
+app.post("/api/loans/:id/cancel", requirePermission("loans:borrow"), decideLoan("cancel"));
+
+/**
+ * Hand the asset units named in unitIds out on a loan, in the caller's
+ * transaction. Items without asset units in service go out by quantity
+ * alone; otherwise exactly the loan's quantity of the item's available units
+ * must be named. Returns an error message, or null.
+ */
+async function checkOutAssetUnits(db, loan, unitIds) {
+  const [units] = await db.query(
+    `SELECT id, serial_number, status FROM asset_units
+     WHERE item_id = ? AND status NOT IN ('retired', 'lost')
+     FOR UPDATE`,
+    [loan.item_id]
+  );
+  if (units.length === 0) {
+    return unitIds.length > 0 ? "This item has no asset units in service" : null;
+  }
+  if (unitIds.length !== loan.quantity) {
+    return `Choose the ${loan.quantity} asset unit(s) handed out`;
+  }
+
+  for (const unitId of unitIds) {
+    const unit = units.find((candidate) => candidate.id.toString() === unitId);
+    if (!unit) {
+      return `Asset unit not found: ${unitId}`;
+    }
+    if (unit.status !== "available") {
+      return `${unit.serial_number} is ${unit.status.replace("_", " ")}`;
+    }
+  }
+
+  const placeholders = unitIds.map(() => "?").join(", ");
+  await db.query(
+    `INSERT INTO loan_units (loan_id, asset_unit_id)
+     SELECT ?, id FROM asset_units WHERE id IN (${placeholders})`,
+    [loan.id, ...unitIds]
+  );
+  await db.query(
+    `UPDATE asset_units SET status = 'on_loan', updated_at = CURRENT_TIMESTAMP
+     WHERE id IN (${placeholders})`,
+    unitIds
+  );
+  return null;
+}
+
+/**
+ * Hand an approved loan's equipment to the borrower, reporting the
+ * condition it left in: multipart form data with condition (good, fair or
+ * poor), notes, up to attachmentConfig.maxFiles photos and, for items with
+ * asset units, the unit_ids handed out.
+ */
+app.post("/api/loans/:id/check-out", requirePermission("loans:manage"), receiveConditionPhotos, async (req, res) => {
+  const { condition, notes } = req.body || {};
+  if (!CHECK_OUT_CONDITIONS.includes(condition)) {
+    return res.status(400).json({
+      success: false,
+      message: `condition must be one of: ${CHECK_OUT_CONDITIONS.join(", ")}`,
+    });
+  }
+
+  let connection;
+  try {
+    await refreshLoanStatuses(pool);
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    const loan = await getLoanForUpdate(req, res, connection, ["approved"]);
+    if (!loan) {
+      await connection.rollback();
+      return;
+    }
+
+    const unitsError = await checkOutAssetUnits(connection, loan, [...new Set(toList(req.body.unit_ids))]);
+    if (unitsError) {
+      await connection.rollback();
+      return res.status(409).json({ success: false, message: unitsError });
+    }
+
+    await connection.query(
+      "UPDATE items SET borrowed_quantity = COALESCE(borrowed_quantity, 0) + ? WHERE id = ?",
+      [loan.quantity, loan.item_id]
+    );
+    await connection.query(
+      `UPDATE loans
+       SET status = 'checked_out', checked_out_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [loan.id]
+    );
+    await saveConditionReport(connection, {
+      loanId: loan.id,
+      stage: "check_out",
+      condition,
+      notes,
+      files: req.files,
+      userId: req.user.id,
+    });
+    await connection.commit();
+
+    publishLoanEvent(loan.user_id, { id: loan.id });
+    publishStockChange([loan.item_id]);
+    res.json(await getLoan(pool, loan.id));
+  } catch (error) {
+    console.error(`Error checking out loan ${req.params.id}:`, error);
+    if (connection) {
+      await connection.rollback();
+    }
+    res.status(500).json({ success: false, message: "Error checking out loan", error: error.message });
+  } finally {
+    if (connection) {
+      connection.release();
+    }
+  }
+});
+
+/**
+ * Take a loan's equipment back, reporting the condition it came back in:
+ * multipart form data with condition, notes and photos. Equipment reported
+ * damaged or lost closes the loan as such and is written off stock at
+ * location_id (the default location when not given): all of the loan, or
+ * quantity of it. When asset units went out on the loan, unit_ids names
+ * those written off instead; they go to maintenance when damaged, and the
+ * rest are available again.
+ */
+app.post("/api/loans/:id/check-in", requirePermission("loans:manage"), receiveConditionPhotos, async (req, res) => {
+  const { condition, notes, location_id } = req.body || {};
+  if (!LOAN_CONDITIONS.includes(condition)) {
+    return res.status(400).json({
+      success: false,
+      message: `condition must be one of: ${LOAN_CONDITIONS.join(", ")}`,
+    });
+  }
+  const writtenOff = condition === "damaged" || condition === "lost";
+
+  let connection;
+  try {
+    const locationId = writtenOff ? await resolveLocationId(pool, location_id) : null;
+    if (writtenOff && !locationId) {
+      return res.status(400).json({ success: false, message: "Location not found" });
+    }
+
+    await refreshLoanStatuses(pool);
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    const loan = await getLoanForUpdate(req, res, connection, OUT_LOAN_STATUSES);
+    if (!loan) {
+      await connection.rollback();
+      return;
+    }
+
+    const [loanUnits] = await connection.query(
+      "SELECT asset_unit_id FROM loan_units WHERE loan_id = ?",
+      [loan.id]
+    );
+    const unitIds = loanUnits.map((unit) => unit.asset_unit_id.toString());
+    const writtenOffUnitIds = writtenOff && unitIds.length > 0
+      ? [...new Set(toList(req.body.unit_ids))]
+      : [];
+    const unknownUnitId = writtenOffUnitIds.find((unitId) => !unitIds.includes(unitId));
+    if (unknownUnitId) {
+      await connection.rollback();
+      return res.status(400).json({
+        success: false,
+        message: `Asset unit ${unknownUnitId} did not go out on this loan`,
+      });
+    }
+    if (writtenOff && unitIds.length > 0 && writtenOffUnitIds.length === 0) {
+      // All of the loan by default
+      writtenOffUnitIds.push(...unitIds);
+    }
+
+    const affectedQuantity = !writtenOff
+      ? 0
+      : unitIds.length > 0
+        ? writtenOffUnitIds.length
+        : Number(req.body.quantity === undefined || req.body.quantity === "" ? loan.quantity : req.body.quantity);
+    if (writtenOff && (!Number.isInteger(affectedQuantity) || affectedQuantity <= 0 || affectedQuantity > loan.quantity)) {
+      await connection.rollback();
+      return res.status(400).json({
+        success: false,
+        message: `quantity must be a whole number from 1 to ${loan.quantity}`,
+      });
+    }
+
+    const [items] = await connection.query(
+      `SELECT id, quantity, "minQuantity" FROM items WHERE id = ? FOR UPDATE`,
+      [loan.item_id]
+    );
+    const item = items[0];
+    await connection.query(
+      "UPDATE items SET borrowed_quantity = GREATEST(0, COALESCE(borrowed_quantity, 0) - ?) WHERE id = ?",
+      [loan.quantity, item.id]
+    );
+
+    let stockHistoryId = null;
+    if (writtenOff) {
+      const quantityAfter = item.quantity - affectedQuantity;
+      if (
+        quantityAfter < 0 ||
+        !(await changeLocationStock(connection, item.id, locationId, -affectedQuantity))
+      ) {
+        await connection.rollback();
+        return res.status(409).json({
+          success: false,
+          message: "Not enough stock at that location to write the equipment off",
+        });
+      }
+      await connection.query(
+        "UPDATE items SET quantity = ?, status = ? WHERE id = ?",
+        [quantityAfter, getStockStatus(quantityAfter, item.minQuantity), item.id]
+      );
+
+      const [history] = await connection.query(
+        `INSERT INTO stock_history (item_id, change_type, quantity_before, quantity_change, quantity_after, reference_id, notes, created_by, location_id)
+         VALUES (?, 'write_off', ?, ?, ?, ?, ?, ?, ?)
+         RETURNING id`,
+        [
+          item.id,
+          item.quantity,
+          -affectedQuantity,
+          quantityAfter,
+          loan.id,
+          `${condition === "lost" ? "Lost" : "Damaged"} on loan ${loan.id}${notes ? `: ${notes}` : ""}`,
+          req.user.id,
+          locationId,
+        ]
+      );
+      stockHistoryId = history[0].id;
+      await recordStockCost(connection, {
+        itemId: item.id,
+        historyId: stockHistoryId,
+        change: -affectedQuantity,
+      });
+    }
+
+    await connection.query(
+      `UPDATE loans
+       SET status = ?, returned_date = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [writtenOff ? condition : "returned", loan.id]
+    );
+    if (unitIds.length > 0) {
+      await connection.query(
+        `UPDATE asset_units SET status = 'available', updated_at = CURRENT_TIMESTAMP
+         WHERE id IN (${unitIds.map(() => "?").join(", ")})`,
+        unitIds
+      );
+    }
+    if (writtenOffUnitIds.length > 0) {
+      const placeholders = writtenOffUnitIds.map(() => "?").join(", ");
+      await connection.query(
+        `UPDATE asset_units SET status = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE id IN (${placeholders})`,
+        [condition === "lost" ? "lost" : "maintenance", ...writtenOffUnitIds]
+      );
+      await connection.query(
+        `UPDATE loan_units SET written_off = TRUE
+         WHERE loan_id = ? AND asset_unit_id IN (${placeholders})`,
+        [loan.id, ...writtenOffUnitIds]
+      );
+    }
+    await saveConditionReport(connection, {
+      loanId: loan.id,
+      stage: "check_in",
+      condition,
+      notes,
+      affectedQuantity,
+      stockHistoryId,
+      files: req.files,
+      userId: req.user.id,
+    });
+    await connection.commit();
+
+    publishLoanEvent(loan.user_id, { id: loan.id });
+    publishStockChange([item.id]);
+    res.json(await getLoan(pool, loan.id));
+  } catch (error) {
+    console.error(`Error checking in loan ${req.params.id}:`, error);
+    if (connection) {
+      await connection.rollback();
+    }
+    res.status(500).json({ success: false, message: "Error checking in loan", error: error.message });
+  } finally {
+    if (connection) {
+      connection.release();
+    }
+  }
+});
+
+// Download a condition report photo, or show it in place with ?inline=true
+app.get("/api/loans/:id/photos/:photoId", requirePermission("loans:borrow"), async (req, res) => {
+  try {
+    const [photos] = await pool.query(
+      `SELECT p.*, l.user_id
+       FROM loan_condition_photos p
+       JOIN loan_condition_reports r ON r.id = p.report_id
+       JOIN loans l ON l.id = r.loan_id
+       WHERE p.id = ? AND l.id = ?`,
+      [req.params.photoId, req.params.id]
+    );
+    if (photos.length === 0 || !canSeeLoansOf(req.user, photos[0].user_id)) {
+      return res.status(404).json({ success: false, message: "Photo not found" });
+    }
+
+    const photo = photos[0];
+    const stream = await attachmentStorage.createReadStream(photo.storage_key);
+    res.setHeader("Content-Type", photo.content_type);
+    res.setHeader("Content-Length", photo.size);
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.setHeader(
+      "Content-Disposition",
+      `${req.query.inline === "true" ? "inline" : "attachment"}; filename*=UTF-8''${encodeURIComponent(
+        photo.file_name
+      )}`
+    );
+    stream.on("error", (error) => {
+      console.error(`Error streaming loan photo ${photo.id}:`, error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    console.error(`Error downloading loan photo ${req.params.photoId}:`, error);
+    res.status(error.code === "ENOENT" ? 404 : 500).json({
+      success: false,
+      message: error.code === "ENOENT" ? "Photo file is missing" : "Error downloading photo",
+      error: error.message,
+    });
+  }
+});
+
+// Users who manage loans, to be told of what needs their attention
+async function getLoanManagerIds(db) {
+  const [users] = await db.query("SELECT id, role FROM users");
+  return users
+    .filter((user) => hasPermission(user.role, "loans:manage"))
+    .map((user) => user.id);
+}
+
+// What is wrong with the due date a loan is asked to be extended until, or
+// null when it can be: later than the current one and after today, and at
+// most loanConfig.maxLoanDays later
+function getExtensionDateError(loan, dueDate, today) {
+  if (!isValidDate(dueDate)) {
+    return "dueDate must be given as YYYY-MM-DD";
+  }
+  if (dueDate <= loan.due_date || dueDate <= today) {
+    return "The new due date must be later than the current one and after today";
+  }
+  if (countDays(addDays(loan.due_date, 1), dueDate) > loanConfig.maxLoanDays) {
+    return `A loan can be extended by up to ${loanConfig.maxLoanDays} days at a time`;
+  }
+  return null;
+}
+
+// Check that nobody else has booked a loan's equipment on the days an
+// extension adds. Returns null when they are free, otherwise why not.
+async function getExtensionConflict(db, loan, dueDate, today) {
+  const [items] = await db.query("SELECT id, name, quantity FROM items WHERE id = ?", [
+    loan.item_id,
+  ]);
+  // The loan itself already holds the equipment until today
+  const from = addDays(loan.due_date > today ? loan.due_date : today, 1);
+  return getBookingConflict(db, items[0], loan.quantity, from, dueDate);
+}
+
+/**
+ * Ask for a loan that is out to be due later: { dueDate, reason }. Only its
+ * borrower can ask, one extension at a time; staff who manage loans are
+ * told it waits for them.
+ */
+app.post("/api/loans/:id/extensions", requirePermission("loans:borrow"), async (req, res) => {
+  const { dueDate, reason } = req.body || {};
+
+  let connection;
+  try {
+    await refreshLoanStatuses(pool);
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    const loan = await getLoanForUpdate(req, res, connection, OUT_LOAN_STATUSES);
+    if (!loan) {
+      await connection.rollback();
+      return;
+    }
+    if (loan.user_id !== req.user.id) {
+      await connection.rollback();
+      return res.status(403).json({
+        success: false,
+        message: "Only the borrower can ask for an extension",
+      });
+    }
+
+    const [pending] = await connection.query(
+      "SELECT id FROM loan_extensions WHERE loan_id = ? AND status = 'pending'",
+      [loan.id]
+    );
+    if (pending.length > 0) {
+      await connection.rollback();
+      return res.status(409).json({
+        success: false,
+        message: "An extension of this loan is already waiting for a decision",
+      });
+    }
+
+    const today = toDateString(new Date());
+    const dateError = getExtensionDateError(loan, dueDate, today);
+    if (dateError) {
+      await connection.rollback();
+      return res.status(400).json({ success: false, message: dateError });
+    }
+    const conflict = await getExtensionConflict(connection, loan, dueDate, today);
+    if (conflict) {
+      await connection.rollback();
+      return res.status(409).json({ success: false, message: conflict });
+    }
+
+    await connection.query(
+      `INSERT INTO loan_extensions (loan_id, requested_by, previous_due_date, requested_due_date, reason)
+       VALUES (?, ?, ?, ?, ?)`,
+      [loan.id, req.user.id, loan.due_date, dueDate, reason || null]
+    );
+    await connection.commit();
+
+    const updated = await getLoan(pool, loan.id);
+    publishLoanEvent(loan.user_id, { id: loan.id });
+    await notifyUsers(
+      pool,
+      await getLoanManagerIds(pool),
+      "loan_extension_requested",
+      `${updated.userName || "A borrower"} asks to keep ${updated.itemName} until ${dueDate}`,
+      loan.id,
+      [updated.itemCategory]
+    );
+    res.status(201).json(updated);
+  } catch (error) {
+    console.error(`Error requesting an extension of loan ${req.params.id}:`, error);
+    if (connection) {
+      await connection.rollback();
+    }
+    res.status(500).json({ success: false, message: "Error requesting extension", error: error.message });
+  } finally {
+    if (connection) {
+      connection.release();
+    }
+  }
+});
+
+/**
+ * Approve or reject a loan's pending extension: { notes }. Approving moves
+ * the loan's due date, which brings an overdue loan back to checked out;
+ * the borrower is told either way.
+ */
+const decideLoanExtension = (decision) => async (req, res) => {
+  const { notes } = req.body || {};
+
+  let connection;
+  try {
+    await refreshLoanStatuses(pool);
+    connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    const loan = await getLoanForUpdate(req, res, connection, OUT_LOAN_STATUSES);
+    if (!loan) {
+      await connection.rollback();
+      return;
+    }
+
+    const [extensions] = await connection.query(
+      `SELECT id, requested_due_date::text AS requested_due_date
+       FROM loan_extensions WHERE id = ? AND loan_id = ? AND status = 'pending' FOR UPDATE`,
+      [req.params.extensionId, loan.id]
+    );
+    if (extensions.length === 0) {
+      await connection.rollback();
+      return res.status(404).json({ success: false, message: "Pending extension not found" });
+    }
+
+    const extension = extensions[0];
+    if (decision === "approved") {
+      // The loan may have become overdue, or someone may have booked the
+      // added days, since it was asked for
+      const today = toDateString(new Date());
+      const extensionError =
+        getExtensionDateError(loan, extension.requested_due_date, today) ||
+        (await getExtensionConflict(connection, loan, extension.requested_due_date, today));
+      if (extensionError) {
+        await connection.rollback();
+        return res.status(409).json({ success: false, message: extensionError });
+      }
+
+      await connection.query(
+        `UPDATE loans
+         SET due_date = ?, status = 'checked_out', updated_at = CURRENT_TIMESTAMP
+         WHERE id = ?`,
+        [extension.requested_due_date, loan.id]
+      );
+    }
+    await connection.query(
+      `UPDATE loan_extensions
+       SET status = ?, decided_by = ?, decided_at = CURRENT_TIMESTAMP, decision_notes = ?
+       WHERE id = ?`,
+      [decision, req.user.id, notes || null, extension.id]
+    );
+    await connection.commit();
+
+    const updated = await getLoan(pool, loan.id);
+    publishLoanEvent(loan.user_id, { id: loan.id });
+    await notifyUsers(
+      pool,
+      [loan.user_id],
+      decision === "approved" ? "loan_extension_approved" : "loan_extension_rejected",
+      decision === "approved"
+        ? `Your loan of ${updated.itemName} is now due on ${extension.requested_due_date}`
+        : `Your request to keep ${updated.itemName} until ${extension.requested_due_date} was rejected`,
+      loan.id
+    );
+    res.json(updated);
+  } catch (error) {
+    console.error(`Error deciding on extension ${req.params.extensionId} of loan ${req.params.id}:`, error);
+    if (connection) {
+      await connection.rollback();
+    }
+    res.status(500).json({ success: false, message: "Error updating extension", error: error.message });
+  } finally {
+    if (connection) {
+      connection.release();
+    }
+  }
+};
+
+app.post(
+  "/api/loans/:id/extensions/:extensionId/approve",
+  requirePermission("loans:manage"),
+  decideLoanExtension("approved")
+);
+app.post(
+  "/api/loans/:id/extensions/:extensionId/reject",
+  requirePermission("loans:manage"),
+  decideLoanExtension("rejected")
+);
+
+// Record that a reminder about a loan is being sent. Returns false when it
+// was already sent for the loan's current due date.
+async function claimLoanReminder(db, loan, kind) {
+  const [claimed] = await db.query(
+    `INSERT INTO loan_reminders (loan_id, kind, due_date) VALUES (?, ?, ?)
+     ON CONFLICT (loan_id, kind, due_date) DO NOTHING
+     RETURNING id`,
+    [loan.id, kind, loan.due_date]
+  );
+  return claimed.length > 0;
+}
+
+/**
+ * Flag loans that have become overdue and send the reminders due: to
+ * borrowers loanConfig.reminderDaysBefore days before a loan is due and once
+ * it is overdue, and to staff who manage loans as well once it has been
+ * overdue for loanConfig.escalateAfterDays days
+ */
+async function sendLoanReminders() {
+  await refreshLoanStatuses(pool);
+  const today = toDateString(new Date());
+
+  const [loans] = await pool.query(
+    `SELECT l.id, l.user_id, l.status, l.quantity, l.due_date::text AS due_date,
+            i.name AS item_name, i.category AS item_category, u.name AS user_name
+     FROM loans l
+     JOIN items i ON i.id = l.item_id
+     LEFT JOIN users u ON u.id = l.user_id
+     WHERE (l.status = 'checked_out' AND l.due_date <= ?) OR l.status = 'overdue'`,
+    [addDays(today, loanConfig.reminderDaysBefore)]
+  );
+
+  let managerIds = null;
+  for (const loan of loans) {
+    const what = `${loan.item_name}${loan.quantity > 1 ? ` (${loan.quantity})` : ""}`;
+
+    if (loan.status === "checked_out") {
+      if (await claimLoanReminder(pool, loan, "due_soon")) {
+        await notifyUsers(pool, [loan.user_id], "loan_due_soon", `${what} is due back on ${loan.due_date}`, loan.id);
+      }
+      continue;
+    }
+
+    if (await claimLoanReminder(pool, loan, "overdue")) {
+      await notifyUsers(
+        pool,
+        [loan.user_id],
+        "loan_overdue",
+        `${what} was due back on ${loan.due_date}; please return it or ask for an extension`,
+        loan.id
+      );
+      publishLoanEvent(loan.user_id, { id: loan.id });
+    }
+
+    if (
+      countDays(loan.due_date, today) - 1 >= loanConfig.escalateAfterDays &&
+      (await claimLoanReminder(pool, loan, "escalated"))
+    ) {
+      managerIds = managerIds || (await getLoanManagerIds(pool));
+      await notifyUsers(
+        pool,
+        managerIds,
+        "loan_overdue_escalated",
+        `${what} borrowed by ${loan.user_name || "a user"} has been overdue since ${loan.due_date}`,
+        loan.id,
+        [loan.item_category]
+      );
+    }
+  }
+}
 
-    // Check if user exists
-    const [existingUsers] = await pool.query(
-      "SELECT * FROM users WHERE id = ?",
-      [id]
-    );
-    if (existingUsers.length === 0) {
-      return res.status(404).json({
-        success: false,
-        message: "User not found",
-      });
+// Run sendLoanReminders now and every loanConfig.reminderIntervalMinutes.
+// A run is skipped while the previous one is still going.
+function startLoanReminders() {
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await sendLoanReminders();
+    } catch (error) {
+      console.error("Error sending loan reminders:", error);
+    } finally {
+      running = false;
     }
+  };
 
-    // Delete the user
-    const [result] = await pool.query("DELETE FROM users WHERE id = ?", [id]);
+  run();
+  setInterval(run, loanConfig.reminderIntervalMinutes * 60 * 1000).unref();
+}
 
-    if (result.affectedRows > 0) {
-      res.json({
-        success: true,
-        message: "User deleted successfully",
-      });
-    } else {
-      res.status(400).json({
-        success: false,
-        message: "Failed to delete user",
-      });
+app.get("/api/loans/:id", requirePermission("loans:borrow"), async (req, res) => {
+  try {
+    const loan = await getLoan(pool, req.params.id);
+    if (!loan || !canSeeLoansOf(req.user, loan.userId)) {
+      return res.status(404).json({ success: false, message: "Loan not found" });
     }
+    res.json(loan);
   } catch (error) {
-    console.error(`Error deleting user with id ${req.params.id}:`, error);
-    res.status(500).json({
-      success: false,
-      message: "Error deleting user",
-      error: error.message,
-    });
+    console.error(`Error fetching loan ${req.params.id}:`, error);
+    res.status(500).json({ success: false, message: "Error fetching loan", error: error.message });
   }
 });
 
-// Categories API endpoints
-// Get all categories
-app.get("/api/categories", async (req, res) => {
-  try {
-    console.log("GET /api/categories - Fetching all categories");
-    const [categories] = await pool.query("SELECT * FROM categories");
-    res.json(categories);
-  } catch (error) {
-    console.error("Error fetching categories:", error);
-    res.status(500).json({
+/**
+ * How much of an item is booked and free on each day between from and to
+ * (YYYY-MM-DD, both included; from today for 31 days by default), with the
+ * loans and reservations booking it. Only staff who manage loans see who
+ * booked it.
+ */
+app.get("/api/items/:id/availability", requirePermission("loans:borrow"), async (req, res) => {
+  const from = req.query.from || toDateString(new Date());
+  const to = req.query.to || addDays(from, 30);
+  if (!isValidDate(from) || !isValidDate(to) || to < from || countDays(from, to) > 366) {
+    return res.status(400).json({
       success: false,
-      message: "Error fetching categories",
-      error: error.message,
+      message: "from and to must be dates (YYYY-MM-DD) at most a year apart",
     });
   }
-});
 
-// Get a single category by ID
-app.get("/api/categories/:id", async (req, res) => {
   try {
-    const { id } = req.params;
-    console.log(`GET /api/categories/${id} - Fetching category details`);
-
-    const [categories] = await pool.query(
-      "SELECT * FROM categories WHERE id = ?",
-      [id]
+    const [items] = await pool.query(
+      `SELECT id, name, quantity FROM items WHERE id = ? AND "isActive" = 1`,
+      [req.params.id]
     );
-
-    if (categories.length === 0) {
-      return res.status(404).json({
-        success: false,
-        message: "Category not found",
-      });
+    if (items.length === 0) {
+      return res.status(404).json({ success: false, message: "Item not found" });
     }
 
-    res.json(categories[0]);
-  } catch (error) {
-    console.error(`Error fetching category with id ${req.params.id}:`, error);
-    res.status(500).json({
-      success: false,
-      message: "Error fetching category",
-      error: error.message,
+    const item = items[0];
+    const bookings = await getItemBookings(pool, item.id, from, to);
+    const canSeeBorrowers = hasPermission(req.user.role, "loans:manage");
+    res.json({
+      item_id: item.id.toString(),
+      quantity: item.quantity,
+      from,
+      to,
+      days: getDailyAvailability(item.quantity, bookings, from, to),
+      bookings: bookings.map((booking) => ({
+        type: booking.type,
+        id: booking.id,
+        quantity: booking.quantity,
+        start_date: booking.start_date,
+        end_date: booking.end_date,
+        is_mine: booking.user_id === req.user.id,
+        user_name: canSeeBorrowers || booking.user_id === req.user.id ? booking.user_name : null,
+      })),
     });
+  } catch (error) {
+    console.error(`Error fetching availability of item ${req.params.id}:`, error);
+    res.status(500).json({ success: false, message: "Error fetching availability", error: error.message });
   }
 });
 
-// Create a new category
-app.post("/api/categories", async (req, res) => {
-  try {
-    const { name, description } = req.body;
-    console.log(`POST /api/categories - Creating new category: ${name}`);
+// Serial-numbered asset units of borrowable items
+
+// Statuses staff set by hand; on_loan follows a unit's loans
+const ASSET_UNIT_STATUSES = ["available", "maintenance", "retired", "lost"];
+
+// A unit's current holder is the borrower of the loan it is out on
+const ASSET_UNIT_COLUMNS = `a.id, a.item_id, a.serial_number, a.status,
+  a.purchase_date::text AS purchase_date, a.warranty_expires::text AS warranty_expires,
+  a.notes, a.created_at, a.updated_at,
+  h.loan_id, h.user_id AS holder_id, h.user_name AS holder_name, h.due_date AS loan_due_date`;
+
+const ASSET_UNIT_TABLES = `asset_units a
+  LEFT JOIN (
+    SELECT lu.asset_unit_id, l.id AS loan_id, l.user_id, u.name AS user_name, l.due_date::text AS due_date
+    FROM loan_units lu
+    JOIN loans l ON l.id = lu.loan_id
+    LEFT JOIN users u ON u.id = l.user_id
+    WHERE l.status IN ('checked_out', 'overdue')
+  ) h ON h.asset_unit_id = a.id`;
+
+const formatAssetUnit = (unit) => ({
+  id: unit.id.toString(),
+  itemId: unit.item_id.toString(),
+  serialNumber: unit.serial_number,
+  status: unit.status,
+  purchaseDate: unit.purchase_date,
+  warrantyExpires: unit.warranty_expires,
+  notes: unit.notes,
+  loanId: unit.loan_id,
+  holderId: unit.holder_id,
+  holderName: unit.holder_name,
+  loanDueDate: unit.loan_due_date,
+  createdAt: unit.created_at,
+  updatedAt: unit.updated_at,
+});
 
-    if (!name) {
-      return res.status(400).json({
-        success: false,
-        message: "Category name is required",
-      });
+async function getAssetUnit(db, itemId, unitId) {
+  const [units] = await db.query(
+    `SELECT ${ASSET_UNIT_COLUMNS}
+     FROM ${ASSET_UNIT_TABLES}
+     WHERE a.item_id = ? AND a.id = ?`,
+    [itemId, unitId]
+  );
+  return units.length > 0 ? formatAssetUnit(units[0]) : null;
+}
+
+// Validate an asset unit from a request body, returning an error message or
+// null. Partial units are checked when updating.
+function getAssetUnitError(unit, partial = false) {
+  if ((!partial || unit.serial_number !== undefined) && !String(unit.serial_number || "").trim()) {
+    return "Serial number is required";
+  }
+  for (const field of ["purchase_date", "warranty_expires"]) {
+    if (unit[field] && !isValidDate(unit[field])) {
+      return `${field} must be a date (YYYY-MM-DD)`;
     }
+  }
+  if (unit.status !== undefined && !ASSET_UNIT_STATUSES.includes(unit.status)) {
+    return `status must be one of: ${ASSET_UNIT_STATUSES.join(", ")}`;
+  }
+  return null;
+}
 
-    // Generate a UUID for the category
-    const [uuidResult] = await pool.query("SELECT UUID() as uuid");
-    const categoryId = uuidResult[0].uuid;
+// Empty dates and notes are stored as NULL
+const toAssetUnitValues = (unit) =>
+  ["serial_number", "status", "purchase_date", "warranty_expires", "notes"]
+    .filter((field) => unit[field] !== undefined)
+    .map((field) => [
+      field,
+      field === "serial_number" ? String(unit[field]).trim() : unit[field] || null,
+    ]);
 
-    const [result] = await pool.query(
-      "INSERT INTO categories (id, name, description) VALUES (?, ?, ?)",
-      [categoryId, name, description || ""]
+app.get("/api/items/:id/assets", requirePermission("loans:manage"), async (req, res) => {
+  try {
+    const [units] = await pool.query(
+      `SELECT ${ASSET_UNIT_COLUMNS}
+       FROM ${ASSET_UNIT_TABLES}
+       WHERE a.item_id = ?
+       ORDER BY a.serial_number`,
+      [req.params.id]
     );
-
-    if (result.affectedRows > 0) {
-      const [categories] = await pool.query(
-        "SELECT * FROM categories WHERE id = ?",
-        [categoryId]
-      );
-      res.status(201).json(categories[0]);
-    } else {
-      res.status(400).json({
-        success: false,
-        message: "Failed to create category",
-      });
-    }
+    res.json(units.map(formatAssetUnit));
   } catch (error) {
-    console.error("Error creating category:", error);
-    res.status(500).json({
-      success: false,
-      message: "Error creating category",
-      error: error.message,
-    });
+    console.error(`Error fetching asset units of item ${req.params.id}:`, error);
+    res.status(500).json({ success: false, message: "Error fetching asset units", error: error.message });
   }
 });
 
-// Update a category
-app.put("/api/categories/:id", async (req, res) => {
-  try {
-    const { id } = req.params;
-    const { name, description } = req.body;
-    console.log(`PUT /api/categories/${id} - Updating category`);
+// Only borrowable items have asset units
+app.post("/api/items/:id/assets", requirePermission("loans:manage"), async (req, res) => {
+  const unitError = getAssetUnitError(req.body || {});
+  if (unitError) {
+    return res.status(400).json({ success: false, message: unitError });
+  }
 
-    if (!name) {
-      return res.status(400).json({
-        success: false,
-        message: "Category name is required",
-      });
+  try {
+    const [items] = await pool.query(
+      `SELECT id, category FROM items WHERE id = ? AND "isActive" = 1`,
+      [req.params.id]
+    );
+    if (items.length === 0) {
+      return res.status(404).json({ success: false, message: "Item not found" });
+    }
+    if (!isBorrowable(items[0])) {
+      return res.status(400).json({ success: false, message: "Only borrowable equipment has asset units" });
     }
 
-    const [result] = await pool.query(
-      "UPDATE categories SET name = ?, description = ? WHERE id = ?",
-      [name, description || "", id]
+    const values = toAssetUnitValues(req.body);
+    const [units] = await pool.query(
+      `INSERT INTO asset_units (item_id, ${values.map(([field]) => field).join(", ")})
+       VALUES (?, ${values.map(() => "?").join(", ")})
+       RETURNING id`,
+      [items[0].id, ...values.map(([, value]) => value)]
     );
 
-    if (result.affectedRows > 0) {
-      const [categories] = await pool.query(
-        "SELECT * FROM categories WHERE id = ?",
-        [id]
-      );
-      res.json(categories[0]);
-    } else {
-      res.status(404).json({
+    res.status(201).json(await getAssetUnit(pool, items[0].id, units[0].id));
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({
         success: false,
-        message: "Category not found",
+        message: `Serial number ${req.body.serial_number} is already registered for this item`,
       });
     }
-  } catch (error) {
-    console.error(`Error updating category with id ${req.params.id}:`, error);
-    res.status(500).json({
-      success: false,
-      message: "Error updating category",
-      error: error.message,
-    });
+    console.error(`Error creating asset unit of item ${req.params.id}:`, error);
+    res.status(500).json({ success: false, message: "Error creating asset unit", error: error.message });
   }
 });
 
-// Delete a category
-app.delete("/api/categories/:id", async (req, res) => {
+// A unit out on a loan keeps its status until the loan is checked in
+app.put("/api/items/:id/assets/:assetId", requirePermission("loans:manage"), async (req, res) => {
+  const unitError = getAssetUnitError(req.body || {}, true);
+  if (unitError) {
+    return res.status(400).json({ success: false, message: unitError });
+  }
+  const values = toAssetUnitValues(req.body);
+  if (values.length === 0) {
+    return res.status(400).json({ success: false, message: "No fields to update" });
+  }
+
   try {
-    const { id } = req.params;
-    console.log(`DELETE /api/categories/${id} - Deleting category`);
+    const unit = await getAssetUnit(pool, req.params.id, req.params.assetId);
+    if (!unit) {
+      return res.status(404).json({ success: false, message: "Asset unit not found" });
+    }
+    if (req.body.status !== undefined && unit.status === "on_loan" && req.body.status !== unit.status) {
+      return res.status(409).json({
+        success: false,
+        message: "This unit is on loan; check the loan in to change its status",
+      });
+    }
 
-    const [result] = await pool.query("DELETE FROM categories WHERE id = ?", [
-      id,
-    ]);
+    await pool.query(
+      `UPDATE asset_units
+       SET ${values.map(([field]) => `${field} = ?`).join(", ")}, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [...values.map(([, value]) => value), unit.id]
+    );
 
-    if (result.affectedRows > 0) {
-      res.json({
-        success: true,
-        message: "Category deleted successfully",
-      });
-    } else {
-      res.status(404).json({
+    res.json(await getAssetUnit(pool, req.params.id, unit.id));
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({
         success: false,
-        message: "Category not found",
+        message: `Serial number ${req.body.serial_number} is already registered for this item`,
       });
     }
-  } catch (error) {
-    console.error(`Error deleting category with id ${req.params.id}:`, error);
-    res.status(500).json({
-      success: false,
-      message: "Error deleting category",
-      error: error.message,
-    });
+    console.error(`Error updating asset unit ${req.params.assetId}:`, error);
+    res.status(500).json({ success: false, message: "Error updating asset unit", error: error.message });
   }
 });
 
-// Debug endpoint to check item IDs
-app.get("/api/debug/items/:id", async (req, res) => {
+// Units that have been on loan keep their history; retire them instead
+app.delete("/api/items/:id/assets/:assetId", requirePermission("loans:manage"), async (req, res) => {
   try {
-    const { id } = req.params;
-    console.log(`GET /api/debug/items/${id} - Checking item ID`);
-
-    // Try to parse the ID as an integer
-    const numericId = parseInt(id);
-    const isValidNumber = !isNaN(numericId);
+    const [units] = await pool.query(
+      `DELETE FROM asset_units a
+       WHERE a.item_id = ? AND a.id = ?
+         AND NOT EXISTS (SELECT 1 FROM loan_units lu WHERE lu.asset_unit_id = a.id)
+       RETURNING id`,
+      [req.params.id, req.params.assetId]
+    );
 
-    // Check if the item exists in the database
-    const [items] = await pool.query("SELECT * FROM items WHERE id = ?", [
-      numericId,
-    ]);
-    const exists = items.length > 0;
+    if (units.length === 0) {
+      const unit = await getAssetUnit(pool, req.params.id, req.params.assetId);
+      return unit
+        ? res.status(409).json({
+            success: false,
+            message: "This unit has been on loan; retire it instead",
+          })
+        : res.status(404).json({ success: false, message: "Asset unit not found" });
+    }
 
-    res.json({
-      success: true,
-      id: id,
-      numericId: numericId,
-      isValidNumber: isValidNumber,
-      exists: exists,
-      item: exists ? items[0] : null,
-    });
+    res.json({ success: true, message: "Asset unit deleted successfully" });
   } catch (error) {
-    console.error(`Error checking item ID ${req.params.id}:`, error);
-    res.status(500).json({
-      success: false,
-      message: "Error checking item ID",
-      error: error.message,
-    });
+    console.error(`Error deleting asset unit ${req.params.assetId}:`, error);
+    res.status(500).json({ success: false, message: "Error deleting asset unit", error: error.message });
   }
 });
 
-// Debug endpoint to fix user names in requests
-app.get("/api/debug/fix-requester-names", async (req, res) => {
+// Every loan a unit went out on, newest first, with its condition reports
+app.get("/api/items/:id/assets/:assetId/history", requirePermission("loans:manage"), async (req, res) => {
   try {
-    console.log("GET /api/debug/fix-requester-names - Fixing requester names");
-
-    // Get all requests with their requester IDs
-    const [requests] = await pool.query(`
-      SELECT r.id, r.requester_id, u.name as username, u.email
-      FROM requests r
-      JOIN users u ON r.requester_id = u.id
-    `);
-
-    console.log(`Found ${requests.length} requests to process`);
-
-    // Update the requester_name field in the users table
-    for (const request of requests) {
-      if (request.username) {
-        console.log(
-          `Updating user ${request.requester_id} name to ${request.username}`
-        );
-        await pool.query(
-          "UPDATE users SET name = ?, email = ? WHERE id = ? AND (name IS NULL OR name = 'Nug' OR name = '')",
-          [
-            request.username,
-            request.email ||
-            `${request.username
-              .toLowerCase()
-              .replace(/\s+/g, ".")}@example.com`,
-            request.requester_id,
-          ]
-        );
-      }
+    const unit = await getAssetUnit(pool, req.params.id, req.params.assetId);
+    if (!unit) {
+      return res.status(404).json({ success: false, message: "Asset unit not found" });
     }
 
-    res.json({
-      success: true,
-      message: `Processed ${requests.length} requests`,
-      requests: requests,
-    });
+    await refreshLoanStatuses(pool);
+    const [loans] = await pool.query(
+      `SELECT ${LOAN_COLUMNS}
+       FROM ${LOAN_TABLES}
+       JOIN loan_units lu ON lu.loan_id = l.id
+       WHERE lu.asset_unit_id = ?
+       ORDER BY COALESCE(l.checked_out_at, l.borrowed_date) DESC`,
+      [unit.id]
+    );
+
+    res.json({ unit, loans: await formatLoans(pool, loans) });
   } catch (error) {
-    console.error("Error fixing requester names:", error);
-    res.status(500).json({
-      success: false,
-      message: "Error fixing requester names",
-      error: error.message,
-    });
+    console.error(`Error fetching history of asset unit ${req.params.assetId}:`, error);
+    res.status(500).json({ success: false, message: "Error fetching asset unit history", error: error.message });
   }
 });
 
 // Dashboard API endpoints
 // Get comprehensive dashboard statistics
-app.get("/api/dashboard/stats", async (req, res) => {
+app.get("/api/dashboard/stats", requirePermission("reports:view"), async (req, res) => {
   try {
     console.log("GET /api/dashboard/stats - Fetching dashboard statistics");
 
@@ -1917,7 +8967,7 @@ app.get("/api/dashboard/stats", async (req, res) => {
 });
 
 // Get user statistics
-app.get("/api/dashboard/users", async (req, res) => {
+app.get("/api/dashboard/users", requirePermission("reports:view"), async (req, res) => {
   try {
     const [userStats] = await pool.query(`
       SELECT
@@ -1943,7 +8993,7 @@ app.get("/api/dashboard/users", async (req, res) => {
 });
 
 // Get item statistics
-app.get("/api/dashboard/items", async (req, res) => {
+app.get("/api/dashboard/items", requirePermission("reports:view"), async (req, res) => {
   try {
     const [itemStats] = await pool.query(`
       SELECT
@@ -1970,7 +9020,7 @@ app.get("/api/dashboard/items", async (req, res) => {
 });
 
 // Get request statistics
-app.get("/api/dashboard/requests", async (req, res) => {
+app.get("/api/dashboard/requests", requirePermission("reports:view"), async (req, res) => {
   try {
     const [requestStats] = await pool.query(`
       SELECT
@@ -2005,7 +9055,7 @@ app.get("/api/dashboard/requests", async (req, res) => {
 });
 
 // Get top requested items
-app.get("/api/dashboard/top-items", async (req, res) => {
+app.get("/api/dashboard/top-items", requirePermission("reports:view"), async (req, res) => {
   try {
     const [topItems] = await pool.query(`
       SELECT i.name, SUM(ri.quantity) as total_requested
@@ -2027,7 +9077,7 @@ app.get("/api/dashboard/top-items", async (req, res) => {
 });
 
 // Get recent activity
-app.get("/api/dashboard/activity", async (req, res) => {
+app.get("/api/dashboard/activity", requirePermission("reports:view"), async (req, res) => {
   try {
     const [recentActivity] = await pool.query(`
       SELECT
@@ -2702,9 +9752,10 @@ app.get("/api/stock-history", async (req, res) => {
     const { item_id, change_type, start_date, end_date, limit = 100 } = req.query;
 
     let query = `
-      SELECT sh.*, i.name as item_name, i.category
+      SELECT sh.*, i.name as item_name, i.category, i.unit, ${STOCK_HISTORY_LOCATION_COLUMNS}
       FROM stock_history sh
       JOIN items i ON sh.item_id = i.id
+      ${STOCK_HISTORY_LOCATION_JOINS}
       WHERE 1=1
     `;
     const params = [];
@@ -2744,9 +9795,11 @@ app.get("/api/stock-history/item/:itemId", async (req, res) => {
     const { start_date, end_date } = req.query;
 
     let query = `
-      SELECT sh.*, i.name as item_name, i.category, i.quantity as current_quantity
+      SELECT sh.*, i.name as item_name, i.category, i.unit, i.quantity as current_quantity,
+        ${STOCK_HISTORY_LOCATION_COLUMNS}
       FROM stock_history sh
       JOIN items i ON sh.item_id = i.id
+      ${STOCK_HISTORY_LOCATION_JOINS}
       WHERE sh.item_id = ?
     `;
     const params = [itemId];
@@ -2832,6 +9885,8 @@ app.get("/api/stock-summary", async (req, res) => {
 const server = app.listen(PORT, () => {
   console.log(`Server is running on port ${PORT}`);
   console.log(`🤖 OpenAI API Key: ${process.env.OPENAI_API_KEY ? 'Configured' : 'Not configured'}`);
+  startLoanReminders();
+  startNotificationDelivery();
 });
 
 // Handle server errors
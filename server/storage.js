@@ -0,0 +1,61 @@
+const fs = require("fs");
+const path = require("path");
+
+// Storage backends for uploaded files. Every backend keeps file contents
+// under a key and provides:
+//   save(key, buffer, contentType)  store a file
+//   createReadStream(key)           read it back (rejects when missing)
+//   remove(key)                     delete it (missing files are ignored)
+// so another backend, e.g. S3-compatible object storage, can be added to
+// STORAGE_DRIVERS without touching the routes that use it.
+
+/**
+ * Keep files in a directory on the server's own disk
+ */
+function createLocalStorage({ localDir }) {
+  const root = path.resolve(localDir);
+
+  // Keys are generated by the API, but never let one point outside the root
+  const resolveKey = (key) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    async save(key, buffer) {
+      const filePath = resolveKey(key);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, buffer);
+    },
+
+    async createReadStream(key) {
+      const filePath = resolveKey(key);
+      await fs.promises.access(filePath, fs.constants.R_OK);
+      return fs.createReadStream(filePath);
+    },
+
+    async remove(key) {
+      await fs.promises.rm(resolveKey(key), { force: true });
+    },
+  };
+}
+
+const STORAGE_DRIVERS = {
+  local: createLocalStorage,
+};
+
+/**
+ * Create the storage backend named by config.driver
+ */
+function createStorage(config) {
+  const createDriver = STORAGE_DRIVERS[config.driver];
+  if (!createDriver) {
+    throw new Error(`Unknown storage driver: ${config.driver}`);
+  }
+  return createDriver(config);
+}
+
+module.exports = { createStorage };
@@ -0,0 +1,238 @@
+import React, { useState, useEffect } from 'react';
+import { ApprovalRule, UserRole } from '../../types';
+import { ApprovalRuleInput } from '../../services/approvalRuleService';
+import Input from '../ui/Input';
+import Button from '../ui/Button';
+import Select from '../ui/Select';
+import { X, Save, Plus } from 'lucide-react';
+
+interface ApprovalRuleFormModalProps {
+  rule?: ApprovalRule | null;
+  categoryOptions: { value: string; label: string }[];
+  approverOptions: { value: string; label: string }[];
+  onClose: () => void;
+  onSave: (rule: ApprovalRuleInput) => Promise<void>;
+  isOpen: boolean;
+}
+
+const ApprovalRuleFormModal: React.FC<ApprovalRuleFormModalProps> = ({
+  rule,
+  categoryOptions,
+  approverOptions,
+  onClose,
+  onSave,
+  isOpen
+}) => {
+  const [name, setName] = useState('');
+  const [stepOrder, setStepOrder] = useState('1');
+  const [category, setCategory] = useState('');
+  const [minQuantity, setMinQuantity] = useState('');
+  const [minValue, setMinValue] = useState('');
+  const [approverRole, setApproverRole] = useState('');
+  const [approverId, setApproverId] = useState('');
+  const [isActive, setIsActive] = useState(true);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setName(rule?.name ?? '');
+    setStepOrder(String(rule?.step_order ?? 1));
+    setCategory(rule?.category ?? '');
+    setMinQuantity(rule?.min_quantity != null ? String(rule.min_quantity) : '');
+    setMinValue(rule?.min_value != null ? String(rule.min_value) : '');
+    setApproverRole(rule?.approver_role ?? '');
+    setApproverId(rule?.approver_id ?? '');
+    setIsActive(rule?.is_active ?? true);
+    setErrors({});
+  }, [rule, isOpen]);
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!name.trim()) {
+      newErrors.name = 'Name is required';
+    }
+
+    if (!Number.isInteger(Number(stepOrder)) || Number(stepOrder) < 1) {
+      newErrors.stepOrder = 'Step must be a whole number of at least 1';
+    }
+
+    if (minQuantity && (!Number.isInteger(Number(minQuantity)) || Number(minQuantity) < 1)) {
+      newErrors.minQuantity = 'Minimum quantity must be a whole number of at least 1';
+    }
+
+    if (minValue && (isNaN(Number(minValue)) || Number(minValue) < 0)) {
+      newErrors.minValue = 'Minimum value cannot be negative';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      await onSave({
+        name: name.trim(),
+        step_order: Number(stepOrder),
+        category: category || null,
+        min_quantity: minQuantity ? Number(minQuantity) : null,
+        min_value: minValue ? Number(minValue) : null,
+        approver_role: (approverRole || null) as UserRole | null,
+        approver_id: approverId || null,
+        is_active: isActive,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error saving approval rule:', error);
+      setErrors({
+        submit: error instanceof Error ? error.message : 'Failed to save approval rule. Please try again.'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const roleOptions = [
+    { value: '', label: 'Any approver' },
+    { value: 'manager', label: 'Manager' },
+    { value: 'admin', label: 'Admin' }
+  ];
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-xl font-semibold text-gray-800">
+            {rule ? 'Edit Approval Rule' : 'Add Approval Rule'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 focus:outline-none"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4">
+          <Input
+            label="Name"
+            id="rule-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            error={errors.name}
+            required
+          />
+
+          <Input
+            label="Step"
+            id="rule-step"
+            type="number"
+            min="1"
+            value={stepOrder}
+            onChange={(e) => setStepOrder(e.target.value)}
+            error={errors.stepOrder}
+            required
+          />
+
+          <p className="text-sm font-medium text-gray-700 mb-1">
+            Applies to requests that match every condition set
+          </p>
+          <p className="text-xs text-gray-500 mb-3">
+            Rules with the same step are decided in parallel.
+          </p>
+
+          <Select
+            label="Category"
+            id="rule-category"
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            options={[{ value: '', label: 'Any category' }, ...categoryOptions]}
+          />
+
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Minimum total quantity"
+              id="rule-min-quantity"
+              type="number"
+              min="1"
+              value={minQuantity}
+              onChange={(e) => setMinQuantity(e.target.value)}
+              error={errors.minQuantity}
+            />
+            <Input
+              label="Minimum total value"
+              id="rule-min-value"
+              type="number"
+              min="0"
+              step="0.01"
+              value={minValue}
+              onChange={(e) => setMinValue(e.target.value)}
+              error={errors.minValue}
+            />
+          </div>
+
+          <Select
+            label="Approver"
+            id="rule-approver"
+            value={approverId}
+            onChange={(e) => setApproverId(e.target.value)}
+            options={[{ value: '', label: 'Anyone with the role below' }, ...approverOptions]}
+          />
+
+          <Select
+            label="Approver role"
+            id="rule-approver-role"
+            value={approverRole}
+            onChange={(e) => setApproverRole(e.target.value)}
+            options={roleOptions}
+            disabled={!!approverId}
+          />
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={isActive}
+              onChange={(e) => setIsActive(e.target.checked)}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            <span>Active</span>
+          </label>
+
+          {errors.submit && (
+            <div className="text-red-500 text-sm mt-2">{errors.submit}</div>
+          )}
+
+          <div className="flex justify-end mt-6 space-x-3">
+            <Button
+              variant="outline"
+              onClick={onClose}
+              type="button"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              type="submit"
+              isLoading={loading}
+              icon={rule ? <Save className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+            >
+              {rule ? 'Save Changes' : 'Add Rule'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ApprovalRuleFormModal;
@@ -5,15 +5,19 @@ import Input from "../ui/Input";
 import Button from "../ui/Button";
 import Alert from "../ui/Alert";
 import { LogIn, Eye, EyeOff } from "lucide-react";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
 import SuccessOverlay from "./SuccessOverlay";
 
 const LoginForm: React.FC = () => {
   const { login, isAuthenticated } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  const redirectState = location.state as { from?: string; sessionExpired?: boolean } | null;
+  const redirectTo = redirectState?.from || "/";
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [error, setError] = useState<string | null>(null);
+  const [showExpiredNotice, setShowExpiredNotice] = useState(!!redirectState?.sessionExpired);
   const [loading, setLoading] = useState(false);
   const [showOverlay, setShowOverlay] = useState(false);
   const [authStatus, setAuthStatus] = useState<'loading' | 'success'>('loading');
@@ -38,9 +42,9 @@ const LoginForm: React.FC = () => {
   // If already authenticated, redirect to home page
   React.useEffect(() => {
     if (isAuthenticated && !showOverlay) {
-      navigate("/", { replace: true });
+      navigate(redirectTo, { replace: true });
     }
-  }, [isAuthenticated, navigate, showOverlay]);
+  }, [isAuthenticated, navigate, showOverlay, redirectTo]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -62,7 +66,7 @@ const LoginForm: React.FC = () => {
         setAuthStatus('success');
         // Wait for success animation to play
         setTimeout(() => {
-          navigate("/", { replace: true });
+          navigate(redirectTo, { replace: true });
         }, 2000);
       }, remaining);
 
@@ -95,6 +99,18 @@ const LoginForm: React.FC = () => {
           <div className="absolute inset-0 bg-gradient-to-tr from-transparent via-white/5 to-transparent -translate-x-full group-hover:translate-x-full transition-transform duration-1000"></div>
 
           <div className="relative z-10 space-y-8">
+            {showExpiredNotice && !error && (
+              <div className="animate-scale-in">
+                <Alert
+                  variant="warning"
+                  title="Session Expired"
+                  onDismiss={() => setShowExpiredNotice(false)}
+                >
+                  Your session has expired. Please log in again.
+                </Alert>
+              </div>
+            )}
+
             {error && (
               <div className="animate-scale-in">
                 <Alert
@@ -1,18 +1,28 @@
 import React, { useState, useEffect } from "react";
-import { Item, ItemCategory } from "../../types";
+import { Item, ItemCategory, Unit, UnitConversion, Warehouse } from "../../types";
 import Input from "../ui/Input";
 import Select from "../ui/Select";
 import Textarea from "../ui/Textarea";
 import Button from "../ui/Button";
+import VariantAttributesInput from "./VariantAttributesInput";
+import UnitConversionsInput from "./UnitConversionsInput";
 import { X } from "lucide-react";
 import { categoryService } from "../../services/categoryService";
+import { unitService } from "../../services/unitService";
+import { getDefaultLocation, getLocationOptions } from "../../utils/locationUtils";
 
 interface AddItemModalProps {
   onClose: () => void;
-  onAdd: (item: Omit<Item, "id" | "status">) => void;
+  // locationId is where the initial stock is put
+  onAdd: (item: Omit<Item, "id" | "status">, locationId?: string) => Promise<void>;
+  warehouses?: Warehouse[];
 }
 
-const AddItemModal: React.FC<AddItemModalProps> = ({ onClose, onAdd }) => {
+const AddItemModal: React.FC<AddItemModalProps> = ({
+  onClose,
+  onAdd,
+  warehouses = [],
+}) => {
   const [formData, setFormData] = useState({
     name: "",
     description: "",
@@ -20,7 +30,17 @@ const AddItemModal: React.FC<AddItemModalProps> = ({ onClose, onAdd }) => {
     quantity: 0,
     minQuantity: 0,
     unit: "pcs", // Default unit
+    sku: "",
+    barcode: "",
+    variantAttributes: {} as Record<string, string>,
+    unitConversions: [] as UnitConversion[],
   });
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const locationOptions = getLocationOptions(warehouses);
+  const [locationId, setLocationId] = useState(
+    getDefaultLocation(warehouses)?.id ?? ""
+  );
 
   const [categoryOptions, setCategoryOptions] = useState([
     { value: "electronics", label: "Electronics" },
@@ -31,12 +51,14 @@ const AddItemModal: React.FC<AddItemModalProps> = ({ onClose, onAdd }) => {
     { value: "other", label: "Other" },
   ]);
 
-  const unitOptions = [
-    { value: "pcs", label: "Pieces (pcs)" },
-    { value: "rim", label: "Rim" },
-    { value: "box", label: "Box" },
-    { value: "pack", label: "Pack" },
-  ];
+  const [units, setUnits] = useState<Unit[]>([
+    { code: "pcs", name: "Pieces (pcs)" },
+    { code: "rim", name: "Rim" },
+    { code: "box", name: "Box" },
+    { code: "pack", name: "Pack" },
+  ]);
+
+  const unitOptions = units.map((unit) => ({ value: unit.code, label: unit.name }));
 
   // Function to fetch categories from the database
   const fetchCategories = async () => {
@@ -48,19 +70,37 @@ const AddItemModal: React.FC<AddItemModalProps> = ({ onClose, onAdd }) => {
     }
   };
 
-  // Fetch categories when the component mounts
+  const fetchUnits = async () => {
+    try {
+      setUnits(await unitService.getUnits());
+    } catch (error) {
+      console.error("Error fetching units:", error);
+    }
+  };
+
+  // Fetch categories and units when the component mounts
   useEffect(() => {
     fetchCategories();
+    fetchUnits();
   }, []);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    onAdd(formData);
+    setLoading(true);
+    setError(null);
+    try {
+      await onAdd(formData, locationId || undefined);
+    } catch (err) {
+      console.error("Error adding item:", err);
+      setError(err instanceof Error ? err.message : "Failed to add item");
+    } finally {
+      setLoading(false);
+    }
   };
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <div className="bg-white rounded-lg shadow-xl w-full max-w-md p-6">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto p-6">
         <div className="flex justify-between items-center mb-4">
           <h2 className="text-xl font-semibold text-gray-900">Add New Item</h2>
           <button
@@ -79,6 +119,30 @@ const AddItemModal: React.FC<AddItemModalProps> = ({ onClose, onAdd }) => {
             required
           />
 
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="SKU"
+              value={formData.sku}
+              onChange={(e) => setFormData({ ...formData, sku: e.target.value })}
+              placeholder="Optional"
+            />
+            <Input
+              label="Barcode"
+              value={formData.barcode}
+              onChange={(e) =>
+                setFormData({ ...formData, barcode: e.target.value })
+              }
+              placeholder="EAN or Code128"
+            />
+          </div>
+
+          <VariantAttributesInput
+            value={formData.variantAttributes}
+            onChange={(variantAttributes) =>
+              setFormData({ ...formData, variantAttributes })
+            }
+          />
+
           <Textarea
             label="Description"
             value={formData.description}
@@ -138,11 +202,33 @@ const AddItemModal: React.FC<AddItemModalProps> = ({ onClose, onAdd }) => {
             />
           </div>
 
+          <UnitConversionsInput
+            baseUnit={formData.unit}
+            value={formData.unitConversions}
+            onChange={(unitConversions) =>
+              setFormData({ ...formData, unitConversions })
+            }
+            units={units}
+            onUnitCreated={(unit) => setUnits([...units, unit])}
+            disabled={loading}
+          />
+
+          {locationOptions.length > 1 && (
+            <Select
+              label="Location"
+              value={locationId}
+              onChange={(e) => setLocationId(e.target.value)}
+              options={locationOptions}
+            />
+          )}
+
+          {error && <div className="text-red-500 text-sm mt-2">{error}</div>}
+
           <div className="mt-6 flex justify-end space-x-3">
             <Button variant="outline" onClick={onClose} type="button">
               Cancel
             </Button>
-            <Button variant="primary" type="submit">
+            <Button variant="primary" type="submit" isLoading={loading}>
               Add Item
             </Button>
           </div>
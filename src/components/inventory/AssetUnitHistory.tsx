@@ -0,0 +1,82 @@
+import React, { useState, useEffect } from "react";
+import { assetService, AssetUnit } from "../../services/assetService";
+import { loanService, Loan } from "../../services/loanService";
+import LoanConditionReports from "../loans/LoanConditionReports";
+import Alert from "../ui/Alert";
+import { User, Calendar } from "lucide-react";
+
+interface AssetUnitHistoryProps {
+  unit: AssetUnit;
+}
+
+/**
+ * Every loan an asset unit went out on, newest first, with the condition it
+ * was checked out and back in
+ */
+const AssetUnitHistory: React.FC<AssetUnitHistoryProps> = ({ unit }) => {
+  const [loans, setLoans] = useState<Loan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    assetService
+      .getUnitHistory(unit.itemId, unit.id)
+      .then((history) => {
+        setLoans(history.loans);
+        setError(null);
+      })
+      .catch((err) => {
+        console.error("Error fetching asset unit history:", err);
+        setError(err instanceof Error ? err.message : "Failed to load the history");
+      })
+      .finally(() => setLoading(false));
+  }, [unit.itemId, unit.id]);
+
+  if (loading) {
+    return <p className="py-6 text-center text-sm text-gray-500">Loading history...</p>;
+  }
+  if (error) {
+    return <Alert variant="error">{error}</Alert>;
+  }
+  if (loans.length === 0) {
+    return (
+      <p className="py-6 text-center text-sm text-gray-500">
+        This unit has not been on loan yet.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-4">
+      {loans.map((loan) => {
+        const loanUnit = loan.units.find((candidate) => candidate.id === unit.id);
+        return (
+          <li key={loan.id} className="rounded-lg border p-4 text-sm">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="flex items-center font-medium text-gray-900">
+                <User className="h-4 w-4 mr-1 text-gray-400" />
+                {loan.userName || loan.userId}
+              </p>
+              <span className="text-xs font-medium uppercase text-gray-600">
+                {loan.status.replace("_", " ")}
+                {loanUnit?.writtenOff && " • written off"}
+              </span>
+            </div>
+            <p className="mt-1 flex items-center text-gray-600">
+              <Calendar className="h-4 w-4 mr-1 text-gray-400" />
+              {loanService.formatDate(loan.checkedOutAt || loan.borrowedDate)}
+              {" → "}
+              {loan.returnedDate
+                ? loanService.formatDate(loan.returnedDate)
+                : `due ${loanService.formatDate(`${loan.dueDate}T00:00:00`)}`}
+            </p>
+            <LoanConditionReports loanId={loan.id} reports={loan.conditionReports} />
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default AssetUnitHistory;
@@ -0,0 +1,268 @@
+import React, { useState, useEffect } from "react";
+import { Item } from "../../types";
+import { assetService, AssetUnit, AssetUnitStatus } from "../../services/assetService";
+import { loanService } from "../../services/loanService";
+import AssetUnitHistory from "./AssetUnitHistory";
+import Input from "../ui/Input";
+import Badge from "../ui/Badge";
+import Button from "../ui/Button";
+import Alert from "../ui/Alert";
+import { X, Laptop, Plus, History, Trash2, ArrowLeft, User } from "lucide-react";
+
+interface AssetUnitsModalProps {
+  item: Item;
+  onClose: () => void;
+}
+
+const STATUS_BADGES: Record<AssetUnitStatus, { label: string; variant: "success" | "primary" | "warning" | "default" | "danger" }> = {
+  available: { label: "Available", variant: "success" },
+  on_loan: { label: "On Loan", variant: "primary" },
+  maintenance: { label: "Maintenance", variant: "warning" },
+  retired: { label: "Retired", variant: "default" },
+  lost: { label: "Lost", variant: "danger" },
+};
+
+// Statuses staff can set; units go on loan by being checked out
+const STATUS_OPTIONS = (["available", "maintenance", "retired", "lost"] as const).map((status) => ({
+  value: status,
+  label: STATUS_BADGES[status].label,
+}));
+
+const emptyUnit = { serialNumber: "", purchaseDate: "", warrantyExpires: "", notes: "" };
+
+/**
+ * The serial-numbered units of a borrowable item: who holds each one, its
+ * purchase date and warranty, and the loans it went out on
+ */
+const AssetUnitsModal: React.FC<AssetUnitsModalProps> = ({ item, onClose }) => {
+  const [units, setUnits] = useState<AssetUnit[]>([]);
+  const [newUnit, setNewUnit] = useState(emptyUnit);
+  const [historyUnit, setHistoryUnit] = useState<AssetUnit | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const today = loanService.toDateString(new Date());
+
+  useEffect(() => {
+    assetService
+      .getUnits(item.id)
+      .then(setUnits)
+      .catch((err) => {
+        console.error("Error fetching asset units:", err);
+        setError(err instanceof Error ? err.message : "Failed to load asset units");
+      })
+      .finally(() => setLoading(false));
+  }, [item.id]);
+
+  const replaceUnit = (unit: AssetUnit) =>
+    setUnits((prev) => prev.map((candidate) => (candidate.id === unit.id ? unit : candidate)));
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newUnit.serialNumber.trim()) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const unit = await assetService.createUnit(item.id, newUnit);
+      setUnits((prev) =>
+        [...prev, unit].sort((a, b) => a.serialNumber.localeCompare(b.serialNumber))
+      );
+      setNewUnit(emptyUnit);
+    } catch (err) {
+      console.error("Error creating asset unit:", err);
+      setError(err instanceof Error ? err.message : "Failed to add the asset unit");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStatusChange = async (unit: AssetUnit, status: AssetUnitStatus) => {
+    if (status === "on_loan") return;
+
+    setError(null);
+    try {
+      replaceUnit(await assetService.updateUnit(item.id, unit.id, { status }));
+    } catch (err) {
+      console.error("Error updating asset unit:", err);
+      setError(err instanceof Error ? err.message : "Failed to update the asset unit");
+    }
+  };
+
+  const handleDelete = async (unit: AssetUnit) => {
+    if (!window.confirm(`Delete asset unit ${unit.serialNumber}?`)) return;
+
+    setError(null);
+    try {
+      await assetService.deleteUnit(item.id, unit.id);
+      setUnits((prev) => prev.filter((candidate) => candidate.id !== unit.id));
+    } catch (err) {
+      console.error("Error deleting asset unit:", err);
+      setError(err instanceof Error ? err.message : "Failed to delete the asset unit");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+            {historyUnit ? (
+              <button
+                onClick={() => setHistoryUnit(null)}
+                className="mr-2 text-gray-400 hover:text-gray-600"
+                title="Back to all units"
+              >
+                <ArrowLeft className="h-5 w-5" />
+              </button>
+            ) : (
+              <Laptop className="h-5 w-5 mr-2 text-blue-600" />
+            )}
+            {historyUnit ? `${item.name} • ${historyUnit.serialNumber}` : `${item.name} Assets`}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {error && (
+            <Alert variant="error" onDismiss={() => setError(null)} className="mb-4">
+              {error}
+            </Alert>
+          )}
+
+          {historyUnit ? (
+            <AssetUnitHistory unit={historyUnit} />
+          ) : (
+            <>
+              <form
+                onSubmit={handleAdd}
+                className="mb-6 grid grid-cols-1 sm:grid-cols-4 gap-x-3 items-end"
+              >
+                <Input
+                  label="Serial Number"
+                  value={newUnit.serialNumber}
+                  onChange={(e) => setNewUnit({ ...newUnit, serialNumber: e.target.value })}
+                  required
+                  disabled={saving}
+                />
+                <Input
+                  label="Purchased"
+                  type="date"
+                  max={today}
+                  value={newUnit.purchaseDate}
+                  onChange={(e) => setNewUnit({ ...newUnit, purchaseDate: e.target.value })}
+                  disabled={saving}
+                />
+                <Input
+                  label="Warranty Until"
+                  type="date"
+                  value={newUnit.warrantyExpires}
+                  onChange={(e) => setNewUnit({ ...newUnit, warrantyExpires: e.target.value })}
+                  disabled={saving}
+                />
+                <div className="mb-4">
+                  <Button
+                    variant="primary"
+                    type="submit"
+                    isLoading={saving}
+                    icon={<Plus className="h-4 w-4" />}
+                    fullWidth
+                  >
+                    Add Unit
+                  </Button>
+                </div>
+              </form>
+
+              {loading ? (
+                <p className="py-6 text-center text-sm text-gray-500">Loading asset units...</p>
+              ) : units.length === 0 ? (
+                <p className="py-6 text-center text-sm text-gray-500">
+                  No asset units yet. Once units are added, checking a loan of this item out
+                  records which of them were handed over.
+                </p>
+              ) : (
+                <ul className="divide-y">
+                  {units.map((unit) => (
+                    <li
+                      key={unit.id}
+                      className="py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2"
+                    >
+                      <div className="text-sm">
+                        <p className="font-medium text-gray-900">
+                          {unit.serialNumber}{" "}
+                          <Badge variant={STATUS_BADGES[unit.status].variant}>
+                            {STATUS_BADGES[unit.status].label}
+                          </Badge>
+                        </p>
+                        {unit.holderName && (
+                          <p className="flex items-center text-gray-600">
+                            <User className="h-3 w-3 mr-1" />
+                            {unit.holderName}
+                            {unit.loanDueDate &&
+                              `, due ${loanService.formatDate(`${unit.loanDueDate}T00:00:00`)}`}
+                          </p>
+                        )}
+                        <p className="text-xs text-gray-500">
+                          {unit.purchaseDate
+                            ? `Purchased ${loanService.formatDate(`${unit.purchaseDate}T00:00:00`)}`
+                            : "Purchase date unknown"}
+                          {unit.warrantyExpires && (
+                            <span className={unit.warrantyExpires < today ? "text-red-600" : ""}>
+                              {" • Warranty "}
+                              {unit.warrantyExpires < today ? "expired" : "until"}{" "}
+                              {loanService.formatDate(`${unit.warrantyExpires}T00:00:00`)}
+                            </span>
+                          )}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {unit.status !== "on_loan" && (
+                          <select
+                            value={unit.status}
+                            onChange={(e) =>
+                              handleStatusChange(unit, e.target.value as AssetUnitStatus)
+                            }
+                            className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                          >
+                            {STATUS_OPTIONS.map((option) => (
+                              <option key={option.value} value={option.value}>
+                                {option.label}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setHistoryUnit(unit)}
+                          icon={<History className="h-4 w-4" />}
+                        >
+                          History
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(unit)}
+                          icon={<Trash2 className="h-4 w-4 text-red-600" />}
+                          title="Delete"
+                        />
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AssetUnitsModal;
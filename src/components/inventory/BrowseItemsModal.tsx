@@ -4,17 +4,17 @@ import Button from "../ui/Button";
 import { X, Search, Filter } from "lucide-react";
 import Input from "../ui/Input";
 import Select from "../ui/Select";
+import Pagination from "../ui/Pagination";
 import { categoryService } from "../../services/categoryService";
-import { categoriesAreEqual } from "../../utils/categoryUtils";
+import { itemService } from "../../services/itemService";
+import { DEFAULT_PAGE, DEFAULT_PAGE_SIZE } from "../../config";
 
 interface BrowseItemsModalProps {
-  items: Item[];
   onClose: () => void;
   onSelectItem: (item: Item) => void;
 }
 
 const BrowseItemsModal: React.FC<BrowseItemsModalProps> = ({
-  items,
   onClose,
   onSelectItem,
 }) => {
@@ -23,6 +23,11 @@ const BrowseItemsModal: React.FC<BrowseItemsModalProps> = ({
   const [categoryOptions, setCategoryOptions] = useState([
     { value: "all", label: "All Categories" },
   ]);
+  const [items, setItems] = useState<Item[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [page, setPage] = useState(DEFAULT_PAGE);
+  const [total, setTotal] = useState(0);
+  const [totalPages, setTotalPages] = useState(0);
 
   // Function to fetch categories from the database
   const fetchCategories = async () => {
@@ -42,21 +47,31 @@ const BrowseItemsModal: React.FC<BrowseItemsModalProps> = ({
     fetchCategories();
   }, []);
 
-  // Filter items based on search term and category
-  const filteredItems = items.filter((item) => {
-    // Filter by search term
-    const matchesSearch =
-      searchTerm === "" ||
-      item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      item.description.toLowerCase().includes(searchTerm.toLowerCase());
-
-    // Filter by category using the utility function
-    const matchesCategory =
-      categoryFilter === "all" ||
-      categoriesAreEqual(item.category, categoryFilter);
+  // Fetch the page of items matching the search term and category; wait for
+  // typing in the search box to settle first
+  useEffect(() => {
+    const fetchItems = async () => {
+      setLoading(true);
+      try {
+        const result = await itemService.queryItems({
+          search: searchTerm || undefined,
+          category: categoryFilter !== "all" ? categoryFilter : undefined,
+          page,
+          pageSize: DEFAULT_PAGE_SIZE,
+        });
+        setItems(result.items);
+        setTotal(result.total);
+        setTotalPages(result.totalPages);
+      } catch (error) {
+        console.error("Error fetching items:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
 
-    return matchesSearch && matchesCategory;
-  });
+    const timer = setTimeout(fetchItems, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm, categoryFilter, page]);
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -76,14 +91,20 @@ const BrowseItemsModal: React.FC<BrowseItemsModalProps> = ({
             <Input
               placeholder="Search items..."
               value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              onChange={(e) => {
+                setSearchTerm(e.target.value);
+                setPage(DEFAULT_PAGE);
+              }}
               icon={<Search className="h-4 w-4" />}
             />
           </div>
           <div className="w-64">
             <Select
               value={categoryFilter}
-              onChange={(e) => setCategoryFilter(e.target.value)}
+              onChange={(e) => {
+                setCategoryFilter(e.target.value);
+                setPage(DEFAULT_PAGE);
+              }}
               options={categoryOptions}
               icon={<Filter className="h-4 w-4" />}
             />
@@ -91,7 +112,11 @@ const BrowseItemsModal: React.FC<BrowseItemsModalProps> = ({
         </div>
 
         <div className="overflow-y-auto flex-1">
-          {filteredItems.length === 0 ? (
+          {loading && items.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              Loading items...
+            </div>
+          ) : items.length === 0 ? (
             <div className="text-center py-8 text-gray-500">
               No items found matching your criteria.
             </div>
@@ -107,7 +132,7 @@ const BrowseItemsModal: React.FC<BrowseItemsModalProps> = ({
                 </tr>
               </thead>
               <tbody>
-                {filteredItems.map((item) => (
+                {items.map((item) => (
                   <tr key={item.id} className="border-b hover:bg-gray-50">
                     <td className="p-3 font-medium">{item.name}</td>
                     <td className="p-3">
@@ -146,6 +171,16 @@ const BrowseItemsModal: React.FC<BrowseItemsModalProps> = ({
             </table>
           )}
         </div>
+
+        <Pagination
+          page={page}
+          pageSize={DEFAULT_PAGE_SIZE}
+          total={total}
+          totalPages={totalPages}
+          onPageChange={setPage}
+          disabled={loading}
+          className="mt-4"
+        />
       </div>
     </div>
   );
@@ -1,11 +1,14 @@
 import React, { useState, useEffect } from "react";
-import { Item, ItemCategory } from "../../types";
+import { Item, ItemCategory, Unit } from "../../types";
 import Input from "../ui/Input";
 import Select from "../ui/Select";
 import Textarea from "../ui/Textarea";
 import Button from "../ui/Button";
+import VariantAttributesInput from "./VariantAttributesInput";
+import UnitConversionsInput from "./UnitConversionsInput";
 import { X } from "lucide-react";
 import { categoryService } from "../../services/categoryService";
+import { unitService } from "../../services/unitService";
 
 interface EditItemModalProps {
   item: Item;
@@ -26,6 +29,10 @@ const EditItemModal: React.FC<EditItemModalProps> = ({
     minQuantity: item.minQuantity,
     lastRestocked: item.lastRestocked,
     unit: item.unit || "pcs", // Default to item's unit or 'pcs'
+    sku: item.sku ?? "",
+    barcode: item.barcode ?? "",
+    variantAttributes: item.variantAttributes ?? {},
+    unitConversions: item.unitConversions ?? [],
   });
 
   const [loading, setLoading] = useState(false);
@@ -39,12 +46,14 @@ const EditItemModal: React.FC<EditItemModalProps> = ({
     { value: "other", label: "Other" },
   ]);
 
-  const unitOptions = [
-    { value: "pcs", label: "Pieces (pcs)" },
-    { value: "rim", label: "Rim" },
-    { value: "box", label: "Box" },
-    { value: "pack", label: "Pack" },
-  ];
+  const [units, setUnits] = useState<Unit[]>([
+    { code: "pcs", name: "Pieces (pcs)" },
+    { code: "rim", name: "Rim" },
+    { code: "box", name: "Box" },
+    { code: "pack", name: "Pack" },
+  ]);
+
+  const unitOptions = units.map((unit) => ({ value: unit.code, label: unit.name }));
 
   // Function to fetch categories from the database
   const fetchCategories = async () => {
@@ -56,9 +65,18 @@ const EditItemModal: React.FC<EditItemModalProps> = ({
     }
   };
 
-  // Fetch categories when the component mounts
+  const fetchUnits = async () => {
+    try {
+      setUnits(await unitService.getUnits());
+    } catch (error) {
+      console.error("Error fetching units:", error);
+    }
+  };
+
+  // Fetch categories and units when the component mounts
   useEffect(() => {
     fetchCategories();
+    fetchUnits();
   }, []);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -80,6 +98,20 @@ const EditItemModal: React.FC<EditItemModalProps> = ({
         updates.minQuantity = formData.minQuantity;
       if (formData.unit !== item.unit)
         updates.unit = formData.unit;
+      if ((formData.sku || "") !== (item.sku || ""))
+        updates.sku = formData.sku;
+      if ((formData.barcode || "") !== (item.barcode || ""))
+        updates.barcode = formData.barcode;
+      if (
+        JSON.stringify(formData.variantAttributes) !==
+        JSON.stringify(item.variantAttributes ?? {})
+      )
+        updates.variantAttributes = formData.variantAttributes;
+      if (
+        JSON.stringify(formData.unitConversions) !==
+        JSON.stringify(item.unitConversions ?? [])
+      )
+        updates.unitConversions = formData.unitConversions;
 
       // If quantity changed, update lastRestocked
       if (formData.quantity !== item.quantity) {
@@ -101,7 +133,7 @@ const EditItemModal: React.FC<EditItemModalProps> = ({
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <div className="bg-white rounded-lg shadow-xl w-full max-w-md p-6">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[90vh] overflow-y-auto p-6">
         <div className="flex justify-between items-center mb-4">
           <h2 className="text-xl font-semibold text-gray-900">Edit Item</h2>
           <button
@@ -120,6 +152,31 @@ const EditItemModal: React.FC<EditItemModalProps> = ({
             required
           />
 
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="SKU"
+              value={formData.sku ?? ""}
+              onChange={(e) => setFormData({ ...formData, sku: e.target.value })}
+              placeholder="Optional"
+            />
+            <Input
+              label="Barcode"
+              value={formData.barcode ?? ""}
+              onChange={(e) =>
+                setFormData({ ...formData, barcode: e.target.value })
+              }
+              placeholder="EAN or Code128"
+            />
+          </div>
+
+          <VariantAttributesInput
+            value={formData.variantAttributes ?? {}}
+            onChange={(variantAttributes) =>
+              setFormData({ ...formData, variantAttributes })
+            }
+            disabled={loading}
+          />
+
           <Textarea
             label="Description"
             value={formData.description}
@@ -182,6 +239,17 @@ const EditItemModal: React.FC<EditItemModalProps> = ({
             />
           </div>
 
+          <UnitConversionsInput
+            baseUnit={formData.unit || "pcs"}
+            value={formData.unitConversions ?? []}
+            onChange={(unitConversions) =>
+              setFormData({ ...formData, unitConversions })
+            }
+            units={units}
+            onUnitCreated={(unit) => setUnits([...units, unit])}
+            disabled={loading}
+          />
+
           <div className="mt-6 flex justify-end space-x-3">
             <Button
               variant="outline"
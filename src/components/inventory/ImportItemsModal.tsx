@@ -12,6 +12,7 @@ import {
 } from "lucide-react";
 import * as XLSX from "xlsx";
 import { downloadInventoryTemplate } from "../../utils/excelTemplateGenerator";
+import { findDuplicateCodes } from "../../utils/itemUtils";
 
 interface ImportItemsModalProps {
   onClose: () => void;
@@ -145,6 +146,8 @@ const ImportItemsModal: React.FC<ImportItemsModalProps> = ({
               normalizedRow.minquantity || normalizedRow.min_quantity || "0"
             ) || 0,
           location: normalizedRow.location || "",
+          sku: normalizedRow.sku?.toString().trim() || null,
+          barcode: normalizedRow.barcode?.toString().trim() || null,
           lastRestocked: new Date().toISOString(),
         };
       });
@@ -158,6 +161,30 @@ const ImportItemsModal: React.FC<ImportItemsModalProps> = ({
         return;
       }
 
+      // SKUs and barcodes must be unique; those taken by existing items are
+      // rejected by the server row by row
+      const duplicateSkus = findDuplicateCodes(
+        validItems.map((item) => item.sku),
+        true
+      );
+      const duplicateBarcodes = findDuplicateCodes(
+        validItems.map((item) => item.barcode)
+      );
+      if (duplicateSkus.length > 0 || duplicateBarcodes.length > 0) {
+        setError(
+          [
+            duplicateSkus.length > 0 &&
+              `SKUs used more than once: ${duplicateSkus.join(", ")}`,
+            duplicateBarcodes.length > 0 &&
+              `Barcodes used more than once: ${duplicateBarcodes.join(", ")}`,
+          ]
+            .filter(Boolean)
+            .join(". ")
+        );
+        setImporting(false);
+        return;
+      }
+
       // Log the items for debugging
       console.log(
         "Importing items with categories:",
@@ -218,7 +245,8 @@ const ImportItemsModal: React.FC<ImportItemsModalProps> = ({
                 <p className="text-gray-600">
                   Upload an Excel file (.xlsx or .xls) with your inventory
                   items. The file should have columns for name, description,
-                  category, and quantity.
+                  category, and quantity, and may have sku and barcode
+                  columns.
                 </p>
                 <Button
                   variant="outline"
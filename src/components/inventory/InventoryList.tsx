@@ -1,16 +1,35 @@
 import React from "react";
-import { Item } from "../../types";
+import { Item, ReorderSuggestion } from "../../types";
 import { Card, CardContent } from "../ui/Card";
 import Badge from "../ui/Badge";
 import Button from "../ui/Button";
 import Input from "../ui/Input";
-import { Edit, Trash2, Package, AlertTriangle } from "lucide-react";
+import ItemCodes from "./ItemCodes";
+import { getLocationLabel } from "../../utils/locationUtils";
+import {
+  Edit,
+  Trash2,
+  Package,
+  AlertTriangle,
+  ArrowLeftRight,
+  MapPin,
+  TrendingDown,
+  Laptop,
+} from "lucide-react";
 
 interface InventoryListProps {
   items: Item[];
   onUpdate: (id: string, updates: Partial<Item>) => void;
   onDelete: (id: string) => void;
   onEdit: (item: Item) => void;
+  // Move the item's stock between locations; hidden when not given
+  onTransfer?: (item: Item) => void;
+  // Manage the serial-numbered units of borrowable items; hidden when not
+  // given
+  onManageAssets?: (item: Item) => void;
+  // Reorder points suggested from consumption, keyed by item id; shown next
+  // to the minimum quantity when given
+  reorderSuggestions?: Record<string, ReorderSuggestion>;
 
   isLoading?: boolean;
 }
@@ -20,6 +39,9 @@ const InventoryList: React.FC<InventoryListProps> = ({
   onUpdate,
   onDelete,
   onEdit,
+  onTransfer,
+  onManageAssets,
+  reorderSuggestions,
 
   isLoading = false,
 }) => {
@@ -48,6 +70,56 @@ const InventoryList: React.FC<InventoryListProps> = ({
     }
   };
 
+  const renderSuggestion = (item: Item) => {
+    const suggestion = reorderSuggestions?.[item.id];
+    if (!suggestion) return null;
+
+    if (suggestion.reorder_point === null) {
+      return (
+        <p className="mt-2 text-center text-xs text-gray-500">
+          No usage in the last {suggestion.lookback_days} days
+        </p>
+      );
+    }
+
+    return (
+      <div className="mt-2 text-center text-xs text-gray-600">
+        <div className="flex items-center justify-center">
+          <TrendingDown className="h-3 w-3 mr-1" />
+          <span>
+            Suggested: <span className="font-semibold">{suggestion.reorder_point}</span>
+          </span>
+          {suggestion.reorder_point !== item.minQuantity && (
+            <button
+              type="button"
+              onClick={() =>
+                handleMinQuantityChange(item.id, suggestion.reorder_point ?? 0)
+              }
+              className="ml-2 text-blue-600 hover:text-blue-800 font-medium"
+            >
+              Apply
+            </button>
+          )}
+        </div>
+        <div
+          className="text-gray-500"
+          title={
+            suggestion.lead_time_observed
+              ? "Lead time measured from past purchase orders"
+              : "Default lead time; no purchase order deliveries yet"
+          }
+        >
+          {suggestion.average_daily_usage}/day · {suggestion.lead_time_days}d lead time
+        </div>
+        {(suggestion.suggested_order_quantity ?? 0) > 0 && (
+          <div className="text-amber-600 font-medium">
+            Order {suggestion.suggested_order_quantity} {item.unit || "pcs"}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   if (isLoading) {
     return (
       <div className="text-center py-12">
@@ -90,6 +162,7 @@ const InventoryList: React.FC<InventoryListProps> = ({
                   </h3>
                   {getStatusBadge(item.status)}
                 </div>
+                <ItemCodes item={item} className="mt-1" />
                 <p className="mt-1 text-sm text-gray-600 line-clamp-2">{item.description}</p>
               </div>
               <div className="flex flex-col sm:flex-row gap-2 sm:space-x-2 lg:flex-shrink-0">
@@ -103,6 +176,31 @@ const InventoryList: React.FC<InventoryListProps> = ({
                   Edit
                 </Button>
 
+                {onTransfer && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onTransfer(item)}
+                    icon={<ArrowLeftRight className="h-4 w-4" />}
+                    className="w-full sm:w-auto"
+                    disabled={!item.locations?.length}
+                  >
+                    Transfer
+                  </Button>
+                )}
+
+                {onManageAssets && item.category?.toLowerCase() === "electronics" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onManageAssets(item)}
+                    icon={<Laptop className="h-4 w-4" />}
+                    className="w-full sm:w-auto"
+                  >
+                    Assets
+                  </Button>
+                )}
+
                 <Button
                   variant="danger"
                   size="sm"
@@ -164,6 +262,24 @@ const InventoryList: React.FC<InventoryListProps> = ({
                 <div className="mt-2 text-center text-sm font-medium text-gray-600">
                   Unit: {item.unit || 'pcs'}
                 </div>
+                {item.locations && item.locations.length > 0 && (
+                  <ul className="mt-2 space-y-1 text-xs text-gray-600">
+                    {item.locations.map((location) => (
+                      <li
+                        key={location.location_id}
+                        className="flex items-center justify-between gap-2"
+                      >
+                        <span className="flex items-center min-w-0">
+                          <MapPin className="h-3 w-3 mr-1 flex-shrink-0" />
+                          <span className="truncate">
+                            {getLocationLabel(location.warehouse_name, location.location_code)}
+                          </span>
+                        </span>
+                        <span className="font-medium">{location.quantity}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
                 {item.quantity <= item.minQuantity && (
                   <div className="mt-2 flex items-center justify-center text-amber-600 text-sm font-medium">
                     <AlertTriangle className="h-4 w-4 mr-1" />
@@ -210,6 +326,7 @@ const InventoryList: React.FC<InventoryListProps> = ({
                     +
                   </Button>
                 </div>
+                {renderSuggestion(item)}
               </div>
             </div>
 
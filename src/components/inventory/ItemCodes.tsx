@@ -0,0 +1,28 @@
+import React from "react";
+import { Item } from "../../types";
+import { formatVariantAttributes } from "../../utils/itemUtils";
+
+interface ItemCodesProps {
+  item: Pick<Item, "sku" | "barcode" | "variantAttributes">;
+  className?: string;
+}
+
+// An item's SKU, barcode and variant attributes on one line; nothing when it
+// has none of them
+const ItemCodes: React.FC<ItemCodesProps> = ({ item, className = "" }) => {
+  const parts = [
+    item.sku && `SKU ${item.sku}`,
+    item.barcode && `Barcode ${item.barcode}`,
+    formatVariantAttributes(item.variantAttributes),
+  ].filter(Boolean);
+
+  if (parts.length === 0) return null;
+
+  return (
+    <p className={`text-xs text-gray-500 truncate ${className}`}>
+      {parts.join(" · ")}
+    </p>
+  );
+};
+
+export default ItemCodes;
@@ -0,0 +1,166 @@
+import React, { useState, useEffect } from "react";
+import { Item } from "../../types";
+import Input from "../ui/Input";
+import { Search, Loader2 } from "lucide-react";
+import { itemService } from "../../services/itemService";
+import { formatVariantAttributes } from "../../utils/itemUtils";
+
+interface ItemPickerProps {
+  onSelect: (item: Item) => void;
+  id?: string;
+  label?: string;
+  placeholder?: string;
+  excludeIds?: string[];
+  inStockOnly?: boolean;
+  disabled?: boolean;
+  required?: boolean;
+}
+
+/**
+ * Typeahead for picking an item from the catalog by name, SKU or barcode.
+ * Suggestions are looked up on the server as the user types, so the catalog
+ * is never loaded in full.
+ */
+const ItemPicker: React.FC<ItemPickerProps> = ({
+  onSelect,
+  id = "item-picker",
+  label,
+  placeholder = "Search items...",
+  excludeIds = [],
+  inStockOnly = false,
+  disabled = false,
+  required = false,
+}) => {
+  const [term, setTerm] = useState("");
+  const [suggestions, setSuggestions] = useState<Item[]>([]);
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    const fetchSuggestions = async () => {
+      setLoading(true);
+      try {
+        const items = await itemService.searchItems(term, { inStockOnly });
+        if (!cancelled) {
+          setSuggestions(items);
+          setActiveIndex(0);
+        }
+      } catch (err) {
+        console.error("Error searching items:", err);
+        if (!cancelled) setSuggestions([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    // Wait for typing to settle before looking items up
+    const timer = setTimeout(fetchSuggestions, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [term, open, inStockOnly]);
+
+  const options = suggestions.filter((item) => !excludeIds.includes(item.id));
+
+  const handleSelect = (item: Item) => {
+    onSelect(item);
+    setTerm("");
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setOpen(true);
+      setActiveIndex((index) => Math.min(index + 1, options.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((index) => Math.max(index - 1, 0));
+    } else if (e.key === "Enter" && open && options[activeIndex]) {
+      e.preventDefault();
+      handleSelect(options[activeIndex]);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative w-full">
+      <Input
+        id={id}
+        label={label}
+        placeholder={placeholder}
+        value={term}
+        onChange={(e) => {
+          setTerm(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        // Delay closing so a click on a suggestion still registers
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        onKeyDown={handleKeyDown}
+        disabled={disabled}
+        required={required}
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={open}
+        aria-controls={`${id}-options`}
+        rightElement={
+          loading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Search className="h-4 w-4" />
+          )
+        }
+      />
+
+      {open && !disabled && (
+        <ul
+          id={`${id}-options`}
+          role="listbox"
+          className="absolute z-20 -mt-3 w-full max-h-60 overflow-auto bg-white border border-gray-200 rounded-md shadow-lg"
+        >
+          {options.length === 0 ? (
+            <li className="px-4 py-2 text-sm text-gray-500">
+              {loading ? "Searching..." : "No items found"}
+            </li>
+          ) : (
+            options.map((item, index) => (
+              <li
+                key={item.id}
+                role="option"
+                aria-selected={index === activeIndex}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => handleSelect(item)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`px-4 py-2 cursor-pointer text-sm ${
+                  index === activeIndex ? "bg-primary-50" : ""
+                }`}
+              >
+                <span className="font-medium text-gray-900">{item.name}</span>
+                {formatVariantAttributes(item.variantAttributes) && (
+                  <span className="ml-1 text-gray-600">
+                    ({formatVariantAttributes(item.variantAttributes)})
+                  </span>
+                )}
+                {item.sku && (
+                  <span className="ml-2 text-xs text-gray-500">{item.sku}</span>
+                )}
+                <span className="ml-2 text-gray-500">
+                  {item.quantity} {item.unit || "pcs"} available
+                </span>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ItemPicker;
@@ -0,0 +1,191 @@
+import React, { useState } from "react";
+import { Item } from "../../types";
+import Input from "../ui/Input";
+import Select from "../ui/Select";
+import Button from "../ui/Button";
+import Alert from "../ui/Alert";
+import ItemPicker from "./ItemPicker";
+import { X, Printer } from "lucide-react";
+import { itemService } from "../../services/itemService";
+import { downloadItemLabelsPDF } from "../../utils/pdfExportUtils";
+import {
+  getLabelCode,
+  LABEL_SHEETS,
+  LabelSymbology,
+  labelSymbologyOptions,
+} from "../../utils/labelUtils";
+
+interface PrintLabelsModalProps {
+  // Items offered for printing at first, e.g. the current inventory page
+  items: Item[];
+  onClose: () => void;
+}
+
+/**
+ * Print shelf or asset labels for a choice of items as a PDF sheet for A4
+ * label paper. Each label carries the item's barcode, SKU or id as a QR code
+ * or Code128 barcode, with its name, unit and location.
+ */
+const PrintLabelsModal: React.FC<PrintLabelsModalProps> = ({ items, onClose }) => {
+  const [candidates, setCandidates] = useState<Item[]>(items);
+  const [selectedIds, setSelectedIds] = useState<string[]>(items.map((item) => item.id));
+  const [sheetId, setSheetId] = useState(LABEL_SHEETS[0].id);
+  const [symbology, setSymbology] = useState<LabelSymbology>("qr");
+  const [copies, setCopies] = useState("1");
+  const [skip, setSkip] = useState("0");
+  const [error, setError] = useState<string | null>(null);
+
+  const sheet = LABEL_SHEETS.find((s) => s.id === sheetId) ?? LABEL_SHEETS[0];
+  const perSheet = sheet.columns * sheet.rows;
+  const selectedItems = candidates.filter((item) => selectedIds.includes(item.id));
+  const copyCount = Math.max(parseInt(copies) || 1, 1);
+  const skipCount = Math.min(Math.max(parseInt(skip) || 0, 0), perSheet - 1);
+
+  const toggleItem = (itemId: string) =>
+    setSelectedIds(
+      selectedIds.includes(itemId)
+        ? selectedIds.filter((id) => id !== itemId)
+        : [...selectedIds, itemId]
+    );
+
+  // Items found with the picker are loaded in full for their locations
+  const addItem = async (item: Item) => {
+    try {
+      const fullItem = (await itemService.getItemById(item.id)) ?? item;
+      setCandidates([...candidates, { ...item, ...fullItem }]);
+      setSelectedIds([...selectedIds, item.id]);
+    } catch (err) {
+      console.error("Error loading item:", err);
+      setError("Failed to load the item.");
+    }
+  };
+
+  const handlePrint = () => {
+    if (selectedItems.length === 0) return;
+
+    setError(null);
+    try {
+      downloadItemLabelsPDF(selectedItems, {
+        sheet,
+        symbology,
+        copies: copyCount,
+        skip: skipCount,
+      });
+    } catch (err) {
+      console.error("Error generating labels:", err);
+      setError(err instanceof Error ? err.message : "Failed to generate labels");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+            <Printer className="h-5 w-5 text-blue-600 mr-2" />
+            Print Labels
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <Alert
+            variant="error"
+            title="Error"
+            onDismiss={() => setError(null)}
+            className="mb-4"
+          >
+            {error}
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Select
+            label="Label size"
+            options={LABEL_SHEETS.map((s) => ({ value: s.id, label: s.label }))}
+            value={sheetId}
+            onChange={(e) => setSheetId(e.target.value)}
+          />
+          <Select
+            label="Code"
+            options={labelSymbologyOptions}
+            value={symbology}
+            onChange={(e) => setSymbology(e.target.value as LabelSymbology)}
+          />
+          <Input
+            label="Copies per item"
+            type="number"
+            min="1"
+            value={copies}
+            onChange={(e) => setCopies(e.target.value)}
+          />
+          <Input
+            label="Used labels to skip on the first sheet"
+            type="number"
+            min="0"
+            max={(perSheet - 1).toString()}
+            value={skip}
+            onChange={(e) => setSkip(e.target.value)}
+          />
+        </div>
+
+        <ItemPicker
+          id="label-item-picker"
+          label="Add item"
+          placeholder="Search by name, SKU or barcode..."
+          onSelect={addItem}
+          excludeIds={candidates.map((item) => item.id)}
+        />
+
+        {candidates.length === 0 ? (
+          <p className="mb-4 text-sm text-gray-600">Add the items to print labels for.</p>
+        ) : (
+          <ul className="mb-4 max-h-64 overflow-y-auto divide-y divide-gray-200 border rounded-md">
+            {candidates.map((item) => (
+              <li key={item.id} className="px-3 py-2">
+                <label className="flex items-center justify-between text-sm">
+                  <span className="flex items-center min-w-0">
+                    <input
+                      type="checkbox"
+                      className="mr-2 rounded border-gray-300"
+                      checked={selectedIds.includes(item.id)}
+                      onChange={() => toggleItem(item.id)}
+                    />
+                    <span className="truncate">{item.name}</span>
+                  </span>
+                  <span className="ml-2 text-gray-500 font-mono text-xs">
+                    {getLabelCode(item)}
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <p className="mb-4 text-sm text-gray-600">
+          {selectedItems.length * copyCount} label(s) on{" "}
+          {Math.ceil((selectedItems.length * copyCount + skipCount) / perSheet) || 0}{" "}
+          sheet(s). Items without a barcode or SKU are labelled with their id.
+        </p>
+
+        <div className="flex justify-end space-x-3">
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handlePrint}
+            disabled={selectedItems.length === 0}
+            icon={<Printer className="h-4 w-4" />}
+          >
+            Download PDF
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PrintLabelsModal;
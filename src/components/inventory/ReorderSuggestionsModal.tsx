@@ -0,0 +1,195 @@
+import React, { useState, useEffect } from "react";
+import { ReorderSuggestion } from "../../types";
+import Button from "../ui/Button";
+import Alert from "../ui/Alert";
+import { X, TrendingDown } from "lucide-react";
+import { itemService } from "../../services/itemService";
+
+interface ReorderSuggestionsModalProps {
+  onClose: () => void;
+  onAccepted: () => void;
+}
+
+/**
+ * Review the reorder points suggested from consumption history and make the
+ * chosen ones the items' minimum quantities. Only items whose suggestion
+ * differs from their current minimum are listed.
+ */
+const ReorderSuggestionsModal: React.FC<ReorderSuggestionsModalProps> = ({
+  onClose,
+  onAccepted,
+}) => {
+  const [suggestions, setSuggestions] = useState<ReorderSuggestion[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const changed = (await itemService.getReorderSuggestions()).filter(
+          (suggestion) =>
+            suggestion.reorder_point !== null &&
+            suggestion.reorder_point !== suggestion.min_quantity
+        );
+        setSuggestions(changed);
+        setSelectedIds(changed.map((suggestion) => suggestion.item_id));
+      } catch (err) {
+        console.error("Error loading reorder suggestions:", err);
+        setError("Failed to load reorder suggestions.");
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const toggleItem = (itemId: string) =>
+    setSelectedIds(
+      selectedIds.includes(itemId)
+        ? selectedIds.filter((id) => id !== itemId)
+        : [...selectedIds, itemId]
+    );
+
+  const allSelected =
+    suggestions.length > 0 && selectedIds.length === suggestions.length;
+
+  const handleAccept = async () => {
+    if (selectedIds.length === 0) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      await itemService.acceptReorderSuggestions(selectedIds);
+      onAccepted();
+      onClose();
+    } catch (err) {
+      console.error("Error accepting reorder suggestions:", err);
+      setError(err instanceof Error ? err.message : "Failed to update minimum quantities");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+            <TrendingDown className="h-5 w-5 text-blue-600 mr-2" />
+            Suggested Reorder Points
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <Alert
+            variant="error"
+            title="Error"
+            onDismiss={() => setError(null)}
+            className="mb-4"
+          >
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-600">Loading reorder suggestions...</p>
+        ) : suggestions.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            Every item's minimum quantity already matches its usage.
+          </p>
+        ) : (
+          <>
+            <p className="mb-2 text-sm text-gray-600">
+              Reorder points cover the usage expected while an order is on its
+              way, plus a few days of safety stock. Accepting one makes it the
+              item's minimum quantity.
+            </p>
+            <table className="min-w-full mb-4 text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="py-2 w-8">
+                    <input
+                      type="checkbox"
+                      className="rounded border-gray-300"
+                      checked={allSelected}
+                      onChange={() =>
+                        setSelectedIds(
+                          allSelected ? [] : suggestions.map((s) => s.item_id)
+                        )
+                      }
+                      disabled={saving}
+                    />
+                  </th>
+                  <th className="py-2">Item</th>
+                  <th className="py-2 text-right">Usage / day</th>
+                  <th className="py-2 text-right">Lead time</th>
+                  <th className="py-2 text-right">Min. now</th>
+                  <th className="py-2 text-right">Suggested</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {suggestions.map((suggestion) => (
+                  <tr key={suggestion.item_id}>
+                    <td className="py-2">
+                      <input
+                        type="checkbox"
+                        className="rounded border-gray-300"
+                        checked={selectedIds.includes(suggestion.item_id)}
+                        onChange={() => toggleItem(suggestion.item_id)}
+                        disabled={saving}
+                      />
+                    </td>
+                    <td className="py-2 pr-2 text-gray-900">
+                      {suggestion.item_name}
+                      <span className="ml-1 text-gray-500">({suggestion.unit})</span>
+                    </td>
+                    <td className="py-2 text-right text-gray-600">
+                      {suggestion.average_daily_usage}
+                    </td>
+                    <td className="py-2 text-right text-gray-600">
+                      {suggestion.lead_time_days}d
+                      {!suggestion.lead_time_observed && "*"}
+                    </td>
+                    <td className="py-2 text-right text-gray-600">
+                      {suggestion.min_quantity}
+                    </td>
+                    <td className="py-2 text-right font-semibold text-gray-900">
+                      {suggestion.reorder_point}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {suggestions.some((suggestion) => !suggestion.lead_time_observed) && (
+              <p className="mb-4 text-xs text-gray-500">
+                * Default lead time; the item has not been delivered against a
+                purchase order yet.
+              </p>
+            )}
+
+            <div className="flex justify-end space-x-3">
+              <Button variant="outline" onClick={onClose} disabled={saving}>
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                onClick={handleAccept}
+                isLoading={saving}
+                disabled={selectedIds.length === 0}
+              >
+                Accept {selectedIds.length} Suggestion(s)
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReorderSuggestionsModal;
@@ -1,84 +1,96 @@
 import React, { useState, useEffect } from "react";
-import { Item, User } from "../../types";
+import { Item } from "../../types";
 import Input from "../ui/Input";
 import Select from "../ui/Select";
 import Textarea from "../ui/Textarea";
 import Button from "../ui/Button";
-import { X, ArrowDownCircle, ArrowUpCircle } from "lucide-react";
+import ItemPicker from "./ItemPicker";
+import ItemCodes from "./ItemCodes";
+import ScanItemModal from "../scanning/ScanItemModal";
+import { X, ArrowDownCircle, ArrowUpCircle, ScanLine } from "lucide-react";
 import { itemService } from "../../services/itemService";
+import { warehouseService } from "../../services/warehouseService";
+import { getDefaultLocation, getLocationOptions } from "../../utils/locationUtils";
+import { getUnitOptions, toBaseQuantity } from "../../utils/unitUtils";
 
 interface StockAdjustmentModalProps {
     type: "masuk" | "keluar";
-    user: User;
+    // Item to start with, e.g. one that was just scanned
+    initialItem?: Item | null;
     onClose: () => void;
     onSuccess: () => void;
 }
 
 const StockAdjustmentModal: React.FC<StockAdjustmentModalProps> = ({
     type,
-    user,
+    initialItem = null,
     onClose,
     onSuccess,
 }) => {
-    const [items, setItems] = useState<Item[]>([]);
-    const [selectedItemId, setSelectedItemId] = useState<string>("");
+    const [selectedItem, setSelectedItem] = useState<Item | null>(initialItem);
+    const [showScanner, setShowScanner] = useState(false);
+    // Empty for the item's own unit
+    const [unit, setUnit] = useState<string>("");
     const [quantity, setQuantity] = useState<number>(1);
     const [notes, setNotes] = useState<string>("");
+    // Cost of one of the chosen unit; empty to use the item's average cost
+    const [unitCost, setUnitCost] = useState<string>("");
+    const [locationId, setLocationId] = useState<string>("");
+    const [locationOptions, setLocationOptions] = useState<{ value: string; label: string }[]>([]);
     const [loading, setLoading] = useState(false);
-    const [fetchingItems, setFetchingItems] = useState(true);
 
     useEffect(() => {
-        const fetchItems = async () => {
-            try {
-                const allItems = await itemService.getAllItems();
-                setItems(allItems);
-                if (allItems.length > 0) {
-                    setSelectedItemId(allItems[0].id);
-                }
-            } catch (error) {
-                console.error("Error fetching items:", error);
-            } finally {
-                setFetchingItems(false);
-            }
-        };
-
-        fetchItems();
+        warehouseService
+            .getWarehouses()
+            .then((warehouses) => {
+                setLocationOptions(getLocationOptions(warehouses));
+                setLocationId(getDefaultLocation(warehouses)?.id ?? "");
+            })
+            .catch((error) => console.error("Error fetching locations:", error));
     }, []);
 
+    const selectItem = (item: Item) => {
+        setSelectedItem(item);
+        setUnit("");
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        if (!selectedItemId) return;
+        if (!selectedItem) return;
 
         setLoading(true);
         try {
-            const selectedItem = items.find((i) => i.id === selectedItemId);
-            if (!selectedItem) throw new Error("Item not found");
-
-            const adjustment = type === "masuk" ? quantity : -quantity;
-            const newQuantity = Math.max(0, selectedItem.quantity + adjustment);
-
-            await itemService.updateItem(selectedItemId, {
-                quantity: newQuantity,
-                historyNotes: notes || (type === "masuk" ? "Barang Masuk (Manual)" : "Barang Keluar (Manual)"),
-                userId: user.id,
-            });
+            // The server applies the movement to the current stock, so a
+            // stale quantity in the picker cannot overwrite other changes
+            if (type === "masuk") {
+                await itemService.receiveStock(selectedItem.id, quantity, {
+                    reason: notes || "Barang Masuk (Manual)",
+                    locationId: locationId || undefined,
+                    unit: unit || undefined,
+                    unitCost: unitCost === "" ? undefined : Number(unitCost),
+                });
+            } else {
+                await itemService.issueStock(selectedItem.id, quantity, {
+                    reason: notes || "Barang Keluar (Manual)",
+                    locationId: locationId || undefined,
+                    unit: unit || undefined,
+                });
+            }
 
             onSuccess();
             onClose();
         } catch (error) {
             console.error("Error adjusting stock:", error);
-            alert("Failed to adjust stock. Please try again.");
+            alert(error instanceof Error ? error.message : "Failed to adjust stock. Please try again.");
         } finally {
             setLoading(false);
         }
     };
 
-    const itemOptions = items.map((item) => ({
-        value: item.id,
-        label: `${item.name} (Current: ${item.quantity} ${item.unit || 'pcs'})`,
-    }));
-
     const isMasuk = type === "masuk";
+    const baseUnit = selectedItem?.unit || "pcs";
+    const conversions = selectedItem?.unitConversions ?? [];
+    const baseQuantity = unit ? toBaseQuantity(quantity, unit, baseUnit, conversions) : null;
 
     return (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
@@ -103,14 +115,37 @@ const StockAdjustmentModal: React.FC<StockAdjustmentModalProps> = ({
                 </div>
 
                 <form onSubmit={handleSubmit} className="p-6">
-                    <Select
-                        label="Pilih Barang"
-                        value={selectedItemId}
-                        onChange={(e) => setSelectedItemId(e.target.value)}
-                        options={itemOptions}
-                        required
-                        disabled={fetchingItems || loading}
-                    />
+                    <div className="flex items-end space-x-2">
+                        <div className="flex-1">
+                            <ItemPicker
+                                id="stock-item"
+                                label="Pilih Barang"
+                                placeholder="Cari nama, SKU atau barcode..."
+                                onSelect={selectItem}
+                                required={!selectedItem}
+                                disabled={loading}
+                            />
+                        </div>
+                        <Button
+                            type="button"
+                            variant="outline"
+                            className="mb-4"
+                            onClick={() => setShowScanner(true)}
+                            icon={<ScanLine className="h-4 w-4" />}
+                            disabled={loading}
+                        >
+                            Scan
+                        </Button>
+                    </div>
+                    {selectedItem && (
+                        <div className="-mt-2 mb-4">
+                            <p className="text-sm text-gray-600">
+                                <span className="font-medium text-gray-900">{selectedItem.name}</span>
+                                {" "}(Current: {selectedItem.quantity} {selectedItem.unit || 'pcs'})
+                            </p>
+                            <ItemCodes item={selectedItem} />
+                        </div>
+                    )}
 
                     <Input
                         label="Jumlah"
@@ -122,6 +157,44 @@ const StockAdjustmentModal: React.FC<StockAdjustmentModalProps> = ({
                         disabled={loading}
                     />
 
+                    {conversions.length > 0 && (
+                        <Select
+                            label="Satuan"
+                            options={getUnitOptions(baseUnit, conversions)}
+                            value={unit || baseUnit}
+                            onChange={(e) => setUnit(e.target.value === baseUnit ? "" : e.target.value)}
+                            disabled={loading}
+                        />
+                    )}
+                    {baseQuantity !== null && (
+                        <p className="-mt-2 mb-4 text-sm text-gray-600">
+                            = {baseQuantity} {baseUnit}
+                        </p>
+                    )}
+
+                    {isMasuk && (
+                        <Input
+                            label={`Harga per ${unit || baseUnit} (Opsional)`}
+                            type="number"
+                            min="0"
+                            step="any"
+                            placeholder="Kosongkan untuk harga rata-rata"
+                            value={unitCost}
+                            onChange={(e) => setUnitCost(e.target.value)}
+                            disabled={loading}
+                        />
+                    )}
+
+                    {locationOptions.length > 1 && (
+                        <Select
+                            label="Lokasi"
+                            options={locationOptions}
+                            value={locationId}
+                            onChange={(e) => setLocationId(e.target.value)}
+                            disabled={loading}
+                        />
+                    )}
+
                     <Textarea
                         label="Catatan (Opsional)"
                         placeholder={isMasuk ? "Contoh: Restock dari supplier A" : "Contoh: Penggunaan internal"}
@@ -145,13 +218,21 @@ const StockAdjustmentModal: React.FC<StockAdjustmentModalProps> = ({
                             type="submit"
                             className="flex-1"
                             isLoading={loading}
-                            disabled={fetchingItems || !selectedItemId}
+                            disabled={!selectedItem}
                         >
                             Simpan
                         </Button>
                     </div>
                 </form>
             </div>
+
+            {showScanner && (
+                <ScanItemModal
+                    title="Scan Barang"
+                    onItem={selectItem}
+                    onClose={() => setShowScanner(false)}
+                />
+            )}
         </div>
     );
 };
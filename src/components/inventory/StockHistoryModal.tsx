@@ -3,6 +3,7 @@ import { X, Package, TrendingUp, TrendingDown, Calendar, FileSpreadsheet } from
 import Button from "../ui/Button";
 import * as XLSX from "xlsx";
 import { API_BASE_URL } from "../../config";
+import { authFetch } from "../../utils/authFetch";
 
 interface StockHistoryEntry {
     id: number;
@@ -17,6 +18,17 @@ interface StockHistoryEntry {
     created_at: string;
     item_name?: string;
     category?: string;
+    location_name?: string | null;
+    to_location_name?: string | null;
+    transfer_quantity?: number | null;
+    unit?: string | null; // The item's stock unit, which quantities are in
+    // What was entered, when the movement was entered in another unit
+    entered_quantity?: number | string | null;
+    entered_unit?: string | null;
+    // Cost of one stock unit and of the whole movement, signed like
+    // quantity_change; null for movements made before costing was tracked
+    unit_cost?: number | string | null;
+    total_cost?: number | string | null;
 }
 
 interface StockHistoryModalProps {
@@ -59,7 +71,7 @@ const StockHistoryModal: React.FC<StockHistoryModalProps> = ({
                 url = `${API_BASE_URL}/items?include_history=true`;
             }
 
-            const response = await fetch(url);
+            const response = await authFetch(url);
 
             if (!response.ok) {
                 throw new Error('Failed to fetch stock history');
@@ -119,9 +131,14 @@ const StockHistoryModal: React.FC<StockHistoryModalProps> = ({
             Barang: entry.item_name || itemName || "-",
             Kategori: entry.category || "-",
             Keterangan: getChangeTypeLabel(entry.change_type),
+            Lokasi: getLocationDescription(entry) || "-",
             Notes: entry.notes || "-",
             Masuk: entry.quantity_change > 0 ? entry.quantity_change : 0,
             Keluar: entry.quantity_change < 0 ? Math.abs(entry.quantity_change) : 0,
+            Satuan: entry.unit || "pcs",
+            "Diinput Sebagai": getEnteredDescription(entry) || "-",
+            "Harga Satuan": entry.unit_cost != null ? Number(entry.unit_cost) : "-",
+            Nilai: entry.total_cost != null ? Number(entry.total_cost) : "-",
             Saldo: entry.quantity_after,
             "Oleh User": entry.created_by || "-"
         }));
@@ -147,18 +164,47 @@ const StockHistoryModal: React.FC<StockHistoryModalProps> = ({
             opening: "Stok Awal",
             restock: "Penambahan",
             request: "Permintaan",
+            issue: "Pengeluaran",
+            transfer: "Pindah Lokasi",
             adjustment: "Penyesuaian",
+            opname: "Stok Opname",
+            write_off: "Rusak/Hilang",
             closing: "Stok Akhir",
         };
         return labels[type] || type;
     };
 
+    // Where the movement happened; transfers show both ends
+    const getLocationDescription = (entry: StockHistoryEntry) => {
+        if (entry.change_type === "transfer") {
+            return `${entry.transfer_quantity ?? 0} × ${entry.location_name || "-"} → ${entry.to_location_name || "-"}`;
+        }
+        return entry.location_name || "";
+    };
+
+    // The quantity as it was entered, when that was in another unit than
+    // the stock unit, e.g. "2 box"
+    const getEnteredDescription = (entry: StockHistoryEntry) => {
+        if (!entry.entered_unit || entry.entered_quantity === null || entry.entered_quantity === undefined) {
+            return "";
+        }
+        return `${Math.abs(Number(entry.entered_quantity))} ${entry.entered_unit}`;
+    };
+
+    // What one stock unit of the movement cost, e.g. "@ 12,500"
+    const getCostDescription = (entry: StockHistoryEntry) =>
+        entry.unit_cost != null ? `@ ${Number(entry.unit_cost).toLocaleString()}` : "";
+
     const getChangeTypeColor = (type: string) => {
         const colors: Record<string, string> = {
             opening: "bg-blue-100 text-blue-800",
             restock: "bg-green-100 text-green-800",
             request: "bg-orange-100 text-orange-800",
+            issue: "bg-red-100 text-red-800",
+            transfer: "bg-teal-100 text-teal-800",
             adjustment: "bg-purple-100 text-purple-800",
+            opname: "bg-yellow-100 text-yellow-800",
+            write_off: "bg-red-100 text-red-800",
             closing: "bg-gray-100 text-gray-800",
         };
         return colors[type] || "bg-gray-100 text-gray-800";
@@ -255,6 +301,9 @@ const StockHistoryModal: React.FC<StockHistoryModalProps> = ({
                                             <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getChangeTypeColor(entry.change_type)}`}>
                                                 {getChangeTypeLabel(entry.change_type)}
                                             </span>
+                                            {getLocationDescription(entry) && (
+                                                <p className="text-xs text-gray-600 mt-1">{getLocationDescription(entry)}</p>
+                                            )}
                                             {entry.notes && (
                                                 <p className="text-xs text-gray-500 mt-1">{entry.notes}</p>
                                             )}
@@ -263,17 +312,29 @@ const StockHistoryModal: React.FC<StockHistoryModalProps> = ({
                                             {entry.quantity_change > 0 && (
                                                 <span className="text-green-600 font-medium flex items-center justify-center gap-1">
                                                     <TrendingUp className="h-4 w-4" />
-                                                    +{entry.quantity_change}
+                                                    +{entry.quantity_change} {entry.unit || "pcs"}
                                                 </span>
                                             )}
+                                            {entry.quantity_change > 0 && getEnteredDescription(entry) && (
+                                                <p className="text-xs text-gray-500">= {getEnteredDescription(entry)}</p>
+                                            )}
+                                            {entry.quantity_change > 0 && getCostDescription(entry) && (
+                                                <p className="text-xs text-gray-500">{getCostDescription(entry)}</p>
+                                            )}
                                         </td>
                                         <td className="px-4 py-3 text-center">
                                             {entry.quantity_change < 0 && (
                                                 <span className="text-red-600 font-medium flex items-center justify-center gap-1">
                                                     <TrendingDown className="h-4 w-4" />
-                                                    {entry.quantity_change}
+                                                    {entry.quantity_change} {entry.unit || "pcs"}
                                                 </span>
                                             )}
+                                            {entry.quantity_change < 0 && getEnteredDescription(entry) && (
+                                                <p className="text-xs text-gray-500">= {getEnteredDescription(entry)}</p>
+                                            )}
+                                            {entry.quantity_change < 0 && getCostDescription(entry) && (
+                                                <p className="text-xs text-gray-500">{getCostDescription(entry)}</p>
+                                            )}
                                         </td>
                                         {isSingleItem && (
                                             <td className="px-4 py-3 text-center font-semibold text-gray-900">
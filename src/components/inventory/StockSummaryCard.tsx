@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Package, TrendingUp, TrendingDown, Archive, RefreshCw } from 'lucide-react';
 import { Card, CardContent } from '../ui/Card';
 import { API_BASE_URL } from '../../config';
+import { authFetch } from "../../utils/authFetch";
 
 interface StockSummary {
     opening_stock: number;
@@ -25,7 +26,7 @@ const StockSummaryCard: React.FC<StockSummaryCardProps> = ({ refreshTrigger }) =
         try {
             setLoading(true);
             setError(null);
-            const response = await fetch(`${API_BASE_URL}/stock-summary`);
+            const response = await authFetch(`${API_BASE_URL}/stock-summary`);
             if (!response.ok) {
                 throw new Error('Failed to fetch stock summary');
             }
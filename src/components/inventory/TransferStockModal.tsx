@@ -0,0 +1,169 @@
+import React, { useState } from "react";
+import { Item, ItemLocationStock, Warehouse } from "../../types";
+import Input from "../ui/Input";
+import Select from "../ui/Select";
+import Textarea from "../ui/Textarea";
+import Button from "../ui/Button";
+import Alert from "../ui/Alert";
+import { X, ArrowLeftRight } from "lucide-react";
+import { itemService } from "../../services/itemService";
+import { getLocationLabel, getLocationOptions } from "../../utils/locationUtils";
+
+interface TransferStockModalProps {
+  item: Item;
+  warehouses: Warehouse[];
+  onClose: () => void;
+  // Called with where the item's stock is after the transfer
+  onTransferred: (locations: ItemLocationStock[]) => void;
+}
+
+/**
+ * Move stock of an item from one of the locations holding it to another
+ */
+const TransferStockModal: React.FC<TransferStockModalProps> = ({
+  item,
+  warehouses,
+  onClose,
+  onTransferred,
+}) => {
+  const sources = item.locations ?? [];
+  const [fromLocationId, setFromLocationId] = useState(
+    sources[0]?.location_id ?? ""
+  );
+  const [toLocationId, setToLocationId] = useState("");
+  const [quantity, setQuantity] = useState(1);
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const source = sources.find((location) => location.location_id === fromLocationId);
+  const fromOptions = sources.map((location) => ({
+    value: location.location_id,
+    label: `${getLocationLabel(location.warehouse_name, location.location_code)} (${location.quantity} ${item.unit || "pcs"})`,
+  }));
+  const toOptions = [
+    { value: "", label: "Choose a location" },
+    ...getLocationOptions(warehouses).filter(
+      (option) => option.value !== fromLocationId
+    ),
+  ];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!source || !toLocationId) return;
+
+    if (quantity < 1 || quantity > source.quantity) {
+      setError(`Enter a quantity between 1 and ${source.quantity}`);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const locations = await itemService.transferStock(
+        item.id,
+        fromLocationId,
+        toLocationId,
+        quantity,
+        reason || undefined
+      );
+      onTransferred(locations);
+      onClose();
+    } catch (err) {
+      console.error("Error transferring stock:", err);
+      setError(err instanceof Error ? err.message : "Failed to transfer stock");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+            <ArrowLeftRight className="h-5 w-5 text-blue-600 mr-2" />
+            Transfer {item.name}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <Alert
+            variant="error"
+            title="Error"
+            onDismiss={() => setError(null)}
+            className="mb-4"
+          >
+            {error}
+          </Alert>
+        )}
+
+        {sources.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            This item has no stock at any location to transfer.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <Select
+              label="From"
+              options={fromOptions}
+              value={fromLocationId}
+              onChange={(e) => {
+                setFromLocationId(e.target.value);
+                if (e.target.value === toLocationId) setToLocationId("");
+              }}
+              required
+              disabled={saving}
+            />
+            <Select
+              label="To"
+              options={toOptions}
+              value={toLocationId}
+              onChange={(e) => setToLocationId(e.target.value)}
+              required
+              disabled={saving}
+            />
+            <Input
+              label="Quantity"
+              type="number"
+              min="1"
+              max={source?.quantity}
+              value={quantity.toString()}
+              onChange={(e) => setQuantity(parseInt(e.target.value) || 0)}
+              required
+              disabled={saving}
+            />
+            <Textarea
+              label="Reason (optional)"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              disabled={saving}
+            />
+
+            <div className="mt-6 flex justify-end space-x-3">
+              <Button variant="outline" type="button" onClick={onClose} disabled={saving}>
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                type="submit"
+                isLoading={saving}
+                disabled={!toLocationId}
+              >
+                Transfer
+              </Button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TransferStockModal;
@@ -0,0 +1,165 @@
+import React, { useState } from "react";
+import { Unit, UnitConversion } from "../../types";
+import Button from "../ui/Button";
+import { Plus, Trash2 } from "lucide-react";
+import { unitService } from "../../services/unitService";
+
+interface UnitConversionsInputProps {
+  baseUnit: string;
+  value: UnitConversion[];
+  onChange: (conversions: UnitConversion[]) => void;
+  units: Unit[];
+  // Called with a unit created from here, so the caller can offer it too
+  onUnitCreated: (unit: Unit) => void;
+  disabled?: boolean;
+}
+
+interface ConversionRow {
+  unit: string;
+  factor: string;
+}
+
+/**
+ * Rows for the other units an item can be requested or moved in, each with
+ * how many of the item's own unit it holds, e.g. 1 box = 5 rim. Rows without
+ * a unit or a positive factor are left out.
+ */
+const UnitConversionsInput: React.FC<UnitConversionsInputProps> = ({
+  baseUnit,
+  value,
+  onChange,
+  units,
+  onUnitCreated,
+  disabled = false,
+}) => {
+  const [rows, setRows] = useState<ConversionRow[]>(
+    value.map((conversion) => ({
+      unit: conversion.unit,
+      factor: conversion.factor.toString(),
+    }))
+  );
+  const [newUnit, setNewUnit] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const updateRows = (nextRows: ConversionRow[]) => {
+    setRows(nextRows);
+    onChange(
+      nextRows
+        .filter((row) => row.unit && row.unit !== baseUnit && Number(row.factor) > 0)
+        .map((row) => ({ unit: row.unit, factor: Number(row.factor) }))
+    );
+  };
+
+  const updateRow = (index: number, changes: Partial<ConversionRow>) =>
+    updateRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  const handleCreateUnit = async () => {
+    if (!newUnit.trim()) return;
+    setError(null);
+    try {
+      const unit = await unitService.createUnit(newUnit.trim());
+      onUnitCreated(unit);
+      setNewUnit("");
+    } catch (err) {
+      console.error("Error creating unit:", err);
+      setError(err instanceof Error ? err.message : "Failed to create the unit");
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-1">
+        <span className="block text-sm font-medium text-gray-700">
+          Other units
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          type="button"
+          onClick={() => updateRows([...rows, { unit: "", factor: "" }])}
+          icon={<Plus className="h-4 w-4" />}
+          disabled={disabled}
+        >
+          Add
+        </Button>
+      </div>
+      {rows.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          Only {baseUnit}. Add a unit such as "1 box = 5 {baseUnit}" to let it be
+          requested and moved in boxes.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {rows.map((row, index) => (
+            <div key={index} className="flex items-center space-x-2 text-sm">
+              <span className="text-gray-500">1</span>
+              <select
+                value={row.unit}
+                onChange={(e) => updateRow(index, { unit: e.target.value })}
+                className="w-1/3 rounded-md border border-gray-300 px-2 py-1 text-sm"
+                aria-label="Unit"
+                disabled={disabled}
+              >
+                <option value="">Unit...</option>
+                {units
+                  .filter(
+                    (unit) =>
+                      unit.code !== baseUnit &&
+                      (unit.code === row.unit || !rows.some((other) => other.unit === unit.code))
+                  )
+                  .map((unit) => (
+                    <option key={unit.code} value={unit.code}>
+                      {unit.name}
+                    </option>
+                  ))}
+              </select>
+              <span className="text-gray-500">=</span>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                placeholder="e.g. 5"
+                value={row.factor}
+                onChange={(e) => updateRow(index, { factor: e.target.value })}
+                className="w-1/4 rounded-md border border-gray-300 px-2 py-1 text-sm"
+                aria-label={`${baseUnit} in one ${row.unit || "unit"}`}
+                disabled={disabled}
+              />
+              <span className="text-gray-500">{baseUnit}</span>
+              <button
+                type="button"
+                onClick={() => updateRows(rows.filter((_, i) => i !== index))}
+                className="text-red-600 hover:text-red-800"
+                disabled={disabled}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-2 flex items-center space-x-2">
+        <input
+          placeholder="New unit, e.g. lusin"
+          value={newUnit}
+          onChange={(e) => setNewUnit(e.target.value)}
+          className="flex-1 rounded-md border border-gray-300 px-2 py-1 text-sm"
+          disabled={disabled}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          type="button"
+          onClick={handleCreateUnit}
+          disabled={disabled || !newUnit.trim()}
+        >
+          Create unit
+        </Button>
+      </div>
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default UnitConversionsInput;
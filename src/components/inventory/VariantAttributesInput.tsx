@@ -0,0 +1,102 @@
+import React, { useState } from "react";
+import Button from "../ui/Button";
+import { Plus, Trash2 } from "lucide-react";
+
+interface VariantAttributesInputProps {
+  value: Record<string, string>;
+  onChange: (attributes: Record<string, string>) => void;
+  disabled?: boolean;
+}
+
+interface AttributeRow {
+  name: string;
+  value: string;
+}
+
+/**
+ * Name/value rows for the attributes that tell variants of a product apart,
+ * e.g. gsm 70 and gsm 80 for two kinds of A4 paper. Rows without both a name
+ * and a value are left out of the attributes.
+ */
+const VariantAttributesInput: React.FC<VariantAttributesInputProps> = ({
+  value,
+  onChange,
+  disabled = false,
+}) => {
+  const [rows, setRows] = useState<AttributeRow[]>(
+    Object.entries(value).map(([name, attributeValue]) => ({
+      name,
+      value: attributeValue,
+    }))
+  );
+
+  const updateRows = (nextRows: AttributeRow[]) => {
+    setRows(nextRows);
+    onChange(
+      Object.fromEntries(
+        nextRows
+          .filter((row) => row.name.trim() && row.value.trim())
+          .map((row) => [row.name.trim(), row.value.trim()])
+      )
+    );
+  };
+
+  const updateRow = (index: number, changes: Partial<AttributeRow>) =>
+    updateRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-1">
+        <span className="block text-sm font-medium text-gray-700">
+          Variant attributes
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          type="button"
+          onClick={() => updateRows([...rows, { name: "", value: "" }])}
+          icon={<Plus className="h-4 w-4" />}
+          disabled={disabled}
+        >
+          Add
+        </Button>
+      </div>
+      {rows.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          None. Add one such as "gsm: 80" to tell variants of a product apart.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {rows.map((row, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <input
+                placeholder="Name, e.g. gsm"
+                value={row.name}
+                onChange={(e) => updateRow(index, { name: e.target.value })}
+                className="w-1/2 rounded-md border border-gray-300 px-2 py-1 text-sm"
+                disabled={disabled}
+              />
+              <input
+                placeholder="Value, e.g. 80"
+                value={row.value}
+                onChange={(e) => updateRow(index, { value: e.target.value })}
+                className="w-1/2 rounded-md border border-gray-300 px-2 py-1 text-sm"
+                disabled={disabled}
+              />
+              <button
+                type="button"
+                onClick={() => updateRows(rows.filter((_, i) => i !== index))}
+                className="text-red-600 hover:text-red-800"
+                disabled={disabled}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VariantAttributesInput;
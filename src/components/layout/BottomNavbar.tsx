@@ -1,5 +1,6 @@
 import React, { useState } from "react";
 import { useAuth } from "../../contexts/AuthContext";
+import { usePermission } from "../../hooks/usePermission";
 import {
   Home,
   ShoppingBag,
@@ -11,12 +12,19 @@ import {
   LogOut,
   X,
   BarChart3,
+  ShieldCheck,
+  Warehouse,
+  ClipboardCheck,
+  ShoppingCart,
+  ScanLine,
+  Coins,
 } from "lucide-react";
 import { Link, useLocation, useNavigate } from "react-router-dom";
 import Button from "../ui/Button";
 
 const BottomNavbar: React.FC = () => {
-  const { user, isAuthenticated, isAdmin } = useAuth();
+  const { user, isAuthenticated } = useAuth();
+  const can = usePermission();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const location = useLocation();
   const navigate = useNavigate();
@@ -52,6 +60,12 @@ const BottomNavbar: React.FC = () => {
       label: "Requests",
       show: isAuthenticated,
     },
+    {
+      path: "/scan",
+      icon: ScanLine,
+      label: "Scan",
+      show: isAuthenticated,
+    },
   ];
 
   // Admin navigation items for menu
@@ -60,19 +74,49 @@ const BottomNavbar: React.FC = () => {
       path: "/inventory",
       icon: BoxIcon,
       label: "Inventory",
-      show: isAdmin,
+      show: can("items:write"),
+    },
+    {
+      path: "/stock-counts",
+      icon: ClipboardCheck,
+      label: "Stock Counts",
+      show: can("stock:count"),
+    },
+    {
+      path: "/purchase-orders",
+      icon: ShoppingCart,
+      label: "Purchase Orders",
+      show: can("purchasing:manage"),
     },
     {
       path: "/reports/monthly",
       icon: BarChart3,
       label: "Monthly Reports",
-      show: isAdmin,
+      show: can("reports:view"),
+    },
+    {
+      path: "/reports/valuation",
+      icon: Coins,
+      label: "Inventory Valuation",
+      show: can("reports:view"),
     },
     {
       path: "/users",
       icon: Users,
       label: "Users",
-      show: isAdmin && user?.role === "manager",
+      show: can("users:manage"),
+    },
+    {
+      path: "/approval-rules",
+      icon: ShieldCheck,
+      label: "Approval Rules",
+      show: can("approvals:manage"),
+    },
+    {
+      path: "/warehouses",
+      icon: Warehouse,
+      label: "Warehouses",
+      show: can("locations:manage"),
     },
   ];
 
@@ -240,7 +284,7 @@ const BottomNavbar: React.FC = () => {
           {/* Main navigation items */}
           {mainNavItems
             .filter((item) => item.show)
-            .slice(0, 3)
+            .slice(0, 4)
             .map((item) => {
               const Icon = item.icon;
               return (
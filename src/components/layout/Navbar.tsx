@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from "react";
 import { useAuth } from "../../contexts/AuthContext";
+import { usePermission } from "../../hooks/usePermission";
 import {
   BoxIcon,
   ShoppingBag,
@@ -10,6 +11,11 @@ import {
   User,
   ChevronDown,
   BarChart3,
+  ShieldCheck,
+  Warehouse,
+  ClipboardCheck,
+  ShoppingCart,
+  ScanLine,
   // MessageSquare removed
 } from "lucide-react";
 import Button from "../ui/Button";
@@ -19,7 +25,8 @@ import { Link, useLocation, useNavigate } from "react-router-dom";
 import { APP_NAME } from "../../config";
 
 const Navbar: React.FC = () => {
-  const { user, logout, isAuthenticated, isAdmin } = useAuth();
+  const { user, isAuthenticated } = useAuth();
+  const can = usePermission();
   const [scrolled, setScrolled] = useState(false);
   const [showProfileDropdown, setShowProfileDropdown] = useState(false);
   const location = useLocation();
@@ -127,44 +134,100 @@ const Navbar: React.FC = () => {
                     <ClipboardList className="h-4 w-4 mr-1" />
                     Requests
                   </Link>
+                  <Link
+                    to="/scan"
+                    className={`${isActive("/scan")
+                        ? "border-primary-500 text-primary-600"
+                        : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700"
+                      } inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium transition-colors duration-200`}
+                  >
+                    <ScanLine className="h-4 w-4 mr-1" />
+                    Scan
+                  </Link>
                   {/* Chat link removed */}
-                  {isAdmin && (
-                    <>
-                      <Link
-                        to="/inventory"
-                        className={`${isActive("/inventory")
-                            ? "border-primary-500 text-primary-600"
-                            : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700"
-                          } inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium transition-colors duration-200`}
-                      >
-                        <BoxIcon className="h-4 w-4 mr-1" />
-                        Inventory
-                      </Link>
-                      <Link
-                        to="/reports/monthly"
-                        className={`${isActive("/reports/monthly")
-                            ? "border-primary-500 text-primary-600"
-                            : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700"
-                          } inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium transition-colors duration-200`}
-                      >
-                        <BarChart3 className="h-4 w-4 mr-1" />
-                        Reports
-                      </Link>
-
-                      {/* Only show Users link for managers */}
-                      {user?.role === "manager" && (
-                        <Link
-                          to="/users"
-                          className={`${isActive("/users")
-                              ? "border-primary-500 text-primary-600"
-                              : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700"
-                            } inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium transition-colors duration-200`}
-                        >
-                          <Users className="h-4 w-4 mr-1" />
-                          Users
-                        </Link>
-                      )}
-                    </>
+                  {can("items:write") && (
+                    <Link
+                      to="/inventory"
+                      className={`${isActive("/inventory")
+                          ? "border-primary-500 text-primary-600"
+                          : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700"
+                        } inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium transition-colors duration-200`}
+                    >
+                      <BoxIcon className="h-4 w-4 mr-1" />
+                      Inventory
+                    </Link>
+                  )}
+                  {can("stock:count") && (
+                    <Link
+                      to="/stock-counts"
+                      className={`${isActive("/stock-counts")
+                          ? "border-primary-500 text-primary-600"
+                          : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700"
+                        } inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium transition-colors duration-200`}
+                    >
+                      <ClipboardCheck className="h-4 w-4 mr-1" />
+                      Stock Counts
+                    </Link>
+                  )}
+                  {can("purchasing:manage") && (
+                    <Link
+                      to="/purchase-orders"
+                      className={`${isActive("/purchase-orders")
+                          ? "border-primary-500 text-primary-600"
+                          : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700"
+                        } inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium transition-colors duration-200`}
+                    >
+                      <ShoppingCart className="h-4 w-4 mr-1" />
+                      Purchasing
+                    </Link>
+                  )}
+                  {can("reports:view") && (
+                    <Link
+                      to="/reports/monthly"
+                      className={`${isActive("/reports/monthly") || isActive("/reports/valuation")
+                          ? "border-primary-500 text-primary-600"
+                          : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700"
+                        } inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium transition-colors duration-200`}
+                    >
+                      <BarChart3 className="h-4 w-4 mr-1" />
+                      Reports
+                    </Link>
+                  )}
+                  {can("users:manage") && (
+                    <Link
+                      to="/users"
+                      className={`${isActive("/users")
+                          ? "border-primary-500 text-primary-600"
+                          : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700"
+                        } inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium transition-colors duration-200`}
+                    >
+                      <Users className="h-4 w-4 mr-1" />
+                      Users
+                    </Link>
+                  )}
+                  {can("approvals:manage") && (
+                    <Link
+                      to="/approval-rules"
+                      className={`${isActive("/approval-rules")
+                          ? "border-primary-500 text-primary-600"
+                          : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700"
+                        } inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium transition-colors duration-200`}
+                    >
+                      <ShieldCheck className="h-4 w-4 mr-1" />
+                      Approvals
+                    </Link>
+                  )}
+                  {can("locations:manage") && (
+                    <Link
+                      to="/warehouses"
+                      className={`${isActive("/warehouses")
+                          ? "border-primary-500 text-primary-600"
+                          : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700"
+                        } inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium transition-colors duration-200`}
+                    >
+                      <Warehouse className="h-4 w-4 mr-1" />
+                      Warehouses
+                    </Link>
                   )}
                 </>
               )}
@@ -0,0 +1,149 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { loanService, ItemAvailability } from "../../services/loanService";
+import { useLiveRefresh } from "../../hooks/useLiveRefresh";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+interface AvailabilityCalendarProps {
+  itemId: string;
+  // Days with less than this free are marked short
+  quantity?: number;
+  // A date range to highlight, e.g. the one being reserved (YYYY-MM-DD)
+  rangeStart?: string;
+  rangeEnd?: string;
+  // Called with the date of a day that is clicked
+  onSelectDate?: (date: string) => void;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * A month of an item's availability: how many are free on each day, and the
+ * loans and reservations booking it
+ */
+const AvailabilityCalendar: React.FC<AvailabilityCalendarProps> = ({
+  itemId,
+  quantity = 1,
+  rangeStart,
+  rangeEnd,
+  onSelectDate,
+}) => {
+  const [month, setMonth] = useState(() => {
+    const start = rangeStart ? new Date(`${rangeStart}T00:00:00`) : new Date();
+    return new Date(start.getFullYear(), start.getMonth(), 1);
+  });
+  const [availability, setAvailability] = useState<ItemAvailability | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const today = loanService.toDateString(new Date());
+  const from = loanService.toDateString(month);
+  const to = loanService.toDateString(new Date(month.getFullYear(), month.getMonth() + 1, 0));
+
+  const fetchAvailability = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setAvailability(await loanService.getItemAvailability(itemId, from, to));
+    } catch (err) {
+      console.error("Error fetching availability:", err);
+      setError(err instanceof Error ? err.message : "Failed to load availability");
+    } finally {
+      setLoading(false);
+    }
+  }, [itemId, from, to]);
+
+  useEffect(() => {
+    fetchAvailability();
+  }, [fetchAvailability]);
+
+  // Bookings made or changed elsewhere change what is free
+  useLiveRefresh(["loan_updated"], fetchAvailability);
+
+  const moveMonth = (months: number) =>
+    setMonth(new Date(month.getFullYear(), month.getMonth() + months, 1));
+
+  const getDayClasses = (date: string, available: number) => {
+    if (date < today) return "bg-gray-50 text-gray-400";
+    if (available === 0) return "bg-red-50 text-red-700";
+    if (available < quantity) return "bg-amber-50 text-amber-700";
+    return "bg-green-50 text-green-700";
+  };
+
+  const isInRange = (date: string) =>
+    !!rangeStart && date >= rangeStart && date <= (rangeEnd || rangeStart);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <button
+          type="button"
+          onClick={() => moveMonth(-1)}
+          className="p-1 rounded hover:bg-gray-100 text-gray-600"
+          aria-label="Previous month"
+        >
+          <ChevronLeft className="h-5 w-5" />
+        </button>
+        <span className="text-sm font-medium text-gray-900">
+          {month.toLocaleDateString("en-US", { month: "long", year: "numeric" })}
+        </span>
+        <button
+          type="button"
+          onClick={() => moveMonth(1)}
+          className="p-1 rounded hover:bg-gray-100 text-gray-600"
+          aria-label="Next month"
+        >
+          <ChevronRight className="h-5 w-5" />
+        </button>
+      </div>
+
+      {error && <p className="mb-2 text-sm text-red-600">{error}</p>}
+
+      <div className={`grid grid-cols-7 gap-1 text-center ${loading ? "opacity-50" : ""}`}>
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday} className="text-xs font-medium text-gray-500 py-1">
+            {weekday}
+          </div>
+        ))}
+        {Array.from({ length: month.getDay() }, (_, i) => (
+          <div key={`blank-${i}`} />
+        ))}
+        {availability?.days.map((day) => (
+          <button
+            key={day.date}
+            type="button"
+            onClick={() => onSelectDate?.(day.date)}
+            disabled={!onSelectDate || day.date < today}
+            className={`rounded p-1 text-xs ${getDayClasses(day.date, day.available)} ${
+              isInRange(day.date) ? "ring-2 ring-blue-500" : ""
+            } ${onSelectDate && day.date >= today ? "hover:ring-2 hover:ring-blue-300" : "cursor-default"}`}
+            title={`${day.available} of ${availability.quantity} free`}
+          >
+            <div className="font-medium">{Number(day.date.slice(8))}</div>
+            <div>{day.date < today ? "" : day.available}</div>
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-2 flex flex-wrap gap-3 text-xs text-gray-600">
+        <span className="flex items-center"><span className="mr-1 h-3 w-3 rounded bg-green-100" />Free</span>
+        <span className="flex items-center"><span className="mr-1 h-3 w-3 rounded bg-amber-100" />Fewer than {quantity} free</span>
+        <span className="flex items-center"><span className="mr-1 h-3 w-3 rounded bg-red-100" />Booked up</span>
+      </div>
+
+      {availability && availability.bookings.length > 0 && (
+        <ul className="mt-3 space-y-1 text-xs text-gray-600">
+          {availability.bookings.map((booking) => (
+            <li key={`${booking.type}-${booking.id}`}>
+              {booking.type === "loan" ? "On loan" : "Reserved"}: {booking.quantity} ·{" "}
+              {loanService.formatDate(`${booking.start_date}T00:00:00`)} –{" "}
+              {loanService.formatDate(`${booking.end_date}T00:00:00`)}
+              {booking.is_mine ? " (you)" : booking.user_name ? ` · ${booking.user_name}` : ""}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AvailabilityCalendar;
@@ -2,10 +2,12 @@ import React, { useState } from "react";
 import { Item } from "../../types";
 import { loanService, BorrowRequest } from "../../services/loanService";
 import { useAuth } from "../../contexts/AuthContext";
+import { LOAN_MAX_DAYS, LOAN_MAX_ADVANCE_DAYS } from "../../config";
 import Input from "../ui/Input";
 import Textarea from "../ui/Textarea";
 import Button from "../ui/Button";
 import Alert from "../ui/Alert";
+import AvailabilityCalendar from "./AvailabilityCalendar";
 import { X, Calendar, Package } from "lucide-react";
 
 interface BorrowItemModalProps {
@@ -14,32 +16,54 @@ interface BorrowItemModalProps {
   onSuccess: () => void;
 }
 
+// Borrow the item now, or reserve it for a later date range
+type BorrowMode = "now" | "reserve";
+
 const BorrowItemModal: React.FC<BorrowItemModalProps> = ({
   item,
   onClose,
   onSuccess,
 }) => {
   const { user } = useAuth();
+  const [mode, setMode] = useState<BorrowMode>("now");
   const [formData, setFormData] = useState({
     quantity: 1,
+    startDate: "",
     dueDate: "",
     notes: "",
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Calculate minimum due date (tomorrow)
-  const getMinDate = () => {
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    return tomorrow.toISOString().split('T')[0];
+  // A date some days from today, as YYYY-MM-DD
+  const getDateAfter = (days: number, from = new Date()) => {
+    const date = new Date(from);
+    date.setDate(date.getDate() + days);
+    return loanService.toDateString(date);
+  };
+
+  const today = loanService.toDateString(new Date());
+  // A loan starts today; a reservation on the day it is picked up
+  const startDate = mode === "now" ? today : formData.startDate;
+  const getMaxDueDate = () =>
+    startDate ? getDateAfter(LOAN_MAX_DAYS, new Date(`${startDate}T00:00:00`)) : undefined;
+
+  const changeMode = (nextMode: BorrowMode) => {
+    setMode(nextMode);
+    setFormData({ ...formData, startDate: "", dueDate: "" });
+    setError(null);
   };
 
-  // Calculate maximum due date (30 days from now)
-  const getMaxDate = () => {
-    const maxDate = new Date();
-    maxDate.setDate(maxDate.getDate() + 30);
-    return maxDate.toISOString().split('T')[0];
+  // Picking on the calendar sets the due date of a loan; for a reservation
+  // the first pick is the start date and the next the end date
+  const handleSelectDate = (date: string) => {
+    if (mode === "now") {
+      if (date > today) setFormData({ ...formData, dueDate: date });
+    } else if (!formData.startDate || formData.dueDate || date < formData.startDate) {
+      setFormData({ ...formData, startDate: date, dueDate: "" });
+    } else {
+      setFormData({ ...formData, dueDate: date });
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -66,30 +90,63 @@ const BorrowItemModal: React.FC<BorrowItemModalProps> = ({
       return;
     }
 
-    // Validate due date
+    // Validate dates
+    if (mode === "reserve" && !formData.startDate) {
+      setError("Pickup date is required");
+      setLoading(false);
+      return;
+    }
+
+    if (mode === "reserve" && formData.startDate > getDateAfter(LOAN_MAX_ADVANCE_DAYS)) {
+      setError(`Items can be reserved at most ${LOAN_MAX_ADVANCE_DAYS} days ahead`);
+      setLoading(false);
+      return;
+    }
+
     if (!formData.dueDate) {
       setError("Due date is required");
       setLoading(false);
       return;
     }
 
+    const maxDueDate = getMaxDueDate();
+    if (formData.dueDate < startDate || (maxDueDate && formData.dueDate > maxDueDate)) {
+      setError(`The due date must be within ${LOAN_MAX_DAYS} days of the pickup`);
+      setLoading(false);
+      return;
+    }
+
     try {
-      // Check availability first
+      // Check availability over the whole period first
       try {
         const isAvailable = await loanService.checkItemAvailability(
           item.id,
-          formData.quantity
+          formData.quantity,
+          startDate,
+          formData.dueDate
         );
 
         if (!isAvailable) {
-          setError("Item is not available for borrowing in the requested quantity");
+          setError("Item is not available for borrowing in the requested quantity on these dates");
           setLoading(false);
           return;
         }
       } catch (availabilityError: any) {
         console.warn("Availability check failed, proceeding with borrow attempt:", availabilityError);
-        // Continue with borrowing even if availability check fails
-        // This handles the case where the loans table doesn't exist yet
+        // Continue anyway; the server checks availability again when booking
+      }
+
+      if (mode === "reserve") {
+        await loanService.createReservation({
+          itemId: item.id,
+          quantity: formData.quantity,
+          startDate: formData.startDate,
+          endDate: formData.dueDate,
+          notes: formData.notes || undefined,
+        });
+        onSuccess();
+        onClose();
+        return;
       }
 
       const borrowRequest: BorrowRequest = {
@@ -114,7 +171,7 @@ const BorrowItemModal: React.FC<BorrowItemModalProps> = ({
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between p-6 border-b">
           <h2 className="text-xl font-semibold text-gray-900 flex items-center">
             <Package className="h-5 w-5 mr-2 text-blue-600" />
@@ -134,7 +191,7 @@ const BorrowItemModal: React.FC<BorrowItemModalProps> = ({
             <h3 className="font-medium text-gray-900 mb-2">{item.name}</h3>
             <p className="text-sm text-gray-600 mb-2">{item.description}</p>
             <div className="flex justify-between text-sm">
-              <span className="text-gray-500">Available:</span>
+              <span className="text-gray-500">Available now:</span>
               <span className="font-medium text-green-600">
                 {availableQuantity} of {item.quantity}
               </span>
@@ -148,11 +205,32 @@ const BorrowItemModal: React.FC<BorrowItemModalProps> = ({
           )}
 
           <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm">
+              {([
+                ["now", "Borrow now"],
+                ["reserve", "Reserve for later"],
+              ] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => changeMode(value)}
+                  className={`flex-1 px-3 py-2 font-medium ${
+                    mode === value
+                      ? "bg-blue-600 text-white"
+                      : "bg-white text-gray-700 hover:bg-gray-50"
+                  }`}
+                  disabled={loading}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
             <Input
               label="Quantity"
               type="number"
               min="1"
-              max={availableQuantity}
+              max={mode === "reserve" ? item.quantity : availableQuantity}
               value={formData.quantity.toString()}
               onChange={(e) =>
                 setFormData({
@@ -164,16 +242,42 @@ const BorrowItemModal: React.FC<BorrowItemModalProps> = ({
               disabled={loading}
             />
 
+            {mode === "reserve" && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Pickup Date
+                </label>
+                <div className="relative">
+                  <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <input
+                    type="date"
+                    min={today}
+                    max={getDateAfter(LOAN_MAX_ADVANCE_DAYS)}
+                    value={formData.startDate}
+                    onChange={(e) =>
+                      setFormData({ ...formData, startDate: e.target.value })
+                    }
+                    className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                    disabled={loading}
+                  />
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Up to {LOAN_MAX_ADVANCE_DAYS} days ahead
+                </p>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Due Date
+                {mode === "reserve" ? "Return Date" : "Due Date"}
               </label>
               <div className="relative">
                 <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
                 <input
                   type="date"
-                  min={getMinDate()}
-                  max={getMaxDate()}
+                  min={mode === "now" ? getDateAfter(1) : formData.startDate || today}
+                  max={getMaxDueDate()}
                   value={formData.dueDate}
                   onChange={(e) =>
                     setFormData({ ...formData, dueDate: e.target.value })
@@ -184,10 +288,23 @@ const BorrowItemModal: React.FC<BorrowItemModalProps> = ({
                 />
               </div>
               <p className="text-xs text-gray-500 mt-1">
-                Maximum loan period: 30 days
+                Maximum loan period: {LOAN_MAX_DAYS} days
               </p>
             </div>
 
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-1">
+                Availability
+              </span>
+              <AvailabilityCalendar
+                itemId={item.id}
+                quantity={formData.quantity}
+                rangeStart={startDate || undefined}
+                rangeEnd={formData.dueDate || undefined}
+                onSelectDate={handleSelectDate}
+              />
+            </div>
+
             <Textarea
               label="Notes (Optional)"
               value={formData.notes}
@@ -212,9 +329,13 @@ const BorrowItemModal: React.FC<BorrowItemModalProps> = ({
                 variant="primary"
                 type="submit"
                 isLoading={loading}
-                disabled={availableQuantity === 0}
+                disabled={mode === "now" && availableQuantity === 0}
               >
-                {availableQuantity === 0 ? "Not Available" : "Borrow Item"}
+                {mode === "reserve"
+                  ? "Reserve Item"
+                  : availableQuantity === 0
+                  ? "Not Available"
+                  : "Request Loan"}
               </Button>
             </div>
           </form>
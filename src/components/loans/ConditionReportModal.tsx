@@ -0,0 +1,327 @@
+import React, { useState, useEffect } from "react";
+import { loanService, Loan, LoanCondition } from "../../services/loanService";
+import { warehouseService } from "../../services/warehouseService";
+import { assetService, AssetUnit } from "../../services/assetService";
+import { getDefaultLocation, getLocationOptions } from "../../utils/locationUtils";
+import { getAttachmentError } from "../../utils/attachmentUtils";
+import { ATTACHMENT_MAX_FILES } from "../../config";
+import Input from "../ui/Input";
+import Select from "../ui/Select";
+import Textarea from "../ui/Textarea";
+import Button from "../ui/Button";
+import Alert from "../ui/Alert";
+import { X, Camera, ClipboardCheck } from "lucide-react";
+
+interface ConditionReportModalProps {
+  loan: Loan;
+  // Handing the equipment out, or taking it back
+  stage: "check_out" | "check_in";
+  onClose: () => void;
+  onSuccess: (loan: Loan) => void;
+}
+
+const CONDITION_OPTIONS: { value: LoanCondition; label: string }[] = [
+  { value: "good", label: "Good" },
+  { value: "fair", label: "Fair - signs of use" },
+  { value: "poor", label: "Poor - works, but worn" },
+  { value: "damaged", label: "Damaged" },
+  { value: "lost", label: "Lost" },
+];
+
+/**
+ * Check a loan's equipment out or in, reporting the condition it is in with
+ * notes and photos. Equipment checked in damaged or lost is written off
+ * stock, all of the loan or only some of it. Items with asset units are
+ * checked out by choosing the units handed over, and written off by unit.
+ */
+const ConditionReportModal: React.FC<ConditionReportModalProps> = ({
+  loan,
+  stage,
+  onClose,
+  onSuccess,
+}) => {
+  const [condition, setCondition] = useState<LoanCondition>("good");
+  const [notes, setNotes] = useState("");
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [quantity, setQuantity] = useState(loan.quantity);
+  const [locationId, setLocationId] = useState("");
+  const [locationOptions, setLocationOptions] = useState<{ value: string; label: string }[]>([]);
+  // Units of the item in service (check-out), and those chosen
+  const [assetUnits, setAssetUnits] = useState<AssetUnit[]>([]);
+  const [unitIds, setUnitIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isCheckOut = stage === "check_out";
+  const writtenOff = condition === "damaged" || condition === "lost";
+  const hasUnits = isCheckOut ? assetUnits.length > 0 : loan.units.length > 0;
+
+  useEffect(() => {
+    if (!isCheckOut) return;
+    assetService
+      .getUnits(loan.itemId)
+      .then((units) =>
+        setAssetUnits(units.filter((unit) => unit.status !== "retired" && unit.status !== "lost"))
+      )
+      .catch((err) => console.error("Error fetching asset units:", err));
+  }, [isCheckOut, loan.itemId]);
+
+  useEffect(() => {
+    if (isCheckOut) return;
+    warehouseService
+      .getWarehouses()
+      .then((warehouses) => {
+        setLocationOptions(getLocationOptions(warehouses));
+        setLocationId(getDefaultLocation(warehouses)?.id ?? "");
+      })
+      .catch((err) => console.error("Error fetching locations:", err));
+  }, [isCheckOut]);
+
+  const handlePhotos = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = [...photos, ...Array.from(e.target.files ?? [])];
+    e.target.value = "";
+
+    const fileError = files.map(getAttachmentError).find(Boolean);
+    if (fileError) {
+      setError(fileError);
+      return;
+    }
+    if (files.length > ATTACHMENT_MAX_FILES) {
+      setError(`At most ${ATTACHMENT_MAX_FILES} photos can be added`);
+      return;
+    }
+    setError(null);
+    setPhotos(files);
+  };
+
+  const toggleUnit = (unitId: string) =>
+    setUnitIds((prev) =>
+      prev.includes(unitId) ? prev.filter((id) => id !== unitId) : [...prev, unitId]
+    );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (hasUnits && isCheckOut && unitIds.length !== loan.quantity) {
+      setError(`Choose the ${loan.quantity} unit(s) handed out`);
+      return;
+    }
+    if (hasUnits && writtenOff && unitIds.length === 0) {
+      setError(`Choose the units ${condition}`);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const report = {
+        condition,
+        notes: notes.trim() || undefined,
+        photos,
+        ...(writtenOff
+          ? { locationId: locationId || undefined, ...(hasUnits ? { unitIds } : { quantity }) }
+          : {}),
+        ...(isCheckOut && hasUnits ? { unitIds } : {}),
+      };
+      onSuccess(
+        isCheckOut
+          ? await loanService.checkOutLoan(loan.id, report)
+          : await loanService.checkInLoan(loan.id, report)
+      );
+      onClose();
+    } catch (err) {
+      console.error("Error reporting loan condition:", err);
+      setError(err instanceof Error ? err.message : "Failed to save the condition report");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+            <ClipboardCheck className="h-5 w-5 mr-2 text-blue-600" />
+            {isCheckOut ? "Check Out" : "Check In"}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          <div className="mb-6 p-4 bg-gray-50 rounded-lg text-sm">
+            <p className="font-medium text-gray-900">
+              {loan.itemName} × {loan.quantity}
+            </p>
+            {loan.userName && <p className="text-gray-600">Borrower: {loan.userName}</p>}
+            {loan.units.length > 0 && (
+              <p className="text-gray-600">
+                Units: {loan.units.map((unit) => unit.serialNumber).join(", ")}
+              </p>
+            )}
+          </div>
+
+          {error && (
+            <Alert variant="error" className="mb-4">
+              {error}
+            </Alert>
+          )}
+
+          <form onSubmit={handleSubmit}>
+            <Select
+              label="Condition"
+              options={CONDITION_OPTIONS.filter(
+                (option) => !isCheckOut || (option.value !== "damaged" && option.value !== "lost")
+              )}
+              value={condition}
+              onChange={(e) => setCondition(e.target.value as LoanCondition)}
+              disabled={loading}
+            />
+
+            {isCheckOut && hasUnits && (
+              <fieldset className="mb-4">
+                <legend className="block text-sm font-medium text-gray-700 mb-1">
+                  Units handed out ({unitIds.length}/{loan.quantity})
+                </legend>
+                <div className="max-h-40 overflow-y-auto rounded-md border p-2 space-y-1">
+                  {assetUnits.map((unit) => (
+                    <label
+                      key={unit.id}
+                      className={`flex items-center text-sm ${
+                        unit.status === "available" ? "text-gray-700" : "text-gray-400"
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        className="mr-2"
+                        checked={unitIds.includes(unit.id)}
+                        onChange={() => toggleUnit(unit.id)}
+                        disabled={
+                          loading ||
+                          unit.status !== "available" ||
+                          (!unitIds.includes(unit.id) && unitIds.length >= loan.quantity)
+                        }
+                      />
+                      {unit.serialNumber}
+                      {unit.status !== "available" && ` (${unit.status.replace("_", " ")})`}
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+            )}
+
+            {writtenOff && (
+              <>
+                {hasUnits ? (
+                  <fieldset className="mb-4">
+                    <legend className="block text-sm font-medium text-gray-700 mb-1">
+                      Units {condition}
+                    </legend>
+                    <div className="rounded-md border p-2 space-y-1">
+                      {loan.units.map((unit) => (
+                        <label key={unit.id} className="flex items-center text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            className="mr-2"
+                            checked={unitIds.includes(unit.id)}
+                            onChange={() => toggleUnit(unit.id)}
+                            disabled={loading}
+                          />
+                          {unit.serialNumber}
+                        </label>
+                      ))}
+                    </div>
+                  </fieldset>
+                ) : (
+                  <Input
+                    label={`Units ${condition}`}
+                    type="number"
+                    min="1"
+                    max={loan.quantity}
+                    value={quantity.toString()}
+                    onChange={(e) => setQuantity(parseInt(e.target.value) || 1)}
+                    disabled={loading}
+                  />
+                )}
+                {locationOptions.length > 1 && (
+                  <Select
+                    label="Write off from"
+                    options={locationOptions}
+                    value={locationId}
+                    onChange={(e) => setLocationId(e.target.value)}
+                    disabled={loading}
+                  />
+                )}
+                <p className="mb-4 text-xs text-amber-700">
+                  These units will be written off stock.
+                </p>
+              </>
+            )}
+
+            <Textarea
+              label="Notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Scratches, missing accessories, battery level..."
+              rows={3}
+              disabled={loading}
+            />
+
+            <div className="mb-4">
+              <label className="inline-flex items-center cursor-pointer text-sm font-medium text-blue-600 hover:text-blue-800">
+                <Camera className="h-4 w-4 mr-1" />
+                Add photos
+                <input
+                  type="file"
+                  accept="image/*"
+                  capture="environment"
+                  multiple
+                  onChange={handlePhotos}
+                  className="hidden"
+                  disabled={loading}
+                />
+              </label>
+              {photos.length > 0 && (
+                <ul className="mt-2 space-y-1 text-xs text-gray-600">
+                  {photos.map((photo, index) => (
+                    <li key={`${photo.name}-${index}`} className="flex items-center justify-between">
+                      <span className="truncate">{photo.name}</span>
+                      <button
+                        type="button"
+                        onClick={() => setPhotos(photos.filter((_, i) => i !== index))}
+                        className="ml-2 text-red-600 hover:text-red-800"
+                        disabled={loading}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-2">
+              <Button variant="outline" onClick={onClose} type="button" disabled={loading}>
+                Cancel
+              </Button>
+              <Button
+                variant={writtenOff ? "danger" : "primary"}
+                type="submit"
+                isLoading={loading}
+              >
+                {isCheckOut ? "Check Out" : "Check In"}
+              </Button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConditionReportModal;
@@ -0,0 +1,136 @@
+import React, { useState } from "react";
+import { loanService, Loan } from "../../services/loanService";
+import { LOAN_MAX_DAYS } from "../../config";
+import Textarea from "../ui/Textarea";
+import Button from "../ui/Button";
+import Alert from "../ui/Alert";
+import { X, Calendar, CalendarPlus } from "lucide-react";
+
+interface ExtendLoanModalProps {
+  loan: Loan;
+  onClose: () => void;
+  onSuccess: (loan: Loan) => void;
+}
+
+/**
+ * Ask for a loan to be due later. Staff who manage loans approve or reject
+ * the request; the equipment must not be booked by anyone else on the days
+ * added.
+ */
+const ExtendLoanModal: React.FC<ExtendLoanModalProps> = ({ loan, onClose, onSuccess }) => {
+  const [dueDate, setDueDate] = useState("");
+  const [reason, setReason] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A date some days after another (YYYY-MM-DD)
+  const getDateAfter = (date: string, days: number) => {
+    const next = new Date(`${date}T00:00:00`);
+    next.setDate(next.getDate() + days);
+    return loanService.toDateString(next);
+  };
+
+  const today = loanService.toDateString(new Date());
+  const minDate = getDateAfter(loan.dueDate > today ? loan.dueDate : today, 1);
+  const maxDate = getDateAfter(loan.dueDate, LOAN_MAX_DAYS);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!dueDate) {
+      setError("Choose the new due date");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      onSuccess(await loanService.requestExtension(loan.id, dueDate, reason.trim() || undefined));
+      onClose();
+    } catch (err) {
+      console.error("Error requesting loan extension:", err);
+      setError(err instanceof Error ? err.message : "Failed to request the extension");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+            <CalendarPlus className="h-5 w-5 mr-2 text-blue-600" />
+            Request Extension
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          <div className="mb-6 p-4 bg-gray-50 rounded-lg text-sm">
+            <p className="font-medium text-gray-900">
+              {loan.itemName} × {loan.quantity}
+            </p>
+            <p className="text-gray-600">
+              Currently due: {loanService.formatDate(`${loan.dueDate}T00:00:00`)}
+            </p>
+          </div>
+
+          {error && (
+            <Alert variant="error" className="mb-4">
+              {error}
+            </Alert>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                New Due Date
+              </label>
+              <div className="relative">
+                <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <input
+                  type="date"
+                  min={minDate}
+                  max={maxDate}
+                  value={dueDate}
+                  onChange={(e) => setDueDate(e.target.value)}
+                  className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                  disabled={loading}
+                />
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Up to {LOAN_MAX_DAYS} days past the current due date
+              </p>
+            </div>
+
+            <Textarea
+              label="Reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Why do you need it longer?"
+              rows={3}
+              disabled={loading}
+            />
+
+            <div className="flex justify-end space-x-3 pt-2">
+              <Button variant="outline" onClick={onClose} type="button" disabled={loading}>
+                Cancel
+              </Button>
+              <Button variant="primary" type="submit" isLoading={loading}>
+                Request Extension
+              </Button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExtendLoanModal;
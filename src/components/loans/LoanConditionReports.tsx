@@ -0,0 +1,89 @@
+import React, { useState, useEffect } from "react";
+import { loanService, ConditionPhoto, ConditionReport } from "../../services/loanService";
+import { Image } from "lucide-react";
+
+interface LoanConditionReportsProps {
+  loanId: string;
+  reports: ConditionReport[];
+}
+
+const CONDITION_COLORS: Record<string, string> = {
+  good: "text-green-700",
+  fair: "text-blue-700",
+  poor: "text-amber-700",
+  damaged: "text-red-700",
+  lost: "text-red-700",
+};
+
+// A photo of a report, fetched with the access token when it is first shown
+const ConditionPhotoThumbnail: React.FC<{ loanId: string; photo: ConditionPhoto }> = ({
+  loanId,
+  photo,
+}) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    loanService
+      .getConditionPhotoUrl(loanId, photo.id)
+      .then((photoUrl) => {
+        objectUrl = photoUrl;
+        setUrl(photoUrl);
+      })
+      .catch((err) => console.error("Error loading condition photo:", err));
+    return () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [loanId, photo.id]);
+
+  return url ? (
+    <a href={url} target="_blank" rel="noopener noreferrer" title={photo.fileName}>
+      <img src={url} alt={photo.fileName} className="h-16 w-16 rounded object-cover border" />
+    </a>
+  ) : (
+    <div className="h-16 w-16 rounded border bg-gray-50 flex items-center justify-center">
+      <Image className="h-5 w-5 text-gray-300" />
+    </div>
+  );
+};
+
+/**
+ * The condition a loan's equipment was checked out and back in, with the
+ * photos taken at each hand-over
+ */
+const LoanConditionReports: React.FC<LoanConditionReportsProps> = ({ loanId, reports }) => {
+  if (reports.length === 0) return null;
+
+  return (
+    <div className="mt-3 space-y-2">
+      {reports.map((report) => (
+        <div key={report.id} className="rounded-md bg-gray-50 p-3 text-sm">
+          <p className="text-gray-700">
+            <span className="font-medium">
+              {report.stage === "check_out" ? "Checked out" : "Checked in"}:
+            </span>{" "}
+            <span className={`font-medium capitalize ${CONDITION_COLORS[report.condition] || ""}`}>
+              {report.condition}
+            </span>
+            {report.affectedQuantity > 0 && ` (${report.affectedQuantity} written off)`}
+            <span className="text-xs text-gray-500">
+              {" "}
+              • {loanService.formatDate(report.createdAt)}
+              {report.recordedByName && ` by ${report.recordedByName}`}
+            </span>
+          </p>
+          {report.notes && <p className="mt-1 text-gray-600 italic">"{report.notes}"</p>}
+          {report.photos.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-2">
+              {report.photos.map((photo) => (
+                <ConditionPhotoThumbnail key={photo.id} loanId={loanId} photo={photo} />
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default LoanConditionReports;
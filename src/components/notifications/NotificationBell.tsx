@@ -1,7 +1,23 @@
 import React, { useState, useEffect } from "react";
-import { Bell, X, Check, AlertCircle, CheckCircle, XCircle } from "lucide-react";
+import {
+  Bell,
+  X,
+  Check,
+  AlertCircle,
+  CheckCircle,
+  XCircle,
+  ClipboardCheck,
+  Clock,
+  AlertTriangle,
+  CalendarPlus,
+  PackageMinus,
+  Inbox,
+  Settings,
+} from "lucide-react";
 import { useAuth } from "../../contexts/AuthContext";
 import { notificationService, Notification } from "../../services/notificationService";
+import { useLiveRefresh } from "../../hooks/useLiveRefresh";
+import NotificationPreferencesModal from "./NotificationPreferencesModal";
 
 const NotificationBell: React.FC = () => {
   const { user } = useAuth();
@@ -9,6 +25,7 @@ const NotificationBell: React.FC = () => {
   const [unreadCount, setUnreadCount] = useState(0);
   const [isOpen, setIsOpen] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [showPreferences, setShowPreferences] = useState(false);
 
   // Fetch notifications and unread count
   const fetchNotifications = async () => {
@@ -35,11 +52,9 @@ const NotificationBell: React.FC = () => {
     fetchNotifications();
   }, [user?.id]);
 
-  // Poll for new notifications every 30 seconds
-  useEffect(() => {
-    const interval = setInterval(fetchNotifications, 30000);
-    return () => clearInterval(interval);
-  }, [user?.id]);
+  // Refresh as soon as a new notification is pushed, polling every 30
+  // seconds while live updates are unavailable
+  useLiveRefresh(["notification"], fetchNotifications, { enabled: !!user?.id });
 
   // Mark notification as read
   const markAsRead = async (notificationId: string) => {
@@ -92,11 +107,27 @@ const NotificationBell: React.FC = () => {
       case 'request_approved':
         return <CheckCircle className="h-5 w-5 text-green-500" />;
       case 'request_rejected':
+      case 'loan_extension_rejected':
         return <XCircle className="h-5 w-5 text-red-500" />;
       case 'request_fulfilled':
         return <Check className="h-5 w-5 text-blue-500" />;
       case 'request_submitted':
         return <AlertCircle className="h-5 w-5 text-yellow-500" />;
+      case 'approval_required':
+        return <ClipboardCheck className="h-5 w-5 text-amber-500" />;
+      case 'loan_due_soon':
+        return <Clock className="h-5 w-5 text-amber-500" />;
+      case 'loan_overdue':
+      case 'loan_overdue_escalated':
+        return <AlertTriangle className="h-5 w-5 text-red-500" />;
+      case 'loan_extension_requested':
+        return <CalendarPlus className="h-5 w-5 text-blue-500" />;
+      case 'loan_extension_approved':
+        return <CheckCircle className="h-5 w-5 text-green-500" />;
+      case 'stock_low':
+        return <PackageMinus className="h-5 w-5 text-amber-500" />;
+      case 'digest':
+        return <Inbox className="h-5 w-5 text-blue-500" />;
       default:
         return <Bell className="h-5 w-5 text-gray-500" />;
     }
@@ -146,6 +177,16 @@ const NotificationBell: React.FC = () => {
                   Mark all read
                 </button>
               )}
+              <button
+                onClick={() => {
+                  setIsOpen(false);
+                  setShowPreferences(true);
+                }}
+                className="text-gray-400 hover:text-gray-600"
+                title="Notification preferences"
+              >
+                <Settings className="h-5 w-5" />
+              </button>
               <button
                 onClick={() => setIsOpen(false)}
                 className="text-gray-400 hover:text-gray-600"
@@ -179,7 +220,7 @@ const NotificationBell: React.FC = () => {
                     </div>
                     <div className="flex-1 min-w-0">
                       <p
-                        className={`text-sm ${
+                        className={`text-sm whitespace-pre-line ${
                           !notification.is_read
                             ? "font-semibold text-gray-900"
                             : "text-gray-700"
@@ -232,6 +273,10 @@ const NotificationBell: React.FC = () => {
         </div>
       )}
 
+      {showPreferences && (
+        <NotificationPreferencesModal onClose={() => setShowPreferences(false)} />
+      )}
+
       {/* Backdrop to close dropdown when clicking outside */}
       {isOpen && (
         <div
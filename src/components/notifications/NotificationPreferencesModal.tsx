@@ -0,0 +1,247 @@
+import React, { useState, useEffect } from "react";
+import {
+  notificationService,
+  NotificationPreferences,
+  NotificationPreferenceType,
+} from "../../services/notificationService";
+import { categoryService } from "../../services/categoryService";
+import Button from "../ui/Button";
+import Alert from "../ui/Alert";
+import { X, Settings } from "lucide-react";
+
+interface NotificationPreferencesModalProps {
+  onClose: () => void;
+}
+
+const TYPE_GROUPS: { label: string; types: { value: NotificationPreferenceType; label: string }[] }[] = [
+  {
+    label: "Requests",
+    types: [
+      { value: "approval_required", label: "Requests waiting for my approval" },
+      { value: "request_approved", label: "My requests approved" },
+      { value: "request_rejected", label: "My requests rejected" },
+      { value: "comment_added", label: "Comments and mentions" },
+    ],
+  },
+  {
+    label: "Loans",
+    types: [
+      { value: "loan_due_soon", label: "My loans due soon" },
+      { value: "loan_overdue", label: "My loans overdue" },
+      { value: "loan_overdue_escalated", label: "Loans overdue for days" },
+      { value: "loan_extension_requested", label: "Extension requests" },
+      { value: "loan_extension_approved", label: "My extensions approved" },
+      { value: "loan_extension_rejected", label: "My extensions rejected" },
+    ],
+  },
+  {
+    label: "Stock",
+    types: [{ value: "stock_low", label: "Items running low" }],
+  },
+];
+
+const timeInputClass =
+  "border border-gray-300 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+/**
+ * Choose which notifications to get, for which item categories, when to be
+ * left alone and whether to get them as one daily digest
+ */
+const NotificationPreferencesModal: React.FC<NotificationPreferencesModalProps> = ({ onClose }) => {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [categoryOptions, setCategoryOptions] = useState<{ value: string; label: string }[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    notificationService
+      .getPreferences()
+      .then(setPreferences)
+      .catch((err) => {
+        console.error("Error fetching notification preferences:", err);
+        setError(err instanceof Error ? err.message : "Failed to load your preferences");
+      });
+    categoryService
+      .getCategoryOptions()
+      .then(setCategoryOptions)
+      .catch((err) => console.error("Error fetching categories:", err));
+  }, []);
+
+  const update = (changes: Partial<NotificationPreferences>) =>
+    setPreferences((prev) => (prev ? { ...prev, ...changes } : prev));
+
+  const toggle = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter((entry) => entry !== value) : [...list, value];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!preferences) return;
+    if (Boolean(preferences.quiet_hours_start) !== Boolean(preferences.quiet_hours_end)) {
+      setError("Quiet hours need both a start and an end");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await notificationService.updatePreferences(preferences);
+      onClose();
+    } catch (err) {
+      console.error("Error saving notification preferences:", err);
+      setError(err instanceof Error ? err.message : "Failed to save your preferences");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const quietHours = Boolean(preferences?.quiet_hours_start || preferences?.quiet_hours_end);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+            <Settings className="h-5 w-5 mr-2 text-blue-600" />
+            Notification Preferences
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {error && (
+            <Alert variant="error" className="mb-4">
+              {error}
+            </Alert>
+          )}
+
+          {!preferences ? (
+            !error && <p className="py-6 text-center text-sm text-gray-500">Loading preferences...</p>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {TYPE_GROUPS.map((group) => (
+                <fieldset key={group.label}>
+                  <legend className="text-sm font-medium text-gray-900 mb-2">{group.label}</legend>
+                  <div className="space-y-1">
+                    {group.types.map((type) => (
+                      <label key={type.value} className="flex items-center text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          className="mr-2"
+                          checked={!preferences.muted_types.includes(type.value)}
+                          onChange={() =>
+                            update({ muted_types: toggle(preferences.muted_types, type.value) })
+                          }
+                          disabled={saving}
+                        />
+                        {type.label}
+                      </label>
+                    ))}
+                  </div>
+                </fieldset>
+              ))}
+
+              {categoryOptions.length > 0 && (
+                <fieldset>
+                  <legend className="text-sm font-medium text-gray-900 mb-1">Categories</legend>
+                  <p className="text-xs text-gray-500 mb-2">
+                    Only get notifications about items of the categories ticked; tick none to get
+                    all of them. Your own requests and loans are always included.
+                  </p>
+                  <div className="grid grid-cols-2 gap-1">
+                    {categoryOptions.map((category) => (
+                      <label key={category.value} className="flex items-center text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          className="mr-2"
+                          checked={preferences.categories.includes(category.value)}
+                          onChange={() =>
+                            update({ categories: toggle(preferences.categories, category.value) })
+                          }
+                          disabled={saving}
+                        />
+                        {category.label}
+                      </label>
+                    ))}
+                  </div>
+                </fieldset>
+              )}
+
+              <fieldset>
+                <legend className="text-sm font-medium text-gray-900 mb-2">Delivery</legend>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={quietHours}
+                    onChange={() =>
+                      update(
+                        quietHours
+                          ? { quiet_hours_start: null, quiet_hours_end: null }
+                          : { quiet_hours_start: "22:00", quiet_hours_end: "07:00" }
+                      )
+                    }
+                    disabled={saving}
+                  />
+                  Quiet hours from
+                  <input
+                    type="time"
+                    className={`mx-2 ${timeInputClass}`}
+                    value={preferences.quiet_hours_start ?? ""}
+                    onChange={(e) => update({ quiet_hours_start: e.target.value || null })}
+                    disabled={saving || !quietHours}
+                  />
+                  to
+                  <input
+                    type="time"
+                    className={`ml-2 ${timeInputClass}`}
+                    value={preferences.quiet_hours_end ?? ""}
+                    onChange={(e) => update({ quiet_hours_end: e.target.value || null })}
+                    disabled={saving || !quietHours}
+                  />
+                </label>
+
+                <label className="mt-3 flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={preferences.digest}
+                    onChange={() => update({ digest: !preferences.digest })}
+                    disabled={saving}
+                  />
+                  One daily digest at
+                  <input
+                    type="time"
+                    className={`ml-2 ${timeInputClass}`}
+                    value={preferences.digest_time}
+                    onChange={(e) => update({ digest_time: e.target.value })}
+                    disabled={saving || !preferences.digest}
+                    required
+                  />
+                </label>
+                {preferences.time_zone && (
+                  <p className="mt-2 text-xs text-gray-500">Times are in {preferences.time_zone}.</p>
+                )}
+              </fieldset>
+
+              <div className="flex justify-end space-x-3 pt-2">
+                <Button variant="outline" onClick={onClose} type="button" disabled={saving}>
+                  Cancel
+                </Button>
+                <Button variant="primary" type="submit" isLoading={saving}>
+                  Save
+                </Button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationPreferencesModal;
@@ -0,0 +1,178 @@
+import React, { useState, useEffect } from "react";
+import { Item, PurchaseOrder, Supplier } from "../../types";
+import Select from "../ui/Select";
+import Button from "../ui/Button";
+import Alert from "../ui/Alert";
+import { X, ShoppingCart } from "lucide-react";
+import { itemService } from "../../services/itemService";
+import { supplierService } from "../../services/supplierService";
+import { purchaseOrderService } from "../../services/purchaseOrderService";
+
+interface LowStockOrderModalProps {
+  onClose: () => void;
+  onCreated: (order: PurchaseOrder) => void;
+}
+
+// Low-stock items listed for ordering at once
+const LOW_STOCK_PAGE_SIZE = 100;
+
+/**
+ * Draft a purchase order for low-stock items. The server works out how much
+ * of each to order, taking into account what is already on order.
+ */
+const LowStockOrderModal: React.FC<LowStockOrderModalProps> = ({
+  onClose,
+  onCreated,
+}) => {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [items, setItems] = useState<Item[]>([]);
+  const [supplierId, setSupplierId] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [activeSuppliers, lowStock] = await Promise.all([
+          supplierService.getSuppliers(),
+          itemService.queryItems({
+            lowStock: true,
+            sort: "quantity",
+            pageSize: LOW_STOCK_PAGE_SIZE,
+          }),
+        ]);
+        setSuppliers(activeSuppliers);
+        setItems(lowStock.items);
+        setSelectedIds(lowStock.items.map((item) => item.id));
+      } catch (err) {
+        console.error("Error loading low-stock items:", err);
+        setError("Failed to load low-stock items and suppliers.");
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const toggleItem = (itemId: string) =>
+    setSelectedIds(
+      selectedIds.includes(itemId)
+        ? selectedIds.filter((id) => id !== itemId)
+        : [...selectedIds, itemId]
+    );
+
+  const handleCreate = async () => {
+    if (!supplierId || selectedIds.length === 0) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      onCreated(await purchaseOrderService.createFromLowStock(supplierId, selectedIds));
+      onClose();
+    } catch (err) {
+      console.error("Error creating purchase order:", err);
+      setError(err instanceof Error ? err.message : "Failed to create purchase order");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+            <ShoppingCart className="h-5 w-5 text-blue-600 mr-2" />
+            Order Low-Stock Items
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <Alert
+            variant="error"
+            title="Error"
+            onDismiss={() => setError(null)}
+            className="mb-4"
+          >
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-600">Loading low-stock items...</p>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-gray-600">No items are low on stock.</p>
+        ) : (
+          <>
+            <Select
+              label="Supplier"
+              options={[
+                { value: "", label: "Choose a supplier" },
+                ...suppliers.map((supplier) => ({
+                  value: supplier.id,
+                  label: supplier.name,
+                })),
+              ]}
+              value={supplierId}
+              onChange={(e) => setSupplierId(e.target.value)}
+              required
+              disabled={saving}
+            />
+            {suppliers.length === 0 && (
+              <p className="-mt-2 mb-4 text-xs text-gray-500">
+                Add a supplier on the Suppliers page first.
+              </p>
+            )}
+
+            <p className="mb-2 text-sm text-gray-600">
+              Each item is ordered back up to twice its minimum stock, less what
+              is already on order.
+            </p>
+            <ul className="mb-4 max-h-64 overflow-y-auto divide-y divide-gray-200 border rounded-md">
+              {items.map((item) => (
+                <li key={item.id} className="px-3 py-2">
+                  <label className="flex items-center justify-between text-sm">
+                    <span className="flex items-center">
+                      <input
+                        type="checkbox"
+                        className="mr-2 rounded border-gray-300"
+                        checked={selectedIds.includes(item.id)}
+                        onChange={() => toggleItem(item.id)}
+                        disabled={saving}
+                      />
+                      {item.name}
+                    </span>
+                    <span className="text-gray-500">
+                      {item.quantity} / min {item.minQuantity} {item.unit || "pcs"}
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex justify-end space-x-3">
+              <Button variant="outline" onClick={onClose} disabled={saving}>
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                onClick={handleCreate}
+                isLoading={saving}
+                disabled={!supplierId || selectedIds.length === 0}
+              >
+                Create Draft Order
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LowStockOrderModal;
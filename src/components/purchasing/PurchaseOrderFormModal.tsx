@@ -0,0 +1,245 @@
+import React, { useState, useEffect } from "react";
+import { Item, PurchaseOrder, Supplier } from "../../types";
+import { PurchaseOrderInput } from "../../services/purchaseOrderService";
+import Input from "../ui/Input";
+import Select from "../ui/Select";
+import Textarea from "../ui/Textarea";
+import Button from "../ui/Button";
+import ItemPicker from "../inventory/ItemPicker";
+import { X, Save, Plus, Trash2 } from "lucide-react";
+
+interface PurchaseOrderFormModalProps {
+  // A draft being edited; a new order otherwise
+  order?: PurchaseOrder | null;
+  suppliers: Supplier[];
+  onClose: () => void;
+  onSave: (order: PurchaseOrderInput) => Promise<void>;
+  isOpen: boolean;
+}
+
+interface LineDraft {
+  itemId: string;
+  itemName: string;
+  unit: string;
+  quantity: string;
+  // Empty for the item's own price
+  unitPrice: string;
+}
+
+const PurchaseOrderFormModal: React.FC<PurchaseOrderFormModalProps> = ({
+  order,
+  suppliers,
+  onClose,
+  onSave,
+  isOpen,
+}) => {
+  const [supplierId, setSupplierId] = useState("");
+  const [expectedDate, setExpectedDate] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<LineDraft[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setSupplierId(order?.supplier_id ?? "");
+    setExpectedDate(order?.expected_date ? order.expected_date.slice(0, 10) : "");
+    setNotes(order?.notes ?? "");
+    setLines(
+      (order?.lines ?? []).map((line) => ({
+        itemId: line.item_id,
+        itemName: line.item_name,
+        unit: line.unit || "pcs",
+        quantity: line.quantity_ordered.toString(),
+        unitPrice: line.unit_price.toString(),
+      }))
+    );
+    setError(null);
+  }, [order, isOpen]);
+
+  const addItem = (item: Item) => {
+    setLines([
+      ...lines,
+      {
+        itemId: item.id,
+        itemName: item.name,
+        unit: item.unit || "pcs",
+        quantity: "1",
+        unitPrice: item.price ? item.price.toString() : "",
+      },
+    ]);
+  };
+
+  const updateLine = (index: number, changes: Partial<LineDraft>) =>
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!supplierId) {
+      setError("Choose a supplier");
+      return;
+    }
+    if (lines.length === 0) {
+      setError("Add at least one item");
+      return;
+    }
+    if (lines.some((line) => !Number.isInteger(Number(line.quantity)) || Number(line.quantity) < 1)) {
+      setError("Quantities must be whole numbers of at least 1");
+      return;
+    }
+    if (lines.some((line) => line.unitPrice !== "" && !(Number(line.unitPrice) >= 0))) {
+      setError("Unit prices cannot be negative");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      await onSave({
+        supplierId,
+        expectedDate: expectedDate || undefined,
+        notes: notes || undefined,
+        lines: lines.map((line) => ({
+          itemId: line.itemId,
+          quantity: Number(line.quantity),
+          unitPrice: line.unitPrice === "" ? undefined : Number(line.unitPrice),
+        })),
+      });
+      onClose();
+    } catch (err) {
+      console.error("Error saving purchase order:", err);
+      setError(err instanceof Error ? err.message : "Failed to save purchase order. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const supplierOptions = [
+    { value: "", label: "Choose a supplier" },
+    ...suppliers.map((supplier) => ({ value: supplier.id, label: supplier.name })),
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-xl font-semibold text-gray-800">
+            {order ? `Edit ${order.po_number}` : "New Purchase Order"}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 focus:outline-none"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Select
+              label="Supplier"
+              id="po-supplier"
+              value={supplierId}
+              onChange={(e) => setSupplierId(e.target.value)}
+              options={supplierOptions}
+              required
+            />
+            <Input
+              label="Expected delivery"
+              id="po-expected-date"
+              type="date"
+              value={expectedDate}
+              onChange={(e) => setExpectedDate(e.target.value)}
+            />
+          </div>
+
+          <ItemPicker
+            id="po-item-picker"
+            label="Add item"
+            onSelect={addItem}
+            excludeIds={lines.map((line) => line.itemId)}
+          />
+
+          {lines.length > 0 && (
+            <table className="min-w-full mb-4 text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="py-2">Item</th>
+                  <th className="py-2 w-24">Quantity</th>
+                  <th className="py-2 w-32">Unit price</th>
+                  <th className="py-2 w-10" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {lines.map((line, index) => (
+                  <tr key={line.itemId}>
+                    <td className="py-2 pr-2 text-gray-900">
+                      {line.itemName}
+                      <span className="ml-1 text-gray-500">({line.unit})</span>
+                    </td>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="number"
+                        min="1"
+                        value={line.quantity}
+                        onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                        className="w-full rounded-md border border-gray-300 px-2 py-1"
+                      />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        placeholder="Item price"
+                        value={line.unitPrice}
+                        onChange={(e) => updateLine(index, { unitPrice: e.target.value })}
+                        className="w-full rounded-md border border-gray-300 px-2 py-1"
+                      />
+                    </td>
+                    <td className="py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <Textarea
+            label="Notes"
+            id="po-notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+
+          {error && <div className="text-red-500 text-sm mt-2">{error}</div>}
+
+          <div className="flex justify-end mt-6 space-x-3">
+            <Button variant="outline" onClick={onClose} type="button">
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              type="submit"
+              isLoading={loading}
+              icon={order ? <Save className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+            >
+              {order ? "Save Changes" : "Create Draft"}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PurchaseOrderFormModal;
@@ -0,0 +1,153 @@
+import React, { useState, useEffect } from "react";
+import { Supplier } from "../../types";
+import { SupplierInput } from "../../services/supplierService";
+import Input from "../ui/Input";
+import Textarea from "../ui/Textarea";
+import Button from "../ui/Button";
+import { X, Save, Plus } from "lucide-react";
+
+interface SupplierFormModalProps {
+  supplier?: Supplier | null;
+  onClose: () => void;
+  onSave: (supplier: SupplierInput) => Promise<void>;
+  isOpen: boolean;
+}
+
+const emptySupplier: SupplierInput = {
+  name: "",
+  contact_name: "",
+  email: "",
+  phone: "",
+  address: "",
+  notes: "",
+};
+
+const SupplierFormModal: React.FC<SupplierFormModalProps> = ({
+  supplier,
+  onClose,
+  onSave,
+  isOpen,
+}) => {
+  const [form, setForm] = useState<SupplierInput>(emptySupplier);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setForm(
+      supplier
+        ? {
+            name: supplier.name,
+            contact_name: supplier.contact_name ?? "",
+            email: supplier.email ?? "",
+            phone: supplier.phone ?? "",
+            address: supplier.address ?? "",
+            notes: supplier.notes ?? "",
+          }
+        : emptySupplier
+    );
+    setError(null);
+  }, [supplier, isOpen]);
+
+  const update = (field: keyof SupplierInput, value: string) =>
+    setForm({ ...form, [field]: value });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name?.trim()) {
+      setError("Name is required");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await onSave(form);
+      onClose();
+    } catch (err) {
+      console.error("Error saving supplier:", err);
+      setError(err instanceof Error ? err.message : "Failed to save supplier. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-xl font-semibold text-gray-800">
+            {supplier ? "Edit Supplier" : "Add Supplier"}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 focus:outline-none"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4">
+          <Input
+            label="Name"
+            id="supplier-name"
+            value={form.name}
+            onChange={(e) => update("name", e.target.value)}
+            required
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Contact person"
+              id="supplier-contact"
+              value={form.contact_name ?? ""}
+              onChange={(e) => update("contact_name", e.target.value)}
+            />
+            <Input
+              label="Phone"
+              id="supplier-phone"
+              value={form.phone ?? ""}
+              onChange={(e) => update("phone", e.target.value)}
+            />
+          </div>
+          <Input
+            label="Email"
+            id="supplier-email"
+            type="email"
+            value={form.email ?? ""}
+            onChange={(e) => update("email", e.target.value)}
+          />
+          <Textarea
+            label="Address"
+            id="supplier-address"
+            value={form.address ?? ""}
+            onChange={(e) => update("address", e.target.value)}
+          />
+          <Textarea
+            label="Notes"
+            id="supplier-notes"
+            value={form.notes ?? ""}
+            onChange={(e) => update("notes", e.target.value)}
+          />
+
+          {error && <div className="text-red-500 text-sm mt-2">{error}</div>}
+
+          <div className="flex justify-end mt-6 space-x-3">
+            <Button variant="outline" onClick={onClose} type="button">
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              type="submit"
+              isLoading={loading}
+              icon={supplier ? <Save className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+            >
+              {supplier ? "Save Changes" : "Add Supplier"}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SupplierFormModal;
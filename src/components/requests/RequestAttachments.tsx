@@ -0,0 +1,327 @@
+import React, { useState, useEffect } from "react";
+import { RequestAttachment } from "../../types";
+import { useAuth } from "../../contexts/AuthContext";
+import { usePermission } from "../../hooks/usePermission";
+import { attachmentService } from "../../services/attachmentService";
+import {
+  formatFileSize,
+  getAttachmentError,
+  isPreviewableAttachment,
+} from "../../utils/attachmentUtils";
+import { ATTACHMENT_EXTENSIONS, ATTACHMENT_MAX_FILES } from "../../config";
+import Button from "../ui/Button";
+import Alert from "../ui/Alert";
+import {
+  Paperclip,
+  FileText,
+  Image,
+  Eye,
+  Download,
+  Trash2,
+  Upload,
+  X,
+  Loader,
+} from "lucide-react";
+
+interface RequestAttachmentsProps {
+  attachments: RequestAttachment[];
+  // Request the attachments belong to; needed to upload new ones
+  requestId?: string;
+  // Called with the new list after an upload or delete. Without it the list
+  // is read-only.
+  onChange?: (attachments: RequestAttachment[]) => void;
+  // Show the attachments as a single line of file names, e.g. on cards
+  compact?: boolean;
+}
+
+/**
+ * Files attached to a request, with preview for images and PDFs and
+ * download for everything else
+ */
+const RequestAttachments: React.FC<RequestAttachmentsProps> = ({
+  attachments,
+  requestId,
+  onChange,
+  compact = false,
+}) => {
+  const { user } = useAuth();
+  const can = usePermission();
+  const [preview, setPreview] = useState<{
+    attachment: RequestAttachment;
+    url: string;
+  } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Release the previewed file when the preview is closed or replaced
+  useEffect(() => {
+    return () => {
+      if (preview) URL.revokeObjectURL(preview.url);
+    };
+  }, [preview]);
+
+  const handleOpen = async (attachment: RequestAttachment) => {
+    setBusyId(attachment.id);
+    setError(null);
+    try {
+      if (isPreviewableAttachment(attachment.content_type)) {
+        const url = await attachmentService.getAttachmentUrl(attachment, true);
+        setPreview({ attachment, url });
+      } else {
+        await attachmentService.downloadAttachment(attachment);
+      }
+    } catch (err) {
+      console.error("Error opening attachment:", err);
+      setError((err as Error).message || "Failed to open attachment");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDownload = async (attachment: RequestAttachment) => {
+    setBusyId(attachment.id);
+    setError(null);
+    try {
+      await attachmentService.downloadAttachment(attachment);
+    } catch (err) {
+      console.error("Error downloading attachment:", err);
+      setError((err as Error).message || "Failed to download attachment");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (attachment: RequestAttachment) => {
+    if (!onChange) return;
+    if (!window.confirm(`Delete the attachment "${attachment.file_name}"?`)) {
+      return;
+    }
+
+    setBusyId(attachment.id);
+    setError(null);
+    try {
+      await attachmentService.deleteAttachment(attachment);
+      onChange(attachments.filter((a) => a.id !== attachment.id));
+    } catch (err) {
+      console.error("Error deleting attachment:", err);
+      setError((err as Error).message || "Failed to delete attachment");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (!requestId || !onChange || files.length === 0) return;
+
+    const fileError = files.map(getAttachmentError).find(Boolean);
+    if (fileError) {
+      setError(fileError);
+      return;
+    }
+    if (files.length > ATTACHMENT_MAX_FILES) {
+      setError(`At most ${ATTACHMENT_MAX_FILES} files can be attached at once`);
+      return;
+    }
+
+    setUploading(true);
+    setError(null);
+    try {
+      onChange(await attachmentService.uploadAttachments(requestId, files));
+    } catch (err) {
+      console.error("Error uploading attachments:", err);
+      setError((err as Error).message || "Failed to upload attachments");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const canDelete = (attachment: RequestAttachment) =>
+    !!onChange &&
+    ((!!user && attachment.uploaded_by === user.id) || can("requests:delete"));
+
+  const getFileIcon = (attachment: RequestAttachment) =>
+    attachment.content_type.startsWith("image/") ? (
+      <Image className="h-5 w-5 text-blue-600 flex-shrink-0" />
+    ) : (
+      <FileText className="h-5 w-5 text-blue-600 flex-shrink-0" />
+    );
+
+  const previewModal = preview && (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      onClick={() => setPreview(null)}
+    >
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-4xl mx-4 max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-lg font-semibold text-gray-800 truncate">
+            {preview.attachment.file_name}
+          </h2>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleDownload(preview.attachment)}
+              icon={<Download className="h-4 w-4" />}
+            >
+              Download
+            </Button>
+            <button
+              onClick={() => setPreview(null)}
+              className="text-gray-500 hover:text-gray-700 focus:outline-none"
+              aria-label="Close preview"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+        <div className="flex-1 overflow-auto p-4 flex justify-center bg-gray-50">
+          {preview.attachment.content_type === "application/pdf" ? (
+            <iframe
+              src={preview.url}
+              title={preview.attachment.file_name}
+              className="w-full h-[70vh] border-0"
+            />
+          ) : (
+            <img
+              src={preview.url}
+              alt={preview.attachment.file_name}
+              className="max-w-full max-h-[70vh] object-contain"
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
+  if (compact) {
+    if (attachments.length === 0) return null;
+
+    return (
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Paperclip className="h-4 w-4 text-gray-500" />
+        {attachments.map((attachment) => (
+          <button
+            key={attachment.id}
+            type="button"
+            onClick={() => handleOpen(attachment)}
+            disabled={busyId === attachment.id}
+            className="text-blue-600 hover:text-blue-800 hover:underline truncate max-w-[12rem]"
+            title={`${attachment.file_name} (${formatFileSize(attachment.size)})`}
+          >
+            {attachment.file_name}
+          </button>
+        ))}
+        {error && <span className="text-red-600">{error}</span>}
+        {previewModal}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {error && (
+        <Alert
+          variant="error"
+          title="Error"
+          onDismiss={() => setError(null)}
+          className="mb-4"
+        >
+          {error}
+        </Alert>
+      )}
+
+      {attachments.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">No files attached.</p>
+      ) : (
+        <ul className="space-y-2 mb-4">
+          {attachments.map((attachment) => (
+            <li
+              key={attachment.id}
+              className="flex items-center justify-between gap-2 bg-gray-50 p-2 rounded"
+            >
+              <div className="flex items-center min-w-0">
+                {getFileIcon(attachment)}
+                <div className="ml-2 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {attachment.file_name}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatFileSize(attachment.size)}
+                    {attachment.uploaded_by_name &&
+                      ` · Uploaded by ${attachment.uploaded_by_name}`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex flex-shrink-0">
+                {busyId === attachment.id ? (
+                  <Loader className="h-4 w-4 animate-spin text-gray-500 m-2" />
+                ) : (
+                  <>
+                    {isPreviewableAttachment(attachment.content_type) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleOpen(attachment)}
+                        icon={<Eye className="h-4 w-4" />}
+                      >
+                        Preview
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDownload(attachment)}
+                      icon={<Download className="h-4 w-4" />}
+                    >
+                      Download
+                    </Button>
+                    {canDelete(attachment) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(attachment)}
+                        icon={<Trash2 className="h-4 w-4" />}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        Delete
+                      </Button>
+                    )}
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {onChange && requestId && (
+        <label className="inline-flex items-center cursor-pointer bg-white py-2 px-3 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50">
+          {uploading ? (
+            <Loader className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Upload className="h-4 w-4 mr-2" />
+          )}
+          <span>{uploading ? "Uploading..." : "Attach files"}</span>
+          <input
+            type="file"
+            className="sr-only"
+            multiple
+            accept={ATTACHMENT_EXTENSIONS.join(",")}
+            onChange={handleUpload}
+            disabled={uploading}
+          />
+        </label>
+      )}
+
+      {previewModal}
+    </div>
+  );
+};
+
+export default RequestAttachments;
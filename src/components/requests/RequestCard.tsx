@@ -1,14 +1,35 @@
 import React from "react";
 import { Link } from "react-router-dom";
-import { ItemRequest, RequestStatus } from "../../types";
+import { ItemRequest, RequestLineStatus, RequestStatus } from "../../types";
+import {
+  describeApprover,
+  formatRequestStatus,
+  getCurrentApprovalSteps,
+  isAwaitingApproval,
+} from "../../utils/requestUtils";
 import { Card, CardContent } from "../ui/Card";
 import Badge from "../ui/Badge";
 import Button from "../ui/Button";
-import { Clock, Calendar, ExternalLink, Edit, Trash2 } from "lucide-react";
+import RequestAttachments from "./RequestAttachments";
+import {
+  Clock,
+  Calendar,
+  ExternalLink,
+  Edit,
+  Trash2,
+  CheckCircle,
+  XCircle,
+} from "lucide-react";
+import { formatWithBaseUnit } from "../../utils/unitUtils";
 
 interface RequestCardProps {
   request: ItemRequest;
   onStatusChange?: (id: string, status: RequestStatus) => void;
+  onLineStatusChange?: (
+    id: string,
+    lineId: string,
+    status: RequestLineStatus
+  ) => void;
   onEdit?: (request: ItemRequest) => void;
   onDelete?: (id: string) => void;
   isAdmin?: boolean;
@@ -17,6 +38,7 @@ interface RequestCardProps {
 const RequestCard: React.FC<RequestCardProps> = ({
   request,
   onStatusChange,
+  onLineStatusChange,
   onEdit,
   onDelete,
   isAdmin = false,
@@ -31,16 +53,30 @@ const RequestCard: React.FC<RequestCardProps> = ({
     description,
     requestedDeliveryDate,
     createdAt,
+    projectName,
+    items = [],
+    approvals = [],
+    attachments = [],
   } = request;
 
+  const isMultiItem = items.length > 1;
+  const isOpen = isAwaitingApproval(status);
+  const currentSteps = getCurrentApprovalSteps(approvals);
+  // Lines are only decided at the last step of the approval chain
+  const isLastApprovalStage =
+    approvals.filter((step) => step.status === "pending").length <= 1;
+
   const getStatusVariant = (status: RequestStatus) => {
     switch (status) {
       case "approved":
         return "success";
       case "pending":
+      case "in_review":
         return "warning";
       case "rejected":
         return "danger";
+      case "partially_fulfilled":
+        return "primary";
       case "completed":
         return "secondary";
       default:
@@ -48,6 +84,17 @@ const RequestCard: React.FC<RequestCardProps> = ({
     }
   };
 
+  const getLineStatusVariant = (status: RequestLineStatus) => {
+    switch (status) {
+      case "approved":
+        return "success";
+      case "rejected":
+        return "danger";
+      default:
+        return "warning";
+    }
+  };
+
   const getPriorityVariant = (priority: string) => {
     switch (priority) {
       case "high":
@@ -109,10 +156,10 @@ const RequestCard: React.FC<RequestCardProps> = ({
           <div>
             <div className="flex items-center">
               <h3 className="text-lg font-semibold text-gray-900">
-                {itemName}
+                {isMultiItem ? projectName || itemName : itemName}
               </h3>
               <Badge variant={getStatusVariant(status)} className="ml-2">
-                {status.charAt(0).toUpperCase() + status.slice(1)}
+                {formatRequestStatus(status)}
               </Badge>
             </div>
             <div className="flex items-center mt-2 text-sm text-gray-600">
@@ -121,17 +168,84 @@ const RequestCard: React.FC<RequestCardProps> = ({
               <Calendar className="h-4 w-4 ml-4 mr-1" />
               <span>Delivery: {formatDateOnly(requestedDeliveryDate)}</span>
             </div>
+            {isOpen && currentSteps.length > 0 && (
+              <p className="mt-1 text-sm text-amber-700">
+                Awaiting:{" "}
+                {currentSteps
+                  .map((step) => `${step.name} (${describeApprover(step)})`)
+                  .join(", ")}
+              </p>
+            )}
           </div>
           <div className="mt-3 md:mt-0 flex items-center">
             <Badge variant={getPriorityVariant(priority)}>
               {priority.charAt(0).toUpperCase() + priority.slice(1)} Priority
             </Badge>
             <span className="ml-3 text-gray-700 bg-gray-100 px-2 py-1 rounded text-sm">
-              Qty: {quantity} {unit || 'pcs'}
+              {isMultiItem
+                ? `${items.length} items`
+                : `Qty: ${quantity} ${unit || 'pcs'}`}
             </span>
           </div>
         </div>
 
+        {isMultiItem && (
+          <ul className="mb-4 divide-y divide-gray-100 border border-gray-200 rounded-md">
+            {items.map((line) => (
+              <li
+                key={line.id}
+                className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 text-sm"
+              >
+                <span className="text-gray-900">
+                  {line.name}
+                  <span className="ml-2 text-gray-500">
+                    {formatWithBaseUnit(
+                      line.requested_quantity,
+                      line.unit,
+                      line.quantity,
+                      line.base_unit
+                    )}
+                    {line.status === "approved" &&
+                      line.approved_quantity !== null &&
+                      line.approved_quantity < line.quantity &&
+                      ` (${line.approved_quantity} ${line.base_unit} approved)`}
+                  </span>
+                </span>
+                {isAdmin &&
+                isOpen &&
+                isLastApprovalStage &&
+                line.status === "pending" &&
+                onLineStatusChange ? (
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-green-600 hover:text-green-800"
+                      icon={<CheckCircle className="h-4 w-4" />}
+                      onClick={() => onLineStatusChange(id, line.id, "approved")}
+                    >
+                      Approve
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600 hover:text-red-800"
+                      icon={<XCircle className="h-4 w-4" />}
+                      onClick={() => onLineStatusChange(id, line.id, "rejected")}
+                    >
+                      Reject
+                    </Button>
+                  </div>
+                ) : (
+                  <Badge variant={getLineStatusVariant(line.status)}>
+                    {formatRequestStatus(line.status)}
+                  </Badge>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
         {description && (
           <div className="mb-4 text-gray-700 text-sm border-l-4 border-gray-200 pl-3 py-1 bg-gray-50">
             {description.length > 150
@@ -140,6 +254,12 @@ const RequestCard: React.FC<RequestCardProps> = ({
           </div>
         )}
 
+        {attachments.length > 0 && (
+          <div className="mb-4">
+            <RequestAttachments attachments={attachments} compact />
+          </div>
+        )}
+
         <div className="border-t border-gray-200 pt-4 mt-2">
           <div className="flex flex-wrap gap-2 justify-between items-center">
             <div className="flex gap-2">
@@ -184,14 +304,14 @@ const RequestCard: React.FC<RequestCardProps> = ({
                 variant="outline"
                 size="sm"
                 icon={<ExternalLink className="h-4 w-4" />}
-                to={`/requests/${encodeURIComponent(itemName)}`}
+                to={`/requests/${encodeURIComponent(id)}`}
                 as={Link}
               >
                 View Details
               </Button>
             </div>
 
-            {isAdmin && status === "pending" && onStatusChange && (
+            {isAdmin && isOpen && onStatusChange && (
               <div className="flex gap-2">
                 <Button
                   variant="success"
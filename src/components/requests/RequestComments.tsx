@@ -0,0 +1,491 @@
+import React, { useState, useEffect, useRef } from "react";
+import { ItemRequest, RequestComment, RequestParticipant } from "../../types";
+import { useAuth } from "../../contexts/AuthContext";
+import { commentService } from "../../services/commentService";
+import Button from "../ui/Button";
+import Alert from "../ui/Alert";
+import {
+  MessageSquare,
+  Reply,
+  Edit,
+  Trash2,
+  Send,
+  Loader,
+  User,
+} from "lucide-react";
+
+interface MentionInputProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  participants: RequestParticipant[];
+  placeholder?: string;
+  disabled?: boolean;
+  rows?: number;
+}
+
+/**
+ * Comment textarea that suggests participants while an @mention is typed
+ */
+const MentionInput: React.FC<MentionInputProps> = ({
+  id,
+  value,
+  onChange,
+  participants,
+  placeholder,
+  disabled = false,
+  rows = 3,
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  // The word being typed after an @, if the caret is in one
+  const updateQuery = (text: string, caret: number) => {
+    const match = /(?:^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+    setQuery(match ? match[1] : null);
+    setActiveIndex(0);
+  };
+
+  const suggestions =
+    query === null
+      ? []
+      : participants
+          .filter((participant) =>
+            participant.name.toLowerCase().startsWith(query.toLowerCase())
+          )
+          .slice(0, 5);
+
+  const insertMention = (participant: RequestParticipant) => {
+    const caret = textareaRef.current?.selectionStart ?? value.length;
+    const start = value.slice(0, caret).lastIndexOf("@");
+    const mention = `@${participant.name} `;
+    onChange(value.slice(0, start) + mention + value.slice(caret));
+    setQuery(null);
+
+    // Put the caret back after the inserted mention
+    const nextCaret = start + mention.length;
+    setTimeout(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((index) => Math.min(index + 1, suggestions.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((index) => Math.max(index - 1, 0));
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      insertMention(suggestions[activeIndex]);
+    } else if (e.key === "Escape") {
+      setQuery(null);
+    }
+  };
+
+  return (
+    <div className="relative w-full">
+      <textarea
+        ref={textareaRef}
+        id={id}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateQuery(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setTimeout(() => setQuery(null), 150)}
+        placeholder={placeholder}
+        disabled={disabled}
+        rows={rows}
+        className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+      />
+
+      {suggestions.length > 0 && (
+        <ul
+          role="listbox"
+          className="absolute z-20 w-64 bg-white border border-gray-200 rounded-md shadow-lg"
+        >
+          {suggestions.map((participant, index) => (
+            <li
+              key={participant.id}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => insertMention(participant)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`px-3 py-2 cursor-pointer text-sm ${
+                index === activeIndex ? "bg-primary-50" : ""
+              }`}
+            >
+              <span className="font-medium text-gray-900">{participant.name}</span>
+              <span className="ml-2 text-gray-500 capitalize">{participant.role}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+interface RequestCommentsProps {
+  request: ItemRequest;
+}
+
+/**
+ * Discussion thread of a request. Requesters and approvers can comment,
+ * reply, mention each other with @name and edit or delete their own comments.
+ */
+const RequestComments: React.FC<RequestCommentsProps> = ({ request }) => {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<RequestComment[]>([]);
+  const [participants, setParticipants] = useState<RequestParticipant[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newComment, setNewComment] = useState("");
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editBody, setEditBody] = useState("");
+
+  useEffect(() => {
+    const fetchComments = async () => {
+      setLoading(true);
+      try {
+        const [comments, participants] = await Promise.all([
+          commentService.getComments(request.id),
+          commentService.getParticipants(request.id),
+        ]);
+        setComments(comments);
+        setParticipants(participants);
+      } catch (err) {
+        console.error("Error fetching comments:", err);
+        setError("Failed to load comments");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchComments();
+  }, [request.id]);
+
+  const handleAddComment = async (body: string, parentId?: string) => {
+    if (!body.trim()) return false;
+
+    setSaving(true);
+    try {
+      const comment = await commentService.addComment(request.id, body, parentId);
+      setComments((prev) => [...prev, comment]);
+      return true;
+    } catch (err) {
+      console.error("Error adding comment:", err);
+      setError((err as Error).message || "Failed to add comment");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdateComment = async (commentId: string) => {
+    if (!editBody.trim()) return;
+
+    setSaving(true);
+    try {
+      const updated = await commentService.updateComment(
+        request.id,
+        commentId,
+        editBody
+      );
+      setComments((prev) =>
+        prev.map((comment) => (comment.id === commentId ? updated : comment))
+      );
+      setEditingId(null);
+    } catch (err) {
+      console.error("Error updating comment:", err);
+      setError((err as Error).message || "Failed to update comment");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteComment = async (commentId: string) => {
+    if (!window.confirm("Are you sure you want to delete this comment?")) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await commentService.deleteComment(request.id, commentId);
+      // A comment with replies stays in the thread, so reload it
+      setComments(await commentService.getComments(request.id));
+    } catch (err) {
+      console.error("Error deleting comment:", err);
+      setError((err as Error).message || "Failed to delete comment");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatCommentDate = (dateString: string) =>
+    new Date(dateString).toLocaleString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+      hour12: false,
+      timeZone: "Asia/Jakarta",
+    });
+
+  // Highlight the @mentions of participants in a comment's text
+  const renderBody = (body: string) => {
+    const names = participants
+      .map((participant) => participant.name)
+      .filter(Boolean)
+      .sort((a, b) => b.length - a.length)
+      .map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+    if (names.length === 0) return body;
+
+    return body.split(new RegExp(`(@(?:${names.join("|")}))`, "gi")).map((part, index) =>
+      index % 2 === 1 ? (
+        <span key={index} className="font-medium text-blue-600">
+          {part}
+        </span>
+      ) : (
+        part
+      )
+    );
+  };
+
+  const renderComment = (comment: RequestComment) => {
+    const isOwn = !!user && comment.user_id === user.id;
+    const isEdited =
+      !comment.is_deleted &&
+      new Date(comment.updated_at).getTime() - new Date(comment.created_at).getTime() > 1000;
+
+    return (
+      <div className="flex items-start">
+        <User className="h-8 w-8 rounded-full bg-gray-100 p-1.5 text-gray-500 mr-3 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <div className="flex flex-wrap items-baseline gap-x-2">
+            <span className="text-sm font-medium text-gray-900">
+              {comment.author_name || "Unknown User"}
+            </span>
+            {comment.author_role && (
+              <span className="text-xs text-gray-500 capitalize">
+                {comment.author_role}
+              </span>
+            )}
+            <span className="text-xs text-gray-500">
+              {formatCommentDate(comment.created_at)}
+              {isEdited && " (edited)"}
+            </span>
+          </div>
+
+          {editingId === comment.id ? (
+            <div className="mt-1">
+              <MentionInput
+                id={`edit-comment-${comment.id}`}
+                value={editBody}
+                onChange={setEditBody}
+                participants={participants}
+                disabled={saving}
+                rows={2}
+              />
+              <div className="flex justify-end gap-2 mt-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setEditingId(null)}
+                  disabled={saving}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  variant="primary"
+                  size="sm"
+                  onClick={() => handleUpdateComment(comment.id)}
+                  disabled={saving || !editBody.trim()}
+                >
+                  Save
+                </Button>
+              </div>
+            </div>
+          ) : comment.is_deleted ? (
+            <p className="text-sm text-gray-400 italic mt-1">
+              This comment was deleted
+            </p>
+          ) : (
+            <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap break-words">
+              {renderBody(comment.body)}
+            </p>
+          )}
+
+          {!comment.is_deleted && editingId !== comment.id && (
+            <div className="flex gap-3 mt-1 text-xs">
+              <button
+                type="button"
+                className="inline-flex items-center text-gray-500 hover:text-blue-600"
+                onClick={() => {
+                  setReplyingTo(comment.parent_id || comment.id);
+                  setReplyBody("");
+                }}
+              >
+                <Reply className="h-3 w-3 mr-1" />
+                Reply
+              </button>
+              {isOwn && (
+                <>
+                  <button
+                    type="button"
+                    className="inline-flex items-center text-gray-500 hover:text-blue-600"
+                    onClick={() => {
+                      setEditingId(comment.id);
+                      setEditBody(comment.body);
+                    }}
+                  >
+                    <Edit className="h-3 w-3 mr-1" />
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    className="inline-flex items-center text-gray-500 hover:text-red-600"
+                    onClick={() => handleDeleteComment(comment.id)}
+                    disabled={saving}
+                  >
+                    <Trash2 className="h-3 w-3 mr-1" />
+                    Delete
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const threads = comments.filter((comment) => !comment.parent_id);
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+        <MessageSquare className="h-5 w-5 text-blue-600 mr-2" />
+        Discussion
+        {comments.length > 0 && (
+          <span className="ml-2 text-sm font-normal text-gray-500">
+            ({comments.filter((comment) => !comment.is_deleted).length})
+          </span>
+        )}
+      </h2>
+
+      {error && (
+        <Alert
+          variant="error"
+          title="Error"
+          onDismiss={() => setError(null)}
+          className="mb-4"
+        >
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <div className="flex items-center text-sm text-gray-500 py-4">
+          <Loader className="h-4 w-4 animate-spin mr-2" />
+          Loading comments...
+        </div>
+      ) : threads.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">
+          No comments yet. Start the discussion below.
+        </p>
+      ) : (
+        <ul className="space-y-4 mb-6">
+          {threads.map((thread) => (
+            <li key={thread.id}>
+              {renderComment(thread)}
+
+              <ul className="ml-11 mt-3 space-y-3 border-l border-gray-200 pl-4">
+                {comments
+                  .filter((reply) => reply.parent_id === thread.id)
+                  .map((reply) => (
+                    <li key={reply.id}>{renderComment(reply)}</li>
+                  ))}
+
+                {replyingTo === thread.id && (
+                  <li>
+                    <MentionInput
+                      id={`reply-${thread.id}`}
+                      value={replyBody}
+                      onChange={setReplyBody}
+                      participants={participants}
+                      placeholder="Write a reply... Use @ to mention someone"
+                      disabled={saving}
+                      rows={2}
+                    />
+                    <div className="flex justify-end gap-2 mt-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setReplyingTo(null)}
+                        disabled={saving}
+                      >
+                        Cancel
+                      </Button>
+                      <Button
+                        variant="primary"
+                        size="sm"
+                        onClick={async () => {
+                          if (await handleAddComment(replyBody, thread.id)) {
+                            setReplyingTo(null);
+                            setReplyBody("");
+                          }
+                        }}
+                        disabled={saving || !replyBody.trim()}
+                        icon={<Send className="h-3 w-3" />}
+                      >
+                        Reply
+                      </Button>
+                    </div>
+                  </li>
+                )}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <MentionInput
+        id="new-comment"
+        value={newComment}
+        onChange={setNewComment}
+        participants={participants}
+        placeholder="Add a comment... Use @ to mention someone"
+        disabled={saving || loading}
+      />
+      <div className="flex justify-end mt-2">
+        <Button
+          variant="primary"
+          size="sm"
+          onClick={async () => {
+            if (await handleAddComment(newComment)) {
+              setNewComment("");
+            }
+          }}
+          disabled={saving || loading || !newComment.trim()}
+          icon={<Send className="h-4 w-4" />}
+        >
+          Comment
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RequestComments;
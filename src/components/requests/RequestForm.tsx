@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import { ItemRequest, RequestPriority, Item } from "../../types";
+import { ItemRequest, RequestPriority, Item, RequestLineDraft } from "../../types";
 import { requestService } from "../../services/requestService";
 import { useAuth } from "../../contexts/AuthContext";
 import { Card, CardHeader, CardContent, CardFooter } from "../ui/Card";
@@ -9,8 +9,20 @@ import Select from "../ui/Select";
 import Textarea from "../ui/Textarea";
 import Button from "../ui/Button";
 import Alert from "../ui/Alert";
-import { Send, PlusCircle, ArrowLeft } from "lucide-react";
+import RequestLinesEditor from "./RequestLinesEditor";
+import { Send, PlusCircle, ArrowLeft, Paperclip, X } from "lucide-react";
 import { Link } from "react-router-dom";
+import {
+  createRequestLine,
+  getRequestLineError,
+  getRequestProjectName,
+} from "../../utils/requestUtils";
+import { formatFileSize, getAttachmentError } from "../../utils/attachmentUtils";
+import {
+  ATTACHMENT_EXTENSIONS,
+  ATTACHMENT_MAX_FILES,
+  ATTACHMENT_MAX_SIZE,
+} from "../../config";
 
 interface RequestFormProps {
   onSuccess?: (request: ItemRequest) => void;
@@ -23,14 +35,11 @@ const RequestForm: React.FC<RequestFormProps> = ({
 }) => {
   const { user } = useAuth();
   const navigate = useNavigate();
-  const [itemName, setItemName] = useState("");
-  const [itemId, setItemId] = useState<string | null>(null);
-  const [quantity, setQuantity] = useState(1);
-  const [unit, setUnit] = useState("pcs"); // Default unit
+  const [lines, setLines] = useState<RequestLineDraft[]>([]);
   const [priority, setPriority] = useState<RequestPriority>("medium");
   const [description, setDescription] = useState("");
   const [deliveryDate, setDeliveryDate] = useState("");
-  const [attachment, setAttachment] = useState<File | null>(null);
+  const [attachments, setAttachments] = useState<File[]>([]);
 
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -39,10 +48,7 @@ const RequestForm: React.FC<RequestFormProps> = ({
   // Pre-fill form when selectedItem changes
   useEffect(() => {
     if (selectedItem) {
-      setItemName(selectedItem.name);
-      setItemId(selectedItem.id);
-      // Set default unit from item or default to 'pcs'
-      setUnit(selectedItem.unit || "pcs");
+      setLines([createRequestLine(selectedItem)]);
       // Set a default description based on the item
       setDescription(
         `Request for ${selectedItem.name}${
@@ -58,21 +64,9 @@ const RequestForm: React.FC<RequestFormProps> = ({
     { value: "low", label: "Low Priority" },
   ];
 
-  const unitOptions = [
-    { value: "pcs", label: "Pieces (pcs)" },
-    { value: "rim", label: "Rim" },
-    { value: "box", label: "Box" },
-    { value: "pack", label: "Pack" },
-  ];
-
-  // Check if item is paper-related (kertas)
-  const isPaperItem = itemName.toLowerCase().includes("kertas") ||
-                      itemName.toLowerCase().includes("paper") ||
-                      itemName.toLowerCase().includes("hvs");
-
-  // Check if all required fields are filled
-  const isFormValid = itemName.trim() !== "" &&
-                      quantity > 0 &&
+  // Check if all required fields are filled and every line fits the stock
+  const isFormValid = lines.length > 0 &&
+                      lines.every((line) => getRequestLineError(line) === null) &&
                       deliveryDate !== "";
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -87,38 +81,37 @@ const RequestForm: React.FC<RequestFormProps> = ({
       return;
     }
 
-    try {
-      // Use the selected item ID or create a fake one for demo purposes
-      const requestItemId =
-        itemId || Math.random().toString(36).substring(2, 7);
-
-      // Create a project name from the item name
-      const projectName = `Request for ${itemName}`;
+    const invalidLine = lines.find((line) => getRequestLineError(line));
+    if (lines.length === 0 || invalidLine) {
+      setError(
+        invalidLine
+          ? `${invalidLine.itemName}: ${getRequestLineError(invalidLine)}`
+          : "Add at least one item to the request"
+      );
+      setLoading(false);
+      return;
+    }
 
+    try {
       const newRequest = await requestService.createRequest({
         userId: user.id,
-        itemId: requestItemId,
-        itemName,
-        quantity,
-        unit, // Include unit in request
         priority,
-        status: "pending",
         description,
         requestedDeliveryDate: deliveryDate,
-        attachment: attachment ? attachment.name : undefined,
-        projectName,
+        attachments,
+        projectName: getRequestProjectName(lines),
+        requesterName: user.username,
+        lines,
       });
 
       setSuccess(true);
 
       // Reset form
-      setItemName("");
-      setQuantity(1);
-      setUnit("pcs");
+      setLines([]);
       setPriority("medium");
       setDescription("");
       setDeliveryDate("");
-      setAttachment(null);
+      setAttachments([]);
 
       if (onSuccess) {
         onSuccess(newRequest);
@@ -137,9 +130,20 @@ const RequestForm: React.FC<RequestFormProps> = ({
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setAttachment(e.target.files[0]);
+    const files = Array.from(e.target.files ?? []);
+    // Let the same file be picked again after it was removed
+    e.target.value = "";
+
+    const fileError = files.map(getAttachmentError).find(Boolean);
+    if (fileError) {
+      setError(fileError);
+      return;
+    }
+    if (attachments.length + files.length > ATTACHMENT_MAX_FILES) {
+      setError(`At most ${ATTACHMENT_MAX_FILES} files can be attached`);
+      return;
     }
+    setAttachments([...attachments, ...files]);
   };
 
   return (
@@ -155,11 +159,11 @@ const RequestForm: React.FC<RequestFormProps> = ({
           <p className="text-sm text-gray-600 mt-1">
             {selectedItem ? (
               <span>
-                You are requesting <strong>{selectedItem.name}</strong>. Fill out
-                the details below.
+                You are requesting <strong>{selectedItem.name}</strong>. Add any
+                other items you need and fill out the details below.
               </span>
             ) : (
-              "Fill out the form below to request new items"
+              "Add the items you need and fill out the details below"
             )}
           </p>
           {selectedItem && (
@@ -202,45 +206,20 @@ const RequestForm: React.FC<RequestFormProps> = ({
 
         <form onSubmit={handleSubmit}>
           <div className="space-y-4">
-            <Input
-              id="item-name"
-              label="Item Name"
-              value={itemName}
-              onChange={(e) => setItemName(e.target.value)}
-              required
-              placeholder="Enter the item name"
-              disabled={!!selectedItem}
+            <RequestLinesEditor
+              lines={lines}
+              onChange={setLines}
+              disabled={loading}
             />
 
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <Input
-                id="quantity"
-                label="Quantity"
-                type="number"
-                min={1}
-                value={quantity.toString()}
-                onChange={(e) => setQuantity(parseInt(e.target.value))}
-                required
-              />
-
-              <Select
-                id="unit"
-                label="Unit"
-                value={unit}
-                onChange={(e) => setUnit(e.target.value)}
-                options={unitOptions}
-                required
-              />
-
-              <Select
-                id="priority"
-                label="Priority Level"
-                value={priority}
-                onChange={(e) => setPriority(e.target.value as RequestPriority)}
-                options={priorityOptions}
-                required
-              />
-            </div>
+            <Select
+              id="priority"
+              label="Priority Level"
+              value={priority}
+              onChange={(e) => setPriority(e.target.value as RequestPriority)}
+              options={priorityOptions}
+              required
+            />
 
             <Input
               id="delivery-date"
@@ -262,21 +241,59 @@ const RequestForm: React.FC<RequestFormProps> = ({
 
             <div className="mb-4">
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Attachment (optional)
+                Attachments (optional)
               </label>
               <div className="mt-1 flex items-center">
                 <label className="cursor-pointer bg-white py-2 px-3 border border-gray-300 rounded-md shadow-sm text-sm leading-4 font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">
-                  <span>Choose file</span>
+                  <span>Choose files</span>
                   <input
                     type="file"
                     className="sr-only"
+                    multiple
+                    accept={ATTACHMENT_EXTENSIONS.join(",")}
                     onChange={handleFileChange}
+                    disabled={loading || attachments.length >= ATTACHMENT_MAX_FILES}
                   />
                 </label>
                 <span className="ml-3 text-sm text-gray-500">
-                  {attachment ? attachment.name : "No file selected"}
+                  {attachments.length === 0
+                    ? "No files selected"
+                    : `${attachments.length} of ${ATTACHMENT_MAX_FILES} files`}
                 </span>
               </div>
+              <p className="mt-1 text-xs text-gray-500">
+                Images, PDF, text and Office documents up to{" "}
+                {formatFileSize(ATTACHMENT_MAX_SIZE)} each
+              </p>
+              {attachments.length > 0 && (
+                <ul className="mt-2 space-y-1">
+                  {attachments.map((file, index) => (
+                    <li
+                      key={`${file.name}-${index}`}
+                      className="flex items-center justify-between text-sm bg-gray-50 rounded px-2 py-1"
+                    >
+                      <span className="flex items-center text-gray-700 truncate">
+                        <Paperclip className="h-4 w-4 mr-1 flex-shrink-0" />
+                        <span className="truncate">{file.name}</span>
+                        <span className="ml-2 text-gray-500 flex-shrink-0">
+                          {formatFileSize(file.size)}
+                        </span>
+                      </span>
+                      <button
+                        type="button"
+                        className="text-gray-400 hover:text-red-600"
+                        onClick={() =>
+                          setAttachments(attachments.filter((_, i) => i !== index))
+                        }
+                        aria-label={`Remove ${file.name}`}
+                        disabled={loading}
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
           </div>
 
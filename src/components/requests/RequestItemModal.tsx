@@ -1,6 +1,6 @@
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { Item, ItemRequest, RequestPriority } from "../../types";
+import { Item, ItemRequest, RequestPriority, RequestLineDraft } from "../../types";
 import { requestService } from "../../services/requestService";
 import { useAuth } from "../../contexts/AuthContext";
 import Input from "../ui/Input";
@@ -8,8 +8,14 @@ import Select from "../ui/Select";
 import Textarea from "../ui/Textarea";
 import Button from "../ui/Button";
 import Alert from "../ui/Alert";
+import RequestLinesEditor from "./RequestLinesEditor";
 import { X, Send } from "lucide-react";
-import { validateItemId, isValidItemId } from "../../utils/itemUtils";
+import { validateItemId } from "../../utils/itemUtils";
+import {
+  createRequestLine,
+  getRequestLineError,
+  getRequestProjectName,
+} from "../../utils/requestUtils";
 
 interface RequestItemModalProps {
   item: Item;
@@ -24,9 +30,10 @@ const RequestItemModal: React.FC<RequestItemModalProps> = ({
 }) => {
   const { user } = useAuth();
   const navigate = useNavigate();
-  const [quantity, setQuantity] = useState(1);
-  const [quantityInput, setQuantityInput] = useState("1");
-  const [unit, setUnit] = useState(item.unit || "pcs"); // Default to item's unit or 'pcs'
+  // The browsed item starts the request; more items can be added to it
+  const [lines, setLines] = useState<RequestLineDraft[]>([
+    createRequestLine(item),
+  ]);
   const [priority, setPriority] = useState<RequestPriority>("medium");
   const [description, setDescription] = useState("");
   const [deliveryDate, setDeliveryDate] = useState("");
@@ -41,15 +48,9 @@ const RequestItemModal: React.FC<RequestItemModalProps> = ({
     { value: "low", label: "Low Priority" },
   ];
 
-  const unitOptions = [
-    { value: "pcs", label: "Pieces (pcs)" },
-    { value: "rim", label: "Rim" },
-    { value: "box", label: "Box" },
-    { value: "pack", label: "Pack" },
-  ];
-
-  // Check if all required fields are filled
-  const isFormValid = quantity > 0 &&
+  // Check if all required fields are filled and every line fits the stock
+  const isFormValid = lines.length > 0 &&
+                      lines.every((line) => getRequestLineError(line) === null) &&
                       description.trim() !== "" &&
                       deliveryDate !== "";
 
@@ -76,68 +77,48 @@ const RequestItemModal: React.FC<RequestItemModalProps> = ({
     // For debugging
     console.log("Current user:", user);
 
-    // Validate quantity
-    if (quantity <= 0) {
-      setError("Quantity must be greater than 0");
-      setLoading(false);
-      return;
-    }
-
-    // Validate against available quantity
-    if (quantity > item.quantity) {
+    // Validate every line against its available quantity
+    const invalidLine = lines.find((line) => getRequestLineError(line));
+    if (lines.length === 0 || invalidLine) {
       setError(
-        `Only ${item.quantity} units available. Please request a smaller quantity.`
+        invalidLine
+          ? `${invalidLine.itemName}: ${getRequestLineError(invalidLine)}`
+          : "Add at least one item to the request"
       );
       setLoading(false);
       return;
     }
 
     try {
-      // Log the item details for debugging
-      console.log("Item details:", {
-        id: item.id,
-        idType: typeof item.id,
-        name: item.name,
-        quantity: item.quantity,
-      });
-
-      // Validate the item ID using our utility function
-      const validItemId = validateItemId(item.id);
-      if (validItemId === null) {
-        console.error("Invalid item ID:", item.id);
+      // Validate the item IDs using our utility function
+      const invalidItemLine = lines.find(
+        (line) => validateItemId(line.itemId) === null
+      );
+      if (invalidItemLine) {
+        console.error("Invalid item ID:", invalidItemLine.itemId);
         setError("Invalid item ID. Please try again or contact support.");
         setLoading(false);
         return;
       }
 
-      // Convert to string for the API
-      const itemId = String(validItemId);
-
-      console.log("Submitting request with itemId:", itemId);
-
       try {
         // Include the user's username in the request
         const newRequest = await requestService.createRequest({
           userId: user.id,
-          itemId: itemId,
-          itemName: item.name,
-          quantity,
-          unit, // Include unit in request
           priority,
-          status: "pending",
           description,
           requestedDeliveryDate: deliveryDate,
+          projectName: getRequestProjectName(lines),
           // Add requesterName to be used by the server
           requesterName: user.username,
+          lines,
         });
 
         console.log("Request created successfully:", newRequest);
         setSuccess(true);
 
         // Reset form
-        setQuantity(1);
-        setQuantityInput("1");
-        setUnit(item.unit || "pcs");
+        setLines([createRequestLine(item)]);
         setPriority("medium");
         setDescription("");
         setDeliveryDate("");
@@ -165,10 +146,10 @@ const RequestItemModal: React.FC<RequestItemModalProps> = ({
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4 overflow-y-auto">
-      <div className="bg-white rounded-lg shadow-xl w-full max-w-md my-8 max-h-[90vh] flex flex-col">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg my-8 max-h-[90vh] flex flex-col">
         {/* Header - Fixed */}
         <div className="flex justify-between items-center p-6 pb-4 border-b border-gray-200 flex-shrink-0">
-          <h2 className="text-xl font-semibold text-gray-900">Request Item</h2>
+          <h2 className="text-xl font-semibold text-gray-900">Request Items</h2>
           <button
             onClick={onClose}
             className="text-gray-400 hover:text-gray-500"
@@ -178,18 +159,7 @@ const RequestItemModal: React.FC<RequestItemModalProps> = ({
         </div>
 
         {/* Scrollable Content */}
-        <div className="overflow-y-auto flex-1 px-6">
-          <div className="my-4 p-3 bg-gray-50 rounded-md">
-            <h3 className="font-medium text-gray-900">{item.name}</h3>
-            <p className="text-sm text-gray-600 mt-1">{item.description}</p>
-            <div className="mt-2 flex justify-between text-sm">
-              <span className="text-gray-500">Available:</span>
-              <span className="font-medium text-gray-900">
-                {item.quantity} units
-              </span>
-            </div>
-          </div>
-
+        <div className="overflow-y-auto flex-1 px-6 pt-4">
           {error && (
             <Alert
               variant="error"
@@ -208,42 +178,11 @@ const RequestItemModal: React.FC<RequestItemModalProps> = ({
           )}
 
           <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-              <Input
-                label="Quantity"
-                type="number"
-                min="1"
-                max={item.quantity}
-                value={quantityInput}
-                onChange={(e) => {
-                  const inputValue = e.target.value;
-                  setQuantityInput(inputValue);
-
-                  // Parse the value, allowing empty string during editing
-                  const parsedValue = inputValue === "" ? 0 : parseInt(inputValue);
-                  if (!isNaN(parsedValue)) {
-                    setQuantity(parsedValue);
-                  }
-                }}
-                onBlur={(e) => {
-                  // On blur, ensure we have a valid value
-                  const inputValue = e.target.value;
-                  if (inputValue === "" || parseInt(inputValue) < 1) {
-                    setQuantityInput("1");
-                    setQuantity(1);
-                  }
-                }}
-                required
-              />
-
-              <Select
-                label="Unit"
-                value={unit}
-                onChange={(e) => setUnit(e.target.value)}
-                options={unitOptions}
-                required
-              />
-            </div>
+            <RequestLinesEditor
+              lines={lines}
+              onChange={setLines}
+              disabled={loading}
+            />
 
             <Select
               label="Priority"
@@ -0,0 +1,179 @@
+import React, { useState } from "react";
+import { Item, RequestLineDraft } from "../../types";
+import Input from "../ui/Input";
+import Select from "../ui/Select";
+import Button from "../ui/Button";
+import ItemPicker from "../inventory/ItemPicker";
+import ScanItemModal from "../scanning/ScanItemModal";
+import { Trash2, Package, ScanLine } from "lucide-react";
+import {
+  createRequestLine,
+  getRequestLineError,
+} from "../../utils/requestUtils";
+import { getUnitOptions, toBaseQuantity } from "../../utils/unitUtils";
+
+interface RequestLinesEditorProps {
+  lines: RequestLineDraft[];
+  onChange: (lines: RequestLineDraft[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Cart-style editor for the item lines of a request. Each line has its own
+ * quantity and unit and is validated against the stock of its item.
+ */
+const RequestLinesEditor: React.FC<RequestLinesEditorProps> = ({
+  lines,
+  onChange,
+  disabled = false,
+}) => {
+  const [showScanner, setShowScanner] = useState(false);
+  const [scanError, setScanError] = useState<string | null>(null);
+
+  const handleAddLine = (item: Item) => {
+    onChange([...lines, createRequestLine(item)]);
+  };
+
+  // Scanning an item already in the request asks for one more of it
+  const handleScannedItem = (item: Item) => {
+    const index = lines.findIndex((line) => line.itemId === String(item.id));
+    if (index >= 0) {
+      updateLine(index, { quantity: lines[index].quantity + 1 });
+    } else if (item.quantity <= 0) {
+      setScanError(`${item.name} is out of stock`);
+    } else {
+      setScanError(null);
+      handleAddLine(item);
+    }
+  };
+
+  const updateLine = (index: number, updates: Partial<RequestLineDraft>) => {
+    onChange(
+      lines.map((line, i) => (i === index ? { ...line, ...updates } : line))
+    );
+  };
+
+  const removeLine = (index: number) => {
+    onChange(lines.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        Items<span className="text-red-500 ml-1">*</span>
+      </label>
+
+      {lines.length === 0 ? (
+        <div className="mb-4 p-4 text-center text-sm text-gray-500 bg-gray-50 rounded-md border border-dashed border-gray-300">
+          <Package className="h-6 w-6 mx-auto mb-1 text-gray-400" />
+          No items added yet
+        </div>
+      ) : (
+        <div className="mb-4 space-y-3">
+          {lines.map((line, index) => {
+            const lineError = getRequestLineError(line);
+            const baseQuantity = toBaseQuantity(
+              line.quantity,
+              line.unit,
+              line.baseUnit,
+              line.conversions
+            );
+
+            return (
+              <div
+                key={line.itemId}
+                className="p-3 bg-gray-50 rounded-md border border-gray-200"
+              >
+                <div className="flex justify-between items-start mb-2">
+                  <div>
+                    <p className="font-medium text-gray-900">{line.itemName}</p>
+                    <p className="text-xs text-gray-500">
+                      Available: {line.available} {line.baseUnit}
+                      {line.unit !== line.baseUnit &&
+                        !lineError &&
+                        baseQuantity !== null &&
+                        ` · Requesting ${baseQuantity} ${line.baseUnit}`}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => removeLine(index)}
+                    disabled={disabled}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label={`Remove ${line.itemName}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <Input
+                    id={`quantity-${line.itemId}`}
+                    label="Quantity"
+                    type="number"
+                    min={1}
+                    value={line.quantity ? line.quantity.toString() : ""}
+                    onChange={(e) => {
+                      const parsedValue = parseInt(e.target.value);
+                      updateLine(index, {
+                        quantity: isNaN(parsedValue) ? 0 : parsedValue,
+                      });
+                    }}
+                    error={lineError || undefined}
+                    disabled={disabled}
+                    required
+                  />
+
+                  <Select
+                    id={`unit-${line.itemId}`}
+                    label="Unit"
+                    value={line.unit}
+                    onChange={(e) => updateLine(index, { unit: e.target.value })}
+                    options={getUnitOptions(line.baseUnit, line.conversions)}
+                    disabled={disabled}
+                    required
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Only items in stock and not already in the request are offered */}
+      <div className="flex items-start space-x-2">
+        <div className="flex-1">
+          <ItemPicker
+            id="add-item"
+            placeholder="Search for an item to add..."
+            onSelect={handleAddLine}
+            excludeIds={lines.map((line) => line.itemId)}
+            inStockOnly
+            disabled={disabled}
+          />
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => setShowScanner(true)}
+          icon={<ScanLine className="h-4 w-4" />}
+          disabled={disabled}
+        >
+          Scan
+        </Button>
+      </div>
+      {scanError && <p className="-mt-2 mb-4 text-sm text-red-600">{scanError}</p>}
+
+      {showScanner && (
+        <ScanItemModal
+          title="Scan Items to Request"
+          onItem={handleScannedItem}
+          onClose={() => setShowScanner(false)}
+          continuous
+        />
+      )}
+    </div>
+  );
+};
+
+export default RequestLinesEditor;
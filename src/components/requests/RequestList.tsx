@@ -1,37 +1,65 @@
-import React, { useState } from 'react';
-import { ItemRequest, RequestPriority, RequestStatus } from '../../types';
+import React from 'react';
+import {
+  ItemRequest,
+  RequestLineStatus,
+  RequestListFilters,
+  RequestPriority,
+  RequestSortField,
+  RequestStatus
+} from '../../types';
 import RequestCard from './RequestCard';
 import Select from '../ui/Select';
-import Input from '../ui/Input';
 import Button from '../ui/Button';
+import Pagination from '../ui/Pagination';
 import { Search, Filter, RefreshCw, AlertTriangle, FileSpreadsheet } from 'lucide-react';
-import { downloadRequestsExcel } from '../../utils/excelTemplateGenerator';
 
 interface RequestListProps {
   requests: ItemRequest[];
   isAdmin?: boolean;
   onStatusChange?: (id: string, status: RequestStatus) => void;
+  onLineStatusChange?: (id: string, lineId: string, status: RequestLineStatus) => void;
   onEdit?: (request: ItemRequest) => void;
   onDelete?: (id: string) => void;
   isLoading?: boolean;
+  // Filtering and paging happen on the server; the list only reports changes
+  filters: RequestListFilters;
+  onFiltersChange: (filters: RequestListFilters) => void;
+  total: number;
+  pagination?: {
+    page: number;
+    pageSize: number;
+    totalPages: number;
+  };
+  onPageChange?: (page: number) => void;
+  onExport?: () => void;
 }
 
 const RequestList: React.FC<RequestListProps> = ({
   requests,
   isAdmin = false,
   onStatusChange,
+  onLineStatusChange,
   onEdit,
   onDelete,
-  isLoading = false
+  isLoading = false,
+  filters,
+  onFiltersChange,
+  total,
+  pagination,
+  onPageChange,
+  onExport
 }) => {
-  const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [priorityFilter, setPriorityFilter] = useState<string>('all');
-  const [searchTerm, setSearchTerm] = useState('');
+  const statusFilter = (filters.status as string) || 'all';
+  const priorityFilter = filters.priority || 'all';
+  const searchTerm = filters.search || '';
+  const sortValue = `${filters.sort || 'created_at'}:${filters.order || 'desc'}`;
 
   const statusOptions = [
     { value: 'all', label: 'All Statuses' },
     { value: 'pending', label: 'Pending' },
+    { value: 'in_review', label: 'In Review' },
     { value: 'approved', label: 'Approved' },
+    { value: 'partially_fulfilled', label: 'Partially Fulfilled' },
     { value: 'rejected', label: 'Rejected' },
     { value: 'completed', label: 'Completed' }
   ];
@@ -43,85 +71,97 @@ const RequestList: React.FC<RequestListProps> = ({
     { value: 'low', label: 'Low Priority' }
   ];
 
-  const filteredRequests = requests.filter(request => {
-    // Status filter
-    if (statusFilter !== 'all' && request.status !== statusFilter) {
-      return false;
-    }
-
-    // Priority filter
-    if (priorityFilter !== 'all' && request.priority !== priorityFilter) {
-      return false;
-    }
+  const sortOptions = [
+    { value: 'created_at:desc', label: 'Newest First' },
+    { value: 'created_at:asc', label: 'Oldest First' },
+    { value: 'due_date:asc', label: 'Delivery Date' },
+    { value: 'priority:desc', label: 'Highest Priority' },
+    { value: 'status:asc', label: 'Status' }
+  ];
 
-    // Search term filter
-    if (searchTerm && !request.itemName?.toLowerCase().includes(searchTerm.toLowerCase())) {
-      return false;
-    }
+  const updateFilters = (changes: RequestListFilters) => {
+    onFiltersChange({ ...filters, ...changes });
+  };
 
-    return true;
-  });
+  const handleSortChange = (value: string) => {
+    const [sort, order] = value.split(':');
+    updateFilters({
+      sort: sort as RequestSortField,
+      order: order as 'asc' | 'desc'
+    });
+  };
 
   const handleReset = () => {
-    setStatusFilter('all');
-    setPriorityFilter('all');
-    setSearchTerm('');
+    onFiltersChange({});
   };
 
-  const handleExportToExcel = () => {
-    const currentDate = new Date().toISOString().split('T')[0];
-    const filename = `requests_export_${currentDate}.xlsx`;
-    downloadRequestsExcel(filteredRequests, filename);
-  };
+  const hasFilters = !!searchTerm || statusFilter !== 'all' || priorityFilter !== 'all';
 
   return (
     <div>
       <div className="mb-6 bg-white p-4 rounded-lg shadow-sm border border-gray-200">
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <div className="relative">
             <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
               <Search className="h-4 w-4 text-gray-400" />
             </div>
             <input
               type="text"
-              placeholder="Search by item name"
+              placeholder="Search items, projects or requesters"
               value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              onChange={(e) => updateFilters({ search: e.target.value || undefined })}
               className="pl-10 w-full rounded-md border border-gray-300 py-2 px-3 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
             />
           </div>
 
           <Select
             value={statusFilter}
-            onChange={(e) => setStatusFilter(e.target.value)}
+            onChange={(e) =>
+              updateFilters({
+                status: e.target.value === 'all' ? undefined : (e.target.value as RequestStatus)
+              })
+            }
             options={statusOptions}
             className="mb-0"
           />
 
           <Select
             value={priorityFilter}
-            onChange={(e) => setPriorityFilter(e.target.value)}
+            onChange={(e) =>
+              updateFilters({
+                priority: e.target.value === 'all' ? undefined : (e.target.value as RequestPriority)
+              })
+            }
             options={priorityOptions}
             className="mb-0"
           />
+
+          <Select
+            value={sortValue}
+            onChange={(e) => handleSortChange(e.target.value)}
+            options={sortOptions}
+            className="mb-0"
+          />
         </div>
 
         <div className="flex justify-between items-center mt-4">
           <div className="text-sm text-gray-600">
             <Filter className="h-4 w-4 inline-block mr-1" />
-            <span>{filteredRequests.length} requests found</span>
+            <span>{total} requests found</span>
           </div>
 
           <div className="flex gap-2">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={handleExportToExcel}
-              icon={<FileSpreadsheet className="h-4 w-4" />}
-              disabled={filteredRequests.length === 0}
-            >
-              Export to Excel
-            </Button>
+            {onExport && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onExport}
+                icon={<FileSpreadsheet className="h-4 w-4" />}
+                disabled={total === 0}
+              >
+                Export to Excel
+              </Button>
+            )}
             <Button
               variant="outline"
               size="sm"
@@ -139,16 +179,16 @@ const RequestList: React.FC<RequestListProps> = ({
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
           <p className="mt-3 text-gray-600">Loading requests...</p>
         </div>
-      ) : filteredRequests.length === 0 ? (
+      ) : requests.length === 0 ? (
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
           <AlertTriangle className="h-12 w-12 text-amber-500 mx-auto" />
           <h3 className="mt-4 text-lg font-medium text-gray-900">No requests found</h3>
           <p className="mt-2 text-gray-600">
-            {searchTerm || statusFilter !== 'all' || priorityFilter !== 'all'
+            {hasFilters
               ? 'Try adjusting your filters to see more results.'
               : 'There are no requests to display.'}
           </p>
-          {(searchTerm || statusFilter !== 'all' || priorityFilter !== 'all') && (
+          {hasFilters && (
             <Button
               variant="outline"
               className="mt-4"
@@ -160,16 +200,29 @@ const RequestList: React.FC<RequestListProps> = ({
         </div>
       ) : (
         <div className="space-y-4">
-          {filteredRequests.map(request => (
+          {requests.map(request => (
             <RequestCard
               key={request.id}
               request={request}
               isAdmin={isAdmin}
               onStatusChange={onStatusChange}
+              onLineStatusChange={onLineStatusChange}
               onEdit={onEdit}
               onDelete={onDelete}
             />
           ))}
+
+          {pagination && onPageChange && (
+            <Pagination
+              page={pagination.page}
+              pageSize={pagination.pageSize}
+              total={total}
+              totalPages={pagination.totalPages}
+              onPageChange={onPageChange}
+              disabled={isLoading}
+              className="pt-2"
+            />
+          )}
         </div>
       )}
     </div>
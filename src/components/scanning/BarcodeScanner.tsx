@@ -0,0 +1,144 @@
+import React, { useState, useEffect, useRef } from "react";
+import { BrowserMultiFormatReader, IScannerControls } from "@zxing/browser";
+import Input from "../ui/Input";
+import Button from "../ui/Button";
+import { CameraOff, Keyboard } from "lucide-react";
+
+interface BarcodeScannerProps {
+  onScan: (code: string) => void;
+  // Stop reading codes, e.g. while a scanned item is being handled
+  paused?: boolean;
+}
+
+// The same code seen again within this time is the same scan
+const RESCAN_DELAY_MS = 2000;
+
+/**
+ * Reads barcodes and QR codes with the device camera, preferring the back
+ * camera on phones. Codes can also be typed in, for devices without a camera
+ * or labels the camera cannot read.
+ */
+const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onScan, paused = false }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const lastScan = useRef<{ code: string; at: number } | null>(null);
+  // The latest handler, so the camera is not restarted when it changes
+  const onScanRef = useRef(onScan);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [manualCode, setManualCode] = useState("");
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (paused || !videoRef.current) return;
+
+    let controls: IScannerControls | null = null;
+    let stopped = false;
+    const reader = new BrowserMultiFormatReader();
+
+    reader
+      .decodeFromConstraints(
+        { video: { facingMode: "environment" } },
+        videoRef.current,
+        (result) => {
+          if (!result) return;
+          const code = result.getText().trim();
+          const now = Date.now();
+          if (
+            lastScan.current?.code === code &&
+            now - lastScan.current.at < RESCAN_DELAY_MS
+          ) {
+            return;
+          }
+          lastScan.current = { code, at: now };
+          onScanRef.current(code);
+        }
+      )
+      .then((startedControls) => {
+        controls = startedControls;
+        // Unmounted or paused while the camera was starting
+        if (stopped) startedControls.stop();
+        setCameraError(null);
+      })
+      .catch((err) => {
+        console.error("Error starting the camera:", err);
+        setCameraError(
+          err instanceof Error && err.name === "NotAllowedError"
+            ? "Camera access was denied. Allow it in the browser settings, or type the code below."
+            : "No camera could be started. Type the code below instead."
+        );
+      });
+
+    return () => {
+      stopped = true;
+      controls?.stop();
+    };
+  }, [paused]);
+
+  const submitManualCode = () => {
+    const code = manualCode.trim();
+    if (!code) return;
+    onScan(code);
+    setManualCode("");
+  };
+
+  // Not a form of its own, since the scanner may be shown inside one
+  const handleManualKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      submitManualCode();
+    }
+  };
+
+  return (
+    <div>
+      {cameraError ? (
+        <div className="mb-4 p-6 text-center text-sm text-gray-600 bg-gray-50 rounded-md border border-dashed border-gray-300">
+          <CameraOff className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+          {cameraError}
+        </div>
+      ) : (
+        <div className="relative mb-4 overflow-hidden rounded-lg bg-black aspect-[4/3]">
+          <video
+            ref={videoRef}
+            className={`h-full w-full object-cover ${paused ? "opacity-40" : ""}`}
+            muted
+            playsInline
+          />
+          {/* Aim guide */}
+          <div className="pointer-events-none absolute inset-x-8 top-1/4 bottom-1/4 rounded-lg border-2 border-white/80" />
+          {paused && (
+            <div className="absolute inset-0 flex items-center justify-center text-sm font-medium text-white">
+              Paused
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-start space-x-2">
+        <div className="flex-1">
+          <Input
+            id="manual-code"
+            placeholder="Type a barcode or SKU"
+            value={manualCode}
+            onChange={(e) => setManualCode(e.target.value)}
+            onKeyDown={handleManualKeyDown}
+            autoComplete="off"
+            rightElement={<Keyboard className="h-4 w-4" />}
+          />
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={submitManualCode}
+          disabled={!manualCode.trim()}
+        >
+          Find
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default BarcodeScanner;
@@ -0,0 +1,98 @@
+import React, { useState } from "react";
+import { Item } from "../../types";
+import Button from "../ui/Button";
+import Alert from "../ui/Alert";
+import BarcodeScanner from "./BarcodeScanner";
+import { X, ScanLine } from "lucide-react";
+import { itemService } from "../../services/itemService";
+
+interface ScanItemModalProps {
+  title?: string;
+  onItem: (item: Item) => void;
+  onClose: () => void;
+  // Keep scanning after an item is found instead of closing
+  continuous?: boolean;
+}
+
+/**
+ * Scan an item's barcode, SKU or label QR code and hand the item it belongs
+ * to over. In continuous mode every scan is handed over until the modal is
+ * closed.
+ */
+const ScanItemModal: React.FC<ScanItemModalProps> = ({
+  title = "Scan Item",
+  onItem,
+  onClose,
+  continuous = false,
+}) => {
+  const [looking, setLooking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastItem, setLastItem] = useState<Item | null>(null);
+
+  const handleScan = async (code: string) => {
+    setLooking(true);
+    setError(null);
+    try {
+      const item = await itemService.findItemByCode(code);
+      if (!item) {
+        setError(`No item has the code ${code}`);
+        return;
+      }
+      onItem(item);
+      if (continuous) {
+        setLastItem(item);
+      } else {
+        onClose();
+      }
+    } catch (err) {
+      console.error("Error looking up scanned code:", err);
+      setError(err instanceof Error ? err.message : "Failed to look up the code");
+    } finally {
+      setLooking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+            <ScanLine className="h-5 w-5 text-blue-600 mr-2" />
+            {title}
+          </h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <Alert
+            variant="error"
+            title="Not found"
+            onDismiss={() => setError(null)}
+            className="mb-4"
+          >
+            {error}
+          </Alert>
+        )}
+        {continuous && lastItem && !error && (
+          <Alert variant="success" title="Added" className="mb-4">
+            {lastItem.name}
+          </Alert>
+        )}
+
+        <BarcodeScanner onScan={handleScan} paused={looking} />
+
+        {continuous && (
+          <div className="mt-4 flex justify-end">
+            <Button type="button" variant="primary" onClick={onClose}>
+              Done
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScanItemModal;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import Button from './Button';
+
+interface PaginationProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+  onPageChange: (page: number) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const Pagination: React.FC<PaginationProps> = ({
+  page,
+  pageSize,
+  total,
+  totalPages,
+  onPageChange,
+  disabled = false,
+  className = ''
+}) => {
+  if (total === 0) {
+    return null;
+  }
+
+  const firstShown = (page - 1) * pageSize + 1;
+  const lastShown = Math.min(page * pageSize, total);
+
+  return (
+    <div className={`flex items-center justify-between ${className}`}>
+      <p className="text-sm text-gray-600">
+        Showing <span className="font-medium">{firstShown}</span>-
+        <span className="font-medium">{lastShown}</span> of{' '}
+        <span className="font-medium">{total}</span>
+      </p>
+
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(page - 1)}
+          disabled={disabled || page <= 1}
+          icon={<ChevronLeft className="h-4 w-4" />}
+        >
+          Previous
+        </Button>
+        <span className="text-sm text-gray-600">
+          Page {page} of {Math.max(totalPages, 1)}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(page + 1)}
+          disabled={disabled || page >= totalPages}
+        >
+          Next
+          <ChevronRight className="h-4 w-4 ml-1" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default Pagination;
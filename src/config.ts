@@ -8,3 +8,17 @@ export const APP_VERSION = '1.0.0';
 // Default pagination settings
 export const DEFAULT_PAGE_SIZE = 10;
 export const DEFAULT_PAGE = 1;
+// Largest page the API returns (paginationConfig.maxPageSize in server/config.js)
+export const MAX_PAGE_SIZE = 100;
+
+// Request attachments (attachmentConfig in server/config.js)
+export const ATTACHMENT_MAX_SIZE = 10 * 1024 * 1024;
+export const ATTACHMENT_MAX_FILES = 5;
+export const ATTACHMENT_EXTENSIONS = [
+  ".jpg", ".jpeg", ".png", ".gif", ".webp",
+  ".pdf", ".txt", ".csv", ".doc", ".docx", ".xls", ".xlsx",
+];
+
+// Borrowing equipment (loanConfig in server/config.js)
+export const LOAN_MAX_DAYS = 30;
+export const LOAN_MAX_ADVANCE_DAYS = 90;
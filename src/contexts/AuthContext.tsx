@@ -20,7 +20,10 @@ interface AuthContextType {
   ) => Promise<void>;
   logout: () => void;
   isAuthenticated: boolean;
-  isAdmin: boolean;
+  // When the current session can no longer be refreshed (ISO timestamp)
+  sessionExpiresAt: string | null;
+  // True when the session ended because its tokens expired
+  sessionExpired: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -31,17 +34,45 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<string | null>(null);
+  const [sessionExpired, setSessionExpired] = useState(false);
 
   useEffect(() => {
     // Check if user is already logged in
-    const storedUser = authService.getUser();
-    console.log("AuthContext - Stored user from localStorage:", storedUser);
-    if (storedUser) {
-      setUser(storedUser);
+    const storedSession = authService.getSession();
+    console.log("AuthContext - Stored session from localStorage:", storedSession?.user);
+    if (storedSession) {
+      if (new Date(storedSession.refreshTokenExpiresAt).getTime() <= Date.now()) {
+        authService.expireSession();
+        setSessionExpired(true);
+      } else {
+        setUser(storedSession.user);
+        setSessionExpiresAt(storedSession.refreshTokenExpiresAt);
+      }
     }
     setLoading(false);
+
+    // Keep state in sync with logins, refreshes and expiries done by authService
+    return authService.subscribe((session, expired) => {
+      setUser(session?.user ?? null);
+      setSessionExpiresAt(session?.refreshTokenExpiresAt ?? null);
+      setSessionExpired(expired);
+    });
   }, []);
 
+  // Force a re-login once the refresh token itself runs out
+  useEffect(() => {
+    if (!sessionExpiresAt) return;
+
+    // setTimeout overflows above ~24.8 days; such sessions are left to the
+    // refresh-on-401 path instead
+    const remaining = new Date(sessionExpiresAt).getTime() - Date.now();
+    if (remaining > 2147483647) return;
+
+    const timer = setTimeout(() => authService.expireSession(), Math.max(0, remaining));
+    return () => clearTimeout(timer);
+  }, [sessionExpiresAt]);
+
   const login = async (email: string, password: string) => {
     setLoading(true);
     setError(null);
@@ -80,14 +111,10 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
   };
 
   const isAuthenticated = !!user;
-  // Treat both 'admin' and 'manager' roles as admin
-  const isAdmin = user?.role === "admin" || user?.role === "manager";
 
   console.log(
     "AuthContext - isAuthenticated:",
     isAuthenticated,
-    "isAdmin:",
-    isAdmin,
     "user role:",
     user?.role
   );
@@ -102,7 +129,8 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
         register,
         logout,
         isAuthenticated,
-        isAdmin,
+        sessionExpiresAt,
+        sessionExpired,
       }}
     >
       {children}
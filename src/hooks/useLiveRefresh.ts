@@ -0,0 +1,86 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  realtimeService,
+  RealtimeEvent,
+  RealtimeEventType,
+} from "../services/realtimeService";
+
+interface LiveRefreshOptions {
+  // Skip events that do not concern the caller
+  filter?: (event: RealtimeEvent) => boolean;
+  // How often to refresh while live updates are unavailable
+  pollInterval?: number;
+  enabled?: boolean;
+}
+
+// Events arriving this close together cause a single refresh
+const REFRESH_DELAY = 300;
+
+/**
+ * Keep data up to date: calls refresh whenever one of the given live update
+ * events arrives, and polls every pollInterval while the live update stream
+ * is down. Returns whether the stream is up.
+ */
+export const useLiveRefresh = (
+  eventTypes: RealtimeEventType[],
+  refresh: () => void,
+  { filter, pollInterval = 30000, enabled = true }: LiveRefreshOptions = {}
+) => {
+  const [connected, setConnected] = useState(realtimeService.isConnected());
+  const refreshRef = useRef(refresh);
+  const filterRef = useRef(filter);
+  const wasConnected = useRef(connected);
+  const reconnecting = useRef(false);
+
+  useEffect(() => {
+    refreshRef.current = refresh;
+    filterRef.current = filter;
+  });
+
+  const types = eventTypes.join(",");
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = realtimeService.subscribe((event) => {
+      if (!types.split(",").includes(event.type)) return;
+      if (filterRef.current && !filterRef.current(event)) return;
+
+      clearTimeout(timer);
+      timer = setTimeout(() => refreshRef.current(), REFRESH_DELAY);
+    });
+    const unwatch = realtimeService.onConnectionChange(setConnected);
+    setConnected(realtimeService.isConnected());
+
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+      unwatch();
+    };
+  }, [types, enabled]);
+
+  // Catch up on whatever was missed while a dropped stream reconnected
+  useEffect(() => {
+    if (!connected && wasConnected.current) {
+      reconnecting.current = true;
+    } else if (enabled && connected && reconnecting.current) {
+      reconnecting.current = false;
+      refreshRef.current();
+    }
+    wasConnected.current = connected;
+  }, [enabled, connected]);
+
+  useEffect(() => {
+    if (!enabled || connected) {
+      return;
+    }
+
+    const interval = setInterval(() => refreshRef.current(), pollInterval);
+    return () => clearInterval(interval);
+  }, [enabled, connected, pollInterval]);
+
+  return connected;
+};
@@ -0,0 +1,17 @@
+import { useCallback } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { Permission } from "../types";
+import { hasPermission } from "../utils/permissions";
+
+/**
+ * Returns a checker for the current user's permissions, e.g.
+ * `const can = usePermission(); if (can("items:write")) ...`
+ */
+export const usePermission = () => {
+  const { user } = useAuth();
+
+  return useCallback(
+    (permission: Permission) => hasPermission(user?.role, permission),
+    [user?.role]
+  );
+};
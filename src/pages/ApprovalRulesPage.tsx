@@ -0,0 +1,254 @@
+import React, { useState, useEffect } from "react";
+import MainLayout from "../components/layout/MainLayout";
+import Button from "../components/ui/Button";
+import Alert from "../components/ui/Alert";
+import Badge from "../components/ui/Badge";
+import { ShieldCheck, Plus, Edit, Trash2 } from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+import { usePermission } from "../hooks/usePermission";
+import { ApprovalRule } from "../types";
+import ApprovalRuleFormModal from "../components/approvals/ApprovalRuleFormModal";
+import {
+  approvalRuleService,
+  ApprovalRuleInput,
+} from "../services/approvalRuleService";
+import { categoryService } from "../services/categoryService";
+import { userService } from "../services/userService";
+
+const ApprovalRulesPage: React.FC = () => {
+  const { isAuthenticated } = useAuth();
+  const can = usePermission();
+  const canManageApprovals = can("approvals:manage");
+  const [rules, setRules] = useState<ApprovalRule[]>([]);
+  const [categoryOptions, setCategoryOptions] = useState<
+    { value: string; label: string }[]
+  >([]);
+  const [approverOptions, setApproverOptions] = useState<
+    { value: string; label: string }[]
+  >([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showRuleModal, setShowRuleModal] = useState(false);
+  const [editingRule, setEditingRule] = useState<ApprovalRule | null>(null);
+
+  useEffect(() => {
+    if (isAuthenticated && canManageApprovals) {
+      fetchRules();
+      fetchOptions();
+    } else {
+      setLoading(false);
+    }
+  }, [isAuthenticated, canManageApprovals]);
+
+  const fetchRules = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setRules(await approvalRuleService.getAllRules());
+    } catch (err) {
+      setError("Failed to load approval rules. Please try again.");
+      console.error("Error fetching approval rules:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchOptions = async () => {
+    try {
+      const [categories, users] = await Promise.all([
+        categoryService.getCategoryOptions(),
+        userService.getAllUsers(),
+      ]);
+      setCategoryOptions(categories);
+      setApproverOptions(
+        users.map((user) => ({
+          value: user.id,
+          label: `${user.username} (${user.role})`,
+        }))
+      );
+    } catch (err) {
+      console.error("Error fetching approval rule options:", err);
+    }
+  };
+
+  const handleSaveRule = async (rule: ApprovalRuleInput) => {
+    if (editingRule) {
+      const updatedRule = await approvalRuleService.updateRule(
+        editingRule.id,
+        rule
+      );
+      setRules(rules.map((r) => (r.id === editingRule.id ? updatedRule : r)));
+    } else {
+      const newRule = await approvalRuleService.createRule(rule);
+      setRules([...rules, newRule]);
+    }
+    setEditingRule(null);
+  };
+
+  const handleDeleteRule = async (rule: ApprovalRule) => {
+    if (!window.confirm(`Delete the approval rule "${rule.name}"?`)) {
+      return;
+    }
+
+    try {
+      await approvalRuleService.deleteRule(rule.id);
+      setRules(rules.filter((r) => r.id !== rule.id));
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to delete approval rule."
+      );
+      console.error("Error deleting approval rule:", err);
+    }
+  };
+
+  const describeConditions = (rule: ApprovalRule) => {
+    const conditions = [];
+    if (rule.category) conditions.push(`Category is ${rule.category}`);
+    if (rule.min_quantity !== null)
+      conditions.push(`Total quantity of at least ${rule.min_quantity}`);
+    if (rule.min_value !== null)
+      conditions.push(`Total value of at least ${rule.min_value.toLocaleString()}`);
+    return conditions.length > 0 ? conditions.join(", ") : "Every request";
+  };
+
+  const describeRuleApprover = (rule: ApprovalRule) => {
+    if (rule.approver_id) return rule.approver_name || "A specific user";
+    if (rule.approver_role) return `Any ${rule.approver_role}`;
+    return "Any approver";
+  };
+
+  if (!isAuthenticated || !canManageApprovals) {
+    return (
+      <MainLayout>
+        <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <Alert variant="error" title="Access Denied">
+            You do not have permission to manage approval rules.
+          </Alert>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  const sortedRules = [...rules].sort(
+    (a, b) => a.step_order - b.step_order || a.name.localeCompare(b.name)
+  );
+
+  return (
+    <MainLayout>
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <div className="flex items-center">
+            <ShieldCheck className="h-6 w-6 text-blue-600 mr-2" />
+            <h1 className="text-2xl font-bold text-gray-900">Approval Rules</h1>
+          </div>
+          <p className="mt-1 text-gray-600">
+            Each matching rule adds a step to a new request's approval chain
+          </p>
+        </div>
+        <Button
+          variant="primary"
+          onClick={() => {
+            setEditingRule(null);
+            setShowRuleModal(true);
+          }}
+          icon={<Plus className="h-4 w-4" />}
+        >
+          Add Rule
+        </Button>
+      </div>
+
+      {error && (
+        <Alert
+          variant="error"
+          title="Error"
+          onDismiss={() => setError(null)}
+          className="mb-6"
+        >
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
+          <ShieldCheck className="h-12 w-12 text-gray-400 mx-auto animate-pulse" />
+          <h3 className="mt-4 text-lg font-medium text-gray-900">
+            Loading approval rules...
+          </h3>
+        </div>
+      ) : sortedRules.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
+          <ShieldCheck className="h-12 w-12 text-gray-400 mx-auto" />
+          <h3 className="mt-4 text-lg font-medium text-gray-900">
+            No approval rules
+          </h3>
+          <p className="mt-2 text-gray-600">
+            Without rules, requests are approved in a single step by any
+            approver.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white shadow overflow-hidden sm:rounded-md">
+          <ul className="divide-y divide-gray-200">
+            {sortedRules.map((rule) => (
+              <li key={rule.id} className="px-4 py-4 sm:px-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <Badge variant="primary">Step {rule.step_order}</Badge>
+                      <span className="text-sm font-medium text-gray-900">
+                        {rule.name}
+                      </span>
+                      {!rule.is_active && (
+                        <Badge variant="default">Inactive</Badge>
+                      )}
+                    </div>
+                    <div className="mt-1 text-sm text-gray-500">
+                      {describeConditions(rule)} · Decided by{" "}
+                      {describeRuleApprover(rule)}
+                    </div>
+                  </div>
+                  <div className="ml-4 flex-shrink-0 flex">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setEditingRule(rule);
+                        setShowRuleModal(true);
+                      }}
+                      icon={<Edit className="h-4 w-4" />}
+                    >
+                      Edit
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDeleteRule(rule)}
+                      icon={<Trash2 className="h-4 w-4" />}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <ApprovalRuleFormModal
+        isOpen={showRuleModal}
+        rule={editingRule}
+        categoryOptions={categoryOptions}
+        approverOptions={approverOptions}
+        onClose={() => {
+          setShowRuleModal(false);
+          setEditingRule(null);
+        }}
+        onSave={handleSaveRule}
+      />
+    </MainLayout>
+  );
+};
+
+export default ApprovalRulesPage;
@@ -1,11 +1,12 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
-import { Item, ItemCategory, ItemRequest } from "../types";
+import { Item, ItemRequest, Warehouse } from "../types";
 import MainLayout from "../components/layout/MainLayout";
 import { Card, CardContent } from "../components/ui/Card";
 import Select from "../components/ui/Select";
 import Input from "../components/ui/Input";
 import Button from "../components/ui/Button";
+import Pagination from "../components/ui/Pagination";
 import {
   Search,
   Filter,
@@ -14,40 +15,54 @@ import {
   Package,
   ShoppingCart,
   Calendar,
+  CalendarDays,
+  X,
 } from "lucide-react";
 import { useAuth } from "../contexts/AuthContext";
 import { itemService } from "../services/itemService";
 import { categoryService } from "../services/categoryService";
-import { API_BASE_URL } from "../config";
+import { warehouseService } from "../services/warehouseService";
+import { API_BASE_URL, DEFAULT_PAGE, DEFAULT_PAGE_SIZE } from "../config";
 import Alert from "../components/ui/Alert";
 import { Link } from "react-router-dom";
 import RequestItemModal from "../components/requests/RequestItemModal";
 import BorrowItemModal from "../components/loans/BorrowItemModal";
-import { normalizeCategory, categoriesAreEqual } from "../utils/categoryUtils";
+import AvailabilityCalendar from "../components/loans/AvailabilityCalendar";
+import ItemCodes from "../components/inventory/ItemCodes";
+import { getLocationFilterOptions, toLocationQuery } from "../utils/locationUtils";
+import { authFetch } from "../utils/authFetch";
 
 const BrowseItemsPage: React.FC = () => {
   const { isAuthenticated } = useAuth();
   const navigate = useNavigate();
   const [categoryFilter, setCategoryFilter] = useState<string>("all");
+  const [locationFilter, setLocationFilter] = useState<string>("all");
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedItem, setSelectedItem] = useState<Item | null>(null);
   const [selectedBorrowItem, setSelectedBorrowItem] = useState<Item | null>(null);
+  const [availabilityItem, setAvailabilityItem] = useState<Item | null>(null);
   const [items, setItems] = useState<Item[]>([]);
+  const [page, setPage] = useState(DEFAULT_PAGE);
+  const [total, setTotal] = useState(0);
+  const [totalPages, setTotalPages] = useState(0);
 
   useEffect(() => {
-    // Fetch items from the API
-    fetchItems();
     // Fetch categories from the API
     fetchCategories();
+    warehouseService
+      .getWarehouses()
+      .then(setWarehouses)
+      .catch((err) => console.error("Error fetching warehouses:", err));
   }, []);
 
   // Function to fetch categories from the database
   const fetchCategories = async () => {
     try {
       // Directly fetch from API to bypass categoryService issues
-      const response = await fetch(`${API_BASE_URL}/categories`);
+      const response = await authFetch(`${API_BASE_URL}/categories`);
       if (response.ok) {
         const data = await response.json();
         if (data.success && data.categories && Array.isArray(data.categories)) {
@@ -84,17 +99,25 @@ const BrowseItemsPage: React.FC = () => {
     }
   };
 
-  const fetchItems = async () => {
+  const fetchItems = useCallback(async () => {
     setLoading(true);
     setError(null); // Clear any previous errors
     try {
       console.log("BrowseItemsPage: Fetching items from itemService...");
 
       // Use the itemService which handles environment variables correctly
-      const fetchedItems = await itemService.getAllItems();
-      console.log("BrowseItemsPage: Items received from itemService:", fetchedItems);
+      const result = await itemService.queryItems({
+        search: searchTerm || undefined,
+        category: categoryFilter !== "all" ? categoryFilter : undefined,
+        ...toLocationQuery(locationFilter),
+        page,
+        pageSize: DEFAULT_PAGE_SIZE,
+      });
+      console.log("BrowseItemsPage: Items received from itemService:", result);
 
-      setItems(fetchedItems);
+      setItems(result.items);
+      setTotal(result.total);
+      setTotalPages(result.totalPages);
       // Clear error on successful fetch
       setError(null);
     } catch (err) {
@@ -103,7 +126,14 @@ const BrowseItemsPage: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [categoryFilter, searchTerm, locationFilter, page]);
+
+  // Fetch the page of items matching the filters; wait for typing in the
+  // search box to settle first
+  useEffect(() => {
+    const timer = setTimeout(fetchItems, 300);
+    return () => clearTimeout(timer);
+  }, [fetchItems]);
 
   const [categoryOptions, setCategoryOptions] = useState([
     { value: "all", label: "All Categories" },
@@ -115,33 +145,11 @@ const BrowseItemsPage: React.FC = () => {
     { value: "other", label: "Other" },
   ]);
 
-  const filteredItems = items.filter((item) => {
-    // Use the utility function for category comparison
-    if (
-      categoryFilter !== "all" &&
-      !categoriesAreEqual(item.category, categoryFilter)
-    )
-      return false;
-
-    // Case-insensitive search in name and description
-    if (searchTerm) {
-      const searchTermLower = searchTerm.toLowerCase();
-      const nameMatch = item.name?.toLowerCase().includes(searchTermLower);
-      const descriptionMatch = item.description
-        ?.toLowerCase()
-        .includes(searchTermLower);
-
-      if (!nameMatch && !descriptionMatch) {
-        return false;
-      }
-    }
-
-    return true;
-  });
-
   const resetFilters = () => {
     setCategoryFilter("all");
+    setLocationFilter("all");
     setSearchTerm("");
+    setPage(DEFAULT_PAGE);
   };
 
   return (
@@ -171,25 +179,40 @@ const BrowseItemsPage: React.FC = () => {
 
       <Card className="mb-6">
         <CardContent className="p-4">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <Input
-              placeholder="Search items..."
+              placeholder="Search by name, SKU or barcode..."
               value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              onChange={(e) => {
+                setSearchTerm(e.target.value);
+                setPage(DEFAULT_PAGE);
+              }}
               className="mb-0"
             />
             <Select
               value={categoryFilter}
-              onChange={(e) => setCategoryFilter(e.target.value)}
+              onChange={(e) => {
+                setCategoryFilter(e.target.value);
+                setPage(DEFAULT_PAGE);
+              }}
               options={categoryOptions}
               className="mb-0"
             />
+            <Select
+              value={locationFilter}
+              onChange={(e) => {
+                setLocationFilter(e.target.value);
+                setPage(DEFAULT_PAGE);
+              }}
+              options={getLocationFilterOptions(warehouses)}
+              className="mb-0"
+            />
           </div>
 
           <div className="flex justify-between items-center mt-4">
             <div className="text-sm text-gray-600">
               <Filter className="h-4 w-4 inline-block mr-1" />
-              <span>{filteredItems.length} items found</span>
+              <span>{total} items found</span>
             </div>
             <Button
               variant="outline"
@@ -210,7 +233,7 @@ const BrowseItemsPage: React.FC = () => {
             Loading items...
           </h3>
         </div>
-      ) : filteredItems.length === 0 ? (
+      ) : items.length === 0 ? (
         <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
           <Package className="h-12 w-12 text-gray-400 mx-auto" />
           <h3 className="mt-4 text-lg font-medium text-gray-900">
@@ -222,7 +245,7 @@ const BrowseItemsPage: React.FC = () => {
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredItems.map((item) => (
+          {items.map((item) => (
             <Card
               key={item.id}
               className="hover:shadow-lg transition-shadow duration-200"
@@ -231,6 +254,7 @@ const BrowseItemsPage: React.FC = () => {
                 <h3 className="text-lg font-semibold text-gray-900">
                   {item.name}
                 </h3>
+                <ItemCodes item={item} className="mt-1" />
                 <p className="mt-2 text-sm text-gray-600">{item.description}</p>
 
                 <div className="mt-4 space-y-2">
@@ -247,6 +271,14 @@ const BrowseItemsPage: React.FC = () => {
                       {item.quantity}
                     </span>
                   </div>
+                  {item.locations && item.locations.length > 0 && (
+                    <div className="flex items-start justify-between gap-2 text-sm">
+                      <span className="text-gray-500">Stored at:</span>
+                      <span className="font-medium text-gray-900 text-right">
+                        {[...new Set(item.locations.map((location) => location.warehouse_name))].join(", ")}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex items-center justify-between text-sm">
                     <span className="text-gray-500">Status:</span>
                     <span
@@ -272,14 +304,24 @@ const BrowseItemsPage: React.FC = () => {
                   item.quantity > 0 && (
                     <div className="mt-4">
                       {item.category?.toLowerCase() === 'electronics' ? (
-                        <Button
-                          variant="primary"
-                          fullWidth
-                          onClick={() => setSelectedBorrowItem(item)}
-                          icon={<Calendar className="h-4 w-4" />}
-                        >
-                          Borrow
-                        </Button>
+                        <div className="flex space-x-2">
+                          <Button
+                            variant="primary"
+                            fullWidth
+                            onClick={() => setSelectedBorrowItem(item)}
+                            icon={<Calendar className="h-4 w-4" />}
+                          >
+                            Borrow
+                          </Button>
+                          <Button
+                            variant="outline"
+                            fullWidth
+                            onClick={() => setAvailabilityItem(item)}
+                            icon={<CalendarDays className="h-4 w-4" />}
+                          >
+                            Availability
+                          </Button>
+                        </div>
                       ) : (
                         <Button
                           variant="primary"
@@ -297,6 +339,15 @@ const BrowseItemsPage: React.FC = () => {
           ))}
         </div>
       )}
+      <Pagination
+        page={page}
+        pageSize={DEFAULT_PAGE_SIZE}
+        total={total}
+        totalPages={totalPages}
+        onPageChange={setPage}
+        disabled={loading}
+        className="mt-6"
+      />
       {selectedItem && (
         <RequestItemModal
           item={selectedItem}
@@ -319,6 +370,39 @@ const BrowseItemsPage: React.FC = () => {
           }}
         />
       )}
+      {availabilityItem && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b">
+              <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+                <CalendarDays className="h-5 w-5 mr-2 text-blue-600" />
+                {availabilityItem.name}
+              </h2>
+              <button
+                onClick={() => setAvailabilityItem(null)}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+            <div className="p-6">
+              <AvailabilityCalendar itemId={availabilityItem.id} />
+              <div className="flex justify-end pt-4">
+                <Button
+                  variant="primary"
+                  onClick={() => {
+                    setSelectedBorrowItem(availabilityItem);
+                    setAvailabilityItem(null);
+                  }}
+                  icon={<Calendar className="h-4 w-4" />}
+                >
+                  Borrow or Reserve
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
     </MainLayout>
   );
 };
@@ -1,7 +1,10 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import { Navigate } from "react-router-dom";
-import { ItemRequest } from "../types";
+import { ItemRequest, RequestListFilters, RequestStatus } from "../types";
+import { DEFAULT_PAGE_SIZE } from "../config";
 import { useAuth } from "../contexts/AuthContext";
+import { usePermission } from "../hooks/usePermission";
+import { useLiveRefresh } from "../hooks/useLiveRefresh";
 import { requestService } from "../services/requestService";
 import { dashboardService, DashboardStats as DashboardStatsType, UserDashboardStats as UserDashboardStatsType } from "../services/dashboardService";
 import MainLayout from "../components/layout/MainLayout";
@@ -18,70 +21,96 @@ import Logo from "../components/ui/Logo";
 import { PlusCircle, ArrowRight, AlertCircle, TrendingUp, Activity, Package, ClipboardList, Users } from "lucide-react";
 
 const HomePage: React.FC = () => {
-  const { user, isAuthenticated, isAdmin } = useAuth();
+  const { user, isAuthenticated } = useAuth();
+  const can = usePermission();
+  const canViewAll = can("requests:view_all");
+  const canViewReports = can("reports:view");
   const [requests, setRequests] = useState<ItemRequest[]>([]);
+  const [requestFilters, setRequestFilters] = useState<RequestListFilters>({});
+  const [requestTotal, setRequestTotal] = useState(0);
   const [loading, setLoading] = useState(true);
   const [dashboardStats, setDashboardStats] = useState<DashboardStatsType | null>(null);
   const [userDashboardStats, setUserDashboardStats] = useState<UserDashboardStatsType | null>(null);
   const [dashboardLoading, setDashboardLoading] = useState(true);
 
+  // Admins see the latest few requests, users the first page of their own
+  const fetchRequests = useCallback(async (showLoading = true) => {
+    if (showLoading) setLoading(true);
+    try {
+      const result = await requestService.queryRequests({
+        ...requestFilters,
+        pageSize: canViewAll ? 5 : DEFAULT_PAGE_SIZE,
+      });
+      setRequests(result.requests);
+      setRequestTotal(result.total);
+    } catch (error) {
+      console.error("Error fetching requests:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [requestFilters, canViewAll]);
+
+  const fetchDashboardStats = useCallback(async (showLoading = true) => {
+    if (showLoading) setDashboardLoading(true);
+
+    if (canViewReports) {
+      try {
+        const stats = await dashboardService.getDashboardStats();
+        setDashboardStats(stats);
+      } catch (error) {
+        console.error("Error fetching dashboard stats:", error);
+      } finally {
+        setDashboardLoading(false);
+      }
+    } else if (user) {
+      // Fetch user-specific dashboard stats for regular users
+      try {
+        const userStats = await dashboardService.getUserDashboardStats(user.id);
+        setUserDashboardStats(userStats);
+      } catch (error) {
+        console.error("Error fetching user dashboard stats:", error);
+      } finally {
+        setDashboardLoading(false);
+      }
+    } else {
+      setDashboardLoading(false);
+    }
+  }, [canViewReports, user]);
+
+  useEffect(() => {
+    if (!isAuthenticated || !user) {
+      setLoading(false);
+      return;
+    }
+
+    // Wait for typing in the search box to settle first
+    const timer = setTimeout(fetchRequests, 300);
+    return () => clearTimeout(timer);
+  }, [isAuthenticated, user, fetchRequests]);
+
   useEffect(() => {
     if (isAuthenticated) {
-      setLoading(true);
-      setDashboardLoading(true);
-
-      const fetchRequests = async () => {
-        try {
-          let requestData;
-          if (isAdmin) {
-            requestData = await requestService.getAllRequests();
-          } else if (user) {
-            requestData = await requestService.getUserRequests(user.id);
-          }
-          setRequests(requestData || []);
-        } catch (error) {
-          console.error("Error fetching requests:", error);
-        } finally {
-          setLoading(false);
-        }
-      };
-
-      const fetchDashboardStats = async () => {
-        if (isAdmin) {
-          try {
-            const stats = await dashboardService.getDashboardStats();
-            setDashboardStats(stats);
-          } catch (error) {
-            console.error("Error fetching dashboard stats:", error);
-          } finally {
-            setDashboardLoading(false);
-          }
-        } else if (user) {
-          // Fetch user-specific dashboard stats for regular users
-          try {
-            const userStats = await dashboardService.getUserDashboardStats(user.id);
-            setUserDashboardStats(userStats);
-          } catch (error) {
-            console.error("Error fetching user dashboard stats:", error);
-          } finally {
-            setDashboardLoading(false);
-          }
-        } else {
-          setDashboardLoading(false);
-        }
-      };
-
-      fetchRequests();
       fetchDashboardStats();
     } else {
-      setLoading(false);
       setDashboardLoading(false);
     }
-  }, [isAuthenticated, isAdmin, user]);
+  }, [isAuthenticated, fetchDashboardStats]);
+
+  // Keep the requests and the dashboard current as requests and stock change,
+  // without flashing the loading state
+  useLiveRefresh(
+    ["request_updated", "stock_changed"],
+    () => {
+      if (!user) return;
+      fetchRequests(false);
+      fetchDashboardStats(false);
+    },
+    { enabled: isAuthenticated }
+  );
 
   const handleStatusChange = async (
     id: string,
-    status: "approved" | "rejected" | "completed" | "pending"
+    status: RequestStatus
   ) => {
     try {
       const updatedRequest = await requestService.updateRequestStatus(
@@ -97,7 +126,7 @@ const HomePage: React.FC = () => {
   };
 
   const handleDelete = async (id: string) => {
-    const confirmMessage = isAdmin
+    const confirmMessage = can("requests:delete")
       ? "Are you sure you want to delete this request? This action cannot be undone."
       : "Are you sure you want to cancel this request?";
 
@@ -112,9 +141,6 @@ const HomePage: React.FC = () => {
   };
 
   // Calculate stats for admin dashboard
-  const pendingRequests = requests.filter(
-    (req) => req.status === "pending"
-  ).length;
   const approvedRequests = requests.filter(
     (req) => req.status === "approved"
   ).length;
@@ -137,12 +163,12 @@ const HomePage: React.FC = () => {
           <div className="absolute -top-2 -left-2 w-8 h-8 bg-gradient-to-br from-primary-400 to-secondary-400 rounded-full blur-sm opacity-50 animate-pulse"></div>
         </div>
         <p className="mt-2 text-lg text-gray-600 font-medium">
-          You are logged in as {isAdmin ? "an administrator" : "a regular user"}.
+          You are logged in as {canViewReports ? "an administrator" : "a regular user"}.
         </p>
       </div>
 
       {/* Authenticated user content */}
-      {isAdmin && dashboardStats && (
+      {canViewReports && dashboardStats && (
         <>
           {/* Main Dashboard Statistics */}
           <DashboardStats
@@ -163,7 +189,7 @@ const HomePage: React.FC = () => {
           </div>
 
           {/* Quick Actions */}
-          <div className={`mb-6 grid grid-cols-1 ${user?.role === "manager" ? "md:grid-cols-3" : "md:grid-cols-2"} gap-4`}>
+          <div className={`mb-6 grid grid-cols-1 ${can("users:manage") ? "md:grid-cols-3" : "md:grid-cols-2"} gap-4`}>
             <Card className="bg-gradient-to-br from-blue-50 to-blue-100 border-blue-200 hover:shadow-lg transition-shadow duration-200">
               <CardContent className="p-6">
                 <div className="flex items-center justify-between">
@@ -203,7 +229,7 @@ const HomePage: React.FC = () => {
             </Card>
 
             {/* Only show User Management for managers */}
-            {user?.role === "manager" && (
+            {can("users:manage") && (
               <Card className="bg-gradient-to-br from-purple-50 to-purple-100 border-purple-200 hover:shadow-lg transition-shadow duration-200">
                 <CardContent className="p-6">
                   <div className="flex items-center justify-between">
@@ -228,7 +254,7 @@ const HomePage: React.FC = () => {
       )}
 
       {/* User Dashboard for Regular Users */}
-      {!isAdmin && userDashboardStats && (
+      {!canViewReports && userDashboardStats && (
         <>
           {/* User Dashboard Statistics */}
           <UserDashboardStats
@@ -276,9 +302,9 @@ const HomePage: React.FC = () => {
       <div className="mb-6 flex justify-between items-center">
         <h2 className="text-xl font-bold text-gray-900 flex items-center">
           <ClipboardList className="h-6 w-6 mr-2 text-primary-600" />
-          {isAdmin ? "Recent Requests" : "Your Requests"}
+          {canViewAll ? "Recent Requests" : "Your Requests"}
         </h2>
-        {isAdmin && (
+        {canViewAll && (
           <Button variant="outline" href="/requests" className="shadow-3d">
             View All Requests
           </Button>
@@ -286,15 +312,18 @@ const HomePage: React.FC = () => {
       </div>
 
       <RequestList
-        requests={isAdmin ? requests.slice(0, 5) : requests}
-        isAdmin={isAdmin}
-        onStatusChange={isAdmin ? handleStatusChange : undefined}
+        requests={requests}
+        isAdmin={can("requests:approve")}
+        onStatusChange={can("requests:approve") ? handleStatusChange : undefined}
         onDelete={handleDelete}
         isLoading={loading}
+        filters={requestFilters}
+        onFiltersChange={setRequestFilters}
+        total={requestTotal}
       />
 
       {
-        !isAdmin && requests.length > 0 && (
+        !canViewAll && requests.length > 0 && (
           <div className="mt-6 text-right">
             <Button
               variant="outline"
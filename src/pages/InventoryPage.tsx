@@ -1,9 +1,12 @@
-import React, { useState, useEffect } from "react";
-import { Item } from "../types";
-import { useAuth } from "../contexts/AuthContext";
+import React, { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { Item, ItemSortField, ReorderSuggestion, Warehouse } from "../types";
+import { usePermission } from "../hooks/usePermission";
+import { useLiveRefresh } from "../hooks/useLiveRefresh";
 import MainLayout from "../components/layout/MainLayout";
 import { Card, CardContent } from "../components/ui/Card";
 import Button from "../components/ui/Button";
+import Pagination from "../components/ui/Pagination";
 import Alert from "../components/ui/Alert";
 import Logo from "../components/ui/Logo";
 import {
@@ -13,6 +16,9 @@ import {
   FileSpreadsheet,
   ListFilter,
   Search,
+  ShoppingCart,
+  TrendingDown,
+  Printer,
 } from "lucide-react";
 import InventoryList from "../components/inventory/InventoryList";
 import AddItemModal from "../components/inventory/AddItemModal";
@@ -20,17 +26,29 @@ import EditItemModal from "../components/inventory/EditItemModal";
 import ImportItemsModal from "../components/inventory/ImportItemsModal";
 import CategoryManagement from "../components/inventory/CategoryManagement";
 import BrowseItemsModal from "../components/inventory/BrowseItemsModal";
+import TransferStockModal from "../components/inventory/TransferStockModal";
+import AssetUnitsModal from "../components/inventory/AssetUnitsModal";
+import ReorderSuggestionsModal from "../components/inventory/ReorderSuggestionsModal";
+import PrintLabelsModal from "../components/inventory/PrintLabelsModal";
+import LowStockOrderModal from "../components/purchasing/LowStockOrderModal";
 
 
 import Select from "../components/ui/Select";
 import Input from "../components/ui/Input";
 import { itemService } from "../services/itemService";
 import { categoryService } from "../services/categoryService";
-import { normalizeCategory, categoriesAreEqual } from "../utils/categoryUtils";
-import { API_BASE_URL } from "../config";
+import { warehouseService } from "../services/warehouseService";
+import { normalizeCategory } from "../utils/categoryUtils";
+import {
+  findLocationByName,
+  getLocationFilterOptions,
+  toLocationQuery,
+} from "../utils/locationUtils";
+import { DEFAULT_PAGE, DEFAULT_PAGE_SIZE } from "../config";
 
 const InventoryPage: React.FC = () => {
-  useAuth();
+  const navigate = useNavigate();
+  const can = usePermission();
   const [items, setItems] = useState<Item[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -38,12 +56,27 @@ const InventoryPage: React.FC = () => {
   const [showImportModal, setShowImportModal] = useState(false);
   const [showCategoryModal, setShowCategoryModal] = useState(false);
   const [showBrowseModal, setShowBrowseModal] = useState(false);
+  const [showLowStockOrderModal, setShowLowStockOrderModal] = useState(false);
+  const [showReorderModal, setShowReorderModal] = useState(false);
+  const [showLabelsModal, setShowLabelsModal] = useState(false);
+  const [reorderSuggestions, setReorderSuggestions] = useState<
+    Record<string, ReorderSuggestion>
+  >({});
   const [editingItem, setEditingItem] = useState<Item | null>(null);
+  const [transferringItem, setTransferringItem] = useState<Item | null>(null);
+  const [assetsItem, setAssetsItem] = useState<Item | null>(null);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
 
   const [categoryFilter, setCategoryFilter] = useState<string>("all");
   const [searchTerm, setSearchTerm] = useState("");
 
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [locationFilter, setLocationFilter] = useState<string>("all");
+  const [lowStockOnly, setLowStockOnly] = useState(false);
+  const [sortValue, setSortValue] = useState("name:asc");
+  const [page, setPage] = useState(DEFAULT_PAGE);
+  const [total, setTotal] = useState(0);
+  const [totalPages, setTotalPages] = useState(0);
   const [categoryOptions, setCategoryOptions] = useState([
     { value: "all", label: "All Categories" },
     { value: "electronics", label: "Electronics" },
@@ -61,9 +94,18 @@ const InventoryPage: React.FC = () => {
     { value: "out-of-stock", label: "Out of Stock" },
   ];
 
+  const sortOptions = [
+    { value: "name:asc", label: "Name (A-Z)" },
+    { value: "name:desc", label: "Name (Z-A)" },
+    { value: "quantity:asc", label: "Lowest Stock" },
+    { value: "quantity:desc", label: "Highest Stock" },
+    { value: "category:asc", label: "Category" },
+    { value: "status:asc", label: "Status" },
+  ];
+
   useEffect(() => {
-    fetchItems();
     fetchCategories();
+    fetchWarehouses();
   }, []);
 
   // Function to fetch categories from the database
@@ -81,102 +123,140 @@ const InventoryPage: React.FC = () => {
     }
   };
 
-  const fetchItems = async () => {
-    setLoading(true);
+  const fetchWarehouses = async () => {
     try {
-      console.log("InventoryPage: Fetching items directly from API...");
-
-      // Direct API call
-      const response = await fetch(`${API_BASE_URL}/items`);
-      console.log("InventoryPage: Response status:", response.status);
+      setWarehouses(await warehouseService.getWarehouses());
+    } catch (err) {
+      console.error("Error fetching warehouses:", err);
+    }
+  };
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! Status: ${response.status}`);
-      }
+  // Reorder points suggested for the items on the page; only shown to those
+  // who can change minimum quantities
+  const fetchReorderSuggestions = useCallback(async (itemIds: string[]) => {
+    if (!can("items:write") || itemIds.length === 0) {
+      setReorderSuggestions({});
+      return;
+    }
+    try {
+      const suggestions = await itemService.getReorderSuggestions(itemIds);
+      setReorderSuggestions(
+        Object.fromEntries(suggestions.map((s) => [s.item_id, s]))
+      );
+    } catch (err) {
+      console.error("Error fetching reorder suggestions:", err);
+    }
+  }, [can]);
 
-      const data = await response.json();
-      console.log("InventoryPage: Items received directly from API:", data);
-
-      // Map the data to the expected format
-      const formattedItems = data.map((item: any) => {
-        // Use the utility function to normalize the category
-        const normalizedCategory = normalizeCategory(item.category);
-
-        return {
-          id: item.id?.toString() || "0",
-          name: item.name || "Unknown Item",
-          description: item.description || "",
-          category: normalizedCategory,
-          quantity: typeof item.quantity === "number" ? item.quantity : 0,
-          minQuantity:
-            typeof item.minQuantity === "number" ? item.minQuantity : 0,
-          status: item.status || "in-stock",
-          lastRestocked: item.lastRestocked,
-          price: item.price,
-        };
+  const fetchItems = useCallback(async (showLoading = true) => {
+    if (showLoading) setLoading(true);
+    try {
+      console.log("InventoryPage: Fetching items from itemService...");
+
+      const [sort, order] = sortValue.split(":");
+      const result = await itemService.queryItems({
+        search: searchTerm || undefined,
+        category: categoryFilter !== "all" ? categoryFilter : undefined,
+        status:
+          statusFilter !== "all" ? (statusFilter as Item["status"]) : undefined,
+        lowStock: lowStockOnly,
+        ...toLocationQuery(locationFilter),
+        sort: sort as ItemSortField,
+        order: order as "asc" | "desc",
+        page,
+        pageSize: DEFAULT_PAGE_SIZE,
       });
-
-      console.log("InventoryPage: Formatted items:", formattedItems);
-      setItems(formattedItems);
+      console.log("InventoryPage: Items received from itemService:", result);
+
+      setItems(
+        result.items.map((item) => ({
+          ...item,
+          category: normalizeCategory(item.category),
+        }))
+      );
+      setTotal(result.total);
+      setTotalPages(result.totalPages);
+      fetchReorderSuggestions(result.items.map((item) => item.id));
     } catch (err) {
       console.error("InventoryPage: Error fetching items:", err);
       setError("Failed to load inventory items");
     } finally {
       setLoading(false);
     }
-  };
-
-  const handleAddItem = async (newItem: Omit<Item, "id" | "status">) => {
-    try {
-      const response = await itemService.createItem(newItem);
-      if (response) {
-        // Normalize the item before adding to state (id to string, category normalization)
-        const createdItem: Item = {
-          ...response,
-          id: response.id?.toString() || "0",
-          category: normalizeCategory(response.category),
-          status: response.status || "in-stock",
-          quantity: response.quantity || 0,
-          minQuantity: response.minQuantity || 0
-        };
+  }, [
+    categoryFilter,
+    searchTerm,
+    statusFilter,
+    locationFilter,
+    lowStockOnly,
+    sortValue,
+    page,
+    fetchReorderSuggestions,
+  ]);
 
-        setItems((prev) => [...prev, createdItem]);
-        setShowAddModal(false);
-      } else {
-        setError("Failed to add item");
-      }
-    } catch (err) {
-      console.error("Error adding item:", err);
-      setError("Failed to add item");
+  // Fetch the page of items matching the filters; wait for typing in the
+  // search box to settle first
+  useEffect(() => {
+    const timer = setTimeout(fetchItems, 300);
+    return () => clearTimeout(timer);
+  }, [fetchItems]);
+
+  // Show stock changes made elsewhere as they happen
+  useLiveRefresh(["stock_changed"], () => fetchItems(false));
+
+  // Failures, such as a SKU that is taken, are shown in the modal
+  const handleAddItem = async (
+    newItem: Omit<Item, "id" | "status">,
+    locationId?: string
+  ) => {
+    const { unitConversions, ...itemData } = newItem;
+    const createdItem = await itemService.createItem(itemData, locationId);
+    if (unitConversions && unitConversions.length > 0) {
+      await itemService.setUnitConversions(createdItem.id, unitConversions);
     }
+    // Reload the current page so the new item shows up in its sorted place
+    await fetchItems();
+    setShowAddModal(false);
   };
 
   const handleImportItems = async (newItems: Omit<Item, "id" | "status">[]) => {
     try {
       setLoading(true);
 
-      // Create items one by one
+      // Create items one by one; rows the server rejects, e.g. for a SKU or
+      // barcode another item has, are skipped and listed afterwards
       const createdItems: Item[] = [];
+      const skipped: string[] = [];
 
       for (const item of newItems) {
         try {
-          const createdItem = await itemService.createItem(item);
-          if (createdItem) {
-            createdItems.push(createdItem);
-          }
+          // The spreadsheet names the warehouse (or "warehouse / bin") the
+          // stock is kept at; unknown names go to the default location
+          const { location, ...itemData } = item as typeof item & { location?: string };
+          const createdItem = await itemService.createItem(
+            itemData,
+            location ? findLocationByName(warehouses, location)?.id : undefined
+          );
+          createdItems.push(createdItem);
         } catch (itemErr) {
           console.error("Error importing individual item:", itemErr);
           // Continue with other items even if one fails
+          skipped.push(
+            `${item.name}: ${itemErr instanceof Error ? itemErr.message : "failed"}`
+          );
         }
       }
 
       if (createdItems.length > 0) {
-        setItems((prev) => [...prev, ...createdItems]);
+        await fetchItems();
         console.log(
           `Successfully imported ${createdItems.length} out of ${newItems.length} items`
         );
-      } else {
-        setError("Failed to import any items");
+      }
+      if (skipped.length > 0) {
+        setError(
+          `Imported ${createdItems.length} of ${newItems.length} items. Skipped ${skipped.join("; ")}`
+        );
       }
     } catch (err) {
       console.error("Error importing items:", err);
@@ -188,7 +268,28 @@ const InventoryPage: React.FC = () => {
 
   const handleUpdateItem = async (id: string, updates: Partial<Item>) => {
     try {
-      const updatedItem = await itemService.updateItem(id, updates);
+      // A new quantity is saved as an adjustment of the stock the user saw,
+      // which fails if it changed in the meantime. Unit conversions are
+      // saved on their own, after a change of the item's own unit they are
+      // relative to.
+      const { unitConversions, quantity, ...itemUpdates } = updates;
+      let updatedItem = items.find((item) => item.id === id) ?? null;
+      if (updatedItem && quantity !== undefined && quantity !== updatedItem.quantity) {
+        const { item } = await itemService.adjustStock(id, quantity - updatedItem.quantity, {
+          expectedQuantity: updatedItem.quantity,
+          reason: "Quantity edited",
+        });
+        updatedItem = { ...updatedItem, quantity: item.quantity, status: item.status };
+      }
+      if (Object.keys(itemUpdates).length > 0) {
+        updatedItem = await itemService.updateItem(id, itemUpdates);
+      }
+      if (updatedItem && unitConversions) {
+        updatedItem = {
+          ...updatedItem,
+          unitConversions: await itemService.setUnitConversions(id, unitConversions),
+        };
+      }
       if (updatedItem) {
         setItems((prev) =>
           prev.map((item) => (item.id === id ? updatedItem : item))
@@ -200,7 +301,7 @@ const InventoryPage: React.FC = () => {
       }
     } catch (err) {
       console.error("Error updating item:", err);
-      setError("Failed to update item");
+      setError(err instanceof Error ? err.message : "Failed to update item");
     }
   };
 
@@ -210,7 +311,7 @@ const InventoryPage: React.FC = () => {
     try {
       const success = await itemService.deleteItem(id);
       if (success) {
-        setItems((prev) => prev.filter((item) => item.id !== id));
+        await fetchItems();
         setError(null); // Clear any previous errors
       } else {
         setError("Failed to delete item");
@@ -223,37 +324,14 @@ const InventoryPage: React.FC = () => {
     }
   };
 
-  const filteredItems = items.filter((item) => {
-    // Use the utility function for category comparison
-    if (
-      categoryFilter !== "all" &&
-      !categoriesAreEqual(item.category, categoryFilter)
-    )
-      return false;
-
-    // Status filter
-    if (statusFilter !== "all" && item.status !== statusFilter) return false;
-
-    // Case-insensitive search in name and description
-    if (searchTerm) {
-      const searchTermLower = searchTerm.toLowerCase();
-      const nameMatch = item.name?.toLowerCase().includes(searchTermLower);
-      const descriptionMatch = item.description
-        ?.toLowerCase()
-        .includes(searchTermLower);
-
-      if (!nameMatch && !descriptionMatch) {
-        return false;
-      }
-    }
-
-    return true;
-  });
-
   const resetFilters = () => {
     setCategoryFilter("all");
     setStatusFilter("all");
+    setLocationFilter("all");
     setSearchTerm("");
+    setLowStockOnly(false);
+    setSortValue("name:asc");
+    setPage(DEFAULT_PAGE);
   };
 
 
@@ -297,13 +375,49 @@ const InventoryPage: React.FC = () => {
             </Button>
             <Button
               variant="secondary"
-              onClick={() => setShowCategoryModal(true)}
-              icon={<ListFilter className="h-4 w-4" />}
+              onClick={() => setShowLabelsModal(true)}
+              icon={<Printer className="h-4 w-4" />}
               className="flex-shrink-0"
               size="sm"
             >
-              Categories
+              <span className="hidden sm:inline">Print Labels</span>
+              <span className="sm:hidden">Labels</span>
             </Button>
+            {can("items:write") && (
+              <Button
+                variant="secondary"
+                onClick={() => setShowReorderModal(true)}
+                icon={<TrendingDown className="h-4 w-4" />}
+                className="flex-shrink-0"
+                size="sm"
+              >
+                <span className="hidden sm:inline">Reorder Points</span>
+                <span className="sm:hidden">Reorder</span>
+              </Button>
+            )}
+            {can("purchasing:manage") && (
+              <Button
+                variant="secondary"
+                onClick={() => setShowLowStockOrderModal(true)}
+                icon={<ShoppingCart className="h-4 w-4" />}
+                className="flex-shrink-0"
+                size="sm"
+              >
+                <span className="hidden sm:inline">Order Low Stock</span>
+                <span className="sm:hidden">Order</span>
+              </Button>
+            )}
+            {can("categories:write") && (
+              <Button
+                variant="secondary"
+                onClick={() => setShowCategoryModal(true)}
+                icon={<ListFilter className="h-4 w-4" />}
+                className="flex-shrink-0"
+                size="sm"
+              >
+                Categories
+              </Button>
+            )}
             <Button
               variant="primary"
               onClick={() => setShowAddModal(true)}
@@ -332,31 +446,72 @@ const InventoryPage: React.FC = () => {
 
       <Card className="mb-6">
         <CardContent className="p-4">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             <Input
-              placeholder="Search items..."
+              placeholder="Search by name, SKU or barcode..."
               value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              onChange={(e) => {
+                setSearchTerm(e.target.value);
+                setPage(DEFAULT_PAGE);
+              }}
               className="mb-0"
             />
             <Select
               value={categoryFilter}
-              onChange={(e) => setCategoryFilter(e.target.value)}
+              onChange={(e) => {
+                setCategoryFilter(e.target.value);
+                setPage(DEFAULT_PAGE);
+              }}
               options={categoryOptions}
               className="mb-0"
             />
             <Select
               value={statusFilter}
-              onChange={(e) => setStatusFilter(e.target.value)}
+              onChange={(e) => {
+                setStatusFilter(e.target.value);
+                setPage(DEFAULT_PAGE);
+              }}
               options={statusOptions}
               className="mb-0"
             />
+            <Select
+              value={locationFilter}
+              onChange={(e) => {
+                setLocationFilter(e.target.value);
+                setPage(DEFAULT_PAGE);
+              }}
+              options={getLocationFilterOptions(warehouses)}
+              className="mb-0"
+            />
+            <Select
+              value={sortValue}
+              onChange={(e) => {
+                setSortValue(e.target.value);
+                setPage(DEFAULT_PAGE);
+              }}
+              options={sortOptions}
+              className="mb-0"
+            />
           </div>
 
           <div className="flex justify-between items-center mt-4">
-            <div className="text-sm text-gray-600">
-              <Filter className="h-4 w-4 inline-block mr-1" />
-              <span>{filteredItems.length} items found</span>
+            <div className="flex items-center gap-4 text-sm text-gray-600">
+              <div>
+                <Filter className="h-4 w-4 inline-block mr-1" />
+                <span>{total} items found</span>
+              </div>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={lowStockOnly}
+                  onChange={(e) => {
+                    setLowStockOnly(e.target.checked);
+                    setPage(DEFAULT_PAGE);
+                  }}
+                  className="rounded border-gray-300"
+                />
+                Low stock only
+              </label>
             </div>
             <Button
               variant="outline"
@@ -371,18 +526,32 @@ const InventoryPage: React.FC = () => {
       </Card>
 
       <InventoryList
-        items={filteredItems}
+        items={items}
         onUpdate={handleUpdateItem}
         onDelete={handleDeleteItem}
         onEdit={(item) => setEditingItem(item)}
+        onTransfer={can("stock:adjust") ? setTransferringItem : undefined}
+        onManageAssets={can("loans:manage") ? setAssetsItem : undefined}
+        reorderSuggestions={reorderSuggestions}
 
         isLoading={loading}
       />
 
+      <Pagination
+        page={page}
+        pageSize={DEFAULT_PAGE_SIZE}
+        total={total}
+        totalPages={totalPages}
+        onPageChange={setPage}
+        disabled={loading}
+        className="mt-6"
+      />
+
       {showAddModal && (
         <AddItemModal
           onClose={() => setShowAddModal(false)}
           onAdd={handleAddItem}
+          warehouses={warehouses}
         />
       )}
 
@@ -393,6 +562,46 @@ const InventoryPage: React.FC = () => {
         />
       )}
 
+      {showLabelsModal && (
+        <PrintLabelsModal
+          items={items}
+          onClose={() => setShowLabelsModal(false)}
+        />
+      )}
+
+      {showReorderModal && (
+        <ReorderSuggestionsModal
+          onClose={() => setShowReorderModal(false)}
+          onAccepted={() => fetchItems(false)}
+        />
+      )}
+
+      {showLowStockOrderModal && (
+        <LowStockOrderModal
+          onClose={() => setShowLowStockOrderModal(false)}
+          onCreated={(order) => navigate(`/purchase-orders/${order.id}`)}
+        />
+      )}
+
+      {transferringItem && (
+        <TransferStockModal
+          item={transferringItem}
+          warehouses={warehouses}
+          onClose={() => setTransferringItem(null)}
+          onTransferred={(locations) =>
+            setItems((prev) =>
+              prev.map((item) =>
+                item.id === transferringItem.id ? { ...item, locations } : item
+              )
+            )
+          }
+        />
+      )}
+
+      {assetsItem && (
+        <AssetUnitsModal item={assetsItem} onClose={() => setAssetsItem(null)} />
+      )}
+
       {editingItem && (
         <EditItemModal
           item={editingItem}
@@ -427,7 +636,6 @@ const InventoryPage: React.FC = () => {
 
       {showBrowseModal && (
         <BrowseItemsModal
-          items={items}
           onClose={() => setShowBrowseModal(false)}
           onSelectItem={(item) => {
             setEditingItem(item);
@@ -1,10 +1,21 @@
 import React, { useState, useEffect } from "react";
 import { useAuth } from "../contexts/AuthContext";
-import { loanService, Loan } from "../services/loanService";
+import { usePermission } from "../hooks/usePermission";
+import { useLiveRefresh } from "../hooks/useLiveRefresh";
+import {
+  loanService,
+  Loan,
+  LoanExtension,
+  LoanReservation,
+  LoanStatus,
+} from "../services/loanService";
 import MainLayout from "../components/layout/MainLayout";
 import { Card, CardHeader, CardContent } from "../components/ui/Card";
 import Button from "../components/ui/Button";
 import Alert from "../components/ui/Alert";
+import ConditionReportModal from "../components/loans/ConditionReportModal";
+import LoanConditionReports from "../components/loans/LoanConditionReports";
+import ExtendLoanModal from "../components/loans/ExtendLoanModal";
 import { 
   Package, 
   Calendar, 
@@ -12,35 +23,60 @@ import {
   CheckCircle, 
   AlertTriangle,
   RefreshCw,
-  User
+  User,
+  CalendarClock,
+  XCircle,
+  Hourglass
 } from "lucide-react";
 
+// The loan list filters and the statuses each shows
+const LOAN_FILTERS: Record<string, { label: string; statuses: LoanStatus[] }> = {
+  all: { label: 'All', statuses: [] },
+  requested: { label: 'Requested', statuses: ['requested'] },
+  approved: { label: 'Approved', statuses: ['approved'] },
+  checked_out: { label: 'Checked Out', statuses: ['checked_out', 'overdue'] },
+  overdue: { label: 'Overdue', statuses: ['overdue'] },
+  closed: { label: 'Checked In', statuses: ['returned', 'damaged', 'lost'] },
+};
+
 const LoansPage: React.FC = () => {
-  const { user, isAdmin } = useAuth();
+  const { user } = useAuth();
+  const can = usePermission();
+  const canManageLoans = can("loans:manage");
   const [loans, setLoans] = useState<Loan[]>([]);
+  const [reservations, setReservations] = useState<LoanReservation[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [filter, setFilter] = useState<'all' | 'active' | 'overdue' | 'returned'>('all');
+  const [filter, setFilter] = useState<keyof typeof LOAN_FILTERS>('all');
+  const [conditionReport, setConditionReport] = useState<{
+    loan: Loan;
+    stage: 'check_out' | 'check_in';
+  } | null>(null);
+  const [extendingLoan, setExtendingLoan] = useState<Loan | null>(null);
 
   useEffect(() => {
     fetchLoans();
-  }, [user, isAdmin]);
+  }, [user, canManageLoans]);
 
-  const fetchLoans = async () => {
+  // Pick up loans created or changed elsewhere as they happen
+  useLiveRefresh(["loan_updated"], () => fetchLoans(false), { enabled: !!user });
+
+  const fetchLoans = async (showLoading = true) => {
     if (!user) return;
 
     try {
-      setLoading(true);
+      if (showLoading) setLoading(true);
       setError(null);
 
       let fetchedLoans: Loan[];
-      if (isAdmin) {
+      if (canManageLoans) {
         fetchedLoans = await loanService.getAllLoans();
       } else {
         fetchedLoans = await loanService.getUserLoans(user.id);
       }
 
       setLoans(fetchedLoans);
+      setReservations(await loanService.getReservations({ statuses: ['reserved'] }));
     } catch (err: any) {
       console.error("Error fetching loans:", err);
       setError(err.message || "Failed to fetch loans");
@@ -49,23 +85,87 @@ const LoansPage: React.FC = () => {
     }
   };
 
-  const handleReturnItem = async (loanId: string) => {
+  const handleDecision = async (loan: Loan, action: 'approve' | 'reject' | 'cancel') => {
+    // Rejections say why; cancelling and approving need no reason
+    let notes: string | undefined;
+    if (action === 'reject') {
+      const reason = window.prompt(`Why is the loan of ${loan.itemName} rejected?`);
+      if (reason === null) return;
+      notes = reason.trim() || undefined;
+    } else if (action === 'cancel' && !window.confirm(`Cancel the loan of ${loan.itemName}?`)) {
+      return;
+    }
+
     try {
-      await loanService.returnItem({ loanId });
-      await fetchLoans(); // Refresh the list
-    } catch (err: any) {
-      console.error("Error returning item:", err);
-      setError(err.message || "Failed to return item");
+      if (action === 'approve') await loanService.approveLoan(loan.id, notes);
+      else if (action === 'reject') await loanService.rejectLoan(loan.id, notes);
+      else await loanService.cancelLoan(loan.id, notes);
+      await fetchLoans(false);
+    } catch (err) {
+      console.error(`Error updating loan (${action}):`, err);
+      setError(err instanceof Error ? err.message : "Failed to update loan");
+    }
+  };
+
+  const handleExtensionDecision = async (
+    loan: Loan,
+    extension: LoanExtension,
+    action: 'approve' | 'reject'
+  ) => {
+    let notes: string | undefined;
+    if (action === 'reject') {
+      const reason = window.prompt(`Why is the extension of ${loan.itemName} rejected?`);
+      if (reason === null) return;
+      notes = reason.trim() || undefined;
+    }
+
+    try {
+      if (action === 'approve') await loanService.approveExtension(loan.id, extension.id, notes);
+      else await loanService.rejectExtension(loan.id, extension.id, notes);
+      await fetchLoans(false);
+    } catch (err) {
+      console.error(`Error updating loan extension (${action}):`, err);
+      setError(err instanceof Error ? err.message : "Failed to update extension");
     }
   };
 
+  const getExtensionStatusColor = (status: LoanExtension['status']) =>
+    status === 'approved' ? 'text-green-700' : status === 'rejected' ? 'text-red-700' : 'text-amber-700';
+
+  const handleCancelReservation = async (reservationId: string) => {
+    try {
+      await loanService.cancelReservation(reservationId);
+      await fetchLoans(false);
+    } catch (err) {
+      console.error("Error cancelling reservation:", err);
+      setError(err instanceof Error ? err.message : "Failed to cancel reservation");
+    }
+  };
+
+  const handlePickUpReservation = async (reservationId: string) => {
+    try {
+      await loanService.pickUpReservation(reservationId);
+      await fetchLoans(false);
+    } catch (err) {
+      console.error("Error picking up reservation:", err);
+      setError(err instanceof Error ? err.message : "Failed to pick up reservation");
+    }
+  };
+
+  const today = loanService.toDateString(new Date());
+
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'active':
+      case 'requested':
+        return 'text-amber-600 bg-amber-100';
+      case 'approved':
+      case 'checked_out':
         return 'text-blue-600 bg-blue-100';
       case 'returned':
         return 'text-green-600 bg-green-100';
       case 'overdue':
+      case 'damaged':
+      case 'lost':
         return 'text-red-600 bg-red-100';
       default:
         return 'text-gray-600 bg-gray-100';
@@ -74,12 +174,20 @@ const LoansPage: React.FC = () => {
 
   const getStatusIcon = (status: string) => {
     switch (status) {
-      case 'active':
+      case 'requested':
+        return <Hourglass className="h-4 w-4" />;
+      case 'approved':
+      case 'checked_out':
         return <Clock className="h-4 w-4" />;
       case 'returned':
         return <CheckCircle className="h-4 w-4" />;
       case 'overdue':
+      case 'damaged':
+      case 'lost':
         return <AlertTriangle className="h-4 w-4" />;
+      case 'rejected':
+      case 'cancelled':
+        return <XCircle className="h-4 w-4" />;
       default:
         return <Package className="h-4 w-4" />;
     }
@@ -87,12 +195,12 @@ const LoansPage: React.FC = () => {
 
   const filteredLoans = loans.filter(loan => {
     if (filter === 'all') return true;
-    return loan.status === filter;
+    return LOAN_FILTERS[filter].statuses.includes(loan.status);
   });
 
-  const activeLoans = loans.filter(loan => loan.status === 'active').length;
+  const pendingLoans = loans.filter(loan => loan.status === 'requested' || loan.status === 'approved').length;
+  const checkedOutLoans = loans.filter(loan => loan.status === 'checked_out').length;
   const overdueLoans = loans.filter(loan => loan.status === 'overdue').length;
-  const returnedLoans = loans.filter(loan => loan.status === 'returned').length;
 
   if (loading) {
     return (
@@ -108,10 +216,10 @@ const LoansPage: React.FC = () => {
     <MainLayout>
       <div className="mb-8">
         <h1 className="text-3xl font-bold text-gray-900 mb-2">
-          {isAdmin ? "All Loans" : "My Borrowed Items"}
+          {canManageLoans ? "All Loans" : "My Borrowed Items"}
         </h1>
         <p className="text-lg text-gray-600">
-          {isAdmin 
+          {canManageLoans 
             ? "Manage all item loans in the system" 
             : "Track your borrowed electronic items"
           }
@@ -147,8 +255,8 @@ const LoansPage: React.FC = () => {
                 <Clock className="h-6 w-6 text-blue-600" />
               </div>
               <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Active</p>
-                <p className="text-2xl font-bold text-blue-600">{activeLoans}</p>
+                <p className="text-sm font-medium text-gray-600">Checked Out</p>
+                <p className="text-2xl font-bold text-blue-600">{checkedOutLoans}</p>
               </div>
             </div>
           </CardContent>
@@ -171,28 +279,76 @@ const LoansPage: React.FC = () => {
         <Card>
           <CardContent className="p-6">
             <div className="flex items-center">
-              <div className="p-2 bg-green-100 rounded-lg">
-                <CheckCircle className="h-6 w-6 text-green-600" />
+              <div className="p-2 bg-amber-100 rounded-lg">
+                <Hourglass className="h-6 w-6 text-amber-600" />
               </div>
               <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Returned</p>
-                <p className="text-2xl font-bold text-green-600">{returnedLoans}</p>
+                <p className="text-sm font-medium text-gray-600">Awaiting Check-out</p>
+                <p className="text-2xl font-bold text-amber-600">{pendingLoans}</p>
               </div>
             </div>
           </CardContent>
         </Card>
       </div>
 
+      {/* Upcoming Reservations */}
+      {reservations.length > 0 && (
+        <Card className="mb-8">
+          <CardHeader>
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+              <CalendarClock className="h-5 w-5 mr-2 text-blue-600" />
+              Upcoming Reservations
+            </h2>
+          </CardHeader>
+          <CardContent className="p-0">
+            <ul className="divide-y divide-gray-200">
+              {reservations.map((reservation) => (
+                <li key={reservation.id} className="flex items-center justify-between px-6 py-4">
+                  <div className="text-sm">
+                    <p className="font-medium text-gray-900">
+                      {reservation.itemName} × {reservation.quantity}
+                    </p>
+                    <p className="text-gray-600">
+                      {loanService.formatDate(`${reservation.startDate}T00:00:00`)} –{" "}
+                      {loanService.formatDate(`${reservation.endDate}T00:00:00`)}
+                      {canManageLoans && reservation.userName && ` • ${reservation.userName}`}
+                    </p>
+                  </div>
+                  <div className="flex space-x-2 ml-4">
+                    {reservation.startDate <= today && (
+                      <Button
+                        variant="primary"
+                        size="sm"
+                        onClick={() => handlePickUpReservation(reservation.id)}
+                      >
+                        Pick Up
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleCancelReservation(reservation.id)}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Filter Buttons */}
       <div className="flex flex-wrap gap-2 mb-6">
-        {(['all', 'active', 'overdue', 'returned'] as const).map((filterOption) => (
+        {Object.entries(LOAN_FILTERS).map(([filterOption, { label }]) => (
           <Button
             key={filterOption}
             variant={filter === filterOption ? "primary" : "outline"}
             onClick={() => setFilter(filterOption)}
             size="sm"
           >
-            {filterOption.charAt(0).toUpperCase() + filterOption.slice(1)}
+            {label}
           </Button>
         ))}
       </div>
@@ -208,7 +364,7 @@ const LoansPage: React.FC = () => {
             <p className="text-gray-600">
               {filter === 'all' 
                 ? "No items have been borrowed yet." 
-                : `No ${filter} loans found.`
+                : `No ${LOAN_FILTERS[filter].label.toLowerCase()} loans found.`
               }
             </p>
           </CardContent>
@@ -226,7 +382,7 @@ const LoansPage: React.FC = () => {
                       </h3>
                       <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(loan.status)}`}>
                         {getStatusIcon(loan.status)}
-                        <span className="ml-1">{loan.status.toUpperCase()}</span>
+                        <span className="ml-1">{loan.status.replace('_', ' ').toUpperCase()}</span>
                       </span>
                     </div>
 
@@ -239,7 +395,7 @@ const LoansPage: React.FC = () => {
                         <Calendar className="h-4 w-4 mr-2" />
                         Due: {loanService.formatDate(loan.dueDate)}
                       </div>
-                      {isAdmin && loan.userName && (
+                      {canManageLoans && loan.userName && (
                         <div className="flex items-center">
                           <User className="h-4 w-4 mr-2" />
                           Borrower: {loan.userName}
@@ -247,36 +403,161 @@ const LoansPage: React.FC = () => {
                       )}
                     </div>
 
+                    {loan.units.length > 0 && (
+                      <p className="mt-2 text-sm text-gray-600">
+                        Serial numbers:{" "}
+                        {loan.units.map((unit, index) => (
+                          <React.Fragment key={unit.id}>
+                            {index > 0 && ", "}
+                            <span className={unit.writtenOff ? "text-red-600 line-through" : ""}>
+                              {unit.serialNumber}
+                            </span>
+                          </React.Fragment>
+                        ))}
+                      </p>
+                    )}
+
                     {loan.notes && (
                       <p className="mt-2 text-sm text-gray-600 italic">
                         "{loan.notes}"
                       </p>
                     )}
 
+                    {loan.decisionNotes && (
+                      <p className="mt-2 text-sm text-gray-600">
+                        {loan.status === 'rejected' ? 'Rejection reason' : 'Decision notes'}: {loan.decisionNotes}
+                      </p>
+                    )}
+
                     <p className="mt-2 text-xs text-gray-500">
-                      Borrowed: {loanService.formatDate(loan.borrowedDate)}
+                      Requested: {loanService.formatDate(loan.borrowedDate)}
+                      {loan.approvedAt && (
+                        <span>
+                          {" "}• Approved: {loanService.formatDate(loan.approvedAt)}
+                          {loan.approvedByName && ` by ${loan.approvedByName}`}
+                        </span>
+                      )}
+                      {loan.checkedOutAt && (
+                        <span> • Checked out: {loanService.formatDate(loan.checkedOutAt)}</span>
+                      )}
                       {loan.returnedDate && (
-                        <span> • Returned: {loanService.formatDate(loan.returnedDate)}</span>
+                        <span> • Checked in: {loanService.formatDate(loan.returnedDate)}</span>
                       )}
                     </p>
+
+                    <LoanConditionReports loanId={loan.id} reports={loan.conditionReports} />
+
+                    {loan.extensions.length > 0 && (
+                      <ul className="mt-3 space-y-2">
+                        {loan.extensions.map((extension) => (
+                          <li key={extension.id} className="rounded-md bg-blue-50 p-3 text-sm">
+                            <div className="flex items-center justify-between">
+                              <p className="text-gray-700">
+                                Extension {loanService.formatDate(`${extension.previousDueDate}T00:00:00`)} →{" "}
+                                {loanService.formatDate(`${extension.requestedDueDate}T00:00:00`)}:{" "}
+                                <span className={`font-medium capitalize ${getExtensionStatusColor(extension.status)}`}>
+                                  {extension.status}
+                                </span>
+                                {extension.decidedByName && (
+                                  <span className="text-xs text-gray-500"> by {extension.decidedByName}</span>
+                                )}
+                              </p>
+                              {canManageLoans && extension.status === 'pending' && (
+                                <div className="flex space-x-2 ml-2">
+                                  <Button
+                                    variant="primary"
+                                    size="sm"
+                                    onClick={() => handleExtensionDecision(loan, extension, 'approve')}
+                                  >
+                                    Approve
+                                  </Button>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleExtensionDecision(loan, extension, 'reject')}
+                                  >
+                                    Reject
+                                  </Button>
+                                </div>
+                              )}
+                            </div>
+                            {extension.reason && (
+                              <p className="mt-1 text-gray-600 italic">"{extension.reason}"</p>
+                            )}
+                            {extension.decisionNotes && (
+                              <p className="mt-1 text-gray-600">Notes: {extension.decisionNotes}</p>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                   </div>
 
-                  {loan.status === 'active' && (
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handleReturnItem(loan.id)}
-                      className="ml-4"
-                    >
-                      Return Item
-                    </Button>
-                  )}
+                  <div className="ml-4 flex flex-col space-y-2">
+                    {canManageLoans && loan.status === 'requested' && (
+                      <>
+                        <Button variant="primary" size="sm" onClick={() => handleDecision(loan, 'approve')}>
+                          Approve
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => handleDecision(loan, 'reject')}>
+                          Reject
+                        </Button>
+                      </>
+                    )}
+                    {canManageLoans && loan.status === 'approved' && (
+                      <Button
+                        variant="primary"
+                        size="sm"
+                        onClick={() => setConditionReport({ loan, stage: 'check_out' })}
+                      >
+                        Check Out
+                      </Button>
+                    )}
+                    {canManageLoans && (loan.status === 'checked_out' || loan.status === 'overdue') && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setConditionReport({ loan, stage: 'check_in' })}
+                      >
+                        Check In
+                      </Button>
+                    )}
+                    {loan.userId === user?.id &&
+                      (loan.status === 'checked_out' || loan.status === 'overdue') &&
+                      !loan.extensions.some((extension) => extension.status === 'pending') && (
+                        <Button variant="outline" size="sm" onClick={() => setExtendingLoan(loan)}>
+                          Request Extension
+                        </Button>
+                      )}
+                    {loan.userId === user?.id && (loan.status === 'requested' || loan.status === 'approved') && (
+                      <Button variant="outline" size="sm" onClick={() => handleDecision(loan, 'cancel')}>
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
                 </div>
               </CardContent>
             </Card>
           ))}
         </div>
       )}
+
+      {conditionReport && (
+        <ConditionReportModal
+          loan={conditionReport.loan}
+          stage={conditionReport.stage}
+          onClose={() => setConditionReport(null)}
+          onSuccess={() => fetchLoans(false)}
+        />
+      )}
+
+      {extendingLoan && (
+        <ExtendLoanModal
+          loan={extendingLoan}
+          onClose={() => setExtendingLoan(null)}
+          onSuccess={() => fetchLoans(false)}
+        />
+      )}
     </MainLayout>
   );
 };
@@ -1,6 +1,10 @@
-import React, { useState } from 'react';
-import { useAuth } from '../contexts/AuthContext';
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { usePermission } from '../hooks/usePermission';
 import { requestService } from '../services/requestService';
+import { ItemRequest, RequestListFilters } from '../types';
+import { DEFAULT_PAGE, DEFAULT_PAGE_SIZE } from '../config';
+import { getMonthDateRange } from '../utils/requestUtils';
 import { downloadMonthlyReportExcel } from '../utils/excelTemplateGenerator';
 import { downloadMonthlyReportPDF } from '../utils/pdfExportUtils';
 import MainLayout from '../components/layout/MainLayout';
@@ -8,7 +12,8 @@ import { Card } from '../components/ui/Card';
 import Button from '../components/ui/Button';
 import Select from '../components/ui/Select';
 import Alert from '../components/ui/Alert';
-import { Calendar, Download, FileText, FileSpreadsheet, BarChart3, Clock, CheckCircle, XCircle, AlertCircle, TrendingUp, Users, Package } from 'lucide-react';
+import RequestList from '../components/requests/RequestList';
+import { Calendar, Download, FileText, FileSpreadsheet, BarChart3, Clock, CheckCircle, AlertCircle, TrendingUp, Users, Package, Coins } from 'lucide-react';
 
 interface ReportSummary {
   totalRequests: number;
@@ -25,12 +30,48 @@ interface ReportSummary {
 }
 
 const MonthlyReportPage: React.FC = () => {
-  const { isAdmin } = useAuth();
+  const can = usePermission();
   const [selectedYear, setSelectedYear] = useState<string>(new Date().getFullYear().toString());
   const [selectedMonth, setSelectedMonth] = useState<string>((new Date().getMonth() + 1).toString());
   const [loading, setLoading] = useState<boolean>(false);
   const [summary, setSummary] = useState<ReportSummary | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Month of the current preview and the page of its requests being shown
+  const [reportPeriod, setReportPeriod] = useState<{ year: number; month: number } | null>(null);
+  const [listFilters, setListFilters] = useState<RequestListFilters>({});
+  const [listPage, setListPage] = useState(DEFAULT_PAGE);
+  const [listRequests, setListRequests] = useState<ItemRequest[]>([]);
+  const [listTotal, setListTotal] = useState(0);
+  const [listTotalPages, setListTotalPages] = useState(0);
+  const [listLoading, setListLoading] = useState(false);
+
+  useEffect(() => {
+    if (!reportPeriod) return;
+
+    const fetchPage = async () => {
+      setListLoading(true);
+      try {
+        const result = await requestService.queryRequests({
+          ...listFilters,
+          ...getMonthDateRange(reportPeriod.year, reportPeriod.month),
+          page: listPage,
+          pageSize: DEFAULT_PAGE_SIZE
+        });
+        setListRequests(result.requests);
+        setListTotal(result.total);
+        setListTotalPages(result.totalPages);
+      } catch (err) {
+        console.error('Error fetching report requests:', err);
+        setError('Failed to load the requests for this month.');
+      } finally {
+        setListLoading(false);
+      }
+    };
+
+    // Wait for typing in the search box to settle first
+    const timer = setTimeout(fetchPage, 300);
+    return () => clearTimeout(timer);
+  }, [reportPeriod, listFilters, listPage]);
 
   // Generate year options (current year and previous 2 years)
   const currentYear = new Date().getFullYear();
@@ -55,8 +96,8 @@ const MonthlyReportPage: React.FC = () => {
     { value: '12', label: 'December' }
   ];
 
-  // Redirect if not admin
-  if (!isAdmin) {
+  // Redirect if not allowed to view reports
+  if (!can("reports:view")) {
     return (
       <MainLayout>
         <div className="flex items-center justify-center h-64">
@@ -78,6 +119,8 @@ const MonthlyReportPage: React.FC = () => {
       
       const reportSummary = await requestService.getMonthlyReportSummary(year, month);
       setSummary(reportSummary);
+      setReportPeriod({ year, month });
+      setListPage(DEFAULT_PAGE);
     } catch (err) {
       console.error('Error generating report preview:', err);
       setError('Failed to generate report preview. Please try again.');
@@ -147,6 +190,13 @@ const MonthlyReportPage: React.FC = () => {
               Generate and export monthly item request reports in Excel or PDF format.
             </p>
           </div>
+          <Link
+            to="/reports/valuation"
+            className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+          >
+            <Coins className="mr-1 h-4 w-4" />
+            Inventory valuation
+          </Link>
         </div>
 
         {/* Report Configuration */}
@@ -357,6 +407,29 @@ const MonthlyReportPage: React.FC = () => {
             </div>
           </Card>
         )}
+
+        {/* Requests in the report period */}
+        {summary && reportPeriod && (
+          <Card>
+            <div className="p-6">
+              <h2 className="text-lg font-semibold mb-4">
+                Requests - {getSelectedMonthName()} {selectedYear}
+              </h2>
+              <RequestList
+                requests={listRequests}
+                isLoading={listLoading}
+                filters={listFilters}
+                onFiltersChange={(filters) => {
+                  setListFilters(filters);
+                  setListPage(DEFAULT_PAGE);
+                }}
+                total={listTotal}
+                pagination={{ page: listPage, pageSize: DEFAULT_PAGE_SIZE, totalPages: listTotalPages }}
+                onPageChange={setListPage}
+              />
+            </div>
+          </Card>
+        )}
       </div>
     </MainLayout>
   );
@@ -0,0 +1,480 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import MainLayout from "../components/layout/MainLayout";
+import Button from "../components/ui/Button";
+import Select from "../components/ui/Select";
+import Textarea from "../components/ui/Textarea";
+import Alert from "../components/ui/Alert";
+import Badge from "../components/ui/Badge";
+import {
+  ArrowLeft,
+  Edit,
+  PackageCheck,
+  Send,
+  ShoppingCart,
+  Trash2,
+  XCircle,
+} from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+import { usePermission } from "../hooks/usePermission";
+import { PurchaseOrder, Supplier, Warehouse } from "../types";
+import PurchaseOrderFormModal from "../components/purchasing/PurchaseOrderFormModal";
+import {
+  purchaseOrderService,
+  PurchaseOrderInput,
+} from "../services/purchaseOrderService";
+import { supplierService } from "../services/supplierService";
+import { warehouseService } from "../services/warehouseService";
+import { getDefaultLocation, getLocationOptions } from "../utils/locationUtils";
+import {
+  getOrderTotal,
+  purchaseOrderStatusBadges,
+} from "../utils/purchaseOrderUtils";
+
+const PurchaseOrderDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { isAuthenticated } = useAuth();
+  const can = usePermission();
+  const canPurchase = can("purchasing:manage");
+  const canReceive = can("stock:adjust");
+  const [order, setOrder] = useState<PurchaseOrder | null>(null);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  // Quantities typed into the receiving form, by line id
+  const [receiving, setReceiving] = useState<Record<string, string>>({});
+  const [locationId, setLocationId] = useState("");
+  const [receiptNotes, setReceiptNotes] = useState("");
+  const [showEditModal, setShowEditModal] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isReceivable =
+    order?.status === "sent" || order?.status === "partially_received";
+
+  useEffect(() => {
+    if (!isReceivable || !canReceive || warehouses.length > 0) return;
+
+    warehouseService
+      .getWarehouses()
+      .then((loaded) => {
+        setWarehouses(loaded);
+        setLocationId(getDefaultLocation(loaded)?.id ?? "");
+      })
+      .catch((err) => console.error("Error fetching warehouses:", err));
+  }, [isReceivable, canReceive, warehouses.length]);
+
+  const applyOrder = useCallback((updated: PurchaseOrder) => {
+    setOrder(updated);
+    setReceiving({});
+  }, []);
+
+  const fetchOrder = useCallback(async () => {
+    if (!id) return;
+    setLoading(true);
+    setError(null);
+    try {
+      applyOrder(await purchaseOrderService.getPurchaseOrder(id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load purchase order.");
+      console.error("Error fetching purchase order:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [id, applyOrder]);
+
+  useEffect(() => {
+    if (isAuthenticated && canPurchase && id) {
+      fetchOrder();
+    } else {
+      setLoading(false);
+    }
+  }, [isAuthenticated, canPurchase, id, fetchOrder]);
+
+  // Run an action that returns the updated order
+  const runAction = async (action: () => Promise<PurchaseOrder>, failure: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      applyOrder(await action());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+      console.error(`${failure}:`, err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openEdit = async () => {
+    try {
+      setSuppliers(await supplierService.getSuppliers());
+      setShowEditModal(true);
+    } catch (err) {
+      setError("Failed to load suppliers. Please try again.");
+      console.error("Error fetching suppliers:", err);
+    }
+  };
+
+  const handleSaveOrder = async (input: PurchaseOrderInput) => {
+    if (!order) return;
+    applyOrder(await purchaseOrderService.updatePurchaseOrder(order.id, input));
+  };
+
+  const handleDelete = async () => {
+    if (!order) return;
+    if (!window.confirm(`Delete the draft ${order.po_number}?`)) return;
+
+    try {
+      await purchaseOrderService.deletePurchaseOrder(order.id);
+      navigate("/purchase-orders");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete purchase order.");
+      console.error("Error deleting purchase order:", err);
+    }
+  };
+
+  const handleReceive = () => {
+    if (!order) return;
+
+    const received = Object.entries(receiving)
+      .filter(([, quantity]) => quantity !== "" && Number(quantity) !== 0)
+      .map(([lineId, quantity]) => ({ lineId, quantity: Number(quantity) }));
+    if (received.length === 0) {
+      setError("Enter the quantity received for at least one item.");
+      return;
+    }
+    const invalid = received.some(({ lineId, quantity }) => {
+      const line = order.lines?.find((l) => l.id === lineId);
+      return (
+        !line ||
+        !Number.isInteger(quantity) ||
+        quantity < 0 ||
+        quantity > line.quantity_outstanding
+      );
+    });
+    if (invalid) {
+      setError("Received quantities must be whole numbers no larger than what is outstanding.");
+      return;
+    }
+
+    runAction(async () => {
+      const updated = await purchaseOrderService.receiveGoods(
+        order.id,
+        received,
+        locationId,
+        receiptNotes
+      );
+      setReceiptNotes("");
+      return updated;
+    }, "Failed to receive goods");
+  };
+
+  const receiveEverythingOutstanding = () => {
+    setReceiving(
+      Object.fromEntries(
+        (order?.lines ?? [])
+          .filter((line) => line.quantity_outstanding > 0)
+          .map((line) => [line.id, line.quantity_outstanding.toString()])
+      )
+    );
+  };
+
+  if (!isAuthenticated || !canPurchase) {
+    return (
+      <MainLayout>
+        <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <Alert variant="error" title="Access Denied">
+            You do not have permission to manage purchase orders.
+          </Alert>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  if (loading || !order) {
+    return (
+      <MainLayout>
+        {error ? (
+          <Alert variant="error" title="Error">
+            {error}
+          </Alert>
+        ) : (
+          <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
+            <ShoppingCart className="h-12 w-12 text-gray-400 mx-auto animate-pulse" />
+            <h3 className="mt-4 text-lg font-medium text-gray-900">
+              Loading purchase order...
+            </h3>
+          </div>
+        )}
+      </MainLayout>
+    );
+  }
+
+  const lines = order.lines ?? [];
+  const receipts = order.receipts ?? [];
+  const badge = purchaseOrderStatusBadges[order.status];
+  const canReceiveHere = isReceivable && canReceive;
+
+  return (
+    <MainLayout>
+      <Link
+        to="/purchase-orders"
+        className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4"
+      >
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Purchase Orders
+      </Link>
+
+      <div className="mb-6 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center space-x-2">
+            <ShoppingCart className="h-6 w-6 text-blue-600" />
+            <h1 className="text-2xl font-bold text-gray-900">{order.po_number}</h1>
+            <Badge variant={badge.variant}>{badge.label}</Badge>
+          </div>
+          <p className="mt-1 text-gray-600">
+            {order.supplier_name} · Created{" "}
+            {new Date(order.created_at).toLocaleDateString()}
+            {order.created_by_name && ` by ${order.created_by_name}`}
+            {order.expected_date &&
+              ` · Expected ${new Date(order.expected_date).toLocaleDateString()}`}
+          </p>
+          {order.notes && <p className="mt-1 text-sm text-gray-500">{order.notes}</p>}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {order.status === "draft" && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={openEdit}
+                disabled={busy}
+                icon={<Edit className="h-4 w-4" />}
+              >
+                Edit
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleDelete}
+                disabled={busy}
+                icon={<Trash2 className="h-4 w-4" />}
+                className="text-red-600 hover:text-red-800"
+              >
+                Delete
+              </Button>
+              <Button
+                variant="primary"
+                size="sm"
+                onClick={() =>
+                  runAction(
+                    () => purchaseOrderService.sendPurchaseOrder(order.id),
+                    "Failed to send purchase order"
+                  )
+                }
+                disabled={busy}
+                icon={<Send className="h-4 w-4" />}
+              >
+                Mark as Sent
+              </Button>
+            </>
+          )}
+          {order.status === "sent" && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                if (!window.confirm(`Cancel ${order.po_number}?`)) return;
+                runAction(
+                  () => purchaseOrderService.cancelPurchaseOrder(order.id),
+                  "Failed to cancel purchase order"
+                );
+              }}
+              disabled={busy}
+              icon={<XCircle className="h-4 w-4" />}
+              className="text-red-600 hover:text-red-800"
+            >
+              Cancel Order
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <Alert
+          variant="error"
+          title="Error"
+          onDismiss={() => setError(null)}
+          className="mb-6"
+        >
+          {error}
+        </Alert>
+      )}
+
+      <div className="bg-white shadow overflow-x-auto sm:rounded-md mb-6">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                Item
+              </th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                In stock
+              </th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                Ordered
+              </th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                Received
+              </th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                Unit price
+              </th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                Total
+              </th>
+              {canReceiveHere && (
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Receive now
+                </th>
+              )}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {lines.map((line) => (
+              <tr key={line.id}>
+                <td className="px-4 py-2 text-sm text-gray-900">{line.item_name}</td>
+                <td className="px-4 py-2 text-sm text-right text-gray-600">
+                  {line.quantity_on_hand}
+                </td>
+                <td className="px-4 py-2 text-sm text-right text-gray-900">
+                  {line.quantity_ordered} {line.unit || "pcs"}
+                </td>
+                <td className="px-4 py-2 text-sm text-right text-gray-600">
+                  {line.quantity_received}
+                </td>
+                <td className="px-4 py-2 text-sm text-right text-gray-600">
+                  {line.unit_price.toLocaleString()}
+                </td>
+                <td className="px-4 py-2 text-sm text-right text-gray-900">
+                  {(line.quantity_ordered * line.unit_price).toLocaleString()}
+                </td>
+                {canReceiveHere && (
+                  <td className="px-4 py-2 text-sm">
+                    {line.quantity_outstanding > 0 ? (
+                      <input
+                        type="number"
+                        min="0"
+                        max={line.quantity_outstanding}
+                        placeholder={`of ${line.quantity_outstanding}`}
+                        value={receiving[line.id] ?? ""}
+                        onChange={(e) =>
+                          setReceiving({ ...receiving, [line.id]: e.target.value })
+                        }
+                        disabled={busy}
+                        className="w-24 rounded-md border border-gray-300 px-2 py-1 text-sm"
+                      />
+                    ) : (
+                      <span className="text-green-600">Complete</span>
+                    )}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="bg-gray-50">
+            <tr>
+              <td colSpan={5} className="px-4 py-2 text-sm font-medium text-right text-gray-700">
+                Order total
+              </td>
+              <td className="px-4 py-2 text-sm font-medium text-right text-gray-900">
+                {getOrderTotal(lines).toLocaleString()}
+              </td>
+              {canReceiveHere && <td />}
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      {canReceiveHere && (
+        <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 mb-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+            <PackageCheck className="h-5 w-5 text-blue-600 mr-2" />
+            Receive goods
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Select
+              label="Put away at"
+              options={getLocationOptions(warehouses)}
+              value={locationId}
+              onChange={(e) => setLocationId(e.target.value)}
+              disabled={busy}
+            />
+            <Textarea
+              label="Delivery notes (optional)"
+              placeholder="e.g. delivery note number"
+              value={receiptNotes}
+              onChange={(e) => setReceiptNotes(e.target.value)}
+              disabled={busy}
+            />
+          </div>
+          <div className="flex justify-end space-x-3">
+            <Button variant="outline" onClick={receiveEverythingOutstanding} disabled={busy}>
+              Fill Outstanding
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handleReceive}
+              isLoading={busy}
+              icon={<PackageCheck className="h-4 w-4" />}
+            >
+              Receive
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        <h2 className="px-4 py-3 text-lg font-medium text-gray-900 border-b">
+          Deliveries
+        </h2>
+        {receipts.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-gray-500">Nothing received yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {receipts.map((receipt) => (
+              <li key={receipt.id} className="px-4 py-3 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-900">
+                    {receipt.quantity} × {receipt.item_name}
+                    {receipt.location_name && (
+                      <span className="text-gray-500"> → {receipt.location_name}</span>
+                    )}
+                  </span>
+                  <span className="text-gray-500">
+                    {new Date(receipt.created_at).toLocaleString()}
+                  </span>
+                </div>
+                <div className="text-gray-500">
+                  {receipt.received_by_name && `Received by ${receipt.received_by_name}`}
+                  {receipt.notes && ` · ${receipt.notes}`}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <PurchaseOrderFormModal
+        isOpen={showEditModal}
+        order={order}
+        suppliers={suppliers}
+        onClose={() => setShowEditModal(false)}
+        onSave={handleSaveOrder}
+      />
+    </MainLayout>
+  );
+};
+
+export default PurchaseOrderDetailPage;
@@ -0,0 +1,211 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import MainLayout from "../components/layout/MainLayout";
+import Button from "../components/ui/Button";
+import Select from "../components/ui/Select";
+import Alert from "../components/ui/Alert";
+import Badge from "../components/ui/Badge";
+import { ShoppingCart, Plus, Truck } from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+import { usePermission } from "../hooks/usePermission";
+import { PurchaseOrder, PurchaseOrderStatus, Supplier } from "../types";
+import PurchaseOrderFormModal from "../components/purchasing/PurchaseOrderFormModal";
+import {
+  purchaseOrderService,
+  PurchaseOrderInput,
+} from "../services/purchaseOrderService";
+import { supplierService } from "../services/supplierService";
+import {
+  OPEN_PURCHASE_ORDER_STATUSES,
+  purchaseOrderStatusBadges,
+  purchaseOrderStatusOptions,
+} from "../utils/purchaseOrderUtils";
+
+const PurchaseOrdersPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { isAuthenticated } = useAuth();
+  const can = usePermission();
+  const canPurchase = can("purchasing:manage");
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [statusFilter, setStatusFilter] = useState("open");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showOrderModal, setShowOrderModal] = useState(false);
+
+  const fetchOrders = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const statuses =
+        statusFilter === "open"
+          ? OPEN_PURCHASE_ORDER_STATUSES
+          : statusFilter === "all"
+          ? []
+          : [statusFilter as PurchaseOrderStatus];
+      setOrders(await purchaseOrderService.getPurchaseOrders(statuses));
+    } catch (err) {
+      setError("Failed to load purchase orders. Please try again.");
+      console.error("Error fetching purchase orders:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    if (isAuthenticated && canPurchase) {
+      fetchOrders();
+    } else {
+      setLoading(false);
+    }
+  }, [isAuthenticated, canPurchase, fetchOrders]);
+
+  const openNewOrder = async () => {
+    try {
+      setSuppliers(await supplierService.getSuppliers());
+      setShowOrderModal(true);
+    } catch (err) {
+      setError("Failed to load suppliers. Please try again.");
+      console.error("Error fetching suppliers:", err);
+    }
+  };
+
+  const handleCreateOrder = async (order: PurchaseOrderInput) => {
+    const created = await purchaseOrderService.createPurchaseOrder(order);
+    navigate(`/purchase-orders/${created.id}`);
+  };
+
+  if (!isAuthenticated || !canPurchase) {
+    return (
+      <MainLayout>
+        <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <Alert variant="error" title="Access Denied">
+            You do not have permission to manage purchase orders.
+          </Alert>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <div className="flex items-center">
+            <ShoppingCart className="h-6 w-6 text-blue-600 mr-2" />
+            <h1 className="text-2xl font-bold text-gray-900">Purchase Orders</h1>
+          </div>
+          <p className="mt-1 text-gray-600">
+            Order stock from suppliers and receive it when it arrives
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <Button
+            variant="outline"
+            onClick={() => navigate("/suppliers")}
+            icon={<Truck className="h-4 w-4" />}
+          >
+            Suppliers
+          </Button>
+          <Button
+            variant="primary"
+            onClick={openNewOrder}
+            icon={<Plus className="h-4 w-4" />}
+          >
+            New Order
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert
+          variant="error"
+          title="Error"
+          onDismiss={() => setError(null)}
+          className="mb-6"
+        >
+          {error}
+        </Alert>
+      )}
+
+      <div className="mb-4 max-w-xs">
+        <Select
+          label="Status"
+          options={purchaseOrderStatusOptions}
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value)}
+        />
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
+          <ShoppingCart className="h-12 w-12 text-gray-400 mx-auto animate-pulse" />
+          <h3 className="mt-4 text-lg font-medium text-gray-900">
+            Loading purchase orders...
+          </h3>
+        </div>
+      ) : orders.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
+          <ShoppingCart className="h-12 w-12 text-gray-400 mx-auto" />
+          <h3 className="mt-4 text-lg font-medium text-gray-900">
+            No purchase orders
+          </h3>
+          <p className="mt-2 text-gray-600">
+            Low-stock items can be ordered from the Inventory page.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white shadow overflow-hidden sm:rounded-md">
+          <ul className="divide-y divide-gray-200">
+            {orders.map((order) => {
+              const badge = purchaseOrderStatusBadges[order.status];
+              return (
+                <li key={order.id}>
+                  <Link
+                    to={`/purchase-orders/${order.id}`}
+                    className="block px-4 py-4 sm:px-6 hover:bg-gray-50"
+                  >
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <div className="flex items-center space-x-2">
+                          <span className="text-sm font-medium text-gray-900">
+                            {order.po_number}
+                          </span>
+                          <Badge variant={badge.variant}>{badge.label}</Badge>
+                        </div>
+                        <div className="mt-1 text-sm text-gray-500">
+                          {order.supplier_name} · {order.line_count ?? 0} item(s)
+                          · Created {new Date(order.created_at).toLocaleDateString()}
+                          {order.expected_date &&
+                            ` · Expected ${new Date(order.expected_date).toLocaleDateString()}`}
+                        </div>
+                      </div>
+                      <div className="ml-4 text-right text-sm">
+                        <div className="text-gray-900">
+                          {(order.total_value ?? 0).toLocaleString()}
+                        </div>
+                        <div className="text-gray-500">
+                          {order.quantity_received ?? 0} / {order.quantity_ordered ?? 0}{" "}
+                          received
+                        </div>
+                      </div>
+                    </div>
+                  </Link>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <PurchaseOrderFormModal
+        isOpen={showOrderModal}
+        suppliers={suppliers}
+        onClose={() => setShowOrderModal(false)}
+        onSave={handleCreateOrder}
+      />
+    </MainLayout>
+  );
+};
+
+export default PurchaseOrdersPage;
@@ -1,8 +1,16 @@
 import React, { useState, useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { ItemRequest, RequestStatus, User as UserType } from "../types";
+import {
+  ApprovalStepStatus,
+  ItemRequest,
+  RequestLineStatus,
+  RequestStatus,
+  User as UserType,
+} from "../types";
 import { requestService } from "../services/requestService";
 import { userService } from "../services/userService";
+import { warehouseService } from "../services/warehouseService";
+import { usePermission } from "../hooks/usePermission";
 import { useAuth } from "../contexts/AuthContext";
 import MainLayout from "../components/layout/MainLayout";
 import {
@@ -14,6 +22,10 @@ import {
 import Badge from "../components/ui/Badge";
 import Button from "../components/ui/Button";
 import Alert from "../components/ui/Alert";
+import Textarea from "../components/ui/Textarea";
+import Select from "../components/ui/Select";
+import RequestComments from "../components/requests/RequestComments";
+import RequestAttachments from "../components/requests/RequestAttachments";
 import {
   Clock,
   Calendar,
@@ -24,17 +36,55 @@ import {
   XCircle,
   Loader,
   Mail,
+  PackageCheck,
+  ShieldCheck,
+  Paperclip,
 } from "lucide-react";
+import {
+  canDecideApprovalStep,
+  describeApprover,
+  formatRequestStatus,
+  getBackOrderQuantity,
+  getCurrentApprovalSteps,
+  isAwaitingApproval,
+} from "../utils/requestUtils";
+import { getDefaultLocation, getLocationOptions } from "../utils/locationUtils";
+import { formatWithBaseUnit } from "../utils/unitUtils";
 
 const RequestDetailPage: React.FC = () => {
   const { name } = useParams<{ name: string }>();
   const navigate = useNavigate();
-  const { /* isAuthenticated, */ isAdmin } = useAuth();
+  const { user } = useAuth();
+  const can = usePermission();
+  const canApprove = can("requests:approve");
   const [request, setRequest] = useState<ItemRequest | null>(null);
   const [requester, setRequester] = useState<UserType | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState(false);
+  // Approved quantities being edited, keyed by request line id
+  const [approvedQuantities, setApprovedQuantities] = useState<
+    Record<string, string>
+  >({});
+  // Comment recorded with the caller's approval step
+  const [approvalComment, setApprovalComment] = useState("");
+  // Location approved items are issued from
+  const [locationOptions, setLocationOptions] = useState<
+    { value: string; label: string }[]
+  >([]);
+  const [issueLocationId, setIssueLocationId] = useState("");
+
+  useEffect(() => {
+    if (!canApprove) return;
+
+    warehouseService
+      .getWarehouses()
+      .then((warehouses) => {
+        setLocationOptions(getLocationOptions(warehouses));
+        setIssueLocationId(getDefaultLocation(warehouses)?.id ?? "");
+      })
+      .catch((err) => console.error("Error fetching locations:", err));
+  }, [canApprove]);
 
   useEffect(() => {
     if (!name) {
@@ -144,29 +194,88 @@ const RequestDetailPage: React.FC = () => {
     try {
       const updatedRequest = await requestService.updateRequestStatus(
         request.id,
-        status
+        status,
+        approvalComment.trim() || undefined,
+        status === "completed" ? issueLocationId || undefined : undefined
       );
       if (updatedRequest) {
         setRequest(updatedRequest);
+        setApprovalComment("");
       } else {
         setError("Failed to update request status");
       }
     } catch (err) {
       console.error("Error updating request status:", err);
-      setError("Failed to update request status");
+      setError((err as Error).message || "Failed to update request status");
     } finally {
       setActionLoading(false);
     }
   };
 
+  const handleLineStatusChange = async (
+    lineId: string,
+    status: RequestLineStatus,
+    approvedQuantity?: number
+  ) => {
+    if (!request) return;
+
+    setActionLoading(true);
+    try {
+      const updatedRequest = await requestService.updateRequestLineStatus(
+        request.id,
+        lineId,
+        status,
+        approvedQuantity
+      );
+      setRequest(updatedRequest);
+      setApprovedQuantities((prev) => {
+        const next = { ...prev };
+        delete next[lineId];
+        return next;
+      });
+    } catch (err) {
+      console.error("Error updating request item status:", err);
+      setError((err as Error).message || "Failed to update request item status");
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const getLineStatusVariant = (status: RequestLineStatus) => {
+    switch (status) {
+      case "approved":
+        return "success";
+      case "rejected":
+        return "danger";
+      default:
+        return "warning";
+    }
+  };
+
+  const getApprovalStepVariant = (status: ApprovalStepStatus) => {
+    switch (status) {
+      case "approved":
+        return "success";
+      case "rejected":
+        return "danger";
+      case "skipped":
+        return "default";
+      default:
+        return "warning";
+    }
+  };
+
   const getStatusVariant = (status: RequestStatus) => {
     switch (status) {
       case "approved":
         return "success";
       case "pending":
+      case "in_review":
         return "warning";
       case "rejected":
         return "danger";
+      case "partially_fulfilled":
+        return "primary";
       case "completed":
         return "secondary";
       default:
@@ -241,6 +350,20 @@ const RequestDetailPage: React.FC = () => {
   }
   */
 
+  // The caller may decide the request when they can decide a step of the
+  // current approval stage; requests without an approval chain are decided by
+  // any approver. Lines are only decided at the last stage.
+  const approvals = request?.approvals ?? [];
+  const currentSteps = getCurrentApprovalSteps(approvals);
+  const canDecideRequest =
+    !!request &&
+    isAwaitingApproval(request.status) &&
+    (currentSteps.length > 0
+      ? currentSteps.some((step) => canDecideApprovalStep(step, user, can))
+      : canApprove);
+  const isLastApprovalStage =
+    approvals.filter((step) => step.status === "pending").length <= 1;
+
   return (
     <MainLayout>
       <div className="max-w-4xl mx-auto py-6 sm:px-6 lg:px-8">
@@ -289,8 +412,7 @@ const RequestDetailPage: React.FC = () => {
                   variant={getStatusVariant(request.status)}
                   className="mt-2 md:mt-0 text-base px-3 py-1"
                 >
-                  {request.status.charAt(0).toUpperCase() +
-                    request.status.slice(1)}
+                  {formatRequestStatus(request.status)}
                 </Badge>
               </div>
             </CardHeader>
@@ -308,18 +430,116 @@ const RequestDetailPage: React.FC = () => {
                       <div>
                         <p className="text-sm text-gray-500">Items Requested</p>
                         <div className="space-y-2">
-                          {request.items.map((item: any, index: number) => (
-                            <div key={index} className="flex justify-between items-center bg-gray-50 p-2 rounded">
-                              <div>
-                                <p className="font-medium">{item.name}</p>
-                                <p className="text-sm text-gray-600">{item.description}</p>
-                                <p className="text-xs text-gray-500">Category: {item.category}</p>
-                              </div>
-                              <div className="text-right">
-                                <p className="font-medium">Qty: {item.quantity}</p>
+                          {request.items.map((item) => {
+                            const canDecideLine =
+                              canDecideRequest &&
+                              isLastApprovalStage &&
+                              item.status === "pending";
+                            const canReleaseBackOrder =
+                              canApprove &&
+                              (request.status === "approved" ||
+                                request.status === "partially_fulfilled") &&
+                              item.status === "approved" &&
+                              (item.approved_quantity ?? item.quantity) < item.quantity;
+
+                            return (
+                              <div key={item.id} className="bg-gray-50 p-2 rounded">
+                                <div className="flex justify-between items-start">
+                                  <div>
+                                    <p className="font-medium">{item.name}</p>
+                                    <p className="text-sm text-gray-600">{item.description}</p>
+                                    <p className="text-xs text-gray-500">Category: {item.category}</p>
+                                  </div>
+                                  <Badge variant={getLineStatusVariant(item.status)}>
+                                    {formatRequestStatus(item.status)}
+                                  </Badge>
+                                </div>
+
+                                <div className="grid grid-cols-4 gap-2 mt-2 text-center text-sm">
+                                  <div>
+                                    <p className="text-xs text-gray-500">Requested</p>
+                                    <p className="font-medium">
+                                      {formatWithBaseUnit(
+                                        item.requested_quantity,
+                                        item.unit,
+                                        item.quantity,
+                                        item.base_unit
+                                      )}
+                                    </p>
+                                  </div>
+                                  <div>
+                                    <p className="text-xs text-gray-500">Approved</p>
+                                    <p className="font-medium">
+                                      {item.approved_quantity !== null
+                                        ? `${item.approved_quantity} ${item.base_unit}`
+                                        : "-"}
+                                    </p>
+                                  </div>
+                                  <div>
+                                    <p className="text-xs text-gray-500">Delivered</p>
+                                    <p className="font-medium">{item.delivered_quantity} {item.base_unit}</p>
+                                  </div>
+                                  <div>
+                                    <p className="text-xs text-gray-500">Back-order</p>
+                                    <p className="font-medium">
+                                      {item.status === "pending"
+                                        ? "-"
+                                        : `${getBackOrderQuantity(item)} ${item.base_unit}`}
+                                    </p>
+                                  </div>
+                                </div>
+
+                                {(canDecideLine || canReleaseBackOrder) && (
+                                  <div className="flex flex-wrap justify-end items-center gap-1 mt-2">
+                                    <input
+                                      type="number"
+                                      min={Math.max(item.delivered_quantity, 1)}
+                                      max={item.quantity}
+                                      value={approvedQuantities[item.id] ?? item.quantity.toString()}
+                                      onChange={(e) =>
+                                        setApprovedQuantities((prev) => ({
+                                          ...prev,
+                                          [item.id]: e.target.value,
+                                        }))
+                                      }
+                                      className="w-20 rounded-md border border-gray-300 py-1 px-2 text-sm"
+                                      aria-label={`Approved quantity for ${item.name}, in ${item.base_unit}`}
+                                      disabled={actionLoading}
+                                    />
+                                    <span className="text-sm text-gray-500">{item.base_unit}</span>
+                                    {canDecideLine && (
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="text-red-600 hover:text-red-800"
+                                        onClick={() => handleLineStatusChange(item.id, "rejected")}
+                                        disabled={actionLoading}
+                                        icon={<XCircle className="h-4 w-4" />}
+                                      >
+                                        Reject
+                                      </Button>
+                                    )}
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      className="text-green-600 hover:text-green-800"
+                                      onClick={() =>
+                                        handleLineStatusChange(
+                                          item.id,
+                                          "approved",
+                                          parseInt(approvedQuantities[item.id] ?? item.quantity.toString())
+                                        )
+                                      }
+                                      disabled={actionLoading}
+                                      icon={<CheckCircle className="h-4 w-4" />}
+                                    >
+                                      {canDecideLine ? "Approve" : "Update Approved"}
+                                    </Button>
+                                  </div>
+                                )}
                               </div>
-                            </div>
-                          ))}
+                            );
+                          })}
                         </div>
                       </div>
                     ) : (
@@ -418,12 +638,77 @@ const RequestDetailPage: React.FC = () => {
                         </div>
                       )}
                   </div>
+
+                  {approvals.length > 0 && (
+                    <>
+                      <h2 className="text-lg font-semibold text-gray-900 mt-6 mb-4">
+                        Approval Chain
+                      </h2>
+
+                      <ol className="space-y-3">
+                        {approvals.map((step) => (
+                          <li key={step.id} className="flex items-start">
+                            <ShieldCheck className="h-5 w-5 text-blue-600 mr-2 mt-0.5" />
+                            <div className="flex-1">
+                              <div className="flex justify-between items-start gap-2">
+                                <p className="font-medium">
+                                  {step.step_order}. {step.name}
+                                </p>
+                                <Badge variant={getApprovalStepVariant(step.status)}>
+                                  {formatRequestStatus(step.status)}
+                                </Badge>
+                              </div>
+                              <p className="text-sm text-gray-600">
+                                {step.decided_at
+                                  ? `${formatRequestStatus(step.status)} by ${
+                                      step.decided_by_name || "Unknown User"
+                                    } on ${formatDateWithTime(step.decided_at)}`
+                                  : describeApprover(step)}
+                              </p>
+                              {step.comment && (
+                                <p className="text-sm text-gray-500 italic">
+                                  "{step.comment}"
+                                </p>
+                              )}
+                            </div>
+                          </li>
+                        ))}
+                      </ol>
+                    </>
+                  )}
                 </div>
               </div>
+
+              <div className="mt-8 pt-6 border-t border-gray-200">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                  <Paperclip className="h-5 w-5 text-blue-600 mr-2" />
+                  Attachments
+                </h2>
+                <RequestAttachments
+                  attachments={request.attachments ?? []}
+                  requestId={request.id}
+                  onChange={(attachments) => setRequest({ ...request, attachments })}
+                />
+              </div>
+
+              <div className="mt-8 pt-6 border-t border-gray-200">
+                <RequestComments request={request} />
+              </div>
             </CardContent>
 
-            {isAdmin && request.status === "pending" && (
+            {canDecideRequest && (
               <CardFooter className="bg-gray-50 border-t border-gray-200 p-4">
+                {approvals.length > 0 && (
+                  <Textarea
+                    id="approval-comment"
+                    label="Comment (optional)"
+                    placeholder="Recorded with your approval step"
+                    value={approvalComment}
+                    onChange={(e) => setApprovalComment(e.target.value)}
+                    disabled={actionLoading}
+                    rows={2}
+                  />
+                )}
                 <div className="flex justify-end gap-3">
                   <Button
                     variant="danger"
@@ -431,7 +716,9 @@ const RequestDetailPage: React.FC = () => {
                     disabled={actionLoading}
                     icon={<XCircle className="h-4 w-4 mr-1" />}
                   >
-                    Reject
+                    {isLastApprovalStage && (request.items?.length ?? 0) > 1
+                      ? "Reject Remaining"
+                      : "Reject"}
                   </Button>
                   <Button
                     variant="success"
@@ -439,11 +726,44 @@ const RequestDetailPage: React.FC = () => {
                     disabled={actionLoading}
                     icon={<CheckCircle className="h-4 w-4 mr-1" />}
                   >
-                    Approve
+                    {!isLastApprovalStage
+                      ? "Approve Step"
+                      : (request.items?.length ?? 0) > 1
+                        ? "Approve Remaining"
+                        : "Approve"}
                   </Button>
                 </div>
               </CardFooter>
             )}
+
+            {canApprove &&
+              (request.status === "approved" ||
+                request.status === "partially_fulfilled") && (
+                <CardFooter className="bg-gray-50 border-t border-gray-200 p-4">
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-end gap-3">
+                    {locationOptions.length > 1 && (
+                      <div className="sm:w-64">
+                        <Select
+                          aria-label="Issue from location"
+                          options={locationOptions}
+                          value={issueLocationId}
+                          onChange={(e) => setIssueLocationId(e.target.value)}
+                          disabled={actionLoading}
+                          className="mb-0"
+                        />
+                      </div>
+                    )}
+                    <Button
+                      variant="primary"
+                      onClick={() => handleStatusChange("completed")}
+                      disabled={actionLoading}
+                      icon={<PackageCheck className="h-4 w-4 mr-1" />}
+                    >
+                      Issue Approved Items
+                    </Button>
+                  </div>
+                </CardFooter>
+              )}
           </Card>
         ) : (
           <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
@@ -1,15 +1,32 @@
 import React, { useState, useEffect } from "react";
-import { ItemRequest, RequestStatus } from "../types";
+import {
+  ItemRequest,
+  RequestLineStatus,
+  RequestListFilters,
+  RequestStatus,
+} from "../types";
 import { requestService } from "../services/requestService";
 import { useAuth } from "../contexts/AuthContext";
+import { usePermission } from "../hooks/usePermission";
+import { useLiveRefresh } from "../hooks/useLiveRefresh";
 import MainLayout from "../components/layout/MainLayout";
 import RequestList from "../components/requests/RequestList";
 import Alert from "../components/ui/Alert";
 import Button from "../components/ui/Button";
 import { LogIn, ClipboardList } from "lucide-react";
+import { DEFAULT_PAGE, DEFAULT_PAGE_SIZE } from "../config";
+import { downloadRequestsExcel } from "../utils/excelTemplateGenerator";
+
 const RequestsPage: React.FC = () => {
-  const { user, isAuthenticated, isAdmin } = useAuth();
+  const { user, isAuthenticated } = useAuth();
+  const can = usePermission();
+  const canViewAll = can("requests:view_all");
+  const canApprove = can("requests:approve");
   const [requests, setRequests] = useState<ItemRequest[]>([]);
+  const [filters, setFilters] = useState<RequestListFilters>({});
+  const [page, setPage] = useState(DEFAULT_PAGE);
+  const [total, setTotal] = useState(0);
+  const [totalPages, setTotalPages] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -17,36 +34,47 @@ const RequestsPage: React.FC = () => {
     console.log(
       "RequestsPage useEffect - isAuthenticated:",
       isAuthenticated,
-      "isAdmin:",
-      isAdmin,
+      "canViewAll:",
+      canViewAll,
       "user:",
       user
     );
 
-    // Fetch requests when the component mounts or when user/isAdmin changes
-    fetchRequests();
+    // Fetch requests when the filters, page or user change; wait for typing
+    // in the search box to settle first
+    const timer = setTimeout(fetchRequests, 300);
+    return () => clearTimeout(timer);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isAdmin, user]);
+  }, [canViewAll, user, filters, page]);
+
+  // Show requests created or changed elsewhere as they happen
+  useLiveRefresh(["request_updated"], () => fetchRequests(false), {
+    enabled: isAuthenticated,
+  });
 
-  const fetchRequests = async () => {
-    setLoading(true);
+  const fetchRequests = async (showLoading = true) => {
+    if (!user) {
+      setRequests([]);
+      setLoading(false);
+      return;
+    }
+
+    if (showLoading) setLoading(true);
     setError(null);
     try {
-      console.log("Fetching requests, isAdmin:", isAdmin, "user:", user);
-
-      let requestData;
-      if (isAdmin) {
-        // Admin sees all requests
-        requestData = await requestService.getAllRequests();
-      } else if (user) {
-        // Regular users see only their requests
-        requestData = await requestService.getUserRequests(user.id);
-      } else {
-        requestData = [];
-      }
+      console.log("Fetching requests, canViewAll:", canViewAll, "filters:", filters);
+
+      // The API limits users without requests:view_all to their own requests
+      const result = await requestService.queryRequests({
+        ...filters,
+        page,
+        pageSize: DEFAULT_PAGE_SIZE,
+      });
 
-      console.log("Received requests from requestService:", requestData);
-      setRequests(requestData || []);
+      console.log("Received requests from requestService:", result);
+      setRequests(result.requests);
+      setTotal(result.total);
+      setTotalPages(result.totalPages);
     } catch (err) {
       setError("Failed to load requests. Please try again.");
       console.error("Error fetching requests:", err);
@@ -55,6 +83,22 @@ const RequestsPage: React.FC = () => {
     }
   };
 
+  const handleFiltersChange = (nextFilters: RequestListFilters) => {
+    setFilters(nextFilters);
+    setPage(DEFAULT_PAGE);
+  };
+
+  const handleExport = async () => {
+    try {
+      const matchingRequests = await requestService.filterRequests(filters);
+      const currentDate = new Date().toISOString().split("T")[0];
+      downloadRequestsExcel(matchingRequests, `requests_export_${currentDate}.xlsx`);
+    } catch (err) {
+      setError("Failed to export requests. Please try again.");
+      console.error("Error exporting requests:", err);
+    }
+  };
+
   const handleStatusChange = async (id: string, status: RequestStatus) => {
     try {
       const updatedRequest = await requestService.updateRequestStatus(
@@ -70,15 +114,35 @@ const RequestsPage: React.FC = () => {
     }
   };
 
+  const handleLineStatusChange = async (
+    id: string,
+    lineId: string,
+    status: RequestLineStatus
+  ) => {
+    try {
+      const updatedRequest = await requestService.updateRequestLineStatus(
+        id,
+        lineId,
+        status
+      );
+      setRequests((prev) =>
+        prev.map((req) => (req.id === id ? updatedRequest : req))
+      );
+    } catch (err) {
+      setError("Failed to update request item. Please try again.");
+      console.error("Error updating request item status:", err);
+    }
+  };
+
   const handleDelete = async (id: string) => {
-    const confirmMessage = isAdmin
+    const confirmMessage = can("requests:delete")
       ? "Are you sure you want to delete this request? This action cannot be undone."
       : "Are you sure you want to cancel this request?";
 
     if (window.confirm(confirmMessage)) {
       try {
         await requestService.deleteRequest(id);
-        setRequests((prev) => prev.filter((req) => req.id !== id));
+        fetchRequests();
       } catch (err: any) {
         const errorMessage = err.message || "Failed to delete request. Please try again.";
         setError(errorMessage);
@@ -93,10 +157,10 @@ const RequestsPage: React.FC = () => {
         <div>
           <h1 className="text-2xl font-bold text-gray-900 flex items-center">
             <ClipboardList className="mr-2 h-6 w-6 text-blue-600" />
-            {isAdmin ? "All Requests" : "Your Requests"}
+            {canViewAll ? "All Requests" : "Your Requests"}
           </h1>
           <p className="mt-1 text-gray-600">
-            {isAdmin
+            {canViewAll
               ? "Manage and review all item requests."
               : "Track and manage your item requests."}
           </p>
@@ -104,7 +168,7 @@ const RequestsPage: React.FC = () => {
         <div className="mt-4 sm:mt-0">
           <Button
             variant="outline"
-            onClick={fetchRequests}
+            onClick={() => fetchRequests()}
             disabled={loading}
           >
             Refresh
@@ -125,10 +189,17 @@ const RequestsPage: React.FC = () => {
 
       <RequestList
         requests={requests}
-        isAdmin={isAdmin}
-        onStatusChange={isAdmin ? handleStatusChange : undefined}
+        isAdmin={canApprove}
+        onStatusChange={canApprove ? handleStatusChange : undefined}
+        onLineStatusChange={canApprove ? handleLineStatusChange : undefined}
         onDelete={handleDelete}
         isLoading={loading}
+        filters={filters}
+        onFiltersChange={handleFiltersChange}
+        total={total}
+        pagination={{ page, pageSize: DEFAULT_PAGE_SIZE, totalPages }}
+        onPageChange={setPage}
+        onExport={handleExport}
       />
     </MainLayout>
   );
@@ -0,0 +1,302 @@
+import React, { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import MainLayout from "../components/layout/MainLayout";
+import Button from "../components/ui/Button";
+import Select from "../components/ui/Select";
+import Alert from "../components/ui/Alert";
+import BarcodeScanner from "../components/scanning/BarcodeScanner";
+import StockAdjustmentModal from "../components/inventory/StockAdjustmentModal";
+import ItemCodes from "../components/inventory/ItemCodes";
+import { ScanLine, PackagePlus, Trash2 } from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+import { usePermission } from "../hooks/usePermission";
+import { Item } from "../types";
+import { itemService } from "../services/itemService";
+import { warehouseService } from "../services/warehouseService";
+import { getDefaultLocation, getLocationOptions } from "../utils/locationUtils";
+
+// What a scan does: open a stock movement, start a request, or add the item
+// to a tally of goods being received
+type ScanMode = "masuk" | "keluar" | "request" | "receive";
+
+interface ReceiptLine {
+  item: Item;
+  quantity: number;
+}
+
+const ScanPage: React.FC = () => {
+  const { isAuthenticated } = useAuth();
+  const can = usePermission();
+  const navigate = useNavigate();
+  const canAdjust = can("stock:adjust");
+  const canRequest = can("requests:create");
+
+  const modeOptions = [
+    ...(canAdjust
+      ? [
+          { value: "masuk", label: "Stock in" },
+          { value: "keluar", label: "Stock out" },
+        ]
+      : []),
+    ...(canRequest ? [{ value: "request", label: "Request item" }] : []),
+    ...(canAdjust ? [{ value: "receive", label: "Receive many items" }] : []),
+  ];
+
+  const [mode, setMode] = useState<ScanMode>(canAdjust ? "masuk" : "request");
+  const [looking, setLooking] = useState(false);
+  const [adjustItem, setAdjustItem] = useState<Item | null>(null);
+  const [lines, setLines] = useState<ReceiptLine[]>([]);
+  const [locationId, setLocationId] = useState("");
+  const [locationOptions, setLocationOptions] = useState<
+    { value: string; label: string }[]
+  >([]);
+  const [receiving, setReceiving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (mode === "receive" && locationOptions.length === 0) {
+      warehouseService
+        .getWarehouses()
+        .then((warehouses) => {
+          setLocationOptions(getLocationOptions(warehouses));
+          setLocationId(getDefaultLocation(warehouses)?.id ?? "");
+        })
+        .catch((err) => console.error("Error fetching locations:", err));
+    }
+  }, [mode, locationOptions.length]);
+
+  // Each scan of an item counts one more of it
+  const addToReceipt = (item: Item) => {
+    const existing = lines.find((line) => line.item.id === item.id);
+    setLines(
+      existing
+        ? lines.map((line) =>
+            line === existing ? { ...line, quantity: line.quantity + 1 } : line
+          )
+        : [{ item, quantity: 1 }, ...lines]
+    );
+    setSuccess(`Added ${item.name}`);
+  };
+
+  const handleScan = async (code: string) => {
+    setLooking(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const item = await itemService.findItemByCode(code);
+      if (!item) {
+        setError(`No item has the code ${code}`);
+        return;
+      }
+
+      if (mode === "request") {
+        navigate(`/requests/new?item=${item.id}`);
+      } else if (mode === "receive") {
+        addToReceipt(item);
+      } else {
+        setAdjustItem(item);
+      }
+    } catch (err) {
+      console.error("Error looking up scanned code:", err);
+      setError(err instanceof Error ? err.message : "Failed to look up the code");
+    } finally {
+      setLooking(false);
+    }
+  };
+
+  const updateQuantity = (itemId: string, quantity: number) =>
+    setLines(
+      lines.map((line) => (line.item.id === itemId ? { ...line, quantity } : line))
+    );
+
+  // Lines are received one by one; the ones that fail stay on the list
+  const handleReceiveAll = async () => {
+    const toReceive = lines.filter((line) => line.quantity > 0);
+    if (toReceive.length === 0) return;
+
+    setReceiving(true);
+    setError(null);
+    setSuccess(null);
+    const failed: ReceiptLine[] = [];
+    const failures: string[] = [];
+    for (const line of toReceive) {
+      try {
+        await itemService.receiveStock(line.item.id, line.quantity, {
+          reason: "Scanned receipt",
+          locationId: locationId || undefined,
+        });
+      } catch (err) {
+        console.error("Error receiving stock:", err);
+        failed.push(line);
+        failures.push(
+          `${line.item.name}: ${err instanceof Error ? err.message : "failed"}`
+        );
+      }
+    }
+
+    setLines(failed);
+    const received = toReceive.length - failed.length;
+    if (received > 0) {
+      setSuccess(`Received ${received} item(s)`);
+    }
+    if (failures.length > 0) {
+      setError(`Could not receive ${failures.join("; ")}`);
+    }
+    setReceiving(false);
+  };
+
+  if (!isAuthenticated || modeOptions.length === 0) {
+    return (
+      <MainLayout>
+        <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <Alert variant="error" title="Access Denied">
+            You do not have permission to move stock or create requests.
+          </Alert>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <div className="max-w-xl mx-auto">
+        <div className="mb-6">
+          <div className="flex items-center">
+            <ScanLine className="h-6 w-6 text-blue-600 mr-2" />
+            <h1 className="text-2xl font-bold text-gray-900">Scan</h1>
+          </div>
+          <p className="mt-1 text-gray-600">
+            Point the camera at an item's barcode or label, or type its code
+          </p>
+        </div>
+
+        <Select
+          label="When an item is scanned"
+          options={modeOptions}
+          value={mode}
+          onChange={(e) => {
+            setMode(e.target.value as ScanMode);
+            setError(null);
+            setSuccess(null);
+          }}
+          disabled={receiving}
+        />
+
+        {error && (
+          <Alert
+            variant="error"
+            title="Error"
+            onDismiss={() => setError(null)}
+            className="mb-4"
+          >
+            {error}
+          </Alert>
+        )}
+        {success && (
+          <Alert
+            variant="success"
+            title="Done"
+            onDismiss={() => setSuccess(null)}
+            className="mb-4"
+          >
+            {success}
+          </Alert>
+        )}
+
+        <BarcodeScanner
+          onScan={handleScan}
+          paused={looking || receiving || adjustItem !== null}
+        />
+
+        {mode === "receive" && (
+          <div className="mt-6 bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">
+              Items to receive
+            </h2>
+            <Select
+              label="Into location"
+              options={locationOptions}
+              value={locationId}
+              onChange={(e) => setLocationId(e.target.value)}
+              disabled={receiving}
+            />
+
+            {lines.length === 0 ? (
+              <p className="mb-4 text-sm text-gray-600">
+                Scan each item as it is unpacked. Scanning an item again counts
+                one more of it.
+              </p>
+            ) : (
+              <ul className="mb-4 divide-y divide-gray-200 border rounded-md">
+                {lines.map((line) => (
+                  <li
+                    key={line.item.id}
+                    className="px-3 py-2 flex items-center justify-between"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">
+                        {line.item.name}
+                      </p>
+                      <ItemCodes item={line.item} />
+                    </div>
+                    <div className="ml-3 flex items-center space-x-2">
+                      <input
+                        type="number"
+                        min="0"
+                        value={line.quantity.toString()}
+                        onChange={(e) =>
+                          updateQuantity(line.item.id, parseInt(e.target.value) || 0)
+                        }
+                        className="w-20 rounded-md border border-gray-300 px-2 py-1 text-sm"
+                        aria-label={`Quantity of ${line.item.name}`}
+                        disabled={receiving}
+                      />
+                      <span className="text-sm text-gray-500">
+                        {line.item.unit || "pcs"}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setLines(lines.filter((l) => l.item.id !== line.item.id))
+                        }
+                        className="text-gray-400 hover:text-red-600"
+                        aria-label={`Remove ${line.item.name}`}
+                        disabled={receiving}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex justify-end">
+              <Button
+                variant="success"
+                onClick={handleReceiveAll}
+                isLoading={receiving}
+                disabled={!lines.some((line) => line.quantity > 0)}
+                icon={<PackagePlus className="h-4 w-4" />}
+              >
+                Receive All
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {adjustItem && (mode === "masuk" || mode === "keluar") && (
+        <StockAdjustmentModal
+          type={mode}
+          initialItem={adjustItem}
+          onClose={() => setAdjustItem(null)}
+          onSuccess={() => setSuccess(`Stock of ${adjustItem.name} updated`)}
+        />
+      )}
+    </MainLayout>
+  );
+};
+
+export default ScanPage;
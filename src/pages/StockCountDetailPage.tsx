@@ -0,0 +1,505 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { Link, useParams } from "react-router-dom";
+import MainLayout from "../components/layout/MainLayout";
+import Button from "../components/ui/Button";
+import Alert from "../components/ui/Alert";
+import Badge from "../components/ui/Badge";
+import {
+  ArrowLeft,
+  CheckCircle,
+  ClipboardCheck,
+  Printer,
+  RefreshCw,
+  Save,
+  XCircle,
+} from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+import { usePermission } from "../hooks/usePermission";
+import { StockCount, StockCountLine } from "../types";
+import { stockCountService } from "../services/stockCountService";
+import { downloadStockCountSheetPDF } from "../utils/pdfExportUtils";
+import {
+  formatVariance,
+  getVarianceLines,
+  getVarianceValue,
+  stockCountStatusBadges,
+} from "../utils/stockCountUtils";
+
+// What has been typed for a line but not saved yet
+interface LineDraft {
+  counted: string;
+  note: string;
+}
+
+const toDraft = (line: StockCountLine): LineDraft => ({
+  counted: line.counted_quantity === null ? "" : line.counted_quantity.toString(),
+  note: line.note || "",
+});
+
+const StockCountDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { isAuthenticated } = useAuth();
+  const can = usePermission();
+  const canCount = can("stock:count");
+  // Reviewers see the expected quantities; counters count blind
+  const canReview = can("stock:adjust");
+  const [count, setCount] = useState<StockCount | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, LineDraft>>({});
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyCount = useCallback((updated: StockCount) => {
+    setCount(updated);
+    setDrafts({});
+  }, []);
+
+  const fetchCount = useCallback(async () => {
+    if (!id) return;
+    setLoading(true);
+    setError(null);
+    try {
+      applyCount(await stockCountService.getStockCount(id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load stock count.");
+      console.error("Error fetching stock count:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [id, applyCount]);
+
+  useEffect(() => {
+    if (isAuthenticated && canCount && id) {
+      fetchCount();
+    } else {
+      setLoading(false);
+    }
+  }, [isAuthenticated, canCount, id, fetchCount]);
+
+  // Run an action that returns the updated count
+  const runAction = async (action: () => Promise<StockCount>, failure: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      applyCount(await action());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+      console.error(`${failure}:`, err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const updateDraft = (line: StockCountLine, changes: Partial<LineDraft>) => {
+    setDrafts({
+      ...drafts,
+      [line.id]: { ...(drafts[line.id] ?? toDraft(line)), ...changes },
+    });
+  };
+
+  const handleSaveCounts = () => {
+    if (!count) return;
+
+    const invalid = Object.values(drafts).some(
+      (draft) =>
+        draft.counted !== "" &&
+        !(Number.isInteger(Number(draft.counted)) && Number(draft.counted) >= 0)
+    );
+    if (invalid) {
+      setError("Counted quantities must be whole numbers of zero or more.");
+      return;
+    }
+
+    runAction(
+      () =>
+        stockCountService.saveCounts(
+          count.id,
+          Object.entries(drafts).map(([lineId, draft]) => ({
+            lineId,
+            countedQuantity: draft.counted === "" ? null : Number(draft.counted),
+            note: draft.note,
+          }))
+        ),
+      "Failed to save counts"
+    );
+  };
+
+  const handlePost = () => {
+    if (!count) return;
+    const approved = (count.lines ?? []).filter(
+      (line) => line.is_approved && line.variance
+    );
+    if (
+      !window.confirm(
+        `Post ${approved.length} approved difference(s) worth ${formatVariance(
+          getVarianceValue(approved)
+        )} to stock? Unapproved differences are left out.`
+      )
+    ) {
+      return;
+    }
+    runAction(() => stockCountService.postStockCount(count.id), "Failed to post stock count");
+  };
+
+  const handleCancel = () => {
+    if (!count) return;
+    if (!window.confirm(`Cancel "${count.name}"? No stock will change.`)) return;
+    runAction(
+      () => stockCountService.cancelStockCount(count.id),
+      "Failed to cancel stock count"
+    );
+  };
+
+  if (!isAuthenticated || !canCount) {
+    return (
+      <MainLayout>
+        <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <Alert variant="error" title="Access Denied">
+            You do not have permission to count stock.
+          </Alert>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  if (loading || !count) {
+    return (
+      <MainLayout>
+        {error ? (
+          <Alert variant="error" title="Error">
+            {error}
+          </Alert>
+        ) : (
+          <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
+            <ClipboardCheck className="h-12 w-12 text-gray-400 mx-auto animate-pulse" />
+            <h3 className="mt-4 text-lg font-medium text-gray-900">
+              Loading stock count...
+            </h3>
+          </div>
+        )}
+      </MainLayout>
+    );
+  }
+
+  const lines = count.lines ?? [];
+  const isOpen = count.status === "open";
+  const hasDrafts = Object.keys(drafts).length > 0;
+  const varianceLines = getVarianceLines(lines);
+  const unapprovedLines = varianceLines.filter((line) => !line.is_approved);
+  const approvedLines = varianceLines.filter((line) => line.is_approved);
+  const shownLines = onlyDifferences && canReview ? varianceLines : lines;
+  const badge = stockCountStatusBadges[count.status];
+
+  return (
+    <MainLayout>
+      <Link
+        to="/stock-counts"
+        className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4"
+      >
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Stock Counts
+      </Link>
+
+      <div className="mb-6 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center space-x-2">
+            <ClipboardCheck className="h-6 w-6 text-blue-600" />
+            <h1 className="text-2xl font-bold text-gray-900">{count.name}</h1>
+            <Badge variant={badge.variant}>{badge.label}</Badge>
+          </div>
+          <p className="mt-1 text-gray-600">
+            {count.category || "All categories"} ·{" "}
+            {count.location_name || "All locations"} · Opened{" "}
+            {new Date(count.created_at).toLocaleString()}
+            {count.created_by_name && ` by ${count.created_by_name}`}
+          </p>
+          {count.posted_at && (
+            <p className="text-sm text-gray-500">
+              Posted {new Date(count.posted_at).toLocaleString()}
+              {count.posted_by_name && ` by ${count.posted_by_name}`}
+            </p>
+          )}
+          {count.notes && <p className="mt-1 text-sm text-gray-500">{count.notes}</p>}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={fetchCount}
+            disabled={busy || hasDrafts}
+            icon={<RefreshCw className="h-4 w-4" />}
+          >
+            Refresh
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => downloadStockCountSheetPDF(count)}
+            icon={<Printer className="h-4 w-4" />}
+          >
+            Count Sheet
+          </Button>
+          {canReview && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => downloadStockCountSheetPDF(count, true)}
+              icon={<Printer className="h-4 w-4" />}
+            >
+              Sheet with Expected
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <Alert
+          variant="error"
+          title="Error"
+          onDismiss={() => setError(null)}
+          className="mb-6"
+        >
+          {error}
+        </Alert>
+      )}
+
+      <div className="mb-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+          <div className="text-sm text-gray-500">Counted</div>
+          <div className="text-2xl font-semibold text-gray-900">
+            {lines.filter((line) => line.counted_quantity !== null).length} /{" "}
+            {lines.length}
+          </div>
+        </div>
+        {canReview && (
+          <>
+            <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+              <div className="text-sm text-gray-500">Differences found</div>
+              <div className="text-2xl font-semibold text-gray-900">
+                {varianceLines.length}{" "}
+                <span className="text-base font-normal text-gray-500">
+                  worth {formatVariance(getVarianceValue(varianceLines))}
+                </span>
+              </div>
+            </div>
+            <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+              <div className="text-sm text-gray-500">Approved to post</div>
+              <div className="text-2xl font-semibold text-gray-900">
+                {approvedLines.length}{" "}
+                <span className="text-base font-normal text-gray-500">
+                  worth {formatVariance(getVarianceValue(approvedLines))}
+                </span>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      {canReview && (
+        <label className="mb-4 inline-flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            className="mr-2 rounded border-gray-300"
+            checked={onlyDifferences}
+            onChange={(e) => setOnlyDifferences(e.target.checked)}
+          />
+          Only show differences
+        </label>
+      )}
+
+      <div className="bg-white shadow overflow-x-auto sm:rounded-md">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                Location
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                Item
+              </th>
+              {canReview && (
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                  Expected
+                </th>
+              )}
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                Counted
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                Note
+              </th>
+              {canReview && (
+                <>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                    Difference
+                  </th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                    Value
+                  </th>
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">
+                    Approved
+                  </th>
+                </>
+              )}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {shownLines.map((line) => {
+              const draft = drafts[line.id] ?? toDraft(line);
+              return (
+                <tr key={line.id} className={drafts[line.id] ? "bg-yellow-50" : ""}>
+                  <td className="px-4 py-2 text-sm text-gray-600 whitespace-nowrap">
+                    {line.location_name}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-900">
+                    {line.item_name}
+                    {line.counted_by_name && (
+                      <div className="text-xs text-gray-500">
+                        Counted by {line.counted_by_name}
+                      </div>
+                    )}
+                  </td>
+                  {canReview && (
+                    <td className="px-4 py-2 text-sm text-right text-gray-600">
+                      {line.expected_quantity} {line.unit || "pcs"}
+                    </td>
+                  )}
+                  <td className="px-4 py-2 text-sm">
+                    {isOpen ? (
+                      <input
+                        type="number"
+                        min="0"
+                        value={draft.counted}
+                        onChange={(e) => updateDraft(line, { counted: e.target.value })}
+                        disabled={busy}
+                        className="w-24 rounded-md border border-gray-300 px-2 py-1 text-sm"
+                      />
+                    ) : (
+                      line.counted_quantity ?? "-"
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-sm">
+                    {isOpen ? (
+                      <input
+                        type="text"
+                        value={draft.note}
+                        onChange={(e) => updateDraft(line, { note: e.target.value })}
+                        disabled={busy}
+                        className="w-full min-w-[8rem] rounded-md border border-gray-300 px-2 py-1 text-sm"
+                      />
+                    ) : (
+                      line.note || ""
+                    )}
+                  </td>
+                  {canReview && (
+                    <>
+                      <td
+                        className={`px-4 py-2 text-sm text-right ${
+                          (line.variance ?? 0) < 0
+                            ? "text-red-600"
+                            : line.variance
+                            ? "text-green-600"
+                            : "text-gray-500"
+                        }`}
+                      >
+                        {line.variance === null ? "-" : formatVariance(line.variance)}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right text-gray-600">
+                        {line.variance_value === null
+                          ? "-"
+                          : formatVariance(line.variance_value)}
+                      </td>
+                      <td className="px-4 py-2 text-center">
+                        {line.variance ? (
+                          <input
+                            type="checkbox"
+                            className="rounded border-gray-300"
+                            checked={line.is_approved}
+                            disabled={!isOpen || busy || !!drafts[line.id]}
+                            onChange={(e) =>
+                              runAction(
+                                () =>
+                                  stockCountService.setApproved(
+                                    count.id,
+                                    [line.id],
+                                    e.target.checked
+                                  ),
+                                "Failed to approve difference"
+                              )
+                            }
+                          />
+                        ) : null}
+                      </td>
+                    </>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {shownLines.length === 0 && (
+          <p className="px-4 py-6 text-center text-sm text-gray-500">
+            No differences found.
+          </p>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="mt-6 flex flex-wrap justify-end gap-3">
+          {canReview && (
+            <Button
+              variant="outline"
+              onClick={handleCancel}
+              disabled={busy}
+              icon={<XCircle className="h-4 w-4" />}
+              className="text-red-600 hover:text-red-800"
+            >
+              Cancel Count
+            </Button>
+          )}
+          {canReview && unapprovedLines.length > 0 && (
+            <Button
+              variant="outline"
+              onClick={() =>
+                runAction(
+                  () =>
+                    stockCountService.setApproved(
+                      count.id,
+                      unapprovedLines.map((line) => line.id),
+                      true
+                    ),
+                  "Failed to approve differences"
+                )
+              }
+              disabled={busy || hasDrafts}
+              icon={<CheckCircle className="h-4 w-4" />}
+            >
+              Approve All Differences
+            </Button>
+          )}
+          <Button
+            variant={canReview ? "outline" : "primary"}
+            onClick={handleSaveCounts}
+            disabled={busy || !hasDrafts}
+            icon={<Save className="h-4 w-4" />}
+          >
+            Save Counts
+          </Button>
+          {canReview && (
+            <Button
+              variant="primary"
+              onClick={handlePost}
+              disabled={busy || hasDrafts}
+              isLoading={busy}
+            >
+              Post Count
+            </Button>
+          )}
+        </div>
+      )}
+    </MainLayout>
+  );
+};
+
+export default StockCountDetailPage;
@@ -0,0 +1,305 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import MainLayout from "../components/layout/MainLayout";
+import Button from "../components/ui/Button";
+import Input from "../components/ui/Input";
+import Select from "../components/ui/Select";
+import Textarea from "../components/ui/Textarea";
+import Alert from "../components/ui/Alert";
+import Badge from "../components/ui/Badge";
+import { ClipboardCheck, Plus, X } from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+import { usePermission } from "../hooks/usePermission";
+import { StockCount, StockCountStatus } from "../types";
+import { stockCountService } from "../services/stockCountService";
+import { categoryService } from "../services/categoryService";
+import { warehouseService } from "../services/warehouseService";
+import { getLocationOptions } from "../utils/locationUtils";
+import {
+  formatVariance,
+  stockCountStatusBadges,
+} from "../utils/stockCountUtils";
+
+const statusFilterOptions = [
+  { value: "open", label: "Open" },
+  { value: "posted", label: "Posted" },
+  { value: "cancelled", label: "Cancelled" },
+  { value: "all", label: "All" },
+];
+
+const StockCountsPage: React.FC = () => {
+  const { isAuthenticated } = useAuth();
+  const can = usePermission();
+  const canCount = can("stock:count");
+  const canOpen = can("stock:adjust");
+  const [counts, setCounts] = useState<StockCount[]>([]);
+  const [statusFilter, setStatusFilter] = useState("open");
+  const [categoryOptions, setCategoryOptions] = useState<
+    { value: string; label: string }[]
+  >([]);
+  const [locationOptions, setLocationOptions] = useState<
+    { value: string; label: string }[]
+  >([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState({
+    name: "",
+    category: "",
+    locationId: "",
+    notes: "",
+  });
+
+  const fetchCounts = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setCounts(
+        await stockCountService.getStockCounts(
+          statusFilter === "all" ? [] : [statusFilter as StockCountStatus]
+        )
+      );
+    } catch (err) {
+      setError("Failed to load stock counts. Please try again.");
+      console.error("Error fetching stock counts:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  const fetchOptions = useCallback(async () => {
+    try {
+      const [categories, warehouses] = await Promise.all([
+        categoryService.getCategoryOptions(),
+        warehouseService.getWarehouses(),
+      ]);
+      setCategoryOptions(categories);
+      setLocationOptions(getLocationOptions(warehouses));
+    } catch (err) {
+      console.error("Error fetching stock count options:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthenticated && canCount) {
+      fetchCounts();
+    } else {
+      setLoading(false);
+    }
+  }, [isAuthenticated, canCount, fetchCounts]);
+
+  useEffect(() => {
+    if (showForm && locationOptions.length === 0) {
+      fetchOptions();
+    }
+  }, [showForm, locationOptions.length, fetchOptions]);
+
+  const handleOpenCount = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const count = await stockCountService.openStockCount({
+        name: form.name.trim(),
+        category: form.category,
+        locationId: form.locationId,
+        notes: form.notes,
+      });
+      setForm({ name: "", category: "", locationId: "", notes: "" });
+      setShowForm(false);
+      if (statusFilter === "open" || statusFilter === "all") {
+        setCounts([count, ...counts]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to open stock count.");
+      console.error("Error opening stock count:", err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isAuthenticated || !canCount) {
+    return (
+      <MainLayout>
+        <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <Alert variant="error" title="Access Denied">
+            You do not have permission to count stock.
+          </Alert>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <div className="flex items-center">
+            <ClipboardCheck className="h-6 w-6 text-blue-600 mr-2" />
+            <h1 className="text-2xl font-bold text-gray-900">Stock Counts</h1>
+          </div>
+          <p className="mt-1 text-gray-600">
+            Count what is on the shelves and post the differences in one go
+          </p>
+        </div>
+        {canOpen && !showForm && (
+          <Button
+            variant="primary"
+            onClick={() => setShowForm(true)}
+            icon={<Plus className="h-4 w-4" />}
+          >
+            Open Count
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <Alert
+          variant="error"
+          title="Error"
+          onDismiss={() => setError(null)}
+          className="mb-6"
+        >
+          {error}
+        </Alert>
+      )}
+
+      {showForm && (
+        <form
+          onSubmit={handleOpenCount}
+          className="mb-6 bg-white p-4 rounded-lg shadow-sm border border-gray-200"
+        >
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-medium text-gray-900">
+              Open a stock count
+            </h2>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="text-gray-400 hover:text-gray-500"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+          <p className="mb-4 text-sm text-gray-600">
+            The expected quantities are frozen when the count opens. Leave the
+            category or location empty to count all of them.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Input
+              label="Name"
+              placeholder="e.g. Opname October"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              required
+              disabled={saving}
+            />
+            <Select
+              label="Category"
+              options={[{ value: "", label: "All categories" }, ...categoryOptions]}
+              value={form.category}
+              onChange={(e) => setForm({ ...form, category: e.target.value })}
+              disabled={saving}
+            />
+            <Select
+              label="Location"
+              options={[{ value: "", label: "All locations" }, ...locationOptions]}
+              value={form.locationId}
+              onChange={(e) => setForm({ ...form, locationId: e.target.value })}
+              disabled={saving}
+            />
+          </div>
+          <Textarea
+            label="Notes (optional)"
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            disabled={saving}
+          />
+          <div className="flex justify-end">
+            <Button variant="primary" type="submit" isLoading={saving}>
+              Open Count
+            </Button>
+          </div>
+        </form>
+      )}
+
+      <div className="mb-4 max-w-xs">
+        <Select
+          label="Status"
+          options={statusFilterOptions}
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value)}
+        />
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
+          <ClipboardCheck className="h-12 w-12 text-gray-400 mx-auto animate-pulse" />
+          <h3 className="mt-4 text-lg font-medium text-gray-900">
+            Loading stock counts...
+          </h3>
+        </div>
+      ) : counts.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
+          <ClipboardCheck className="h-12 w-12 text-gray-400 mx-auto" />
+          <h3 className="mt-4 text-lg font-medium text-gray-900">
+            No stock counts
+          </h3>
+        </div>
+      ) : (
+        <div className="bg-white shadow overflow-hidden sm:rounded-md">
+          <ul className="divide-y divide-gray-200">
+            {counts.map((count) => {
+              const badge = stockCountStatusBadges[count.status];
+              return (
+                <li key={count.id}>
+                  <Link
+                    to={`/stock-counts/${count.id}`}
+                    className="block px-4 py-4 sm:px-6 hover:bg-gray-50"
+                  >
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <div className="flex items-center space-x-2">
+                          <span className="text-sm font-medium text-gray-900">
+                            {count.name}
+                          </span>
+                          <Badge variant={badge.variant}>{badge.label}</Badge>
+                        </div>
+                        <div className="mt-1 text-sm text-gray-500">
+                          {count.category || "All categories"} ·{" "}
+                          {count.location_name || "All locations"} · Opened{" "}
+                          {new Date(count.created_at).toLocaleDateString()}
+                          {count.created_by_name && ` by ${count.created_by_name}`}
+                        </div>
+                      </div>
+                      <div className="ml-4 text-right text-sm">
+                        <div className="text-gray-900">
+                          {count.counted_count ?? 0} / {count.line_count ?? 0}{" "}
+                          counted
+                        </div>
+                        <div
+                          className={
+                            (count.variance_value ?? 0) < 0
+                              ? "text-red-600"
+                              : "text-gray-500"
+                          }
+                        >
+                          Variance {formatVariance(count.variance_value ?? 0)}
+                        </div>
+                      </div>
+                    </div>
+                  </Link>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </MainLayout>
+  );
+};
+
+export default StockCountsPage;
@@ -0,0 +1,220 @@
+import React, { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import MainLayout from "../components/layout/MainLayout";
+import Button from "../components/ui/Button";
+import Alert from "../components/ui/Alert";
+import Badge from "../components/ui/Badge";
+import { ArrowLeft, Truck, Plus, Edit, Trash2, Power } from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+import { usePermission } from "../hooks/usePermission";
+import { Supplier } from "../types";
+import SupplierFormModal from "../components/purchasing/SupplierFormModal";
+import { supplierService, SupplierInput } from "../services/supplierService";
+
+const SuppliersPage: React.FC = () => {
+  const { isAuthenticated } = useAuth();
+  const can = usePermission();
+  const canPurchase = can("purchasing:manage");
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showSupplierModal, setShowSupplierModal] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+
+  useEffect(() => {
+    if (isAuthenticated && canPurchase) {
+      fetchSuppliers();
+    } else {
+      setLoading(false);
+    }
+  }, [isAuthenticated, canPurchase]);
+
+  const fetchSuppliers = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setSuppliers(await supplierService.getSuppliers(true));
+    } catch (err) {
+      setError("Failed to load suppliers. Please try again.");
+      console.error("Error fetching suppliers:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveSupplier = async (supplier: SupplierInput) => {
+    if (editingSupplier) {
+      const updated = await supplierService.updateSupplier(
+        editingSupplier.id,
+        supplier
+      );
+      setSuppliers(suppliers.map((s) => (s.id === updated.id ? updated : s)));
+    } else {
+      const created = await supplierService.createSupplier(supplier);
+      setSuppliers(
+        [...suppliers, created].sort((a, b) => a.name.localeCompare(b.name))
+      );
+    }
+    setEditingSupplier(null);
+  };
+
+  const handleToggleActive = async (supplier: Supplier) => {
+    try {
+      const updated = await supplierService.updateSupplier(supplier.id, {
+        is_active: !supplier.is_active,
+      });
+      setSuppliers(suppliers.map((s) => (s.id === updated.id ? updated : s)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update supplier.");
+      console.error("Error updating supplier:", err);
+    }
+  };
+
+  const handleDeleteSupplier = async (supplier: Supplier) => {
+    if (!window.confirm(`Delete the supplier "${supplier.name}"?`)) {
+      return;
+    }
+
+    try {
+      await supplierService.deleteSupplier(supplier.id);
+      setSuppliers(suppliers.filter((s) => s.id !== supplier.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete supplier.");
+      console.error("Error deleting supplier:", err);
+    }
+  };
+
+  if (!isAuthenticated || !canPurchase) {
+    return (
+      <MainLayout>
+        <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <Alert variant="error" title="Access Denied">
+            You do not have permission to manage suppliers.
+          </Alert>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <Link
+        to="/purchase-orders"
+        className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4"
+      >
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Purchase Orders
+      </Link>
+
+      <div className="mb-6 flex items-center justify-between">
+        <div className="flex items-center">
+          <Truck className="h-6 w-6 text-blue-600 mr-2" />
+          <h1 className="text-2xl font-bold text-gray-900">Suppliers</h1>
+        </div>
+        <Button
+          variant="primary"
+          onClick={() => {
+            setEditingSupplier(null);
+            setShowSupplierModal(true);
+          }}
+          icon={<Plus className="h-4 w-4" />}
+        >
+          Add Supplier
+        </Button>
+      </div>
+
+      {error && (
+        <Alert
+          variant="error"
+          title="Error"
+          onDismiss={() => setError(null)}
+          className="mb-6"
+        >
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
+          <Truck className="h-12 w-12 text-gray-400 mx-auto animate-pulse" />
+          <h3 className="mt-4 text-lg font-medium text-gray-900">
+            Loading suppliers...
+          </h3>
+        </div>
+      ) : suppliers.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
+          <Truck className="h-12 w-12 text-gray-400 mx-auto" />
+          <h3 className="mt-4 text-lg font-medium text-gray-900">No suppliers</h3>
+        </div>
+      ) : (
+        <div className="bg-white shadow overflow-hidden sm:rounded-md">
+          <ul className="divide-y divide-gray-200">
+            {suppliers.map((supplier) => (
+              <li key={supplier.id} className="px-4 py-4 sm:px-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm font-medium text-gray-900">
+                        {supplier.name}
+                      </span>
+                      {!supplier.is_active && (
+                        <Badge variant="default">Inactive</Badge>
+                      )}
+                    </div>
+                    <div className="mt-1 text-sm text-gray-500">
+                      {[supplier.contact_name, supplier.phone, supplier.email]
+                        .filter(Boolean)
+                        .join(" · ") || "No contact details"}
+                    </div>
+                  </div>
+                  <div className="ml-4 flex-shrink-0 flex">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setEditingSupplier(supplier);
+                        setShowSupplierModal(true);
+                      }}
+                      icon={<Edit className="h-4 w-4" />}
+                    >
+                      Edit
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleToggleActive(supplier)}
+                      icon={<Power className="h-4 w-4" />}
+                    >
+                      {supplier.is_active ? "Deactivate" : "Activate"}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDeleteSupplier(supplier)}
+                      icon={<Trash2 className="h-4 w-4" />}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <SupplierFormModal
+        isOpen={showSupplierModal}
+        supplier={editingSupplier}
+        onClose={() => {
+          setShowSupplierModal(false);
+          setEditingSupplier(null);
+        }}
+        onSave={handleSaveSupplier}
+      />
+    </MainLayout>
+  );
+};
+
+export default SuppliersPage;
@@ -13,6 +13,7 @@ import {
   Trash2,
 } from "lucide-react";
 import { useAuth } from "../contexts/AuthContext";
+import { usePermission } from "../hooks/usePermission";
 import Input from "../components/ui/Input";
 import Select from "../components/ui/Select";
 import { User } from "../types";
@@ -20,7 +21,9 @@ import UserFormModal from "../components/users/UserFormModal";
 import { userService } from "../services/userService";
 
 const UsersPage: React.FC = () => {
-  const { user, isAuthenticated, isAdmin } = useAuth();
+  const { isAuthenticated } = useAuth();
+  const can = usePermission();
+  const canManageUsers = can("users:manage");
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -30,12 +33,12 @@ const UsersPage: React.FC = () => {
   const [editingUser, setEditingUser] = useState<User | null>(null);
 
   useEffect(() => {
-    if (isAuthenticated && user?.role === "manager") {
+    if (isAuthenticated && canManageUsers) {
       fetchUsers();
     } else {
       setLoading(false);
     }
-  }, [isAuthenticated, user]);
+  }, [isAuthenticated, canManageUsers]);
 
   const fetchUsers = async () => {
     setLoading(true);
@@ -128,7 +131,7 @@ const UsersPage: React.FC = () => {
     setRoleFilter("all");
   };
 
-  if (!isAuthenticated || user?.role !== "manager") {
+  if (!isAuthenticated || !canManageUsers) {
     return (
       <MainLayout>
         <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
@@ -0,0 +1,270 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { usePermission } from '../hooks/usePermission';
+import { reportService } from '../services/reportService';
+import { InventoryValuation } from '../types';
+import { downloadValuationReportExcel } from '../utils/excelTemplateGenerator';
+import { downloadValuationReportPDF } from '../utils/pdfExportUtils';
+import { costingMethodLabels, formatValue } from '../utils/valuationUtils';
+import MainLayout from '../components/layout/MainLayout';
+import { Card } from '../components/ui/Card';
+import Button from '../components/ui/Button';
+import Select from '../components/ui/Select';
+import Alert from '../components/ui/Alert';
+import { Calendar, Coins, Download, FileSpreadsheet, Users, BarChart3 } from 'lucide-react';
+
+const ValuationReportPage: React.FC = () => {
+  const can = usePermission();
+  const [selectedYear, setSelectedYear] = useState<string>(new Date().getFullYear().toString());
+  const [selectedMonth, setSelectedMonth] = useState<string>((new Date().getMonth() + 1).toString());
+  const [loading, setLoading] = useState<boolean>(false);
+  const [valuation, setValuation] = useState<InventoryValuation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Generate year options (current year and previous 2 years)
+  const currentYear = new Date().getFullYear();
+  const yearOptions = Array.from({ length: 3 }, (_, i) => ({
+    value: (currentYear - i).toString(),
+    label: (currentYear - i).toString()
+  }));
+
+  const monthOptions = Array.from({ length: 12 }, (_, i) => ({
+    value: (i + 1).toString(),
+    label: new Date(2000, i).toLocaleString('en-US', { month: 'long' })
+  }));
+
+  if (!can('reports:view')) {
+    return (
+      <MainLayout>
+        <div className="flex items-center justify-center h-64">
+          <Alert variant="error" title="Access Denied">
+            You need administrator privileges to access this page.
+          </Alert>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  const handleGenerate = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setValuation(
+        await reportService.getInventoryValuation(parseInt(selectedYear), parseInt(selectedMonth))
+      );
+    } catch (err) {
+      console.error('Error generating valuation report:', err);
+      setError(err instanceof Error ? err.message : 'Failed to generate the valuation report.');
+      setValuation(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getPeriodName = (report: InventoryValuation) =>
+    `${new Date(report.year, report.month - 1).toLocaleString('en-US', { month: 'long' })} ${report.year}`;
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+              <Coins className="mr-3 h-8 w-8 text-blue-600" />
+              Inventory Valuation
+            </h1>
+            <p className="mt-2 text-gray-600">
+              Stock value by category and the cost of goods issued to each request and requester.
+            </p>
+          </div>
+          <Link
+            to="/reports/monthly"
+            className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+          >
+            <BarChart3 className="mr-1 h-4 w-4" />
+            Monthly request report
+          </Link>
+        </div>
+
+        {/* Report Configuration */}
+        <Card>
+          <div className="p-6">
+            <h2 className="text-lg font-semibold mb-4 flex items-center">
+              <Calendar className="mr-2 h-5 w-5 text-blue-600" />
+              Report Configuration
+            </h2>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-2">
+              <Select
+                label="Year"
+                value={selectedYear}
+                onChange={(e) => setSelectedYear(e.target.value)}
+                options={yearOptions}
+              />
+
+              <Select
+                label="Month"
+                value={selectedMonth}
+                onChange={(e) => setSelectedMonth(e.target.value)}
+                options={monthOptions}
+              />
+
+              <div className="flex items-end mb-4">
+                <Button
+                  onClick={handleGenerate}
+                  disabled={loading}
+                  className="w-full"
+                >
+                  {loading ? 'Generating...' : 'Generate Report'}
+                </Button>
+              </div>
+            </div>
+
+            {error && (
+              <Alert
+                variant="error"
+                title="Error"
+                onDismiss={() => setError(null)}
+                className="mb-4"
+              >
+                {error}
+              </Alert>
+            )}
+          </div>
+        </Card>
+
+        {valuation && (
+          <Card>
+            <div className="p-6">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4">
+                <h2 className="text-lg font-semibold">
+                  Value by Category - {getPeriodName(valuation)}
+                </h2>
+                <span className="text-sm text-gray-500">
+                  Costing method: {costingMethodLabels[valuation.method]}
+                </span>
+              </div>
+
+              {/* Key Figures */}
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="text-sm font-medium text-gray-600">Opening Value</p>
+                  <p className="text-2xl font-bold text-gray-900">{formatValue(valuation.totals.opening_value)}</p>
+                </div>
+                <div className="bg-green-50 p-4 rounded-lg">
+                  <p className="text-sm font-medium text-green-600">Stock In</p>
+                  <p className="text-2xl font-bold text-green-900">{formatValue(valuation.totals.in_value)}</p>
+                </div>
+                <div className="bg-red-50 p-4 rounded-lg">
+                  <p className="text-sm font-medium text-red-600">Stock Out</p>
+                  <p className="text-2xl font-bold text-red-900">{formatValue(valuation.totals.out_value)}</p>
+                </div>
+                <div className="bg-blue-50 p-4 rounded-lg">
+                  <p className="text-sm font-medium text-blue-600">Closing Value</p>
+                  <p className="text-2xl font-bold text-blue-900">{formatValue(valuation.totals.closing_value)}</p>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto mb-6">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Category</th>
+                      <th className="px-3 py-2 text-right font-medium text-gray-500">Opening</th>
+                      <th className="px-3 py-2 text-right font-medium text-gray-500">In</th>
+                      <th className="px-3 py-2 text-right font-medium text-gray-500">Out</th>
+                      <th className="px-3 py-2 text-right font-medium text-gray-500">Closing Qty</th>
+                      <th className="px-3 py-2 text-right font-medium text-gray-500">Closing Value</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {valuation.categories.map((category) => (
+                      <tr key={category.category}>
+                        <td className="px-3 py-2 text-gray-900">{category.category}</td>
+                        <td className="px-3 py-2 text-right text-gray-600">{formatValue(category.opening_value)}</td>
+                        <td className="px-3 py-2 text-right text-green-600">{formatValue(category.in_value)}</td>
+                        <td className="px-3 py-2 text-right text-red-600">{formatValue(category.out_value)}</td>
+                        <td className="px-3 py-2 text-right text-gray-600">{category.closing_quantity.toLocaleString()}</td>
+                        <td className="px-3 py-2 text-right font-semibold text-gray-900">{formatValue(category.closing_value)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Cost of Goods Issued */}
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+                <div>
+                  <h3 className="text-md font-semibold mb-3 flex items-center">
+                    <Users className="mr-2 h-4 w-4 text-gray-600" />
+                    Issued per Requester
+                  </h3>
+                  {valuation.requesters.length === 0 ? (
+                    <p className="text-sm text-gray-500">Nothing was issued to requests this month.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {valuation.requesters.map((requester) => (
+                        <div key={requester.requester_id ?? requester.requester_name} className="flex justify-between items-center">
+                          <span className="text-sm text-gray-600 truncate">
+                            {requester.requester_name} ({requester.requests} requests)
+                          </span>
+                          <span className="font-semibold text-blue-600">{formatValue(requester.cost)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div>
+                  <h3 className="text-md font-semibold mb-3">Issued per Request</h3>
+                  {valuation.requests.length === 0 ? (
+                    <p className="text-sm text-gray-500">Nothing was issued to requests this month.</p>
+                  ) : (
+                    <div className="space-y-2 max-h-72 overflow-y-auto">
+                      {valuation.requests.map((request) => (
+                        <div key={request.request_id} className="flex justify-between items-center">
+                          <Link
+                            to={`/requests/${encodeURIComponent(request.request_id)}`}
+                            className="text-sm text-gray-600 hover:text-blue-600 truncate"
+                          >
+                            {request.project_name || request.request_id} - {request.requester_name}
+                          </Link>
+                          <span className="font-semibold text-blue-600">{formatValue(request.cost)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* Export Actions */}
+              <div className="flex flex-col sm:flex-row gap-4 pt-4 border-t border-gray-200">
+                <Button
+                  onClick={() => downloadValuationReportExcel(valuation)}
+                  variant="primary"
+                  className="flex items-center justify-center"
+                >
+                  <FileSpreadsheet className="mr-2 h-4 w-4" />
+                  Export to Excel
+                </Button>
+
+                <Button
+                  onClick={() => downloadValuationReportPDF(valuation)}
+                  variant="secondary"
+                  className="flex items-center justify-center"
+                >
+                  <Download className="mr-2 h-4 w-4" />
+                  Export to PDF
+                </Button>
+              </div>
+            </div>
+          </Card>
+        )}
+      </div>
+    </MainLayout>
+  );
+};
+
+export default ValuationReportPage;
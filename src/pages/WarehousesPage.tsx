@@ -0,0 +1,316 @@
+import React, { useState, useEffect } from "react";
+import MainLayout from "../components/layout/MainLayout";
+import Button from "../components/ui/Button";
+import Input from "../components/ui/Input";
+import Alert from "../components/ui/Alert";
+import Badge from "../components/ui/Badge";
+import { Warehouse as WarehouseIcon, Plus, Trash2, Star, Power } from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+import { usePermission } from "../hooks/usePermission";
+import { StockLocation, Warehouse } from "../types";
+import { warehouseService } from "../services/warehouseService";
+
+const WarehousesPage: React.FC = () => {
+  const { isAuthenticated } = useAuth();
+  const can = usePermission();
+  const canManageLocations = can("locations:manage");
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newWarehouse, setNewWarehouse] = useState({ name: "", address: "" });
+  // New bin codes being typed, per warehouse
+  const [newCodes, setNewCodes] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (isAuthenticated && canManageLocations) {
+      fetchWarehouses();
+    } else {
+      setLoading(false);
+    }
+  }, [isAuthenticated, canManageLocations]);
+
+  const fetchWarehouses = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setWarehouses(await warehouseService.getWarehouses(true));
+    } catch (err) {
+      setError("Failed to load warehouses. Please try again.");
+      console.error("Error fetching warehouses:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Run a change and reload, showing the API's message when it is refused
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    setError(null);
+    try {
+      await action();
+      await fetchWarehouses();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+      console.error(`${failure}:`, err);
+    }
+  };
+
+  const handleAddWarehouse = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newWarehouse.name.trim()) return;
+
+    await runAction(
+      () =>
+        warehouseService.createWarehouse({
+          name: newWarehouse.name.trim(),
+          address: newWarehouse.address.trim() || null,
+        }),
+      "Failed to add warehouse"
+    );
+    setNewWarehouse({ name: "", address: "" });
+  };
+
+  const handleAddLocation = async (warehouse: Warehouse) => {
+    const code = (newCodes[warehouse.id] || "").trim();
+    if (!code) return;
+
+    await runAction(
+      () =>
+        warehouseService.createLocation(warehouse.id, {
+          code,
+          description: null,
+          is_default: false,
+        }),
+      "Failed to add location"
+    );
+    setNewCodes({ ...newCodes, [warehouse.id]: "" });
+  };
+
+  const handleDeleteWarehouse = (warehouse: Warehouse) => {
+    if (!window.confirm(`Delete the warehouse "${warehouse.name}"?`)) return;
+    runAction(
+      () => warehouseService.deleteWarehouse(warehouse.id),
+      "Failed to delete warehouse"
+    );
+  };
+
+  const handleDeleteLocation = (warehouse: Warehouse, location: StockLocation) => {
+    if (!window.confirm(`Delete the location "${warehouse.name} / ${location.code}"?`)) {
+      return;
+    }
+    runAction(
+      () => warehouseService.deleteLocation(location.id),
+      "Failed to delete location"
+    );
+  };
+
+  if (!isAuthenticated || !canManageLocations) {
+    return (
+      <MainLayout>
+        <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          <Alert variant="error" title="Access Denied">
+            You do not have permission to manage warehouses.
+          </Alert>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <div className="mb-6">
+        <div className="flex items-center">
+          <WarehouseIcon className="h-6 w-6 text-blue-600 mr-2" />
+          <h1 className="text-2xl font-bold text-gray-900">Warehouses</h1>
+        </div>
+        <p className="mt-1 text-gray-600">
+          Where stock is kept, down to the bin. Stock without a location given
+          goes to the default bin.
+        </p>
+      </div>
+
+      {error && (
+        <Alert
+          variant="error"
+          title="Error"
+          onDismiss={() => setError(null)}
+          className="mb-6"
+        >
+          {error}
+        </Alert>
+      )}
+
+      <form
+        onSubmit={handleAddWarehouse}
+        className="mb-6 bg-white p-4 rounded-lg shadow-sm border border-gray-200 grid grid-cols-1 md:grid-cols-3 gap-4 items-end"
+      >
+        <Input
+          label="Warehouse name"
+          value={newWarehouse.name}
+          onChange={(e) =>
+            setNewWarehouse({ ...newWarehouse, name: e.target.value })
+          }
+          required
+        />
+        <Input
+          label="Address (optional)"
+          value={newWarehouse.address}
+          onChange={(e) =>
+            setNewWarehouse({ ...newWarehouse, address: e.target.value })
+          }
+        />
+        <div className="mb-4">
+          <Button
+            variant="primary"
+            type="submit"
+            icon={<Plus className="h-4 w-4" />}
+          >
+            Add Warehouse
+          </Button>
+        </div>
+      </form>
+
+      {loading ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
+          <WarehouseIcon className="h-12 w-12 text-gray-400 mx-auto animate-pulse" />
+          <h3 className="mt-4 text-lg font-medium text-gray-900">
+            Loading warehouses...
+          </h3>
+        </div>
+      ) : warehouses.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow-sm border border-gray-200">
+          <WarehouseIcon className="h-12 w-12 text-gray-400 mx-auto" />
+          <h3 className="mt-4 text-lg font-medium text-gray-900">
+            No warehouses
+          </h3>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {warehouses.map((warehouse) => (
+            <div
+              key={warehouse.id}
+              className="bg-white shadow overflow-hidden sm:rounded-md"
+            >
+              <div className="px-4 py-4 sm:px-6 flex items-center justify-between border-b border-gray-200">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-lg font-medium text-gray-900">
+                      {warehouse.name}
+                    </span>
+                    {!warehouse.is_active && (
+                      <Badge variant="default">Closed</Badge>
+                    )}
+                  </div>
+                  {warehouse.address && (
+                    <div className="mt-1 text-sm text-gray-500">
+                      {warehouse.address}
+                    </div>
+                  )}
+                </div>
+                <div className="ml-4 flex-shrink-0 flex">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      runAction(
+                        () =>
+                          warehouseService.updateWarehouse(warehouse.id, {
+                            is_active: !warehouse.is_active,
+                          }),
+                        "Failed to update warehouse"
+                      )
+                    }
+                    icon={<Power className="h-4 w-4" />}
+                  >
+                    {warehouse.is_active ? "Close" : "Reopen"}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDeleteWarehouse(warehouse)}
+                    icon={<Trash2 className="h-4 w-4" />}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </div>
+
+              <ul className="divide-y divide-gray-200">
+                {warehouse.locations.map((location) => (
+                  <li
+                    key={location.id}
+                    className="px-4 py-3 sm:px-6 flex items-center justify-between"
+                  >
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm font-medium text-gray-900">
+                        {location.code}
+                      </span>
+                      {location.is_default && (
+                        <Badge variant="primary">Default</Badge>
+                      )}
+                      <span className="text-sm text-gray-500">
+                        {location.quantity} in stock
+                      </span>
+                    </div>
+                    <div className="ml-4 flex-shrink-0 flex">
+                      {!location.is_default && warehouse.is_active && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            runAction(
+                              () =>
+                                warehouseService.updateLocation(location.id, {
+                                  is_default: true,
+                                }),
+                              "Failed to update location"
+                            )
+                          }
+                          icon={<Star className="h-4 w-4" />}
+                        >
+                          Make Default
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteLocation(warehouse, location)}
+                        icon={<Trash2 className="h-4 w-4" />}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+                {warehouse.is_active && (
+                  <li className="px-4 py-3 sm:px-6 flex items-center space-x-3">
+                    <input
+                      type="text"
+                      placeholder="New bin code, e.g. A-01"
+                      value={newCodes[warehouse.id] || ""}
+                      onChange={(e) =>
+                        setNewCodes({ ...newCodes, [warehouse.id]: e.target.value })
+                      }
+                      className="block w-full max-w-xs rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleAddLocation(warehouse)}
+                      icon={<Plus className="h-4 w-4" />}
+                    >
+                      Add Bin
+                    </Button>
+                  </li>
+                )}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </MainLayout>
+  );
+};
+
+export default WarehousesPage;
@@ -4,8 +4,11 @@ import {
   Routes,
   Route,
   Navigate,
+  useLocation,
 } from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext";
+import { usePermission } from "../hooks/usePermission";
+import { Permission } from "../types";
 
 // Import pages
 import HomePage from "../pages/HomePage";
@@ -19,27 +22,39 @@ import NewRequestPage from "../pages/NewRequestPage";
 import InventoryPage from "../pages/InventoryPage";
 import BrowseItemsPage from "../pages/BrowseItemsPage";
 import UsersPage from "../pages/UsersPage";
+import ApprovalRulesPage from "../pages/ApprovalRulesPage";
+import WarehousesPage from "../pages/WarehousesPage";
+import StockCountsPage from "../pages/StockCountsPage";
+import StockCountDetailPage from "../pages/StockCountDetailPage";
+import PurchaseOrdersPage from "../pages/PurchaseOrdersPage";
+import PurchaseOrderDetailPage from "../pages/PurchaseOrderDetailPage";
+import SuppliersPage from "../pages/SuppliersPage";
 import LoansPage from "../pages/LoansPage";
 import MonthlyReportPage from "../pages/MonthlyReportPage";
+import ValuationReportPage from "../pages/ValuationReportPage";
+import ScanPage from "../pages/ScanPage";
 // ChatPage removed
 
 // Protected route component
 const ProtectedRoute: React.FC<{
   element: React.ReactElement;
-  requireAdmin?: boolean;
-  requireManager?: boolean;
-}> = ({ element, requireAdmin = false, requireManager = false }) => {
-  const { user, isAuthenticated, isAdmin } = useAuth();
+  permission?: Permission;
+}> = ({ element, permission }) => {
+  const { isAuthenticated, sessionExpired } = useAuth();
+  const can = usePermission();
+  const location = useLocation();
 
   if (!isAuthenticated) {
-    return <Navigate to="/login" replace />;
+    return (
+      <Navigate
+        to="/login"
+        replace
+        state={{ from: location.pathname, sessionExpired }}
+      />
+    );
   }
 
-  if (requireAdmin && !isAdmin) {
-    return <Navigate to="/" replace />;
-  }
-
-  if (requireManager && user?.role !== "manager") {
+  if (permission && !can(permission)) {
     return <Navigate to="/" replace />;
   }
 
@@ -84,16 +99,63 @@ const AppRouter: React.FC = () => {
           element={<ProtectedRoute element={<RequestDetailPage />} />}
         />
 
+        <Route
+          path="/scan"
+          element={<ProtectedRoute element={<ScanPage />} />}
+        />
+
         <Route
           path="/inventory"
           element={
-            <ProtectedRoute element={<InventoryPage />} requireAdmin={true} />
+            <ProtectedRoute element={<InventoryPage />} permission="items:write" />
           }
         />
         <Route
           path="/users"
           element={
-            <ProtectedRoute element={<UsersPage />} requireManager={true} />
+            <ProtectedRoute element={<UsersPage />} permission="users:manage" />
+          }
+        />
+        <Route
+          path="/approval-rules"
+          element={
+            <ProtectedRoute element={<ApprovalRulesPage />} permission="approvals:manage" />
+          }
+        />
+        <Route
+          path="/warehouses"
+          element={
+            <ProtectedRoute element={<WarehousesPage />} permission="locations:manage" />
+          }
+        />
+        <Route
+          path="/stock-counts"
+          element={
+            <ProtectedRoute element={<StockCountsPage />} permission="stock:count" />
+          }
+        />
+        <Route
+          path="/stock-counts/:id"
+          element={
+            <ProtectedRoute element={<StockCountDetailPage />} permission="stock:count" />
+          }
+        />
+        <Route
+          path="/purchase-orders"
+          element={
+            <ProtectedRoute element={<PurchaseOrdersPage />} permission="purchasing:manage" />
+          }
+        />
+        <Route
+          path="/purchase-orders/:id"
+          element={
+            <ProtectedRoute element={<PurchaseOrderDetailPage />} permission="purchasing:manage" />
+          }
+        />
+        <Route
+          path="/suppliers"
+          element={
+            <ProtectedRoute element={<SuppliersPage />} permission="purchasing:manage" />
           }
         />
         <Route
@@ -103,7 +165,13 @@ const AppRouter: React.FC = () => {
         <Route
           path="/reports/monthly"
           element={
-            <ProtectedRoute element={<MonthlyReportPage />} requireAdmin={true} />
+            <ProtectedRoute element={<MonthlyReportPage />} permission="reports:view" />
+          }
+        />
+        <Route
+          path="/reports/valuation"
+          element={
+            <ProtectedRoute element={<ValuationReportPage />} permission="reports:view" />
           }
         />
         {/* Chat route removed */}
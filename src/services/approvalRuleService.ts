@@ -0,0 +1,88 @@
+import { ApprovalRule } from "../types";
+import { API_BASE_URL } from "../config";
+import { authFetch, getErrorMessage } from "../utils/authFetch";
+
+export type ApprovalRuleInput = Omit<ApprovalRule, "id" | "approver_name">;
+
+// An approval rule as stored by the API, with numeric ids and is_active as 0/1
+type ApiApprovalRule = Omit<ApprovalRule, "id" | "approver_id" | "is_active"> & {
+  id: number | string;
+  approver_id: number | string | null;
+  is_active: number | boolean;
+};
+
+class ApprovalRuleService {
+  private apiUrl = `${API_BASE_URL}/approval-rules`;
+
+  async getAllRules(): Promise<ApprovalRule[]> {
+    const response = await authFetch(this.apiUrl);
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    const rules: ApiApprovalRule[] = await response.json();
+    return rules.map((rule) => this.mapApiRule(rule));
+  }
+
+  async createRule(rule: ApprovalRuleInput): Promise<ApprovalRule> {
+    const response = await authFetch(this.apiUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(this.toApiRule(rule)),
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return this.mapApiRule(await response.json());
+  }
+
+  async updateRule(
+    id: string,
+    updates: Partial<ApprovalRuleInput>
+  ): Promise<ApprovalRule> {
+    const response = await authFetch(`${this.apiUrl}/${id}`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(this.toApiRule(updates)),
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return this.mapApiRule(await response.json());
+  }
+
+  async deleteRule(id: string): Promise<void> {
+    const response = await authFetch(`${this.apiUrl}/${id}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+  }
+
+  private mapApiRule(rule: ApiApprovalRule): ApprovalRule {
+    return {
+      ...rule,
+      id: rule.id.toString(),
+      approver_id: rule.approver_id?.toString() ?? null,
+      min_quantity: rule.min_quantity ?? null,
+      min_value: rule.min_value !== null ? Number(rule.min_value) : null,
+      is_active: Boolean(rule.is_active),
+    };
+  }
+
+  private toApiRule(rule: Partial<ApprovalRuleInput>) {
+    return {
+      ...rule,
+      is_active: rule.is_active === undefined ? undefined : rule.is_active ? 1 : 0,
+    };
+  }
+}
+
+export const approvalRuleService = new ApprovalRuleService();
@@ -0,0 +1,122 @@
+import { API_BASE_URL } from "../config";
+import { authFetch, getErrorMessage } from "../utils/authFetch";
+import { Loan } from "./loanService";
+
+// on_loan is set by checking loans out and in; staff set the others
+export type AssetUnitStatus = 'available' | 'on_loan' | 'maintenance' | 'retired' | 'lost';
+
+// A serial-numbered unit of a borrowable item
+export interface AssetUnit {
+  id: string;
+  itemId: string;
+  serialNumber: string;
+  status: AssetUnitStatus;
+  purchaseDate?: string | null; // YYYY-MM-DD
+  warrantyExpires?: string | null; // YYYY-MM-DD
+  notes?: string | null;
+  // The loan the unit is out on, and who holds it
+  loanId?: string | null;
+  holderId?: string | null;
+  holderName?: string | null;
+  loanDueDate?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AssetUnitRequest {
+  serialNumber?: string;
+  status?: Exclude<AssetUnitStatus, 'on_loan'>;
+  purchaseDate?: string;
+  warrantyExpires?: string;
+  notes?: string;
+}
+
+// Every loan a unit went out on, newest first
+export interface AssetUnitHistory {
+  unit: AssetUnit;
+  loans: Loan[];
+}
+
+class AssetService {
+  private debug = (message: string, ...args: unknown[]) => {
+    console.log(`[AssetService] ${message}`, ...args);
+  };
+
+  private getUnitsUrl(itemId: string) {
+    return `${API_BASE_URL}/items/${itemId}/assets`;
+  }
+
+  async getUnits(itemId: string): Promise<AssetUnit[]> {
+    const response = await authFetch(this.getUnitsUrl(itemId));
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+
+  async createUnit(itemId: string, unit: AssetUnitRequest): Promise<AssetUnit> {
+    this.debug("Creating asset unit:", itemId, unit.serialNumber);
+
+    const response = await authFetch(this.getUnitsUrl(itemId), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(this.toRequestBody(unit)),
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+
+  async updateUnit(itemId: string, unitId: string, unit: AssetUnitRequest): Promise<AssetUnit> {
+    this.debug("Updating asset unit:", unitId, unit);
+
+    const response = await authFetch(`${this.getUnitsUrl(itemId)}/${unitId}`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(this.toRequestBody(unit)),
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+
+  // Only units that have never been on loan can be deleted
+  async deleteUnit(itemId: string, unitId: string): Promise<void> {
+    const response = await authFetch(`${this.getUnitsUrl(itemId)}/${unitId}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+  }
+
+  async getUnitHistory(itemId: string, unitId: string): Promise<AssetUnitHistory> {
+    const response = await authFetch(`${this.getUnitsUrl(itemId)}/${unitId}/history`);
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+
+  private toRequestBody(unit: AssetUnitRequest) {
+    return {
+      serial_number: unit.serialNumber,
+      status: unit.status,
+      purchase_date: unit.purchaseDate,
+      warranty_expires: unit.warrantyExpires,
+      notes: unit.notes,
+    };
+  }
+}
+
+export const assetService = new AssetService();
@@ -0,0 +1,95 @@
+import { RequestAttachment } from "../types";
+import { API_BASE_URL } from "../config";
+import { authFetch, getErrorMessage } from "../utils/authFetch";
+
+// An attachment as returned by the API, with numeric ids
+type ApiRequestAttachment = Omit<
+  RequestAttachment,
+  "id" | "request_id" | "uploaded_by"
+> & {
+  id: number | string;
+  request_id: number | string;
+  uploaded_by: number | string | null;
+};
+
+class AttachmentService {
+  private getAttachmentsUrl(requestId: string) {
+    return `${API_BASE_URL}/requests/${requestId}/attachments`;
+  }
+
+  async uploadAttachments(
+    requestId: string,
+    files: File[]
+  ): Promise<RequestAttachment[]> {
+    const formData = new FormData();
+    files.forEach((file) => formData.append("attachments", file));
+
+    // The browser sets the multipart Content-Type with its boundary
+    const response = await authFetch(this.getAttachmentsUrl(requestId), {
+      method: "POST",
+      body: formData,
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    const attachments: ApiRequestAttachment[] = await response.json();
+    return attachments.map((attachment) => this.mapApiAttachment(attachment));
+  }
+
+  /**
+   * Fetch an attachment's contents as an object URL. Downloads need the
+   * access token, so they cannot be plain links. Revoke the URL when done.
+   */
+  async getAttachmentUrl(
+    attachment: RequestAttachment,
+    inline = false
+  ): Promise<string> {
+    const response = await authFetch(
+      `${this.getAttachmentsUrl(attachment.request_id)}/${attachment.id}/download${
+        inline ? "?inline=true" : ""
+      }`
+    );
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return URL.createObjectURL(await response.blob());
+  }
+
+  async downloadAttachment(attachment: RequestAttachment): Promise<void> {
+    const url = await this.getAttachmentUrl(attachment);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = attachment.file_name;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  }
+
+  async deleteAttachment(attachment: RequestAttachment): Promise<void> {
+    const response = await authFetch(
+      `${this.getAttachmentsUrl(attachment.request_id)}/${attachment.id}`,
+      {
+        method: "DELETE",
+      }
+    );
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+  }
+
+  // Also used by requestService for the attachments listed with a request
+  mapApiAttachment(attachment: ApiRequestAttachment): RequestAttachment {
+    return {
+      ...attachment,
+      id: attachment.id.toString(),
+      request_id: attachment.request_id.toString(),
+      uploaded_by: attachment.uploaded_by?.toString() ?? null,
+      size: Number(attachment.size),
+    };
+  }
+}
+
+export const attachmentService = new AttachmentService();
@@ -1,4 +1,5 @@
 import { API_BASE_URL } from "../config";
+import { authFetch } from "../utils/authFetch";
 
 export interface Category {
   id: string;
@@ -13,7 +14,7 @@ class CategoryService {
 
   async getAllCategories(): Promise<Category[]> {
     try {
-      const response = await fetch(this.apiUrl);
+      const response = await authFetch(this.apiUrl);
       if (!response.ok) {
         throw new Error(`Failed to fetch categories: ${response.statusText}`);
       }
@@ -45,7 +46,7 @@ class CategoryService {
       // Attempt to log more details if it's a 500
       if (error instanceof Error && error.message.includes('500')) {
         try {
-          const response = await fetch(this.apiUrl);
+          const response = await authFetch(this.apiUrl);
           const errorText = await response.text();
           console.error("Detailed 500 Response:", errorText);
         } catch (e) {
@@ -76,7 +77,7 @@ class CategoryService {
 
   async getCategoryOptions(): Promise<{ value: string; label: string }[]> {
     try {
-      const response = await fetch(this.apiUrl);
+      const response = await authFetch(this.apiUrl);
       if (!response.ok) {
         throw new Error(`Failed to fetch categories: ${response.statusText}`);
       }
@@ -120,7 +121,7 @@ class CategoryService {
 
   async getCategoryById(id: string): Promise<Category> {
     try {
-      const response = await fetch(`${this.apiUrl}/${id}`);
+      const response = await authFetch(`${this.apiUrl}/${id}`);
       if (!response.ok) {
         throw new Error(`Failed to fetch category: ${response.statusText}`);
       }
@@ -133,7 +134,7 @@ class CategoryService {
 
   async createCategory(category: Omit<Category, "id">): Promise<Category> {
     try {
-      const response = await fetch(this.apiUrl, {
+      const response = await authFetch(this.apiUrl, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -157,7 +158,7 @@ class CategoryService {
     category: Partial<Omit<Category, "id">>
   ): Promise<Category> {
     try {
-      const response = await fetch(`${this.apiUrl}/${id}`, {
+      const response = await authFetch(`${this.apiUrl}/${id}`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
@@ -178,7 +179,7 @@ class CategoryService {
 
   async deleteCategory(id: string): Promise<void> {
     try {
-      const response = await fetch(`${this.apiUrl}/${id}`, {
+      const response = await authFetch(`${this.apiUrl}/${id}`, {
         method: "DELETE",
       });
 
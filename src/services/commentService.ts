@@ -0,0 +1,106 @@
+import { RequestComment, RequestParticipant } from "../types";
+import { API_BASE_URL } from "../config";
+import { authFetch, getErrorMessage } from "../utils/authFetch";
+
+// A comment as returned by the API, with numeric ids
+type ApiRequestComment = Omit<
+  RequestComment,
+  "id" | "request_id" | "parent_id" | "user_id"
+> & {
+  id: number | string;
+  request_id: number | string;
+  parent_id: number | string | null;
+  user_id: number | string | null;
+};
+
+class CommentService {
+  private getCommentsUrl(requestId: string) {
+    return `${API_BASE_URL}/requests/${requestId}/comments`;
+  }
+
+  async getComments(requestId: string): Promise<RequestComment[]> {
+    const response = await authFetch(this.getCommentsUrl(requestId));
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    const comments: ApiRequestComment[] = await response.json();
+    return comments.map((comment) => this.mapApiComment(comment));
+  }
+
+  async getParticipants(requestId: string): Promise<RequestParticipant[]> {
+    const response = await authFetch(
+      `${API_BASE_URL}/requests/${requestId}/participants`
+    );
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+
+  async addComment(
+    requestId: string,
+    body: string,
+    parentId?: string
+  ): Promise<RequestComment> {
+    const response = await authFetch(this.getCommentsUrl(requestId), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ body, parent_id: parentId }),
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return this.mapApiComment(await response.json());
+  }
+
+  async updateComment(
+    requestId: string,
+    commentId: string,
+    body: string
+  ): Promise<RequestComment> {
+    const response = await authFetch(
+      `${this.getCommentsUrl(requestId)}/${commentId}`,
+      {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ body }),
+      }
+    );
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return this.mapApiComment(await response.json());
+  }
+
+  async deleteComment(requestId: string, commentId: string): Promise<void> {
+    const response = await authFetch(
+      `${this.getCommentsUrl(requestId)}/${commentId}`,
+      {
+        method: "DELETE",
+      }
+    );
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+  }
+
+  private mapApiComment(comment: ApiRequestComment): RequestComment {
+    return {
+      ...comment,
+      id: comment.id.toString(),
+      request_id: comment.request_id.toString(),
+      parent_id: comment.parent_id?.toString() ?? null,
+      user_id: comment.user_id?.toString() ?? null,
+    };
+  }
+}
+
+export const commentService = new CommentService();
@@ -1,4 +1,5 @@
 import { API_BASE_URL } from "../config";
+import { authFetch } from "../utils/authFetch";
 
 const API_URL = API_BASE_URL; // Use config for environment-specific URLs
 
@@ -86,7 +87,7 @@ class DashboardService {
   async getDashboardStats(): Promise<DashboardStats> {
     try {
       console.log("Fetching dashboard statistics from API...");
-      const response = await fetch(`${API_URL}/dashboard/stats`);
+      const response = await authFetch(`${API_URL}/dashboard/stats`);
 
       if (!response.ok) {
         throw new Error(`HTTP error! Status: ${response.status}`);
@@ -108,7 +109,7 @@ class DashboardService {
    */
   async getUserStats(): Promise<{ totalUsers: number; usersByRole: any }> {
     try {
-      const response = await fetch(`${API_URL}/dashboard/users`);
+      const response = await authFetch(`${API_URL}/dashboard/users`);
       if (!response.ok) throw new Error(`HTTP error! Status: ${response.status}`);
       return await response.json();
     } catch (error) {
@@ -122,7 +123,7 @@ class DashboardService {
    */
   async getItemStats(): Promise<{ totalItems: number; totalQuantity: number; lowStockItems: number; totalCategories: number }> {
     try {
-      const response = await fetch(`${API_URL}/dashboard/items`);
+      const response = await authFetch(`${API_URL}/dashboard/items`);
       if (!response.ok) throw new Error(`HTTP error! Status: ${response.status}`);
       return await response.json();
     } catch (error) {
@@ -136,7 +137,7 @@ class DashboardService {
    */
   async getRequestStats(): Promise<{ totalRequests: number; requestsByStatus: any; recentRequests: number }> {
     try {
-      const response = await fetch(`${API_URL}/dashboard/requests`);
+      const response = await authFetch(`${API_URL}/dashboard/requests`);
       if (!response.ok) throw new Error(`HTTP error! Status: ${response.status}`);
       return await response.json();
     } catch (error) {
@@ -154,7 +155,7 @@ class DashboardService {
    */
   async getTopRequestedItems(): Promise<Array<{ name: string; totalRequested: number }>> {
     try {
-      const response = await fetch(`${API_URL}/dashboard/top-items`);
+      const response = await authFetch(`${API_URL}/dashboard/top-items`);
       if (!response.ok) throw new Error(`HTTP error! Status: ${response.status}`);
       return await response.json();
     } catch (error) {
@@ -168,7 +169,7 @@ class DashboardService {
    */
   async getRecentActivity(): Promise<Array<any>> {
     try {
-      const response = await fetch(`${API_URL}/dashboard/activity`);
+      const response = await authFetch(`${API_URL}/dashboard/activity`);
       if (!response.ok) throw new Error(`HTTP error! Status: ${response.status}`);
       return await response.json();
     } catch (error) {
@@ -183,7 +184,7 @@ class DashboardService {
   async getUserDashboardStats(userId: string): Promise<UserDashboardStats> {
     try {
       console.log(`Fetching user dashboard statistics for user ${userId}...`);
-      const response = await fetch(`${API_URL}/dashboard/user/${userId}`);
+      const response = await authFetch(`${API_URL}/dashboard/user/${userId}`);
 
       if (!response.ok) {
         throw new Error(`HTTP error! Status: ${response.status}`);
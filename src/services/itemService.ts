@@ -1,5 +1,16 @@
-import { Item, ItemCategory } from "../types";
-import { API_BASE_URL } from "../config";
+import {
+  Item,
+  ItemCategory,
+  ItemLocationStock,
+  ItemQuery,
+  PaginatedItems,
+  ReorderSuggestion,
+  StockMovementResult,
+  StockMovementType,
+  UnitConversion,
+} from "../types";
+import { API_BASE_URL, DEFAULT_PAGE, DEFAULT_PAGE_SIZE } from "../config";
+import { authFetch, getErrorMessage } from "../utils/authFetch";
 
 // API base URL - use config for environment-specific URLs
 const API_URL = API_BASE_URL;
@@ -7,6 +18,23 @@ const API_URL = API_BASE_URL;
 // Enable debug mode
 const DEBUG = true;
 
+// An item as returned by the API, before validation
+type ApiItem = Partial<Omit<Item, "id">> & { id?: string | number };
+
+export interface StockMovementOptions {
+  reason?: string;
+  // Location the stock is received at or taken from; the default location
+  // when not given
+  locationId?: string;
+  // Fail instead of moving the stock if it is no longer this quantity
+  expectedQuantity?: number;
+  // Unit the quantity is in, when not the item's own unit
+  unit?: string;
+  // What one of that unit cost, for stock coming in; the item's average
+  // cost when not given
+  unitCost?: number;
+}
+
 class ItemService {
   // Helper method to log debug messages
   private debug(message: string, ...args: any[]) {
@@ -20,7 +48,7 @@ class ItemService {
       this.debug("Fetching all items from API...");
       this.debug("API URL:", `${API_URL}/items`);
 
-      const response = await fetch(`${API_URL}/items`);
+      const response = await authFetch(`${API_URL}/items`);
       this.debug("Response status:", response.status);
 
       if (!response.ok) {
@@ -32,25 +60,7 @@ class ItemService {
       this.debug(`Received ${items.length} items from API:`, items);
 
       // Ensure all items have the required properties
-      const validatedItems = items.map((item: any) => {
-        this.debug("Processing item:", item);
-        return {
-          id: item.id?.toString() || "0",
-          name: item.name || "Unknown Item",
-          description: item.description || "",
-          category: this.validateCategory(item.category),
-          quantity: typeof item.quantity === "number" ? item.quantity : 0,
-          minQuantity:
-            typeof item.minQuantity === "number" ? item.minQuantity : 0,
-          status: this.validateStatus(
-            item.status,
-            item.quantity,
-            item.minQuantity
-          ),
-          lastRestocked: item.lastRestocked,
-          price: item.price,
-        };
-      });
+      const validatedItems = items.map((item: ApiItem) => this.mapApiItem(item));
 
       this.debug("Returning validated items:", validatedItems);
       return validatedItems;
@@ -60,6 +70,94 @@ class ItemService {
     }
   }
 
+  // Get one page of items matching the given filters
+  async queryItems(query: ItemQuery = {}): Promise<PaginatedItems> {
+    const params = new URLSearchParams();
+    if (query.search) params.set("search", query.search);
+    if (query.category) params.set("category", query.category);
+    if (query.status) params.set("status", query.status);
+    if (query.lowStock) params.set("low_stock", "true");
+    if (query.warehouse) params.set("warehouse", query.warehouse);
+    if (query.location) params.set("location", query.location);
+    if (query.sort) params.set("sort", query.sort);
+    if (query.order) params.set("order", query.order);
+    params.set("page", (query.page || DEFAULT_PAGE).toString());
+    params.set("page_size", (query.pageSize || DEFAULT_PAGE_SIZE).toString());
+
+    this.debug("Querying items from API:", params.toString());
+
+    const response = await authFetch(`${API_URL}/items?${params}`);
+    if (!response.ok) {
+      throw new Error(`HTTP error! Status: ${response.status}`);
+    }
+
+    const { data, pagination } = await response.json();
+
+    return {
+      items: data.map((item: ApiItem) => this.mapApiItem(item)),
+      page: pagination.page,
+      pageSize: pagination.pageSize,
+      total: pagination.total,
+      totalPages: pagination.totalPages,
+    };
+  }
+
+  // Look up items by name, SKU or barcode for typeahead pickers
+  async searchItems(
+    term: string,
+    options: { limit?: number; inStockOnly?: boolean } = {}
+  ): Promise<Item[]> {
+    const params = new URLSearchParams({ q: term });
+    if (options.limit) params.set("limit", options.limit.toString());
+    if (options.inStockOnly) params.set("in_stock", "true");
+
+    const response = await authFetch(`${API_URL}/items/search?${params}`);
+    if (!response.ok) {
+      throw new Error(`HTTP error! Status: ${response.status}`);
+    }
+
+    const items = await response.json();
+    return items.map((item: ApiItem) => this.mapApiItem(item));
+  }
+
+  // Find the item a scanned barcode, SKU or label code belongs to; null when
+  // no item has it
+  async findItemByCode(code: string): Promise<Item | null> {
+    const params = new URLSearchParams({ code });
+    const response = await authFetch(`${API_URL}/items/lookup?${params}`);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+    return this.mapApiItem(await response.json());
+  }
+
+  // Helper method to map an API item to the Item type
+  private mapApiItem(item: ApiItem): Item {
+    return {
+      id: item.id?.toString() || "0",
+      name: item.name || "Unknown Item",
+      description: item.description || "",
+      category: this.validateCategory(item.category),
+      quantity: typeof item.quantity === "number" ? item.quantity : 0,
+      minQuantity: typeof item.minQuantity === "number" ? item.minQuantity : 0,
+      status: this.validateStatus(item.status, item.quantity, item.minQuantity),
+      lastRestocked: item.lastRestocked,
+      price: item.price,
+      unit: item.unit || "pcs",
+      sku: item.sku ?? null,
+      barcode: item.barcode ?? null,
+      variantAttributes: item.variantAttributes ?? {},
+      unitConversions: (item.unitConversions ?? []).map((conversion) => ({
+        unit: conversion.unit,
+        factor: Number(conversion.factor),
+      })),
+      locations: item.locations ?? [],
+    };
+  }
+
   // Helper method to validate category
   private validateCategory(category: any): ItemCategory {
     // Since we've updated ItemCategory to be a string type,
@@ -101,7 +199,7 @@ class ItemService {
   // Get a single item by ID
   async getItemById(id: string): Promise<Item | null> {
     try {
-      const response = await fetch(`${API_URL}/items/${id}`);
+      const response = await authFetch(`${API_URL}/items/${id}`);
       if (!response.ok) {
         if (response.status === 404) {
           return null;
@@ -116,59 +214,188 @@ class ItemService {
     }
   }
 
-  // Create a new item
-  async createItem(item: Omit<Item, "id" | "status">): Promise<Item | null> {
-    try {
-      const response = await fetch(`${API_URL}/items`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(item),
-      });
+  // Create a new item, with its initial stock at the given location or the
+  // default one. Throws the API's message, e.g. when the SKU or barcode is
+  // already taken.
+  async createItem(
+    item: Omit<Item, "id" | "status">,
+    locationId?: string
+  ): Promise<Item> {
+    const response = await authFetch(`${API_URL}/items`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ ...item, location_id: locationId }),
+    });
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! Status: ${response.status}`);
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return this.mapApiItem(await response.json());
+  }
+
+  // Update an existing item; null when it no longer exists. Other failures,
+  // such as a SKU or barcode that is taken, throw the API's message. Its
+  // quantity is changed with stock movements instead.
+  async updateItem(id: string, updates: Omit<Partial<Item>, "quantity">): Promise<Item | null> {
+    const response = await authFetch(`${API_URL}/items/${id}`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(updates),
+    });
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        return null;
       }
+      throw new Error(await getErrorMessage(response));
+    }
 
-      const newItem = await response.json();
-      return newItem;
-    } catch (error) {
-      console.error("Error creating item:", error);
-      return null;
+    const updatedItem = await response.json();
+    return updatedItem;
+  }
+
+  // Add received stock, e.g. a delivery from a supplier
+  receiveStock(id: string, quantity: number, options: StockMovementOptions = {}) {
+    return this.moveStock(id, "receive", Math.abs(quantity), options);
+  }
+
+  // Take stock out, e.g. for internal use
+  issueStock(id: string, quantity: number, options: StockMovementOptions = {}) {
+    return this.moveStock(id, "issue", -Math.abs(quantity), options);
+  }
+
+  // Correct the stock by a signed delta, e.g. after a count
+  adjustStock(id: string, delta: number, options: StockMovementOptions = {}) {
+    return this.moveStock(id, "adjustment", delta, options);
+  }
+
+  // Move stock of an item between two locations; returns where the item's
+  // stock is afterwards
+  async transferStock(
+    id: string,
+    fromLocationId: string,
+    toLocationId: string,
+    quantity: number,
+    reason?: string
+  ): Promise<ItemLocationStock[]> {
+    const response = await authFetch(`${API_URL}/items/${id}/transfers`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from_location_id: fromLocationId,
+        to_location_id: toLocationId,
+        quantity,
+        reason,
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
     }
+
+    const result = await response.json();
+    return result.locations;
   }
 
-  // Update an existing item
-  async updateItem(id: string, updates: Partial<Item> & { historyNotes?: string, userId?: string }): Promise<Item | null> {
-    try {
-      const response = await fetch(`${API_URL}/items/${id}`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(updates),
-      });
+  // Replace the other units an item can be counted in; returns them as saved
+  async setUnitConversions(
+    id: string,
+    conversions: UnitConversion[]
+  ): Promise<UnitConversion[]> {
+    const response = await authFetch(`${API_URL}/items/${id}/units`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ conversions }),
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
 
-      if (!response.ok) {
-        if (response.status === 404) {
-          return null;
-        }
-        throw new Error(`HTTP error! Status: ${response.status}`);
-      }
+    const result = await response.json();
+    return result.conversions;
+  }
 
-      const updatedItem = await response.json();
-      return updatedItem;
-    } catch (error) {
-      console.error(`Error updating item with id ${id}:`, error);
-      return null;
+  // Reorder suggestions for the given items, or every active item
+  async getReorderSuggestions(itemIds: string[] = []): Promise<ReorderSuggestion[]> {
+    const params = new URLSearchParams();
+    if (itemIds.length > 0) {
+      params.set("item_ids", itemIds.join(","));
+    }
+    const query = params.toString();
+    const response = await authFetch(
+      `${API_URL}/items/reorder-suggestions${query ? `?${query}` : ""}`
+    );
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
     }
+    return response.json();
+  }
+
+  // Make the suggested reorder points the items' minimum quantities; returns
+  // the new minimum of each item that changed
+  async acceptReorderSuggestions(
+    itemIds: string[]
+  ): Promise<{ item_id: string; min_quantity: number }[]> {
+    const response = await authFetch(`${API_URL}/items/reorder-suggestions/accept`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ item_ids: itemIds }),
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    const result = await response.json();
+    return result.updated;
+  }
+
+  // Apply a stock movement on the server, which computes the new quantity
+  private async moveStock(
+    id: string,
+    type: StockMovementType,
+    delta: number,
+    { reason, locationId, expectedQuantity, unit, unitCost }: StockMovementOptions
+  ): Promise<StockMovementResult> {
+    const response = await authFetch(`${API_URL}/items/${id}/stock-movements`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        type,
+        delta,
+        reason,
+        location_id: locationId,
+        expected_quantity: expectedQuantity,
+        unit,
+        unit_cost: unitCost,
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    const result = await response.json();
+    return {
+      movement: result.movement,
+      item: this.mapApiItem(result.item),
+    };
   }
 
   // Delete an item
   async deleteItem(id: string): Promise<boolean> {
     try {
-      const response = await fetch(`${API_URL}/items/${id}`, {
+      const response = await authFetch(`${API_URL}/items/${id}`, {
         method: "DELETE",
       });
 
@@ -202,7 +429,7 @@ class ItemService {
   async testConnection(): Promise<boolean> {
     try {
       this.debug("Testing database connection...");
-      const response = await fetch(`${API_URL}/test-connection`);
+      const response = await authFetch(`${API_URL}/test-connection`);
 
       if (!response.ok) {
         console.error(`Connection test failed with status: ${response.status}`);
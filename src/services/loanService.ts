@@ -1,18 +1,143 @@
 import { API_BASE_URL } from "../config";
+import { authFetch, getErrorMessage } from "../utils/authFetch";
+
+// requested → approved → checked_out (overdue once past due) → returned,
+// damaged or lost; requests can also be rejected or cancelled
+export type LoanStatus =
+  | 'requested'
+  | 'approved'
+  | 'rejected'
+  | 'cancelled'
+  | 'checked_out'
+  | 'overdue'
+  | 'returned'
+  | 'damaged'
+  | 'lost';
+
+// Equipment can only be checked out good, fair or poor; damaged and lost
+// equipment is written off stock at check-in
+export type LoanCondition = 'good' | 'fair' | 'poor' | 'damaged' | 'lost';
+
+export interface ConditionPhoto {
+  id: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+}
+
+// The condition equipment was in when it was handed out or back
+export interface ConditionReport {
+  id: string;
+  stage: 'check_out' | 'check_in';
+  condition: LoanCondition;
+  notes?: string | null;
+  // Units written off as damaged or lost
+  affectedQuantity: number;
+  recordedBy?: string | null;
+  recordedByName?: string | null;
+  createdAt: string;
+  photos: ConditionPhoto[];
+}
+
+// A borrower's request for a loan to be due later. Approved extensions are
+// the history of a loan's due dates.
+export interface LoanExtension {
+  id: string;
+  requestedBy?: string | null;
+  requestedByName?: string | null;
+  previousDueDate: string; // YYYY-MM-DD
+  requestedDueDate: string; // YYYY-MM-DD
+  reason?: string | null;
+  status: 'pending' | 'approved' | 'rejected';
+  decidedBy?: string | null;
+  decidedByName?: string | null;
+  decidedAt?: string | null;
+  decisionNotes?: string | null;
+  createdAt: string;
+}
+
+// A serial-numbered unit handed over on a loan
+export interface LoanUnit {
+  id: string;
+  serialNumber: string;
+  // Reported damaged or lost at check-in
+  writtenOff: boolean;
+}
 
 export interface Loan {
   id: string;
   userId: string;
   itemId: string;
   itemName: string;
+  itemCategory?: string;
   quantity: number;
-  status: 'active' | 'returned' | 'overdue';
+  status: LoanStatus;
+  // When the loan was requested
   borrowedDate: string;
   dueDate: string;
   returnedDate?: string;
   notes?: string;
   userName?: string;
   userEmail?: string;
+  // The reservation the loan was picked up from
+  reservationId?: string | null;
+  approvedBy?: string | null;
+  approvedByName?: string | null;
+  approvedAt?: string | null;
+  // Why the request was approved, rejected or cancelled
+  decisionNotes?: string | null;
+  checkedOutAt?: string | null;
+  conditionReports: ConditionReport[];
+  extensions: LoanExtension[];
+  units: LoanUnit[];
+}
+
+export type ReservationStatus = 'reserved' | 'picked_up' | 'cancelled' | 'expired';
+
+// Equipment booked for a future date range; picking it up turns it into a loan
+export interface LoanReservation {
+  id: string;
+  itemId: string;
+  itemName: string;
+  userId: string;
+  userName?: string;
+  quantity: number;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, when the loan will be due
+  status: ReservationStatus;
+  notes?: string | null;
+  loanId?: string | null;
+  createdAt: string;
+}
+
+export interface ReservationRequest {
+  itemId: string;
+  quantity: number;
+  startDate: string;
+  endDate: string;
+  notes?: string;
+}
+
+// A loan or reservation holding some of an item over a date range
+export interface ItemBooking {
+  type: 'loan' | 'reservation';
+  id: string;
+  quantity: number;
+  start_date: string;
+  end_date: string;
+  is_mine: boolean;
+  // Only for the caller's own bookings, or staff who manage loans
+  user_name: string | null;
+}
+
+// How much of an item is free on each day of a date range
+export interface ItemAvailability {
+  item_id: string;
+  quantity: number;
+  from: string;
+  to: string;
+  days: Array<{ date: string; booked: number; available: number }>;
+  bookings: ItemBooking[];
 }
 
 export interface BorrowRequest {
@@ -22,9 +147,18 @@ export interface BorrowRequest {
   notes?: string;
 }
 
-export interface ReturnRequest {
-  loanId: string;
+// A condition report made at check-out or check-in
+export interface ConditionReportRequest {
+  condition: LoanCondition;
   notes?: string;
+  photos?: File[];
+  // Check-in of damaged or lost equipment only: how many units to write off
+  // (all of the loan by default) and where from
+  quantity?: number;
+  locationId?: string;
+  // Items with asset units: the units handed out at check-out, or those
+  // written off at check-in (instead of quantity)
+  unitIds?: string[];
 }
 
 class LoanService {
@@ -37,7 +171,7 @@ class LoanService {
     try {
       this.debug("Fetching loans for user:", userId);
 
-      const response = await fetch(`${API_BASE_URL}/api/loans/user/${userId}`);
+      const response = await authFetch(`${API_BASE_URL}/loans/user/${userId}`);
 
       if (!response.ok) {
         throw new Error(`HTTP error! Status: ${response.status}`);
@@ -58,7 +192,7 @@ class LoanService {
     try {
       this.debug("Fetching all loans");
 
-      const response = await fetch(`${API_BASE_URL}/api/loans`);
+      const response = await authFetch(`${API_BASE_URL}/loans`);
 
       if (!response.ok) {
         throw new Error(`HTTP error! Status: ${response.status}`);
@@ -79,7 +213,7 @@ class LoanService {
     try {
       this.debug("Borrowing item:", borrowRequest);
 
-      const response = await fetch(`${API_BASE_URL}/api/loans/borrow`, {
+      const response = await authFetch(`${API_BASE_URL}/loans/borrow`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -114,32 +248,70 @@ class LoanService {
     }
   }
 
-  // Return an item
-  async returnItem(returnRequest: ReturnRequest): Promise<Loan> {
-    try {
-      this.debug("Returning item:", returnRequest);
+  async approveLoan(loanId: string, notes?: string): Promise<Loan> {
+    return this.decideLoan(loanId, "approve", notes);
+  }
 
-      const response = await fetch(`${API_BASE_URL}/api/loans/return`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(returnRequest),
-      });
+  async rejectLoan(loanId: string, notes?: string): Promise<Loan> {
+    return this.decideLoan(loanId, "reject", notes);
+  }
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || `HTTP error! Status: ${response.status}`);
-      }
+  // Borrowers can cancel their own requests until they are checked out
+  async cancelLoan(loanId: string, notes?: string): Promise<Loan> {
+    return this.decideLoan(loanId, "cancel", notes);
+  }
 
-      const loan: Loan = await response.json();
-      this.debug("Item returned successfully:", loan);
+  // Hand an approved loan's equipment to the borrower
+  async checkOutLoan(loanId: string, report: ConditionReportRequest): Promise<Loan> {
+    return this.sendConditionReport(loanId, "check-out", report);
+  }
 
-      return loan;
-    } catch (error) {
-      console.error("Error returning item:", error);
-      throw error;
+  // Take a loan's equipment back; damaged or lost equipment is written off
+  // stock
+  async checkInLoan(loanId: string, report: ConditionReportRequest): Promise<Loan> {
+    return this.sendConditionReport(loanId, "check-in", report);
+  }
+
+  // Ask for a loan that is out to be due later; staff who manage loans
+  // decide on it
+  async requestExtension(loanId: string, dueDate: string, reason?: string): Promise<Loan> {
+    this.debug("Requesting loan extension:", { loanId, dueDate });
+
+    const response = await authFetch(`${API_BASE_URL}/loans/${loanId}/extensions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ dueDate, reason }),
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
     }
+
+    return response.json();
+  }
+
+  async approveExtension(loanId: string, extensionId: string, notes?: string): Promise<Loan> {
+    return this.decideExtension(loanId, extensionId, "approve", notes);
+  }
+
+  async rejectExtension(loanId: string, extensionId: string, notes?: string): Promise<Loan> {
+    return this.decideExtension(loanId, extensionId, "reject", notes);
+  }
+
+  /**
+   * Fetch a condition report photo as an object URL. Photos need the access
+   * token, so they cannot be plain links. Revoke the URL when done.
+   */
+  async getConditionPhotoUrl(loanId: string, photoId: string): Promise<string> {
+    const response = await authFetch(
+      `${API_BASE_URL}/loans/${loanId}/photos/${photoId}?inline=true`
+    );
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return URL.createObjectURL(await response.blob());
   }
 
   // Get loan details
@@ -147,7 +319,7 @@ class LoanService {
     try {
       this.debug("Fetching loan details:", loanId);
 
-      const response = await fetch(`${API_BASE_URL}/api/loans/${loanId}`);
+      const response = await authFetch(`${API_BASE_URL}/loans/${loanId}`);
 
       if (!response.ok) {
         throw new Error(`HTTP error! Status: ${response.status}`);
@@ -163,17 +335,23 @@ class LoanService {
     }
   }
 
-  // Check if item is available for borrowing
-  async checkItemAvailability(itemId: string, quantity: number): Promise<boolean> {
+  // Check if item is available for borrowing on every day from startDate to
+  // endDate (both today when not given)
+  async checkItemAvailability(
+    itemId: string,
+    quantity: number,
+    startDate?: string,
+    endDate?: string
+  ): Promise<boolean> {
     try {
-      this.debug("Checking item availability:", { itemId, quantity });
+      this.debug("Checking item availability:", { itemId, quantity, startDate, endDate });
 
-      const response = await fetch(`${API_BASE_URL}/api/loans/check-availability`, {
+      const response = await authFetch(`${API_BASE_URL}/loans/check-availability`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ itemId, quantity }),
+        body: JSON.stringify({ itemId, quantity, startDate, endDate }),
       });
 
       if (!response.ok) {
@@ -195,7 +373,7 @@ class LoanService {
     try {
       this.debug("Fetching overdue loans");
 
-      const response = await fetch(`${API_BASE_URL}/api/loans/overdue`);
+      const response = await authFetch(`${API_BASE_URL}/loans/overdue`);
 
       if (!response.ok) {
         throw new Error(`HTTP error! Status: ${response.status}`);
@@ -211,6 +389,83 @@ class LoanService {
     }
   }
 
+  // Reservations, soonest first: everyone's for staff who manage loans,
+  // otherwise the user's own
+  async getReservations(
+    filters: { itemId?: string; statuses?: ReservationStatus[] } = {}
+  ): Promise<LoanReservation[]> {
+    const params = new URLSearchParams();
+    if (filters.itemId) params.set("item_id", filters.itemId);
+    if (filters.statuses?.length) params.set("status", filters.statuses.join(","));
+    const query = params.toString();
+
+    const response = await authFetch(
+      `${API_BASE_URL}/loans/reservations${query ? `?${query}` : ""}`
+    );
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+
+  // Reserve an item for a future date range; fails when it is booked up on
+  // any day of the range
+  async createReservation(reservation: ReservationRequest): Promise<LoanReservation> {
+    this.debug("Reserving item:", reservation);
+
+    const response = await authFetch(`${API_BASE_URL}/loans/reservations`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(reservation),
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+
+  async cancelReservation(reservationId: string): Promise<LoanReservation> {
+    const response = await authFetch(
+      `${API_BASE_URL}/loans/reservations/${reservationId}/cancel`,
+      { method: "POST" }
+    );
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+
+  // Hand out a reserved item: the reservation becomes a loan due on its end
+  // date
+  async pickUpReservation(reservationId: string): Promise<Loan> {
+    const response = await authFetch(
+      `${API_BASE_URL}/loans/reservations/${reservationId}/pickup`,
+      { method: "POST" }
+    );
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+
+  // Day by day availability of an item between two dates (YYYY-MM-DD)
+  async getItemAvailability(itemId: string, from: string, to: string): Promise<ItemAvailability> {
+    const response = await authFetch(
+      `${API_BASE_URL}/items/${itemId}/availability?from=${from}&to=${to}`
+    );
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+
   // Format date for display
   formatDate(dateString: string): string {
     const date = new Date(dateString);
@@ -237,6 +492,82 @@ class LoanService {
     const diffTime = due.getTime() - today.getTime();
     return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
   }
+
+  // A date as YYYY-MM-DD in local time, as the loans API takes dates
+  toDateString(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  }
+
+  private async decideLoan(
+    loanId: string,
+    action: "approve" | "reject" | "cancel",
+    notes?: string
+  ): Promise<Loan> {
+    this.debug(`Loan ${action}:`, loanId);
+
+    const response = await authFetch(`${API_BASE_URL}/loans/${loanId}/${action}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ notes }),
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+
+  private async decideExtension(
+    loanId: string,
+    extensionId: string,
+    action: "approve" | "reject",
+    notes?: string
+  ): Promise<Loan> {
+    const response = await authFetch(
+      `${API_BASE_URL}/loans/${loanId}/extensions/${extensionId}/${action}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ notes }),
+      }
+    );
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+
+  private async sendConditionReport(
+    loanId: string,
+    stage: "check-out" | "check-in",
+    report: ConditionReportRequest
+  ): Promise<Loan> {
+    this.debug(`Loan ${stage}:`, loanId, report.condition);
+
+    const formData = new FormData();
+    formData.append("condition", report.condition);
+    if (report.notes) formData.append("notes", report.notes);
+    if (report.quantity !== undefined) formData.append("quantity", report.quantity.toString());
+    if (report.locationId) formData.append("location_id", report.locationId);
+    report.unitIds?.forEach((unitId) => formData.append("unit_ids", unitId));
+    report.photos?.forEach((photo) => formData.append("photos", photo));
+
+    // The browser sets the multipart Content-Type with its boundary
+    const response = await authFetch(`${API_BASE_URL}/loans/${loanId}/${stage}`, {
+      method: "POST",
+      body: formData,
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
 }
 
 export const loanService = new LoanService();
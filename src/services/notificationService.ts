@@ -1,22 +1,54 @@
 import { API_BASE_URL } from "../config";
+import { authFetch, getErrorMessage } from "../utils/authFetch";
 
 export interface Notification {
   id: string;
   user_id: string;
-  type: 'request_submitted' | 'request_approved' | 'request_rejected' | 'request_fulfilled' | 'comment_added';
+  type:
+    | 'request_submitted'
+    | 'approval_required' // The user's step of a request's approval chain is up
+    | 'request_approved'
+    | 'request_rejected'
+    | 'request_fulfilled'
+    | 'comment_added'
+    // Loan notifications; related_item_id is the loan's id
+    | 'loan_due_soon'
+    | 'loan_overdue'
+    | 'loan_overdue_escalated' // To staff who manage loans
+    | 'loan_extension_requested' // To staff who manage loans
+    | 'loan_extension_approved'
+    | 'loan_extension_rejected'
+    // To staff who adjust stock; related_item_id is the item's id
+    | 'stock_low'
+    // Held notifications summed up, for users who asked for a daily digest
+    | 'digest';
   message: string;
   is_read: boolean;
   created_at: string;
   related_item_id?: string;
 }
 
-export interface CreateNotificationRequest {
-  user_id: string;
-  type: Notification['type'];
-  message: string;
-  related_item_id?: string;
+// The notification types users can turn off
+export type NotificationPreferenceType = Exclude<Notification['type'], 'digest'>;
+
+// How a user wants to be notified. Times are HH:MM in time_zone.
+export interface NotificationPreferences {
+  muted_types: NotificationPreferenceType[];
+  // Item categories followed; notifications about items of other categories
+  // are dropped. Empty to follow all of them.
+  categories: string[];
+  // Notifications arriving between these times wait until they are over
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  // Batch notifications into one digest a day, sent from digest_time
+  digest: boolean;
+  digest_time: string;
+  time_zone?: string;
 }
 
+// Notifications are sent by the API itself: approvers and requesters when a
+// request is submitted or its status changes, and the people taking part in
+// a request's discussion when a comment is added.
 class NotificationService {
   /**
    * Get all notifications for a user
@@ -24,7 +56,7 @@ class NotificationService {
   async getUserNotifications(userId: string): Promise<Notification[]> {
     try {
       console.log(`Fetching notifications for user ${userId}...`);
-      const response = await fetch(`${API_BASE_URL}/notifications/user/${userId}`);
+      const response = await authFetch(`${API_BASE_URL}/notifications/user/${userId}`);
 
       if (!response.ok) {
         throw new Error(`HTTP error! Status: ${response.status}`);
@@ -45,7 +77,7 @@ class NotificationService {
    */
   async getUnreadCount(userId: string): Promise<number> {
     try {
-      const response = await fetch(`${API_BASE_URL}/notifications/user/${userId}/unread-count`);
+      const response = await authFetch(`${API_BASE_URL}/notifications/user/${userId}/unread-count`);
 
       if (!response.ok) {
         throw new Error(`HTTP error! Status: ${response.status}`);
@@ -64,7 +96,7 @@ class NotificationService {
    */
   async markAsRead(notificationId: string): Promise<boolean> {
     try {
-      const response = await fetch(`${API_BASE_URL}/notifications/${notificationId}/read`, {
+      const response = await authFetch(`${API_BASE_URL}/notifications/${notificationId}/read`, {
         method: "PATCH",
         headers: {
           "Content-Type": "application/json",
@@ -87,7 +119,7 @@ class NotificationService {
    */
   async markAllAsRead(userId: string): Promise<boolean> {
     try {
-      const response = await fetch(`${API_BASE_URL}/notifications/user/${userId}/mark-all-read`, {
+      const response = await authFetch(`${API_BASE_URL}/notifications/user/${userId}/mark-all-read`, {
         method: "PATCH",
         headers: {
           "Content-Type": "application/json",
@@ -106,30 +138,33 @@ class NotificationService {
   }
 
   /**
-   * Create a new notification
+   * Get the current user's notification preferences
    */
-  async createNotification(notification: CreateNotificationRequest): Promise<Notification | null> {
-    try {
-      console.log("Creating notification:", notification);
-      const response = await fetch(`${API_BASE_URL}/notifications`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(notification),
-      });
+  async getPreferences(): Promise<NotificationPreferences> {
+    const response = await authFetch(`${API_BASE_URL}/notifications/preferences`);
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! Status: ${response.status}`);
-      }
+    return response.json();
+  }
 
-      const createdNotification = await response.json();
-      console.log("Notification created:", createdNotification);
-      return createdNotification;
-    } catch (error) {
-      console.error("Error creating notification:", error);
-      return null;
+  /**
+   * Replace the current user's notification preferences
+   */
+  async updatePreferences(preferences: NotificationPreferences): Promise<NotificationPreferences> {
+    const response = await authFetch(`${API_BASE_URL}/notifications/preferences`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(preferences),
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
     }
+
+    return response.json();
   }
 
   /**
@@ -137,7 +172,7 @@ class NotificationService {
    */
   async deleteNotification(notificationId: string): Promise<boolean> {
     try {
-      const response = await fetch(`${API_BASE_URL}/notifications/${notificationId}`, {
+      const response = await authFetch(`${API_BASE_URL}/notifications/${notificationId}`, {
         method: "DELETE",
       });
 
@@ -151,71 +186,6 @@ class NotificationService {
       return false;
     }
   }
-
-  /**
-   * Create notifications for admins/managers when a new request is submitted
-   */
-  async notifyAdminsOfNewRequest(requestId: string, projectName: string, requesterName: string): Promise<void> {
-    try {
-      console.log(`Creating admin notifications for new request: ${requestId}`);
-
-      // Get all admin and manager users
-      const response = await fetch(`${API_BASE_URL}/users`);
-      if (!response.ok) {
-        throw new Error(`HTTP error! Status: ${response.status}`);
-      }
-
-      const result = await response.json();
-      const users = result.users || result;
-      const adminUsers = users.filter((user: any) =>
-        user.role === 'admin' || user.role === 'manager'
-      );
-
-      console.log(`Found ${adminUsers.length} admin/manager users:`, adminUsers);
-
-      // Create notification for each admin/manager
-      for (const admin of adminUsers) {
-        await this.createNotification({
-          user_id: admin.id,
-          type: 'request_submitted',
-          message: `New request "${projectName}" submitted by ${requesterName} requires your review`,
-          related_item_id: requestId,
-        });
-      }
-    } catch (error) {
-      console.error("Error notifying admins of new request:", error);
-    }
-  }
-
-  /**
-   * Create notification for user when their request is approved/rejected
-   */
-  async notifyUserOfRequestUpdate(
-    userId: string,
-    requestId: string,
-    projectName: string,
-    status: 'approved' | 'rejected' | 'fulfilled'
-  ): Promise<void> {
-    try {
-      console.log(`Creating user notification for request update: ${requestId}, status: ${status}`);
-
-      const statusMessages = {
-        approved: `Your request "${projectName}" has been approved`,
-        rejected: `Your request "${projectName}" has been rejected`,
-        fulfilled: `Your request "${projectName}" has been fulfilled`,
-      };
-
-      await this.createNotification({
-        user_id: userId,
-        type: status === 'approved' ? 'request_approved' :
-              status === 'rejected' ? 'request_rejected' : 'request_fulfilled',
-        message: statusMessages[status],
-        related_item_id: requestId,
-      });
-    } catch (error) {
-      console.error("Error notifying user of request update:", error);
-    }
-  }
 }
 
 export const notificationService = new NotificationService();
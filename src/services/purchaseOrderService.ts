@@ -0,0 +1,142 @@
+import { PurchaseOrder, PurchaseOrderStatus } from "../types";
+import { API_BASE_URL } from "../config";
+import { authFetch, getErrorMessage } from "../utils/authFetch";
+
+export interface PurchaseOrderLineInput {
+  itemId: string;
+  quantity: number;
+  // The item's price is used when left out
+  unitPrice?: number;
+}
+
+export interface PurchaseOrderInput {
+  supplierId: string;
+  expectedDate?: string;
+  notes?: string;
+  lines: PurchaseOrderLineInput[];
+}
+
+export interface ReceivedQuantity {
+  lineId: string;
+  quantity: number;
+}
+
+class PurchaseOrderService {
+  private apiUrl = `${API_BASE_URL}/purchase-orders`;
+
+  async getPurchaseOrders(
+    statuses: PurchaseOrderStatus[] = []
+  ): Promise<PurchaseOrder[]> {
+    const url = statuses.length > 0
+      ? `${this.apiUrl}?status=${statuses.join(",")}`
+      : this.apiUrl;
+    const response = await authFetch(url);
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+
+  async getPurchaseOrder(id: string): Promise<PurchaseOrder> {
+    const response = await authFetch(`${this.apiUrl}/${id}`);
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+
+  // Orders are created as drafts
+  async createPurchaseOrder(order: PurchaseOrderInput): Promise<PurchaseOrder> {
+    return this.send(this.apiUrl, "POST", this.toApiOrder(order));
+  }
+
+  async updatePurchaseOrder(
+    id: string,
+    order: PurchaseOrderInput
+  ): Promise<PurchaseOrder> {
+    return this.send(`${this.apiUrl}/${id}`, "PUT", this.toApiOrder(order));
+  }
+
+  // Draft an order for low-stock items, or all of them when none are given
+  async createFromLowStock(
+    supplierId: string,
+    itemIds: string[] = []
+  ): Promise<PurchaseOrder> {
+    return this.send(`${this.apiUrl}/from-low-stock`, "POST", {
+      supplier_id: supplierId,
+      item_ids: itemIds,
+    });
+  }
+
+  async sendPurchaseOrder(id: string): Promise<PurchaseOrder> {
+    return this.send(`${this.apiUrl}/${id}/send`, "POST");
+  }
+
+  async cancelPurchaseOrder(id: string): Promise<PurchaseOrder> {
+    return this.send(`${this.apiUrl}/${id}/cancel`, "POST");
+  }
+
+  async deletePurchaseOrder(id: string): Promise<void> {
+    const response = await authFetch(`${this.apiUrl}/${id}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+  }
+
+  // Receive a delivery into stock at the given location, or the default one
+  async receiveGoods(
+    id: string,
+    received: ReceivedQuantity[],
+    locationId?: string,
+    notes?: string
+  ): Promise<PurchaseOrder> {
+    return this.send(`${this.apiUrl}/${id}/receipts`, "POST", {
+      location_id: locationId || null,
+      notes: notes || null,
+      lines: received.map((line) => ({
+        line_id: line.lineId,
+        quantity: line.quantity,
+      })),
+    });
+  }
+
+  private toApiOrder(order: PurchaseOrderInput) {
+    return {
+      supplier_id: order.supplierId,
+      expected_date: order.expectedDate || null,
+      notes: order.notes || null,
+      lines: order.lines.map((line) => ({
+        item_id: line.itemId,
+        quantity: line.quantity,
+        unit_price: line.unitPrice ?? null,
+      })),
+    };
+  }
+
+  private async send(
+    url: string,
+    method: string,
+    body?: unknown
+  ): Promise<PurchaseOrder> {
+    const response = await authFetch(url, {
+      method,
+      headers: body
+        ? {
+            "Content-Type": "application/json",
+          }
+        : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+}
+
+export const purchaseOrderService = new PurchaseOrderService();
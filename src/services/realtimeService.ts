@@ -0,0 +1,168 @@
+import { API_BASE_URL } from "../config";
+import { authFetch } from "../utils/authFetch";
+
+// Events pushed by the API over GET /api/events (see server/events.js)
+export type RealtimeEventType =
+  | "notification"
+  | "request_updated"
+  | "stock_changed"
+  | "loan_updated";
+
+export interface RealtimeEvent {
+  type: RealtimeEventType;
+  data: Record<string, unknown>;
+}
+
+type EventListener = (event: RealtimeEvent) => void;
+type ConnectionListener = (connected: boolean) => void;
+
+// Wait before reconnecting a dropped stream, doubling up to the maximum
+const INITIAL_RETRY_DELAY = 2000;
+const MAX_RETRY_DELAY = 60000;
+
+/**
+ * One Server-Sent Events stream shared by everything on the page that wants
+ * live updates. The stream is opened when the first listener subscribes and
+ * closed when the last one leaves. It is read with fetch rather than
+ * EventSource, which cannot send the Authorization header.
+ */
+class RealtimeService {
+  private listeners = new Set<EventListener>();
+  private connectionListeners = new Set<ConnectionListener>();
+  private controller: AbortController | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelay = INITIAL_RETRY_DELAY;
+  private connected = false;
+
+  subscribe(listener: EventListener): () => void {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) {
+      this.connect();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.disconnect();
+      }
+    };
+  }
+
+  // Follow whether the stream is up, e.g. to poll while it is down
+  onConnectionChange(listener: ConnectionListener): () => void {
+    this.connectionListeners.add(listener);
+    return () => {
+      this.connectionListeners.delete(listener);
+    };
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  private async connect() {
+    const controller = new AbortController();
+    this.controller = controller;
+
+    try {
+      const response = await authFetch(`${API_BASE_URL}/events`, {
+        headers: { Accept: "text/event-stream" },
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) {
+        throw new Error(`HTTP error! Status: ${response.status}`);
+      }
+
+      this.setConnected(true);
+      this.retryDelay = INITIAL_RETRY_DELAY;
+      await this.readEvents(response.body);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.warn("Live updates unavailable:", error);
+      }
+    }
+
+    if (controller.signal.aborted) {
+      return;
+    }
+
+    // The stream ended or could not be opened; try again later
+    this.setConnected(false);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.connect();
+    }, this.retryDelay);
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY);
+  }
+
+  private disconnect() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.controller?.abort();
+    this.controller = null;
+    this.retryDelay = INITIAL_RETRY_DELAY;
+    this.setConnected(false);
+  }
+
+  private async readEvents(body: ReadableStream<Uint8Array>) {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) {
+        return;
+      }
+
+      // Events are separated by a blank line
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, "\n");
+      let end = buffer.indexOf("\n\n");
+      while (end !== -1) {
+        this.dispatch(buffer.slice(0, end));
+        buffer = buffer.slice(end + 2);
+        end = buffer.indexOf("\n\n");
+      }
+    }
+  }
+
+  private dispatch(block: string) {
+    let type = "";
+    const data: string[] = [];
+
+    for (const line of block.split("\n")) {
+      // Lines starting with a colon are comments, e.g. heartbeats
+      if (line.startsWith("event:")) {
+        type = line.slice(6).trim();
+      } else if (line.startsWith("data:")) {
+        data.push(line.slice(5).trim());
+      }
+    }
+
+    if (!type || data.length === 0) {
+      return;
+    }
+
+    try {
+      const event: RealtimeEvent = {
+        type: type as RealtimeEventType,
+        data: JSON.parse(data.join("\n")),
+      };
+      this.listeners.forEach((listener) => listener(event));
+    } catch (error) {
+      console.error("Error reading live update:", error);
+    }
+  }
+
+  private setConnected(connected: boolean) {
+    if (this.connected === connected) {
+      return;
+    }
+    this.connected = connected;
+    this.connectionListeners.forEach((listener) => listener(connected));
+  }
+}
+
+export const realtimeService = new RealtimeService();
@@ -0,0 +1,21 @@
+import { InventoryValuation } from "../types";
+import { API_BASE_URL } from "../config";
+import { authFetch, getErrorMessage } from "../utils/authFetch";
+
+class ReportService {
+  private apiUrl = `${API_BASE_URL}/reports`;
+
+  // Stock value by category and cost of goods issued for a month (1-12)
+  async getInventoryValuation(year: number, month: number): Promise<InventoryValuation> {
+    const response = await authFetch(
+      `${this.apiUrl}/valuation?year=${year}&month=${month}`
+    );
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+}
+
+export const reportService = new ReportService();
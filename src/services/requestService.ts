@@ -1,33 +1,101 @@
-import { ItemRequest, RequestPriority, RequestStatus } from "../types";
+import {
+  ApprovalStep,
+  ItemRequest,
+  NewItemRequest,
+  PaginatedRequests,
+  RequestLine,
+  RequestLineStatus,
+  RequestPriority,
+  RequestQuery,
+  RequestStatus,
+} from "../types";
 import { itemService } from "./itemService";
+import { attachmentService } from "./attachmentService";
 import { validateItemId } from "../utils/itemUtils";
 import { authService } from "../utils/auth";
-import { API_BASE_URL } from "../config";
+import { API_BASE_URL, MAX_PAGE_SIZE } from "../config";
+import { authFetch } from "../utils/authFetch";
+import { getMonthDateRange } from "../utils/requestUtils";
 
 // API base URL - use config for environment-specific URLs
 const API_URL = API_BASE_URL;
 
 class RequestService {
-  async getAllRequests(): Promise<ItemRequest[]> {
-    try {
-      console.log("Fetching all requests from API...");
-      console.log("API URL:", `${API_URL}/requests`);
+  /**
+   * Fetch one page of requests matching a query. The API only returns the
+   * caller's own requests unless they have the requests:view_all permission.
+   */
+  async queryRequests(query: RequestQuery = {}): Promise<PaginatedRequests> {
+    const params = new URLSearchParams();
+
+    const statuses = query.status
+      ? Array.isArray(query.status)
+        ? query.status
+        : [query.status]
+      : [];
+    if (statuses.length > 0) {
+      params.set(
+        "status",
+        statuses.flatMap((status) => this.mapRequestStatusToApiStatuses(status)).join(",")
+      );
+    }
+    if (query.priority) params.set("priority", query.priority);
+    if (query.requesterId) params.set("requester_id", query.requesterId);
+    if (query.startDate) params.set("from", query.startDate);
+    if (query.endDate) params.set("to", query.endDate);
+    if (query.itemId) params.set("item_id", query.itemId);
+    if (query.search) params.set("search", query.search);
+    if (query.sort) params.set("sort", query.sort);
+    if (query.order) params.set("order", query.order);
+    if (query.page) params.set("page", query.page.toString());
+    if (query.pageSize) params.set("page_size", query.pageSize.toString());
+    if (query.cursor) params.set("cursor", query.cursor);
+
+    console.log("Querying requests from API:", params.toString());
+
+    const response = await authFetch(`${API_URL}/requests?${params}`);
+    if (!response.ok) {
+      throw new Error(`HTTP error! Status: ${response.status}`);
+    }
 
-      const response = await fetch(`${API_URL}/requests`);
-      console.log("Response status:", response.status);
+    const { data, pagination, statusCounts } = await response.json();
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! Status: ${response.status}`);
-      }
+    return {
+      requests: this.mapApiRequestsToItemRequests(data),
+      page: pagination.page,
+      pageSize: pagination.pageSize,
+      total: pagination.total,
+      totalPages: pagination.totalPages,
+      nextCursor: pagination.nextCursor,
+      statusCounts: this.mapApiStatusCounts(statusCounts),
+    };
+  }
 
-      const requests = await response.json();
-      console.log(`Received ${requests.length} requests from API:`, requests);
+  // Follow the cursor through every page of requests matching a query
+  private async queryAllRequests(
+    query: Omit<RequestQuery, "page" | "pageSize" | "cursor"> = {}
+  ): Promise<ItemRequest[]> {
+    const requests: ItemRequest[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.queryRequests({
+        ...query,
+        sort: "created_at",
+        pageSize: MAX_PAGE_SIZE,
+        cursor,
+      });
+      requests.push(...page.requests);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
 
-      // Map the API response to our ItemRequest type
-      const mappedRequests = this.mapApiRequestsToItemRequests(requests);
-      console.log("Mapped requests:", mappedRequests);
+    return requests;
+  }
 
-      return mappedRequests;
+  async getAllRequests(): Promise<ItemRequest[]> {
+    try {
+      console.log("Fetching all requests from API...");
+      return await this.queryAllRequests();
     } catch (error) {
       console.error("Error fetching requests:", error);
       return [];
@@ -37,7 +105,7 @@ class RequestService {
   async getUserRequests(userId: string): Promise<ItemRequest[]> {
     try {
       console.log(`Fetching requests for user ${userId} from API...`);
-      const response = await fetch(`${API_URL}/requests/user/${userId}`);
+      const response = await authFetch(`${API_URL}/requests/user/${userId}`);
 
       if (!response.ok) {
         throw new Error(`HTTP error! Status: ${response.status}`);
@@ -63,7 +131,7 @@ class RequestService {
 
       // Add cache-busting parameter to ensure fresh data
       const cacheBuster = Date.now();
-      const response = await fetch(`${API_URL}/requests/${id}?_t=${cacheBuster}`);
+      const response = await authFetch(`${API_URL}/requests/${id}?_t=${cacheBuster}`);
       console.log(`Response status: ${response.status}`);
 
       if (!response.ok) {
@@ -158,7 +226,9 @@ class RequestService {
       userId: apiRequest.requester_id,
       itemId: firstItem ? firstItem.item_id.toString() : "",
       itemName: firstItem ? firstItem.name : apiRequest.project_name,
-      quantity: firstItem ? firstItem.quantity : 1,
+      // As requested, in the unit it was requested in
+      quantity: firstItem ? firstItem.requested_quantity ?? firstItem.quantity : 1,
+      unit: firstItem?.unit || "pcs",
       priority: apiRequest.priority as RequestPriority,
       status: this.mapApiStatusToRequestStatus(apiRequest.status),
       description: apiRequest.reason || "",
@@ -177,19 +247,59 @@ class RequestService {
         apiRequest.requester_email ||
         currentUser?.email ||
         "",
-      items: apiRequest.items,
+      items: (apiRequest.items || []).map((line: RequestLine) =>
+        this.mapApiLineToRequestLine(line)
+      ),
+      approvals: (apiRequest.approvals || []).map((step: ApprovalStep) =>
+        this.mapApiApprovalStep(step)
+      ),
+      attachments: (apiRequest.attachments || []).map(
+        attachmentService.mapApiAttachment
+      ),
     };
 
     console.log("Mapped request:", mappedRequest);
     return mappedRequest;
   }
 
+  // The API returns numeric ids and decimal factors as strings and, for
+  // lines created before per-line approval, no unit, status or
+  // approved/delivered quantities; lines created before unit conversions
+  // were requested in their base unit
+  private mapApiLineToRequestLine(apiLine: RequestLine): RequestLine {
+    const unit = apiLine.unit || "pcs";
+    return {
+      ...apiLine,
+      id: apiLine.id?.toString(),
+      item_id: apiLine.item_id?.toString(),
+      unit,
+      base_unit: apiLine.base_unit || unit,
+      requested_quantity: apiLine.requested_quantity ?? apiLine.quantity,
+      conversion_factor: Number(apiLine.conversion_factor ?? 1),
+      status: apiLine.status || "pending",
+      approved_quantity: apiLine.approved_quantity ?? null,
+      delivered_quantity: apiLine.delivered_quantity ?? 0,
+    };
+  }
+
+  private mapApiApprovalStep(apiStep: ApprovalStep): ApprovalStep {
+    return {
+      ...apiStep,
+      id: apiStep.id?.toString(),
+      rule_id: apiStep.rule_id?.toString() ?? null,
+      approver_id: apiStep.approver_id?.toString() ?? null,
+      decided_by: apiStep.decided_by?.toString() ?? null,
+    };
+  }
+
   // Map API status values to our RequestStatus type
   private mapApiStatusToRequestStatus(apiStatus: string): RequestStatus {
     const statusMap: Record<string, RequestStatus> = {
       pending: "pending",
+      in_review: "in_review",
       approved: "approved",
       denied: "rejected",
+      partially_fulfilled: "partially_fulfilled",
       fulfilled: "completed",
       out_of_stock: "rejected",
     };
@@ -197,20 +307,30 @@ class RequestService {
     return statusMap[apiStatus] || "pending";
   }
 
-  async createRequest(
-    requestData: Omit<ItemRequest, "id" | "createdAt" | "updatedAt">
-  ): Promise<ItemRequest> {
+  async createRequest(requestData: NewItemRequest): Promise<ItemRequest> {
     try {
       console.log("Creating new request via API...");
       console.log("Request data:", requestData);
 
-      // Validate the item ID using our utility function
-      const itemIdValue = validateItemId(requestData.itemId);
-      if (itemIdValue === null) {
-        console.error("Invalid item ID:", requestData.itemId);
-        throw new Error(`Invalid item ID: ${requestData.itemId}`);
+      if (requestData.lines.length === 0) {
+        throw new Error("A request must contain at least one item");
       }
 
+      // Validate the item IDs using our utility function
+      const items = requestData.lines.map((line) => {
+        const itemIdValue = validateItemId(line.itemId);
+        if (itemIdValue === null) {
+          console.error("Invalid item ID:", line.itemId);
+          throw new Error(`Invalid item ID: ${line.itemId}`);
+        }
+
+        return {
+          item_id: itemIdValue,
+          quantity: line.quantity,
+          unit: line.unit,
+        };
+      });
+
       // Ensure we have a valid requester_id (must exist in the users table)
       // Use a fallback ID if the provided one is invalid
       let requesterId = requestData.userId;
@@ -234,43 +354,36 @@ class RequestService {
 
       // Transform the request data to match the API's expected format
       const apiRequestData = {
-        project_name: requestData.projectName || requestData.itemName,
+        project_name: requestData.projectName || requestData.lines[0].itemName,
         requester_id: requesterId,
         // Pass the requester name to be stored in the database
         requester_name: requesterName,
         reason: requestData.description,
         priority: requestData.priority,
         due_date: requestData.requestedDeliveryDate,
-        items: [
-          {
-            item_id: itemIdValue,
-            quantity: requestData.quantity,
-          },
-        ],
+        items,
       };
 
-      // Log the item_id conversion for debugging
-      console.log(
-        "Original itemId:",
-        requestData.itemId,
-        "Type:",
-        typeof requestData.itemId
-      );
-      console.log(
-        "Converted item_id:",
-        apiRequestData.items[0].item_id,
-        "Type:",
-        typeof apiRequestData.items[0].item_id
-      );
-
       console.log("API request data:", apiRequestData);
 
-      const response = await fetch(`${API_URL}/requests`, {
+      // With attachments the request is sent as multipart form data: the
+      // request as JSON in "data" and the files in "attachments"
+      const attachments = requestData.attachments ?? [];
+      let body: BodyInit = JSON.stringify(apiRequestData);
+      const headers: HeadersInit = {};
+      if (attachments.length > 0) {
+        const formData = new FormData();
+        formData.append("data", body);
+        attachments.forEach((file) => formData.append("attachments", file));
+        body = formData;
+      } else {
+        headers["Content-Type"] = "application/json";
+      }
+
+      const response = await authFetch(`${API_URL}/requests`, {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(apiRequestData),
+        headers,
+        body,
       });
 
       if (!response.ok) {
@@ -320,9 +433,18 @@ class RequestService {
     }
   }
 
+  /**
+   * Change the status of a request. Approving or rejecting decides the
+   * caller's step of the approval chain; the request is only approved once
+   * its last step is. The comment is kept with the step for the audit trail.
+   * Completing a request issues its items from locationId, or from the
+   * default location.
+   */
   async updateRequestStatus(
     id: string,
-    status: RequestStatus
+    status: RequestStatus,
+    comment?: string,
+    locationId?: string
   ): Promise<ItemRequest> {
     try {
       console.log(`Updating request ${id} status to ${status} via API...`);
@@ -330,12 +452,12 @@ class RequestService {
       // Map our status to the API's expected status
       const apiStatus = this.mapRequestStatusToApiStatus(status);
 
-      const response = await fetch(`${API_URL}/requests/${id}/status`, {
+      const response = await authFetch(`${API_URL}/requests/${id}/status`, {
         method: "PATCH",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ status: apiStatus }),
+        body: JSON.stringify({ status: apiStatus, comment, location_id: locationId }),
       });
 
       if (!response.ok) {
@@ -359,12 +481,81 @@ class RequestService {
     }
   }
 
+  /**
+   * Approve or reject one line of a request. approvedQuantity approves less
+   * than was requested, or raises the approved quantity of a back-ordered line.
+   */
+  async updateRequestLineStatus(
+    id: string,
+    lineId: string,
+    status: RequestLineStatus,
+    approvedQuantity?: number
+  ): Promise<ItemRequest> {
+    try {
+      console.log(`Updating line ${lineId} of request ${id} to ${status} via API...`);
+
+      const response = await authFetch(
+        `${API_URL}/requests/${id}/items/${lineId}/status`,
+        {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            status,
+            approved_quantity: approvedQuantity,
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        let errorMessage;
+        try {
+          const errorData = JSON.parse(errorText);
+          errorMessage =
+            errorData.message || `HTTP error! Status: ${response.status}`;
+        } catch {
+          errorMessage = `HTTP error! Status: ${response.status}`;
+        }
+        throw new Error(errorMessage);
+      }
+
+      // Approving or rejecting the last pending line also settles the
+      // request itself, so reload it
+      return this.getRequestById(id) as Promise<ItemRequest>;
+    } catch (error) {
+      console.error(`Error updating line ${lineId} of request ${id}:`, error);
+      throw error;
+    }
+  }
+
+  // API statuses that are shown as the given RequestStatus
+  private mapRequestStatusToApiStatuses(status: RequestStatus): string[] {
+    return status === "rejected"
+      ? ["denied", "out_of_stock"]
+      : [this.mapRequestStatusToApiStatus(status)];
+  }
+
+  private mapApiStatusCounts(
+    apiCounts: Record<string, number> = {}
+  ): PaginatedRequests["statusCounts"] {
+    const counts: PaginatedRequests["statusCounts"] = {};
+    Object.entries(apiCounts).forEach(([apiStatus, count]) => {
+      const status = this.mapApiStatusToRequestStatus(apiStatus);
+      counts[status] = (counts[status] || 0) + count;
+    });
+    return counts;
+  }
+
   // Map our RequestStatus type to API status values
   private mapRequestStatusToApiStatus(status: RequestStatus): string {
     const statusMap: Record<RequestStatus, string> = {
       pending: "pending",
+      in_review: "in_review",
       approved: "approved",
       rejected: "denied",
+      partially_fulfilled: "partially_fulfilled",
       completed: "fulfilled",
     };
 
@@ -375,7 +566,7 @@ class RequestService {
     try {
       console.log(`Deleting request ${id} via API...`);
 
-      const response = await fetch(`${API_URL}/requests/${id}`, {
+      const response = await authFetch(`${API_URL}/requests/${id}`, {
         method: "DELETE",
       });
 
@@ -398,48 +589,17 @@ class RequestService {
     }
   }
 
-  async filterRequests(filters: {
-    status?: RequestStatus;
-    priority?: RequestPriority;
-    startDate?: string;
-    endDate?: string;
-  }): Promise<ItemRequest[]> {
+  /**
+   * Get every request matching the given filters
+   */
+  async filterRequests(
+    filters: Omit<RequestQuery, "page" | "pageSize" | "cursor">
+  ): Promise<ItemRequest[]> {
     try {
       console.log("Filtering requests...");
       console.log("Filters:", filters);
 
-      // For now, we'll fetch all requests and filter them client-side
-      // In a real implementation, we would add query parameters to the API call
-      const allRequests = await this.getAllRequests();
-      let filteredRequests = [...allRequests];
-
-      if (filters.status) {
-        filteredRequests = filteredRequests.filter(
-          (req) => req.status === filters.status
-        );
-      }
-
-      if (filters.priority) {
-        filteredRequests = filteredRequests.filter(
-          (req) => req.priority === filters.priority
-        );
-      }
-
-      if (filters.startDate) {
-        const startDate = new Date(filters.startDate);
-        filteredRequests = filteredRequests.filter(
-          (req) => new Date(req.createdAt) >= startDate
-        );
-      }
-
-      if (filters.endDate) {
-        const endDate = new Date(filters.endDate);
-        filteredRequests = filteredRequests.filter(
-          (req) => new Date(req.createdAt) <= endDate
-        );
-      }
-
-      return filteredRequests;
+      return await this.queryAllRequests(filters);
     } catch (error) {
       console.error("Error filtering requests:", error);
       return [];
@@ -453,18 +613,10 @@ class RequestService {
     try {
       console.log(`Fetching requests for ${month}/${year}...`);
 
-      // Create start and end dates for the month
-      const startDate = new Date(year, month - 1, 1); // month - 1 because Date months are 0-indexed
-      const endDate = new Date(year, month, 0); // 0 gets the last day of the previous month
-      endDate.setHours(23, 59, 59, 999); // Set to end of day
+      const { startDate, endDate } = getMonthDateRange(year, month);
+      console.log(`Date range: ${startDate} to ${endDate}`);
 
-      console.log(`Date range: ${startDate.toISOString()} to ${endDate.toISOString()}`);
-
-      const allRequests = await this.getAllRequests();
-      const monthlyRequests = allRequests.filter((req) => {
-        const requestDate = new Date(req.createdAt);
-        return requestDate >= startDate && requestDate <= endDate;
-      });
+      const monthlyRequests = await this.queryAllRequests({ startDate, endDate });
 
       console.log(`Found ${monthlyRequests.length} requests for ${month}/${year}`);
       return monthlyRequests;
@@ -504,12 +656,20 @@ class RequestService {
       const mediumPriorityRequests = requests.filter(req => req.priority === 'medium').length;
       const lowPriorityRequests = requests.filter(req => req.priority === 'low').length;
 
-      const totalItemsRequested = requests.reduce((sum, req) => sum + req.quantity, 0);
+      // Count every line of multi-item requests, falling back to the
+      // single item for requests without lines
+      const requestLines = requests.flatMap(req =>
+        req.items && req.items.length > 0
+          ? req.items.map(line => ({ name: line.name, quantity: line.quantity }))
+          : [{ name: req.itemName, quantity: req.quantity }]
+      );
+
+      const totalItemsRequested = requestLines.reduce((sum, line) => sum + line.quantity, 0);
 
       // Most requested items
       const itemCounts: Record<string, number> = {};
-      requests.forEach(req => {
-        itemCounts[req.itemName] = (itemCounts[req.itemName] || 0) + req.quantity;
+      requestLines.forEach(line => {
+        itemCounts[line.name] = (itemCounts[line.name] || 0) + line.quantity;
       });
       const mostRequestedItems = Object.entries(itemCounts)
         .sort(([, a], [, b]) => b - a)
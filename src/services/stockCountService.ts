@@ -0,0 +1,128 @@
+import { StockCount, StockCountStatus } from "../types";
+import { API_BASE_URL } from "../config";
+import { authFetch, getErrorMessage } from "../utils/authFetch";
+
+export interface StockCountInput {
+  name: string;
+  category?: string;
+  locationId?: string;
+  notes?: string;
+}
+
+export interface CountedQuantity {
+  lineId: string;
+  // null clears the count
+  countedQuantity: number | null;
+  note?: string;
+}
+
+class StockCountService {
+  private apiUrl = `${API_BASE_URL}/stock-counts`;
+
+  async getStockCounts(statuses: StockCountStatus[] = []): Promise<StockCount[]> {
+    const url = statuses.length > 0
+      ? `${this.apiUrl}?status=${statuses.join(",")}`
+      : this.apiUrl;
+    const response = await authFetch(url);
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+
+  async getStockCount(id: string): Promise<StockCount> {
+    const response = await authFetch(`${this.apiUrl}/${id}`);
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+
+  // Open a count, freezing the expected quantities of what it covers
+  async openStockCount(count: StockCountInput): Promise<StockCount> {
+    const response = await authFetch(this.apiUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        name: count.name,
+        category: count.category || null,
+        location_id: count.locationId || null,
+        notes: count.notes || null,
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+
+  async saveCounts(id: string, counts: CountedQuantity[]): Promise<StockCount> {
+    const response = await authFetch(`${this.apiUrl}/${id}/lines`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        lines: counts.map((count) => ({
+          id: count.lineId,
+          counted_quantity: count.countedQuantity,
+          note: count.note || null,
+        })),
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+
+  async setApproved(
+    id: string,
+    lineIds: string[],
+    approved: boolean
+  ): Promise<StockCount> {
+    const response = await authFetch(`${this.apiUrl}/${id}/approvals`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ line_ids: lineIds, approved }),
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+
+  // Apply every approved difference to stock
+  async postStockCount(id: string): Promise<StockCount> {
+    const response = await authFetch(`${this.apiUrl}/${id}/post`, {
+      method: "POST",
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+
+  async cancelStockCount(id: string): Promise<StockCount> {
+    const response = await authFetch(`${this.apiUrl}/${id}/cancel`, {
+      method: "POST",
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+}
+
+export const stockCountService = new StockCountService();
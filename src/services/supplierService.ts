@@ -0,0 +1,65 @@
+import { Supplier } from "../types";
+import { API_BASE_URL } from "../config";
+import { authFetch, getErrorMessage } from "../utils/authFetch";
+
+export type SupplierInput = Omit<Supplier, "id" | "is_active">;
+
+class SupplierService {
+  private apiUrl = `${API_BASE_URL}/suppliers`;
+
+  // Active suppliers, and inactive ones too when asked for
+  async getSuppliers(includeInactive = false): Promise<Supplier[]> {
+    const response = await authFetch(
+      includeInactive ? `${this.apiUrl}?include_inactive=true` : this.apiUrl
+    );
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+
+  async createSupplier(supplier: SupplierInput): Promise<Supplier> {
+    const response = await authFetch(this.apiUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(supplier),
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+
+  async updateSupplier(
+    id: string,
+    updates: Partial<SupplierInput & { is_active: boolean }>
+  ): Promise<Supplier> {
+    const response = await authFetch(`${this.apiUrl}/${id}`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(updates),
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+
+  async deleteSupplier(id: string): Promise<void> {
+    const response = await authFetch(`${this.apiUrl}/${id}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+  }
+}
+
+export const supplierService = new SupplierService();
@@ -0,0 +1,34 @@
+import { Unit } from "../types";
+import { API_BASE_URL } from "../config";
+import { authFetch, getErrorMessage } from "../utils/authFetch";
+
+class UnitService {
+  private apiUrl = `${API_BASE_URL}/units`;
+
+  async getUnits(): Promise<Unit[]> {
+    const response = await authFetch(this.apiUrl);
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+
+  // Codes are stored in lower case; the name defaults to the code
+  async createUnit(code: string, name?: string): Promise<Unit> {
+    const response = await authFetch(this.apiUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ code, name }),
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return response.json();
+  }
+}
+
+export const unitService = new UnitService();
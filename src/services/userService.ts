@@ -1,5 +1,6 @@
 import { User } from "../types";
 import { API_BASE_URL } from "../config";
+import { authFetch } from "../utils/authFetch";
 
 const API_URL = API_BASE_URL; // Use config for environment-specific URLs
 
@@ -10,7 +11,7 @@ class UserService {
   async getAllUsers(): Promise<User[]> {
     try {
       console.log("Fetching all users from API...");
-      const response = await fetch(`${API_URL}/users`);
+      const response = await authFetch(`${API_URL}/users`);
 
       if (!response.ok) {
         throw new Error(`HTTP error! Status: ${response.status}`);
@@ -69,7 +70,7 @@ class UserService {
   async getUserByEmail(email: string): Promise<User | undefined> {
     try {
       console.log(`Fetching user by email ${email} from API...`);
-      const response = await fetch(`${API_URL}/users/email/${email}`);
+      const response = await authFetch(`${API_URL}/users/email/${email}`);
 
       if (!response.ok) {
         if (response.status === 404) {
@@ -105,7 +106,7 @@ class UserService {
   }): Promise<User> {
     try {
       console.log("Creating new user via API...");
-      const response = await fetch(`${API_URL}/users`, {
+      const response = await authFetch(`${API_URL}/users`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -144,7 +145,7 @@ class UserService {
   }): Promise<User> {
     try {
       console.log(`Updating user ${id} via API...`);
-      const response = await fetch(`${API_URL}/users/${id}`, {
+      const response = await authFetch(`${API_URL}/users/${id}`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
@@ -178,7 +179,7 @@ class UserService {
   async deleteUser(id: string): Promise<boolean> {
     try {
       console.log(`Deleting user ${id} via API...`);
-      const response = await fetch(`${API_URL}/users/${id}`, {
+      const response = await authFetch(`${API_URL}/users/${id}`, {
         method: "DELETE",
       });
 
@@ -0,0 +1,149 @@
+import { StockLocation, Warehouse } from "../types";
+import { API_BASE_URL } from "../config";
+import { authFetch, getErrorMessage } from "../utils/authFetch";
+
+export type WarehouseInput = Pick<Warehouse, "name" | "address">;
+export type StockLocationInput = Pick<
+  StockLocation,
+  "code" | "description" | "is_default"
+>;
+
+// A location as returned by the API, with numeric ids and flags as 0/1
+type ApiStockLocation = Omit<
+  StockLocation,
+  "id" | "warehouse_id" | "is_default" | "quantity"
+> & {
+  id: number | string;
+  warehouse_id: number | string;
+  is_default: number | boolean;
+  quantity?: number | string;
+};
+
+type ApiWarehouse = Omit<Warehouse, "id" | "is_active" | "locations"> & {
+  id: number | string;
+  is_active: number | boolean;
+  locations?: ApiStockLocation[];
+};
+
+class WarehouseService {
+  private apiUrl = `${API_BASE_URL}/warehouses`;
+
+  // Warehouses with their bin locations; closed ones only when asked for
+  async getWarehouses(includeInactive = false): Promise<Warehouse[]> {
+    const response = await authFetch(
+      includeInactive ? `${this.apiUrl}?include_inactive=true` : this.apiUrl
+    );
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    const warehouses: ApiWarehouse[] = await response.json();
+    return warehouses.map((warehouse) => this.mapApiWarehouse(warehouse));
+  }
+
+  async createWarehouse(warehouse: WarehouseInput): Promise<Warehouse> {
+    const response = await authFetch(this.apiUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(warehouse),
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return this.mapApiWarehouse(await response.json());
+  }
+
+  async updateWarehouse(
+    id: string,
+    updates: Partial<WarehouseInput & { is_active: boolean }>
+  ): Promise<void> {
+    const response = await authFetch(`${this.apiUrl}/${id}`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(updates),
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+  }
+
+  async deleteWarehouse(id: string): Promise<void> {
+    const response = await authFetch(`${this.apiUrl}/${id}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+  }
+
+  async createLocation(
+    warehouseId: string,
+    location: StockLocationInput
+  ): Promise<StockLocation> {
+    const response = await authFetch(`${this.apiUrl}/${warehouseId}/locations`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(location),
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    return this.mapApiLocation(await response.json());
+  }
+
+  async updateLocation(
+    id: string,
+    updates: Partial<StockLocationInput>
+  ): Promise<void> {
+    const response = await authFetch(`${API_BASE_URL}/locations/${id}`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(updates),
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+  }
+
+  async deleteLocation(id: string): Promise<void> {
+    const response = await authFetch(`${API_BASE_URL}/locations/${id}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+  }
+
+  private mapApiWarehouse(warehouse: ApiWarehouse): Warehouse {
+    return {
+      ...warehouse,
+      id: warehouse.id.toString(),
+      is_active: Boolean(warehouse.is_active),
+      locations: (warehouse.locations ?? []).map((location) =>
+        this.mapApiLocation(location)
+      ),
+    };
+  }
+
+  private mapApiLocation(location: ApiStockLocation): StockLocation {
+    return {
+      ...location,
+      id: location.id.toString(),
+      warehouse_id: location.warehouse_id.toString(),
+      is_default: Boolean(location.is_default),
+      quantity: Number(location.quantity ?? 0),
+    };
+  }
+}
+
+export const warehouseService = new WarehouseService();
@@ -2,6 +2,25 @@
 
 export type UserRole = "admin" | "user" | "manager";
 
+// Keep in sync with shared/permissions.json, which the API enforces
+export type Permission =
+  | "requests:create"
+  | "requests:view_all"
+  | "requests:approve"
+  | "requests:delete"
+  | "items:write"
+  | "categories:write"
+  | "stock:adjust"
+  | "stock:count"
+  | "locations:manage"
+  | "purchasing:manage"
+  | "loans:borrow"
+  | "loans:manage"
+  | "reports:view"
+  | "users:read"
+  | "users:manage"
+  | "approvals:manage";
+
 export interface User {
   id: string;
   username: string;
@@ -9,8 +28,24 @@ export interface User {
   role: UserRole;
 }
 
+export interface AuthSession {
+  user: User;
+  accessToken: string;
+  refreshToken: string;
+  accessTokenExpiresAt: string;
+  refreshTokenExpiresAt: string;
+}
+
 export type RequestPriority = "high" | "medium" | "low";
-export type RequestStatus = "pending" | "approved" | "rejected" | "completed";
+export type RequestStatus =
+  | "pending"
+  | "in_review" // Approved by some steps of its approval chain, waiting on the next
+  | "approved"
+  | "rejected"
+  | "partially_fulfilled" // Some approved items were issued, the rest is back-ordered
+  | "completed";
+// Each line of a request is approved or rejected on its own
+export type RequestLineStatus = "pending" | "approved" | "rejected";
 
 // Allow any string as ItemCategory to support dynamic categories from the database
 export type ItemCategory = string;
@@ -28,6 +63,286 @@ export interface Item {
   price?: number;
   isActive?: number;
   unit?: string; // Unit of measurement (pcs, rim, box, etc.)
+  sku?: string | null; // The company's own item code, unique
+  barcode?: string | null; // EAN-13/EAN-8 or Code128 value, unique
+  // Tells variants of a product apart, e.g. { gsm: "80" }
+  variantAttributes?: Record<string, string>;
+  // Other units the item can be requested or moved in; stock is in unit
+  unitConversions?: UnitConversion[];
+  locations?: ItemLocationStock[]; // Stock held at each location
+}
+
+// A unit of measure items can be counted in
+export interface Unit {
+  code: string;
+  name: string;
+}
+
+// Another unit an item can be counted in; factor is how many of the item's
+// stock unit one of it holds, e.g. { unit: "box", factor: 5 } for paper
+// counted in rim
+export interface UnitConversion {
+  unit: string;
+  factor: number;
+}
+
+// How much of an item one bin location holds
+export interface ItemLocationStock {
+  location_id: string;
+  location_code: string;
+  warehouse_id: string;
+  warehouse_name: string;
+  quantity: number;
+}
+
+// A bin location inside a warehouse
+export interface StockLocation {
+  id: string;
+  warehouse_id: string;
+  code: string;
+  description: string | null;
+  // Stock without a location given goes here
+  is_default: boolean;
+  // Total stock held at the location
+  quantity: number;
+}
+
+export interface Warehouse {
+  id: string;
+  name: string;
+  address: string | null;
+  is_active: boolean;
+  locations: StockLocation[];
+}
+
+export type ItemStatus = Item["status"];
+
+export type ItemSortField = "name" | "category" | "quantity" | "status";
+
+// Filters, sorting and paging for item listings (GET /api/items)
+export interface ItemQuery {
+  search?: string;
+  category?: string;
+  status?: ItemStatus;
+  lowStock?: boolean;
+  warehouse?: string;
+  location?: string;
+  sort?: ItemSortField;
+  order?: "asc" | "desc";
+  page?: number;
+  pageSize?: number;
+}
+
+export interface PaginatedItems {
+  items: Item[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+// Kinds of stock movement (POST /api/items/:id/stock-movements)
+export type StockMovementType = "receive" | "issue" | "adjustment";
+
+// A change to an item's stock, recorded in its stock history
+export interface StockMovement {
+  id: string;
+  item_id: string;
+  type: StockMovementType;
+  delta: number; // In the item's stock unit
+  // What was entered, when the movement was entered in another unit
+  entered_quantity: number | null;
+  entered_unit: string | null;
+  // Cost of the movement, signed like delta
+  total_cost: number;
+  quantity_before: number;
+  quantity_after: number;
+  location_id: string;
+  reason: string | null;
+  created_at: string;
+}
+
+export interface StockMovementResult {
+  movement: StockMovement;
+  item: Item;
+}
+
+// Reorder point and order quantity suggested from how fast an item is
+// consumed (GET /api/items/reorder-suggestions). reorder_point and
+// suggested_order_quantity are null for items nothing was taken of.
+export interface ReorderSuggestion {
+  item_id: string;
+  item_name: string;
+  unit: string;
+  quantity: number;
+  min_quantity: number;
+  quantity_on_order: number;
+  consumed: number;
+  lookback_days: number;
+  average_daily_usage: number;
+  lead_time_days: number;
+  // False when the default lead time was assumed
+  lead_time_observed: boolean;
+  reorder_point: number | null;
+  suggested_order_quantity: number | null;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contact_name: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  notes: string | null;
+  is_active: boolean;
+}
+
+export type PurchaseOrderStatus =
+  | "draft"
+  | "sent"
+  | "partially_received"
+  | "received"
+  | "cancelled";
+
+export interface PurchaseOrderLine {
+  id: string;
+  item_id: string;
+  item_name: string;
+  unit: string | null;
+  quantity_on_hand: number;
+  quantity_ordered: number;
+  quantity_received: number;
+  quantity_outstanding: number;
+  unit_price: number;
+}
+
+// A delivery of one line, recorded as a stock_history entry
+export interface PurchaseOrderReceipt {
+  id: string;
+  item_id: string;
+  item_name: string;
+  quantity: number;
+  location_name: string | null;
+  received_by_name: string | null;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  po_number: string;
+  supplier_id: string;
+  supplier_name: string;
+  status: PurchaseOrderStatus;
+  expected_date: string | null;
+  notes: string | null;
+  created_by_name?: string | null;
+  created_at: string;
+  sent_at: string | null;
+  received_at: string | null;
+  // Only in listings
+  line_count?: number;
+  total_value?: number;
+  quantity_ordered?: number;
+  quantity_received?: number;
+  // Only when loaded on its own
+  lines?: PurchaseOrderLine[];
+  receipts?: PurchaseOrderReceipt[];
+}
+
+export type StockCountStatus = "open" | "posted" | "cancelled";
+
+// One item at one location in a stock count (opname)
+export interface StockCountLine {
+  id: string;
+  item_id: string;
+  item_name: string;
+  category: string | null;
+  unit: string | null;
+  location_id: string;
+  location_name: string;
+  // Frozen when the count was opened, like unit_price
+  expected_quantity: number;
+  unit_price: number;
+  counted_quantity: number | null;
+  counted_by_name: string | null;
+  counted_at: string | null;
+  note: string | null;
+  is_approved: boolean;
+  // Counted minus expected, and its value; null until counted
+  variance: number | null;
+  variance_value: number | null;
+}
+
+export interface StockCount {
+  id: string;
+  name: string;
+  category: string | null;
+  location_id: string | null;
+  location_name: string | null;
+  status: StockCountStatus;
+  notes: string | null;
+  created_by_name: string | null;
+  created_at: string;
+  posted_by_name?: string | null;
+  posted_at: string | null;
+  // Only in listings
+  line_count?: number;
+  counted_count?: number;
+  variance_value?: number;
+  // Only when loaded on its own
+  lines?: StockCountLine[];
+}
+
+// How stock-outs are costed: at the moving weighted average cost of what is
+// on hand, or at the cost of the oldest stock-ins left (FIFO)
+export type CostingMethod = "average" | "fifo";
+
+// Stock and its value in one category over a month
+export interface CategoryValuation {
+  category: string;
+  opening_quantity: number;
+  opening_value: number;
+  in_quantity: number;
+  in_value: number;
+  out_quantity: number;
+  out_value: number;
+  closing_quantity: number;
+  closing_value: number;
+}
+
+// Cost of the goods issued against one request during a month
+export interface RequestIssueCost {
+  request_id: string;
+  project_name: string | null;
+  requester_id: string | null;
+  requester_name: string;
+  quantity: number;
+  cost: number;
+}
+
+export interface RequesterIssueCost {
+  requester_id: string | null;
+  requester_name: string;
+  requests: number;
+  cost: number;
+}
+
+// Inventory valuation for a month (GET /api/reports/valuation)
+export interface InventoryValuation {
+  year: number;
+  month: number;
+  method: CostingMethod;
+  categories: CategoryValuation[];
+  totals: {
+    opening_value: number;
+    in_value: number;
+    out_value: number;
+    closing_value: number;
+  };
+  requests: RequestIssueCost[];
+  requesters: RequesterIssueCost[];
 }
 
 export interface ItemRequest {
@@ -47,17 +362,160 @@ export interface ItemRequest {
   projectName?: string;
   requesterName?: string;
   requesterEmail?: string;
-  items?: Array<{
-    item_id: string;
-    quantity: number;
-    name: string;
-    category: string;
-    stock_before?: number;
-    stock_after?: number;
-  }>;
+  items?: RequestLine[];
+  approvals?: ApprovalStep[];
+  attachments?: RequestAttachment[];
   unit?: string; // Unit of measurement for the requested item (pcs, rim, box, etc.)
   stock_before?: number; // Legacy/Single-item support
   stock_after?: number;
 }
 
+export type RequestSortField = "created_at" | "due_date" | "priority" | "status";
+
+// Filters, sorting and paging for request listings (GET /api/requests)
+export interface RequestQuery {
+  status?: RequestStatus | RequestStatus[];
+  priority?: RequestPriority;
+  requesterId?: string;
+  startDate?: string;
+  endDate?: string;
+  itemId?: string;
+  search?: string;
+  sort?: RequestSortField;
+  order?: "asc" | "desc";
+  page?: number;
+  pageSize?: number;
+  cursor?: string; // Only valid when sorting by created_at
+}
+
+// The filters a request list lets the user change
+export type RequestListFilters = Pick<
+  RequestQuery,
+  "search" | "status" | "priority" | "sort" | "order"
+>;
+
+export interface PaginatedRequests {
+  requests: ItemRequest[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+  nextCursor: string | null;
+  // Matches per status, ignoring the status filter
+  statusCounts: Partial<Record<RequestStatus, number>>;
+}
+
+export type ApprovalStepStatus = "pending" | "approved" | "rejected" | "skipped";
+
+// One step of a request's approval chain, as returned by the API. Steps with
+// the same step_order run in parallel.
+export interface ApprovalStep {
+  id: string;
+  rule_id: string | null;
+  step_order: number;
+  name: string;
+  approver_role: UserRole | null;
+  approver_id: string | null;
+  approver_name: string | null;
+  status: ApprovalStepStatus;
+  decided_by: string | null;
+  decided_by_name: string | null;
+  decided_at: string | null;
+  comment: string | null;
+}
+
+// A file attached to a request, as returned by the API
+export interface RequestAttachment {
+  id: string;
+  request_id: string;
+  file_name: string;
+  content_type: string;
+  size: number; // In bytes
+  uploaded_by: string | null;
+  uploaded_by_name: string | null;
+  created_at: string;
+}
+
+// A comment in a request's discussion thread, as returned by the API.
+// Replies carry the id of their top-level comment in parent_id.
+export interface RequestComment {
+  id: string;
+  request_id: string;
+  parent_id: string | null;
+  user_id: string | null;
+  author_name: string | null;
+  author_role: UserRole | null;
+  body: string; // Empty once the comment is deleted
+  mentions: string[]; // Ids of the users mentioned with @name
+  is_deleted: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// A user who can see a request and so can be mentioned in its comments
+export interface RequestParticipant {
+  id: string;
+  name: string;
+  role: UserRole;
+}
+
+// A rule that adds a step to the approval chain of matching requests. Empty
+// conditions always match.
+export interface ApprovalRule {
+  id: string;
+  name: string;
+  step_order: number;
+  category: string | null;
+  min_quantity: number | null;
+  min_value: number | null; // Total of quantity x item price
+  approver_role: UserRole | null;
+  approver_id: string | null; // Takes precedence over approver_role
+  approver_name?: string | null;
+  is_active: boolean;
+}
+
+// A single item line of a request, as returned by the API
+export interface RequestLine {
+  id: string;
+  item_id: string;
+  // Requested, approved and delivered quantities are in base_unit, the
+  // item's stock unit
+  quantity: number; // Requested
+  approved_quantity: number | null; // Null until the line is decided
+  delivered_quantity: number;
+  base_unit: string;
+  // What was asked for: requested_quantity of unit
+  requested_quantity: number;
+  unit: string;
+  conversion_factor: number; // How many base_unit one unit holds
+  status: RequestLineStatus;
+  name: string;
+  description?: string;
+  category: string;
+  stock_before?: number;
+  stock_after?: number;
+}
+
+// A line in the request builder, before the request is submitted
+export interface RequestLineDraft {
+  itemId: string;
+  itemName: string;
+  quantity: number; // In unit
+  unit: string;
+  baseUnit: string; // The item's stock unit
+  conversions: UnitConversion[]; // The other units the item can be requested in
+  available: number; // Stock on hand, in baseUnit, when the line was added
+}
+
+export interface NewItemRequest {
+  userId: string;
+  priority: RequestPriority;
+  description: string;
+  requestedDeliveryDate: string;
+  projectName?: string;
+  requesterName?: string;
+  attachments?: File[];
+  lines: RequestLineDraft[];
+}
+
 // Chat functionality removed
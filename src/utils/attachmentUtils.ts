@@ -0,0 +1,36 @@
+import { ATTACHMENT_EXTENSIONS, ATTACHMENT_MAX_SIZE } from "../config";
+
+/**
+ * Why a file cannot be attached to a request, or null when it can. Mirrors
+ * the checks made by the API.
+ * @param file The file to attach
+ */
+export const getAttachmentError = (file: File): string | null => {
+  const extension = file.name.slice(file.name.lastIndexOf(".")).toLowerCase();
+  if (!file.name.includes(".") || !ATTACHMENT_EXTENSIONS.includes(extension)) {
+    return `${file.name}: files of this type cannot be attached`;
+  }
+  if (file.size > ATTACHMENT_MAX_SIZE) {
+    return `${file.name}: attachments cannot be larger than ${formatFileSize(
+      ATTACHMENT_MAX_SIZE
+    )}`;
+  }
+  return null;
+};
+
+/**
+ * Format a size in bytes for display, e.g. "1.5 MB"
+ * @param bytes The size in bytes
+ */
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Whether an attachment can be shown in the browser instead of downloaded
+ * @param contentType The attachment's content type
+ */
+export const isPreviewableAttachment = (contentType: string): boolean =>
+  /^(image\/(jpeg|png|gif|webp)|application\/pdf)$/.test(contentType);
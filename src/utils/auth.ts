@@ -1,27 +1,30 @@
-import { User, UserRole } from "../types";
+import { AuthSession, Permission, User } from "../types";
 import { API_BASE_URL } from "../config";
+import { hasPermission } from "./permissions";
+
+const SESSION_STORAGE_KEY = "session";
+
+type SessionListener = (session: AuthSession | null, expired: boolean) => void;
 
 // Authentication service
 class AuthService {
-  private currentUser: User | null = null;
+  private session: AuthSession | null = null;
   private isAuthenticated: boolean = false;
   private apiUrl = API_BASE_URL;
+  private refreshPromise: Promise<AuthSession | null> | null = null;
+  private listeners = new Set<SessionListener>();
 
   async login(email: string, password: string): Promise<User> {
     try {
       console.log(`Attempting to login with email: ${email}`);
       console.log(`API URL: ${this.apiUrl}/auth/login`);
 
-      // Log the request payload
-      const payload = JSON.stringify({ email, password });
-      console.log(`Request payload: ${payload}`);
-
       const response = await fetch(`${this.apiUrl}/auth/login`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: payload,
+        body: JSON.stringify({ email, password }),
       });
 
       console.log(`Response status: ${response.status}`);
@@ -32,7 +35,6 @@ class AuthService {
 
       // Get the response text first
       const responseText = await response.text();
-      console.log(`Response text: ${responseText.substring(0, 100)}...`); // Log first 100 chars
 
       // Try to parse as JSON
       let data;
@@ -50,13 +52,8 @@ class AuthService {
         throw new Error(data.message || "Invalid email or password");
       }
 
-      console.log("Login response data:", data);
-
-      if (data.success && data.user) {
-        this.currentUser = data.user;
-        this.isAuthenticated = true;
-        localStorage.setItem("user", JSON.stringify(this.currentUser));
-        return this.currentUser;
+      if (data.success && data.user && data.accessToken) {
+        return this.startSession(data).user;
       } else {
         throw new Error("Login failed");
       }
@@ -71,16 +68,15 @@ class AuthService {
     try {
       console.log(`Attempting to register with email: ${email}`);
 
-      const response = await fetch(`${this.apiUrl}/users`, {
+      const response = await fetch(`${this.apiUrl}/auth/register`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          name: username,
+          username,
           email,
           password,
-          role: "user"
         }),
       });
 
@@ -92,7 +88,6 @@ class AuthService {
 
       // Get the response text first
       const responseText = await response.text();
-      console.log(`Response text: ${responseText.substring(0, 100)}...`); // Log first 100 chars
 
       // Try to parse as JSON
       let data;
@@ -110,13 +105,8 @@ class AuthService {
         throw new Error(data.message || "Registration failed");
       }
 
-      console.log("Registration response data:", data);
-
-      if (data.success && data.user) {
-        this.currentUser = data.user;
-        this.isAuthenticated = true;
-        localStorage.setItem("user", JSON.stringify(this.currentUser));
-        return this.currentUser;
+      if (data.success && data.user && data.accessToken) {
+        return this.startSession(data).user;
       } else {
         throw new Error("Registration failed");
       }
@@ -126,37 +116,137 @@ class AuthService {
     }
   }
 
+  // Exchange the refresh token for a new token pair. Concurrent callers
+  // share one in-flight refresh so a burst of 401s only refreshes once. The
+  // session is only expired when the API rejects the refresh token; other
+  // failures throw and keep it, so the refresh can be tried again.
+  async refreshSession(): Promise<AuthSession | null> {
+    if (this.refreshPromise) {
+      return this.refreshPromise;
+    }
+
+    const session = this.getSession();
+    if (!session || this.isExpired(session.refreshTokenExpiresAt)) {
+      this.expireSession();
+      return null;
+    }
+
+    this.refreshPromise = (async () => {
+      try {
+        const response = await fetch(`${this.apiUrl}/auth/refresh`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ refreshToken: session.refreshToken }),
+        });
+
+        if (response.status === 401 || response.status === 403) {
+          this.expireSession();
+          return null;
+        }
+        if (!response.ok) {
+          throw new Error(`HTTP error! Status: ${response.status}`);
+        }
+
+        const data = await response.json();
+        if (!data.success || !data.accessToken) {
+          throw new Error("Session refresh failed");
+        }
+
+        return this.startSession(data);
+      } catch (error) {
+        console.error("Session refresh error:", error);
+        throw error;
+      } finally {
+        this.refreshPromise = null;
+      }
+    })();
+
+    return this.refreshPromise;
+  }
+
   logout(): void {
-    this.currentUser = null;
-    this.isAuthenticated = false;
-    localStorage.removeItem("user");
+    this.clearSession();
+    this.notify(false);
   }
 
-  getUser(): User | null {
-    if (!this.currentUser) {
-      const storedUser = localStorage.getItem("user");
-      if (storedUser) {
-        this.currentUser = JSON.parse(storedUser);
-        this.isAuthenticated = true;
+  // Called when the session can no longer be refreshed
+  expireSession(): void {
+    if (!this.getSession()) return;
+    this.clearSession();
+    this.notify(true);
+  }
+
+  getSession(): AuthSession | null {
+    if (!this.session) {
+      const storedSession = localStorage.getItem(SESSION_STORAGE_KEY);
+      if (storedSession) {
+        try {
+          this.session = JSON.parse(storedSession);
+          this.isAuthenticated = true;
+        } catch (e) {
+          console.error("Failed to parse stored session:", e);
+          localStorage.removeItem(SESSION_STORAGE_KEY);
+        }
       }
     }
-    return this.currentUser;
+    return this.session;
+  }
+
+  getUser(): User | null {
+    return this.getSession()?.user ?? null;
+  }
+
+  getAccessToken(): string | null {
+    return this.getSession()?.accessToken ?? null;
   }
 
   checkAuth(): boolean {
-    this.getUser();
+    this.getSession();
     return this.isAuthenticated;
   }
 
-  hasRole(role: UserRole): boolean {
-    const user = this.getUser();
+  can(permission: Permission): boolean {
+    return hasPermission(this.getUser()?.role, permission);
+  }
 
-    // Special case for admin role - treat manager as admin too
-    if (role === "admin") {
-      return user?.role === "admin" || user?.role === "manager";
-    }
+  // Subscribe to login, logout, refresh and expiry events
+  subscribe(listener: SessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private startSession(data: AuthSession): AuthSession {
+    this.session = {
+      user: data.user,
+      accessToken: data.accessToken,
+      refreshToken: data.refreshToken,
+      accessTokenExpiresAt: data.accessTokenExpiresAt,
+      refreshTokenExpiresAt: data.refreshTokenExpiresAt,
+    };
+    this.isAuthenticated = true;
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(this.session));
+    this.notify(false);
+    return this.session;
+  }
+
+  private clearSession(): void {
+    this.session = null;
+    this.isAuthenticated = false;
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+    // Remove the user blob stored by earlier versions of the app
+    localStorage.removeItem("user");
+  }
+
+  private isExpired(timestamp: string): boolean {
+    return new Date(timestamp).getTime() <= Date.now();
+  }
 
-    return user?.role === role;
+  private notify(expired: boolean): void {
+    this.listeners.forEach((listener) => listener(this.session, expired));
   }
 }
 
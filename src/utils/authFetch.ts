@@ -0,0 +1,48 @@
+import { authService } from "./auth";
+
+const withAuthorization = (init: RequestInit, token: string | null): RequestInit => {
+  const headers = new Headers(init.headers);
+  if (token) {
+    headers.set("Authorization", `Bearer ${token}`);
+  }
+  return { ...init, headers };
+};
+
+/**
+ * Drop-in replacement for fetch() that sends the current access token.
+ * When the API answers 401 the session is refreshed once and the call is
+ * retried. If the refresh token is rejected the session is expired and the
+ * 401 response is returned to the caller; if the refresh could not be done,
+ * e.g. the network is down, its error is thrown and the session kept.
+ */
+export async function authFetch(
+  input: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const token = authService.getAccessToken();
+  const response = await fetch(input, withAuthorization(init, token));
+
+  if (response.status !== 401 || !token) {
+    return response;
+  }
+
+  const session = await authService.refreshSession();
+  if (!session) {
+    return response;
+  }
+
+  return fetch(input, withAuthorization(init, session.accessToken));
+}
+
+/**
+ * The API's error message for a failed response, or its HTTP status when
+ * there is none
+ */
+export async function getErrorMessage(response: Response): Promise<string> {
+  try {
+    const data = await response.json();
+    return data.message || `HTTP error! Status: ${response.status}`;
+  } catch {
+    return `HTTP error! Status: ${response.status}`;
+  }
+}
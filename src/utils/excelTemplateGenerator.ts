@@ -1,5 +1,7 @@
 import * as XLSX from "xlsx";
-import { ItemRequest } from "../types";
+import { InventoryValuation, ItemRequest } from "../types";
+import { formatRequestStatus } from "./requestUtils";
+import { costingMethodLabels } from "./valuationUtils";
 
 /**
  * Generates an Excel template file for importing inventory items
@@ -18,6 +20,8 @@ export const generateInventoryTemplate = (): Blob => {
       quantity: 10,
       minQuantity: 2,
       location: "Main Storage",
+      sku: "ELC-XPS13",
+      barcode: "5901234123457",
     },
     {
       name: "Office Chair",
@@ -26,6 +30,8 @@ export const generateInventoryTemplate = (): Blob => {
       quantity: 5,
       minQuantity: 1,
       location: "Office Room",
+      sku: "FRN-CHAIR",
+      barcode: "",
     },
     {
       name: "Stapler",
@@ -34,6 +40,8 @@ export const generateInventoryTemplate = (): Blob => {
       quantity: 15,
       minQuantity: 3,
       location: "Supply Closet",
+      sku: "OFS-STAPLER",
+      barcode: "",
     },
   ];
 
@@ -48,6 +56,8 @@ export const generateInventoryTemplate = (): Blob => {
     { wch: 10 }, // quantity
     { wch: 12 }, // minQuantity
     { wch: 15 }, // location
+    { wch: 15 }, // sku
+    { wch: 16 }, // barcode
   ];
 
   ws["!cols"] = colWidths;
@@ -103,7 +113,7 @@ export const exportRequestsToExcel = (
     "Stock Sebelum": request.items && request.items.length > 0 ? request.items[0].stock_before ?? "" : "",
     "Stock Sesudah": request.items && request.items.length > 0 ? request.items[0].stock_after ?? "" : "",
     "Priority": request.priority.charAt(0).toUpperCase() + request.priority.slice(1),
-    "Status": request.status.charAt(0).toUpperCase() + request.status.slice(1),
+    "Status": formatRequestStatus(request.status),
     "Requester": request.requesterName || `User ${request.userId}`,
     "Email": request.requesterEmail || "",
     "Project": request.projectName || "",
@@ -256,7 +266,7 @@ export const exportMonthlyReportToExcel = (
     "Stock Sebelum": request.items && request.items.length > 0 ? request.items[0].stock_before ?? "" : "",
     "Stock Sesudah": request.items && request.items.length > 0 ? request.items[0].stock_after ?? "" : "",
     "Priority": request.priority.charAt(0).toUpperCase() + request.priority.slice(1),
-    "Status": request.status.charAt(0).toUpperCase() + request.status.slice(1),
+    "Status": formatRequestStatus(request.status),
     "Requester": request.requesterName || `User ${request.userId}`,
     "Email": request.requesterEmail || "",
     "Project": request.projectName || "",
@@ -342,3 +352,95 @@ export const downloadMonthlyReportExcel = (
   document.body.removeChild(link);
   URL.revokeObjectURL(url);
 };
+
+/**
+ * Exports an inventory valuation to an Excel workbook, with sheets for the
+ * value by category and the cost of goods issued per request and requester
+ * @param valuation Inventory valuation for the month
+ * @returns Blob of the Excel file
+ */
+export const exportValuationReportToExcel = (valuation: InventoryValuation): Blob => {
+  const wb = XLSX.utils.book_new();
+  const monthName = new Date(valuation.year, valuation.month - 1).toLocaleString('default', { month: 'long' });
+
+  const categoryData: Record<string, string | number>[] = valuation.categories.map((category) => ({
+    "Category": category.category,
+    "Opening Qty": category.opening_quantity,
+    "Opening Value": category.opening_value,
+    "In Qty": category.in_quantity,
+    "In Value": category.in_value,
+    "Out Qty": category.out_quantity,
+    "Out Value": category.out_value,
+    "Closing Qty": category.closing_quantity,
+    "Closing Value": category.closing_value,
+  }));
+  categoryData.push({
+    "Category": "TOTAL",
+    "Opening Value": valuation.totals.opening_value,
+    "In Value": valuation.totals.in_value,
+    "Out Value": valuation.totals.out_value,
+    "Closing Value": valuation.totals.closing_value,
+  });
+
+  const categoryWs = XLSX.utils.json_to_sheet(categoryData);
+  XLSX.utils.sheet_add_aoa(
+    categoryWs,
+    [[], [`Period: ${monthName} ${valuation.year}`], [`Costing method: ${costingMethodLabels[valuation.method]}`]],
+    { origin: -1 }
+  );
+  categoryWs["!cols"] = [
+    { wch: 25 }, // Category
+    { wch: 12 }, { wch: 15 }, // Opening
+    { wch: 10 }, { wch: 15 }, // In
+    { wch: 10 }, { wch: 15 }, // Out
+    { wch: 12 }, { wch: 15 }, // Closing
+  ];
+  XLSX.utils.book_append_sheet(wb, categoryWs, "By Category");
+
+  const requestWs = XLSX.utils.json_to_sheet(
+    valuation.requests.map((request, index) => ({
+      "No.": index + 1,
+      "Request ID": request.request_id,
+      "Project": request.project_name || "",
+      "Requester": request.requester_name,
+      "Quantity Issued": request.quantity,
+      "Cost": request.cost,
+    }))
+  );
+  requestWs["!cols"] = [{ wch: 5 }, { wch: 15 }, { wch: 25 }, { wch: 20 }, { wch: 15 }, { wch: 15 }];
+  XLSX.utils.book_append_sheet(wb, requestWs, "Issued per Request");
+
+  const requesterWs = XLSX.utils.json_to_sheet(
+    valuation.requesters.map((requester) => ({
+      "Requester": requester.requester_name,
+      "Requests": requester.requests,
+      "Cost": requester.cost,
+    }))
+  );
+  requesterWs["!cols"] = [{ wch: 25 }, { wch: 10 }, { wch: 15 }];
+  XLSX.utils.book_append_sheet(wb, requesterWs, "Issued per Requester");
+
+  const excelBuffer = XLSX.write(wb, { bookType: "xlsx", type: "array" });
+  return new Blob([excelBuffer], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+};
+
+/**
+ * Triggers a download of the inventory valuation Excel file
+ * @param valuation Inventory valuation for the month
+ */
+export const downloadValuationReportExcel = (valuation: InventoryValuation): void => {
+  const monthName = new Date(valuation.year, valuation.month - 1).toLocaleString('default', { month: 'long' });
+  const blob = exportValuationReportToExcel(valuation);
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `valuation_report_${monthName.toLowerCase()}_${valuation.year}.xlsx`;
+  document.body.appendChild(link);
+  link.click();
+
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
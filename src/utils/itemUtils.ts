@@ -38,3 +38,40 @@ export const validateItemId = (itemId: string | number | undefined): number | nu
 export const isValidItemId = (itemId: string | number | undefined): boolean => {
   return validateItemId(itemId) !== null;
 };
+
+/**
+ * Describes an item's variant attributes, e.g. "gsm: 80 · colour: white"
+ * @param attributes The item's variant attributes
+ * @returns The description, or an empty string when there are none
+ */
+export const formatVariantAttributes = (
+  attributes: Record<string, string> | undefined
+): string =>
+  Object.entries(attributes || {})
+    .map(([name, value]) => `${name}: ${value}`)
+    .join(' · ');
+
+/**
+ * Finds SKUs or barcodes used more than once, e.g. in rows being imported.
+ * SKUs are compared ignoring case, like the server does.
+ * @param codes The SKUs or barcodes, blanks included
+ * @param ignoreCase Whether codes differing only in case are the same
+ * @returns Each duplicated code once
+ */
+export const findDuplicateCodes = (
+  codes: (string | null | undefined)[],
+  ignoreCase = false
+): string[] => {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  codes.forEach((code) => {
+    const value = code?.trim();
+    if (!value) return;
+    const key = ignoreCase ? value.toLowerCase() : value;
+    if (seen.has(key)) {
+      duplicates.add(value);
+    }
+    seen.add(key);
+  });
+  return [...duplicates];
+};
@@ -0,0 +1,139 @@
+import { Item } from "../types";
+import { getLocationLabel } from "./locationUtils";
+
+// How the item's code is printed on a label
+export type LabelSymbology = "qr" | "code128";
+
+// A sheet of self-adhesive labels on A4 paper; sizes in millimetres
+export interface LabelSheet {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+  columns: number;
+  rows: number;
+  marginLeft: number;
+  marginTop: number;
+  gapX: number;
+  gapY: number;
+}
+
+/**
+ * Common A4 label sheets: small shelf labels, medium ones and large asset
+ * labels
+ */
+export const LABEL_SHEETS: LabelSheet[] = [
+  {
+    id: "small",
+    label: "Small shelf label, 38 x 21 mm (65 per sheet)",
+    width: 38.1,
+    height: 21.2,
+    columns: 5,
+    rows: 13,
+    marginLeft: 4.7,
+    marginTop: 10.7,
+    gapX: 2.5,
+    gapY: 0,
+  },
+  {
+    id: "medium",
+    label: "Medium label, 63.5 x 38.1 mm (21 per sheet)",
+    width: 63.5,
+    height: 38.1,
+    columns: 3,
+    rows: 7,
+    marginLeft: 7.2,
+    marginTop: 15.1,
+    gapX: 2.5,
+    gapY: 0,
+  },
+  {
+    id: "large",
+    label: "Large asset label, 99.1 x 67.7 mm (8 per sheet)",
+    width: 99.1,
+    height: 67.7,
+    columns: 2,
+    rows: 4,
+    marginLeft: 4.65,
+    marginTop: 13.1,
+    gapX: 2.5,
+    gapY: 0,
+  },
+];
+
+export const labelSymbologyOptions = [
+  { value: "qr", label: "QR code" },
+  { value: "code128", label: "Barcode (Code128)" },
+];
+
+/**
+ * The code a label carries for an item: its barcode, otherwise its SKU,
+ * otherwise its id
+ */
+export const getLabelCode = (
+  item: Pick<Item, "id" | "sku" | "barcode">
+): string => item.barcode || item.sku || `ITEM-${item.id}`;
+
+/**
+ * Where an item is kept, for its shelf label: the location holding most of
+ * it, or an empty string when no location holds any
+ */
+export const getLabelLocation = (item: Pick<Item, "locations">): string => {
+  const locations = (item.locations || []).filter(
+    (location) => location.quantity > 0
+  );
+  if (locations.length === 0) return "";
+
+  const main = locations.reduce((most, location) =>
+    location.quantity > most.quantity ? location : most
+  );
+  return getLocationLabel(main.warehouse_name, main.location_code);
+};
+
+// Bar and space widths, in modules, of every Code128 symbol value; 103 to
+// 105 start code sets A, B and C, and 106 is the stop pattern
+const CODE128_PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312",
+  "132212", "221213", "221312", "231212", "112232", "122132", "122231", "113222",
+  "123122", "123221", "223211", "221132", "221231", "213212", "223112", "312131",
+  "311222", "321122", "321221", "312212", "322112", "322211", "212123", "212321",
+  "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121",
+  "313121", "211331", "231131", "213113", "213311", "213131", "311123", "311321",
+  "331121", "312113", "312311", "332111", "314111", "221411", "431111", "111224",
+  "111422", "121124", "121421", "141122", "141221", "112214", "112412", "122114",
+  "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112",
+  "421211", "212141", "214121", "412121", "111143", "111341", "131141", "114113",
+  "114311", "411113", "411311", "113141", "114131", "311141", "411131", "211412",
+  "211214", "211232", "2331112",
+];
+
+const CODE128_START_B = 104;
+const CODE128_STOP = 106;
+
+/**
+ * Encode a value as a Code128 symbol in code set B, which covers printable
+ * ASCII
+ * @param value The text to encode
+ * @returns Alternating bar and space widths in modules, starting with a bar
+ */
+export const encodeCode128 = (value: string): number[] => {
+  const symbols = [...value].map((char) => {
+    const code = char.charCodeAt(0);
+    if (code < 32 || code > 126) {
+      throw new Error(`Code128 cannot encode "${char}"`);
+    }
+    return code - 32;
+  });
+
+  const checksum =
+    symbols.reduce(
+      (sum, symbol, index) => sum + symbol * (index + 1),
+      CODE128_START_B
+    ) % 103;
+
+  return [CODE128_START_B, ...symbols, checksum, CODE128_STOP].flatMap(
+    (symbol) => [...CODE128_PATTERNS[symbol]].map(Number)
+  );
+};
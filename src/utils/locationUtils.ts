@@ -0,0 +1,83 @@
+import { ItemQuery, StockLocation, Warehouse } from "../types";
+
+/**
+ * Name of a bin location together with its warehouse, e.g.
+ * "Main Warehouse / A-01"
+ */
+export const getLocationLabel = (warehouseName: string, code: string) =>
+  `${warehouseName} / ${code}`;
+
+/**
+ * Options for picking a single bin location, e.g. to move stock to
+ */
+export const getLocationOptions = (warehouses: Warehouse[]) =>
+  warehouses.flatMap((warehouse) =>
+    warehouse.locations.map((location) => ({
+      value: location.id,
+      label: getLocationLabel(warehouse.name, location.code),
+    }))
+  );
+
+/**
+ * The location stock goes to when none is chosen
+ */
+export const getDefaultLocation = (
+  warehouses: Warehouse[]
+): StockLocation | undefined => {
+  const locations = warehouses.flatMap((warehouse) => warehouse.locations);
+  return locations.find((location) => location.is_default) ?? locations[0];
+};
+
+/**
+ * Options for filtering item listings by a whole warehouse or one of its
+ * bins. Values are "warehouse:<id>" or "location:<id>"; see toLocationQuery.
+ */
+export const getLocationFilterOptions = (warehouses: Warehouse[]) => [
+  { value: "all", label: "All Locations" },
+  ...warehouses.flatMap((warehouse) => [
+    { value: `warehouse:${warehouse.id}`, label: warehouse.name },
+    ...warehouse.locations.map((location) => ({
+      value: `location:${location.id}`,
+      label: `— ${getLocationLabel(warehouse.name, location.code)}`,
+    })),
+  ]),
+];
+
+/**
+ * Turn a location filter value into the matching item query parameters
+ */
+export const toLocationQuery = (
+  value: string
+): Pick<ItemQuery, "warehouse" | "location"> => {
+  const [kind, id] = value.split(":");
+  if (kind === "warehouse") return { warehouse: id };
+  if (kind === "location") return { location: id };
+  return {};
+};
+
+/**
+ * Find the location a name refers to, e.g. from the location column of an
+ * imported spreadsheet: either "Warehouse / CODE" or just a warehouse name,
+ * which stands for that warehouse's default (or first) bin
+ */
+export const findLocationByName = (
+  warehouses: Warehouse[],
+  name: string
+): StockLocation | undefined => {
+  const wanted = name.trim().toLowerCase();
+  if (!wanted) return undefined;
+
+  for (const warehouse of warehouses) {
+    const warehouseName = warehouse.name.toLowerCase();
+    const location = warehouse.locations.find(
+      (location) =>
+        getLocationLabel(warehouseName, location.code.toLowerCase()) === wanted
+    );
+    if (location) return location;
+
+    if (warehouseName === wanted) {
+      return getDefaultLocation([warehouse]);
+    }
+  }
+  return undefined;
+};
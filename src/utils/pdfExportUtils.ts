@@ -1,6 +1,16 @@
 import jsPDF from 'jspdf';
 import 'jspdf-autotable';
-import { ItemRequest } from '../types';
+import QRCode from 'qrcode';
+import { InventoryValuation, Item, ItemRequest, StockCount } from '../types';
+import { formatVariantAttributes } from './itemUtils';
+import { costingMethodLabels, formatValue } from './valuationUtils';
+import {
+  encodeCode128,
+  getLabelCode,
+  getLabelLocation,
+  LabelSheet,
+  LabelSymbology
+} from './labelUtils';
 
 // Type for jsPDF with autoTable plugin
 type jsPDFWithPlugin = jsPDF & {
@@ -178,7 +188,7 @@ export const exportMonthlyReportToPDF = (
       request.itemName.length > 20 ? request.itemName.substring(0, 17) + '...' : request.itemName,
       request.quantity.toString(),
       request.priority.charAt(0).toUpperCase(),
-      request.status.charAt(0).toUpperCase(),
+      request.status === 'partially_fulfilled' ? 'PF' : request.status.charAt(0).toUpperCase(),
       request.requesterName && request.requesterName.length > 15 
         ? request.requesterName.substring(0, 12) + '...' 
         : request.requesterName || 'Unknown',
@@ -272,4 +282,473 @@ export const downloadMonthlyReportPDF = (
 
   document.body.removeChild(link);
   URL.revokeObjectURL(url);
-};
\ No newline at end of file
+};
+
+/**
+ * Exports a printable count sheet for a stock count, one row per item and
+ * location with space to write the counted quantity
+ * @param count Stock count with its lines
+ * @param includeExpected Whether to print the expected quantities; leave them
+ * out for a blind count
+ * @returns Blob of the PDF file
+ */
+export const exportStockCountSheetToPDF = (
+  count: StockCount,
+  includeExpected = false
+): Blob => {
+  const doc = new jsPDF() as jsPDFWithPlugin;
+  let yPosition = 20;
+
+  doc.setFontSize(18);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Stock Count Sheet', 20, yPosition);
+  yPosition += 10;
+
+  doc.setFontSize(12);
+  doc.text(count.name, 20, yPosition);
+  yPosition += 7;
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Category: ${count.category || 'All categories'}`, 20, yPosition);
+  yPosition += 5;
+  doc.text(`Location: ${count.location_name || 'All locations'}`, 20, yPosition);
+  yPosition += 5;
+  doc.text(`Opened: ${new Date(count.created_at).toLocaleDateString()}`, 20, yPosition);
+  yPosition += 8;
+
+  const head = includeExpected
+    ? ['#', 'Location', 'Item', 'Unit', 'Expected', 'Counted', 'Note']
+    : ['#', 'Location', 'Item', 'Unit', 'Counted', 'Note'];
+  const body = (count.lines || []).map((line, index) => {
+    const row = [
+      (index + 1).toString(),
+      line.location_name,
+      line.item_name,
+      line.unit || 'pcs',
+    ];
+    if (includeExpected) row.push(line.expected_quantity.toString());
+    return [...row, '', ''];
+  });
+
+  doc.autoTable({
+    startY: yPosition,
+    head: [head],
+    body,
+    theme: 'grid',
+    headStyles: { fillColor: [52, 73, 94], fontSize: 9 },
+    bodyStyles: { fontSize: 8, minCellHeight: 8 },
+    columnStyles: includeExpected
+      ? {
+          0: { cellWidth: 10, halign: 'center' },
+          1: { cellWidth: 35 },
+          2: { cellWidth: 50 },
+          3: { cellWidth: 15, halign: 'center' },
+          4: { cellWidth: 18, halign: 'center' },
+          5: { cellWidth: 18 },
+          6: { cellWidth: 24 }
+        }
+      : {
+          0: { cellWidth: 10, halign: 'center' },
+          1: { cellWidth: 40 },
+          2: { cellWidth: 60 },
+          3: { cellWidth: 15, halign: 'center' },
+          4: { cellWidth: 20 },
+          5: { cellWidth: 25 }
+        },
+    margin: { left: 20, right: 20 }
+  });
+
+  yPosition = doc.lastAutoTable?.finalY ? doc.lastAutoTable.finalY + 20 : yPosition + 50;
+  if (yPosition > 260) {
+    doc.addPage();
+    yPosition = 30;
+  }
+
+  // Space for the counters to sign off the sheet
+  doc.setFontSize(10);
+  doc.text('Counted by: ____________________', 20, yPosition);
+  doc.text('Date: ______________', 130, yPosition);
+
+  const pageCount = doc.internal.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    doc.text(
+      `Generated on ${new Date().toLocaleDateString()} - Page ${i} of ${pageCount}`,
+      20,
+      doc.internal.pageSize.height - 10
+    );
+  }
+
+  return doc.output('blob');
+};
+
+/**
+ * Triggers a download of the count sheet PDF file for a stock count
+ * @param count Stock count with its lines
+ * @param includeExpected Whether to print the expected quantities
+ */
+export const downloadStockCountSheetPDF = (
+  count: StockCount,
+  includeExpected = false
+): void => {
+  const blob = exportStockCountSheetToPDF(count, includeExpected);
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `stock_count_${count.id}.pdf`;
+  document.body.appendChild(link);
+  link.click();
+
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Options for a sheet of item labels
+ */
+export interface ItemLabelOptions {
+  sheet: LabelSheet;
+  symbology: LabelSymbology;
+  // Labels printed for every item
+  copies?: number;
+  // Labels already used on the first sheet, which are left blank
+  skip?: number;
+}
+
+// Quiet zone on either side of a Code128 symbol, in modules
+const CODE128_QUIET_ZONE = 10;
+
+/**
+ * Draws a QR code of a value as vector squares
+ */
+const drawQRCode = (doc: jsPDF, value: string, x: number, y: number, size: number) => {
+  const { modules } = QRCode.create(value, { errorCorrectionLevel: 'M' });
+  const moduleSize = size / modules.size;
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (modules.get(row, col)) {
+        doc.rect(x + col * moduleSize, y + row * moduleSize, moduleSize, moduleSize, 'F');
+      }
+    }
+  }
+};
+
+/**
+ * Draws a Code128 barcode of a value as vector bars, quiet zones included
+ */
+const drawCode128 = (
+  doc: jsPDF,
+  value: string,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) => {
+  const widths = encodeCode128(value);
+  const totalModules =
+    widths.reduce((sum, moduleCount) => sum + moduleCount, 0) + CODE128_QUIET_ZONE * 2;
+  const moduleWidth = width / totalModules;
+  let position = x + CODE128_QUIET_ZONE * moduleWidth;
+  widths.forEach((moduleCount, index) => {
+    // Even entries are bars, odd ones the spaces between them
+    if (index % 2 === 0) {
+      doc.rect(position, y, moduleCount * moduleWidth, height, 'F');
+    }
+    position += moduleCount * moduleWidth;
+  });
+};
+
+/**
+ * Draws one item label with its top left corner at x, y
+ */
+const drawItemLabel = (
+  doc: jsPDF,
+  item: Item,
+  x: number,
+  y: number,
+  { sheet, symbology }: ItemLabelOptions
+) => {
+  const padding = Math.min(sheet.height * 0.08, 3);
+  const code = getLabelCode(item);
+  const details = [
+    formatVariantAttributes(item.variantAttributes),
+    `Unit: ${item.unit || 'pcs'}`,
+    getLabelLocation(item)
+  ].filter(Boolean);
+  // Font sizes follow the label height so small labels stay legible
+  const nameSize = Math.min(Math.max(sheet.height / 3.2, 6), 14);
+  const detailSize = Math.max(nameSize * 0.7, 5);
+  const lineHeight = (size: number) => size * 0.42;
+
+  doc.setTextColor(0, 0, 0);
+  doc.setFillColor(0, 0, 0);
+
+  if (symbology === 'qr') {
+    // QR code on the left, text beside it
+    const qrSize = sheet.height - padding * 2;
+    drawQRCode(doc, code, x + padding, y + padding, qrSize);
+
+    const textX = x + padding * 2 + qrSize;
+    const textWidth = sheet.width - qrSize - padding * 3;
+    let textY = y + padding + lineHeight(nameSize);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(nameSize);
+    const nameLines = doc.splitTextToSize(item.name, textWidth).slice(0, 2);
+    doc.text(nameLines, textX, textY);
+    textY += nameLines.length * lineHeight(nameSize) + 0.5;
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(detailSize);
+    [...details, code].forEach((line) => {
+      if (textY > y + sheet.height - padding) return;
+      doc.text(doc.splitTextToSize(line, textWidth)[0], textX, textY);
+      textY += lineHeight(detailSize) + 0.3;
+    });
+    return;
+  }
+
+  // Name above the barcode, the code and details below it
+  const textWidth = sheet.width - padding * 2;
+  let textY = y + padding + lineHeight(nameSize);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(nameSize);
+  doc.text(doc.splitTextToSize(item.name, textWidth)[0], x + padding, textY);
+  textY += 1;
+
+  const detailLines = sheet.height >= 30 ? details : details.slice(0, 1);
+  const bottomHeight = (detailLines.length + 1) * (lineHeight(detailSize) + 0.3);
+  const barHeight = y + sheet.height - padding - bottomHeight - textY;
+  drawCode128(doc, code, x + padding, textY, textWidth, barHeight);
+  textY += barHeight + lineHeight(detailSize) + 0.3;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(detailSize);
+  doc.text(code, x + sheet.width / 2, textY, { align: 'center' });
+  detailLines.forEach((line) => {
+    textY += lineHeight(detailSize) + 0.3;
+    doc.text(doc.splitTextToSize(line, textWidth)[0], x + padding, textY);
+  });
+};
+
+/**
+ * Exports a sheet of item labels with a QR code or Code128 barcode of each
+ * item's code, its name, unit and location, laid out for A4 label paper
+ * @param items Items to print labels for
+ * @param options Label sheet, symbology, copies per item and labels to skip
+ * @returns Blob of the PDF file
+ */
+export const exportItemLabelsToPDF = (items: Item[], options: ItemLabelOptions): Blob => {
+  const { sheet, copies = 1, skip = 0 } = options;
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const perSheet = sheet.columns * sheet.rows;
+  const labels = items.flatMap((item) => Array<Item>(Math.max(copies, 1)).fill(item));
+
+  labels.forEach((item, index) => {
+    const position = index + skip;
+    if (position > 0 && position % perSheet === 0) {
+      doc.addPage();
+    }
+    const slot = position % perSheet;
+    const column = slot % sheet.columns;
+    const row = Math.floor(slot / sheet.columns);
+    drawItemLabel(
+      doc,
+      item,
+      sheet.marginLeft + column * (sheet.width + sheet.gapX),
+      sheet.marginTop + row * (sheet.height + sheet.gapY),
+      options
+    );
+  });
+
+  return doc.output('blob');
+};
+
+/**
+ * Triggers a download of the label sheet PDF file for the given items
+ * @param items Items to print labels for
+ * @param options Label sheet, symbology, copies per item and labels to skip
+ */
+export const downloadItemLabelsPDF = (items: Item[], options: ItemLabelOptions): void => {
+  const blob = exportItemLabelsToPDF(items, options);
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `item_labels_${new Date().toISOString().slice(0, 10)}.pdf`;
+  document.body.appendChild(link);
+  link.click();
+
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Exports an inventory valuation to PDF: the value by category, then the
+ * cost of goods issued per requester and per request
+ * @param valuation Inventory valuation for the month
+ * @returns Blob of the PDF file
+ */
+export const exportValuationReportToPDF = (valuation: InventoryValuation): Blob => {
+  const doc = new jsPDF({ orientation: 'landscape' }) as jsPDFWithPlugin;
+  const monthName = new Date(valuation.year, valuation.month - 1).toLocaleString('default', { month: 'long' });
+  let yPosition = 20;
+
+  doc.setFontSize(18);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Inventory Valuation Report', 20, yPosition);
+  yPosition += 10;
+
+  doc.setFontSize(12);
+  doc.text(`Period: ${monthName} ${valuation.year}`, 20, yPosition);
+  yPosition += 6;
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Costing method: ${costingMethodLabels[valuation.method]}`, 20, yPosition);
+  yPosition += 8;
+
+  doc.autoTable({
+    startY: yPosition,
+    head: [['Category', 'Opening Qty', 'Opening Value', 'In Qty', 'In Value', 'Out Qty', 'Out Value', 'Closing Qty', 'Closing Value']],
+    body: valuation.categories.map((category) => [
+      category.category,
+      category.opening_quantity.toLocaleString(),
+      formatValue(category.opening_value),
+      category.in_quantity.toLocaleString(),
+      formatValue(category.in_value),
+      category.out_quantity.toLocaleString(),
+      formatValue(category.out_value),
+      category.closing_quantity.toLocaleString(),
+      formatValue(category.closing_value)
+    ]),
+    foot: [[
+      'Total',
+      '',
+      formatValue(valuation.totals.opening_value),
+      '',
+      formatValue(valuation.totals.in_value),
+      '',
+      formatValue(valuation.totals.out_value),
+      '',
+      formatValue(valuation.totals.closing_value)
+    ]],
+    theme: 'striped',
+    headStyles: { fillColor: [41, 128, 185] },
+    footStyles: { fillColor: [236, 240, 241], textColor: [0, 0, 0] },
+    columnStyles: {
+      1: { halign: 'right' },
+      2: { halign: 'right' },
+      3: { halign: 'right' },
+      4: { halign: 'right' },
+      5: { halign: 'right' },
+      6: { halign: 'right' },
+      7: { halign: 'right' },
+      8: { halign: 'right' }
+    },
+    margin: { left: 20, right: 20 }
+  });
+
+  yPosition = doc.lastAutoTable?.finalY ? doc.lastAutoTable.finalY + 15 : yPosition + 50;
+
+  if (valuation.requesters.length > 0) {
+    if (yPosition > 170) {
+      doc.addPage();
+      yPosition = 20;
+    }
+
+    doc.setFontSize(14);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Cost of Goods Issued per Requester', 20, yPosition);
+    yPosition += 5;
+
+    doc.autoTable({
+      startY: yPosition,
+      head: [['Requester', 'Requests', 'Cost']],
+      body: valuation.requesters.map((requester) => [
+        requester.requester_name,
+        requester.requests.toString(),
+        formatValue(requester.cost)
+      ]),
+      theme: 'striped',
+      headStyles: { fillColor: [52, 152, 219] },
+      columnStyles: {
+        0: { cellWidth: 100 },
+        1: { cellWidth: 30, halign: 'center' },
+        2: { cellWidth: 40, halign: 'right' }
+      },
+      margin: { left: 20, right: 20 }
+    });
+
+    yPosition = doc.lastAutoTable?.finalY ? doc.lastAutoTable.finalY + 15 : yPosition + 50;
+  }
+
+  if (valuation.requests.length > 0) {
+    if (yPosition > 170) {
+      doc.addPage();
+      yPosition = 20;
+    }
+
+    doc.setFontSize(14);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Cost of Goods Issued per Request', 20, yPosition);
+    yPosition += 5;
+
+    doc.autoTable({
+      startY: yPosition,
+      head: [['#', 'Request ID', 'Project', 'Requester', 'Qty Issued', 'Cost']],
+      body: valuation.requests.map((request, index) => [
+        (index + 1).toString(),
+        request.request_id,
+        request.project_name || '-',
+        request.requester_name,
+        request.quantity.toLocaleString(),
+        formatValue(request.cost)
+      ]),
+      theme: 'striped',
+      headStyles: { fillColor: [52, 152, 219] },
+      bodyStyles: { fontSize: 8 },
+      columnStyles: {
+        0: { cellWidth: 10, halign: 'center' },
+        4: { halign: 'right' },
+        5: { halign: 'right' }
+      },
+      margin: { left: 20, right: 20 }
+    });
+  }
+
+  const pageCount = doc.internal.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    doc.text(
+      `Generated on ${new Date().toLocaleDateString()} - Page ${i} of ${pageCount}`,
+      20,
+      doc.internal.pageSize.height - 10
+    );
+  }
+
+  return doc.output('blob');
+};
+
+/**
+ * Triggers a download of the inventory valuation PDF file
+ * @param valuation Inventory valuation for the month
+ */
+export const downloadValuationReportPDF = (valuation: InventoryValuation): void => {
+  const monthName = new Date(valuation.year, valuation.month - 1).toLocaleString('default', { month: 'long' });
+  const blob = exportValuationReportToPDF(valuation);
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `valuation_report_${monthName.toLowerCase()}_${valuation.year}.pdf`;
+  document.body.appendChild(link);
+  link.click();
+
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,21 @@
+/**
+ * Role/permission matrix shared with the API (see shared/permissions.json)
+ */
+import permissionTable from "../../shared/permissions.json";
+import { Permission, UserRole } from "../types";
+
+const rolePermissions = permissionTable.roles as Record<UserRole, Permission[]>;
+
+/**
+ * Checks whether a role is granted a permission
+ * @param role The user's role, or undefined when logged out
+ * @param permission The permission to check
+ * @returns True if the role includes the permission
+ */
+export const hasPermission = (
+  role: UserRole | undefined,
+  permission: Permission
+): boolean => {
+  if (!role) return false;
+  return (rolePermissions[role] || []).includes(permission);
+};
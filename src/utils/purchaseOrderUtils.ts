@@ -0,0 +1,41 @@
+import { PurchaseOrderLine, PurchaseOrderStatus } from "../types";
+
+/**
+ * Utility functions for purchase orders
+ */
+
+export const purchaseOrderStatusBadges: Record<
+  PurchaseOrderStatus,
+  { label: string; variant: "default" | "primary" | "warning" | "success" | "danger" }
+> = {
+  draft: { label: "Draft", variant: "default" },
+  sent: { label: "Sent", variant: "primary" },
+  partially_received: { label: "Partially Received", variant: "warning" },
+  received: { label: "Received", variant: "success" },
+  cancelled: { label: "Cancelled", variant: "danger" },
+};
+
+export const purchaseOrderStatusOptions = [
+  { value: "open", label: "Open orders" },
+  { value: "draft", label: "Draft" },
+  { value: "sent", label: "Sent" },
+  { value: "partially_received", label: "Partially Received" },
+  { value: "received", label: "Received" },
+  { value: "cancelled", label: "Cancelled" },
+  { value: "all", label: "All" },
+];
+
+// Statuses the "Open orders" filter stands for
+export const OPEN_PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = [
+  "draft",
+  "sent",
+  "partially_received",
+];
+
+/**
+ * Total value of the given lines at their order prices
+ */
+export const getOrderTotal = (
+  lines: Pick<PurchaseOrderLine, "quantity_ordered" | "unit_price">[]
+) =>
+  lines.reduce((total, line) => total + line.quantity_ordered * line.unit_price, 0);
@@ -0,0 +1,174 @@
+import {
+  ApprovalRule,
+  ApprovalStep,
+  Item,
+  Permission,
+  RequestLine,
+  RequestLineDraft,
+  RequestStatus,
+  User,
+} from "../types";
+import { toBaseQuantity } from "./unitUtils";
+
+/**
+ * Utility functions for building multi-item requests
+ */
+
+/**
+ * Create a request builder line for an item, defaulting to the item's unit
+ * @param item The item being added to the request
+ * @param quantity The initial quantity for the line
+ */
+export const createRequestLine = (
+  item: Item,
+  quantity = 1
+): RequestLineDraft => ({
+  itemId: String(item.id),
+  itemName: item.name,
+  quantity,
+  unit: item.unit || "pcs",
+  baseUnit: item.unit || "pcs",
+  conversions: item.unitConversions ?? [],
+  available: item.quantity,
+});
+
+/**
+ * Validate a request line against the stock available for its item, after
+ * converting its quantity to the item's stock unit
+ * @param line The line to validate
+ * @returns An error message, or null if the line is valid
+ */
+export const getRequestLineError = (line: RequestLineDraft): string | null => {
+  if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+    return "Quantity must be greater than 0";
+  }
+
+  const baseQuantity = toBaseQuantity(
+    line.quantity,
+    line.unit,
+    line.baseUnit,
+    line.conversions
+  );
+  if (baseQuantity === null) {
+    return `${line.itemName} cannot be requested in ${line.unit}`;
+  }
+  if (!Number.isInteger(baseQuantity)) {
+    return `${line.quantity} ${line.unit} is ${baseQuantity} ${line.baseUnit}; only whole ${line.baseUnit} can be requested`;
+  }
+
+  if (baseQuantity > line.available) {
+    return `Only ${line.available} ${line.baseUnit} available`;
+  }
+
+  return null;
+};
+
+/**
+ * Build a project name that summarises the items in a request
+ * @param lines The lines of the request
+ */
+export const getRequestProjectName = (lines: RequestLineDraft[]): string => {
+  if (lines.length === 0) {
+    return "Request";
+  }
+
+  const [first, ...rest] = lines;
+  return rest.length > 0
+    ? `Request for ${first.itemName} and ${rest.length} more item${rest.length > 1 ? "s" : ""}`
+    : `Request for ${first.itemName}`;
+};
+
+/**
+ * Format a request status for display, e.g. "partially_fulfilled" becomes
+ * "Partially fulfilled"
+ * @param status The request or line status
+ */
+export const formatRequestStatus = (status: string): string => {
+  const label = status.replace(/_/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+/**
+ * Quantity of a line that is still owed to the requester
+ * @param line The request line
+ * @returns The requested quantity not yet delivered, or 0 for rejected lines
+ */
+export const getBackOrderQuantity = (line: RequestLine): number =>
+  line.status === "rejected"
+    ? 0
+    : Math.max(line.quantity - line.delivered_quantity, 0);
+
+/**
+ * Creation date range covering a calendar month, for request queries
+ * @param year The full year, e.g. 2024
+ * @param month The month, 1-12
+ */
+export const getMonthDateRange = (
+  year: number,
+  month: number
+): { startDate: string; endDate: string } => {
+  const startDate = new Date(year, month - 1, 1); // month - 1 because Date months are 0-indexed
+  const endDate = new Date(year, month, 0); // 0 gets the last day of the previous month
+  endDate.setHours(23, 59, 59, 999); // Set to end of day
+
+  return {
+    startDate: startDate.toISOString(),
+    endDate: endDate.toISOString(),
+  };
+};
+
+/**
+ * Whether a request is still going through its approval chain
+ * @param status The request status
+ */
+export const isAwaitingApproval = (status: RequestStatus): boolean =>
+  status === "pending" || status === "in_review";
+
+/**
+ * Steps of the earliest approval stage still waiting for a decision. Steps
+ * sharing a step order run in parallel.
+ * @param steps The approval chain of a request
+ */
+export const getCurrentApprovalSteps = (
+  steps: ApprovalStep[] = []
+): ApprovalStep[] => {
+  const pending = steps.filter((step) => step.status === "pending");
+  if (pending.length === 0) {
+    return [];
+  }
+
+  const stage = Math.min(...pending.map((step) => step.step_order));
+  return pending.filter((step) => step.step_order === stage);
+};
+
+/**
+ * Whether a user may decide an approval step: its named approver, anyone with
+ * its role, or when neither is set anyone allowed to approve requests. Mirrors
+ * the check made by the API.
+ * @param step The approval step
+ * @param user The current user
+ * @param can The permission check of the current user
+ */
+export const canDecideApprovalStep = (
+  step: ApprovalStep,
+  user: User | null,
+  can: (permission: Permission) => boolean
+): boolean => {
+  if (!user) return false;
+  if (step.approver_id) return step.approver_id === user.id;
+  if (step.approver_role) return step.approver_role === user.role;
+  return can("requests:approve");
+};
+
+/**
+ * Describe who decides an approval step or rule, e.g. "Jane" or "Any manager"
+ * @param approval The approval step or rule
+ */
+export const describeApprover = (
+  approval: Pick<ApprovalRule, "approver_role" | "approver_id" | "approver_name">
+): string => {
+  if (approval.approver_id) {
+    return approval.approver_name || `User ${approval.approver_id}`;
+  }
+  return approval.approver_role ? `Any ${approval.approver_role}` : "Any approver";
+};
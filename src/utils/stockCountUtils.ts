@@ -0,0 +1,32 @@
+import { StockCountLine, StockCountStatus } from "../types";
+
+/**
+ * Utility functions for stock counts (opname)
+ */
+
+export const stockCountStatusBadges: Record<
+  StockCountStatus,
+  { label: string; variant: "primary" | "success" | "default" }
+> = {
+  open: { label: "Open", variant: "primary" },
+  posted: { label: "Posted", variant: "success" },
+  cancelled: { label: "Cancelled", variant: "default" },
+};
+
+/**
+ * Lines whose counted quantity differs from the frozen expected quantity
+ */
+export const getVarianceLines = (lines: StockCountLine[]) =>
+  lines.filter((line) => line.variance !== null && line.variance !== 0);
+
+/**
+ * Total value of the differences of the given lines
+ */
+export const getVarianceValue = (lines: StockCountLine[]) =>
+  lines.reduce((total, line) => total + (line.variance_value ?? 0), 0);
+
+/**
+ * A signed quantity or value, e.g. "+3" or "-1,250"
+ */
+export const formatVariance = (value: number) =>
+  `${value > 0 ? "+" : ""}${value.toLocaleString()}`;
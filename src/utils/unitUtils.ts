@@ -0,0 +1,66 @@
+import { UnitConversion } from "../types";
+
+/**
+ * Utility functions for the units an item can be counted in. Stock is always
+ * kept in the item's own unit, its base unit; the conversions list the other
+ * units it can be requested or moved in.
+ */
+
+/**
+ * How many of the base unit one of a unit holds
+ * @returns The factor, or null when the item is not counted in the unit
+ */
+export const getUnitFactor = (
+  unit: string,
+  baseUnit: string,
+  conversions: UnitConversion[] = []
+): number | null => {
+  if (!unit || unit === baseUnit) return 1;
+  return conversions.find((conversion) => conversion.unit === unit)?.factor ?? null;
+};
+
+/**
+ * Convert a quantity in one of an item's units to its base unit
+ * @returns The quantity in the base unit, or null when the item is not
+ *   counted in the unit
+ */
+export const toBaseQuantity = (
+  quantity: number,
+  unit: string,
+  baseUnit: string,
+  conversions: UnitConversion[] = []
+): number | null => {
+  const factor = getUnitFactor(unit, baseUnit, conversions);
+  // Rounded so that e.g. 3 × 0.1 compares as 0.3
+  return factor === null ? null : Math.round(quantity * factor * 10000) / 10000;
+};
+
+// The units an item can be picked in: its base unit first
+export const getUnitOptions = (
+  baseUnit: string,
+  conversions: UnitConversion[] = []
+) => [
+  { value: baseUnit, label: baseUnit },
+  ...conversions.map((conversion) => ({
+    value: conversion.unit,
+    label: `${conversion.unit} (${conversion.factor} ${baseUnit})`,
+  })),
+];
+
+// e.g. "1 box = 5 rim"
+export const formatConversion = (conversion: UnitConversion, baseUnit: string) =>
+  `1 ${conversion.unit} = ${conversion.factor} ${baseUnit}`;
+
+/**
+ * A quantity with its unit, followed by the same quantity in the base unit
+ * when the units differ, e.g. "2 box (10 rim)"
+ */
+export const formatWithBaseUnit = (
+  quantity: number,
+  unit: string,
+  baseQuantity: number,
+  baseUnit: string
+): string =>
+  unit === baseUnit
+    ? `${baseQuantity} ${baseUnit}`
+    : `${quantity} ${unit} (${baseQuantity} ${baseUnit})`;
@@ -0,0 +1,16 @@
+import { CostingMethod } from "../types";
+
+/**
+ * Utility functions for inventory valuation
+ */
+
+export const costingMethodLabels: Record<CostingMethod, string> = {
+  average: "Weighted average",
+  fifo: "FIFO",
+};
+
+/**
+ * A value rounded to whole currency units, e.g. "1,250,000"
+ */
+export const formatValue = (value: number) =>
+  Math.round(value).toLocaleString();